@@ -8,12 +8,33 @@
  *   start    Start the server (default)
  *   stop     Stop the running server
  *   status   Show server status
- *   logs     Tail server logs
+ *   logs     Show, filter and follow server logs
+ *   pair     Print a code to pair the browser extension
  *   doctor   Check system requirements
+ *   backup   Back up the database
+ *   restore  Restore the database from a backup
+ *   db:check Check database integrity and size
+ *   prune    Apply the retention policy
+ *   config   Show or change settings
+ *   chat     Chat with a session in the terminal
+ *   ask      Ask a one-off question, with piped input as context
+ *   sessions List, show, rename, export and delete sessions
+ *   pricing  Show or update the pricing table used for cost estimates
+ *   service  Install or remove the systemd user service (Linux)
  */
 
+import { backupCommand } from './cli/backup.js';
+import { askCommand, chatCommand } from './cli/chat.js';
+import { configCommand } from './cli/config.js';
+import { dbCheckCommand } from './cli/db-check.js';
 import { doctorCommand } from './cli/doctor.js';
 import { logsCommand } from './cli/logs.js';
+import { pairCommand } from './cli/pair.js';
+import { pricingCommand } from './cli/pricing.js';
+import { pruneCommand } from './cli/prune.js';
+import { restoreCommand } from './cli/restore.js';
+import { serviceCommand } from './cli/service.js';
+import { sessionsCommand } from './cli/sessions.js';
 import { startCommand } from './cli/start.js';
 import { statusCommand } from './cli/status.js';
 import { stopCommand } from './cli/stop.js';
@@ -27,23 +48,56 @@ Usage:
   devmentorai-server [command] [options]
 
 Commands:
-  start     Start the server in background (default)
-  stop      Stop the running server
-  status    Show server status
-  logs      Tail server logs
-  doctor    Check system requirements and dependencies
+  start           Start the server in background (default)
+  stop            Stop the running server
+  status          Show server status
+  logs            Show server logs (filter with --level, --session, --since, --grep)
+  pair            Print a code to pair the browser extension; pair token prints a bearer token
+  doctor          Check system requirements and dependencies
+  backup [file]   Back up the database (default: ~/.devmentorai/backups/)
+  restore <file>  Restore the database from a backup (server must be stopped)
+  db:check        Check integrity, checkpoint the WAL and report sizes
+  prune           Delete what the retention policy no longer keeps
+  config          Show settings; config get <key>, config set <key> <value>, config edit
+  chat            Chat in the terminal (the server must be running)
+  ask <question>  Ask once and print the answer; piped input is sent along
+  sessions        List sessions; sessions show|rename|delete|export|purge (works when stopped)
+  pricing         Show the cost estimate prices; pricing export [file], pricing update <file>, pricing reset
+  service         Show the systemd user service; service install, service uninstall (Linux)
 
 Options:
   --port <port>       Port to listen on (default: 3847)
+  --host <host>       Interface to bind (default: localhost)
   --foreground, -f    Run in foreground (don't daemonize)
+  --dry-run           With prune and sessions purge: only list what would be deleted
+  --lines, -n <n>     With logs: number of lines to show (default: 50)
+  --follow, -f        With logs: keep printing new lines
+  --level <level>     With logs: minimum level (trace, debug, info, warn, error, fatal)
+  --session <id>      With logs: only lines for this session; with chat/ask: continue this session
+  --type <type>       With chat/ask: type of the new session (default: devops); with sessions: filter
+  --status <status>   With sessions: only active, paused or closed sessions
+  --before <time>     With sessions: only sessions last used before 30d, 2h or an ISO date
+  --format <format>   With sessions export: md, json or html (default: from the file name, else md)
+  --yes, -y           With sessions purge: don't ask for confirmation
+  --since <time>      With logs: only lines newer than 15m, 2h, 1d or an ISO date; with sessions: used since
+  --grep <pattern>    With logs: only lines matching the pattern (case-insensitive)
+  --json              With logs: print the raw JSON lines; with config list, ask, sessions and pricing: print JSON
   --help, -h          Show this help message
   --version, -v       Show version
 
 Examples:
   npx devmentorai-server              # Start server in background
   npx devmentorai-server status       # Check if server is running
+  npx devmentorai-server pair         # Pair the browser extension
   npx devmentorai-server stop         # Stop the server
   npx devmentorai-server doctor       # Verify system setup
+  npx devmentorai-server backup       # Snapshot the database
+  npx devmentorai-server logs -f      # Follow the server log
+  npx devmentorai-server config set logging.level debug   # More detailed logs
+  kubectl logs my-pod | npx devmentorai-server ask "why did this fail"
+  npx devmentorai-server sessions purge --status closed --before 30d   # Clean up old sessions
+  npx devmentorai-server pricing update ./prices.json   # Install updated prices offline
+  devmentorai-server service install  # Keep running across crashes and reboots (global install)
 `;
 
 async function main(): Promise<void> {
@@ -66,7 +120,18 @@ async function main(): Promise<void> {
         command === 'stop' ||
         command === 'status' ||
         command === 'logs' ||
-        command === 'doctor'
+        command === 'pair' ||
+        command === 'doctor' ||
+        command === 'backup' ||
+        command === 'restore' ||
+        command === 'db:check' ||
+        command === 'prune' ||
+        command === 'config' ||
+        command === 'chat' ||
+        command === 'ask' ||
+        command === 'sessions' ||
+        command === 'pricing' ||
+        command === 'service'
         ? 1
         : 0
     )
@@ -86,9 +151,42 @@ async function main(): Promise<void> {
       case 'logs':
         await logsCommand(options);
         break;
+      case 'pair':
+        await pairCommand(options);
+        break;
       case 'doctor':
         await doctorCommand();
         break;
+      case 'backup':
+        await backupCommand(options);
+        break;
+      case 'restore':
+        await restoreCommand(options);
+        break;
+      case 'db:check':
+        await dbCheckCommand();
+        break;
+      case 'prune':
+        await pruneCommand(options);
+        break;
+      case 'config':
+        await configCommand(options);
+        break;
+      case 'chat':
+        await chatCommand(options);
+        break;
+      case 'ask':
+        await askCommand(options);
+        break;
+      case 'sessions':
+        await sessionsCommand(options);
+        break;
+      case 'pricing':
+        await pricingCommand(options);
+        break;
+      case 'service':
+        await serviceCommand(options);
+        break;
       default:
         console.error(`Unknown command: ${command}`);
         console.log(HELP);
@@ -102,8 +200,24 @@ async function main(): Promise<void> {
 
 export interface CliOptions {
   port?: number;
+  host?: string;
   foreground?: boolean;
   lines?: number;
+  dryRun?: boolean;
+  follow?: boolean;
+  level?: string;
+  session?: string;
+  /** Session type for `chat` and `ask`, or a filter for `sessions` */
+  type?: string;
+  status?: string;
+  before?: string;
+  format?: string;
+  yes?: boolean;
+  since?: string;
+  grep?: string;
+  json?: boolean;
+  /** Arguments after the command that are not options, e.g. the file for `restore` */
+  positionals?: string[];
 }
 
 function parseOptions(args: string[]): CliOptions {
@@ -118,18 +232,78 @@ function parseOptions(args: string[]): CliOptions {
           process.exit(1);
         }
         break;
+      case '--host':
+        options.host = args[++i];
+        if (!options.host) {
+          console.error('Error: --host requires a value');
+          process.exit(1);
+        }
+        break;
       case '--foreground':
+        options.foreground = true;
+        break;
+      // `start -f` runs in the foreground, `logs -f` follows like `tail -f`
       case '-f':
         options.foreground = true;
+        options.follow = true;
+        break;
+      case '--follow':
+        options.follow = true;
+        break;
+      case '--json':
+        options.json = true;
+        break;
+      case '--level':
+        options.level = requireValue(args[++i], '--level');
+        break;
+      case '--session':
+        options.session = requireValue(args[++i], '--session');
+        break;
+      case '--type':
+        options.type = requireValue(args[++i], '--type');
+        break;
+      case '--status':
+        options.status = requireValue(args[++i], '--status');
+        break;
+      case '--before':
+        options.before = requireValue(args[++i], '--before');
+        break;
+      case '--format':
+        options.format = requireValue(args[++i], '--format');
+        break;
+      case '--yes':
+      case '-y':
+        options.yes = true;
+        break;
+      case '--since':
+        options.since = requireValue(args[++i], '--since');
+        break;
+      case '--grep':
+        options.grep = requireValue(args[++i], '--grep');
+        break;
+      case '--dry-run':
+        options.dryRun = true;
         break;
       case '--lines':
       case '-n':
         options.lines = Number.parseInt(args[++i], 10);
         break;
+      default:
+        if (!args[i].startsWith('-')) {
+          options.positionals = [...(options.positionals ?? []), args[i]];
+        }
     }
   }
 
   return options;
 }
 
+function requireValue(value: string | undefined, option: string): string {
+  if (!value) {
+    console.error(`Error: ${option} requires a value`);
+    process.exit(1);
+  }
+  return value;
+}
+
 main();
@@ -0,0 +1,17 @@
+/**
+ * CLI: backup command
+ * Copies the database to a backup file. Safe while the server is running.
+ */
+
+import type { CliOptions } from '../cli.js';
+import { backupDatabase } from '../lib/backup.js';
+import { getFileStats } from '../lib/paths.js';
+import { formatBytes } from './db-check.js';
+
+export async function backupCommand(options: CliOptions): Promise<void> {
+  const file = await backupDatabase(options.positionals?.[0]);
+  const size = getFileStats(file)?.size ?? 0;
+
+  console.log(`\n✓ Database backed up to ${file} (${formatBytes(size)})`);
+  console.log(`  Restore it with: devmentorai-server restore ${file}\n`);
+}
@@ -0,0 +1,349 @@
+/**
+ * CLI: chat and ask commands
+ * Talk to a session from the terminal. Messages go through the running
+ * server's streaming endpoint, the same one the side panel uses, so the
+ * conversation shows up there too.
+ */
+
+import readline from 'node:readline/promises';
+import type {
+  Message,
+  PaginatedResponse,
+  PermissionDecision,
+  Session,
+  ToolPermissionRequest,
+} from '@devmentorai/shared';
+import type { CliOptions } from '../cli.js';
+import { type ServerClient, connectToServer } from '../lib/server-client.js';
+import { loadServerConfig } from '../services/config.service.js';
+
+const ASK_USAGE =
+  'Usage: devmentorai-server ask "<question>" (piped input is sent along, e.g. kubectl logs pod | devmentorai-server ask "why did this fail")';
+
+const DEFAULT_SESSION_TYPE = 'devops';
+
+/** Piped input beyond this is cut from the start, since the end of a log matters most */
+export const MAX_ASK_INPUT_CHARS = 60_000;
+
+/** Messages shown when `chat` continues a session */
+const HISTORY_MESSAGES = 6;
+const HISTORY_PREVIEW_CHARS = 400;
+
+export interface TurnResult {
+  content: string;
+  messageId?: string;
+  /** Why the stream ended: `completed`, `timeout`, `idle_timeout`, ... */
+  reason?: string;
+  toolCalls: string[];
+  error?: string;
+  traceId?: string;
+}
+
+type PermissionPrompt = (request: ToolPermissionRequest) => Promise<PermissionDecision>;
+
+interface TurnHandlers {
+  write: (text: string) => void;
+  askPermission: PermissionPrompt;
+  signal?: AbortSignal;
+}
+
+/**
+ * The question followed by the piped input in a code block
+ */
+export function buildAskPrompt(question: string, input = ''): string {
+  const text = input.trim();
+  if (!text) return question;
+
+  const omitted = text.length - MAX_ASK_INPUT_CHARS;
+  const kept =
+    omitted > 0
+      ? `[... ${omitted} earlier characters omitted]\n${text.slice(-MAX_ASK_INPUT_CHARS)}`
+      : text;
+  return `${question || 'What does this output tell us, and is anything wrong?'}\n\n\`\`\`\n${kept}\n\`\`\``;
+}
+
+function truncate(text: string, max: number): string {
+  const line = text.replace(/\s+/g, ' ').trim();
+  return line.length > max ? `${line.slice(0, max - 1)}…` : line;
+}
+
+async function readStdin(): Promise<string> {
+  if (process.stdin.isTTY) return '';
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+/**
+ * Continue `--session <id>` or create a session of `--type` (default devops)
+ */
+async function openSession(
+  client: ServerClient,
+  options: CliOptions,
+  name: string
+): Promise<Session> {
+  if (options.session) {
+    const session = await client.request<Session>(
+      `/api/sessions/${encodeURIComponent(options.session)}`
+    );
+    await client.request<Session>(`/api/sessions/${session.id}/resume`, { method: 'POST' });
+    return session;
+  }
+  return client.request<Session>('/api/sessions', {
+    method: 'POST',
+    body: { name, type: options.type ?? DEFAULT_SESSION_TYPE },
+  });
+}
+
+/**
+ * Send one message and stream the answer through `handlers.write`
+ */
+async function sendTurn(
+  client: ServerClient,
+  sessionId: string,
+  prompt: string,
+  handlers: TurnHandlers
+): Promise<TurnResult> {
+  const result: TurnResult = { content: '', toolCalls: [] };
+  const answers: Promise<void>[] = [];
+
+  await client.stream(
+    `/api/sessions/${sessionId}/chat/stream`,
+    { prompt },
+    (event) => {
+      result.traceId ??= event.traceId;
+      switch (event.type) {
+        case 'message_delta':
+          result.content += event.data.deltaContent ?? '';
+          handlers.write(event.data.deltaContent ?? '');
+          break;
+        case 'message_complete': {
+          // Deltas normally add up to the final message; print whatever they missed
+          const content = event.data.content ?? '';
+          if (content.startsWith(result.content)) {
+            handlers.write(content.slice(result.content.length));
+          }
+          result.content = content;
+          break;
+        }
+        case 'tool_start':
+          result.toolCalls.push(event.data.toolName ?? 'unknown');
+          process.stderr.write(`\n  ⚙ ${event.data.toolName ?? 'tool'}\n`);
+          break;
+        case 'tool_access_denied': {
+          const denial = event.data.accessDenial;
+          if (denial) {
+            const why =
+              denial.reason === 'secret' ? 'looks like a secret' : 'outside the workspace';
+            process.stderr.write(`  ✗ ${denial.toolName} refused ${denial.path} (${why})\n`);
+          }
+          break;
+        }
+        case 'permission_request': {
+          const request = event.data.permissionRequest;
+          if (!request) break;
+          // The server holds the stream until the prompt is answered
+          answers.push(
+            handlers
+              .askPermission(request)
+              .then((decision) =>
+                client.request(`/api/sessions/${sessionId}/permissions/${request.requestId}`, {
+                  method: 'POST',
+                  body: { decision },
+                })
+              )
+              .then(
+                () => undefined,
+                (error: Error) => {
+                  process.stderr.write(
+                    `  ✗ Could not answer the permission prompt: ${error.message}\n`
+                  );
+                }
+              )
+          );
+          break;
+        }
+        case 'error':
+          result.error = event.data.error ?? 'Unknown error';
+          break;
+        case 'done':
+          result.messageId = event.data.messageId;
+          result.reason = event.data.reason;
+          break;
+      }
+    },
+    handlers.signal
+  );
+
+  await Promise.all(answers);
+  return result;
+}
+
+function promptPermission(rl: readline.Interface): PermissionPrompt {
+  return async (request) => {
+    const what = request.summary ? `${request.toolName} (${request.summary})` : request.toolName;
+    try {
+      const answer = await rl.question(
+        `\n  ? Allow ${what}? [y]es once, [a]lways for this session, [N]o: `
+      );
+      const choice = answer.trim().toLowerCase();
+      return choice === 'a' ? 'allow_session' : choice === 'y' ? 'allow_once' : 'deny';
+    } catch {
+      // Input closed
+      return 'deny';
+    }
+  };
+}
+
+async function printHistory(client: ServerClient, sessionId: string): Promise<void> {
+  const { total } = await client.request<PaginatedResponse<Message>>(
+    `/api/sessions/${sessionId}/messages?page=1&pageSize=1`
+  );
+  if (total === 0) return;
+
+  const pageSize = 100;
+  const lastPage = await client.request<PaginatedResponse<Message>>(
+    `/api/sessions/${sessionId}/messages?page=${Math.ceil(total / pageSize)}&pageSize=${pageSize}`
+  );
+  const recent = lastPage.items
+    .filter((message) => message.role !== 'system')
+    .slice(-HISTORY_MESSAGES);
+
+  if (total > recent.length) {
+    console.log(`   … ${total - recent.length} earlier messages\n`);
+  }
+  for (const message of recent) {
+    const label = message.role === 'user' ? 'you' : 'assistant';
+    console.log(`${label} › ${truncate(message.content, HISTORY_PREVIEW_CHARS)}\n`);
+  }
+}
+
+export async function chatCommand(options: CliOptions): Promise<void> {
+  const client = await connectToServer(options.port || loadServerConfig().server.port);
+  const session = await openSession(client, options, 'Terminal chat');
+
+  console.log(`\n💬 ${session.name} (${session.type}${session.model ? `, ${session.model}` : ''})`);
+  console.log(`   Session ${session.id}; it also shows up in the side panel.`);
+  console.log('   Type /exit to quit. Ctrl+C stops an answer.\n');
+  if (options.session) {
+    await printHistory(client, session.id);
+  }
+
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  let controller: AbortController | null = null;
+  rl.on('SIGINT', () => {
+    if (controller) {
+      controller.abort();
+    } else {
+      rl.close();
+    }
+  });
+
+  while (true) {
+    let line: string;
+    try {
+      line = (await rl.question('you › ')).trim();
+    } catch {
+      // Ctrl+C or Ctrl+D at the prompt
+      console.log('');
+      break;
+    }
+    if (!line) continue;
+    if (line === '/exit' || line === '/quit') break;
+    if (line === '/help') {
+      console.log('   /exit  Leave the chat (the session is kept)\n   Ctrl+C stops an answer\n');
+      continue;
+    }
+
+    controller = new AbortController();
+    process.stdout.write('\nassistant › ');
+    try {
+      const result = await sendTurn(client, session.id, line, {
+        write: (text) => process.stdout.write(text),
+        askPermission: promptPermission(rl),
+        signal: controller.signal,
+      });
+      if (result.error) {
+        console.error(`\n✗ ${result.error}`);
+      } else if (result.reason && result.reason !== 'completed') {
+        console.error(`\n(stopped: ${result.reason})`);
+      }
+    } catch (error) {
+      if (controller.signal.aborted) {
+        console.log('\n(stopped)');
+      } else {
+        console.error(`\n✗ ${error instanceof Error ? error.message : String(error)}`);
+      }
+    } finally {
+      controller = null;
+    }
+    process.stdout.write('\n\n');
+  }
+
+  rl.close();
+}
+
+export async function askCommand(options: CliOptions): Promise<void> {
+  const question = (options.positionals ?? []).join(' ').trim();
+  const input = await readStdin();
+  if (!question && !input.trim()) {
+    throw new Error(ASK_USAGE);
+  }
+
+  const client = await connectToServer(options.port || loadServerConfig().server.port);
+  const session = await openSession(
+    client,
+    options,
+    `Ask: ${truncate(question || input.trim().split('\n')[0], 60)}`
+  );
+
+  // Tool prompts need a terminal; with piped input they are denied
+  const rl = process.stdin.isTTY
+    ? readline.createInterface({ input: process.stdin, output: process.stderr })
+    : null;
+  const denyPermission: PermissionPrompt = async (request) => {
+    process.stderr.write(
+      `  ✗ Denied ${request.toolName}. To approve tools, continue with: devmentorai-server chat --session ${session.id}\n`
+    );
+    return 'deny';
+  };
+
+  let result: TurnResult;
+  try {
+    result = await sendTurn(client, session.id, buildAskPrompt(question, input), {
+      write: options.json ? () => {} : (text) => process.stdout.write(text),
+      askPermission: rl ? promptPermission(rl) : denyPermission,
+    });
+  } finally {
+    rl?.close();
+  }
+
+  if (options.json) {
+    console.log(
+      JSON.stringify(
+        {
+          sessionId: session.id,
+          messageId: result.messageId ?? null,
+          content: result.content,
+          reason: result.reason ?? null,
+          toolCalls: result.toolCalls,
+          error: result.error ?? null,
+          traceId: result.traceId ?? null,
+        },
+        null,
+        2
+      )
+    );
+  } else {
+    process.stdout.write('\n');
+  }
+
+  if (result.error) {
+    throw new Error(result.error);
+  }
+  if (result.reason && result.reason !== 'completed') {
+    throw new Error(`The answer stopped early (${result.reason})`);
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * CLI: config command
+ * Reads and changes settings in ~/.devmentorai/config.json. A running server
+ * picks up changes within a second; a few settings need a restart.
+ */
+
+import { spawnSync } from 'node:child_process';
+import fs from 'node:fs';
+import { z } from 'zod';
+import type { CliOptions } from '../cli.js';
+import { CONFIG_FILE, DATA_DIR, ensureDir } from '../lib/paths.js';
+import { scrubSecrets } from '../lib/scrub.js';
+import {
+  ConfigService,
+  DEFAULT_SERVER_CONFIG,
+  RESTART_REQUIRED_KEYS,
+  checkConfigFile,
+  formatConfigErrors,
+  parseConfigValue,
+} from '../services/config.service.js';
+
+const USAGE = 'Usage: devmentorai-server config [list | get <key> | set <key> <value> | edit]';
+
+function formatValue(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/** A value as `config list` shows it, with secrets such as API keys masked */
+function shownValue(service: ConfigService, key: string): string {
+  const field = key.split('.').pop() as string;
+  const scrubbed = scrubSecrets({ [field]: service.getValue(key) }) as Record<string, unknown>;
+  return formatValue(scrubbed[field]);
+}
+
+function listConfig(service: ConfigService, json: boolean): void {
+  if (json) {
+    console.log(JSON.stringify(scrubSecrets(service.get()), null, 2));
+    return;
+  }
+
+  const entries = service.list();
+  const shown = scrubSecrets(service.get()) as Record<string, Record<string, unknown>>;
+  const width = Math.max(...entries.map((entry) => entry.key.length));
+  console.log(`\n⚙ DevMentorAI configuration (${CONFIG_FILE})\n`);
+  for (const { key, source } of entries) {
+    const [section, field] = key.split('.');
+    const note = source === 'default' ? '' : `  (${source === 'env' ? 'environment' : 'file'})`;
+    console.log(`  ${key.padEnd(width)}  ${formatValue(shown[section][field])}${note}`);
+  }
+  console.log('');
+}
+
+function setConfig(service: ConfigService, key: string, raw: string): void {
+  try {
+    service.set(key, parseConfigValue(key, raw));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new Error(`Invalid value for ${key}:\n${formatConfigErrors(error)}`);
+    }
+    throw error;
+  }
+
+  console.log(`\n✓ ${key} = ${shownValue(service, key)}`);
+  if (service.list().find((entry) => entry.key === key)?.source === 'env') {
+    console.log('  ⚠ An environment variable overrides this setting.');
+  }
+  console.log(
+    RESTART_REQUIRED_KEYS.includes(key)
+      ? '  Restart the server to apply it: devmentorai-server stop && devmentorai-server start\n'
+      : '  A running server applies it right away.\n'
+  );
+}
+
+function editConfig(): void {
+  if (!fs.existsSync(CONFIG_FILE)) {
+    ensureDir(DATA_DIR);
+    fs.writeFileSync(CONFIG_FILE, `${JSON.stringify(DEFAULT_SERVER_CONFIG, null, 2)}\n`, {
+      mode: 0o600,
+    });
+  }
+
+  const editor = process.env.VISUAL || process.env.EDITOR || 'vi';
+  const result = spawnSync(`${editor} "${CONFIG_FILE}"`, { stdio: 'inherit', shell: true });
+  if (result.status !== 0) {
+    throw new Error(`Editor "${editor}" exited with code ${result.status}`);
+  }
+
+  const problems = checkConfigFile();
+  if (problems.length > 0) {
+    console.log('\n⚠ config.json has problems; invalid sections use their defaults:');
+    for (const problem of problems) {
+      console.log(`  - ${problem}`);
+    }
+    console.log('');
+    return;
+  }
+  console.log('\n✓ config.json saved. A running server applies it right away.\n');
+}
+
+export async function configCommand(options: CliOptions): Promise<void> {
+  const [action = 'list', key, ...rest] = options.positionals ?? [];
+  const service = new ConfigService();
+
+  switch (action) {
+    case 'list':
+      listConfig(service, options.json ?? false);
+      break;
+    case 'get':
+      if (!key) throw new Error(USAGE);
+      console.log(shownValue(service, key));
+      break;
+    case 'set':
+      if (!key || rest.length === 0) throw new Error(USAGE);
+      setConfig(service, key, rest.join(' '));
+      break;
+    case 'edit':
+      editConfig();
+      break;
+    default:
+      throw new Error(`Unknown config action "${action}". ${USAGE}`);
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * CLI: db:check command
+ * Checks database integrity, checkpoints the WAL and reports sizes.
+ */
+
+import { checkDatabase } from '../lib/backup.js';
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export async function dbCheckCommand(): Promise<void> {
+  const report = checkDatabase();
+  const integrityOk = report.integrity.length === 1 && report.integrity[0] === 'ok';
+
+  console.log('\n🩺 DevMentorAI Database Check\n');
+  console.log(`  File:         ${report.file}`);
+  console.log(
+    `  Schema:       v${report.schemaVersion}${
+      report.schemaVersion < report.latestSchemaVersion
+        ? ` (v${report.latestSchemaVersion} available, applied on next start)`
+        : ''
+    }`
+  );
+  console.log(`  Integrity:    ${integrityOk ? '✓ ok' : '✗ damaged'}`);
+  for (const problem of integrityOk ? [] : report.integrity.slice(0, 10)) {
+    console.log(`                ${problem}`);
+  }
+  console.log(
+    `  Foreign keys: ${
+      report.foreignKeyViolations === 0 ? '✓ ok' : `⚠ ${report.foreignKeyViolations} orphaned rows`
+    }`
+  );
+  console.log(
+    `  WAL:          ${
+      report.checkpoint.busy
+        ? '⚠ checkpoint incomplete (database busy)'
+        : `✓ checkpointed ${report.checkpoint.checkpointedPages} pages`
+    }`
+  );
+  console.log(`  Database:     ${formatBytes(report.sizes.database)}`);
+  console.log(`  WAL file:     ${formatBytes(report.sizes.wal)}`);
+  console.log(`  Free space:   ${formatBytes(report.sizes.freeSpace)}`);
+  console.log(`  Images:       ${formatBytes(report.sizes.images)}`);
+  console.log(`  Sessions:     ${report.rows.sessions} (${report.rows.messages} messages)\n`);
+
+  if (!integrityOk) {
+    console.log('  Restore a backup with: devmentorai-server restore <file>\n');
+    process.exit(1);
+  }
+}
@@ -6,10 +6,9 @@
 import { execSync } from 'node:child_process';
 import fs from 'node:fs';
 import net from 'node:net';
-import { DEFAULT_CONFIG } from '@devmentorai/shared';
-import { DATA_DIR, IMAGES_DIR, LOG_DIR } from '../lib/paths.js';
-
-const DEFAULT_PORT = DEFAULT_CONFIG.DEFAULT_PORT;
+import { CONFIG_FILE, DATA_DIR, IMAGES_DIR, LOG_DIR } from '../lib/paths.js';
+import { SERVICE_NAME, type ServiceStatus, getServiceStatus } from '../lib/systemd.js';
+import { checkConfigFile, loadServerConfig } from '../services/config.service.js';
 
 interface CheckResult {
   name: string;
@@ -20,10 +19,13 @@ interface CheckResult {
 export async function doctorCommand(): Promise<void> {
   console.log('\n🔍 DevMentorAI Server Doctor\n');
 
+  const service = getServiceStatus();
   const checks: CheckResult[] = [
     checkNodeVersion(),
     checkDataDirectory(),
-    await checkPort(DEFAULT_PORT),
+    checkConfig(),
+    await checkPort(loadServerConfig().server.port, service?.active ?? false),
+    ...(service ? [checkService(service)] : []),
     checkCopilotCli(),
   ];
 
@@ -85,11 +87,52 @@ function checkDataDirectory(): CheckResult {
   }
 }
 
-function checkPort(port: number): Promise<CheckResult> {
+function checkConfig(): CheckResult {
+  if (!fs.existsSync(CONFIG_FILE)) {
+    return { name: 'Config', status: 'pass', message: 'defaults (no config.json)' };
+  }
+
+  const problems = checkConfigFile();
+  if (problems.length === 0) {
+    return { name: 'Config', status: 'pass', message: CONFIG_FILE };
+  }
+  return {
+    name: 'Config',
+    status: 'warn',
+    message: `${problems.join('; ')} — fix with: devmentorai-server config edit`,
+  };
+}
+
+function checkService(service: ServiceStatus): CheckResult {
+  const name = 'systemd service';
+  if (!service.installed) {
+    return {
+      name,
+      status: 'pass',
+      message: 'not installed (optional: devmentorai-server service install)',
+    };
+  }
+  if (service.active) {
+    return {
+      name,
+      status: 'pass',
+      message: `${SERVICE_NAME} ${service.state}${service.pid ? ` (PID ${service.pid})` : ''}`,
+    };
+  }
+  return {
+    name,
+    status: 'warn',
+    message: `${SERVICE_NAME} is ${service.state} — see: systemctl --user status ${SERVICE_NAME}`,
+  };
+}
+
+function checkPort(port: number, serviceActive: boolean): Promise<CheckResult> {
   return new Promise((resolve) => {
     const server = net.createServer();
     server.once('error', (err: NodeJS.ErrnoException) => {
-      if (err.code === 'EADDRINUSE') {
+      if (err.code === 'EADDRINUSE' && serviceActive) {
+        resolve({ name: `Port ${port}`, status: 'pass', message: `In use by ${SERVICE_NAME}` });
+      } else if (err.code === 'EADDRINUSE') {
         resolve({
           name: `Port ${port}`,
           status: 'warn',
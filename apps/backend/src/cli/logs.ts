@@ -1,26 +1,285 @@
 /**
  * CLI: logs command
- * Tail the DevMentorAI server log file.
+ * Show, filter and follow the DevMentorAI server log.
+ *
+ * The server writes one JSON object per line (see lib/logger.ts). Lines are
+ * pretty-printed unless --json is given; lines that are not JSON (older logs)
+ * are shown as they are.
  */
 
 import fs from 'node:fs';
 import type { CliOptions } from '../cli.js';
-import { LOG_FILE } from '../lib/paths.js';
+import { listRotatedLogs } from '../lib/logger.js';
+import { LOG_FILE, STDOUT_LOG_FILE } from '../lib/paths.js';
+
+export const LOG_LEVELS: Record<string, number> = {
+  trace: 10,
+  debug: 20,
+  info: 30,
+  warn: 40,
+  error: 50,
+  fatal: 60,
+};
+
+const LEVEL_COLORS: Record<number, number> = { 10: 90, 20: 34, 30: 32, 40: 33, 50: 31, 60: 35 };
+
+const FOLLOW_INTERVAL_MS = 500;
+
+// Fields shown in the line itself rather than as key=value
+const SHOWN_FIELDS = new Set([
+  'level',
+  'time',
+  'pid',
+  'hostname',
+  'msg',
+  'traceId',
+  'sessionId',
+  'req',
+  'res',
+  'err',
+  'responseTime',
+]);
+
+export interface LogEntry {
+  level?: number;
+  time?: number;
+  msg?: string;
+  traceId?: string;
+  sessionId?: string;
+  req?: { method?: string; url?: string };
+  res?: { statusCode?: number };
+  err?: { message?: string; stack?: string };
+  [key: string]: unknown;
+}
+
+export interface LogLine {
+  raw: string;
+  /** null for lines that are not JSON */
+  entry: LogEntry | null;
+}
+
+export interface LogFilters {
+  /** Minimum pino level */
+  level?: number;
+  sessionId?: string;
+  /** Epoch milliseconds */
+  since?: number;
+  grep?: RegExp;
+}
+
+export function parseLogLine(raw: string): LogLine {
+  if (!raw.startsWith('{')) return { raw, entry: null };
+  try {
+    return { raw, entry: JSON.parse(raw) as LogEntry };
+  } catch {
+    return { raw, entry: null };
+  }
+}
+
+/**
+ * `--since` or `--before` value to epoch milliseconds: a duration back from
+ * now (`30s`, `15m`, `2h`, `7d`) or anything Date can parse
+ */
+export function parseSince(value: string, now: number = Date.now(), option = '--since'): number {
+  const duration = /^(\d+)\s*(s|m|h|d)$/.exec(value.trim());
+  if (duration) {
+    const unitMs = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 }[
+      duration[2] as 's' | 'm' | 'h' | 'd'
+    ];
+    return now - Number(duration[1]) * unitMs;
+  }
+
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) {
+    throw new Error(`Invalid ${option} value "${value}". Use e.g. 15m, 2h, 1d or an ISO date.`);
+  }
+  return date;
+}
+
+export function buildFilters(options: CliOptions): LogFilters {
+  const filters: LogFilters = {};
+
+  if (options.level) {
+    const level = LOG_LEVELS[options.level.toLowerCase()];
+    if (level === undefined) {
+      throw new Error(
+        `Unknown log level "${options.level}". Use one of: ${Object.keys(LOG_LEVELS).join(', ')}`
+      );
+    }
+    filters.level = level;
+  }
+  if (options.session) filters.sessionId = options.session;
+  if (options.since) filters.since = parseSince(options.since);
+  if (options.grep) {
+    try {
+      filters.grep = new RegExp(options.grep, 'i');
+    } catch {
+      throw new Error(`Invalid --grep pattern "${options.grep}"`);
+    }
+  }
+
+  return filters;
+}
+
+export function matchesFilters({ raw, entry }: LogLine, filters: LogFilters): boolean {
+  if (filters.grep && !filters.grep.test(raw)) return false;
+
+  // Lines that are not JSON carry no level, time or session
+  if (!entry) {
+    return filters.level === undefined && !filters.sessionId && filters.since === undefined;
+  }
+
+  if (filters.level !== undefined && (entry.level ?? 0) < filters.level) return false;
+  if (filters.since !== undefined && (entry.time ?? 0) < filters.since) return false;
+  if (filters.sessionId) {
+    const { sessionId } = filters;
+    const mentioned =
+      entry.sessionId === sessionId ||
+      entry.req?.url?.includes(sessionId) ||
+      entry.msg?.includes(sessionId);
+    if (!mentioned) return false;
+  }
+
+  return true;
+}
+
+function colorize(text: string, code: number, color: boolean): string {
+  return color ? `\x1b[${code}m${text}\x1b[39m` : text;
+}
+
+function levelName(level: number | undefined): string {
+  return Object.keys(LOG_LEVELS).find((name) => LOG_LEVELS[name] === level) ?? 'log';
+}
+
+/**
+ * One human-readable line (plus an indented stack for errors)
+ */
+export function formatLogLine({ raw, entry }: LogLine, color = false): string {
+  if (!entry) return raw;
+
+  const time = entry.time ? new Date(entry.time).toTimeString().slice(0, 8) : '--:--:--';
+  const level = levelName(entry.level).toUpperCase().padEnd(5);
+  const parts = [
+    colorize(time, 90, color),
+    colorize(level, LEVEL_COLORS[entry.level ?? 0] ?? 39, color),
+    entry.msg ?? '',
+  ];
+
+  if (entry.req) parts.push(`${entry.req.method} ${entry.req.url}`);
+  if (entry.res?.statusCode) parts.push(String(entry.res.statusCode));
+  if (typeof entry.responseTime === 'number') parts.push(`${Math.round(entry.responseTime)}ms`);
+
+  for (const [key, value] of Object.entries(entry)) {
+    if (SHOWN_FIELDS.has(key) || value === undefined) continue;
+    parts.push(`${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`);
+  }
+
+  const ids = [
+    entry.traceId && `trace=${entry.traceId.slice(0, 8)}`,
+    entry.sessionId && `session=${entry.sessionId}`,
+  ].filter(Boolean);
+  if (ids.length > 0) parts.push(colorize(ids.join(' '), 90, color));
+
+  let line = parts.filter(Boolean).join(' ');
+  if (entry.err) {
+    const detail = entry.err.stack ?? entry.err.message ?? '';
+    line += `\n${detail
+      .split('\n')
+      .map((stackLine) => `    ${stackLine}`)
+      .join('\n')}`;
+  }
+  return line;
+}
+
+/**
+ * The last `limit` matching lines, reading rotated logs only as far back as needed
+ */
+function readMatchingLines(filters: LogFilters, limit: number): LogLine[] {
+  const files = [...listRotatedLogs(), LOG_FILE].filter((file) => fs.existsSync(file)).reverse();
+  const matches: LogLine[] = [];
+
+  for (const file of files) {
+    // A file last written before --since holds nothing newer
+    if (filters.since !== undefined && fs.statSync(file).mtimeMs < filters.since) break;
+
+    const lines = fs.readFileSync(file, 'utf-8').split('\n');
+    for (let i = lines.length - 1; i >= 0 && matches.length < limit; i--) {
+      if (!lines[i]) continue;
+      const line = parseLogLine(lines[i]);
+      if (matchesFilters(line, filters)) matches.push(line);
+    }
+    if (matches.length >= limit) break;
+  }
+
+  return matches.reverse();
+}
+
+/**
+ * Print lines appended to the log from now on, reopening it after rotation
+ */
+async function followLog(print: (line: LogLine) => void, filters: LogFilters): Promise<never> {
+  let position = fs.existsSync(LOG_FILE) ? fs.statSync(LOG_FILE).size : 0;
+  let inode = fs.existsSync(LOG_FILE) ? fs.statSync(LOG_FILE).ino : 0;
+  let partial = '';
+
+  for (;;) {
+    await new Promise((resolve) => setTimeout(resolve, FOLLOW_INTERVAL_MS));
+    if (!fs.existsSync(LOG_FILE)) continue;
+
+    const stats = fs.statSync(LOG_FILE);
+    if (stats.ino !== inode || stats.size < position) {
+      // Rotated: the new file starts from scratch
+      inode = stats.ino;
+      position = 0;
+      partial = '';
+    }
+    if (stats.size === position) continue;
+
+    const fd = fs.openSync(LOG_FILE, 'r');
+    const buffer = Buffer.alloc(stats.size - position);
+    fs.readSync(fd, buffer, 0, buffer.length, position);
+    fs.closeSync(fd);
+    position = stats.size;
+
+    const lines = (partial + buffer.toString('utf-8')).split('\n');
+    partial = lines.pop() ?? '';
+    for (const raw of lines) {
+      if (!raw) continue;
+      const line = parseLogLine(raw);
+      if (matchesFilters(line, filters)) print(line);
+    }
+  }
+}
 
 export async function logsCommand(options: CliOptions): Promise<void> {
   const lines = options.lines || 50;
+  const filters = buildFilters(options);
+  const color = !options.json && Boolean(process.stdout.isTTY);
+  const print = (line: LogLine) =>
+    console.log(options.json ? line.raw : formatLogLine(line, color));
 
-  if (!fs.existsSync(LOG_FILE)) {
+  if (!fs.existsSync(LOG_FILE) && listRotatedLogs().length === 0) {
     console.log(`\n⊘ No log file found at ${LOG_FILE}`);
     console.log('  The server may not have been started yet.\n');
-    return;
+    if (!options.follow) return;
   }
 
-  const content = fs.readFileSync(LOG_FILE, 'utf-8');
-  const allLines = content.split('\n');
-  const tailLines = allLines.slice(-lines).join('\n');
+  const matches = readMatchingLines(filters, lines);
+  if (!options.json) {
+    const filtered = Object.keys(filters).length > 0 ? ' matching' : '';
+    console.log(`\n📋 Last ${matches.length}${filtered} lines of ${LOG_FILE}:\n`);
+  }
+  for (const line of matches) print(line);
+
+  if (options.follow) {
+    if (!options.json) console.log('\n… following (Ctrl+C to stop)\n');
+    await followLog(print, filters);
+  }
 
-  console.log(`\n📋 Last ${lines} lines of ${LOG_FILE}:\n`);
-  console.log(tailLines);
-  console.log('');
+  if (!options.json) {
+    if (matches.length === 0 && fs.existsSync(STDOUT_LOG_FILE)) {
+      console.log(`  Output from before logging started is in ${STDOUT_LOG_FILE}`);
+    }
+    console.log('');
+  }
 }
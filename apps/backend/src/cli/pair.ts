@@ -0,0 +1,31 @@
+/**
+ * CLI: pair command
+ * Prints a short-lived code that pairs a browser extension with this backend,
+ * or with `pair token` a bearer token for scripts and Prometheus scrapers.
+ */
+
+import type { CliOptions } from '../cli.js';
+import { getPairingCode, getPairingCodeExpiry, issueToken, loadAuthSecret } from '../lib/auth.js';
+import { AUTH_SECRET_FILE } from '../lib/paths.js';
+
+const USAGE = 'Usage: devmentorai-server pair [token]';
+
+export async function pairCommand(options: CliOptions): Promise<void> {
+  const [action] = options.positionals ?? [];
+  const secret = loadAuthSecret();
+  if (action === 'token') {
+    // Bare token on stdout so it can be redirected into a credentials file
+    console.log(issueToken(secret));
+    return;
+  }
+  if (action) throw new Error(USAGE);
+
+  const now = Date.now();
+  const expiresAt = getPairingCodeExpiry(now);
+
+  console.log('\n🔑 DevMentorAI pairing code\n');
+  console.log(`    ${getPairingCode(secret, now)}\n`);
+  console.log('  Enter it under Settings → Backend connection in the extension.');
+  console.log(`  Valid until ${expiresAt.toLocaleTimeString()}.`);
+  console.log(`  To unpair every browser, delete ${AUTH_SECRET_FILE} and restart.\n`);
+}
@@ -0,0 +1,90 @@
+/**
+ * CLI: pricing command
+ * Shows the pricing table `estimate_cost` uses and installs updated ones from
+ * a local file, so prices can be refreshed without network access.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import type { CliOptions } from '../cli.js';
+import { PRICING_FILE } from '../lib/paths.js';
+import {
+  BUNDLED_PRICING,
+  CLOUD_PROVIDERS,
+  installPricingFile,
+  loadPricing,
+} from '../tools/cost-estimation/pricing.js';
+
+const USAGE = 'Usage: devmentorai-server pricing [show | export [file] | update <file> | reset]';
+
+function showPricing(json: boolean): void {
+  const { table, source, warning } = loadPricing();
+  if (json) {
+    console.log(JSON.stringify(table, null, 2));
+    return;
+  }
+
+  console.log(`\n💲 Pricing table ${table.version} (${table.currency})`);
+  console.log(`  Source: ${source === 'user' ? PRICING_FILE : 'bundled with the server'}`);
+  if (source === 'user') console.log(`  Bundled version: ${BUNDLED_PRICING.version}`);
+  console.log('');
+  for (const provider of CLOUD_PROVIDERS) {
+    const pricing = table.providers[provider];
+    const counts = [
+      `${Object.keys(pricing.compute).length} instance types`,
+      `${Object.keys(pricing.database).length} database tiers`,
+      `${Object.keys(pricing.storage).length} storage classes`,
+    ];
+    console.log(`  ${provider.padEnd(6)} ${pricing.region.padEnd(12)} ${counts.join(', ')}`);
+  }
+  if (warning) console.log(`\n  ⚠ ${warning}`);
+  console.log(
+    '\n  Edit a copy from `pricing export` and install it with `pricing update <file>`.\n'
+  );
+}
+
+function exportPricing(file: string): void {
+  const target = path.resolve(file);
+  fs.writeFileSync(target, `${JSON.stringify(loadPricing().table, null, 2)}\n`);
+  console.log(`\n✓ Pricing table written to ${target}`);
+  console.log('  Bump "version" to today\'s date after editing, then run: pricing update <file>\n');
+}
+
+function updatePricing(file: string): void {
+  const table = installPricingFile(path.resolve(file));
+  console.log(`\n✓ Pricing table ${table.version} installed in ${PRICING_FILE}`);
+  console.log('  estimate_cost uses it right away.\n');
+}
+
+function resetPricing(): void {
+  if (!fs.existsSync(PRICING_FILE)) {
+    console.log(`\n✓ Already using the bundled pricing table (${BUNDLED_PRICING.version})\n`);
+    return;
+  }
+  fs.rmSync(PRICING_FILE);
+  console.log(
+    `\n✓ Removed ${PRICING_FILE}; using the bundled table (${BUNDLED_PRICING.version})\n`
+  );
+}
+
+export async function pricingCommand(options: CliOptions): Promise<void> {
+  const [action = 'show', file] = options.positionals ?? [];
+
+  switch (action) {
+    case 'show':
+      showPricing(options.json ?? false);
+      break;
+    case 'export':
+      exportPricing(file ?? 'devmentorai-pricing.json');
+      break;
+    case 'update':
+      if (!file) throw new Error(USAGE);
+      updatePricing(file);
+      break;
+    case 'reset':
+      resetPricing();
+      break;
+    default:
+      throw new Error(USAGE);
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * CLI: prune command
+ * Applies the retention policy now. Goes through the running server when there
+ * is one, so it can release the sessions it deletes; otherwise works on the
+ * database directly.
+ */
+
+import type { PruneReport } from '@devmentorai/shared';
+import type { CliOptions } from '../cli.js';
+import { initDatabase } from '../db/index.js';
+import { isServerRunning } from '../lib/daemon.js';
+import { createServerClient } from '../lib/server-client.js';
+import { loadServerConfig } from '../services/config.service.js';
+import { RetentionService } from '../services/retention.service.js';
+import { SessionService } from '../services/session.service.js';
+import { formatBytes } from './db-check.js';
+
+async function pruneViaServer(port: number, dryRun: boolean): Promise<PruneReport> {
+  return createServerClient(port).request<PruneReport>('/api/storage/prune', {
+    method: 'POST',
+    body: { dryRun },
+  });
+}
+
+async function pruneDirectly(dryRun: boolean): Promise<PruneReport> {
+  const db = initDatabase();
+  try {
+    const retentionService = new RetentionService(db, new SessionService(db));
+    return await retentionService.prune({ dryRun });
+  } finally {
+    db.close();
+  }
+}
+
+export async function pruneCommand(options: CliOptions): Promise<void> {
+  const dryRun = options.dryRun ?? false;
+  const port = options.port || loadServerConfig().server.port;
+  const status = await isServerRunning(port);
+  const report = status.running ? await pruneViaServer(port, dryRun) : await pruneDirectly(dryRun);
+
+  const verb = dryRun ? 'Would delete' : 'Deleted';
+  console.log(`\n🧹 DevMentorAI cleanup${dryRun ? ' (dry run)' : ''}\n`);
+  console.log(`  ${verb} ${report.sessions.length} sessions`);
+  for (const session of report.sessions) {
+    const reason = session.reason === 'age' ? 'too old' : 'over the session limit';
+    console.log(`    - ${session.name} (${reason})`);
+  }
+  console.log(`  ${verb} ${report.contexts} page contexts`);
+  if (report.imageSessions.length > 0) {
+    console.log(
+      `  ${verb} images of ${report.imageSessions.length} sessions (over the disk limit)`
+    );
+  }
+  console.log(`  ${verb} ${report.orphanedImageDirs} orphaned image folders`);
+  console.log(
+    `  Image space ${dryRun ? 'to free' : 'freed'}: ${formatBytes(report.freedImageBytes)}`
+  );
+  if (dryRun) {
+    console.log('\n  Run without --dry-run to apply.');
+  }
+  console.log('');
+}
@@ -0,0 +1,34 @@
+/**
+ * CLI: restore command
+ * Replaces the database with a backup. The server must be stopped first.
+ */
+
+import type { CliOptions } from '../cli.js';
+import { restoreDatabase } from '../lib/backup.js';
+import { isServerRunning } from '../lib/daemon.js';
+import { loadServerConfig } from '../services/config.service.js';
+
+export async function restoreCommand(options: CliOptions): Promise<void> {
+  const file = options.positionals?.[0];
+  if (!file) {
+    throw new Error('Usage: devmentorai-server restore <file>');
+  }
+
+  const status = await isServerRunning(options.port || loadServerConfig().server.port);
+  if (status.running) {
+    throw new Error('The server is running. Stop it first: devmentorai-server stop');
+  }
+
+  const result = await restoreDatabase(file);
+
+  console.log(`\n✓ Database restored from ${file}`);
+  if (result.previousBackup) {
+    console.log(`  Previous database saved to ${result.previousBackup}`);
+  }
+  if (result.migrationsApplied > 0) {
+    console.log(
+      `  Upgraded to schema version ${result.schemaVersion} (${result.migrationsApplied} migrations)`
+    );
+  }
+  console.log('');
+}
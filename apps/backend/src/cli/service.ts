@@ -0,0 +1,166 @@
+/**
+ * CLI: service command
+ * Installs, removes and reports on the systemd user service that keeps the
+ * server running across crashes and reboots (Linux only).
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import type { CliOptions } from '../cli.js';
+import { isServerRunning, stopServer, waitForHealthy } from '../lib/daemon.js';
+import { ensureDir } from '../lib/paths.js';
+import {
+  SERVICE_NAME,
+  UNIT_FILE,
+  buildUnitFile,
+  getServiceStatus,
+  isSystemdAvailable,
+  systemctl,
+} from '../lib/systemd.js';
+import { loadServerConfig } from '../services/config.service.js';
+
+const USAGE = 'Usage: devmentorai-server service [install | uninstall | status]';
+
+function requireSystemd(): void {
+  if (process.platform !== 'linux') {
+    throw new Error(
+      'The service command needs systemd (Linux). Elsewhere, run "devmentorai-server start --foreground" under a process manager such as PM2.'
+    );
+  }
+  if (!isSystemdAvailable()) {
+    throw new Error(
+      'Cannot reach the systemd user manager (systemctl --user). Is this a systemd session?'
+    );
+  }
+}
+
+function runSystemctl(args: string[]): void {
+  const result = systemctl(args);
+  if (!result.ok) {
+    throw new Error(`systemctl --user ${args.join(' ')} failed: ${result.output}`);
+  }
+}
+
+/**
+ * The CLI the unit should run. npx caches and TypeScript sources don't make
+ * good service targets, so both are refused.
+ */
+function resolveCliPath(): string {
+  const cliPath = fs.realpathSync(process.argv[1]);
+  if (cliPath.endsWith('.ts')) {
+    throw new Error('Build the backend first (pnpm build) and run "service install" from dist/');
+  }
+  if (cliPath.split(path.sep).includes('_npx')) {
+    throw new Error(
+      'The service needs a lasting install: npm install -g devmentorai-server, then run "devmentorai-server service install"'
+    );
+  }
+  return cliPath;
+}
+
+async function installService(): Promise<void> {
+  requireSystemd();
+  const cliPath = resolveCliPath();
+  const { port } = loadServerConfig().server;
+
+  // The service takes over from a server started with `start`
+  const status = await isServerRunning(port);
+  const service = getServiceStatus();
+  if (status.running && !service?.active) {
+    console.log('\n⏳ Stopping the server started with "start" so the service can take over...');
+    await stopServer();
+  }
+
+  ensureDir(path.dirname(UNIT_FILE));
+  fs.writeFileSync(
+    UNIT_FILE,
+    buildUnitFile({
+      nodePath: process.execPath,
+      cliPath,
+      searchPath: process.env.PATH ?? '/usr/local/bin:/usr/bin:/bin',
+    })
+  );
+  runSystemctl(['daemon-reload']);
+  runSystemctl(['enable', SERVICE_NAME]);
+  runSystemctl(['restart', SERVICE_NAME]);
+
+  console.log(`\n✓ Installed ${SERVICE_NAME}`);
+  console.log(`  Unit: ${UNIT_FILE}`);
+
+  const overrides = Object.keys(process.env).filter((name) => name.startsWith('DEVMENTORAI_'));
+  if (overrides.length > 0) {
+    console.log(
+      `  ⚠ The service doesn't see ${overrides.join(', ')}; save settings with: devmentorai-server config set`
+    );
+  }
+
+  if (await waitForHealthy(port, 15000)) {
+    console.log(`  → http://127.0.0.1:${port}`);
+  } else {
+    console.log(
+      `  ⚠ Not healthy yet; check: systemctl --user status ${SERVICE_NAME} or devmentorai-server logs`
+    );
+  }
+  console.log('\n  It restarts after crashes and starts when you log in.');
+  console.log(
+    `  To keep it running while logged out: loginctl enable-linger ${os.userInfo().username}\n`
+  );
+}
+
+function uninstallService(): void {
+  requireSystemd();
+  const service = getServiceStatus();
+  if (!service?.installed && !fs.existsSync(UNIT_FILE)) {
+    console.log('\n⊘ The service is not installed.\n');
+    return;
+  }
+
+  // Ignore failures here: the unit may already be stopped or disabled
+  systemctl(['disable', '--now', SERVICE_NAME]);
+  fs.rmSync(UNIT_FILE, { force: true });
+  runSystemctl(['daemon-reload']);
+  console.log(`\n✓ Removed ${SERVICE_NAME}. Start the server with: devmentorai-server start\n`);
+}
+
+async function showServiceStatus(): Promise<void> {
+  const service = getServiceStatus();
+  if (!service) {
+    console.log('\n⊘ systemd is not available on this machine.\n');
+    return;
+  }
+  if (!service.installed) {
+    console.log(
+      '\n⊘ The service is not installed. Install it with: devmentorai-server service install\n'
+    );
+    return;
+  }
+
+  const { port } = loadServerConfig().server;
+  const { healthy } = await isServerRunning(port);
+  console.log(`\n⚙ ${SERVICE_NAME}\n`);
+  console.log(`  State:    ${service.active ? '✓' : '⊘'} ${service.state}`);
+  console.log(`  Enabled:  ${service.enabled ? 'yes (starts at login)' : 'no'}`);
+  console.log(`  PID:      ${service.pid ?? '—'}`);
+  console.log(`  Health:   ${healthy ? '✓ healthy' : '✗ not responding'} (port ${port})`);
+  console.log(`  Unit:     ${UNIT_FILE}`);
+  console.log(`\n  More detail: systemctl --user status ${SERVICE_NAME}\n`);
+}
+
+export async function serviceCommand(options: CliOptions): Promise<void> {
+  const [action = 'status'] = options.positionals ?? [];
+
+  switch (action) {
+    case 'install':
+      await installService();
+      break;
+    case 'uninstall':
+      uninstallService();
+      break;
+    case 'status':
+      await showServiceStatus();
+      break;
+    default:
+      throw new Error(`Unknown service action "${action}". ${USAGE}`);
+  }
+}
@@ -0,0 +1,314 @@
+/**
+ * CLI: sessions command
+ * Lists, shows, renames, exports and deletes sessions. Reads go to the
+ * database file; changes go through the running server when there is one, so
+ * it can release the sessions it deletes, and to the database otherwise.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import readline from 'node:readline/promises';
+import type { Session, SessionExportFormat, SessionStatus, SessionType } from '@devmentorai/shared';
+import type { CliOptions } from '../cli.js';
+import { openDatabase } from '../db/index.js';
+import { runMigrations } from '../db/migrate.js';
+import { isServerRunning } from '../lib/daemon.js';
+import { type ServerClient, createServerClient } from '../lib/server-client.js';
+import { loadServerConfig } from '../services/config.service.js';
+import { buildSessionExport, renderSessionExport } from '../services/export-service.js';
+import { type SessionFilter, SessionService } from '../services/session.service.js';
+import { deleteSessionImages } from '../services/thumbnail-service.js';
+import { parseSince } from './logs.js';
+
+const USAGE = `Usage: devmentorai-server sessions <action>
+  list                     List sessions (--type, --status, --since, --before, --json)
+  show <id>                Show one session (--json)
+  rename <id> <name>       Rename a session
+  delete <id> [<id> ...]   Delete sessions
+  export <id> [file]       Export as md, json or html (--format); prints it without a file
+  purge                    Delete unpinned sessions matching the filters (--dry-run, --yes)`;
+
+const STATUSES: SessionStatus[] = ['active', 'paused', 'closed'];
+const EXPORT_FORMATS: SessionExportFormat[] = ['md', 'json', 'html'];
+
+function withSessionService<T>(fn: (service: SessionService) => T): T {
+  const db = openDatabase();
+  try {
+    runMigrations(db);
+    return fn(new SessionService(db));
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * The running server, or null when changes should go to the database directly
+ */
+async function findServer(options: CliOptions): Promise<ServerClient | null> {
+  const port = options.port || loadServerConfig().server.port;
+  const status = await isServerRunning(port);
+  return status.running ? createServerClient(port) : null;
+}
+
+export function buildSessionFilter(options: CliOptions, now: number = Date.now()): SessionFilter {
+  const filter: SessionFilter = {};
+  if (options.type) {
+    filter.type = options.type as SessionType;
+  }
+  if (options.status) {
+    if (!STATUSES.includes(options.status as SessionStatus)) {
+      throw new Error(`Invalid --status "${options.status}". Use one of: ${STATUSES.join(', ')}`);
+    }
+    filter.status = options.status as SessionStatus;
+  }
+  if (options.since) {
+    filter.updatedAfter = new Date(parseSince(options.since, now)).toISOString();
+  }
+  if (options.before) {
+    filter.updatedBefore = new Date(parseSince(options.before, now, '--before')).toISOString();
+  }
+  return filter;
+}
+
+function formatTime(iso: string): string {
+  const date = new Date(iso);
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+/**
+ * Sessions as an aligned table, pinned ones marked with `*`
+ */
+export function formatSessionTable(sessions: Session[]): string[] {
+  const rows = [
+    ['ID', 'NAME', 'TYPE', 'STATUS', 'MESSAGES', 'UPDATED'],
+    ...sessions.map((session) => [
+      session.id,
+      `${session.pinned ? '* ' : ''}${truncate(session.name, 40)}`,
+      session.type,
+      session.status,
+      session.messageCount.toString(),
+      formatTime(session.updatedAt),
+    ]),
+  ];
+  const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => row[column].length)));
+  return rows.map((row) =>
+    row
+      .map((cell, column) => cell.padEnd(widths[column]))
+      .join('  ')
+      .trimEnd()
+  );
+}
+
+function getSessionOrThrow(id: string): Session {
+  const session = withSessionService((service) => service.getSession(id));
+  if (!session) {
+    throw new Error(`Session not found: ${id}`);
+  }
+  return session;
+}
+
+function listSessions(options: CliOptions): void {
+  const filter = buildSessionFilter(options);
+  const sessions = withSessionService((service) => service.findSessions(filter));
+
+  if (options.json) {
+    console.log(JSON.stringify(sessions, null, 2));
+    return;
+  }
+  if (sessions.length === 0) {
+    console.log('\nNo sessions found.\n');
+    return;
+  }
+  console.log('');
+  for (const line of formatSessionTable(sessions)) {
+    console.log(`  ${line}`);
+  }
+  const pinned = sessions.filter((session) => session.pinned).length;
+  console.log(`\n  ${sessions.length} sessions${pinned ? ` (${pinned} pinned, marked *)` : ''}\n`);
+}
+
+function showSession(id: string, json: boolean): void {
+  const session = getSessionOrThrow(id);
+  if (json) {
+    console.log(JSON.stringify(session, null, 2));
+    return;
+  }
+
+  console.log(`\n📄 ${session.name}${session.pinned ? ' (pinned)' : ''}\n`);
+  console.log(`  ID:         ${session.id}`);
+  console.log(`  Type:       ${session.type}`);
+  console.log(`  Status:     ${session.status}`);
+  console.log(`  Model:      ${session.model} (${session.provider})`);
+  console.log(`  Messages:   ${session.messageCount}`);
+  console.log(`  Created:    ${formatTime(session.createdAt)}`);
+  console.log(`  Updated:    ${formatTime(session.updatedAt)}`);
+  console.log(
+    `  Workspace:  ${session.workspaceRoots.length > 0 ? session.workspaceRoots.join(', ') : 'none'}`
+  );
+  console.log(`\n  Continue it with: devmentorai-server chat --session ${session.id}\n`);
+}
+
+async function renameSession(server: ServerClient | null, id: string, name: string): Promise<void> {
+  if (name.length > 100) {
+    throw new Error('Session names can be at most 100 characters');
+  }
+  if (server) {
+    await server.request<Session>(`/api/sessions/${encodeURIComponent(id)}`, {
+      method: 'PATCH',
+      body: { name },
+    });
+  } else {
+    getSessionOrThrow(id);
+    withSessionService((service) => service.updateSession(id, { name }));
+  }
+  console.log(`\n✓ Renamed ${id} to "${name}"\n`);
+}
+
+/**
+ * Delete sessions with their images, reporting each one
+ * @returns How many were deleted
+ */
+async function deleteSessions(server: ServerClient | null, ids: string[]): Promise<number> {
+  let deleted = 0;
+  for (const id of ids) {
+    try {
+      if (server) {
+        await server.request(`/api/sessions/${encodeURIComponent(id)}`, { method: 'DELETE' });
+      } else {
+        withSessionService((service) => {
+          if (!service.getSession(id)) throw new Error('Session not found');
+          deleteSessionImages(id);
+          service.deleteSession(id);
+        });
+      }
+      deleted++;
+      console.log(`  ✓ Deleted ${id}`);
+    } catch (error) {
+      console.log(`  ✗ ${id}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  return deleted;
+}
+
+function exportSession(id: string, file: string | undefined, format?: string): void {
+  const extension = file ? path.extname(file).slice(1).toLowerCase() : '';
+  const chosen = (format ?? (extension === 'markdown' ? 'md' : extension)) || 'md';
+  if (!EXPORT_FORMATS.includes(chosen as SessionExportFormat)) {
+    throw new Error(`Invalid export format "${chosen}". Use one of: ${EXPORT_FORMATS.join(', ')}`);
+  }
+
+  const session = getSessionOrThrow(id);
+  const messages = withSessionService((service) => service.listAllMessages(id));
+  const output = renderSessionExport(
+    buildSessionExport(session, messages),
+    chosen as SessionExportFormat
+  );
+
+  if (!file) {
+    process.stdout.write(output.endsWith('\n') ? output : `${output}\n`);
+    return;
+  }
+  fs.writeFileSync(file, output);
+  console.log(`\n✓ Exported ${messages.length} messages to ${path.resolve(file)}\n`);
+}
+
+async function confirm(question: string): Promise<boolean> {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    const answer = await rl.question(`${question} [y/N] `);
+    return answer.trim().toLowerCase() === 'y';
+  } finally {
+    rl.close();
+  }
+}
+
+async function purgeSessions(options: CliOptions): Promise<void> {
+  const filter = buildSessionFilter(options);
+  if (Object.keys(filter).length === 0) {
+    throw new Error(
+      'purge needs at least one filter (--type, --status, --since or --before). To delete specific sessions, use: devmentorai-server sessions delete <id>'
+    );
+  }
+
+  const matching = withSessionService((service) => service.findSessions(filter));
+  const sessions = matching.filter((session) => !session.pinned);
+  const skipped = matching.length - sessions.length;
+
+  console.log(`\n🧹 ${sessions.length} sessions match${options.dryRun ? ' (dry run)' : ''}\n`);
+  if (sessions.length > 0) {
+    for (const line of formatSessionTable(sessions)) {
+      console.log(`  ${line}`);
+    }
+    console.log('');
+  }
+  if (skipped > 0) {
+    console.log(`  Keeping ${skipped} pinned sessions; unpin them or use sessions delete.\n`);
+  }
+  if (sessions.length === 0) return;
+  if (options.dryRun) {
+    console.log('  Run without --dry-run to delete them.\n');
+    return;
+  }
+
+  if (!options.yes) {
+    if (!process.stdin.isTTY) {
+      throw new Error('Pass --yes to delete without a prompt');
+    }
+    if (!(await confirm(`Delete ${sessions.length} sessions and their images?`))) {
+      console.log('\nNothing deleted.\n');
+      return;
+    }
+  }
+
+  const server = await findServer(options);
+  const deleted = await deleteSessions(
+    server,
+    sessions.map((session) => session.id)
+  );
+  console.log(`\n✓ Deleted ${deleted} of ${sessions.length} sessions\n`);
+}
+
+export async function sessionsCommand(options: CliOptions): Promise<void> {
+  const [action = 'list', id, ...rest] = options.positionals ?? [];
+
+  switch (action) {
+    case 'list':
+      listSessions(options);
+      break;
+    case 'show':
+      if (!id) throw new Error(USAGE);
+      showSession(id, options.json ?? false);
+      break;
+    case 'rename': {
+      const name = rest.join(' ').trim();
+      if (!id || !name) throw new Error(USAGE);
+      await renameSession(await findServer(options), id, name);
+      break;
+    }
+    case 'delete': {
+      if (!id) throw new Error(USAGE);
+      const ids = [id, ...rest];
+      console.log('');
+      const deleted = await deleteSessions(await findServer(options), ids);
+      console.log('');
+      if (deleted < ids.length) {
+        throw new Error(`${ids.length - deleted} of ${ids.length} sessions could not be deleted`);
+      }
+      break;
+    }
+    case 'export':
+      if (!id) throw new Error(USAGE);
+      exportSession(id, rest[0], options.format);
+      break;
+    case 'purge':
+      await purgeSessions(options);
+      break;
+    default:
+      throw new Error(`Unknown sessions action "${action}".\n${USAGE}`);
+  }
+}
@@ -3,14 +3,15 @@
  * Starts the DevMentorAI server in background or foreground mode.
  */
 
-import { DEFAULT_CONFIG, checkForUpdate } from '@devmentorai/shared';
+import { checkForUpdate } from '@devmentorai/shared';
 import type { CliOptions } from '../cli.js';
+import { issueToken, loadAuthSecret } from '../lib/auth.js';
 import { isServerRunning, spawnServer, waitForHealthy } from '../lib/daemon.js';
-import { LOG_FILE } from '../lib/paths.js';
+import { LOG_FILE, STDOUT_LOG_FILE } from '../lib/paths.js';
+import { SERVICE_NAME, getServiceStatus, systemctl } from '../lib/systemd.js';
+import { loadServerConfig } from '../services/config.service.js';
 import { BACKEND_VERSION } from '../version.js';
 
-const DEFAULT_PORT = DEFAULT_CONFIG.DEFAULT_PORT;
-
 async function showUpdateNotice(): Promise<void> {
   try {
     const info = await checkForUpdate('backend', BACKEND_VERSION);
@@ -27,7 +28,9 @@ async function showUpdateNotice(): Promise<void> {
 
 async function showAuthNotice(port: number): Promise<void> {
   try {
-    const response = await fetch(`http://127.0.0.1:${port}/api/account/auth`);
+    const response = await fetch(`http://127.0.0.1:${port}/api/account/auth`, {
+      headers: { Authorization: `Bearer ${issueToken(loadAuthSecret())}` },
+    });
     if (!response.ok) return;
 
     const payload = (await response.json()) as {
@@ -51,8 +54,14 @@ async function showAuthNotice(port: number): Promise<void> {
   }
 }
 
+function showPairingNotice(): void {
+  console.log('  Pair the extension: devmentorai-server pair\n');
+}
+
 export async function startCommand(options: CliOptions): Promise<void> {
-  const port = options.port || DEFAULT_PORT;
+  // --port and --host win over config.json and DEVMENTORAI_PORT / DEVMENTORAI_HOST
+  const config = loadServerConfig();
+  const port = options.port || config.server.port;
 
   // Check if already running
   const status = await isServerRunning(port);
@@ -68,17 +77,33 @@ export async function startCommand(options: CliOptions): Promise<void> {
   // Foreground mode — import and run server directly
   if (options.foreground) {
     console.log(`\n🚀 Starting DevMentorAI server on port ${port} (foreground)...\n`);
-    process.env.DEVMENTORAI_PORT = String(port);
+    if (options.port) process.env.DEVMENTORAI_PORT = String(options.port);
+    if (options.host) process.env.DEVMENTORAI_HOST = options.host;
     const { createServer } = await import('../server.js');
     const fastify = await createServer();
-    await fastify.listen({ port, host: '0.0.0.0' });
+    await fastify.listen({ port, host: options.host || config.server.host });
     return;
   }
 
-  // Background mode
+  // Background mode; an installed systemd service runs the server instead of a PID-file daemon
+  const service = getServiceStatus();
+  if (service?.installed && (options.port || options.host)) {
+    throw new Error(
+      `${SERVICE_NAME} takes its port and host from config.json. Change them with: devmentorai-server config set server.port <port>`
+    );
+  }
+
   console.log(`\n🚀 Starting DevMentorAI server on port ${port}...`);
 
-  spawnServer(port);
+  if (service?.installed) {
+    const result = systemctl(['start', SERVICE_NAME]);
+    if (!result.ok) {
+      console.error(`✗ Failed to start ${SERVICE_NAME}: ${result.output}\n`);
+      process.exit(1);
+    }
+  } else {
+    spawnServer(options.port, options.host);
+  }
 
   // Wait for the server to become healthy
   const healthy = await waitForHealthy(port);
@@ -87,11 +112,13 @@ export async function startCommand(options: CliOptions): Promise<void> {
     console.log('✓ Server started successfully');
     console.log(`  → http://127.0.0.1:${port}`);
     console.log(`  Logs: ${LOG_FILE}\n`);
+    showPairingNotice();
     await showAuthNotice(port);
     await showUpdateNotice();
   } else {
     console.error('✗ Server started but healthcheck failed');
-    console.error(`  Check logs: ${LOG_FILE}\n`);
+    console.error(`  Check logs: ${LOG_FILE}`);
+    console.error(`  Startup output: ${STDOUT_LOG_FILE}\n`);
     process.exit(1);
   }
 }
@@ -3,14 +3,15 @@
  * Shows the current status of the DevMentorAI server.
  */
 
-import { DEFAULT_CONFIG } from '@devmentorai/shared';
 import { healthcheck, isServerRunning, readPid } from '../lib/daemon.js';
 import { DATA_DIR, LOG_FILE, PID_FILE } from '../lib/paths.js';
-
-const DEFAULT_PORT = DEFAULT_CONFIG.DEFAULT_PORT;
+import { SERVICE_NAME, getServiceStatus } from '../lib/systemd.js';
+import { loadServerConfig } from '../services/config.service.js';
 
 export async function statusCommand(): Promise<void> {
-  const status = await isServerRunning(DEFAULT_PORT);
+  const { port } = loadServerConfig().server;
+  const status = await isServerRunning(port);
+  const service = getServiceStatus();
 
   console.log('\n╔══════════════════════════════════════╗');
   console.log('║     DevMentorAI Server Status        ║');
@@ -18,19 +19,27 @@ export async function statusCommand(): Promise<void> {
 
   if (!status.running) {
     console.log('  Status:  ⊘ stopped');
-    console.log(`  Port:    ${DEFAULT_PORT}`);
+    console.log(`  Port:    ${port}`);
+    if (service?.installed) {
+      console.log(`  Service: ${SERVICE_NAME} is ${service.state}`);
+      console.log(`           Start it with: systemctl --user start ${SERVICE_NAME}`);
+    }
     console.log(`  Data:    ${DATA_DIR}\n`);
     return;
   }
 
-  const pid = readPid();
-  const health = await healthcheck(DEFAULT_PORT);
+  // A server run by systemd has no PID file
+  const pid = service?.active ? service.pid : readPid();
+  const health = await healthcheck(port);
 
   console.log('  Status:  ✓ running');
   console.log(`  PID:     ${pid || 'unknown'}`);
-  console.log(`  Port:    ${DEFAULT_PORT}`);
-  console.log(`  URL:     http://127.0.0.1:${DEFAULT_PORT}`);
-  console.log(`  Health:  ${health.ok ? '✓ healthy' : '✗ unhealthy'}`);
+  console.log(`  Port:    ${port}`);
+  console.log(`  URL:     http://127.0.0.1:${port}`);
+  const summary = health.data?.data as { status?: string } | undefined;
+  console.log(
+    `  Health:  ${!health.ok ? '✗ unhealthy' : summary?.status === 'degraded' ? '⚠ degraded' : '✓ healthy'}`
+  );
 
   if (health.ok && health.data?.data) {
     const data = health.data.data as Record<string, unknown>;
@@ -44,7 +53,9 @@ export async function statusCommand(): Promise<void> {
     }
   }
 
-  console.log(`  PID file: ${PID_FILE}`);
+  console.log(
+    service?.active ? `  Service:  ${SERVICE_NAME} (systemd)` : `  PID file: ${PID_FILE}`
+  );
   console.log(`  Logs:     ${LOG_FILE}`);
   console.log(`  Data:     ${DATA_DIR}\n`);
 }
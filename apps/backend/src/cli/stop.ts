@@ -3,14 +3,27 @@
  * Stops the running DevMentorAI server.
  */
 
-import { DEFAULT_CONFIG } from '@devmentorai/shared';
 import { isServerRunning, readPid, stopServer } from '../lib/daemon.js';
-
-const DEFAULT_PORT = DEFAULT_CONFIG.DEFAULT_PORT;
+import { SERVICE_NAME, getServiceStatus, systemctl } from '../lib/systemd.js';
+import { loadServerConfig } from '../services/config.service.js';
 
 export async function stopCommand(): Promise<void> {
+  // Killing a systemd-managed server would only get it restarted
+  const service = getServiceStatus();
+  if (service?.active) {
+    console.log(`\n⏳ Stopping ${SERVICE_NAME} (PID: ${service.pid ?? 'unknown'})...`);
+    const result = systemctl(['stop', SERVICE_NAME]);
+    if (!result.ok) {
+      console.error(`✗ Failed to stop the service: ${result.output}\n`);
+      process.exit(1);
+    }
+    console.log('✓ Server stopped. The service starts it again at your next login;');
+    console.log('  to remove it: devmentorai-server service uninstall\n');
+    return;
+  }
+
   const pid = readPid();
-  const status = await isServerRunning(DEFAULT_PORT);
+  const status = await isServerRunning(loadServerConfig().server.port);
 
   if (!status.running) {
     console.log('\n⊘ DevMentorAI server is not running.\n');
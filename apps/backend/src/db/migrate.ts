@@ -0,0 +1,62 @@
+/**
+ * Migration runner
+ *
+ * The schema version lives in `PRAGMA user_version`. Each pending migration runs
+ * in its own transaction together with the version bump, so a failure leaves the
+ * database at the last version that applied cleanly.
+ */
+
+import type Database from 'better-sqlite3';
+import { MIGRATIONS, type Migration } from './migrations/index.js';
+
+export function getSchemaVersion(db: Database.Database): number {
+  return db.pragma('user_version', { simple: true }) as number;
+}
+
+export function getLatestSchemaVersion(migrations: Migration[] = MIGRATIONS): number {
+  return migrations.length > 0 ? migrations[migrations.length - 1].version : 0;
+}
+
+/**
+ * Apply every migration newer than the database's version
+ * @returns The migrations that were applied
+ */
+export function runMigrations(
+  db: Database.Database,
+  migrations: Migration[] = MIGRATIONS
+): Migration[] {
+  migrations.forEach((migration, index) => {
+    if (index > 0 && migration.version <= migrations[index - 1].version) {
+      throw new Error(`Migration versions must increase (${migration.version}: ${migration.name})`);
+    }
+  });
+
+  const current = getSchemaVersion(db);
+  const latest = getLatestSchemaVersion(migrations);
+  if (current > latest) {
+    throw new Error(
+      `Database schema version ${current} is newer than this server supports (${latest}). Upgrade devmentorai-server or restore an older backup.`
+    );
+  }
+
+  const pending = migrations.filter((m) => m.version > current);
+  if (pending.length === 0) return [];
+
+  // Foreign keys must be off while tables are rebuilt, or child rows would cascade.
+  // The pragma is a no-op inside a transaction, so it is set around them.
+  const foreignKeys = db.pragma('foreign_keys', { simple: true }) as number;
+  db.pragma('foreign_keys = OFF');
+  try {
+    for (const migration of pending) {
+      db.transaction(() => {
+        migration.up(db);
+        db.pragma(`user_version = ${migration.version}`);
+      })();
+      console.log(`[DB] Migration ${migration.version}: ${migration.name}`);
+    }
+  } finally {
+    db.pragma(`foreign_keys = ${foreignKeys}`);
+  }
+
+  return pending;
+}
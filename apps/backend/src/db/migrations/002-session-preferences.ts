@@ -0,0 +1,11 @@
+import { type Migration, addColumnIfMissing } from './migration.js';
+
+export const sessionPreferences: Migration = {
+  version: 2,
+  name: 'session tone, trade-offs and reasoning effort',
+  up: (db) => {
+    addColumnIfMissing(db, 'sessions', 'tone', "TEXT DEFAULT 'balanced'");
+    addColumnIfMissing(db, 'sessions', 'explain_tradeoffs', 'INTEGER DEFAULT 0');
+    addColumnIfMissing(db, 'sessions', 'reasoning_effort', 'TEXT');
+  },
+};
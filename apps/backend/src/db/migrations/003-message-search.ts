@@ -0,0 +1,29 @@
+import type { Migration } from './migration.js';
+
+export const messageSearch: Migration = {
+  version: 3,
+  name: 'full-text search over messages',
+  up: (db) => {
+    // Kept in sync by SessionService
+    db.exec(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS messages_fts USING fts5(
+        content,
+        message_id UNINDEXED,
+        session_id UNINDEXED,
+        tokenize = 'unicode61 remove_diacritics 2'
+      );
+    `);
+
+    // Backfill messages created before the index existed
+    const indexed = (
+      db.prepare('SELECT COUNT(*) as count FROM messages_fts').get() as {
+        count: number;
+      }
+    ).count;
+    if (indexed === 0) {
+      db.exec(
+        'INSERT INTO messages_fts (content, message_id, session_id) SELECT content, id, session_id FROM messages'
+      );
+    }
+  },
+};
@@ -0,0 +1,22 @@
+import { type Migration, addColumnIfMissing } from './migration.js';
+
+export const messageThreads: Migration = {
+  version: 4,
+  name: 'message parent ids for forking',
+  up: (db) => {
+    if (addColumnIfMissing(db, 'messages', 'parent_id', 'TEXT')) {
+      // Link existing messages to their predecessor within the same session
+      db.exec(`
+        UPDATE messages SET parent_id = (
+          SELECT prev.id FROM messages prev
+          WHERE prev.session_id = messages.session_id
+            AND (prev.timestamp < messages.timestamp
+              OR (prev.timestamp = messages.timestamp AND prev.rowid < messages.rowid))
+          ORDER BY prev.timestamp DESC, prev.rowid DESC
+          LIMIT 1
+        );
+      `);
+    }
+    db.exec('CREATE INDEX IF NOT EXISTS idx_messages_parent_id ON messages(parent_id);');
+  },
+};
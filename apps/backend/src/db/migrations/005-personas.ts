@@ -0,0 +1,38 @@
+import type { Migration } from './migration.js';
+
+export const personas: Migration = {
+  version: 5,
+  name: 'user-defined personas',
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS personas (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        description TEXT,
+        icon TEXT NOT NULL,
+        agent_prompt TEXT NOT NULL,
+        default_model TEXT,
+        tone TEXT,
+        tools TEXT NOT NULL DEFAULT '[]',
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+    `);
+
+    // Persona sessions store the persona id as their type, so the CHECK constraint on
+    // sessions.type goes. SQLite cannot alter constraints; the table is rebuilt from its
+    // own definition, which keeps any columns added before this migration.
+    const sessionsTable = db
+      .prepare("SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'sessions'")
+      .get() as { sql: string } | undefined;
+    if (sessionsTable && /type TEXT NOT NULL CHECK \(type IN/.test(sessionsTable.sql)) {
+      const rebuiltSql = sessionsTable.sql
+        .replace(/^CREATE TABLE\s+(IF NOT EXISTS\s+)?"?sessions"?/, 'CREATE TABLE sessions_new')
+        .replace(/type TEXT NOT NULL CHECK \(type IN \([^)]*\)\)/, 'type TEXT NOT NULL');
+      db.exec(rebuiltSql);
+      db.exec('INSERT INTO sessions_new SELECT * FROM sessions;');
+      db.exec('DROP TABLE sessions;');
+      db.exec('ALTER TABLE sessions_new RENAME TO sessions;');
+    }
+  },
+};
@@ -0,0 +1,9 @@
+import { type Migration, addColumnIfMissing } from './migration.js';
+
+export const sessionProvider: Migration = {
+  version: 6,
+  name: 'per-session LLM provider',
+  up: (db) => {
+    addColumnIfMissing(db, 'sessions', 'provider', "TEXT NOT NULL DEFAULT 'copilot'");
+  },
+};
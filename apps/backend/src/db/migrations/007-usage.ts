@@ -0,0 +1,28 @@
+import type { Migration } from './migration.js';
+
+export const usage: Migration = {
+  version: 7,
+  name: 'per-prompt usage',
+  up: (db) => {
+    // No foreign key, so usage outlives deleted sessions
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS usage (
+        id TEXT PRIMARY KEY,
+        session_id TEXT NOT NULL,
+        message_id TEXT,
+        provider TEXT NOT NULL,
+        model TEXT NOT NULL,
+        pricing_multiplier REAL NOT NULL DEFAULT 0,
+        prompt_chars INTEGER NOT NULL DEFAULT 0,
+        response_chars INTEGER NOT NULL DEFAULT 0,
+        duration_ms INTEGER NOT NULL DEFAULT 0,
+        tool_calls INTEGER NOT NULL DEFAULT 0,
+        action TEXT,
+        created_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_usage_created_at ON usage(created_at);
+      CREATE INDEX IF NOT EXISTS idx_usage_session_id ON usage(session_id);
+    `);
+  },
+};
@@ -0,0 +1,10 @@
+import { type Migration, addColumnIfMissing } from './migration.js';
+
+export const workspaceRoots: Migration = {
+  version: 8,
+  name: 'session workspace roots',
+  up: (db) => {
+    // JSON array of directories the file tools may read
+    addColumnIfMissing(db, 'sessions', 'workspace_roots', "TEXT NOT NULL DEFAULT '[]'");
+  },
+};
@@ -0,0 +1,16 @@
+import type { Migration } from './migration.js';
+
+export const toolPermissions: Migration = {
+  version: 9,
+  name: 'remembered tool permissions',
+  up: (db) => {
+    // Tools without a row use their default policy
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS tool_permissions (
+        tool_name TEXT PRIMARY KEY,
+        policy TEXT NOT NULL CHECK (policy IN ('ask', 'allow', 'deny')),
+        updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+    `);
+  },
+};
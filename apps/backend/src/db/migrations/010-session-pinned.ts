@@ -0,0 +1,10 @@
+import { type Migration, addColumnIfMissing } from './migration.js';
+
+export const sessionPinned: Migration = {
+  version: 10,
+  name: 'pinned sessions',
+  up: (db) => {
+    // Pinned sessions are skipped by retention cleanup
+    addColumnIfMissing(db, 'sessions', 'pinned', 'INTEGER NOT NULL DEFAULT 0');
+  },
+};
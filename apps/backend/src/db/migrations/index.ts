@@ -0,0 +1,31 @@
+/**
+ * Schema migrations, oldest first. Append new migrations with the next version
+ * number; never edit or reorder one that has shipped.
+ */
+
+import { initialSchema } from './001-initial-schema.js';
+import { sessionPreferences } from './002-session-preferences.js';
+import { messageSearch } from './003-message-search.js';
+import { messageThreads } from './004-message-threads.js';
+import { personas } from './005-personas.js';
+import { sessionProvider } from './006-session-provider.js';
+import { usage } from './007-usage.js';
+import { workspaceRoots } from './008-workspace-roots.js';
+import { toolPermissions } from './009-tool-permissions.js';
+import { sessionPinned } from './010-session-pinned.js';
+import type { Migration } from './migration.js';
+
+export type { Migration } from './migration.js';
+
+export const MIGRATIONS: Migration[] = [
+  initialSchema,
+  sessionPreferences,
+  messageSearch,
+  messageThreads,
+  personas,
+  sessionProvider,
+  usage,
+  workspaceRoots,
+  toolPermissions,
+  sessionPinned,
+];
@@ -0,0 +1,32 @@
+import type Database from 'better-sqlite3';
+
+/**
+ * One schema change. `up` runs inside a transaction with foreign keys off, and
+ * the runner records `version` in `PRAGMA user_version` when it succeeds.
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: Database.Database) => void;
+}
+
+export function hasColumn(db: Database.Database, table: string, column: string): boolean {
+  const columns = db.pragma(`table_info(${table})`) as { name: string }[];
+  return columns.some((c) => c.name === column);
+}
+
+/**
+ * Add a column unless it is already there. Databases created before versioned
+ * migrations start at version 0 but may already have some of these columns.
+ * @returns True if the column was added
+ */
+export function addColumnIfMissing(
+  db: Database.Database,
+  table: string,
+  column: string,
+  definition: string
+): boolean {
+  if (hasColumn(db, table, column)) return false;
+  db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition};`);
+  return true;
+}
@@ -0,0 +1,112 @@
+/**
+ * Extension pairing and bearer tokens
+ *
+ * The backend keeps a random secret next to the config file. Pairing codes are
+ * derived from it per time window, so the CLI can print a code without talking
+ * to the server, and tokens are signed with it, so the server needs no token
+ * store. Deleting the secret file revokes every paired browser.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import fs from 'node:fs';
+import { AUTH_SECRET_FILE, DATA_DIR, ensureDir } from './paths.js';
+
+/** How long a pairing code stays valid (the previous window is accepted too) */
+export const PAIRING_WINDOW_MS = 5 * 60 * 1000;
+
+// No 0/O/1/I, so codes survive being read aloud or retyped
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 8;
+
+/**
+ * Read the auth secret, creating it on first run
+ */
+export function loadAuthSecret(): Buffer {
+  try {
+    return Buffer.from(fs.readFileSync(AUTH_SECRET_FILE, 'utf-8').trim(), 'hex');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+  }
+
+  ensureDir(DATA_DIR);
+  const secret = randomBytes(32);
+  fs.writeFileSync(AUTH_SECRET_FILE, secret.toString('hex'), { mode: 0o600 });
+  // stderr, so `pair token > file` stays a bare token on first run
+  console.error(`[Auth] Created auth secret at ${AUTH_SECRET_FILE}`);
+  return secret;
+}
+
+function sign(secret: Buffer, value: string): Buffer {
+  return createHmac('sha256', secret).update(value).digest();
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+/**
+ * Pairing code for the time window containing `now`, formatted as `ABCD-EFGH`
+ */
+export function getPairingCode(secret: Buffer, now: number = Date.now()): string {
+  const window = Math.floor(now / PAIRING_WINDOW_MS);
+  const digest = sign(secret, `pair:${window}`);
+  const chars = Array.from(
+    digest.subarray(0, CODE_LENGTH),
+    (byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length]
+  );
+  return `${chars.slice(0, 4).join('')}-${chars.slice(4).join('')}`;
+}
+
+/** When the code for `now` stops being accepted */
+export function getPairingCodeExpiry(now: number = Date.now()): Date {
+  const window = Math.floor(now / PAIRING_WINDOW_MS);
+  return new Date((window + 2) * PAIRING_WINDOW_MS);
+}
+
+/**
+ * Check a code typed by the user. Case, spaces and dashes are ignored.
+ */
+export function verifyPairingCode(secret: Buffer, code: string, now: number = Date.now()): boolean {
+  const normalized = code.toUpperCase().replace(/[\s-]/g, '');
+  return [now, now - PAIRING_WINDOW_MS].some((time) =>
+    safeEqual(getPairingCode(secret, time).replace('-', ''), normalized)
+  );
+}
+
+/**
+ * Issue a bearer token: a random id plus its signature
+ */
+export function issueToken(secret: Buffer): string {
+  const id = randomBytes(16).toString('base64url');
+  return `${id}.${sign(secret, `token:${id}`).toString('base64url')}`;
+}
+
+export function verifyToken(secret: Buffer, token: string): boolean {
+  const [id, signature, extra] = token.split('.');
+  if (!id || !signature || extra !== undefined) return false;
+  return safeEqual(sign(secret, `token:${id}`).toString('base64url'), signature);
+}
+
+/** The parts of a request that can carry a token */
+export interface TokenCarrier {
+  method: string;
+  url: string;
+  headers: { authorization?: string };
+  query: unknown;
+}
+
+/**
+ * Whether the request carries a valid token: a Bearer header, or for image
+ * downloads a `?token=` query parameter, since <img> tags can't send headers
+ */
+export function isAuthorizedRequest(secret: Buffer, request: TokenCarrier): boolean {
+  const header = request.headers.authorization;
+  let token = header?.startsWith('Bearer ') ? header.slice(7).trim() : undefined;
+  const path = request.url.split('?')[0];
+  if (!token && request.method === 'GET' && path.startsWith('/api/images/')) {
+    token = (request.query as { token?: string } | undefined)?.token;
+  }
+  return typeof token === 'string' && token.length > 0 && verifyToken(secret, token);
+}
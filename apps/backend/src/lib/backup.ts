@@ -0,0 +1,197 @@
+/**
+ * Database backup, restore and health checks
+ *
+ * Used by the `backup`, `restore` and `db:check` CLI commands. Backups use
+ * SQLite's online backup API, so they are consistent even while the server
+ * is writing.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import Database from 'better-sqlite3';
+import { openDatabase } from '../db/index.js';
+import { getLatestSchemaVersion, getSchemaVersion, runMigrations } from '../db/migrate.js';
+import {
+  BACKUPS_DIR,
+  DB_FILE,
+  IMAGES_DIR,
+  ensureDir,
+  getDirectorySize,
+  getFileStats,
+} from './paths.js';
+
+export interface BackupInspection {
+  ok: boolean;
+  schemaVersion: number;
+  errors: string[];
+}
+
+export interface RestoreResult {
+  /** Copy of the database that was replaced, or null if there was none */
+  previousBackup: string | null;
+  schemaVersion: number;
+  migrationsApplied: number;
+}
+
+export interface DatabaseReport {
+  file: string;
+  schemaVersion: number;
+  latestSchemaVersion: number;
+  integrity: string[];
+  foreignKeyViolations: number;
+  checkpoint: { busy: boolean; walPages: number; checkpointedPages: number };
+  sizes: { database: number; wal: number; freeSpace: number; images: number };
+  rows: { sessions: number; messages: number };
+}
+
+function defaultBackupFile(prefix: string): string {
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  return path.join(BACKUPS_DIR, `${prefix}-${stamp}.db`);
+}
+
+function assertDatabaseExists(): void {
+  if (!fs.existsSync(DB_FILE)) {
+    throw new Error(`No database found at ${DB_FILE}`);
+  }
+}
+
+/**
+ * Copy the live database to `destination` (default: a timestamped file in the backups directory)
+ * @returns The backup file path
+ */
+export async function backupDatabase(
+  destination?: string,
+  prefix = 'devmentorai'
+): Promise<string> {
+  assertDatabaseExists();
+  const file = path.resolve(destination || defaultBackupFile(prefix));
+  if (fs.existsSync(file)) {
+    throw new Error(`Refusing to overwrite existing file ${file}`);
+  }
+  ensureDir(path.dirname(file));
+
+  const db = new Database(DB_FILE, { fileMustExist: true });
+  try {
+    await db.backup(file);
+  } finally {
+    db.close();
+  }
+  return file;
+}
+
+/**
+ * Check that a file is a readable SQLite database this server can migrate
+ */
+export function inspectBackup(file: string): BackupInspection {
+  let db: Database.Database;
+  try {
+    db = new Database(file, { readonly: true, fileMustExist: true });
+  } catch (error) {
+    return {
+      ok: false,
+      schemaVersion: 0,
+      errors: [error instanceof Error ? error.message : String(error)],
+    };
+  }
+
+  try {
+    const errors = (db.pragma('integrity_check') as { integrity_check: string }[])
+      .map((row) => row.integrity_check)
+      .filter((result) => result !== 'ok');
+    const schemaVersion = getSchemaVersion(db);
+    const latest = getLatestSchemaVersion();
+    if (schemaVersion > latest) {
+      errors.push(`Schema version ${schemaVersion} is newer than this server supports (${latest})`);
+    }
+    return { ok: errors.length === 0, schemaVersion, errors };
+  } catch (error) {
+    // Not a database at all ("file is not a database")
+    return {
+      ok: false,
+      schemaVersion: 0,
+      errors: [error instanceof Error ? error.message : String(error)],
+    };
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Replace the database with a backup. The server must be stopped. The current
+ * database is backed up first, and the restored one is migrated to the latest schema.
+ */
+export async function restoreDatabase(file: string): Promise<RestoreResult> {
+  const source = path.resolve(file);
+  const inspection = inspectBackup(source);
+  if (!inspection.ok) {
+    throw new Error(`${source} cannot be restored: ${inspection.errors.join('; ')}`);
+  }
+
+  const previousBackup = fs.existsSync(DB_FILE)
+    ? await backupDatabase(undefined, 'pre-restore')
+    : null;
+
+  // A WAL left over from the old database would be replayed onto the restored one
+  for (const suffix of ['-wal', '-shm']) {
+    fs.rmSync(`${DB_FILE}${suffix}`, { force: true });
+  }
+  ensureDir(path.dirname(DB_FILE));
+  fs.copyFileSync(source, DB_FILE);
+
+  const db = openDatabase();
+  try {
+    const applied = runMigrations(db);
+    return {
+      previousBackup,
+      schemaVersion: getSchemaVersion(db),
+      migrationsApplied: applied.length,
+    };
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Run an integrity check, checkpoint the WAL into the main file and report sizes
+ */
+export function checkDatabase(): DatabaseReport {
+  assertDatabaseExists();
+  const db = openDatabase();
+  try {
+    const integrity = (db.pragma('integrity_check') as { integrity_check: string }[]).map(
+      (row) => row.integrity_check
+    );
+    const foreignKeyViolations = (db.pragma('foreign_key_check') as unknown[]).length;
+    const [checkpoint] = db.pragma('wal_checkpoint(TRUNCATE)') as {
+      busy: number;
+      log: number;
+      checkpointed: number;
+    }[];
+    const pageSize = db.pragma('page_size', { simple: true }) as number;
+    const freePages = db.pragma('freelist_count', { simple: true }) as number;
+    const count = (table: string) =>
+      (db.prepare(`SELECT COUNT(*) as count FROM ${table}`).get() as { count: number }).count;
+
+    return {
+      file: DB_FILE,
+      schemaVersion: getSchemaVersion(db),
+      latestSchemaVersion: getLatestSchemaVersion(),
+      integrity,
+      foreignKeyViolations,
+      checkpoint: {
+        busy: checkpoint.busy !== 0,
+        walPages: checkpoint.log,
+        checkpointedPages: checkpoint.checkpointed,
+      },
+      sizes: {
+        database: getFileStats(DB_FILE)?.size ?? 0,
+        wal: getFileStats(`${DB_FILE}-wal`)?.size ?? 0,
+        freeSpace: freePages * pageSize,
+        images: getDirectorySize(IMAGES_DIR),
+      },
+      rows: { sessions: count('sessions'), messages: count('messages') },
+    };
+  } finally {
+    db.close();
+  }
+}
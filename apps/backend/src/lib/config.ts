@@ -0,0 +1,39 @@
+/**
+ * User configuration file
+ *
+ * `~/.devmentorai/config.json` holds settings that outlive the database, keyed
+ * by section (e.g. `retention`). Each owner validates its own section.
+ */
+
+import fs from 'node:fs';
+import { CONFIG_FILE, DATA_DIR, ensureDir } from './paths.js';
+
+/**
+ * Read the whole config file. A missing or unreadable file counts as empty.
+ */
+export function readConfig(): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(fs.readFileSync(CONFIG_FILE, 'utf-8'));
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error(`[Config] Ignoring unreadable ${CONFIG_FILE}:`, error);
+    }
+    return {};
+  }
+}
+
+/**
+ * Replace one section of the config file, keeping the others
+ */
+export function writeConfigSection(section: string, value: unknown): void {
+  const config = { ...readConfig(), [section]: value };
+  ensureDir(DATA_DIR);
+  // Write then rename so a crash never leaves a half-written file
+  const tmpFile = `${CONFIG_FILE}.tmp`;
+  // Owner-only, since it can hold API keys. The mode only applies to new files, so a
+  // leftover .tmp (and with it an older, world-readable config.json) is narrowed too.
+  fs.writeFileSync(tmpFile, `${JSON.stringify(config, null, 2)}\n`, { mode: 0o600 });
+  fs.chmodSync(tmpFile, 0o600);
+  fs.renameSync(tmpFile, CONFIG_FILE);
+}
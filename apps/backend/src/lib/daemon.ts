@@ -9,7 +9,7 @@ import fs from 'node:fs';
 import http from 'node:http';
 import path from 'node:path';
 import { DEFAULT_CONFIG } from '@devmentorai/shared';
-import { LOG_DIR, LOG_FILE, PID_FILE, ensureDir } from './paths.js';
+import { LOG_DIR, PID_FILE, STDOUT_LOG_FILE, ensureDir } from './paths.js';
 
 const DEFAULT_PORT = DEFAULT_CONFIG.DEFAULT_PORT;
 
@@ -103,11 +103,15 @@ export async function isServerRunning(port: number = DEFAULT_PORT): Promise<{
   return { running: ok, pid: null, healthy: ok };
 }
 
-/** Spawn the server as a detached background process */
-export function spawnServer(port: number = DEFAULT_PORT): ChildProcess {
+/**
+ * Spawn the server as a detached background process. Without a port or host
+ * the server takes them from config.json.
+ */
+export function spawnServer(port?: number, host?: string): ChildProcess {
   ensureDir(LOG_DIR);
 
-  const logFd = fs.openSync(LOG_FILE, 'a');
+  // The server writes server.log itself; this only catches output from before logging starts
+  const logFd = fs.openSync(STDOUT_LOG_FILE, 'a');
   const serverEntry = path.resolve(path.dirname(new URL(import.meta.url).pathname), 'server.js');
 
   const child = fork(serverEntry, [], {
@@ -115,7 +119,8 @@ export function spawnServer(port: number = DEFAULT_PORT): ChildProcess {
     stdio: ['ignore', logFd, logFd, 'ipc'],
     env: {
       ...process.env,
-      DEVMENTORAI_PORT: String(port),
+      ...(port ? { DEVMENTORAI_PORT: String(port) } : {}),
+      ...(host ? { DEVMENTORAI_HOST: host } : {}),
       NODE_ENV: process.env.NODE_ENV || 'production',
     },
   });
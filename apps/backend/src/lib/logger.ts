@@ -0,0 +1,160 @@
+/**
+ * Server logging
+ *
+ * The server writes one JSON object per line to `~/.devmentorai/logs/server.log`,
+ * rotating it by size and age, and pretty-prints to the terminal when run
+ * interactively. `console.*` output from services is routed into the same log
+ * with the trace and session ID of the request being handled.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import fs from 'node:fs';
+import path from 'node:path';
+import { format } from 'node:util';
+import type { FastifyBaseLogger } from 'fastify';
+import pino, { type StreamEntry } from 'pino';
+import pretty from 'pino-pretty';
+import { LOG_DIR, LOG_FILE, ensureDir } from './paths.js';
+
+/** Rotate once the log reaches this size */
+export const LOG_MAX_BYTES = 10 * 1024 * 1024;
+
+/** Rotate a log that was started longer ago than this, even if small */
+export const LOG_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+/** Rotated logs kept, newest first; older ones are deleted */
+export const LOG_MAX_FILES = 7;
+
+/** The request a log line was written for */
+export interface LogContext {
+  traceId: string;
+  sessionId?: string;
+}
+
+export const logContext = new AsyncLocalStorage<LogContext>();
+
+/**
+ * `server-2026-01-31T12-00-00-000Z.log` for a log rotated at that time
+ */
+function rotatedName(date: Date): string {
+  return `server-${date.toISOString().replace(/[:.]/g, '-')}.log`;
+}
+
+/**
+ * Rotated log files in LOG_DIR, oldest first
+ */
+export function listRotatedLogs(dir: string = LOG_DIR): string[] {
+  try {
+    return fs
+      .readdirSync(dir)
+      .filter((name) => /^server-.+\.log$/.test(name))
+      .sort()
+      .map((name) => path.join(dir, name));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Append-only log file that renames itself aside when too big or too old.
+ * Writes are synchronous so nothing is lost when the process exits.
+ */
+export class RotatingLogFile {
+  private fd: number | null = null;
+  private size = 0;
+  private startedAt = 0;
+
+  constructor(
+    private readonly file: string = LOG_FILE,
+    private readonly options: { maxBytes?: number; maxAgeMs?: number; maxFiles?: number } = {}
+  ) {}
+
+  write(chunk: string): boolean {
+    if (this.fd === null) this.open();
+    const bytes = Buffer.byteLength(chunk);
+    if (this.size > 0 && this.shouldRotate(bytes)) this.rotate();
+
+    fs.writeSync(this.fd as number, chunk);
+    this.size += bytes;
+    return true;
+  }
+
+  close(): void {
+    if (this.fd !== null) {
+      fs.closeSync(this.fd);
+      this.fd = null;
+    }
+  }
+
+  private open(): void {
+    ensureDir(path.dirname(this.file));
+    this.fd = fs.openSync(this.file, 'a');
+    const stats = fs.fstatSync(this.fd);
+    this.size = stats.size;
+    // birthtime is not available on every filesystem; fall back to the last write
+    this.startedAt = stats.size > 0 ? stats.birthtimeMs || stats.mtimeMs : Date.now();
+  }
+
+  private shouldRotate(incoming: number): boolean {
+    const { maxBytes = LOG_MAX_BYTES, maxAgeMs = LOG_MAX_AGE_MS } = this.options;
+    return this.size + incoming > maxBytes || Date.now() - this.startedAt > maxAgeMs;
+  }
+
+  private rotate(): void {
+    this.close();
+    const dir = path.dirname(this.file);
+    fs.renameSync(this.file, path.join(dir, rotatedName(new Date())));
+
+    const rotated = listRotatedLogs(dir);
+    const excess = rotated.length - (this.options.maxFiles ?? LOG_MAX_FILES);
+    for (const file of rotated.slice(0, Math.max(0, excess))) {
+      fs.rmSync(file, { force: true });
+    }
+
+    this.open();
+    this.startedAt = Date.now();
+  }
+}
+
+/**
+ * Pino options for the server: JSON lines to the rotating log file, plus
+ * pretty output when stdout is a terminal (foreground and `pnpm dev`).
+ */
+export function createLoggerOptions(level: string) {
+  const streams: StreamEntry[] = [{ level: 'trace', stream: new RotatingLogFile() }];
+  if (process.stdout.isTTY) {
+    streams.push({
+      level: 'trace',
+      stream: pretty({ colorize: true, translateTime: 'HH:MM:ss Z', ignore: 'pid,hostname' }),
+    });
+  }
+
+  return {
+    level,
+    stream: pino.multistream(streams),
+    // Lines logged while handling a request carry its session
+    mixin: () => {
+      const sessionId = logContext.getStore()?.sessionId;
+      return sessionId ? { sessionId } : {};
+    },
+  };
+}
+
+/**
+ * Send `console.*` output to the logger. Lines logged outside `request.log`
+ * get the trace ID of the request being handled.
+ */
+export function captureConsole(logger: FastifyBaseLogger): void {
+  const forward =
+    (level: 'debug' | 'info' | 'warn' | 'error') =>
+    (...args: unknown[]) => {
+      const traceId = logContext.getStore()?.traceId;
+      logger[level](traceId ? { traceId } : {}, format(...args));
+    };
+
+  console.debug = forward('debug');
+  console.log = forward('info');
+  console.info = forward('info');
+  console.warn = forward('warn');
+  console.error = forward('error');
+}
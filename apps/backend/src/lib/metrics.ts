@@ -0,0 +1,180 @@
+/**
+ * Minimal Prometheus metrics: counters, gauges and histograms rendered in the
+ * text exposition format served by `GET /metrics`.
+ */
+
+export type MetricLabels = Record<string, string>;
+
+export interface MetricSample {
+  labels: MetricLabels;
+  value: number;
+}
+
+/** Request and stream latencies, in seconds */
+export const DEFAULT_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120,
+];
+
+interface Metric {
+  readonly name: string;
+  render(): string[];
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return '';
+  return `{${entries.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(',')}}`;
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (value === Number.POSITIVE_INFINITY) return '+Inf';
+  if (value === Number.NEGATIVE_INFINITY) return '-Inf';
+  return String(value);
+}
+
+function labelKey(labels: MetricLabels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function header(name: string, help: string, type: string): string[] {
+  return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+}
+
+export class Counter implements Metric {
+  private readonly values: Map<string, MetricSample> = new Map();
+
+  constructor(
+    readonly name: string,
+    private readonly help: string
+  ) {}
+
+  inc(labels: MetricLabels = {}, value = 1): void {
+    const key = labelKey(labels);
+    const sample = this.values.get(key);
+    if (sample) {
+      sample.value += value;
+    } else {
+      this.values.set(key, { labels, value });
+    }
+  }
+
+  render(): string[] {
+    return [
+      ...header(this.name, this.help, 'counter'),
+      ...[...this.values.values()].map(
+        (sample) => `${this.name}${formatLabels(sample.labels)} ${formatValue(sample.value)}`
+      ),
+    ];
+  }
+}
+
+/**
+ * A value read when metrics are scraped, e.g. a map size or a file size
+ */
+export class Gauge implements Metric {
+  constructor(
+    readonly name: string,
+    private readonly help: string,
+    private readonly collect: () => MetricSample[] | number
+  ) {}
+
+  render(): string[] {
+    let samples: MetricSample[];
+    try {
+      const collected = this.collect();
+      samples = typeof collected === 'number' ? [{ labels: {}, value: collected }] : collected;
+    } catch (error) {
+      console.error(`[Metrics] Failed to collect ${this.name}:`, error);
+      samples = [];
+    }
+
+    return [
+      ...header(this.name, this.help, 'gauge'),
+      ...samples.map(
+        (sample) => `${this.name}${formatLabels(sample.labels)} ${formatValue(sample.value)}`
+      ),
+    ];
+  }
+}
+
+interface HistogramSeries {
+  labels: MetricLabels;
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram implements Metric {
+  private readonly series: Map<string, HistogramSeries> = new Map();
+
+  constructor(
+    readonly name: string,
+    private readonly help: string,
+    private readonly buckets: number[] = DEFAULT_BUCKETS
+  ) {}
+
+  observe(labels: MetricLabels, value: number): void {
+    const key = labelKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels, buckets: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+
+    for (let i = 0; i < this.buckets.length; i++) {
+      if (value <= this.buckets[i]) series.buckets[i]++;
+    }
+    series.sum += value;
+    series.count++;
+  }
+
+  render(): string[] {
+    const lines = header(this.name, this.help, 'histogram');
+    for (const series of this.series.values()) {
+      this.buckets.forEach((bound, i) => {
+        const labels = formatLabels({ ...series.labels, le: formatValue(bound) });
+        lines.push(`${this.name}_bucket${labels} ${series.buckets[i]}`);
+      });
+      lines.push(
+        `${this.name}_bucket${formatLabels({ ...series.labels, le: '+Inf' })} ${series.count}`,
+        `${this.name}_sum${formatLabels(series.labels)} ${formatValue(series.sum)}`,
+        `${this.name}_count${formatLabels(series.labels)} ${series.count}`
+      );
+    }
+    return lines;
+  }
+}
+
+export class MetricsRegistry {
+  private readonly metrics: Map<string, Metric> = new Map();
+
+  counter(name: string, help: string): Counter {
+    return this.add(new Counter(name, help));
+  }
+
+  gauge(name: string, help: string, collect: () => MetricSample[] | number): Gauge {
+    return this.add(new Gauge(name, help, collect));
+  }
+
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.add(new Histogram(name, help, buckets));
+  }
+
+  /** All metrics in the Prometheus text exposition format */
+  render(): string {
+    return `${[...this.metrics.values()].flatMap((metric) => metric.render()).join('\n')}\n`;
+  }
+
+  private add<T extends Metric>(metric: T): T {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+}
@@ -2,7 +2,6 @@
  * Cross-Platform Path Utilities
  *
  * Provides consistent path handling across Windows, macOS, and Linux.
- * Uses the same pattern as db/index.ts for data directory location.
  */
 
 import fs from 'node:fs';
@@ -12,21 +11,39 @@ import path from 'node:path';
 /** Base data directory: ~/.devmentorai */
 export const DATA_DIR = path.join(os.homedir(), '.devmentorai');
 
+/** SQLite database: ~/.devmentorai/devmentorai.db */
+export const DB_FILE = path.join(DATA_DIR, 'devmentorai.db');
+
+/** Database backups: ~/.devmentorai/backups */
+export const BACKUPS_DIR = path.join(DATA_DIR, 'backups');
+
 /** Images directory: ~/.devmentorai/images */
 export const IMAGES_DIR = path.join(DATA_DIR, 'images');
 
 /** Logs directory: ~/.devmentorai/logs */
 export const LOG_DIR = path.join(DATA_DIR, 'logs');
 
-/** Server log file: ~/.devmentorai/logs/server.log */
+/** Server log file, one JSON object per line: ~/.devmentorai/logs/server.log */
 export const LOG_FILE = path.join(LOG_DIR, 'server.log');
 
+/** Raw output of the background server, e.g. crashes before logging starts: ~/.devmentorai/logs/stdout.log */
+export const STDOUT_LOG_FILE = path.join(LOG_DIR, 'stdout.log');
+
 /** PID file: ~/.devmentorai/server.pid */
 export const PID_FILE = path.join(DATA_DIR, 'server.pid');
 
 /** Config file: ~/.devmentorai/config.json */
 export const CONFIG_FILE = path.join(DATA_DIR, 'config.json');
 
+/** User-defined analyze_config rules, one or more per YAML or JSON file: ~/.devmentorai/rules */
+export const RULES_DIR = path.join(DATA_DIR, 'rules');
+
+/** Installed pricing table for estimate_cost, replacing the bundled one when newer: ~/.devmentorai/pricing.json */
+export const PRICING_FILE = path.join(DATA_DIR, 'pricing.json');
+
+/** Auth secret used to derive pairing codes and sign tokens: ~/.devmentorai/auth-secret */
+export const AUTH_SECRET_FILE = path.join(DATA_DIR, 'auth-secret');
+
 /**
  * Ensure a directory exists, creating it if necessary
  */
@@ -136,6 +153,23 @@ export function getFileStats(filePath: string): fs.Stats | null {
   }
 }
 
+/**
+ * Total size of the files under a directory
+ * @param dirPath - The directory to measure
+ * @returns Size in bytes (0 if the directory doesn't exist)
+ */
+export function getDirectorySize(dirPath: string): number {
+  if (!fs.existsSync(dirPath)) return 0;
+  let total = 0;
+  for (const entry of fs.readdirSync(dirPath, { withFileTypes: true })) {
+    const entryPath = path.join(dirPath, entry.name);
+    total += entry.isDirectory()
+      ? getDirectorySize(entryPath)
+      : (getFileStats(entryPath)?.size ?? 0);
+  }
+  return total;
+}
+
 // Initialize directories on module load
 ensureDir(IMAGES_DIR);
 ensureDir(LOG_DIR);
@@ -0,0 +1,55 @@
+/**
+ * Secret scrubbing for logs. Request bodies can carry pasted config, page text
+ * and provider keys, and image URLs carry the pairing token as `?token=`.
+ */
+
+const REDACTED = '[REDACTED]';
+
+// Object keys whose values are always hidden
+const SECRET_KEY_PATTERN =
+  /^(authorization|cookie|set-cookie|password|passwd|secret|client_secret|token|access_token|refresh_token|id_token|api[-_]?key|private[-_]?key)$/i;
+
+// Secrets recognisable by their shape, wherever they appear in a string
+const SECRET_VALUE_PATTERNS: Array<[RegExp, string]> = [
+  [/-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g, REDACTED],
+  [/\bBearer\s+[A-Za-z0-9\-._~+/]+=*/gi, `Bearer ${REDACTED}`],
+  [/\b(gh[pousr]_[A-Za-z0-9]{20,}|github_pat_[A-Za-z0-9_]{20,})\b/g, REDACTED],
+  [/\bsk-[A-Za-z0-9_-]{16,}\b/g, REDACTED],
+  [/\b(AKIA|ASIA)[0-9A-Z]{16}\b/g, REDACTED],
+  [/\beyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]+/g, REDACTED],
+  [
+    /([?&](?:token|access_token|api_key|apikey|key|secret|password|auth)=)[^&#\s"]*/gi,
+    `$1${REDACTED}`,
+  ],
+  [/((?:api[_-]?key|password|secret|token)["']?\s*[=:]\s*["']?)[^\s"',}&]+/gi, `$1${REDACTED}`],
+];
+
+/**
+ * Hide secrets in a string, keeping the surrounding text readable
+ */
+export function scrubText(text: string): string {
+  let scrubbed = text;
+  for (const [pattern, replacement] of SECRET_VALUE_PATTERNS) {
+    scrubbed = scrubbed.replace(pattern, replacement);
+  }
+  return scrubbed;
+}
+
+/**
+ * Copy of a JSON-like value with secret fields and secret-looking strings hidden
+ */
+export function scrubSecrets(value: unknown): unknown {
+  if (typeof value === 'string') return scrubText(value);
+  if (Array.isArray(value)) return value.map(scrubSecrets);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [
+        key,
+        SECRET_KEY_PATTERN.test(key) && entry !== null && entry !== undefined
+          ? REDACTED
+          : scrubSecrets(entry),
+      ])
+    );
+  }
+  return value;
+}
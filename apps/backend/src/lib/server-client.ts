@@ -0,0 +1,108 @@
+/**
+ * Calls the running server's API from CLI commands, with a token signed by the
+ * local auth secret so the CLI never needs pairing.
+ */
+
+import type { ApiResponse, StreamEvent } from '@devmentorai/shared';
+import { issueToken, loadAuthSecret } from './auth.js';
+import { isServerRunning } from './daemon.js';
+
+export interface ServerClient {
+  request<T>(path: string, init?: { method?: string; body?: unknown }): Promise<T>;
+  stream(
+    path: string,
+    body: unknown,
+    onEvent: (event: StreamEvent) => void,
+    signal?: AbortSignal
+  ): Promise<void>;
+}
+
+export function createServerClient(port: number): ServerClient {
+  const baseUrl = `http://127.0.0.1:${port}`;
+  const headers = {
+    'Content-Type': 'application/json',
+    Authorization: `Bearer ${issueToken(loadAuthSecret())}`,
+  };
+
+  return {
+    async request<T>(path: string, init: { method?: string; body?: unknown } = {}) {
+      const response = await fetch(`${baseUrl}${path}`, {
+        method: init.method ?? 'GET',
+        headers: init.body === undefined ? { Authorization: headers.Authorization } : headers,
+        body: init.body === undefined ? undefined : JSON.stringify(init.body),
+      });
+      const payload = (await response.json()) as ApiResponse<T>;
+      if (!payload.success) {
+        throw new Error(payload.error?.message || `Server answered ${response.status}`);
+      }
+      return payload.data as T;
+    },
+
+    async stream(path, body, onEvent, signal) {
+      const response = await fetch(`${baseUrl}${path}`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(body),
+        signal,
+      });
+      if (!response.ok || !response.body) {
+        const payload = (await response.json().catch(() => null)) as ApiResponse<unknown> | null;
+        throw new Error(payload?.error?.message || `Stream request failed: ${response.status}`);
+      }
+      await readEventStream(response.body, onEvent);
+    },
+  };
+}
+
+/**
+ * Client for the server on the configured port. Throws when it isn't running.
+ */
+export async function connectToServer(port: number): Promise<ServerClient> {
+  const status = await isServerRunning(port);
+  if (!status.running) {
+    throw new Error(
+      `Server is not running on port ${port}. Start it with: devmentorai-server start`
+    );
+  }
+  return createServerClient(port);
+}
+
+/**
+ * Pass each `data:` event of a server-sent event stream to `onEvent`, stopping
+ * at the `[DONE]` marker
+ */
+export async function readEventStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: StreamEvent) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        if (!line.startsWith('data: ')) continue;
+        const data = line.slice(6).trim();
+        if (data === '[DONE]') return;
+        let event: StreamEvent;
+        try {
+          event = JSON.parse(data) as StreamEvent;
+        } catch {
+          // Not an event; skip it like the extension does
+          continue;
+        }
+        onEvent(event);
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
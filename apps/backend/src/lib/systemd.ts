@@ -0,0 +1,121 @@
+/**
+ * systemd user service management (Linux)
+ *
+ * Runs the server under `systemctl --user` so it restarts after crashes and
+ * starts with the user's session, instead of the PID-file daemon.
+ */
+
+import { spawnSync } from 'node:child_process';
+import os from 'node:os';
+import path from 'node:path';
+import { STDOUT_LOG_FILE } from './paths.js';
+
+export const SERVICE_NAME = 'devmentorai-server.service';
+
+/** ~/.config/systemd/user/devmentorai-server.service */
+export const UNIT_FILE = path.join(
+  process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config'),
+  'systemd',
+  'user',
+  SERVICE_NAME
+);
+
+export interface ServiceStatus {
+  /** The unit file is known to systemd */
+  installed: boolean;
+  /** Starts with the user's session */
+  enabled: boolean;
+  /** `active`, `activating`, `failed`, `inactive`, ... */
+  state: string;
+  active: boolean;
+  pid: number | null;
+}
+
+export interface UnitOptions {
+  /** Node.js binary */
+  nodePath: string;
+  /** Built CLI entry point (dist/cli.js) */
+  cliPath: string;
+  /** PATH for the service, so the Copilot CLI can be found */
+  searchPath: string;
+}
+
+/** Run `systemctl --user` with the given arguments */
+export function systemctl(args: string[]): { ok: boolean; output: string } {
+  const result = spawnSync('systemctl', ['--user', ...args], {
+    encoding: 'utf-8',
+    timeout: 15000,
+  });
+  return {
+    ok: result.status === 0,
+    output: `${result.stdout ?? ''}${result.stderr ?? ''}`.trim(),
+  };
+}
+
+/**
+ * Whether this machine has a systemd user manager to talk to
+ */
+export function isSystemdAvailable(): boolean {
+  return process.platform === 'linux' && systemctl(['show-environment']).ok;
+}
+
+/**
+ * The unit file. Settings come from config.json, which the server reads itself,
+ * so the unit doesn't fix the port or anything else.
+ */
+export function buildUnitFile({ nodePath, cliPath, searchPath }: UnitOptions): string {
+  return `[Unit]
+Description=DevMentorAI backend server
+Documentation=https://github.com/BOTOOM/devmentorai
+After=network-online.target
+
+[Service]
+Type=simple
+ExecStart="${nodePath}" "${cliPath}" start --foreground
+Restart=on-failure
+RestartSec=5
+Environment=NODE_ENV=production
+Environment="PATH=${searchPath}"
+StandardOutput=append:${STDOUT_LOG_FILE}
+StandardError=append:${STDOUT_LOG_FILE}
+
+[Install]
+WantedBy=default.target
+`;
+}
+
+/**
+ * Parse `systemctl show --property=...` output
+ */
+export function parseServiceStatus(output: string): ServiceStatus {
+  const properties = new Map<string, string>();
+  for (const line of output.split('\n')) {
+    const separator = line.indexOf('=');
+    if (separator > 0) {
+      properties.set(line.slice(0, separator), line.slice(separator + 1).trim());
+    }
+  }
+
+  const state = properties.get('ActiveState') || 'inactive';
+  const pid = Number.parseInt(properties.get('MainPID') ?? '', 10);
+  return {
+    installed: properties.get('LoadState') === 'loaded',
+    enabled: properties.get('UnitFileState') === 'enabled',
+    state,
+    active: state === 'active' || state === 'activating' || state === 'reloading',
+    pid: pid > 0 ? pid : null,
+  };
+}
+
+/**
+ * Status of the systemd service, or null when systemd isn't available
+ */
+export function getServiceStatus(): ServiceStatus | null {
+  if (process.platform !== 'linux') return null;
+  const result = systemctl([
+    'show',
+    SERVICE_NAME,
+    '--property=LoadState,UnitFileState,ActiveState,MainPID',
+  ]);
+  return result.ok ? parseServiceStatus(result.output) : null;
+}
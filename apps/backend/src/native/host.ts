@@ -13,6 +13,7 @@
  */
 
 import type { FastifyInstance } from 'fastify';
+import { issueToken } from '../lib/auth.js';
 import { createServer } from '../server.js';
 
 interface NativeMessage {
@@ -31,13 +32,18 @@ interface NativeResponse {
   error?: string;
 }
 
+const STREAM_PATH = /^\/api\/sessions\/([^/]+)\/chat\/stream/;
+
 class NativeMessagingHost {
   private app: FastifyInstance | null = null;
   private activeStreams = new Map<string, AbortController>();
+  // The browser only launches the host for our extension, so it is trusted like a paired client
+  private authToken = '';
 
   async initialize(): Promise<void> {
     this.app = await createServer();
     await this.app.ready();
+    this.authToken = issueToken(this.app.authSecret);
     this.log('Native Messaging Host initialized');
   }
 
@@ -151,6 +157,20 @@ class NativeMessagingHost {
       return;
     }
 
+    // inject() buffers the whole SSE response, but the stream waits on permission
+    // prompts, so forward those to the extension as soon as they are raised
+    const streamSessionId =
+      message.type === 'stream' ? message.path.match(STREAM_PATH)?.[1] : undefined;
+    const stopPermissionEvents = streamSessionId
+      ? this.app.permissionService.onPermissionRequest(streamSessionId, (permissionRequest) => {
+          this.writeMessage({
+            id: message.id,
+            type: 'stream_chunk',
+            data: { type: 'permission_request', data: { permissionRequest } },
+          });
+        })
+      : undefined;
+
     try {
       // Route the request through Fastify's inject method
       const response = await this.app.inject({
@@ -159,6 +179,7 @@ class NativeMessagingHost {
         payload: message.body as Record<string, unknown> | undefined,
         headers: {
           'content-type': 'application/json',
+          authorization: `Bearer ${this.authToken}`,
         },
       });
 
@@ -189,6 +210,8 @@ class NativeMessagingHost {
         type: 'error',
         error: error instanceof Error ? error.message : 'Unknown error',
       });
+    } finally {
+      stopPermissionEvents?.();
     }
   }
 
@@ -214,6 +237,8 @@ class NativeMessagingHost {
         } else {
           try {
             const parsed = JSON.parse(data);
+            // Already forwarded while the stream was running
+            if (parsed.type === 'permission_request') continue;
             this.writeMessage({
               id,
               type: 'stream_chunk',
@@ -14,45 +14,11 @@ import * as fs from 'node:fs';
 import * as os from 'node:os';
 import * as path from 'node:path';
 import { fileURLToPath } from 'node:url';
+import { HOST_NAME, getManifestPaths } from './manifest.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-const HOST_NAME = 'com.devmentorai.host';
-
-interface ManifestPaths {
-  chrome: string;
-  chromium: string;
-}
-
-function getManifestPaths(): ManifestPaths {
-  const platform = os.platform();
-  const home = os.homedir();
-
-  switch (platform) {
-    case 'darwin': // macOS
-      return {
-        chrome: path.join(home, 'Library/Application Support/Google/Chrome/NativeMessagingHosts'),
-        chromium: path.join(home, 'Library/Application Support/Chromium/NativeMessagingHosts'),
-      };
-    case 'linux':
-      return {
-        chrome: path.join(home, '.config/google-chrome/NativeMessagingHosts'),
-        chromium: path.join(home, '.config/chromium/NativeMessagingHosts'),
-      };
-    case 'win32': {
-      // Windows uses registry, but we'll use the user-level manifest location
-      const appData = process.env.LOCALAPPDATA || path.join(home, 'AppData/Local');
-      return {
-        chrome: path.join(appData, 'Google/Chrome/User Data/NativeMessagingHosts'),
-        chromium: path.join(appData, 'Chromium/User Data/NativeMessagingHosts'),
-      };
-    }
-    default:
-      throw new Error(`Unsupported platform: ${platform}`);
-  }
-}
-
 function createManifest(extensionId: string): object {
   // Get the path to the native host executable
   const hostPath = path.resolve(__dirname, 'host.js');
@@ -0,0 +1,51 @@
+/**
+ * Where Chrome and Chromium look for the Native Messaging host manifest
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+
+export const HOST_NAME = 'com.devmentorai.host';
+
+export interface ManifestPaths {
+  chrome: string;
+  chromium: string;
+}
+
+export function getManifestPaths(): ManifestPaths {
+  const platform = os.platform();
+  const home = os.homedir();
+
+  switch (platform) {
+    case 'darwin': // macOS
+      return {
+        chrome: path.join(home, 'Library/Application Support/Google/Chrome/NativeMessagingHosts'),
+        chromium: path.join(home, 'Library/Application Support/Chromium/NativeMessagingHosts'),
+      };
+    case 'linux':
+      return {
+        chrome: path.join(home, '.config/google-chrome/NativeMessagingHosts'),
+        chromium: path.join(home, '.config/chromium/NativeMessagingHosts'),
+      };
+    case 'win32': {
+      // Windows uses registry, but we'll use the user-level manifest location
+      const appData = process.env.LOCALAPPDATA || path.join(home, 'AppData/Local');
+      return {
+        chrome: path.join(appData, 'Google/Chrome/User Data/NativeMessagingHosts'),
+        chromium: path.join(appData, 'Chromium/User Data/NativeMessagingHosts'),
+      };
+    }
+    default:
+      throw new Error(`Unsupported platform: ${platform}`);
+  }
+}
+
+/**
+ * Browsers the host manifest is installed for
+ */
+export function findInstalledManifests(): string[] {
+  return Object.entries(getManifestPaths())
+    .filter(([, dir]) => fs.existsSync(path.join(dir, `${HOST_NAME}.json`)))
+    .map(([browser]) => browser);
+}
@@ -1,5 +1,16 @@
-import type { ApiResponse, CopilotAuthStatus, CopilotQuotaStatus } from '@devmentorai/shared';
+import type {
+  ApiResponse,
+  CopilotAuthStatus,
+  CopilotQuotaStatus,
+  LlmProviderId,
+} from '@devmentorai/shared';
 import type { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { DEFAULT_PROVIDER } from '../services/llm.service.js';
+
+const quotaQuerySchema = z.object({
+  provider: z.enum(['copilot', 'openai']).default(DEFAULT_PROVIDER),
+});
 
 export async function accountRoutes(fastify: FastifyInstance): Promise<void> {
   fastify.get<{
@@ -14,9 +25,22 @@ export async function accountRoutes(fastify: FastifyInstance): Promise<void> {
   });
 
   fastify.get<{
+    Querystring: { provider?: LlmProviderId };
     Reply: ApiResponse<CopilotQuotaStatus>;
-  }>('/account/quota', async (_request, reply) => {
-    const quota = await fastify.copilotService.getQuota();
+  }>('/account/quota', async (request, reply) => {
+    const query = quotaQuerySchema.safeParse(request.query);
+    if (!query.success) {
+      return reply.code(400).send({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid provider',
+          details: { errors: query.error.errors },
+        },
+      });
+    }
+
+    const quota = await fastify.llmService.getQuota(query.data.provider);
 
     return reply.send({
       success: true,
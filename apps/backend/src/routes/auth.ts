@@ -0,0 +1,81 @@
+import type { ApiResponse, PairRequest, PairResponse } from '@devmentorai/shared';
+import type { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { issueToken, verifyPairingCode } from '../lib/auth.js';
+
+const pairSchema = z.object({
+  code: z.string().trim().min(1).max(32),
+});
+
+// Codes are short, so wrong guesses are throttled
+const MAX_FAILED_ATTEMPTS = 5;
+const FAILED_ATTEMPT_WINDOW_MS = 60 * 1000;
+
+export async function authRoutes(fastify: FastifyInstance) {
+  const failedAttempts: number[] = [];
+
+  // Exchange a pairing code printed by `devmentorai-server pair` for a bearer token
+  fastify.post<{
+    Body: PairRequest;
+    Reply: ApiResponse<PairResponse>;
+  }>('/auth/pair', async (request, reply) => {
+    try {
+      const { code } = pairSchema.parse(request.body);
+
+      const now = Date.now();
+      while (failedAttempts.length > 0 && failedAttempts[0] < now - FAILED_ATTEMPT_WINDOW_MS) {
+        failedAttempts.shift();
+      }
+      if (failedAttempts.length >= MAX_FAILED_ATTEMPTS) {
+        return reply.code(429).send({
+          success: false,
+          error: {
+            code: 'RATE_LIMITED',
+            message: 'Too many wrong pairing codes. Wait a minute and try again.',
+          },
+        });
+      }
+
+      if (!verifyPairingCode(fastify.authSecret, code, now)) {
+        failedAttempts.push(now);
+        return reply.code(401).send({
+          success: false,
+          error: {
+            code: 'INVALID_PAIRING_CODE',
+            message:
+              'Pairing code is wrong or expired. Run `devmentorai-server pair` for a new one.',
+          },
+        });
+      }
+
+      console.log('[AuthRoute] Paired a new client');
+
+      return reply.send({
+        success: true,
+        data: { token: issueToken(fastify.authSecret) },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return reply.code(400).send({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request body',
+            details: { errors: error.errors },
+          },
+        });
+      }
+      throw error;
+    }
+  });
+
+  // Lets a client check that its token is still accepted
+  fastify.get<{
+    Reply: ApiResponse<{ authenticated: boolean }>;
+  }>('/auth/status', async (_request, reply) => {
+    return reply.send({
+      success: true,
+      data: { authenticated: true },
+    });
+  });
+}
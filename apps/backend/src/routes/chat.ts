@@ -2,23 +2,26 @@ import type {
   ApiResponse,
   ImageAttachment,
   Message,
+  RegenerateMessageRequest,
   SendMessageRequest,
   StreamEvent,
 } from '@devmentorai/shared';
-import type { SessionEvent } from '@github/copilot-sdk';
 import type { FastifyInstance } from 'fastify';
 import { z } from 'zod';
 import {
   buildContextAwarePrompt,
   buildSimplePrompt,
+  buildThreadSystemPrompt,
   sanitizeContext,
   validateContext,
 } from '../services/context-prompt-builder.js';
+import type { ProviderEvent } from '../services/providers/types.js';
 import {
   type ProcessedImage,
   processMessageImages,
   toImageAttachments,
 } from '../services/thumbnail-service.js';
+import type { RecordUsageInput } from '../services/usage.service.js';
 
 // Schema for simple context (backward compatible)
 const simpleContextSchema = z.object({
@@ -26,15 +29,22 @@ const simpleContextSchema = z.object({
   pageTitle: z.string().optional(),
   selectedText: z.string().optional(),
   action: z
-    .enum([
-      'explain',
-      'translate',
-      'rewrite',
-      'fix_grammar',
-      'summarize',
-      'expand',
-      'analyze_config',
-      'diagnose_error',
+    .union([
+      z.enum([
+        'explain',
+        'translate',
+        'rewrite',
+        'fix_grammar',
+        'summarize',
+        'expand',
+        'analyze_config',
+        'analyze_iam_policy',
+        'diagnose_error',
+      ]),
+      // User-defined quick actions from the extension settings
+      z.custom<`custom:${string}`>(
+        (value) => typeof value === 'string' && /^custom:[\w-]{1,64}$/.test(value)
+      ),
     ])
     .optional(),
 });
@@ -149,12 +159,31 @@ const sendMessageSchema = z.object({
   preUploadedImages: z.array(preUploadedImageSchema).max(5).optional(),
 });
 
+const regenerateMessageSchema = z.object({
+  model: z.string().min(1).optional(),
+});
+
 export async function chatRoutes(fastify: FastifyInstance) {
   interface ToolExecutionEventData {
     toolName?: string;
     toolCallId?: string;
+    success?: boolean;
   }
 
+  // Count finished tool calls for /metrics. Copilot's completion events only carry the call ID.
+  const createToolCallRecorder = () => {
+    const toolNames = new Map<string, string>();
+    return (event: ProviderEvent) => {
+      const toolData = event.data as ToolExecutionEventData;
+      if (event.type === 'tool.execution_start' && toolData.toolCallId && toolData.toolName) {
+        toolNames.set(toolData.toolCallId, toolData.toolName);
+      } else if (event.type === 'tool.execution_complete') {
+        const toolName = toolData.toolName ?? toolNames.get(toolData.toolCallId ?? '') ?? 'unknown';
+        fastify.metricsService.recordToolCall(toolName, toolData.success !== false);
+      }
+    };
+  };
+
   // Helper to build the appropriate prompt based on context type
   // Returns userPrompt (enriched with context) and promptType
   // systemPrompt is always null - we don't override Copilot's default
@@ -190,6 +219,32 @@ export async function chatRoutes(fastify: FastifyInstance) {
     return { userPrompt, promptType: 'simple' };
   };
 
+  // Page context persisted with a prompt. Unreadable rows (corrupt or from an older
+  // format) are treated as missing, so the prompt is rebuilt without them.
+  const readStoredContext = (messageId: string): unknown => {
+    const stored = fastify.sessionService.getMessageContext(messageId);
+    if (!stored) return undefined;
+    try {
+      return JSON.parse(stored.contextJson);
+    } catch (err) {
+      console.warn(`[ChatRoute] Ignoring unreadable context for message ${messageId}:`, err);
+      return undefined;
+    }
+  };
+
+  // Record what an answered prompt cost. Accounting must never fail the chat request.
+  const recordUsage = async (usage: Omit<RecordUsageInput, 'pricingMultiplier'>) => {
+    try {
+      const pricingMultiplier = await fastify.llmService.getPricingMultiplier(
+        usage.provider,
+        usage.model
+      );
+      fastify.usageService.recordUsage({ ...usage, pricingMultiplier });
+    } catch (err) {
+      console.error('[ChatRoute] Failed to record usage:', err);
+    }
+  };
+
   // Send message (non-streaming)
   fastify.post<{
     Params: { id: string };
@@ -246,17 +301,36 @@ export async function chatRoutes(fastify: FastifyInstance) {
         }
       }
 
-      // Get response from Copilot (no system prompt - uses customAgents from session)
-      const response = await fastify.copilotService.sendMessage(
+      // Get response from the session's provider (no system prompt - uses customAgents from session)
+      const startedAt = Date.now();
+      let toolCalls = 0;
+      const recordToolCall = createToolCallRecorder();
+      const response = await fastify.llmService.sendMessage(
         sessionId,
         userPrompt,
-        body.context
+        body.context,
         // NOT passing systemPrompt - preserves Copilot's intelligence
+        (event) => {
+          if (event.type === 'tool.execution_start') toolCalls++;
+          recordToolCall(event);
+        }
       );
 
       // Save assistant message
       const assistantMessage = fastify.sessionService.addMessage(sessionId, 'assistant', response);
 
+      await recordUsage({
+        sessionId,
+        messageId: assistantMessage.id,
+        provider: session.provider,
+        model: session.model,
+        promptChars: userPrompt.length,
+        responseChars: response.length,
+        durationMs: Date.now() - startedAt,
+        toolCalls,
+        action: body.context?.action,
+      });
+
       return reply.send({
         success: true,
         data: assistantMessage,
@@ -417,7 +491,13 @@ export async function chatRoutes(fastify: FastifyInstance) {
       let fullContent = '';
       let assistantMessageId: string | null = null;
       let streamEnded = false;
+      let streamFailed = false;
       let lastActivityTime = Date.now();
+      let toolCalls = 0;
+      let firstTokenAt: number | null = null;
+      let streamOutcome = 'completed';
+      const recordToolCall = createToolCallRecorder();
+      const startedAt = Date.now();
 
       // Global timeout for the entire streaming operation (2 minutes)
       const STREAM_TIMEOUT_MS = 120000;
@@ -426,14 +506,14 @@ export async function chatRoutes(fastify: FastifyInstance) {
 
       const sendSSE = (event: StreamEvent) => {
         if (!streamEnded) {
-          reply.raw.write(`data: ${JSON.stringify(event)}\n\n`);
+          reply.raw.write(`data: ${JSON.stringify({ ...event, traceId: request.id })}\n\n`);
           lastActivityTime = Date.now();
         }
       };
 
       const endStream = (reason = 'completed') => {
         if (streamEnded) return;
-        streamEnded = true;
+        streamOutcome = reason;
 
         console.log(`[ChatRoute] Stream ending: ${reason}. Content length: ${fullContent.length}`);
 
@@ -444,44 +524,79 @@ export async function chatRoutes(fastify: FastifyInstance) {
         }
 
         sendSSE({ type: 'done', data: { messageId: assistantMessageId || undefined, reason } });
+        streamEnded = true;
         reply.raw.write('data: [DONE]\n\n');
         reply.raw.end();
       };
 
+      // Tell the client about refused file access so it can offer to widen the workspace
+      const stopDenialEvents = fastify.workspaceService.onAccessDenied(sessionId, (denial) => {
+        sendSSE({ type: 'tool_access_denied', data: { accessDenial: denial } });
+      });
+
+      // Ask the client before running tools; the provider waits for the answer
+      const stopPermissionEvents = fastify.permissionService.onPermissionRequest(
+        sessionId,
+        (permissionRequest) => {
+          sendSSE({ type: 'permission_request', data: { permissionRequest } });
+        }
+      );
+
       // Create a Promise that resolves when streaming is complete
+      let stopWaiting = () => {};
       const streamComplete = new Promise<void>((resolve) => {
         const cleanupTimers = () => {
           clearTimeout(globalTimeout);
           clearInterval(idleCheckInterval);
         };
+        stopWaiting = () => {
+          cleanupTimers();
+          resolve();
+        };
 
-        // Set up global timeout
-        const globalTimeout = setTimeout(() => {
+        // Set up global timeout; time spent waiting for the user's permission doesn't count
+        const onGlobalTimeout = () => {
+          if (fastify.permissionService.hasPending(sessionId)) {
+            globalTimeout = setTimeout(onGlobalTimeout, IDLE_TIMEOUT_MS);
+            return;
+          }
           console.warn('[ChatRoute] Global stream timeout reached');
           cleanupTimers();
           endStream('timeout');
-          fastify.copilotService.abortRequest(sessionId).catch(() => {});
+          fastify.llmService.abortRequest(sessionId).catch(() => {});
           resolve();
-        }, STREAM_TIMEOUT_MS);
+        };
+        let globalTimeout = setTimeout(onGlobalTimeout, STREAM_TIMEOUT_MS);
 
         // Set up idle timeout check
         const idleCheckInterval = setInterval(() => {
+          if (fastify.permissionService.hasPending(sessionId)) {
+            lastActivityTime = Date.now();
+            return;
+          }
           const idleTime = Date.now() - lastActivityTime;
           if (idleTime > IDLE_TIMEOUT_MS && !streamEnded) {
             console.warn(`[ChatRoute] Stream idle for ${idleTime}ms, ending`);
             cleanupTimers();
             endStream('idle_timeout');
-            fastify.copilotService.abortRequest(sessionId).catch(() => {});
+            fastify.llmService.abortRequest(sessionId).catch(() => {});
             resolve();
           }
         }, 5000);
 
-        // Handle Copilot events
-        const handleEvent = (event: SessionEvent) => {
+        // Handle provider events (Copilot SDK event shape)
+        const handleEvent = (event: ProviderEvent) => {
           if (streamEnded) return;
 
           console.log('[ChatRoute] Received event:', event.type);
           lastActivityTime = Date.now();
+          recordToolCall(event);
+          if (
+            firstTokenAt === null &&
+            (event.type === 'assistant.message_delta' || event.type === 'assistant.message')
+          ) {
+            firstTokenAt = lastActivityTime;
+          }
 
           switch (event.type) {
             case 'assistant.message_delta':
@@ -503,6 +618,7 @@ export async function chatRoutes(fastify: FastifyInstance) {
             case 'tool.execution_start':
               {
                 const toolData = event.data as ToolExecutionEventData;
+                toolCalls++;
                 sendSSE({
                   type: 'tool_start',
                   data: {
@@ -532,7 +648,7 @@ export async function chatRoutes(fastify: FastifyInstance) {
         };
 
         // Start streaming with attachments (no system prompt - uses customAgents from session)
-        const streamStart = fastify.copilotService.streamMessage(
+        const streamStart = fastify.llmService.streamMessage(
           sessionId,
           userPrompt,
           body.context,
@@ -541,7 +657,8 @@ export async function chatRoutes(fastify: FastifyInstance) {
         );
 
         streamStart.catch((streamError) => {
-          console.error('[ChatRoute] Failed to start Copilot stream:', streamError);
+          console.error('[ChatRoute] Failed to start provider stream:', streamError);
+          streamFailed = true;
           cleanupTimers();
 
           if (!streamEnded) {
@@ -565,20 +682,65 @@ export async function chatRoutes(fastify: FastifyInstance) {
         });
       });
 
-      // Handle client disconnect
-      request.raw.on('close', () => {
+      // Handle client disconnect. The response closes early only when the client goes away;
+      // the request closes as soon as its body has been read.
+      reply.raw.on('close', () => {
         if (!streamEnded) {
           console.log('[ChatRoute] Client disconnected, aborting');
           streamEnded = true;
-          fastify.copilotService.abortRequest(sessionId).catch((abortError) => {
+          streamOutcome = 'client_disconnected';
+          fastify.permissionService.cancelPending(sessionId);
+          fastify.llmService.abortRequest(sessionId).catch((abortError) => {
             console.error('[ChatRoute] Failed to abort request after disconnect:', abortError);
           });
           reply.raw.end();
+          stopWaiting();
         }
       });
 
       // Wait for streaming to complete before allowing Fastify to close the connection
-      await streamComplete;
+      try {
+        await streamComplete;
+      } finally {
+        stopDenialEvents();
+        stopPermissionEvents();
+        fastify.permissionService.cancelPending(sessionId);
+      }
+
+      const durationMs = Date.now() - startedAt;
+      fastify.metricsService.observeStream(session.provider, streamOutcome, durationMs / 1000);
+      if (firstTokenAt !== null) {
+        fastify.metricsService.observeTimeToFirstToken(
+          session.provider,
+          (firstTokenAt - startedAt) / 1000
+        );
+      }
+      request.log.info(
+        {
+          sessionId,
+          provider: session.provider,
+          outcome: streamOutcome,
+          durationMs,
+          timeToFirstTokenMs: firstTokenAt === null ? null : firstTokenAt - startedAt,
+          toolCalls,
+        },
+        'Stream finished'
+      );
+
+      // Aborted and timed-out prompts still cost a request; ones the provider rejected don't
+      if (!streamFailed) {
+        await recordUsage({
+          sessionId,
+          messageId: assistantMessageId ?? undefined,
+          provider: session.provider,
+          model: session.model,
+          promptChars: userPrompt.length,
+          responseChars: fullContent.length,
+          durationMs,
+          toolCalls,
+          action: body.context?.action,
+        });
+      }
     } catch (error) {
       if (error instanceof z.ZodError) {
         return reply.code(400).send({
@@ -598,9 +760,11 @@ export async function chatRoutes(fastify: FastifyInstance) {
         reply.raw.setHeader('Connection', 'keep-alive');
         reply.raw.setHeader('Access-Control-Allow-Origin', '*');
       }
+      request.log.error({ err: error }, 'Stream request failed');
       const errorEvent: StreamEvent = {
         type: 'error',
         data: { error: error instanceof Error ? error.message : 'Unknown error' },
+        traceId: request.id,
       };
       reply.raw.write(`data: ${JSON.stringify(errorEvent)}\n\n`);
       reply.raw.write('data: [DONE]\n\n');
@@ -608,6 +772,144 @@ export async function chatRoutes(fastify: FastifyInstance) {
     }
   });
 
+  // Regenerate an assistant response, optionally with a different model
+  fastify.post<{
+    Params: { id: string; messageId: string };
+    Body: RegenerateMessageRequest;
+    Reply: ApiResponse<Message>;
+  }>('/sessions/:id/messages/:messageId/regenerate', async (request, reply) => {
+    try {
+      const body = regenerateMessageSchema.parse(request.body ?? {});
+      const { id: sessionId, messageId } = request.params;
+
+      const session = fastify.sessionService.getSession(sessionId);
+      const target = fastify.sessionService.getMessage(messageId);
+      if (!session || !target || target.sessionId !== sessionId) {
+        return reply.code(404).send({
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Message not found',
+          },
+        });
+      }
+
+      // The prompt being answered is the closest user message up the thread
+      const history = target.parentId ? fastify.sessionService.getThread(target.parentId) : [];
+      let promptIndex = history.length - 1;
+      while (promptIndex >= 0 && history[promptIndex].role !== 'user') promptIndex--;
+
+      if (target.role !== 'assistant' || promptIndex < 0) {
+        return reply.code(400).send({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Only assistant replies to a user message can be regenerated',
+          },
+        });
+      }
+
+      if (body.model) {
+        const { models } = await fastify.llmService.listModels(session.provider);
+        if (models.length > 0 && !models.some((model) => model.id === body.model)) {
+          return reply.code(400).send({
+            success: false,
+            error: {
+              code: 'VALIDATION_ERROR',
+              message: `Unknown model: ${body.model}`,
+            },
+          });
+        }
+      }
+
+      // Rebuild the original prompt, including the page context persisted with it
+      const userMessage = history[promptIndex];
+      const metadata = userMessage.metadata;
+      const { userPrompt, promptType } = buildPrompt({
+        prompt: userMessage.content,
+        context: metadata
+          ? {
+              pageUrl: metadata.pageUrl,
+              selectedText: metadata.selectedText,
+            }
+          : undefined,
+        fullContext: readStoredContext(userMessage.id),
+        useContextAwareMode: metadata?.contextAware,
+      });
+
+      // Answer in a throwaway provider session primed with the earlier turns, so the
+      // session's own history and model are left as they were
+      const model = body.model ?? session.model;
+      const regenerationId = `${sessionId}_regen_${Date.now()}`;
+      console.log(`[ChatRoute] Regenerating ${messageId} with ${model} using ${promptType} prompt`);
+
+      let response: string;
+      let toolCalls = 0;
+      const recordToolCall = createToolCallRecorder();
+      const startedAt = Date.now();
+      try {
+        await fastify.llmService.createSession(
+          regenerationId,
+          session.provider,
+          session.type,
+          model,
+          {
+            systemPrompt: buildThreadSystemPrompt(
+              session.systemPrompt,
+              history.slice(0, promptIndex)
+            ),
+            tone: session.tone,
+            explainTradeoffs: session.explainTradeoffs,
+            reasoningEffort: session.reasoningEffort,
+            workspaceSessionId: sessionId,
+          }
+        );
+        response = await fastify.llmService.sendMessage(
+          regenerationId,
+          userPrompt,
+          undefined,
+          (event) => {
+            if (event.type === 'tool.execution_start') toolCalls++;
+            recordToolCall(event);
+          }
+        );
+      } finally {
+        await fastify.llmService.destroySession(regenerationId);
+      }
+
+      const message = fastify.sessionService.addMessageVariant(messageId, response, model);
+
+      await recordUsage({
+        sessionId,
+        messageId: message.id,
+        provider: session.provider,
+        model,
+        promptChars: userPrompt.length,
+        responseChars: response.length,
+        durationMs: Date.now() - startedAt,
+        toolCalls,
+        action: metadata?.action,
+      });
+
+      return reply.send({
+        success: true,
+        data: message,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return reply.code(400).send({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request body',
+            details: { errors: error.errors },
+          },
+        });
+      }
+      throw error;
+    }
+  });
+
   // Get session context history (Phase 5)
   fastify.get<{
     Params: { id: string };
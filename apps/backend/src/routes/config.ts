@@ -0,0 +1,41 @@
+import type { ApiResponse, ServerConfigReport, ServerConfigUpdate } from '@devmentorai/shared';
+import type { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+
+export async function configRoutes(fastify: FastifyInstance) {
+  // Settings in effect (secrets redacted), env overrides and pending restarts
+  fastify.get<{
+    Reply: ApiResponse<ServerConfigReport>;
+  }>('/config', async (_request, reply) => {
+    return reply.send({
+      success: true,
+      data: fastify.configService.getReport(),
+    });
+  });
+
+  // Change some settings; those that don't need a restart apply right away
+  fastify.patch<{
+    Body: ServerConfigUpdate;
+    Reply: ApiResponse<ServerConfigReport>;
+  }>('/config', async (request, reply) => {
+    try {
+      fastify.configService.update(request.body ?? {});
+      return reply.send({
+        success: true,
+        data: fastify.configService.getReport(),
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return reply.code(400).send({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid settings',
+            details: { errors: error.errors },
+          },
+        });
+      }
+      throw error;
+    }
+  });
+}
@@ -1,6 +1,8 @@
 import type { ApiResponse, HealthResponse } from '@devmentorai/shared';
 import { checkForUpdate } from '@devmentorai/shared';
 import type { FastifyInstance } from 'fastify';
+import { isAuthorizedRequest } from '../lib/auth.js';
+import { combineHealth } from '../services/health.service.js';
 import { BACKEND_VERSION } from '../version.js';
 
 const startTime = Date.now();
@@ -23,14 +25,31 @@ setInterval(refreshUpdateInfo, 60 * 60 * 1000);
 
 export async function healthRoutes(fastify: FastifyInstance) {
   fastify.get<{
+    Querystring: { detail?: string };
     Reply: ApiResponse<HealthResponse>;
-  }>('/health', async (_request, reply) => {
+  }>('/health', async (request, reply) => {
     const copilotService = fastify.copilotService;
 
+    // Details name the Copilot account, so unlike the summary they need a token
+    const detail = request.query.detail === 'true' || request.query.detail === '1';
+    if (detail) {
+      if (!isAuthorizedRequest(fastify.authSecret, request)) {
+        return reply.code(401).send({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Health details need a paired client. Run `devmentorai-server pair`.',
+          },
+        });
+      }
+    }
+
+    const components = await fastify.healthService.check(detail);
     const healthData: HealthResponse = {
-      status: copilotService.isReady() ? 'healthy' : 'degraded',
+      status: combineHealth(components),
       version: BACKEND_VERSION,
       copilotConnected: copilotService.isReady() && !copilotService.isMockMode(),
+      mockMode: copilotService.isMockMode(),
       uptime: Math.floor((Date.now() - startTime) / 1000),
       timestamp: new Date().toISOString(),
     };
@@ -39,6 +58,9 @@ export async function healthRoutes(fastify: FastifyInstance) {
       healthData.latestVersion = cachedUpdateInfo.latestVersion;
       healthData.updateAvailable = cachedUpdateInfo.updateAvailable;
     }
+    if (detail) {
+      healthData.components = components;
+    }
 
     return reply.send({
       success: true,
@@ -0,0 +1,10 @@
+import type { FastifyInstance } from 'fastify';
+
+export async function metricsRoutes(fastify: FastifyInstance) {
+  // Prometheus scrape endpoint (registered without the /api prefix, as scrapers expect)
+  fastify.get('/metrics', async (_request, reply) => {
+    return reply
+      .type('text/plain; version=0.0.4; charset=utf-8')
+      .send(fastify.metricsService.render());
+  });
+}
@@ -1,5 +1,13 @@
-import type { ApiResponse, ModelInfo, ModelPricingTier } from '@devmentorai/shared';
+import type {
+  ApiResponse,
+  LlmProviderId,
+  LlmProviderInfo,
+  ModelInfo,
+  ModelPricingTier,
+} from '@devmentorai/shared';
 import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { z } from 'zod';
+import { DEFAULT_PROVIDER } from '../services/llm.service.js';
 
 const TIER_ORDER: ModelPricingTier[] = ['free', 'cheap', 'standard', 'premium'];
 
@@ -12,8 +20,13 @@ const FALLBACK_MODEL: ModelInfo = {
   isDefault: true,
   pricingTier: 'free',
   pricingMultiplier: 0,
+  llmProvider: 'copilot',
 };
 
+const modelsQuerySchema = z.object({
+  provider: z.enum(['copilot', 'openai']).default(DEFAULT_PROVIDER),
+});
+
 function sortModelsByTierAndName(models: ModelInfo[]): ModelInfo[] {
   return [...models].sort((a, b) => {
     const aTier = a.pricingTier || 'standard';
@@ -26,9 +39,15 @@ function sortModelsByTierAndName(models: ModelInfo[]): ModelInfo[] {
 }
 
 async function getModelsPayload(
-  fastify: FastifyInstance
+  fastify: FastifyInstance,
+  provider: LlmProviderId
 ): Promise<{ models: ModelInfo[]; default: string }> {
-  const response = await fastify.copilotService.listModels();
+  const response = await fastify.llmService.listModels(provider);
+
+  // Self-hosted endpoints may legitimately list nothing; only Copilot has a known baseline
+  if (provider !== DEFAULT_PROVIDER && response.models.length === 0) {
+    return response;
+  }
 
   if (!response.models || response.models.length === 0) {
     return {
@@ -38,7 +57,10 @@ async function getModelsPayload(
   }
 
   const sortedModels = sortModelsByTierAndName(response.models);
+  const configuredDefault =
+    provider === DEFAULT_PROVIDER ? fastify.configService.get().copilot.defaultModel : null;
   const defaultModel =
+    sortedModels.find((model) => model.id === configuredDefault)?.id ||
     sortedModels.find((model) => model.id === response.default)?.id ||
     sortedModels.find((model) => model.isDefault)?.id ||
     FALLBACK_MODEL.id;
@@ -53,11 +75,34 @@ async function getModelsPayload(
 }
 
 export async function modelsRoutes(fastify: FastifyInstance): Promise<void> {
-  // List all available models
+  // List LLM providers and whether they can serve sessions
   fastify.get<{
+    Reply: ApiResponse<LlmProviderInfo[]>;
+  }>('/providers', async (_request: FastifyRequest, reply: FastifyReply) => {
+    return reply.send({
+      success: true,
+      data: fastify.llmService.listProviders(),
+    });
+  });
+
+  // List all available models of a provider (Copilot unless ?provider= is given)
+  fastify.get<{
+    Querystring: { provider?: LlmProviderId };
     Reply: ApiResponse<{ models: ModelInfo[]; default: string }>;
-  }>('/models', async (_request: FastifyRequest, reply: FastifyReply) => {
-    const payload = await getModelsPayload(fastify);
+  }>('/models', async (request, reply) => {
+    const query = modelsQuerySchema.safeParse(request.query);
+    if (!query.success) {
+      return reply.code(400).send({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid provider',
+          details: { errors: query.error.errors },
+        },
+      });
+    }
+
+    const payload = await getModelsPayload(fastify, query.data.provider);
 
     return reply.send({
       success: true,
@@ -68,10 +113,23 @@ export async function modelsRoutes(fastify: FastifyInstance): Promise<void> {
   // Get specific model info
   fastify.get<{
     Params: { id: string };
+    Querystring: { provider?: LlmProviderId };
     Reply: ApiResponse<ModelInfo>;
   }>('/models/:id', async (request, reply) => {
+    const query = modelsQuerySchema.safeParse(request.query);
+    if (!query.success) {
+      return reply.code(400).send({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid provider',
+          details: { errors: query.error.errors },
+        },
+      });
+    }
+
     const modelId = request.params.id;
-    const payload = await getModelsPayload(fastify);
+    const payload = await getModelsPayload(fastify, query.data.provider);
     const model = payload.models.find((m) => m.id === modelId);
 
     if (!model) {
@@ -0,0 +1,98 @@
+import type {
+  ApiResponse,
+  PermissionDecisionRequest,
+  ToolPermissionPolicy,
+  ToolPermissionSetting,
+} from '@devmentorai/shared';
+import type { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+
+const decisionSchema = z.object({
+  decision: z.enum(['allow_once', 'allow_session', 'deny']),
+});
+
+const policySchema = z.object({
+  policy: z.enum(['ask', 'allow', 'deny']),
+});
+
+export async function permissionRoutes(fastify: FastifyInstance) {
+  // Answer a permission prompt sent over the chat stream
+  fastify.post<{
+    Params: { id: string; requestId: string };
+    Body: PermissionDecisionRequest;
+    Reply: ApiResponse<{ requestId: string; allowed: boolean }>;
+  }>('/sessions/:id/permissions/:requestId', async (request, reply) => {
+    try {
+      const { id, requestId } = request.params;
+      const { decision } = decisionSchema.parse(request.body);
+
+      if (!fastify.permissionService.resolvePermission(id, requestId, decision)) {
+        return reply.code(404).send({
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Permission request not found or already answered',
+          },
+        });
+      }
+
+      console.log(`[PermissionRoute] ${requestId} answered with ${decision}`);
+
+      return reply.send({
+        success: true,
+        data: { requestId, allowed: decision !== 'deny' },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return reply.code(400).send({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request body',
+            details: { errors: error.errors },
+          },
+        });
+      }
+      throw error;
+    }
+  });
+
+  // List remembered tool policies
+  fastify.get<{
+    Reply: ApiResponse<ToolPermissionSetting[]>;
+  }>('/tool-permissions', async (_request, reply) => {
+    return reply.send({
+      success: true,
+      data: fastify.permissionService.listPolicies(),
+    });
+  });
+
+  // Remember a policy for a tool
+  fastify.put<{
+    Params: { toolName: string };
+    Body: { policy: ToolPermissionPolicy };
+    Reply: ApiResponse<ToolPermissionSetting>;
+  }>('/tool-permissions/:toolName', async (request, reply) => {
+    try {
+      const { policy } = policySchema.parse(request.body);
+      const setting = fastify.permissionService.setPolicy(request.params.toolName, policy);
+
+      return reply.send({
+        success: true,
+        data: setting,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return reply.code(400).send({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request body',
+            details: { errors: error.errors },
+          },
+        });
+      }
+      throw error;
+    }
+  });
+}
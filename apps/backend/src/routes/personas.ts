@@ -0,0 +1,162 @@
+import type {
+  ApiResponse,
+  CreatePersonaRequest,
+  Persona,
+  UpdatePersonaRequest,
+} from '@devmentorai/shared';
+import type { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { devopsTools } from '../tools/devops-tools.js';
+
+const TOOL_NAMES = devopsTools.map((tool) => tool.name);
+
+const toolsSchema = z
+  .array(z.string())
+  .max(TOOL_NAMES.length)
+  .refine((tools) => tools.every((name) => TOOL_NAMES.includes(name)), {
+    message: `Tools must be a subset of: ${TOOL_NAMES.join(', ')}`,
+  });
+
+const createPersonaSchema = z.object({
+  name: z.string().trim().min(1).max(60),
+  description: z.string().max(200).optional(),
+  icon: z.string().trim().min(1).max(8),
+  agentPrompt: z.string().trim().min(1).max(20000),
+  defaultModel: z.string().min(1).optional(),
+  tone: z.enum(['concise', 'friendly', 'professional', 'technical', 'balanced']).optional(),
+  tools: toolsSchema.optional(),
+});
+
+const updatePersonaSchema = createPersonaSchema
+  .extend({
+    description: z.string().max(200).nullable(),
+    defaultModel: z.string().min(1).nullable(),
+    tone: z.enum(['concise', 'friendly', 'professional', 'technical', 'balanced']).nullable(),
+  })
+  .partial();
+
+export async function personaRoutes(fastify: FastifyInstance) {
+  // List personas
+  fastify.get<{
+    Reply: ApiResponse<Persona[]>;
+  }>('/personas', async (_request, reply) => {
+    return reply.send({
+      success: true,
+      data: fastify.personaService.listPersonas(),
+    });
+  });
+
+  // Get single persona
+  fastify.get<{
+    Params: { id: string };
+    Reply: ApiResponse<Persona>;
+  }>('/personas/:id', async (request, reply) => {
+    const persona = fastify.personaService.getPersona(request.params.id);
+
+    if (!persona) {
+      return reply.code(404).send({
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Persona not found',
+        },
+      });
+    }
+
+    return reply.send({
+      success: true,
+      data: persona,
+    });
+  });
+
+  // Create persona
+  fastify.post<{
+    Body: CreatePersonaRequest;
+    Reply: ApiResponse<Persona>;
+  }>('/personas', async (request, reply) => {
+    try {
+      const body = createPersonaSchema.parse(request.body);
+      const persona = fastify.personaService.createPersona(body);
+
+      console.log(`[PersonaRoute] Created persona ${persona.id} (${persona.name})`);
+
+      return reply.code(201).send({
+        success: true,
+        data: persona,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return reply.code(400).send({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request body',
+            details: { errors: error.errors },
+          },
+        });
+      }
+      throw error;
+    }
+  });
+
+  // Update persona
+  fastify.patch<{
+    Params: { id: string };
+    Body: UpdatePersonaRequest;
+    Reply: ApiResponse<Persona>;
+  }>('/personas/:id', async (request, reply) => {
+    try {
+      const body = updatePersonaSchema.parse(request.body);
+      const persona = fastify.personaService.updatePersona(request.params.id, body);
+
+      if (!persona) {
+        return reply.code(404).send({
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Persona not found',
+          },
+        });
+      }
+
+      return reply.send({
+        success: true,
+        data: persona,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return reply.code(400).send({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request body',
+            details: { errors: error.errors },
+          },
+        });
+      }
+      throw error;
+    }
+  });
+
+  // Delete persona
+  fastify.delete<{
+    Params: { id: string };
+    Reply: ApiResponse<void>;
+  }>('/personas/:id', async (request, reply) => {
+    const deleted = fastify.personaService.deletePersona(request.params.id);
+
+    if (!deleted) {
+      return reply.code(404).send({
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Persona not found',
+        },
+      });
+    }
+
+    return reply.send({
+      success: true,
+    });
+  });
+}
@@ -1,23 +1,54 @@
+import { getPersonaId } from '@devmentorai/shared';
 import type {
   ApiResponse,
   CreateSessionRequest,
   Message,
+  MessageSearchResult,
   PaginatedResponse,
+  PersonaSessionType,
   Session,
+  SessionExport,
+  SessionExportFormat,
+  UpdateMessageRequest,
   UpdateSessionRequest,
 } from '@devmentorai/shared';
 import type { FastifyInstance } from 'fastify';
 import { z } from 'zod';
-import { deleteSessionImages } from '../services/thumbnail-service.js';
+import { buildThreadSystemPrompt } from '../services/context-prompt-builder.js';
+import {
+  EXPORT_CONTENT_TYPES,
+  buildSessionExport,
+  getExportFilename,
+  renderSessionExport,
+} from '../services/export-service.js';
+import { DEFAULT_PROVIDER } from '../services/llm.service.js';
+import {
+  deleteSessionImages,
+  processMessageImages,
+  toImageAttachments,
+} from '../services/thumbnail-service.js';
+import { normalizeWorkspaceRoot } from '../tools/workspace-access.js';
+
+const sessionTypeSchema = z.union([
+  z.enum(['devops', 'writing', 'development', 'general']),
+  z.custom<PersonaSessionType>(
+    (value) => typeof value === 'string' && /^persona:[\w-]{1,64}$/.test(value),
+    { message: 'Invalid persona session type' }
+  ),
+]);
+
+const providerSchema = z.enum(['copilot', 'openai']);
 
 const createSessionSchema = z.object({
   name: z.string().min(1).max(100),
-  type: z.enum(['devops', 'writing', 'development', 'general']),
+  type: sessionTypeSchema,
   model: z.string().optional(),
+  provider: providerSchema.optional(),
   systemPrompt: z.string().optional(),
   tone: z.enum(['concise', 'friendly', 'professional', 'technical', 'balanced']).optional(),
   explainTradeoffs: z.boolean().optional(),
   reasoningEffort: z.enum(['low', 'medium', 'high']).optional(),
+  workspaceRoots: z.array(z.string().min(1)).max(20).optional(),
 });
 
 const updateSessionSchema = z.object({
@@ -27,13 +58,103 @@ const updateSessionSchema = z.object({
   tone: z.enum(['concise', 'friendly', 'professional', 'technical', 'balanced']).optional(),
   explainTradeoffs: z.boolean().optional(),
   reasoningEffort: z.enum(['low', 'medium', 'high']).nullable().optional(),
+  workspaceRoots: z.array(z.string().min(1)).max(20).optional(),
+  pinned: z.boolean().optional(),
 });
 
+/**
+ * Resolve requested workspace roots to distinct real directories.
+ * Resolves to an error message when any root cannot be used.
+ */
+async function resolveWorkspaceRoots(
+  roots: string[] | undefined
+): Promise<{ roots?: string[]; error?: string }> {
+  if (roots === undefined) return {};
+  try {
+    const resolved = await Promise.all(roots.map((root) => normalizeWorkspaceRoot(root)));
+    return { roots: [...new Set(resolved)] };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : 'Invalid workspace root' };
+  }
+}
+
+/**
+ * The configured default workspace roots that can be used, for sessions created
+ * without any. Roots that no longer exist are skipped rather than failing the session.
+ */
+async function getDefaultWorkspaceRoots(roots: string[]): Promise<string[] | undefined> {
+  if (roots.length === 0) return undefined;
+  const resolved = await Promise.all(
+    roots.map((root) =>
+      normalizeWorkspaceRoot(root).catch((error: Error) => {
+        console.warn(`[SessionRoute] Skipping default workspace root: ${error.message}`);
+        return null;
+      })
+    )
+  );
+  return [...new Set(resolved.filter((root): root is string => root !== null))];
+}
+
 const switchModelSchema = z.object({
   model: z.string().min(1),
   reasoningEffort: z.enum(['low', 'medium', 'high']).nullable().optional(),
 });
 
+const searchQuerySchema = z.object({
+  q: z.string().trim().min(1).max(200),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+});
+
+const exportQuerySchema = z.object({
+  format: z.enum(['md', 'json', 'html']).default('md'),
+});
+
+const updateMessageSchema = z.object({
+  activeVariant: z.number().int().min(0),
+});
+
+const importedImageSchema = z
+  .object({
+    id: z.string(),
+    source: z.enum(['screenshot', 'paste', 'drop']),
+    mimeType: z.enum(['image/png', 'image/jpeg', 'image/webp']),
+    dimensions: z.object({ width: z.number(), height: z.number() }),
+    fileSize: z.number(),
+    timestamp: z.string(),
+    thumbnailUrl: z.string().optional(),
+  })
+  .passthrough();
+
+const importSessionSchema = z.object({
+  version: z.literal(1),
+  exportedAt: z.string().optional(),
+  session: z.object({
+    name: z.string().min(1).max(100),
+    type: sessionTypeSchema,
+    model: z.string().min(1),
+    provider: providerSchema.optional(),
+    systemPrompt: z.string().optional(),
+    tone: z.enum(['concise', 'friendly', 'professional', 'technical', 'balanced']).optional(),
+    explainTradeoffs: z.boolean().optional(),
+    reasoningEffort: z.enum(['low', 'medium', 'high']).optional(),
+    createdAt: z.string().optional(),
+    updatedAt: z.string().optional(),
+  }),
+  messages: z
+    .array(
+      z.object({
+        role: z.enum(['user', 'assistant', 'system']),
+        content: z.string(),
+        timestamp: z.string(),
+        metadata: z
+          .object({ images: z.array(importedImageSchema).optional() })
+          .passthrough()
+          .optional(),
+      })
+    )
+    .max(10000),
+});
+
 export async function sessionRoutes(fastify: FastifyInstance) {
   // List sessions
   fastify.get<{
@@ -60,19 +181,74 @@ export async function sessionRoutes(fastify: FastifyInstance) {
       const body = createSessionSchema.parse(request.body);
       console.log('[sessionRoutes] Creating session with body:', body);
 
+      // Persona sessions take their prompt and defaults from the persona
+      const personaId = getPersonaId(body.type);
+      const persona = personaId ? fastify.personaService.getPersona(personaId) : null;
+      if (personaId && !persona) {
+        return reply.code(404).send({
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Persona not found',
+          },
+        });
+      }
+
+      const config = fastify.configService.get();
+      const workspace = body.workspaceRoots
+        ? await resolveWorkspaceRoots(body.workspaceRoots)
+        : { roots: await getDefaultWorkspaceRoots(config.tools.workspaceRoots) };
+      if (workspace.error) {
+        return reply.code(400).send({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: workspace.error,
+          },
+        });
+      }
+
+      const provider = body.provider ?? DEFAULT_PROVIDER;
+      const unavailableReason = fastify.llmService.getUnavailableReason(provider);
+      if (unavailableReason) {
+        return reply.code(400).send({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: unavailableReason,
+          },
+        });
+      }
+
+      // Copilot model defaults depend on the session type unless one is configured;
+      // other providers pick their own
+      const providerDefaultModel =
+        provider === DEFAULT_PROVIDER
+          ? (config.copilot.defaultModel ?? undefined)
+          : (await fastify.llmService.listModels(provider)).default || undefined;
+
       // Create in database
-      const session = fastify.sessionService.createSession(body);
+      const session = fastify.sessionService.createSession({
+        ...body,
+        provider,
+        model: body.model ?? persona?.defaultModel ?? providerDefaultModel,
+        tone: body.tone ?? persona?.tone,
+        systemPrompt: body.systemPrompt ?? persona?.agentPrompt,
+        workspaceRoots: workspace.roots,
+      });
 
-      // Create Copilot session
-      await fastify.copilotService.createCopilotSession(
+      // Create the provider session
+      await fastify.llmService.createSession(
         session.id,
+        session.provider,
         session.type,
         session.model,
-        session.systemPrompt,
-        false, // enableMcp
-        session.tone,
-        session.explainTradeoffs,
-        session.reasoningEffort
+        {
+          systemPrompt: session.systemPrompt,
+          tone: session.tone,
+          explainTradeoffs: session.explainTradeoffs,
+          reasoningEffort: session.reasoningEffort,
+        }
       );
 
       return reply.code(201).send({
@@ -94,6 +270,122 @@ export async function sessionRoutes(fastify: FastifyInstance) {
     }
   });
 
+  // Import session from a JSON export
+  fastify.post<{
+    Body: SessionExport;
+    Reply: ApiResponse<Session>;
+  }>('/sessions/import', async (request, reply) => {
+    try {
+      const body = importSessionSchema.parse(request.body) as SessionExport;
+
+      const unavailableReason = fastify.llmService.getUnavailableReason(
+        body.session.provider ?? DEFAULT_PROVIDER
+      );
+      if (unavailableReason) {
+        return reply.code(400).send({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: unavailableReason,
+          },
+        });
+      }
+
+      const { session, messages } = fastify.sessionService.importSession(body);
+
+      // Don't leave a half-imported session behind when the provider refuses it. The
+      // provider gets the imported thread so the conversation can carry on from it.
+      try {
+        await fastify.llmService.createSession(
+          session.id,
+          session.provider,
+          session.type,
+          session.model,
+          {
+            systemPrompt: buildThreadSystemPrompt(session.systemPrompt, messages),
+            tone: session.tone,
+            explainTradeoffs: session.explainTradeoffs,
+            reasoningEffort: session.reasoningEffort,
+          }
+        );
+      } catch (error) {
+        fastify.sessionService.deleteSession(session.id);
+        throw error;
+      }
+
+      console.log(`[SessionRoute] Imported ${messages.length} messages into ${session.id}`);
+
+      // Restore inlined thumbnails onto disk so they are served like any other image
+      const host = request.headers.host || `${request.hostname}:3847`;
+      const backendUrl = `http://${host}`;
+
+      for (const message of messages) {
+        const images = message.metadata?.images;
+        if (!images?.length) continue;
+
+        const inputs = images
+          .filter((image) => image.thumbnailUrl?.startsWith('data:image/'))
+          .map((image) => ({
+            id: image.id,
+            dataUrl: image.thumbnailUrl as string,
+            mimeType: image.mimeType,
+            source: image.source,
+          }));
+        const processed = await processMessageImages(session.id, message.id, inputs, backendUrl);
+
+        fastify.sessionService.updateMessageMetadata(message.id, {
+          ...message.metadata,
+          images: toImageAttachments(processed),
+        });
+      }
+
+      return reply.code(201).send({
+        success: true,
+        data: session,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return reply.code(400).send({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid session export',
+            details: { errors: error.errors },
+          },
+        });
+      }
+      throw error;
+    }
+  });
+
+  // Search messages across all sessions
+  fastify.get<{
+    Querystring: { q?: string; limit?: string };
+    Reply: ApiResponse<{ results: MessageSearchResult[] }>;
+  }>('/sessions/search', async (request, reply) => {
+    try {
+      const query = searchQuerySchema.parse(request.query);
+      const results = fastify.sessionService.searchMessages(query.q, query.limit);
+
+      return reply.send({
+        success: true,
+        data: { results },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return reply.code(400).send({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid search query',
+            details: { errors: error.errors },
+          },
+        });
+      }
+      throw error;
+    }
+  });
+
   // Get session
   fastify.get<{
     Params: { id: string };
@@ -137,11 +429,22 @@ export async function sessionRoutes(fastify: FastifyInstance) {
         });
       }
 
+      const workspace = await resolveWorkspaceRoots(body.workspaceRoots);
+      if (workspace.error) {
+        return reply.code(400).send({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: workspace.error,
+          },
+        });
+      }
+
       const shouldReconfigureModel = body.model !== undefined || body.reasoningEffort !== undefined;
       const nextModel = body.model ?? currentSession.model;
 
       if (shouldReconfigureModel) {
-        await fastify.copilotService.switchSessionModel(
+        await fastify.llmService.switchSessionModel(
           currentSession.id,
           currentSession.type,
           nextModel,
@@ -152,6 +455,7 @@ export async function sessionRoutes(fastify: FastifyInstance) {
 
       const session = fastify.sessionService.updateSession(request.params.id, {
         ...body,
+        workspaceRoots: workspace.roots,
         ...(body.model !== undefined && body.reasoningEffort === undefined
           ? { reasoningEffort: null }
           : {}),
@@ -207,12 +511,12 @@ export async function sessionRoutes(fastify: FastifyInstance) {
       });
     }
 
-    // Destroy Copilot session first (handles cleanup of SDK resources)
+    // Destroy the provider session first (handles cleanup of SDK resources)
     try {
-      await fastify.copilotService.destroySession(sessionId);
+      await fastify.llmService.destroySession(sessionId);
     } catch (error) {
-      console.error('[SessionRoute] Error destroying Copilot session:', error);
-      // Continue with DB deletion even if Copilot cleanup fails
+      console.error('[SessionRoute] Error destroying provider session:', error);
+      // Continue with DB deletion even if provider cleanup fails
     }
 
     // Clean up images for this session
@@ -223,6 +527,9 @@ export async function sessionRoutes(fastify: FastifyInstance) {
       // Continue with DB deletion even if image cleanup fails
     }
 
+    // Forget "always for this session" approvals
+    fastify.permissionService.clearSession(sessionId);
+
     // Delete from database (CASCADE will delete messages)
     const deleted = fastify.sessionService.deleteSession(sessionId);
 
@@ -252,20 +559,22 @@ export async function sessionRoutes(fastify: FastifyInstance) {
       });
     }
 
-    // Resume Copilot session
-    const resumed = await fastify.copilotService.resumeCopilotSession(sessionId);
+    // Resume the provider session
+    const resumed = await fastify.llmService.resumeSession(sessionId);
 
     if (!resumed) {
-      // Create new Copilot session if resume failed
-      await fastify.copilotService.createCopilotSession(
+      // Create a new provider session if resume failed
+      await fastify.llmService.createSession(
         session.id,
+        session.provider,
         session.type,
         session.model,
-        session.systemPrompt,
-        false,
-        session.tone,
-        session.explainTradeoffs,
-        session.reasoningEffort
+        {
+          systemPrompt: session.systemPrompt,
+          tone: session.tone,
+          explainTradeoffs: session.explainTradeoffs,
+          reasoningEffort: session.reasoningEffort,
+        }
       );
     }
 
@@ -308,8 +617,8 @@ export async function sessionRoutes(fastify: FastifyInstance) {
       });
     }
 
-    // Switch model in Copilot session using SDK v0.2.x setModel()
-    await fastify.copilotService.switchSessionModel(
+    // Switch model in the provider session (Copilot uses SDK v0.2.x setModel())
+    await fastify.llmService.switchSessionModel(
       sessionId,
       session.type,
       body.model,
@@ -343,13 +652,161 @@ export async function sessionRoutes(fastify: FastifyInstance) {
     Params: { id: string };
     Reply: ApiResponse<void>;
   }>('/sessions/:id/abort', async (request, reply) => {
-    await fastify.copilotService.abortRequest(request.params.id);
+    await fastify.llmService.abortRequest(request.params.id);
 
     return reply.send({
       success: true,
     });
   });
 
+  // Export session as Markdown, JSON or HTML (served as a file download)
+  fastify.get<{
+    Params: { id: string };
+    Querystring: { format?: SessionExportFormat };
+  }>('/sessions/:id/export', async (request, reply) => {
+    const session = fastify.sessionService.getSession(request.params.id);
+
+    if (!session) {
+      return reply.code(404).send({
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Session not found',
+        },
+      });
+    }
+
+    const query = exportQuerySchema.safeParse(request.query);
+    if (!query.success) {
+      return reply.code(400).send({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid export format',
+          details: { errors: query.error.errors },
+        },
+      });
+    }
+
+    const { format } = query.data;
+    const messages = fastify.sessionService.listAllMessages(session.id);
+    const document = buildSessionExport(session, messages);
+
+    return reply
+      .header('Content-Type', EXPORT_CONTENT_TYPES[format])
+      .header('Content-Disposition', `attachment; filename="${getExportFilename(session, format)}"`)
+      .send(renderSessionExport(document, format));
+  });
+
+  // Fork the conversation at a user message into a new session
+  fastify.post<{
+    Params: { id: string; messageId: string };
+    Reply: ApiResponse<Session>;
+  }>('/sessions/:id/messages/:messageId/fork', async (request, reply) => {
+    const { id: sessionId, messageId } = request.params;
+    const message = fastify.sessionService.getMessage(messageId);
+
+    if (!fastify.sessionService.getSession(sessionId) || message?.sessionId !== sessionId) {
+      return reply.code(404).send({
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Message not found',
+        },
+      });
+    }
+
+    if (message.role !== 'user') {
+      return reply.code(400).send({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Only user messages can be edited and forked',
+        },
+      });
+    }
+
+    const { session, messages } = fastify.sessionService.forkSession(sessionId, messageId);
+
+    console.log(
+      `[SessionRoute] Forked ${sessionId} at ${messageId} into ${session.id} (${messages.length} messages)`
+    );
+
+    // Don't leave a fork without a provider session behind
+    try {
+      await fastify.llmService.createSession(
+        session.id,
+        session.provider,
+        session.type,
+        session.model,
+        {
+          systemPrompt: buildThreadSystemPrompt(session.systemPrompt, messages),
+          tone: session.tone,
+          explainTradeoffs: session.explainTradeoffs,
+          reasoningEffort: session.reasoningEffort,
+        }
+      );
+    } catch (error) {
+      fastify.sessionService.deleteSession(session.id);
+      throw error;
+    }
+
+    return reply.code(201).send({
+      success: true,
+      data: session,
+    });
+  });
+
+  // Switch which regenerated variant a message shows
+  fastify.patch<{
+    Params: { id: string; messageId: string };
+    Body: UpdateMessageRequest;
+    Reply: ApiResponse<Message>;
+  }>('/sessions/:id/messages/:messageId', async (request, reply) => {
+    try {
+      const body = updateMessageSchema.parse(request.body);
+      const { id: sessionId, messageId } = request.params;
+
+      const message = fastify.sessionService.getMessage(messageId);
+      if (!message || message.sessionId !== sessionId) {
+        return reply.code(404).send({
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Message not found',
+          },
+        });
+      }
+
+      if (!message.metadata?.variants?.[body.activeVariant]) {
+        return reply.code(400).send({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: `Message has no variant ${body.activeVariant}`,
+          },
+        });
+      }
+
+      return reply.send({
+        success: true,
+        data: fastify.sessionService.selectMessageVariant(messageId, body.activeVariant),
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return reply.code(400).send({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request body',
+            details: { errors: error.errors },
+          },
+        });
+      }
+      throw error;
+    }
+  });
+
   // Get session messages
   fastify.get<{
     Params: { id: string };
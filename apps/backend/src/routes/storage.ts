@@ -0,0 +1,72 @@
+import type { ApiResponse, PruneReport, RetentionPolicy, StorageReport } from '@devmentorai/shared';
+import type { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { retentionPolicySchema } from '../services/retention.service.js';
+
+const pruneSchema = z.object({
+  dryRun: z.boolean().optional(),
+});
+
+export async function storageRoutes(fastify: FastifyInstance) {
+  // Disk and row usage plus the retention policy
+  fastify.get<{
+    Reply: ApiResponse<StorageReport>;
+  }>('/storage', async (_request, reply) => {
+    return reply.send({
+      success: true,
+      data: fastify.retentionService.getReport(),
+    });
+  });
+
+  // Change some or all retention settings
+  fastify.put<{
+    Body: Partial<RetentionPolicy>;
+    Reply: ApiResponse<RetentionPolicy>;
+  }>('/storage/retention', async (request, reply) => {
+    try {
+      const update = retentionPolicySchema.partial().strict().parse(request.body);
+      return reply.send({
+        success: true,
+        data: fastify.retentionService.setPolicy(update),
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return reply.code(400).send({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid retention settings',
+            details: { errors: error.errors },
+          },
+        });
+      }
+      throw error;
+    }
+  });
+
+  // Apply the retention policy now (or preview it with dryRun)
+  fastify.post<{
+    Body: { dryRun?: boolean };
+    Reply: ApiResponse<PruneReport>;
+  }>('/storage/prune', async (request, reply) => {
+    try {
+      const { dryRun } = pruneSchema.parse(request.body ?? {});
+      return reply.send({
+        success: true,
+        data: await fastify.retentionService.prune({ dryRun }),
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return reply.code(400).send({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request body',
+            details: { errors: error.errors },
+          },
+        });
+      }
+      throw error;
+    }
+  });
+}
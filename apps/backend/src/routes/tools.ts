@@ -5,16 +5,58 @@
  * and provides tool metadata for the extension.
  */
 
-import type { SessionType } from '@devmentorai/shared';
+import type {
+  AnalyzeConfigRequest,
+  ConfigRuleInfo,
+  ConfigRulesResponse,
+  SessionType,
+} from '@devmentorai/shared';
 import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { z } from 'zod';
+import { RULES_DIR } from '../lib/paths.js';
 import type { CopilotService } from '../services/copilot.service.js';
+import { BUILTIN_RULES, CONFIG_TYPES, analyzeConfig } from '../tools/config-analysis/analyzer.js';
+import type { ConfigRule } from '../tools/config-analysis/types.js';
+import { type UserRule, loadUserRules } from '../tools/config-analysis/user-rules.js';
+import { getToolByName } from '../tools/devops-tools.js';
+import { analyzeTerraformPlan } from '../tools/terraform-plan.js';
 
 interface ToolExecuteBody {
   toolName: string;
   params: Record<string, unknown>;
+  /** Session whose workspace roots file tools may access */
+  sessionId?: string;
+}
+
+const ruleToggleSchema = z.object({ enabled: z.boolean() });
+
+function describeRule(rule: ConfigRule<unknown> | UserRule, disabled: Set<string>): ConfigRuleInfo {
+  const file = 'file' in rule ? rule.file : undefined;
+  return {
+    id: rule.id,
+    configType: rule.configType,
+    severity: rule.severity,
+    title: rule.title,
+    source: file ? 'user' : 'builtin',
+    ...(file && { file }),
+    enabled: !disabled.has(rule.id),
+  };
 }
 
 export function registerToolsRoutes(app: FastifyInstance, copilotService: CopilotService): void {
+  // Run a tool and count it in /metrics (unknown names are not counted, they'd add a series each)
+  const executeTool = async (
+    toolName: string,
+    params: Record<string, unknown>,
+    sessionId?: string
+  ) => {
+    const result = await copilotService.executeTool(toolName, params, sessionId);
+    if (getToolByName(toolName)) {
+      app.metricsService.recordToolCall(toolName, result.success);
+    }
+    return result;
+  };
+
   // List available tools
   app.get(
     '/api/tools',
@@ -36,7 +78,7 @@ export function registerToolsRoutes(app: FastifyInstance, copilotService: Copilo
   app.post(
     '/api/tools/execute',
     async (request: FastifyRequest<{ Body: ToolExecuteBody }>, reply: FastifyReply) => {
-      const { toolName, params } = request.body;
+      const { toolName, params, sessionId } = request.body;
 
       if (!toolName) {
         return reply.status(400).send({
@@ -45,7 +87,7 @@ export function registerToolsRoutes(app: FastifyInstance, copilotService: Copilo
         });
       }
 
-      const result = await copilotService.executeTool(toolName, params || {});
+      const result = await executeTool(toolName, params || {}, sessionId);
 
       if (!result.success) {
         return reply.status(400).send({
@@ -67,11 +109,8 @@ export function registerToolsRoutes(app: FastifyInstance, copilotService: Copilo
   // Analyze config endpoint (convenience wrapper)
   app.post(
     '/api/tools/analyze-config',
-    async (
-      request: FastifyRequest<{ Body: { content: string; type?: string } }>,
-      reply: FastifyReply
-    ) => {
-      const { content, type } = request.body;
+    async (request: FastifyRequest<{ Body: AnalyzeConfigRequest }>, reply: FastifyReply) => {
+      const { content, type = 'auto' } = request.body;
 
       if (!content) {
         return reply.status(400).send({
@@ -79,16 +118,113 @@ export function registerToolsRoutes(app: FastifyInstance, copilotService: Copilo
           error: 'content is required',
         });
       }
+      if (type !== 'auto' && !CONFIG_TYPES.includes(type)) {
+        return reply.status(400).send({
+          success: false,
+          error: `type must be auto or one of: ${CONFIG_TYPES.join(', ')}`,
+        });
+      }
 
-      const result = await copilotService.executeTool('analyze_config', {
-        content,
-        type: type || 'auto',
+      // Structured findings for the extension; the tool itself returns only the report
+      const result = analyzeConfig(content, type, {
+        userRules: loadUserRules().rules,
+        disabledRules: app.configService.get().tools.disabledRules,
       });
+      app.metricsService.recordToolCall('analyze_config', result !== null);
+      if (!result) {
+        return reply.status(422).send({
+          success: false,
+          error:
+            'Could not determine configuration type. Pass type: kubernetes, docker, terraform, cloudformation or github-actions.',
+        });
+      }
+
+      return reply.send({ success: true, data: result });
+    }
+  );
+
+  // Analyze Terraform plan endpoint; returns the structured summary
+  app.post(
+    '/api/tools/analyze-terraform-plan',
+    async (request: FastifyRequest<{ Body: { plan: string } }>, reply: FastifyReply) => {
+      const { plan } = request.body;
+
+      if (!plan) {
+        return reply.status(400).send({
+          success: false,
+          error: 'plan is required',
+        });
+      }
+
+      try {
+        const analysis = analyzeTerraformPlan(plan);
+        app.metricsService.recordToolCall('analyze_terraform_plan', true);
+        return reply.send({ success: true, data: analysis });
+      } catch (error) {
+        app.metricsService.recordToolCall('analyze_terraform_plan', false);
+        return reply.status(422).send({
+          success: false,
+          error: (error as Error).message,
+        });
+      }
+    }
+  );
+
+  // List built-in and user-defined analyze_config rules
+  app.get('/api/tools/rules', async (_request, reply: FastifyReply) => {
+    const disabled = new Set(app.configService.get().tools.disabledRules);
+    const { rules: userRules, errors } = loadUserRules();
+
+    return reply.send({
+      success: true,
+      data: {
+        directory: RULES_DIR,
+        rules: [...BUILTIN_RULES, ...userRules].map((rule) => describeRule(rule, disabled)),
+        errors,
+      } satisfies ConfigRulesResponse,
+    });
+  });
+
+  // Turn a rule on or off; saved as tools.disabledRules in config.json
+  app.put(
+    '/api/tools/rules/:ruleId',
+    async (
+      request: FastifyRequest<{ Params: { ruleId: string }; Body: { enabled: boolean } }>,
+      reply: FastifyReply
+    ) => {
+      const parsed = ruleToggleSchema.safeParse(request.body);
+      if (!parsed.success) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request body',
+            details: { errors: parsed.error.errors },
+          },
+        });
+      }
+
+      const { ruleId } = request.params;
+      const rule = [...BUILTIN_RULES, ...loadUserRules().rules].find(({ id }) => id === ruleId);
+      if (!rule) {
+        return reply.status(404).send({
+          success: false,
+          error: { code: 'NOT_FOUND', message: `Unknown rule: ${ruleId}` },
+        });
+      }
+
+      const disabled = new Set(app.configService.get().tools.disabledRules);
+      if (parsed.data.enabled) {
+        disabled.delete(ruleId);
+      } else {
+        disabled.add(ruleId);
+      }
+      const config = app.configService.set('tools.disabledRules', [...disabled].sort());
+      console.log(`[ToolsRoute] Rule ${ruleId} ${parsed.data.enabled ? 'enabled' : 'disabled'}`);
 
       return reply.send({
-        success: result.success,
-        data: result.result,
-        error: result.error,
+        success: true,
+        data: describeRule(rule, new Set(config.tools.disabledRules)),
       });
     }
   );
@@ -109,7 +245,7 @@ export function registerToolsRoutes(app: FastifyInstance, copilotService: Copilo
         });
       }
 
-      const result = await copilotService.executeTool('analyze_error', {
+      const result = await executeTool('analyze_error', {
         error,
         context: context || 'general',
       });
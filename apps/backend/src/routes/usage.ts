@@ -0,0 +1,37 @@
+import type { ApiResponse, UsageQuery, UsageReport } from '@devmentorai/shared';
+import type { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+
+const dateSchema = z
+  .string()
+  .refine((value) => !Number.isNaN(Date.parse(value)), { message: 'Invalid date' });
+
+const usageQuerySchema = z.object({
+  from: dateSchema.optional(),
+  to: dateSchema.optional(),
+  groupBy: z.enum(['session', 'model', 'day', 'action']).default('session'),
+});
+
+export async function usageRoutes(fastify: FastifyInstance): Promise<void> {
+  fastify.get<{
+    Querystring: UsageQuery;
+    Reply: ApiResponse<UsageReport>;
+  }>('/usage', async (request, reply) => {
+    const query = usageQuerySchema.safeParse(request.query);
+    if (!query.success) {
+      return reply.code(400).send({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid usage query',
+          details: { errors: query.error.errors },
+        },
+      });
+    }
+
+    return reply.send({
+      success: true,
+      data: fastify.usageService.getUsage(query.data),
+    });
+  });
+}
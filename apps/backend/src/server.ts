@@ -1,23 +1,51 @@
-import { DEFAULT_CONFIG } from '@devmentorai/shared';
+import { randomUUID } from 'node:crypto';
+import type { ServerConfig } from '@devmentorai/shared';
 import cors from '@fastify/cors';
 import Fastify from 'fastify';
 import { initDatabase } from './db/index.js';
+import { isAuthorizedRequest, loadAuthSecret } from './lib/auth.js';
+import { captureConsole, createLoggerOptions, logContext } from './lib/logger.js';
+import { scrubSecrets, scrubText } from './lib/scrub.js';
 import { accountRoutes } from './routes/account.js';
+import { authRoutes } from './routes/auth.js';
 import { chatRoutes } from './routes/chat.js';
+import { configRoutes } from './routes/config.js';
 import { healthRoutes } from './routes/health.js';
 import { imagesRoutes } from './routes/images.js';
+import { metricsRoutes } from './routes/metrics.js';
 import { modelsRoutes } from './routes/models.js';
+import { permissionRoutes } from './routes/permissions.js';
+import { personaRoutes } from './routes/personas.js';
 import { sessionRoutes } from './routes/sessions.js';
+import { storageRoutes } from './routes/storage.js';
 import { registerToolsRoutes } from './routes/tools.js';
 import { updatesRoutes } from './routes/updates.js';
+import { usageRoutes } from './routes/usage.js';
+import { ConfigService } from './services/config.service.js';
 import { CopilotService } from './services/copilot.service.js';
+import { HealthService } from './services/health.service.js';
+import { LlmService } from './services/llm.service.js';
+import { MetricsService } from './services/metrics.service.js';
+import { PermissionService } from './services/permission.service.js';
+import { PersonaService } from './services/persona.service.js';
+import { OpenAICompatibleProvider } from './services/providers/openai-compatible.provider.js';
+import { RetentionService } from './services/retention.service.js';
 import { SessionService } from './services/session.service.js';
+import { UsageService } from './services/usage.service.js';
+import { WorkspaceService } from './services/workspace.service.js';
 
-const PORT = Number.parseInt(process.env.DEVMENTORAI_PORT || '', 10) || DEFAULT_CONFIG.DEFAULT_PORT;
-const HOST = '0.0.0.0';
+// Routes reachable before pairing: the CLI and extension healthchecks and pairing itself
+const PUBLIC_ROUTES = new Set(['GET /api/health', 'POST /api/auth/pair']);
 
-// Observability mode - enable with DEVMENTORAI_DEBUG=true
-const DEBUG_MODE = true;
+// Callers may pass their own trace ID as X-Request-Id; anything else gets a fresh one
+const TRACE_ID_PATTERN = /^[\w.:-]{1,64}$/;
+
+/**
+ * Logging bodies happens at debug level, so it lowers a stricter level to debug
+ */
+function getLogLevel({ level, debugBodies }: ServerConfig['logging']): string {
+  return debugBodies && !['trace', 'debug'].includes(level) ? 'debug' : level;
+}
 
 /**
  * Truncate long strings for logging
@@ -28,112 +56,264 @@ function truncate(str: string | undefined | null, maxLen = 500): string {
   return `${str.slice(0, maxLen)}... [truncated ${str.length - maxLen} chars]`;
 }
 
+/**
+ * Body for debug logs: secrets scrubbed, then truncated
+ */
+function formatBodyForLog(body: unknown): string {
+  if (typeof body === 'string') {
+    try {
+      return truncate(JSON.stringify(scrubSecrets(JSON.parse(body))));
+    } catch {
+      return truncate(scrubText(body));
+    }
+  }
+  return truncate(JSON.stringify(scrubSecrets(body)));
+}
+
 export async function createServer() {
+  // Port, host and the OpenAI endpoint come from config.json or DEVMENTORAI_* variables
+  const configService = new ConfigService();
+  const config = configService.get();
+
   const fastify = Fastify({
     // Allow large payloads for image uploads (data URLs can be 10-30MB for full-page screenshots)
     bodyLimit: 50 * 1024 * 1024, // 50MB
+    genReqId: (req) => {
+      const incoming = req.headers['x-request-id'];
+      return typeof incoming === 'string' && TRACE_ID_PATTERN.test(incoming)
+        ? incoming
+        : randomUUID();
+    },
+    requestIdLogLabel: 'traceId',
     logger: {
-      level: DEBUG_MODE ? 'debug' : 'info',
-      transport: {
-        target: 'pino-pretty',
-        options: {
-          colorize: true,
-          translateTime: 'HH:MM:ss Z',
-          ignore: 'pid,hostname',
-        },
+      ...createLoggerOptions(getLogLevel(config.logging)),
+      serializers: {
+        // Image URLs carry the pairing token as ?token=
+        req: (request) => ({
+          method: request.method,
+          url: scrubText(request.url),
+          remoteAddress: request.ip,
+        }),
       },
     },
   });
+  captureConsole(fastify.log);
 
-  // Observability middleware - log all requests and responses
-  if (DEBUG_MODE) {
-    fastify.log.info('🔍 Debug mode enabled - logging all requests and responses');
+  // Observability middleware - log all requests and responses while `logging.debugBodies` is on.
+  // The hooks stay registered so the setting can be switched without a restart.
+  const logBodies = () => configService.get().logging.debugBodies;
+  if (logBodies()) {
+    fastify.log.info('🔍 Debug mode enabled - logging request and response bodies');
+  }
 
-    // Log after body is parsed
-    fastify.addHook('preHandler', async (request) => {
-      const body = request.body ? truncate(JSON.stringify(request.body)) : null;
-      fastify.log.debug({
-        type: '→ REQUEST',
-        method: request.method,
-        url: request.url,
-        headers: {
-          'content-type': request.headers['content-type'],
-          'user-agent': request.headers['user-agent'],
-        },
-        body: body,
-      });
+  // Log after body is parsed
+  fastify.addHook('preHandler', async (request) => {
+    if (!logBodies()) return;
+    const body = request.body ? formatBodyForLog(request.body) : null;
+    request.log.debug({
+      type: '→ REQUEST',
+      method: request.method,
+      url: scrubText(request.url),
+      headers: {
+        'content-type': request.headers['content-type'],
+        'user-agent': request.headers['user-agent'],
+      },
+      body: body,
     });
+  });
 
-    fastify.addHook('onSend', async (request, reply, payload) => {
-      const statusCode = reply.statusCode;
-      let responseBody: string | null = null;
-
-      // Skip logging SSE streams (too verbose)
-      if (reply.getHeader('content-type') === 'text/event-stream') {
-        responseBody = '[SSE Stream]';
-      } else if (typeof payload === 'string') {
-        responseBody = truncate(payload);
-      } else if (Buffer.isBuffer(payload)) {
-        responseBody = truncate(payload.toString());
-      }
-
-      fastify.log.debug({
-        type: '← RESPONSE',
-        method: request.method,
-        url: request.url,
-        statusCode,
-        body: responseBody,
-      });
+  fastify.addHook('onSend', async (request, reply, payload) => {
+    if (!logBodies()) return payload;
+    const statusCode = reply.statusCode;
+    let responseBody: string | null = null;
+
+    // Skip logging SSE streams (too verbose)
+    if (reply.getHeader('content-type') === 'text/event-stream') {
+      responseBody = '[SSE Stream]';
+    } else if (typeof payload === 'string') {
+      responseBody = formatBodyForLog(payload);
+    } else if (Buffer.isBuffer(payload)) {
+      responseBody = `[${payload.length} bytes]`;
+    }
 
-      return payload;
+    request.log.debug({
+      type: '← RESPONSE',
+      method: request.method,
+      url: scrubText(request.url),
+      statusCode,
+      body: responseBody,
     });
 
-    fastify.addHook('onError', async (request, reply, error) => {
-      fastify.log.error({
-        type: '✗ ERROR',
-        method: request.method,
-        url: request.url,
-        error: error.message,
-        stack: error.stack,
-      });
+    return payload;
+  });
+
+  fastify.addHook('onError', async (request, reply, error) => {
+    if (!logBodies()) return;
+    request.log.error({
+      type: '✗ ERROR',
+      method: request.method,
+      url: scrubText(request.url),
+      error: error.message,
+      stack: error.stack,
     });
-  }
+  });
 
   // Initialize database
   const db = initDatabase();
   fastify.log.info('Database initialized');
 
   // Initialize services
+  const metricsService = new MetricsService({
+    getActiveSessions: () => llmService.getActiveSessionCounts(),
+    getDatabaseBytes: () =>
+      (db.pragma('page_size', { simple: true }) as number) *
+      (db.pragma('page_count', { simple: true }) as number),
+  });
   const sessionService = new SessionService(db);
-  const copilotService = new CopilotService(sessionService);
+  const personaService = new PersonaService(db);
+  const usageService = new UsageService(db);
+  const workspaceService = new WorkspaceService(sessionService);
+  const permissionService = new PermissionService(db);
+  const copilotService = new CopilotService(
+    sessionService,
+    personaService,
+    workspaceService,
+    permissionService,
+    {
+      onRetry: () => metricsService.recordRetry('copilot'),
+      isMcpEnabled: () => configService.get().tools.mcp,
+    }
+  );
+  const openAIProvider = new OpenAICompatibleProvider(
+    sessionService,
+    personaService,
+    workspaceService,
+    permissionService,
+    {
+      baseUrl: config.openai.baseUrl ?? undefined,
+      apiKey: config.openai.apiKey ?? undefined,
+      defaultModel: config.openai.defaultModel ?? undefined,
+    }
+  );
+  const llmService = new LlmService(sessionService, [copilotService, openAIProvider]);
+  const healthService = new HealthService(db, copilotService);
+  const retentionService = new RetentionService(db, sessionService, {
+    onSessionDeleted: async (sessionId) => {
+      await llmService.destroySession(sessionId);
+      permissionService.clearSession(sessionId);
+    },
+  });
 
-  try {
-    await copilotService.initialize();
-    fastify.log.info('CopilotService initialized');
-  } catch (err) {
-    fastify.log.error({ err }, 'Failed to initialize CopilotService');
-    fastify.log.warn('Running in mock mode - Copilot features will be simulated');
+  await llmService.initialize();
+  if (copilotService.isMockMode()) {
+    fastify.log.warn('Copilot unavailable - Copilot sessions will get simulated responses');
   }
+  fastify.log.info(
+    {
+      providers: llmService
+        .listProviders()
+        .map((provider) => `${provider.id}${provider.available ? '' : ' (unavailable)'}`),
+    },
+    'LLM providers initialized'
+  );
 
   // Decorate fastify with services
   fastify.decorate('sessionService', sessionService);
+  fastify.decorate('personaService', personaService);
   fastify.decorate('copilotService', copilotService);
+  fastify.decorate('llmService', llmService);
+  fastify.decorate('usageService', usageService);
+  fastify.decorate('workspaceService', workspaceService);
+  fastify.decorate('permissionService', permissionService);
+  fastify.decorate('retentionService', retentionService);
+  fastify.decorate('metricsService', metricsService);
+  fastify.decorate('configService', configService);
+  fastify.decorate('healthService', healthService);
+
+  // Apply settings that don't need a restart as soon as config.json changes
+  configService.onChange((current, previous) => {
+    if (getLogLevel(current.logging) !== getLogLevel(previous.logging)) {
+      fastify.log.level = getLogLevel(current.logging);
+    }
+    fastify.log.info('Configuration reloaded');
+    if (current.logging.debugBodies !== previous.logging.debugBodies) {
+      fastify.log.info(
+        `🔍 Debug mode ${current.logging.debugBodies ? 'enabled' : 'disabled'} - request and response bodies ${current.logging.debugBodies ? 'will' : 'will not'} be logged`
+      );
+    }
+  });
+  configService.watch();
+
+  fastify.addHook('onClose', async () => {
+    retentionService.stop();
+    configService.stop();
+  });
 
   // Register plugins
   await fastify.register(cors, {
     origin: true, // Allow all origins in development
     methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'X-Request-Id'],
+    exposedHeaders: ['X-Trace-Id'],
+  });
+
+  // Echo the trace ID so clients can quote it (set on the raw response so SSE streams get it
+  // too), and tag everything logged while handling the request with its trace and session
+  fastify.addHook('onRequest', (request, reply, done) => {
+    reply.raw.setHeader('X-Trace-Id', request.id);
+    const params = request.params as { id?: string; sessionId?: string } | undefined;
+    const sessionId =
+      params?.sessionId ??
+      (request.routeOptions.url?.startsWith('/api/sessions/:id') ? params?.id : undefined);
+    logContext.run({ traceId: request.id, sessionId }, done);
+  });
+
+  fastify.addHook('onResponse', async (request, reply) => {
+    metricsService.observeRequest(
+      {
+        method: request.method,
+        // Route pattern, not the URL, so IDs don't create a series each
+        route: request.routeOptions.url ?? 'unmatched',
+        status: reply.statusCode,
+      },
+      reply.elapsedTime / 1000
+    );
+  });
+
+  // Every other route needs a token from pairing
+  const authSecret = loadAuthSecret();
+  fastify.decorate('authSecret', authSecret);
+  fastify.addHook('onRequest', async (request, reply) => {
+    const path = request.url.split('?')[0];
+    if (request.method === 'OPTIONS' || PUBLIC_ROUTES.has(`${request.method} ${path}`)) return;
+
+    if (!isAuthorizedRequest(authSecret, request)) {
+      return reply.code(401).send({
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message:
+            'This browser is not paired with the backend. Run `devmentorai-server pair` and enter the code in the extension settings.',
+        },
+      });
+    }
   });
 
   // Register routes
   await fastify.register(healthRoutes, { prefix: '/api' });
+  await fastify.register(authRoutes, { prefix: '/api' });
   await fastify.register(sessionRoutes, { prefix: '/api' });
+  await fastify.register(personaRoutes, { prefix: '/api' });
+  await fastify.register(permissionRoutes, { prefix: '/api' });
   await fastify.register(chatRoutes, { prefix: '/api' });
   await fastify.register(modelsRoutes, { prefix: '/api' });
   await fastify.register(accountRoutes, { prefix: '/api' });
   await fastify.register(updatesRoutes, { prefix: '/api' });
+  await fastify.register(usageRoutes, { prefix: '/api' });
+  await fastify.register(storageRoutes, { prefix: '/api' });
+  await fastify.register(configRoutes, { prefix: '/api' });
   await fastify.register(imagesRoutes, { prefix: '/api/images' });
+  await fastify.register(metricsRoutes);
 
   // Register tools routes (not prefixed - has /api in route definitions)
   registerToolsRoutes(fastify, copilotService);
@@ -157,7 +337,7 @@ async function main() {
 
     let exitCode = 0;
     try {
-      await fastify.copilotService.shutdown();
+      await fastify.llmService.shutdown();
       await fastify.close();
     } catch (err) {
       exitCode = 1;
@@ -184,10 +364,12 @@ async function main() {
     void shutdown('UNCAUGHT_EXCEPTION', error);
   });
 
-  // Start server
+  // Start server. Loopback only unless `server.host` exposes it, e.g. 0.0.0.0 for a remote browser
+  const { port, host } = fastify.configService.get().server;
   try {
-    await fastify.listen({ port: PORT, host: HOST });
-    fastify.log.info(`🚀 DevMentorAI backend running at http://${HOST}:${PORT}`);
+    await fastify.listen({ port, host });
+    fastify.log.info(`🚀 DevMentorAI backend running at http://${host}:${port}`);
+    fastify.retentionService.start();
   } catch (error) {
     fastify.log.error(error);
     process.exit(1);
@@ -205,7 +387,17 @@ try {
 // Type augmentation for Fastify
 declare module 'fastify' {
   interface FastifyInstance {
+    authSecret: Buffer;
     sessionService: SessionService;
+    personaService: PersonaService;
     copilotService: CopilotService;
+    llmService: LlmService;
+    usageService: UsageService;
+    workspaceService: WorkspaceService;
+    permissionService: PermissionService;
+    retentionService: RetentionService;
+    metricsService: MetricsService;
+    configService: ConfigService;
+    healthService: HealthService;
   }
 }
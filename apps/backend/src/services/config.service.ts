@@ -0,0 +1,346 @@
+/**
+ * ConfigService
+ *
+ * Loads `~/.devmentorai/config.json` against a schema, lets environment
+ * variables override it and reloads it when the file changes, so settings that
+ * don't need a restart (log level, MCP, default model, workspace roots,
+ * disabled rules, retention) take effect on a running server.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import {
+  DEFAULT_CONFIG,
+  type ServerConfig,
+  type ServerConfigReport,
+  type ServerConfigUpdate,
+} from '@devmentorai/shared';
+import { z } from 'zod';
+import { readConfig, writeConfigSection } from '../lib/config.js';
+import { CONFIG_FILE } from '../lib/paths.js';
+import { scrubSecrets } from '../lib/scrub.js';
+import { DEFAULT_RETENTION_POLICY, retentionPolicySchema } from './retention.service.js';
+
+type Section = keyof ServerConfig;
+
+const sectionSchemas = {
+  server: z.object({
+    port: z.number().int().min(1).max(65535),
+    host: z.string().min(1),
+  }),
+  copilot: z.object({
+    defaultModel: z.string().min(1).nullable(),
+  }),
+  openai: z.object({
+    baseUrl: z.string().url().nullable(),
+    apiKey: z.string().min(1).nullable(),
+    defaultModel: z.string().min(1).nullable(),
+  }),
+  tools: z.object({
+    mcp: z.boolean(),
+    workspaceRoots: z
+      .array(z.string().refine((root) => path.isAbsolute(root), 'Must be an absolute path'))
+      .max(20),
+    disabledRules: z.array(z.string().min(1)).max(500),
+  }),
+  logging: z.object({
+    level: z.enum(['trace', 'debug', 'info', 'warn', 'error', 'fatal']),
+    debugBodies: z.boolean(),
+  }),
+  retention: retentionPolicySchema,
+};
+
+const SECTIONS = Object.keys(sectionSchemas) as Section[];
+
+export const serverConfigUpdateSchema = z
+  .object({
+    server: sectionSchemas.server.partial().strict(),
+    copilot: sectionSchemas.copilot.partial().strict(),
+    openai: sectionSchemas.openai.partial().strict(),
+    tools: sectionSchemas.tools.partial().strict(),
+    logging: sectionSchemas.logging.partial().strict(),
+    retention: sectionSchemas.retention.partial().strict(),
+  })
+  .partial()
+  .strict();
+
+export const DEFAULT_SERVER_CONFIG: ServerConfig = {
+  server: { port: DEFAULT_CONFIG.DEFAULT_PORT, host: DEFAULT_CONFIG.DEFAULT_HOST },
+  copilot: { defaultModel: null },
+  openai: { baseUrl: null, apiKey: null, defaultModel: null },
+  tools: { mcp: false, workspaceRoots: [], disabledRules: [] },
+  logging: { level: 'info', debugBodies: false },
+  retention: DEFAULT_RETENTION_POLICY,
+};
+
+/** Settings read once at startup; changing them takes a restart */
+export const RESTART_REQUIRED_KEYS = [
+  'server.port',
+  'server.host',
+  'openai.baseUrl',
+  'openai.apiKey',
+  'openai.defaultModel',
+];
+
+/** Environment variables win over the file */
+const ENV_OVERRIDES: Array<{
+  variable: string;
+  key: string;
+  parse?: (value: string) => unknown;
+}> = [
+  { variable: 'DEVMENTORAI_PORT', key: 'server.port', parse: Number },
+  { variable: 'DEVMENTORAI_HOST', key: 'server.host' },
+  { variable: 'DEVMENTORAI_OPENAI_BASE_URL', key: 'openai.baseUrl' },
+  { variable: 'DEVMENTORAI_OPENAI_API_KEY', key: 'openai.apiKey' },
+  { variable: 'DEVMENTORAI_OPENAI_MODEL', key: 'openai.defaultModel' },
+  { variable: 'DEVMENTORAI_LOG_LEVEL', key: 'logging.level' },
+  { variable: 'DEVMENTORAI_DEBUG', key: 'logging.debugBodies', parse: (value) => value === 'true' },
+];
+
+/** How often the file is checked for changes */
+const WATCH_INTERVAL_MS = 1000;
+
+export type ConfigValueSource = 'default' | 'file' | 'env';
+
+export type ConfigChangeListener = (config: ServerConfig, previous: ServerConfig) => void;
+
+/**
+ * Split `section.field`, rejecting keys the schema doesn't know
+ */
+export function parseConfigKey(key: string): [Section, string] {
+  const [section, field, ...rest] = key.split('.');
+  if (
+    rest.length > 0 ||
+    !SECTIONS.includes(section as Section) ||
+    !Object.hasOwn(DEFAULT_SERVER_CONFIG[section as Section], field)
+  ) {
+    throw new Error(
+      `Unknown config key "${key}". Run \`devmentorai-server config list\` to see all keys.`
+    );
+  }
+  return [section as Section, field];
+}
+
+/**
+ * Read a value typed for `key`, e.g. on the command line, as the field's type:
+ * text fields keep the text as is (so a model named `4` stays a string), `null`
+ * clears nullable fields, and numbers, booleans and lists are parsed as JSON
+ */
+export function parseConfigValue(key: string, raw: string): unknown {
+  const [section, field] = parseConfigKey(key);
+  let schema = sectionSchemas[section].shape[field as never] as z.ZodTypeAny;
+  if (schema instanceof z.ZodNullable) {
+    if (raw === 'null') return null;
+    schema = schema.unwrap();
+  }
+  if (schema instanceof z.ZodString || schema instanceof z.ZodEnum) return raw;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+}
+
+function readKey(config: ServerConfig, key: string): unknown {
+  const [section, field] = parseConfigKey(key);
+  return (config[section] as Record<string, unknown>)[field];
+}
+
+/**
+ * `section.field: message` for each problem in a failed validation
+ */
+export function formatConfigErrors(error: z.ZodError): string {
+  return error.errors
+    .map((issue) => `${issue.path.join('.') || 'config'}: ${issue.message}`)
+    .join('\n');
+}
+
+/**
+ * Problems with config.json, one line each. Invalid sections fall back to their
+ * defaults and unknown keys are ignored.
+ */
+export function checkConfigFile(): string[] {
+  let saved: Record<string, unknown>;
+  try {
+    saved = JSON.parse(fs.readFileSync(CONFIG_FILE, 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    return [`config.json is not valid JSON: ${(error as Error).message}`];
+  }
+  if (!saved || typeof saved !== 'object' || Array.isArray(saved)) {
+    return ['config.json must hold a JSON object'];
+  }
+
+  return SECTIONS.flatMap((section) => {
+    if (saved[section] === undefined) return [];
+    const parsed = sectionSchemas[section].partial().strict().safeParse(saved[section]);
+    return parsed.success
+      ? []
+      : parsed.error.errors.map(
+          (issue) => `${[section, ...issue.path].join('.')}: ${issue.message}`
+        );
+  });
+}
+
+export class ConfigService {
+  private config: ServerConfig;
+  private overridden: string[] = [];
+  private readonly startup: ServerConfig;
+  private readonly listeners = new Set<ConfigChangeListener>();
+  private watching = false;
+
+  constructor(private readonly env: NodeJS.ProcessEnv = process.env) {
+    this.config = this.load();
+    this.startup = this.config;
+  }
+
+  /** Settings in effect */
+  get(): ServerConfig {
+    return this.config;
+  }
+
+  getValue(key: string): unknown {
+    return readKey(this.config, key);
+  }
+
+  getReport(): ServerConfigReport {
+    return {
+      config: scrubSecrets(this.config) as ServerConfig,
+      overridden: [...this.overridden],
+      restartRequired: RESTART_REQUIRED_KEYS.filter(
+        (key) => readKey(this.config, key) !== readKey(this.startup, key)
+      ),
+    };
+  }
+
+  /**
+   * Every key with its value and where the value comes from
+   */
+  list(): Array<{ key: string; value: unknown; source: ConfigValueSource }> {
+    const saved = readConfig();
+    return SECTIONS.flatMap((section) =>
+      Object.entries(this.config[section]).map(([field, value]) => {
+        const key = `${section}.${field}`;
+        const savedSection = saved[section] as Record<string, unknown> | undefined;
+        const source: ConfigValueSource = this.overridden.includes(key)
+          ? 'env'
+          : savedSection && field in savedSection
+            ? 'file'
+            : 'default';
+        return { key, value, source };
+      })
+    );
+  }
+
+  /**
+   * Save changes to some settings. Throws a ZodError when the result is invalid.
+   */
+  update(update: ServerConfigUpdate): ServerConfig {
+    const parsed = serverConfigUpdateSchema.parse(update);
+    const saved = readConfig();
+
+    // Validate every changed section before writing any
+    const merged = Object.fromEntries(
+      Object.entries(parsed).map(([section, fields]) => [
+        section,
+        { ...this.loadSection(section as Section, saved), ...fields },
+      ])
+    );
+    const sections = z.object(sectionSchemas).partial().parse(merged);
+    for (const [section, value] of Object.entries(sections)) {
+      writeConfigSection(section, value);
+    }
+
+    this.reload();
+    return this.config;
+  }
+
+  set(key: string, value: unknown): ServerConfig {
+    const [section, field] = parseConfigKey(key);
+    return this.update({ [section]: { [field]: value } });
+  }
+
+  onChange(listener: ConfigChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Reload when the file changes, whether through the API, `config set` or an editor
+   */
+  watch(): void {
+    if (this.watching) return;
+    this.watching = true;
+    fs.watchFile(CONFIG_FILE, { interval: WATCH_INTERVAL_MS, persistent: false }, () =>
+      this.reload()
+    );
+  }
+
+  stop(): void {
+    if (!this.watching) return;
+    fs.unwatchFile(CONFIG_FILE);
+    this.watching = false;
+  }
+
+  reload(): void {
+    const previous = this.config;
+    this.config = this.load();
+    if (JSON.stringify(previous) === JSON.stringify(this.config)) return;
+
+    for (const listener of this.listeners) {
+      try {
+        listener(this.config, previous);
+      } catch (error) {
+        console.error('[ConfigService] Failed to apply configuration change:', error);
+      }
+    }
+  }
+
+  /**
+   * A saved section merged over the defaults. An invalid section is ignored.
+   */
+  private loadSection(section: Section, saved: Record<string, unknown>): ServerConfig[Section] {
+    const defaults = DEFAULT_SERVER_CONFIG[section];
+    if (saved[section] === undefined) return { ...defaults };
+
+    const parsed = sectionSchemas[section].partial().safeParse(saved[section]);
+    if (!parsed.success) {
+      console.error(
+        `[ConfigService] Ignoring invalid "${section}" settings in config.json:\n${formatConfigErrors(parsed.error)}`
+      );
+      return { ...defaults };
+    }
+    return { ...defaults, ...parsed.data } as ServerConfig[Section];
+  }
+
+  private load(): ServerConfig {
+    const saved = readConfig();
+    const config = Object.fromEntries(
+      SECTIONS.map((section) => [section, this.loadSection(section, saved)])
+    ) as unknown as ServerConfig;
+
+    this.overridden = [];
+    for (const { variable, key, parse } of ENV_OVERRIDES) {
+      const raw = this.env[variable];
+      if (!raw) continue;
+
+      const [section, field] = parseConfigKey(key);
+      const candidate = { ...config[section], [field]: parse ? parse(raw) : raw };
+      if (!sectionSchemas[section].safeParse(candidate).success) {
+        console.error(`[ConfigService] Ignoring invalid ${variable}=${raw}`);
+        continue;
+      }
+      (config as unknown as Record<string, unknown>)[section] = candidate;
+      this.overridden.push(key);
+    }
+
+    return config;
+  }
+}
+
+/**
+ * Settings as the CLI sees them: config.json plus environment overrides
+ */
+export function loadServerConfig(): ServerConfig {
+  return new ConfigService().get();
+}
@@ -23,6 +23,7 @@ import type {
   ExtractedError,
   HTMLSection,
   Heading,
+  Message,
   PlatformDetection,
 } from '@devmentorai/shared';
 
@@ -542,6 +543,36 @@ export function buildSimplePrompt(
   return { systemPrompt: null, userPrompt };
 }
 
+const THREAD_PRIMER_MAX_CHARS = 24000;
+
+/**
+ * Build the system message for a fresh Copilot session that continues an existing
+ * thread (forks, regenerations). The SDK session starts empty, so prior turns are
+ * replayed as a transcript; the most recent turns win when the history is long.
+ */
+export function buildThreadSystemPrompt(
+  systemPrompt: string | undefined,
+  history: Message[]
+): string {
+  const transcript: string[] = [];
+  let length = 0;
+
+  for (const message of [...history].reverse()) {
+    if (message.role === 'system' || !message.content.trim()) continue;
+    const turn = `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}`;
+    if (length + turn.length > THREAD_PRIMER_MAX_CHARS) break;
+    transcript.unshift(turn);
+    length += turn.length;
+  }
+
+  const primer =
+    transcript.length > 0
+      ? `## Conversation so far\nThis conversation continues from an earlier thread. Prior turns:\n\n${transcript.join('\n\n')}`
+      : '';
+
+  return [systemPrompt, primer].filter(Boolean).join('\n\n');
+}
+
 /**
  * Validate context payload before using it for prompt building
  */
@@ -1,22 +1,38 @@
-import { dirname, join } from 'node:path';
+import { dirname, isAbsolute, join, relative } from 'node:path';
 import { fileURLToPath } from 'node:url';
-import { SESSION_TYPE_CONFIGS, getAgentConfig } from '@devmentorai/shared';
+import { getAgentConfig, getDefaultModel } from '@devmentorai/shared';
 import type {
   CopilotAuthStatus,
   CopilotQuotaStatus,
   MessageContext,
   ModelInfo,
   ModelPricingTier,
+  ReasoningEffort,
   SessionType,
+  ToolPermissionRequest,
 } from '@devmentorai/shared';
 import {
   CopilotClient,
   type Tool as CopilotTool,
+  type PermissionHandler,
+  type PermissionRequest,
   type SessionEvent,
-  approveAll,
 } from '@github/copilot-sdk';
-import { devopsTools, getToolByName } from '../tools/devops-tools.js';
-import { SessionService } from './session.service.js';
+import { getSessionImagesDir } from '../lib/paths.js';
+import { getToolByName } from '../tools/devops-tools.js';
+import type { PermissionService } from './permission.service.js';
+import type { PersonaService } from './persona.service.js';
+import {
+  buildGuidelines,
+  getSafetyInstructions,
+  getSessionToolNames,
+  getSessionTools,
+  getToneInstructions,
+  getToolsByName,
+} from './providers/session-setup.js';
+import type { LlmProvider, ProviderAttachment, ProviderSessionOptions } from './providers/types.js';
+import type { SessionService } from './session.service.js';
+import type { WorkspaceService } from './workspace.service.js';
 
 interface CopilotSession {
   sessionId: string;
@@ -35,6 +51,50 @@ const MCP_SERVERS: Record<string, { type: 'http'; url: string; tools: string[] }
 
 const RECOMMENDED_DEFAULT_MODEL = 'gpt-5-mini';
 
+/**
+ * Name the tool behind an SDK permission request and summarize what it wants to
+ * do, for the prompt shown to the user. Returns null for hooks, which need no consent.
+ */
+function describePermissionRequest(
+  request: PermissionRequest
+): Omit<ToolPermissionRequest, 'requestId'> | null {
+  const fields = request as PermissionRequest & Record<string, unknown>;
+  const text = (value: unknown) => (typeof value === 'string' ? value : undefined);
+  const args = (value: unknown) =>
+    value && typeof value === 'object' ? (value as Record<string, unknown>) : undefined;
+  const base = { toolCallId: request.toolCallId };
+
+  switch (request.kind) {
+    case 'custom-tool':
+      return {
+        ...base,
+        kind: 'custom-tool',
+        toolName: text(fields.toolName) ?? 'custom-tool',
+        args: args(fields.args),
+      };
+    case 'mcp':
+      return {
+        ...base,
+        kind: 'mcp',
+        toolName: `${text(fields.serverName) ?? 'mcp'}/${text(fields.toolName) ?? 'unknown'}`,
+        summary: text(fields.toolTitle),
+        args: args(fields.args),
+      };
+    case 'shell':
+      return { ...base, kind: 'shell', toolName: 'shell', summary: text(fields.fullCommandText) };
+    case 'write':
+      return { ...base, kind: 'write', toolName: 'write', summary: text(fields.fileName) };
+    case 'read':
+      return { ...base, kind: 'read', toolName: 'read', summary: text(fields.path) };
+    case 'url':
+      return { ...base, kind: 'url', toolName: 'url', summary: text(fields.url) };
+    case 'memory':
+      return { ...base, kind: 'memory', toolName: 'memory', summary: text(fields.fact) };
+    default:
+      return null;
+  }
+}
+
 interface RawSdkModel {
   id?: unknown;
   name?: unknown;
@@ -47,13 +107,28 @@ interface RawSdkModel {
   supportedReasoningEfforts?: unknown;
 }
 
-export class CopilotService {
+export interface CopilotServiceOptions {
+  /** Called before a failed request is retried */
+  onRetry?: (attempt: number, error: Error) => void;
+  /** Whether new sessions get the MCP servers, unless a session says otherwise */
+  isMcpEnabled?: () => boolean;
+}
+
+export class CopilotService implements LlmProvider {
+  readonly id = 'copilot' as const;
+  readonly name = 'GitHub Copilot';
   private client: CopilotClient | null = null;
   private readonly sessions: Map<string, CopilotSession> = new Map();
   private initialized = false;
   private mockMode = false;
 
-  constructor(private readonly sessionService: SessionService) {}
+  constructor(
+    private readonly sessionService: SessionService,
+    private readonly personaService: PersonaService,
+    private readonly workspaceService: WorkspaceService,
+    private readonly permissionService: PermissionService,
+    private readonly options: CopilotServiceOptions = {}
+  ) {}
 
   async initialize(): Promise<void> {
     try {
@@ -127,6 +202,20 @@ export class CopilotService {
     return this.mockMode;
   }
 
+  getAvailability(): { available: boolean; reason?: string } {
+    if (!this.initialized) {
+      return { available: false, reason: 'Copilot SDK not initialized' };
+    }
+    if (this.mockMode) {
+      return { available: false, reason: 'Copilot SDK unavailable (mock mode)' };
+    }
+    return { available: true };
+  }
+
+  getActiveSessionCount(): number {
+    return this.sessions.size;
+  }
+
   async getAuthStatus(): Promise<CopilotAuthStatus> {
     if (this.mockMode || !this.client) {
       return {
@@ -261,7 +350,7 @@ export class CopilotService {
     type: SessionType,
     model: string,
     systemPrompt?: string,
-    reasoningEffort?: 'low' | 'medium' | 'high'
+    reasoningEffort?: ReasoningEffort
   ): Promise<void> {
     const existing = this.sessions.get(sessionId);
     const persistedSession = this.sessionService.getSession(sessionId);
@@ -314,16 +403,12 @@ export class CopilotService {
       }
     }
 
-    await this.createCopilotSession(
-      sessionId,
-      type,
-      model,
-      systemPrompt ?? persistedSession?.systemPrompt,
-      false,
-      persistedSession?.tone,
-      persistedSession?.explainTradeoffs,
-      reasoningEffort
-    );
+    await this.createSession(sessionId, type, model, {
+      systemPrompt: systemPrompt ?? persistedSession?.systemPrompt,
+      tone: persistedSession?.tone,
+      explainTradeoffs: persistedSession?.explainTradeoffs,
+      reasoningEffort,
+    });
   }
 
   private normalizeModel(raw: RawSdkModel): ModelInfo {
@@ -434,16 +519,15 @@ export class CopilotService {
     return null;
   }
 
-  async createCopilotSession(
+  async createSession(
     sessionId: string,
     type: SessionType,
     model: string,
-    systemPrompt?: string,
-    enableMcp = false,
-    tone?: string,
-    explainTradeoffs?: boolean,
-    reasoningEffort?: 'low' | 'medium' | 'high'
+    options: ProviderSessionOptions = {}
   ): Promise<void> {
+    const { systemPrompt, enableMcp, tone, explainTradeoffs, reasoningEffort } = options;
+    const workspaceSessionId = options.workspaceSessionId ?? sessionId;
+
     if (this.mockMode || !this.client) {
       // Create mock session
       this.sessions.set(sessionId, {
@@ -455,14 +539,15 @@ export class CopilotService {
     }
 
     const agentConfig = getAgentConfig(type);
-    const typeConfig = SESSION_TYPE_CONFIGS[type];
 
-    // Build SDK-compatible tools for DevOps sessions
+    // Build SDK-compatible tools for DevOps sessions and personas that enable them
     // The SDK calls tool.handler() directly and uses the return value as the result
-    const tools = type === 'devops' ? this.buildSdkTools() : undefined;
+    const toolNames = getSessionToolNames(type, this.personaService);
+    const tools =
+      toolNames.length > 0 ? this.buildSdkTools(toolNames, workspaceSessionId) : undefined;
 
     // Build MCP server config if enabled
-    const mcpServers = enableMcp ? MCP_SERVERS : undefined;
+    const mcpServers = (enableMcp ?? this.options.isMcpEnabled?.()) ? MCP_SERVERS : undefined;
 
     // Build customized system message
     const customizedSystemMessage = this.buildCustomizedSystemMessage(
@@ -475,13 +560,13 @@ export class CopilotService {
     // Build session config - use unknown to allow SDK-specific extensions
     const sessionConfig: unknown = {
       sessionId,
-      model: model || typeConfig.defaultModel,
+      model: model || getDefaultModel(type),
       streaming: true,
       customAgents: agentConfig ? [agentConfig] : undefined,
       systemMessage: customizedSystemMessage,
       tools,
       mcpServers,
-      onPermissionRequest: approveAll,
+      onPermissionRequest: this.createPermissionHandler(workspaceSessionId),
       // Add reasoning effort if provided and supported by SDK
       ...(reasoningEffort ? { reasoningEffort } : {}),
     };
@@ -509,13 +594,13 @@ export class CopilotService {
     }
 
     // Build tone instructions
-    const toneInstructions = this.getToneInstructions(tone);
+    const toneInstructions = getToneInstructions(tone);
 
     // Build guidelines based on session type
-    const guidelines = this.buildGuidelines(type, explainTradeoffs);
+    const guidelines = buildGuidelines(type, explainTradeoffs);
 
     // Build safety instructions (common to all types)
-    const safetyInstructions = this.getSafetyInstructions();
+    const safetyInstructions = getSafetyInstructions();
 
     // Return system message with customize mode
     return {
@@ -544,92 +629,31 @@ export class CopilotService {
     };
   }
 
-  /**
-   * Get tone instructions based on user preference
-   */
-  private getToneInstructions(tone?: string): string {
-    switch (tone) {
-      case 'concise':
-        return 'Be concise and direct. Get straight to the point without unnecessary elaboration.';
-      case 'friendly':
-        return 'Be friendly, approachable, and encouraging. Use a warm, conversational tone while maintaining professionalism.';
-      case 'professional':
-        return 'Be professional and formal. Use precise language and maintain a business-appropriate tone.';
-      case 'technical':
-        return 'Be technical and detailed. Provide in-depth explanations suitable for technical professionals. Include specific terminology and technical details.';
-      default:
-        return 'Be helpful and clear. Balance technical accuracy with accessibility. Explain concepts thoroughly without being overly verbose.';
-    }
-  }
-
-  /**
-   * Build guidelines based on session type
-   */
-  private buildGuidelines(type: SessionType, explainTradeoffs?: boolean): string {
-    const baseGuidelines: Record<SessionType, string> = {
-      devops: `
-        - Emphasize infrastructure-as-code principles and automation
-        - Prioritize security, scalability, and observability in all recommendations
-        - Cite official cloud provider documentation (AWS, Azure, GCP, Kubernetes) when making claims
-        - Always explain the 'why' behind infrastructure decisions
-        - Include command examples for CLI tools (kubectl, terraform, aws-cli, etc.) when applicable`,
-
-      writing: `
-        - Focus on clarity, conciseness, and effective communication
-        - Adapt writing style to the context (technical documentation, emails, blog posts, etc.)
-        - Maintain the original intent and tone of the author
-        - Cite style guides (AP, Chicago, technical writing standards) when relevant`,
-
-      development: `
-        - Prioritize clean code principles, SOLID principles, and best practices
-        - Explain design patterns and architectural decisions clearly
-        - Include code examples that follow language conventions and style guides
-        - Reference official language/framework documentation when appropriate`,
-
-      general: `
-        - Provide balanced, well-reasoned answers
-        - Include examples when they add clarity to the explanation
-        - Cite authoritative sources when making factual claims
-        - Adapt depth of explanation to the apparent expertise level of the user`,
-    };
-
-    let guidelines = baseGuidelines[type] || baseGuidelines.general;
-
-    if (explainTradeoffs) {
-      guidelines +=
-        '\n        - Always explain the pros and cons of different approaches when presenting multiple options.';
-    }
-
-    return guidelines.trim();
-  }
-
-  /**
-   * Get safety instructions (common to all session types)
-   */
-  private getSafetyInstructions(): string {
-    return `
-      - Never request or store sensitive data such as passwords, API keys, tokens, or credentials
-      - Always warn before suggesting destructive commands (rm -rf, database deletions, resource terminations, etc.)
-      - Remind users to make backups or use version control before critical changes
-      - Distinguish between staging/testing and production environments when discussing deployments
-    `.trim();
-  }
-
   /**
    * Convert our Tool definitions to Copilot SDK Tool format.
    * The SDK expects tools with a `handler` function — it calls the handler
    * directly and uses the return value as the tool result (no sendToolResult needed).
    */
-  private buildSdkTools(): CopilotTool<Record<string, unknown>>[] {
-    return devopsTools.map(
+  private buildSdkTools(
+    toolNames: string[],
+    workspaceSessionId: string
+  ): CopilotTool<Record<string, unknown>>[] {
+    return getToolsByName(toolNames).map(
       (tool): CopilotTool<Record<string, unknown>> => ({
         name: tool.name,
         description: tool.description,
         parameters: tool.parameters,
-        handler: async (args: Record<string, unknown>) => {
+        handler: async (args: Record<string, unknown>, invocation) => {
           console.log(`[CopilotService] Executing tool ${tool.name}`);
           try {
-            return await tool.handler(args);
+            return await tool.handler(
+              args,
+              this.workspaceService.createToolContext(
+                workspaceSessionId,
+                tool.name,
+                invocation.toolCallId
+              )
+            );
           } catch (error) {
             console.error(`[CopilotService] Tool ${tool.name} failed:`, error);
             return `Error: ${error instanceof Error ? error.message : 'Unknown error'}`;
@@ -639,18 +663,62 @@ export class CopilotService {
     );
   }
 
-  async resumeCopilotSession(sessionId: string): Promise<boolean> {
+  /**
+   * File reads and writes by the CLI's built-in tools are held to the session's
+   * workspace roots (plus its own uploaded images). Everything else, including
+   * writes inside the workspace, goes through the permission broker, which may
+   * pause the stream to ask the user.
+   */
+  private createPermissionHandler(workspaceSessionId: string): PermissionHandler {
+    return async (request) => {
+      const target =
+        request.kind === 'read' || request.kind === 'write'
+          ? (request as { path?: string; fileName?: string })
+          : null;
+      const requestedPath = target?.path ?? target?.fileName;
+
+      if (requestedPath) {
+        const imagesPath = relative(getSessionImagesDir(workspaceSessionId), requestedPath);
+        if (request.kind === 'read' && !imagesPath.startsWith('..') && !isAbsolute(imagesPath)) {
+          return { kind: 'approve-once' };
+        }
+
+        const access = await this.workspaceService.checkAccess(
+          workspaceSessionId,
+          requestedPath,
+          request.kind,
+          request.toolCallId
+        );
+        if (!access.allowed) return { kind: 'reject', feedback: access.message };
+      }
+
+      const permissionRequest = describePermissionRequest(request);
+      if (!permissionRequest) return { kind: 'approve-once' };
+
+      const decision = await this.permissionService.requestPermission(
+        workspaceSessionId,
+        permissionRequest
+      );
+      return decision.allowed
+        ? { kind: 'approve-once' }
+        : { kind: 'reject', feedback: decision.message };
+    };
+  }
+
+  async resumeSession(sessionId: string): Promise<boolean> {
     if (this.mockMode || !this.client) {
       return true;
     }
 
     // First, try to resume existing session
     try {
+      const dbSession = this.sessionService.getSession(sessionId);
+      const toolNames = getSessionToolNames(dbSession?.type || 'general', this.personaService);
       const session = await this.client.resumeSession(sessionId, {
-        onPermissionRequest: approveAll,
+        tools: toolNames.length > 0 ? this.buildSdkTools(toolNames, sessionId) : undefined,
+        onPermissionRequest: this.createPermissionHandler(sessionId),
       });
-      // Try to get type from DB, fallback to 'general'
-      const dbSession = this.sessionService.getSession(sessionId);
+      // Type comes from the DB, falling back to 'general'
       this.sessions.set(sessionId, { sessionId, session, type: dbSession?.type || 'general' });
       console.log(`[CopilotService] Session ${sessionId} resumed from disk`);
       return true;
@@ -668,13 +736,10 @@ export class CopilotService {
       }
 
       // Create new Copilot session with same parameters
-      await this.createCopilotSession(
-        sessionId,
-        dbSession.type,
-        dbSession.model,
-        dbSession.systemPrompt || undefined,
-        false // MCP disabled by default on recreate
-      );
+      // MCP disabled by default on recreate
+      await this.createSession(sessionId, dbSession.type, dbSession.model, {
+        systemPrompt: dbSession.systemPrompt || undefined,
+      });
       console.log(`[CopilotService] Session ${sessionId} recreated successfully`);
       return true;
     } catch (createError) {
@@ -740,21 +805,20 @@ export class CopilotService {
     prompt: string,
     context?: MessageContext,
     onEvent?: (event: SessionEvent) => void,
-    attachments?: Array<{ type: 'file' | 'directory'; path: string; displayName?: string }>
+    attachments?: ProviderAttachment[]
   ): Promise<void> {
     let copilotSession = this.sessions.get(sessionId);
 
     // Auto-resume session if not in memory (e.g., after browser restart)
     if (!copilotSession?.session && !this.mockMode) {
       console.log(`[CopilotService] Session ${sessionId} not in memory, attempting auto-resume...`);
-      const resumed = await this.resumeCopilotSession(sessionId);
+      const resumed = await this.resumeSession(sessionId);
       if (resumed) {
         copilotSession = this.sessions.get(sessionId);
         console.log(`[CopilotService] Session ${sessionId} auto-resumed successfully`);
       } else {
-        console.warn(
-          `[CopilotService] Failed to auto-resume session ${sessionId}, falling back to mock`
-        );
+        // Answering from the mock here would silently hide the failure from the user
+        throw new Error(`Could not restore Copilot session ${sessionId}`);
       }
     }
 
@@ -819,6 +883,7 @@ export class CopilotService {
         }
 
         if (attempt < maxRetries) {
+          this.options.onRetry?.(attempt, lastError);
           console.warn(
             `[CopilotService] Attempt ${attempt} failed, retrying in ${currentDelayMs}ms...`
           );
@@ -835,10 +900,10 @@ export class CopilotService {
    * Get available tools for a session type
    */
   getAvailableTools(type: SessionType): Array<{ name: string; description: string }> {
-    if (type === 'devops') {
-      return devopsTools.map((t) => ({ name: t.name, description: t.description }));
-    }
-    return [];
+    return getSessionTools(type, this.personaService).map((t) => ({
+      name: t.name,
+      description: t.description,
+    }));
   }
 
   /**
@@ -846,7 +911,8 @@ export class CopilotService {
    */
   async executeTool(
     toolName: string,
-    params: Record<string, unknown>
+    params: Record<string, unknown>,
+    sessionId?: string
   ): Promise<{ success: boolean; result?: string; error?: string }> {
     const tool = getToolByName(toolName);
     if (!tool) {
@@ -854,7 +920,11 @@ export class CopilotService {
     }
 
     try {
-      const result = await tool.handler(params);
+      // Without a session there are no workspace roots, so file tools are refused
+      const context = sessionId
+        ? this.workspaceService.createToolContext(sessionId, toolName)
+        : undefined;
+      const result = await tool.handler(params, context);
       return { success: true, result };
     } catch (error) {
       return {
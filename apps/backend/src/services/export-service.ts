@@ -0,0 +1,272 @@
+/**
+ * ExportService
+ *
+ * Builds portable session documents and renders them as JSON, Markdown or HTML
+ * so conversations can be attached to tickets and postmortems.
+ */
+
+import { SESSION_EXPORT_VERSION } from '@devmentorai/shared';
+import type {
+  ExportedMessage,
+  ImageAttachment,
+  Message,
+  MessageMetadata,
+  Session,
+  SessionExport,
+  SessionExportFormat,
+} from '@devmentorai/shared';
+import { readThumbnailDataUrl } from './thumbnail-service.js';
+
+type ThumbnailReader = (sessionId: string, messageId: string, index: number) => string | null;
+
+/** Content types served for each export format */
+export const EXPORT_CONTENT_TYPES: Record<SessionExportFormat, string> = {
+  md: 'text/markdown; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  html: 'text/html; charset=utf-8',
+};
+
+const ROLE_LABELS: Record<ExportedMessage['role'], string> = {
+  user: '👤 User',
+  assistant: '🤖 Assistant',
+  system: '⚙️ System',
+};
+
+/**
+ * Build the JSON export document for a session.
+ * Image thumbnails are read from disk and inlined as data URLs; full-image URLs
+ * point at the local backend and are dropped.
+ */
+export function buildSessionExport(
+  session: Session,
+  messages: Message[],
+  readThumbnail: ThumbnailReader = readThumbnailDataUrl
+): SessionExport {
+  return {
+    version: SESSION_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    session: {
+      name: session.name,
+      type: session.type,
+      model: session.model,
+      provider: session.provider,
+      systemPrompt: session.systemPrompt,
+      tone: session.tone,
+      explainTradeoffs: session.explainTradeoffs,
+      reasoningEffort: session.reasoningEffort,
+      createdAt: session.createdAt,
+      updatedAt: session.updatedAt,
+    },
+    messages: messages.map((message) => ({
+      role: message.role,
+      content: message.content,
+      timestamp: message.timestamp,
+      metadata: exportMetadata(message, readThumbnail),
+    })),
+  };
+}
+
+/**
+ * Render an export document in the requested format
+ */
+export function renderSessionExport(data: SessionExport, format: SessionExportFormat): string {
+  switch (format) {
+    case 'md':
+      return renderSessionMarkdown(data);
+    case 'html':
+      return renderSessionHtml(data);
+    default:
+      return JSON.stringify(data, null, 2);
+  }
+}
+
+/**
+ * Suggested download filename, e.g. "devmentorai-aws-migration-2025-01-31.md"
+ */
+export function getExportFilename(session: Session, format: SessionExportFormat): string {
+  const slug =
+    session.name
+      .toLowerCase()
+      .replaceAll(/[^a-z0-9]+/g, '-')
+      .replaceAll(/^-+|-+$/g, '')
+      .slice(0, 60) || 'session';
+  const date = new Date().toISOString().slice(0, 10);
+  return `devmentorai-${slug}-${date}.${format}`;
+}
+
+export function renderSessionMarkdown(data: SessionExport): string {
+  const { session } = data;
+  const lines: string[] = [
+    `# ${session.name}`,
+    '',
+    '| Field | Value |',
+    '|-------|-------|',
+    `| Type | ${session.type} |`,
+    `| Model | ${session.model} |`,
+    `| Created | ${session.createdAt} |`,
+    `| Exported | ${data.exportedAt} |`,
+    `| Messages | ${data.messages.length} |`,
+    '',
+  ];
+
+  for (const message of data.messages) {
+    const metadata = message.metadata;
+    lines.push('---', '', `### ${ROLE_LABELS[message.role]} · ${message.timestamp}`, '');
+
+    const details = describeContext(metadata);
+    if (details.length > 0) {
+      lines.push(`> ${details.join(' · ')}`, '');
+    }
+    if (metadata?.selectedText) {
+      lines.push(...metadata.selectedText.split('\n').map((line) => `> ${line}`), '');
+    }
+
+    if (message.content) {
+      lines.push(message.content, '');
+    }
+
+    const images = getInlineImages(metadata);
+    if (images.length > 0) {
+      lines.push(
+        ...images.map((image, index) => `![Image ${index + 1}](${image.thumbnailUrl})`),
+        ''
+      );
+    }
+
+    if (metadata?.toolCalls?.length) {
+      const tools = metadata.toolCalls.map((call) => `\`${call.toolName}\` (${call.status})`);
+      lines.push(`**Tools used:** ${tools.join(', ')}`, '');
+    }
+    if (metadata?.error) {
+      lines.push(`> ⚠️ **Error:** ${metadata.error}`, '');
+    }
+  }
+
+  return `${lines.join('\n').trimEnd()}\n`;
+}
+
+export function renderSessionHtml(data: SessionExport): string {
+  const { session } = data;
+  const messages = data.messages
+    .map((message) => {
+      const metadata = message.metadata;
+      const details = describeContext(metadata);
+      const images = getInlineImages(metadata)
+        .map(
+          (image, index) =>
+            `<img src="${escapeHtml(image.thumbnailUrl)}" alt="Image ${index + 1}" width="${Math.min(image.dimensions.width || 200, 200)}">`
+        )
+        .join('');
+      const tools = metadata?.toolCalls?.length
+        ? `<p class="meta">Tools used: ${metadata.toolCalls
+            .map((call) => `<code>${escapeHtml(call.toolName)}</code> (${escapeHtml(call.status)})`)
+            .join(', ')}</p>`
+        : '';
+
+      return [
+        `<section class="message ${message.role}">`,
+        `<h3>${escapeHtml(ROLE_LABELS[message.role])} <time>${escapeHtml(message.timestamp)}</time></h3>`,
+        details.length > 0 ? `<p class="meta">${escapeHtml(details.join(' · '))}</p>` : '',
+        metadata?.selectedText
+          ? `<blockquote>${escapeHtml(metadata.selectedText)}</blockquote>`
+          : '',
+        `<div class="content">${escapeHtml(message.content)}</div>`,
+        images ? `<div class="images">${images}</div>` : '',
+        tools,
+        metadata?.error ? `<p class="error">Error: ${escapeHtml(metadata.error)}</p>` : '',
+        '</section>',
+      ]
+        .filter(Boolean)
+        .join('\n');
+    })
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(session.name)} · DevMentorAI</title>
+<style>
+body { font-family: system-ui, sans-serif; max-width: 860px; margin: 2rem auto; padding: 0 1rem; color: #1f2937; }
+table { border-collapse: collapse; margin-bottom: 1.5rem; }
+td { padding: 0.25rem 0.75rem; border: 1px solid #e5e7eb; }
+.message { border-top: 1px solid #e5e7eb; padding: 1rem 0; }
+.message.user h3 { color: #2563eb; }
+h3 { font-size: 1rem; margin: 0 0 0.5rem; }
+time, .meta { color: #6b7280; font-size: 0.8rem; font-weight: normal; }
+.content { white-space: pre-wrap; line-height: 1.5; }
+blockquote { margin: 0.5rem 0; padding-left: 0.75rem; border-left: 3px solid #d1d5db; color: #4b5563; white-space: pre-wrap; }
+.images img { margin: 0.5rem 0.5rem 0 0; border-radius: 6px; border: 1px solid #e5e7eb; }
+.error { color: #b91c1c; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(session.name)}</h1>
+<table>
+<tr><td>Type</td><td>${escapeHtml(session.type)}</td></tr>
+<tr><td>Model</td><td>${escapeHtml(session.model)}</td></tr>
+<tr><td>Created</td><td>${escapeHtml(session.createdAt)}</td></tr>
+<tr><td>Exported</td><td>${escapeHtml(data.exportedAt)}</td></tr>
+<tr><td>Messages</td><td>${data.messages.length}</td></tr>
+</table>
+${messages}
+</body>
+</html>
+`;
+}
+
+function exportMetadata(
+  message: Message,
+  readThumbnail: ThumbnailReader
+): MessageMetadata | undefined {
+  const metadata = message.metadata;
+  if (!metadata?.images?.length) return metadata;
+
+  const images = metadata.images.map((image, index): ImageAttachment => {
+    const storedIndex = /thumb_(\d+)\.jpg$/.exec(image.thumbnailUrl || '');
+    const thumbnail = readThumbnail(
+      message.sessionId,
+      message.id,
+      storedIndex ? Number.parseInt(storedIndex[1], 10) : index
+    );
+
+    return {
+      id: image.id,
+      source: image.source,
+      mimeType: image.mimeType,
+      dimensions: image.dimensions,
+      fileSize: image.fileSize,
+      timestamp: image.timestamp,
+      thumbnailUrl: thumbnail ?? undefined,
+    };
+  });
+
+  return { ...metadata, images };
+}
+
+/** Images whose thumbnail is inlined as a data URL (safe to embed in documents) */
+function getInlineImages(
+  metadata?: MessageMetadata
+): Array<ImageAttachment & { thumbnailUrl: string }> {
+  return (metadata?.images || []).filter(
+    (image): image is ImageAttachment & { thumbnailUrl: string } =>
+      typeof image.thumbnailUrl === 'string' && image.thumbnailUrl.startsWith('data:image/')
+  );
+}
+
+function describeContext(metadata?: MessageMetadata): string[] {
+  const details: string[] = [];
+  if (metadata?.action) details.push(`Action: ${metadata.action}`);
+  if (metadata?.pageUrl) details.push(`Page: ${metadata.pageUrl}`);
+  if (metadata?.contextAware) details.push('Context-aware mode');
+  return details;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;')
+    .replaceAll('"', '&quot;')
+    .replaceAll("'", '&#39;');
+}
@@ -0,0 +1,228 @@
+/**
+ * HealthService
+ *
+ * Checks the parts of the backend `GET /api/health` reports on. The cheap
+ * checks (database, Copilot) run on every health request; the rest only with
+ * `?detail=true`.
+ */
+
+import fs from 'node:fs';
+import type { HealthComponent, HealthStatus } from '@devmentorai/shared';
+import type Database from 'better-sqlite3';
+import { IMAGES_DIR } from '../lib/paths.js';
+import { findInstalledManifests } from '../native/manifest.js';
+import type { CopilotService } from './copilot.service.js';
+
+type CopilotHealth = Pick<CopilotService, 'isReady' | 'isMockMode' | 'getAuthStatus' | 'getQuota'>;
+
+export interface HealthServiceOptions {
+  /** Directory whose file system must have room for images */
+  imagesDir?: string;
+  /** Browsers the Native Messaging host is registered for */
+  findNativeHosts?: () => string[];
+  /** How long account checks may take before they count as failed */
+  timeoutMs?: number;
+}
+
+/** Free space below which image uploads start failing */
+const MIN_FREE_BYTES = 100 * 1024 * 1024;
+/** Free space below which the images check warns */
+const LOW_FREE_BYTES = 1024 * 1024 * 1024;
+/** Share of premium requests left below which the quota check warns */
+const LOW_QUOTA_PERCENT = 10;
+
+const STATUS_ORDER: HealthStatus[] = ['healthy', 'degraded', 'unhealthy'];
+
+/**
+ * The worst status among the components
+ */
+export function combineHealth(components: HealthComponent[]): HealthStatus {
+  return components.reduce<HealthStatus>(
+    (worst, component) =>
+      STATUS_ORDER.indexOf(component.status) > STATUS_ORDER.indexOf(worst)
+        ? component.status
+        : worst,
+    'healthy'
+  );
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`;
+  return `${Math.round(bytes / 1024 / 1024)} MB`;
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number, what: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  return Promise.race([
+    promise,
+    new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`${what} did not answer within ${ms}ms`)), ms);
+    }),
+  ]).finally(() => clearTimeout(timer));
+}
+
+export class HealthService {
+  private readonly imagesDir: string;
+  private readonly findNativeHosts: () => string[];
+  private readonly timeoutMs: number;
+
+  constructor(
+    private readonly db: Database.Database,
+    private readonly copilot: CopilotHealth,
+    options: HealthServiceOptions = {}
+  ) {
+    this.imagesDir = options.imagesDir ?? IMAGES_DIR;
+    this.findNativeHosts = options.findNativeHosts ?? findInstalledManifests;
+    this.timeoutMs = options.timeoutMs ?? 5000;
+  }
+
+  /**
+   * Component checks; `detail` adds disk space, account and Native Messaging checks
+   */
+  async check(detail = false): Promise<HealthComponent[]> {
+    const components = [this.checkDatabase(), this.checkCopilot()];
+    if (!detail) return components;
+
+    components.push(this.checkImages());
+    components.push(...(await Promise.all([this.checkAuth(), this.checkQuota()])));
+    components.push(this.checkNativeHost());
+    return components;
+  }
+
+  /**
+   * SQLite answers queries and its file is writable. Doesn't take the write lock,
+   * so a chat write in progress can't make the check fail with SQLITE_BUSY.
+   */
+  checkDatabase(): HealthComponent {
+    try {
+      if (this.db.readonly) {
+        return { name: 'database', status: 'unhealthy', message: 'Opened read-only' };
+      }
+      if (!this.db.memory) {
+        fs.accessSync(this.db.name, fs.constants.W_OK);
+      }
+      this.db.pragma('schema_version', { simple: true });
+      return { name: 'database', status: 'healthy', message: 'Writable' };
+    } catch (error) {
+      return {
+        name: 'database',
+        status: 'unhealthy',
+        message: `Not writable: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+  }
+
+  checkCopilot(): HealthComponent {
+    if (!this.copilot.isReady()) {
+      return { name: 'copilot', status: 'degraded', message: 'Still starting' };
+    }
+    if (this.copilot.isMockMode()) {
+      return {
+        name: 'copilot',
+        status: 'degraded',
+        message:
+          'Copilot CLI unavailable; Copilot sessions get simulated responses. Run devmentorai-server doctor',
+      };
+    }
+    return { name: 'copilot', status: 'healthy', message: 'Connected' };
+  }
+
+  checkImages(): HealthComponent {
+    try {
+      const stats = fs.statfsSync(this.imagesDir);
+      const free = stats.bavail * stats.bsize;
+      const message = `${formatBytes(free)} free`;
+      if (free < MIN_FREE_BYTES) {
+        return { name: 'images', status: 'unhealthy', message: `${message}; uploads will fail` };
+      }
+      if (free < LOW_FREE_BYTES) {
+        return { name: 'images', status: 'degraded', message: `${message}; disk is nearly full` };
+      }
+      return { name: 'images', status: 'healthy', message };
+    } catch (error) {
+      return {
+        name: 'images',
+        status: 'unhealthy',
+        message: `Cannot check ${this.imagesDir}: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+  }
+
+  async checkAuth(): Promise<HealthComponent> {
+    try {
+      const auth = await withTimeout(
+        this.copilot.getAuthStatus(),
+        this.timeoutMs,
+        'Copilot auth check'
+      );
+      if (auth.isAuthenticated) {
+        return {
+          name: 'auth',
+          status: 'healthy',
+          message: auth.login ? `Signed in as ${auth.login}` : 'Signed in',
+        };
+      }
+      return {
+        name: 'auth',
+        status: 'degraded',
+        message: auth.reason ?? 'Not signed in. Run: copilot login',
+      };
+    } catch (error) {
+      return {
+        name: 'auth',
+        status: 'degraded',
+        message: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  async checkQuota(): Promise<HealthComponent> {
+    try {
+      const quota = await withTimeout(this.copilot.getQuota(), this.timeoutMs, 'Copilot quota');
+      const { remaining, included, percentageRemaining } = quota;
+      if (remaining === null || remaining === undefined) {
+        return { name: 'quota', status: 'healthy', message: 'Not reported' };
+      }
+
+      const message = `${remaining}${included ? ` of ${included}` : ''} premium requests left`;
+      if (remaining <= 0) {
+        return { name: 'quota', status: 'degraded', message };
+      }
+      if (
+        percentageRemaining !== null &&
+        percentageRemaining !== undefined &&
+        percentageRemaining < LOW_QUOTA_PERCENT
+      ) {
+        return { name: 'quota', status: 'degraded', message: `${message} (running low)` };
+      }
+      return { name: 'quota', status: 'healthy', message };
+    } catch (error) {
+      return {
+        name: 'quota',
+        status: 'degraded',
+        message: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /** Native Messaging is optional, so a missing host isn't a problem */
+  checkNativeHost(): HealthComponent {
+    try {
+      const browsers = this.findNativeHosts();
+      return {
+        name: 'nativeHost',
+        status: 'healthy',
+        message:
+          browsers.length > 0
+            ? `Registered for ${browsers.join(', ')}`
+            : 'Not registered (optional)',
+      };
+    } catch (error) {
+      return {
+        name: 'nativeHost',
+        status: 'degraded',
+        message: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+}
@@ -0,0 +1,203 @@
+import type {
+  CopilotQuotaStatus,
+  LlmProviderId,
+  LlmProviderInfo,
+  MessageContext,
+  ModelInfo,
+  ReasoningEffort,
+  SessionType,
+} from '@devmentorai/shared';
+import type {
+  LlmProvider,
+  ProviderAttachment,
+  ProviderEventHandler,
+  ProviderSessionOptions,
+} from './providers/types.js';
+import type { SessionService } from './session.service.js';
+
+export const DEFAULT_PROVIDER: LlmProviderId = 'copilot';
+
+// Model lists only change when the provider adds models, so usage accounting reuses them
+const MODEL_CACHE_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Routes session operations to the LLM provider each session was created with
+ */
+export class LlmService {
+  private readonly providers: Map<LlmProviderId, LlmProvider>;
+  // Provider of every session created in this process, including throwaway ones
+  // (e.g. regeneration) that never reach the database
+  private readonly sessionProviders: Map<string, LlmProviderId> = new Map();
+  private readonly modelCache: Map<LlmProviderId, { models: ModelInfo[]; fetchedAt: number }> =
+    new Map();
+
+  constructor(
+    private readonly sessionService: SessionService,
+    providers: LlmProvider[]
+  ) {
+    this.providers = new Map(providers.map((provider) => [provider.id, provider]));
+  }
+
+  async initialize(): Promise<void> {
+    for (const provider of this.providers.values()) {
+      try {
+        await provider.initialize();
+      } catch (error) {
+        console.error(`[LlmService] Failed to initialize provider ${provider.id}:`, error);
+      }
+    }
+  }
+
+  getProvider(id: LlmProviderId): LlmProvider {
+    const provider = this.providers.get(id);
+    if (!provider) {
+      throw new Error(`Unknown LLM provider: ${id}`);
+    }
+    return provider;
+  }
+
+  listProviders(): LlmProviderInfo[] {
+    return [...this.providers.values()].map((provider) => ({
+      id: provider.id,
+      name: provider.name,
+      ...provider.getAvailability(),
+    }));
+  }
+
+  /** Sessions held in memory, per provider */
+  getActiveSessionCounts(): Record<string, number> {
+    return Object.fromEntries(
+      [...this.providers.values()].map((provider) => [
+        provider.id,
+        provider.getActiveSessionCount(),
+      ])
+    );
+  }
+
+  /**
+   * Why new sessions cannot use a provider, or null when they can.
+   * Copilot stays usable in mock mode so the extension works without the CLI.
+   */
+  getUnavailableReason(id: LlmProviderId): string | null {
+    if (id === DEFAULT_PROVIDER) return null;
+    const { available, reason } = this.getProvider(id).getAvailability();
+    return available ? null : `Provider '${id}' is not available${reason ? `: ${reason}` : ''}`;
+  }
+
+  async listModels(
+    providerId: LlmProviderId = DEFAULT_PROVIDER
+  ): Promise<{ models: ModelInfo[]; default: string }> {
+    const { models, default: defaultModel } = await this.getProvider(providerId).listModels();
+    return {
+      models: models.map((model) => ({ ...model, llmProvider: providerId })),
+      default: defaultModel,
+    };
+  }
+
+  /**
+   * Premium requests one prompt costs on a model. Only Copilot bills premium requests,
+   * and not in mock mode; models without a published multiplier count as one.
+   */
+  async getPricingMultiplier(providerId: LlmProviderId, modelId: string): Promise<number> {
+    if (providerId !== 'copilot' || !this.getProvider(providerId).getAvailability().available) {
+      return 0;
+    }
+
+    let cached = this.modelCache.get(providerId);
+    if (!cached || Date.now() - cached.fetchedAt > MODEL_CACHE_TTL_MS) {
+      const { models } = await this.getProvider(providerId).listModels();
+      cached = { models, fetchedAt: Date.now() };
+      this.modelCache.set(providerId, cached);
+    }
+
+    return cached.models.find((model) => model.id === modelId)?.pricingMultiplier ?? 1;
+  }
+
+  getQuota(providerId: LlmProviderId = DEFAULT_PROVIDER): Promise<CopilotQuotaStatus> {
+    return this.getProvider(providerId).getQuota();
+  }
+
+  async createSession(
+    sessionId: string,
+    providerId: LlmProviderId,
+    type: SessionType,
+    model: string,
+    options?: ProviderSessionOptions
+  ): Promise<void> {
+    await this.getProvider(providerId).createSession(sessionId, type, model, options);
+    this.sessionProviders.set(sessionId, providerId);
+  }
+
+  resumeSession(sessionId: string): Promise<boolean> {
+    return this.providerFor(sessionId).resumeSession(sessionId);
+  }
+
+  switchSessionModel(
+    sessionId: string,
+    type: SessionType,
+    model: string,
+    systemPrompt?: string,
+    reasoningEffort?: ReasoningEffort
+  ): Promise<void> {
+    return this.providerFor(sessionId).switchSessionModel(
+      sessionId,
+      type,
+      model,
+      systemPrompt,
+      reasoningEffort
+    );
+  }
+
+  sendMessage(
+    sessionId: string,
+    prompt: string,
+    context?: MessageContext,
+    onEvent?: ProviderEventHandler
+  ): Promise<string> {
+    return this.providerFor(sessionId).sendMessage(sessionId, prompt, context, onEvent);
+  }
+
+  streamMessage(
+    sessionId: string,
+    prompt: string,
+    context?: MessageContext,
+    onEvent?: ProviderEventHandler,
+    attachments?: ProviderAttachment[]
+  ): Promise<void> {
+    return this.providerFor(sessionId).streamMessage(
+      sessionId,
+      prompt,
+      context,
+      onEvent,
+      attachments
+    );
+  }
+
+  abortRequest(sessionId: string): Promise<void> {
+    return this.providerFor(sessionId).abortRequest(sessionId);
+  }
+
+  async destroySession(sessionId: string): Promise<void> {
+    await this.providerFor(sessionId).destroySession(sessionId);
+    this.sessionProviders.delete(sessionId);
+  }
+
+  async shutdown(): Promise<void> {
+    for (const provider of this.providers.values()) {
+      try {
+        await provider.shutdown();
+      } catch (error) {
+        console.error(`[LlmService] Failed to shut down provider ${provider.id}:`, error);
+      }
+    }
+    this.sessionProviders.clear();
+  }
+
+  private providerFor(sessionId: string): LlmProvider {
+    const providerId =
+      this.sessionProviders.get(sessionId) ??
+      this.sessionService.getSession(sessionId)?.provider ??
+      DEFAULT_PROVIDER;
+    return this.getProvider(providerId);
+  }
+}
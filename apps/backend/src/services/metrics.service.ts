@@ -0,0 +1,99 @@
+/**
+ * MetricsService
+ *
+ * Collects request, stream and tool metrics for `GET /metrics`. Values that can
+ * be read at any time (active sessions, database size) are collected on scrape.
+ */
+
+import { type Counter, type Histogram, MetricsRegistry } from '../lib/metrics.js';
+
+export interface MetricsServiceOptions {
+  /** Sessions held in memory, per provider */
+  getActiveSessions?: () => Record<string, number>;
+  /** Size of the SQLite database in bytes */
+  getDatabaseBytes?: () => number;
+}
+
+// Time to first token is usually well under the request latency buckets' upper end
+const FIRST_TOKEN_BUCKETS = [0.1, 0.25, 0.5, 1, 2, 3, 5, 10, 20, 30, 60];
+
+export class MetricsService {
+  private readonly registry = new MetricsRegistry();
+  private readonly requestDuration: Histogram;
+  private readonly streamDuration: Histogram;
+  private readonly timeToFirstToken: Histogram;
+  private readonly toolCalls: Counter;
+  private readonly providerRetries: Counter;
+
+  constructor(options: MetricsServiceOptions = {}) {
+    this.requestDuration = this.registry.histogram(
+      'devmentorai_http_request_duration_seconds',
+      'HTTP request latency by route'
+    );
+    this.streamDuration = this.registry.histogram(
+      'devmentorai_stream_duration_seconds',
+      'Duration of streamed chat responses'
+    );
+    this.timeToFirstToken = this.registry.histogram(
+      'devmentorai_stream_time_to_first_token_seconds',
+      'Time from sending a prompt to the first streamed token',
+      FIRST_TOKEN_BUCKETS
+    );
+    this.toolCalls = this.registry.counter(
+      'devmentorai_tool_calls_total',
+      'Tool calls by tool and outcome'
+    );
+    this.providerRetries = this.registry.counter(
+      'devmentorai_provider_retries_total',
+      'Provider requests retried after a transient error'
+    );
+
+    const { getActiveSessions, getDatabaseBytes } = options;
+    if (getActiveSessions) {
+      this.registry.gauge('devmentorai_active_sessions', 'Provider sessions held in memory', () =>
+        Object.entries(getActiveSessions()).map(([provider, value]) => ({
+          labels: { provider },
+          value,
+        }))
+      );
+    }
+    if (getDatabaseBytes) {
+      this.registry.gauge(
+        'devmentorai_database_size_bytes',
+        'Size of the SQLite database',
+        getDatabaseBytes
+      );
+    }
+    this.registry.gauge(
+      'devmentorai_process_resident_memory_bytes',
+      'Resident memory of the server process',
+      () => process.memoryUsage().rss
+    );
+  }
+
+  observeRequest(labels: { method: string; route: string; status: number }, seconds: number): void {
+    const { method, route, status } = labels;
+    this.requestDuration.observe({ method, route, status_code: String(status) }, seconds);
+  }
+
+  /** `outcome` is why the stream ended, e.g. `completed`, `idle_timeout` or `client_disconnected` */
+  observeStream(provider: string, outcome: string, seconds: number): void {
+    this.streamDuration.observe({ provider, outcome }, seconds);
+  }
+
+  observeTimeToFirstToken(provider: string, seconds: number): void {
+    this.timeToFirstToken.observe({ provider }, seconds);
+  }
+
+  recordToolCall(tool: string, success: boolean): void {
+    this.toolCalls.inc({ tool, outcome: success ? 'success' : 'failure' });
+  }
+
+  recordRetry(provider: string): void {
+    this.providerRetries.inc({ provider });
+  }
+
+  render(): string {
+    return this.registry.render();
+  }
+}
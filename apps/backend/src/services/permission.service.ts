@@ -0,0 +1,233 @@
+import { formatDate, generateId } from '@devmentorai/shared';
+import type {
+  PermissionDecision,
+  ToolPermissionPolicy,
+  ToolPermissionRequest,
+  ToolPermissionSetting,
+} from '@devmentorai/shared';
+import type { Database } from 'better-sqlite3';
+import { devopsTools } from '../tools/devops-tools.js';
+
+type PermissionRequestListener = (request: ToolPermissionRequest) => void;
+
+interface PendingPermission {
+  sessionId: string;
+  toolName: string;
+  resolve: (allowed: boolean) => void;
+  timer: NodeJS.Timeout;
+}
+
+interface DbToolPermission {
+  tool_name: string;
+  policy: ToolPermissionPolicy;
+}
+
+export interface PermissionResult {
+  allowed: boolean;
+  /** Why the call was refused, phrased for the model */
+  message?: string;
+}
+
+/** Unanswered prompts are denied after this long */
+export const PERMISSION_TIMEOUT_MS = 2 * 60 * 1000;
+
+// Local, read-only tools; file access is already confined to the workspace roots
+const DEFAULT_POLICIES: Record<string, ToolPermissionPolicy> = {
+  read_file: 'allow',
+  list_directory: 'allow',
+  analyze_config: 'allow',
+  analyze_terraform_plan: 'allow',
+  analyze_iam_policy: 'allow',
+  estimate_cost: 'allow',
+  analyze_error: 'allow',
+};
+
+// Copilot CLI built-in actions that can be given a policy like any tool
+const BUILT_IN_ACTIONS: Record<string, string> = {
+  shell: 'Run shell commands',
+  write: 'Create or edit files in the workspace',
+  url: 'Fetch web pages',
+  memory: 'Store facts in Copilot memory',
+};
+
+/**
+ * Brokers tool consent: remembered per-tool policies, per-session approvals and
+ * prompts that pause a stream until the user answers them.
+ */
+export class PermissionService {
+  private readonly pending: Map<string, PendingPermission> = new Map();
+  private readonly sessionApprovals: Map<string, Set<string>> = new Map();
+  private readonly listeners: Map<string, Set<PermissionRequestListener>> = new Map();
+
+  constructor(private readonly db: Database) {}
+
+  getPolicy(toolName: string): ToolPermissionPolicy {
+    const row = this.db
+      .prepare('SELECT * FROM tool_permissions WHERE tool_name = ?')
+      .get(toolName) as DbToolPermission | undefined;
+    return row?.policy ?? DEFAULT_POLICIES[toolName] ?? 'ask';
+  }
+
+  /**
+   * Every known tool with its effective policy, plus tools (such as MCP tools)
+   * that only have a remembered policy
+   */
+  listPolicies(): ToolPermissionSetting[] {
+    const rows = this.db.prepare('SELECT * FROM tool_permissions').all() as DbToolPermission[];
+    const stored = new Map(rows.map((row) => [row.tool_name, row.policy]));
+
+    const known = [
+      ...devopsTools.map((tool) => ({ toolName: tool.name, description: tool.description })),
+      ...Object.entries(BUILT_IN_ACTIONS).map(([toolName, description]) => ({
+        toolName,
+        description,
+      })),
+    ];
+    const knownNames = new Set(known.map((tool) => tool.toolName));
+    const remembered = rows
+      .filter((row) => !knownNames.has(row.tool_name))
+      .map((row) => ({ toolName: row.tool_name }));
+
+    return [...known, ...remembered].map((tool) => ({
+      ...tool,
+      policy: stored.get(tool.toolName) ?? DEFAULT_POLICIES[tool.toolName] ?? 'ask',
+    }));
+  }
+
+  setPolicy(toolName: string, policy: ToolPermissionPolicy): ToolPermissionSetting {
+    this.db
+      .prepare(`
+        INSERT INTO tool_permissions (tool_name, policy, updated_at) VALUES (?, ?, ?)
+        ON CONFLICT(tool_name) DO UPDATE SET policy = excluded.policy, updated_at = excluded.updated_at
+      `)
+      .run(toolName, policy, formatDate());
+
+    return { toolName, description: BUILT_IN_ACTIONS[toolName], policy };
+  }
+
+  /**
+   * Decide whether a tool may run in a session. Tools with the `ask` policy are
+   * sent to the session's listeners and wait for `resolvePermission`; with no one
+   * listening (e.g. a non-streaming request) there is nobody to ask, so they are denied.
+   */
+  async requestPermission(
+    sessionId: string,
+    request: Omit<ToolPermissionRequest, 'requestId'>
+  ): Promise<PermissionResult> {
+    const policy = this.getPolicy(request.toolName);
+    if (policy === 'allow' || this.sessionApprovals.get(sessionId)?.has(request.toolName)) {
+      return { allowed: true };
+    }
+    if (policy === 'deny') {
+      return {
+        allowed: false,
+        message: `Permission denied: the user has blocked ${request.toolName}.`,
+      };
+    }
+
+    const sessionListeners = this.listeners.get(sessionId);
+    if (!sessionListeners?.size) {
+      return {
+        allowed: false,
+        message: `Permission denied: ${request.toolName} needs the user's approval, which can only be given in a streaming chat.`,
+      };
+    }
+
+    const permissionRequest: ToolPermissionRequest = { ...request, requestId: generateId('perm') };
+    console.log(
+      `[PermissionService] Asking for ${request.toolName} in ${sessionId} (${permissionRequest.requestId})`
+    );
+
+    const allowed = await new Promise<boolean>((resolve) => {
+      const timer = setTimeout(() => {
+        console.log(`[PermissionService] ${permissionRequest.requestId} timed out`);
+        this.settle(permissionRequest.requestId, false);
+      }, PERMISSION_TIMEOUT_MS);
+
+      this.pending.set(permissionRequest.requestId, {
+        sessionId,
+        toolName: request.toolName,
+        resolve,
+        timer,
+      });
+      for (const listener of sessionListeners) {
+        listener(permissionRequest);
+      }
+    });
+
+    return allowed
+      ? { allowed: true }
+      : {
+          allowed: false,
+          message: `Permission denied: the user did not allow ${request.toolName}.`,
+        };
+  }
+
+  /**
+   * Answer a pending request. Returns false when it is unknown, already answered
+   * or belongs to another session.
+   */
+  resolvePermission(sessionId: string, requestId: string, decision: PermissionDecision): boolean {
+    const pending = this.pending.get(requestId);
+    if (!pending || pending.sessionId !== sessionId) return false;
+
+    if (decision === 'allow_session') {
+      let approvals = this.sessionApprovals.get(sessionId);
+      if (!approvals) {
+        approvals = new Set();
+        this.sessionApprovals.set(sessionId, approvals);
+      }
+      approvals.add(pending.toolName);
+    }
+
+    this.settle(requestId, decision !== 'deny');
+    return true;
+  }
+
+  /**
+   * Deny everything still waiting in a session, e.g. when its stream ends
+   */
+  cancelPending(sessionId: string): void {
+    for (const [requestId, pending] of this.pending) {
+      if (pending.sessionId === sessionId) this.settle(requestId, false);
+    }
+  }
+
+  hasPending(sessionId: string): boolean {
+    return [...this.pending.values()].some((pending) => pending.sessionId === sessionId);
+  }
+
+  /**
+   * Forget "always for this session" approvals, e.g. when the session is deleted
+   */
+  clearSession(sessionId: string): void {
+    this.cancelPending(sessionId);
+    this.sessionApprovals.delete(sessionId);
+  }
+
+  /**
+   * Listen for permission prompts in a session. Returns an unsubscribe function.
+   */
+  onPermissionRequest(sessionId: string, listener: PermissionRequestListener): () => void {
+    let sessionListeners = this.listeners.get(sessionId);
+    if (!sessionListeners) {
+      sessionListeners = new Set();
+      this.listeners.set(sessionId, sessionListeners);
+    }
+    sessionListeners.add(listener);
+
+    return () => {
+      sessionListeners.delete(listener);
+      if (sessionListeners.size === 0) this.listeners.delete(sessionId);
+    };
+  }
+
+  private settle(requestId: string, allowed: boolean): void {
+    const pending = this.pending.get(requestId);
+    if (!pending) return;
+
+    clearTimeout(pending.timer);
+    this.pending.delete(requestId);
+    pending.resolve(allowed);
+  }
+}
@@ -0,0 +1,140 @@
+import { formatDate, generatePersonaId } from '@devmentorai/shared';
+import type {
+  AssistantTone,
+  CreatePersonaRequest,
+  Persona,
+  UpdatePersonaRequest,
+} from '@devmentorai/shared';
+import type { Database } from 'better-sqlite3';
+
+interface DbPersona {
+  id: string;
+  name: string;
+  description: string | null;
+  icon: string;
+  agent_prompt: string;
+  default_model: string | null;
+  tone: string | null;
+  tools: string; // JSON array of tool names
+  created_at: string;
+  updated_at: string;
+}
+
+export class PersonaService {
+  constructor(private readonly db: Database) {}
+
+  listPersonas(): Persona[] {
+    const rows = this.db
+      .prepare('SELECT * FROM personas ORDER BY name COLLATE NOCASE ASC')
+      .all() as DbPersona[];
+    return rows.map((row) => this.mapDbPersona(row));
+  }
+
+  getPersona(id: string): Persona | null {
+    const row = this.db.prepare('SELECT * FROM personas WHERE id = ?').get(id) as
+      | DbPersona
+      | undefined;
+    return row ? this.mapDbPersona(row) : null;
+  }
+
+  createPersona(request: CreatePersonaRequest): Persona {
+    const id = generatePersonaId();
+    const now = formatDate();
+
+    this.db
+      .prepare(`
+        INSERT INTO personas (id, name, description, icon, agent_prompt, default_model, tone, tools, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `)
+      .run(
+        id,
+        request.name,
+        request.description || null,
+        request.icon,
+        request.agentPrompt,
+        request.defaultModel || null,
+        request.tone || null,
+        JSON.stringify(request.tools ?? []),
+        now,
+        now
+      );
+
+    const persona = this.getPersona(id);
+    if (!persona) {
+      throw new Error(`Failed to load created persona: ${id}`);
+    }
+    return persona;
+  }
+
+  updatePersona(id: string, request: UpdatePersonaRequest): Persona | null {
+    if (!this.getPersona(id)) return null;
+
+    const updateFields: Array<{ sql: string; value: string | null }> = [];
+
+    if (request.name !== undefined) {
+      updateFields.push({ sql: 'name = ?', value: request.name });
+    }
+    if (request.description !== undefined) {
+      updateFields.push({ sql: 'description = ?', value: request.description || null });
+    }
+    if (request.icon !== undefined) {
+      updateFields.push({ sql: 'icon = ?', value: request.icon });
+    }
+    if (request.agentPrompt !== undefined) {
+      updateFields.push({ sql: 'agent_prompt = ?', value: request.agentPrompt });
+    }
+    if (request.defaultModel !== undefined) {
+      updateFields.push({ sql: 'default_model = ?', value: request.defaultModel || null });
+    }
+    if (request.tone !== undefined) {
+      updateFields.push({ sql: 'tone = ?', value: request.tone || null });
+    }
+    if (request.tools !== undefined) {
+      updateFields.push({ sql: 'tools = ?', value: JSON.stringify(request.tools) });
+    }
+
+    if (updateFields.length > 0) {
+      updateFields.push({ sql: 'updated_at = ?', value: formatDate() });
+      this.db
+        .prepare(`UPDATE personas SET ${updateFields.map((f) => f.sql).join(', ')} WHERE id = ?`)
+        .run(...updateFields.map((f) => f.value), id);
+    }
+
+    return this.getPersona(id);
+  }
+
+  /**
+   * Delete a persona. Sessions created from it keep their type and fall back to
+   * general-purpose behavior without extra tools.
+   */
+  deletePersona(id: string): boolean {
+    const result = this.db.prepare('DELETE FROM personas WHERE id = ?').run(id);
+    return result.changes > 0;
+  }
+
+  private mapDbPersona(row: DbPersona): Persona {
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description || undefined,
+      icon: row.icon,
+      agentPrompt: row.agent_prompt,
+      defaultModel: row.default_model || undefined,
+      tone: (row.tone as AssistantTone) || undefined,
+      tools: this.parseTools(row.tools),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  private parseTools(value: string): string[] {
+    try {
+      const parsed: unknown = JSON.parse(value);
+      return Array.isArray(parsed)
+        ? parsed.filter((name): name is string => typeof name === 'string')
+        : [];
+    } catch {
+      return [];
+    }
+  }
+}
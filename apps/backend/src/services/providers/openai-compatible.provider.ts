@@ -0,0 +1,574 @@
+import { readFile } from 'node:fs/promises';
+import { extname } from 'node:path';
+import type {
+  CopilotQuotaStatus,
+  MessageContext,
+  ModelInfo,
+  ReasoningEffort,
+  SessionType,
+} from '@devmentorai/shared';
+import type { SessionEvent } from '@github/copilot-sdk';
+import type { Tool } from '../../tools/devops-tools.js';
+import type { PermissionService } from '../permission.service.js';
+import type { PersonaService } from '../persona.service.js';
+import type { SessionService } from '../session.service.js';
+import type { WorkspaceService } from '../workspace.service.js';
+import { buildSystemPrompt, getSessionTools } from './session-setup.js';
+import type {
+  LlmProvider,
+  ProviderAttachment,
+  ProviderEventHandler,
+  ProviderSessionOptions,
+} from './types.js';
+
+export interface OpenAICompatibleConfig {
+  /** Base URL including the API version, e.g. `http://localhost:11434/v1` */
+  baseUrl?: string;
+  apiKey?: string;
+  /** Model used when a session does not name one */
+  defaultModel?: string;
+}
+
+type ChatContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+interface ChatToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | ChatContentPart[] | null;
+  tool_calls?: ChatToolCall[];
+  tool_call_id?: string;
+}
+
+interface ChatCompletionChunk {
+  choices?: Array<{
+    delta?: {
+      content?: string | null;
+      tool_calls?: Array<{
+        index: number;
+        id?: string;
+        function?: { name?: string; arguments?: string };
+      }>;
+    };
+  }>;
+}
+
+interface OpenAISession {
+  type: SessionType;
+  model: string;
+  systemPrompt: string;
+  reasoningEffort?: ReasoningEffort;
+  /** Session whose workspace roots the tools are held to */
+  workspaceSessionId: string;
+  history: ChatMessage[];
+  controller: AbortController | null;
+}
+
+// Upper bound on model -> tool -> model round trips for a single prompt
+const MAX_TOOL_ROUNDS = 8;
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+};
+
+/**
+ * Yield the `data:` payloads of a server-sent event stream, stopping at `[DONE]`
+ */
+export async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        if (!line.startsWith('data:')) continue;
+        const data = line.slice(5).trim();
+        if (data === '[DONE]') return;
+        if (data) yield data;
+      }
+    }
+
+    const last = buffer.trim();
+    if (last.startsWith('data:') && last.slice(5).trim() !== '[DONE]') {
+      yield last.slice(5).trim();
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Provider for any server speaking the OpenAI chat-completions API
+ * (OpenAI, llama.cpp server, Ollama, vLLM, ...). Conversation history is kept
+ * in memory and rebuilt from the database when a session is resumed.
+ */
+export class OpenAICompatibleProvider implements LlmProvider {
+  readonly id = 'openai' as const;
+  readonly name = 'OpenAI-compatible';
+  private readonly sessions: Map<string, OpenAISession> = new Map();
+  private readonly baseUrl: string | null;
+  private initialized = false;
+
+  constructor(
+    private readonly sessionService: SessionService,
+    private readonly personaService: PersonaService,
+    private readonly workspaceService: WorkspaceService,
+    private readonly permissionService: PermissionService,
+    private readonly config: OpenAICompatibleConfig = {}
+  ) {
+    this.baseUrl = config.baseUrl ? config.baseUrl.replace(/\/+$/, '') : null;
+  }
+
+  async initialize(): Promise<void> {
+    if (this.baseUrl) {
+      console.log(`[OpenAIProvider] Using endpoint ${this.baseUrl}`);
+    } else {
+      console.log('[OpenAIProvider] No endpoint configured (DEVMENTORAI_OPENAI_BASE_URL)');
+    }
+    this.initialized = true;
+  }
+
+  isReady(): boolean {
+    return this.initialized;
+  }
+
+  getAvailability(): { available: boolean; reason?: string } {
+    if (!this.baseUrl) {
+      return { available: false, reason: 'Set DEVMENTORAI_OPENAI_BASE_URL to enable' };
+    }
+    return { available: true };
+  }
+
+  getActiveSessionCount(): number {
+    return this.sessions.size;
+  }
+
+  async listModels(): Promise<{ models: ModelInfo[]; default: string }> {
+    const fallbackDefault = this.config.defaultModel ?? '';
+    if (!this.baseUrl) {
+      return { models: [], default: fallbackDefault };
+    }
+
+    try {
+      const response = await this.request('/models', { method: 'GET' });
+      const payload = (await response.json()) as {
+        data?: Array<{ id?: unknown; owned_by?: unknown }>;
+      };
+      const ids = (payload.data ?? [])
+        .map((model) => ({
+          id: typeof model.id === 'string' ? model.id : '',
+          ownedBy: typeof model.owned_by === 'string' ? model.owned_by : 'local',
+        }))
+        .filter((model) => model.id);
+
+      const defaultModel = fallbackDefault || ids[0]?.id || '';
+      const host = new URL(this.baseUrl).host;
+
+      return {
+        models: ids.map(({ id, ownedBy }) => ({
+          id,
+          name: id,
+          description: `Served by ${host}`,
+          provider: ownedBy,
+          available: true,
+          isDefault: id === defaultModel,
+          llmProvider: this.id,
+        })),
+        default: defaultModel,
+      };
+    } catch (error) {
+      console.error('[OpenAIProvider] Failed to list models:', error);
+      return { models: [], default: fallbackDefault };
+    }
+  }
+
+  // Self-hosted endpoints have no quota to report
+  async getQuota(): Promise<CopilotQuotaStatus> {
+    return {
+      used: null,
+      included: null,
+      remaining: null,
+      percentageUsed: null,
+      percentageRemaining: null,
+      raw: {},
+    };
+  }
+
+  async createSession(
+    sessionId: string,
+    type: SessionType,
+    model: string,
+    options: ProviderSessionOptions = {}
+  ): Promise<void> {
+    if (!this.baseUrl) {
+      throw new Error('OpenAI-compatible provider is not configured');
+    }
+
+    this.sessions.set(sessionId, {
+      type,
+      model: model || this.config.defaultModel || '',
+      systemPrompt: buildSystemPrompt(
+        type,
+        options.systemPrompt,
+        options.tone,
+        options.explainTradeoffs
+      ),
+      reasoningEffort: options.reasoningEffort,
+      workspaceSessionId: options.workspaceSessionId ?? sessionId,
+      history: [],
+      controller: null,
+    });
+  }
+
+  async resumeSession(sessionId: string): Promise<boolean> {
+    if (this.sessions.has(sessionId)) return true;
+
+    const dbSession = this.sessionService.getSession(sessionId);
+    if (!dbSession || !this.baseUrl) return false;
+
+    await this.createSession(sessionId, dbSession.type, dbSession.model, {
+      systemPrompt: dbSession.systemPrompt,
+      tone: dbSession.tone,
+      explainTradeoffs: dbSession.explainTradeoffs,
+      reasoningEffort: dbSession.reasoningEffort,
+    });
+
+    // Replay the active thread; a trailing user message is either the prompt being
+    // sent right now or one that never got an answer, so it is left out
+    const messages = this.sessionService.listAllMessages(sessionId);
+    const thread =
+      messages.length > 0 ? this.sessionService.getThread(messages[messages.length - 1].id) : [];
+    if (thread[thread.length - 1]?.role === 'user') thread.pop();
+
+    const session = this.sessions.get(sessionId);
+    if (session) {
+      session.history = thread
+        .filter((message) => message.role !== 'system')
+        .map((message) => ({ role: message.role, content: message.content }));
+    }
+
+    console.log(`[OpenAIProvider] Session ${sessionId} resumed with ${thread.length} messages`);
+    return true;
+  }
+
+  async switchSessionModel(
+    sessionId: string,
+    type: SessionType,
+    model: string,
+    systemPrompt?: string,
+    reasoningEffort?: ReasoningEffort
+  ): Promise<void> {
+    await this.resumeSession(sessionId);
+    const session = this.sessions.get(sessionId);
+
+    if (!session) {
+      await this.createSession(sessionId, type, model, { systemPrompt, reasoningEffort });
+      return;
+    }
+
+    // History lives here rather than in the model, so switching keeps the conversation
+    session.model = model;
+    session.reasoningEffort = reasoningEffort;
+  }
+
+  async sendMessage(
+    sessionId: string,
+    prompt: string,
+    context?: MessageContext,
+    onEvent?: ProviderEventHandler
+  ): Promise<string> {
+    let content = '';
+    await this.streamMessage(sessionId, prompt, context, (event) => {
+      if (event.type === 'assistant.message') {
+        content = event.data.content || '';
+      }
+      onEvent?.(event);
+    });
+    return content;
+  }
+
+  async streamMessage(
+    sessionId: string,
+    prompt: string,
+    context?: MessageContext,
+    onEvent?: ProviderEventHandler,
+    attachments?: ProviderAttachment[]
+  ): Promise<void> {
+    if (!this.sessions.has(sessionId)) {
+      await this.resumeSession(sessionId);
+    }
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Could not restore session ${sessionId}`);
+    }
+
+    // Same fallback as Copilot: the route normally enriches the prompt already
+    let fullPrompt = prompt;
+    if (context?.selectedText && !prompt.includes(context.selectedText)) {
+      fullPrompt = `Context (selected text):\n${context.selectedText}\n\nUser request: ${prompt}`;
+    }
+
+    session.controller?.abort();
+    const controller = new AbortController();
+    session.controller = controller;
+
+    session.history.push({
+      role: 'user',
+      content: await this.buildUserContent(fullPrompt, attachments),
+    });
+
+    const tools = getSessionTools(session.type, this.personaService);
+    let content = '';
+
+    try {
+      for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+        const completion = await this.streamCompletion(session, tools, controller.signal, onEvent);
+        content = completion.content;
+
+        session.history.push({
+          role: 'assistant',
+          content: content || null,
+          ...(completion.toolCalls.length > 0 ? { tool_calls: completion.toolCalls } : {}),
+        });
+
+        if (completion.toolCalls.length === 0) break;
+
+        for (const toolCall of completion.toolCalls) {
+          session.history.push(
+            await this.runToolCall(toolCall, tools, session.workspaceSessionId, onEvent)
+          );
+        }
+      }
+
+      this.emit(onEvent, { type: 'assistant.message', data: { content } });
+    } catch (error) {
+      if (!controller.signal.aborted) throw error;
+      console.log(`[OpenAIProvider] Request aborted for session ${sessionId}`);
+    } finally {
+      if (session.controller === controller) session.controller = null;
+    }
+
+    this.emit(onEvent, { type: 'session.idle', data: {} });
+  }
+
+  async abortRequest(sessionId: string): Promise<void> {
+    this.sessions.get(sessionId)?.controller?.abort();
+  }
+
+  async destroySession(sessionId: string): Promise<void> {
+    this.sessions.get(sessionId)?.controller?.abort();
+    this.sessions.delete(sessionId);
+  }
+
+  async shutdown(): Promise<void> {
+    for (const session of this.sessions.values()) {
+      session.controller?.abort();
+    }
+    this.sessions.clear();
+    this.initialized = false;
+  }
+
+  private async request(path: string, init: RequestInit): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {}),
+      },
+    });
+
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      throw new Error(
+        `OpenAI-compatible endpoint returned ${response.status}${text ? `: ${text.slice(0, 300)}` : ''}`
+      );
+    }
+
+    return response;
+  }
+
+  /**
+   * Run one chat completion, forwarding text deltas as they arrive and
+   * collecting any tool calls the model makes
+   */
+  private async streamCompletion(
+    session: OpenAISession,
+    tools: Tool[],
+    signal: AbortSignal,
+    onEvent?: ProviderEventHandler
+  ): Promise<{ content: string; toolCalls: ChatToolCall[] }> {
+    const response = await this.request('/chat/completions', {
+      method: 'POST',
+      signal,
+      body: JSON.stringify({
+        model: session.model,
+        stream: true,
+        messages: [{ role: 'system', content: session.systemPrompt }, ...session.history],
+        ...(tools.length > 0
+          ? {
+              tools: tools.map((tool) => ({
+                type: 'function',
+                function: {
+                  name: tool.name,
+                  description: tool.description,
+                  parameters: tool.parameters,
+                },
+              })),
+            }
+          : {}),
+        ...(session.reasoningEffort ? { reasoning_effort: session.reasoningEffort } : {}),
+      }),
+    });
+
+    if (!response.body) {
+      throw new Error('OpenAI-compatible endpoint returned an empty response');
+    }
+
+    let content = '';
+    const toolCalls: ChatToolCall[] = [];
+
+    for await (const data of readServerSentEvents(response.body)) {
+      let chunk: ChatCompletionChunk;
+      try {
+        chunk = JSON.parse(data) as ChatCompletionChunk;
+      } catch {
+        console.warn('[OpenAIProvider] Skipping malformed stream chunk:', data.slice(0, 200));
+        continue;
+      }
+
+      const delta = chunk.choices?.[0]?.delta;
+      if (!delta) continue;
+
+      if (delta.content) {
+        content += delta.content;
+        this.emit(onEvent, {
+          type: 'assistant.message_delta',
+          data: { deltaContent: delta.content },
+        });
+      }
+
+      // Tool calls arrive in fragments keyed by index; names and arguments are concatenated
+      for (const fragment of delta.tool_calls ?? []) {
+        toolCalls[fragment.index] ??= {
+          id: '',
+          type: 'function',
+          function: { name: '', arguments: '' },
+        };
+        const toolCall = toolCalls[fragment.index];
+        if (fragment.id) toolCall.id = fragment.id;
+        toolCall.function.name += fragment.function?.name ?? '';
+        toolCall.function.arguments += fragment.function?.arguments ?? '';
+      }
+    }
+
+    return {
+      content,
+      toolCalls: toolCalls
+        .filter(Boolean)
+        .map((toolCall, index) => ({ ...toolCall, id: toolCall.id || `call_${index}` })),
+    };
+  }
+
+  private async runToolCall(
+    toolCall: ChatToolCall,
+    tools: Tool[],
+    workspaceSessionId: string,
+    onEvent?: ProviderEventHandler
+  ): Promise<ChatMessage> {
+    const toolName = toolCall.function.name;
+    this.emit(onEvent, {
+      type: 'tool.execution_start',
+      data: { toolCallId: toolCall.id, toolName },
+    });
+
+    let result: string;
+    let success = false;
+    const tool = tools.find((candidate) => candidate.name === toolName);
+    if (!tool) {
+      result = `Error: Tool ${toolName} is not available in this session`;
+    } else {
+      try {
+        const args = toolCall.function.arguments ? JSON.parse(toolCall.function.arguments) : {};
+        const permission = await this.permissionService.requestPermission(workspaceSessionId, {
+          toolName,
+          kind: 'custom-tool',
+          toolCallId: toolCall.id,
+          args,
+        });
+
+        if (permission.allowed) {
+          console.log(`[OpenAIProvider] Executing tool ${toolName}`);
+          result = await tool.handler(
+            args,
+            this.workspaceService.createToolContext(workspaceSessionId, toolName, toolCall.id)
+          );
+          success = true;
+        } else {
+          result = `Error: ${permission.message}`;
+        }
+      } catch (error) {
+        console.error(`[OpenAIProvider] Tool ${toolName} failed:`, error);
+        result = `Error: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      }
+    }
+
+    this.emit(onEvent, {
+      type: 'tool.execution_complete',
+      data: { toolCallId: toolCall.id, toolName, success },
+    });
+
+    return { role: 'tool', tool_call_id: toolCall.id, content: result };
+  }
+
+  /**
+   * Inline image attachments as data URLs; other attachments are not supported
+   */
+  private async buildUserContent(
+    prompt: string,
+    attachments?: ProviderAttachment[]
+  ): Promise<string | ChatContentPart[]> {
+    const images = (attachments ?? []).filter(
+      (attachment) =>
+        attachment.type === 'file' && IMAGE_MIME_TYPES[extname(attachment.path).toLowerCase()]
+    );
+    if (images.length === 0) return prompt;
+
+    const parts: ChatContentPart[] = [{ type: 'text', text: prompt }];
+    for (const image of images) {
+      try {
+        const data = await readFile(image.path);
+        const mimeType = IMAGE_MIME_TYPES[extname(image.path).toLowerCase()];
+        parts.push({
+          type: 'image_url',
+          image_url: { url: `data:${mimeType};base64,${data.toString('base64')}` },
+        });
+      } catch (error) {
+        console.error(`[OpenAIProvider] Failed to read attachment ${image.path}:`, error);
+      }
+    }
+    return parts;
+  }
+
+  private emit(onEvent: ProviderEventHandler | undefined, event: unknown): void {
+    onEvent?.(event as SessionEvent);
+  }
+}
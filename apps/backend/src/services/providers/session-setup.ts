@@ -0,0 +1,127 @@
+/**
+ * Session setup shared by every LLM provider: system prompt sections and the
+ * tools a session type may call.
+ */
+
+import { getPersonaId, isPersonaSessionType } from '@devmentorai/shared';
+import type { BuiltInSessionType, SessionType } from '@devmentorai/shared';
+import { type Tool, devopsTools } from '../../tools/devops-tools.js';
+import type { PersonaService } from '../persona.service.js';
+
+/**
+ * Get tone instructions based on user preference
+ */
+export function getToneInstructions(tone?: string): string {
+  switch (tone) {
+    case 'concise':
+      return 'Be concise and direct. Get straight to the point without unnecessary elaboration.';
+    case 'friendly':
+      return 'Be friendly, approachable, and encouraging. Use a warm, conversational tone while maintaining professionalism.';
+    case 'professional':
+      return 'Be professional and formal. Use precise language and maintain a business-appropriate tone.';
+    case 'technical':
+      return 'Be technical and detailed. Provide in-depth explanations suitable for technical professionals. Include specific terminology and technical details.';
+    default:
+      return 'Be helpful and clear. Balance technical accuracy with accessibility. Explain concepts thoroughly without being overly verbose.';
+  }
+}
+
+/**
+ * Build guidelines based on session type
+ */
+export function buildGuidelines(type: SessionType, explainTradeoffs?: boolean): string {
+  const baseGuidelines: Record<BuiltInSessionType, string> = {
+    devops: `
+      - Emphasize infrastructure-as-code principles and automation
+      - Prioritize security, scalability, and observability in all recommendations
+      - Cite official cloud provider documentation (AWS, Azure, GCP, Kubernetes) when making claims
+      - Always explain the 'why' behind infrastructure decisions
+      - Include command examples for CLI tools (kubectl, terraform, aws-cli, etc.) when applicable
+      - When given Terraform plan JSON, use the analyze_terraform_plan tool for resource counts instead of counting by hand
+      - When given an AWS IAM policy, run the analyze_iam_policy tool before suggesting changes
+      - For cost questions, use the estimate_cost tool and state its assumptions alongside the numbers`,
+
+    writing: `
+      - Focus on clarity, conciseness, and effective communication
+      - Adapt writing style to the context (technical documentation, emails, blog posts, etc.)
+      - Maintain the original intent and tone of the author
+      - Cite style guides (AP, Chicago, technical writing standards) when relevant`,
+
+    development: `
+      - Prioritize clean code principles, SOLID principles, and best practices
+      - Explain design patterns and architectural decisions clearly
+      - Include code examples that follow language conventions and style guides
+      - Reference official language/framework documentation when appropriate`,
+
+    general: `
+      - Provide balanced, well-reasoned answers
+      - Include examples when they add clarity to the explanation
+      - Cite authoritative sources when making factual claims
+      - Adapt depth of explanation to the apparent expertise level of the user`,
+  };
+
+  let guidelines = isPersonaSessionType(type)
+    ? baseGuidelines.general
+    : baseGuidelines[type] || baseGuidelines.general;
+
+  if (explainTradeoffs) {
+    guidelines +=
+      '\n      - Always explain the pros and cons of different approaches when presenting multiple options.';
+  }
+
+  return guidelines.trim();
+}
+
+/**
+ * Get safety instructions (common to all session types)
+ */
+export function getSafetyInstructions(): string {
+  return `
+    - Never request or store sensitive data such as passwords, API keys, tokens, or credentials
+    - Always warn before suggesting destructive commands (rm -rf, database deletions, resource terminations, etc.)
+    - Remind users to make backups or use version control before critical changes
+    - Distinguish between staging/testing and production environments when discussing deployments
+  `.trim();
+}
+
+/**
+ * System prompt as a single block of text, for providers without Copilot's
+ * section-based system message customization
+ */
+export function buildSystemPrompt(
+  type: SessionType,
+  systemPrompt?: string,
+  tone?: string,
+  explainTradeoffs?: boolean
+): string {
+  const guidelines = buildGuidelines(type, explainTradeoffs).replace(/^[ \t]+/gm, '');
+  const safety = getSafetyInstructions().replace(/^[ \t]+/gm, '');
+
+  return [
+    systemPrompt ??
+      `You are DevMentorAI Assistant. Session Type: ${type}. You are assisting developers, DevOps engineers, QA professionals, or learners with their daily tasks.`,
+    `Tone:\n${getToneInstructions(tone)}`,
+    `Guidelines:\n${guidelines}`,
+    `Safety:\n${safety}`,
+  ].join('\n\n');
+}
+
+/**
+ * Tool names enabled for a session type: all DevOps tools for DevOps sessions,
+ * the persona's own selection for persona sessions, none otherwise
+ */
+export function getSessionToolNames(type: SessionType, personaService: PersonaService): string[] {
+  const personaId = getPersonaId(type);
+  if (personaId) {
+    return personaService.getPersona(personaId)?.tools ?? [];
+  }
+  return type === 'devops' ? devopsTools.map((t) => t.name) : [];
+}
+
+export function getSessionTools(type: SessionType, personaService: PersonaService): Tool[] {
+  return getToolsByName(getSessionToolNames(type, personaService));
+}
+
+export function getToolsByName(toolNames: string[]): Tool[] {
+  return devopsTools.filter((tool) => toolNames.includes(tool.name));
+}
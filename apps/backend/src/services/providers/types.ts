@@ -0,0 +1,91 @@
+import type {
+  CopilotQuotaStatus,
+  LlmProviderId,
+  MessageContext,
+  ModelInfo,
+  ReasoningEffort,
+  SessionType,
+} from '@devmentorai/shared';
+import type { SessionEvent } from '@github/copilot-sdk';
+
+/**
+ * Events are shaped like Copilot SDK session events so the chat routes can consume
+ * every provider the same way. Non-Copilot providers emit the subset the routes use:
+ * `assistant.message_delta`, `assistant.message`, `tool.execution_start`,
+ * `tool.execution_complete` and `session.idle`.
+ */
+export type ProviderEvent = SessionEvent;
+
+export type ProviderEventHandler = (event: ProviderEvent) => void;
+
+export interface ProviderAttachment {
+  type: 'file' | 'directory';
+  path: string;
+  displayName?: string;
+}
+
+export interface ProviderSessionOptions {
+  /** Replaces the generated system message */
+  systemPrompt?: string;
+  enableMcp?: boolean;
+  tone?: string;
+  explainTradeoffs?: boolean;
+  reasoningEffort?: ReasoningEffort;
+  /** Session whose workspace roots tools use (defaults to the provider session itself) */
+  workspaceSessionId?: string;
+}
+
+/**
+ * A backend that can hold chat sessions and answer prompts.
+ * Sessions are keyed by the DevMentorAI session ID.
+ */
+export interface LlmProvider {
+  readonly id: LlmProviderId;
+  readonly name: string;
+
+  initialize(): Promise<void>;
+  isReady(): boolean;
+  /** Whether the provider serves real responses, and why not when it doesn't */
+  getAvailability(): { available: boolean; reason?: string };
+  /** Sessions currently held in memory */
+  getActiveSessionCount(): number;
+
+  listModels(): Promise<{ models: ModelInfo[]; default: string }>;
+  getQuota(): Promise<CopilotQuotaStatus>;
+
+  createSession(
+    sessionId: string,
+    type: SessionType,
+    model: string,
+    options?: ProviderSessionOptions
+  ): Promise<void>;
+  /** Bring a persisted session back into memory; false when it cannot be restored */
+  resumeSession(sessionId: string): Promise<boolean>;
+  switchSessionModel(
+    sessionId: string,
+    type: SessionType,
+    model: string,
+    systemPrompt?: string,
+    reasoningEffort?: ReasoningEffort
+  ): Promise<void>;
+
+  /** Send a prompt and resolve with the final assistant reply */
+  sendMessage(
+    sessionId: string,
+    prompt: string,
+    context?: MessageContext,
+    onEvent?: ProviderEventHandler
+  ): Promise<string>;
+  /** Send a prompt and report progress through `onEvent`, ending with `session.idle` */
+  streamMessage(
+    sessionId: string,
+    prompt: string,
+    context?: MessageContext,
+    onEvent?: ProviderEventHandler,
+    attachments?: ProviderAttachment[]
+  ): Promise<void>;
+  abortRequest(sessionId: string): Promise<void>;
+
+  destroySession(sessionId: string): Promise<void>;
+  shutdown(): Promise<void>;
+}
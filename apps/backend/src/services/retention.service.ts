@@ -0,0 +1,327 @@
+/**
+ * RetentionService
+ *
+ * Applies the retention policy from `config.json`: deletes old or surplus
+ * sessions, trims page contexts, drops images once they use too much disk and
+ * removes image folders no message points to. Runs in the background while
+ * the server is up and on demand via `devmentorai-server prune`.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import type {
+  PruneReport,
+  RetentionPolicy,
+  StorageReport,
+  StorageUsage,
+} from '@devmentorai/shared';
+import type { Database } from 'better-sqlite3';
+import { z } from 'zod';
+import { readConfig, writeConfigSection } from '../lib/config.js';
+import { IMAGES_DIR, getDirectorySize, getSessionImagesDir } from '../lib/paths.js';
+import type { SessionService } from './session.service.js';
+import { deleteMessageImages, deleteSessionImages } from './thumbnail-service.js';
+
+/** Nothing is deleted by default except surplus page contexts and orphaned images */
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  maxAgeDays: null,
+  maxSessions: null,
+  maxImageMb: null,
+  keepPinned: true,
+  maxContextsPerSession: 20,
+};
+
+export const retentionPolicySchema = z.object({
+  maxAgeDays: z.number().int().min(1).max(3650).nullable(),
+  maxSessions: z.number().int().min(1).max(100000).nullable(),
+  maxImageMb: z.number().min(1).max(1000000).nullable(),
+  keepPinned: z.boolean(),
+  maxContextsPerSession: z.number().int().min(1).max(1000),
+});
+
+/** How often the background task runs */
+export const GC_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+/** Delay before the first background run, so startup is not slowed down */
+const GC_STARTUP_DELAY_MS = 60 * 1000;
+
+/**
+ * Image folders are written before the message that points to them (uploads and
+ * in-flight streams), so unreferenced folders are only removed once this old.
+ */
+const ORPHAN_GRACE_MS = 60 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Stored image URLs look like http://host/api/images/<session>/<folder>/thumb_0.jpg;
+// some older ones carry an extra "images/" segment
+const IMAGE_URL_PATTERN = /\/api\/images\/(?:images\/)?([^/"?]+)\/([^/"?]+)\//g;
+
+interface DbSessionRow {
+  id: string;
+  name: string;
+  pinned: number;
+  updated_at: string;
+}
+
+export interface RetentionServiceOptions {
+  /** Called before an expired session is deleted, e.g. to release its provider session */
+  onSessionDeleted?: (sessionId: string) => Promise<void> | void;
+}
+
+export class RetentionService {
+  private timer: NodeJS.Timeout | null = null;
+  private pruning: Promise<PruneReport> | null = null;
+  private lastPrune: (PruneReport & { at: string }) | undefined;
+
+  constructor(
+    private readonly db: Database,
+    private readonly sessionService: SessionService,
+    private readonly options: RetentionServiceOptions = {}
+  ) {}
+
+  /**
+   * The saved policy merged over the defaults. An invalid saved policy is ignored.
+   */
+  getPolicy(): RetentionPolicy {
+    const saved = readConfig().retention;
+    if (saved === undefined) return { ...DEFAULT_RETENTION_POLICY };
+
+    const parsed = retentionPolicySchema.partial().safeParse(saved);
+    if (!parsed.success) {
+      console.error('[RetentionService] Ignoring invalid retention settings in config.json');
+      return { ...DEFAULT_RETENTION_POLICY };
+    }
+    return { ...DEFAULT_RETENTION_POLICY, ...parsed.data };
+  }
+
+  setPolicy(update: Partial<RetentionPolicy>): RetentionPolicy {
+    const policy = retentionPolicySchema.parse({ ...this.getPolicy(), ...update });
+    writeConfigSection('retention', policy);
+    console.log('[RetentionService] Retention policy updated');
+    return policy;
+  }
+
+  getUsage(): StorageUsage {
+    const count = (sql: string) => (this.db.prepare(sql).get() as { count: number }).count;
+    const pageSize = this.db.pragma('page_size', { simple: true }) as number;
+    const pageCount = this.db.pragma('page_count', { simple: true }) as number;
+
+    return {
+      databaseBytes: pageSize * pageCount,
+      imagesBytes: getDirectorySize(IMAGES_DIR),
+      sessions: count('SELECT COUNT(*) as count FROM sessions'),
+      pinnedSessions: count('SELECT COUNT(*) as count FROM sessions WHERE pinned = 1'),
+      messages: count('SELECT COUNT(*) as count FROM messages'),
+      contexts: count('SELECT COUNT(*) as count FROM session_contexts'),
+    };
+  }
+
+  getReport(): StorageReport {
+    return { usage: this.getUsage(), retention: this.getPolicy(), lastPrune: this.lastPrune };
+  }
+
+  /**
+   * Apply the retention policy. With `dryRun`, only report what would be deleted.
+   * Overlapping runs share the one in progress.
+   */
+  prune({ dryRun = false }: { dryRun?: boolean } = {}): Promise<PruneReport> {
+    if (dryRun) return this.runPrune(true);
+    if (!this.pruning) {
+      this.pruning = this.runPrune(false).finally(() => {
+        this.pruning = null;
+      });
+    }
+    return this.pruning;
+  }
+
+  /**
+   * Prune shortly after startup and then periodically
+   */
+  start(intervalMs: number = GC_INTERVAL_MS): void {
+    if (this.timer) return;
+
+    const run = () => {
+      this.prune().catch((error) => {
+        console.error('[RetentionService] Background cleanup failed:', error);
+      });
+      this.timer = setTimeout(run, intervalMs);
+      this.timer.unref();
+    };
+    this.timer = setTimeout(run, Math.min(GC_STARTUP_DELAY_MS, intervalMs));
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async runPrune(dryRun: boolean): Promise<PruneReport> {
+    const policy = this.getPolicy();
+    const now = Date.now();
+
+    const sessions = this.db
+      .prepare('SELECT id, name, pinned, updated_at FROM sessions ORDER BY updated_at DESC')
+      .all() as DbSessionRow[];
+    const isProtected = (row: DbSessionRow) => policy.keepPinned && row.pinned === 1;
+
+    // Sessions past the age or count limit
+    const expired: PruneReport['sessions'] = [];
+    let rank = 0;
+    for (const row of sessions) {
+      if (isProtected(row)) continue;
+      rank++;
+      if (
+        policy.maxAgeDays !== null &&
+        Date.parse(row.updated_at) < now - policy.maxAgeDays * DAY_MS
+      ) {
+        expired.push({ id: row.id, name: row.name, reason: 'age' });
+      } else if (policy.maxSessions !== null && rank > policy.maxSessions) {
+        expired.push({ id: row.id, name: row.name, reason: 'count' });
+      }
+    }
+    const expiredIds = new Set(expired.map((s) => s.id));
+    const remaining = sessions.filter((row) => !expiredIds.has(row.id));
+
+    // Page contexts beyond the per-session limit (expired sessions lose theirs anyway)
+    const excessContextsSql = `
+      SELECT id FROM (
+        SELECT id, session_id,
+          ROW_NUMBER() OVER (PARTITION BY session_id ORDER BY extracted_at DESC) AS position
+        FROM session_contexts
+      )
+      WHERE position > ? AND session_id NOT IN (SELECT value FROM json_each(?))
+    `;
+    const excessArgs = [policy.maxContextsPerSession, JSON.stringify([...expiredIds])];
+
+    // Image folders: those of expired sessions, and those nothing points to
+    const referenced = this.getReferencedImageFolders();
+    const remainingIds = new Set(remaining.map((row) => row.id));
+    let freedImageBytes = 0;
+    const orphanSessionDirs: string[] = [];
+    const orphanMessageDirs: Array<{ sessionId: string; folder: string }> = [];
+    const imageBytesBySession = new Map<string, number>();
+
+    for (const sessionId of this.listDirs(IMAGES_DIR)) {
+      const sessionDir = getSessionImagesDir(sessionId);
+      if (expiredIds.has(sessionId)) {
+        freedImageBytes += getDirectorySize(sessionDir);
+        continue;
+      }
+      if (!remainingIds.has(sessionId)) {
+        if (this.isPastGrace(sessionDir, now)) {
+          orphanSessionDirs.push(sessionId);
+          freedImageBytes += getDirectorySize(sessionDir);
+        }
+        continue;
+      }
+
+      let keptBytes = 0;
+      for (const folder of this.listDirs(sessionDir)) {
+        const folderPath = path.join(sessionDir, folder);
+        const size = getDirectorySize(folderPath);
+        if (!referenced.has(`${sessionId}/${folder}`) && this.isPastGrace(folderPath, now)) {
+          orphanMessageDirs.push({ sessionId, folder });
+          freedImageBytes += size;
+        } else {
+          keptBytes += size;
+        }
+      }
+      imageBytesBySession.set(sessionId, keptBytes);
+    }
+
+    // Drop images of the least recently updated sessions until under the disk limit
+    const imageSessions: string[] = [];
+    if (policy.maxImageMb !== null) {
+      const limit = policy.maxImageMb * 1024 * 1024;
+      let total = [...imageBytesBySession.values()].reduce((sum, bytes) => sum + bytes, 0);
+      for (const row of [...remaining].reverse()) {
+        if (total <= limit) break;
+        const bytes = imageBytesBySession.get(row.id) ?? 0;
+        if (bytes === 0 || isProtected(row)) continue;
+        imageSessions.push(row.id);
+        total -= bytes;
+        freedImageBytes += bytes;
+      }
+    }
+
+    let contexts: number;
+    if (dryRun) {
+      contexts = this.db.prepare(excessContextsSql).all(...excessArgs).length;
+    } else {
+      for (const session of expired) {
+        try {
+          await this.options.onSessionDeleted?.(session.id);
+        } catch (error) {
+          console.error(`[RetentionService] Cleanup hook failed for ${session.id}:`, error);
+        }
+        deleteSessionImages(session.id);
+        this.sessionService.deleteSession(session.id);
+      }
+      contexts = this.db
+        .prepare(`DELETE FROM session_contexts WHERE id IN (${excessContextsSql})`)
+        .run(...excessArgs).changes;
+      for (const sessionId of [...orphanSessionDirs, ...imageSessions]) {
+        deleteSessionImages(sessionId);
+      }
+      for (const { sessionId, folder } of orphanMessageDirs) {
+        deleteMessageImages(sessionId, folder);
+      }
+    }
+
+    const report: PruneReport = {
+      dryRun,
+      sessions: expired,
+      contexts,
+      imageSessions,
+      orphanedImageDirs: orphanSessionDirs.length + orphanMessageDirs.length,
+      freedImageBytes,
+    };
+
+    if (!dryRun) {
+      this.lastPrune = { ...report, at: new Date(now).toISOString() };
+      console.log(
+        `[RetentionService] Pruned ${expired.length} sessions, ${contexts} contexts, ${report.orphanedImageDirs} orphaned image folders`
+      );
+    }
+
+    return report;
+  }
+
+  /** `<sessionId>/<folder>` for every image folder a stored message points to */
+  private getReferencedImageFolders(): Set<string> {
+    const rows = this.db
+      .prepare("SELECT metadata FROM messages WHERE metadata LIKE '%/api/images/%'")
+      .all() as Array<{ metadata: string }>;
+
+    const folders = new Set<string>();
+    for (const row of rows) {
+      for (const match of row.metadata.matchAll(IMAGE_URL_PATTERN)) {
+        folders.add(`${match[1]}/${match[2]}`);
+      }
+    }
+    return folders;
+  }
+
+  private listDirs(dir: string): string[] {
+    try {
+      return fs
+        .readdirSync(dir, { withFileTypes: true })
+        .filter((entry) => entry.isDirectory())
+        .map((entry) => entry.name);
+    } catch {
+      return [];
+    }
+  }
+
+  private isPastGrace(dir: string, now: number): boolean {
+    try {
+      return fs.statSync(dir).mtimeMs < now - ORPHAN_GRACE_MS;
+    } catch {
+      return false;
+    }
+  }
+}
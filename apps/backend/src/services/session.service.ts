@@ -9,8 +9,11 @@ import type {
   CreateSessionRequest,
   Message,
   MessageMetadata,
+  MessageSearchResult,
+  MessageVariant,
   PaginatedResponse,
   Session,
+  SessionExport,
   SessionStatus,
   SessionType,
   UpdateSessionRequest,
@@ -23,11 +26,14 @@ interface DbSession {
   type: SessionType;
   status: SessionStatus;
   model: string;
+  provider: string;
   system_prompt: string | null;
   custom_agent: string | null;
   tone: string | null;
   explain_tradeoffs: number | null; // SQLite boolean as 0/1
   reasoning_effort: string | null; // 'low' | 'medium' | 'high'
+  workspace_roots: string | null; // JSON array of real paths
+  pinned: number; // SQLite boolean as 0/1
   message_count: number;
   created_at: string;
   updated_at: string;
@@ -40,6 +46,25 @@ interface DbMessage {
   content: string;
   timestamp: string;
   metadata: string | null;
+  parent_id: string | null;
+}
+
+interface DbSearchHit {
+  message_id: string;
+  session_id: string;
+  session_name: string;
+  role: 'user' | 'assistant' | 'system';
+  timestamp: string;
+  snippet: string;
+  rank: number;
+}
+
+/** Session filters; dates are ISO strings compared with `updated_at` */
+export interface SessionFilter {
+  type?: SessionType;
+  status?: SessionStatus;
+  updatedAfter?: string;
+  updatedBefore?: string;
 }
 
 export class SessionService {
@@ -54,7 +79,7 @@ export class SessionService {
 
     const stmt = this.db.prepare(`
       SELECT * FROM sessions 
-      ORDER BY updated_at DESC 
+      ORDER BY pinned DESC, updated_at DESC 
       LIMIT ? OFFSET ?
     `);
     const rows = stmt.all(pageSize, offset) as DbSession[];
@@ -68,6 +93,36 @@ export class SessionService {
     };
   }
 
+  /**
+   * All sessions matching the filter, most recently used first
+   */
+  findSessions(filter: SessionFilter = {}): Session[] {
+    const conditions: string[] = [];
+    const values: string[] = [];
+    if (filter.type) {
+      conditions.push('type = ?');
+      values.push(filter.type);
+    }
+    if (filter.status) {
+      conditions.push('status = ?');
+      values.push(filter.status);
+    }
+    if (filter.updatedAfter) {
+      conditions.push('updated_at >= ?');
+      values.push(filter.updatedAfter);
+    }
+    if (filter.updatedBefore) {
+      conditions.push('updated_at < ?');
+      values.push(filter.updatedBefore);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.db
+      .prepare(`SELECT * FROM sessions ${where} ORDER BY pinned DESC, updated_at DESC`)
+      .all(...values) as DbSession[];
+    return rows.map((row) => this.mapDbSession(row));
+  }
+
   getSession(id: string): Session | null {
     const stmt = this.db.prepare('SELECT * FROM sessions WHERE id = ?');
     const row = stmt.get(id) as DbSession | undefined;
@@ -81,8 +136,8 @@ export class SessionService {
     const model = request.model || getDefaultModel(request.type);
 
     const stmt = this.db.prepare(`
-      INSERT INTO sessions (id, name, type, model, system_prompt, custom_agent, tone, explain_tradeoffs, reasoning_effort, created_at, updated_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO sessions (id, name, type, model, provider, system_prompt, custom_agent, tone, explain_tradeoffs, reasoning_effort, workspace_roots, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
     stmt.run(
@@ -90,11 +145,13 @@ export class SessionService {
       request.name,
       request.type,
       model,
+      request.provider || 'copilot',
       request.systemPrompt || agentConfig?.prompt || null,
       agentConfig?.name || null,
       request.tone || 'balanced',
       request.explainTradeoffs ? 1 : 0,
       request.reasoningEffort || null,
+      JSON.stringify(request.workspaceRoots ?? []),
       now,
       now
     );
@@ -132,6 +189,15 @@ export class SessionService {
     if (request.reasoningEffort !== undefined) {
       updateFields.push({ sql: 'reasoning_effort = ?', value: request.reasoningEffort });
     }
+    if (request.workspaceRoots !== undefined) {
+      updateFields.push({
+        sql: 'workspace_roots = ?',
+        value: JSON.stringify(request.workspaceRoots),
+      });
+    }
+    if (request.pinned !== undefined) {
+      updateFields.push({ sql: 'pinned = ?', value: request.pinned ? 1 : 0 });
+    }
 
     if (updateFields.length === 0) return session;
 
@@ -147,6 +213,9 @@ export class SessionService {
   }
 
   deleteSession(id: string): boolean {
+    // The FTS index is not covered by the messages CASCADE
+    this.db.prepare('DELETE FROM messages_fts WHERE session_id = ?').run(id);
+
     const stmt = this.db.prepare('DELETE FROM sessions WHERE id = ?');
     const result = stmt.run(id);
     return result.changes > 0;
@@ -187,23 +256,263 @@ export class SessionService {
     };
   }
 
+  /**
+   * Full message history of a session, oldest first (for export and replay)
+   */
+  listAllMessages(sessionId: string): Message[] {
+    const stmt = this.db.prepare(`
+      SELECT * FROM messages
+      WHERE session_id = ?
+      ORDER BY timestamp ASC
+    `);
+    const rows = stmt.all(sessionId) as DbMessage[];
+    return rows.map((row) => this.mapDbMessage(row));
+  }
+
   addMessage(
     sessionId: string,
     role: 'user' | 'assistant' | 'system',
     content: string,
     metadata?: MessageMetadata
   ): Message {
-    const id = generateMessageId();
-    const timestamp = formatDate();
+    const message = this.insertMessage(
+      sessionId,
+      role,
+      content,
+      formatDate(),
+      metadata,
+      this.getLatestMessageId(sessionId)
+    );
+
+    this.incrementMessageCount(sessionId);
 
+    return message;
+  }
+
+  getMessage(messageId: string): Message | null {
+    const stmt = this.db.prepare('SELECT * FROM messages WHERE id = ?');
+    const row = stmt.get(messageId) as DbMessage | undefined;
+    return row ? this.mapDbMessage(row) : null;
+  }
+
+  /**
+   * Walk the parent chain from a message back to the start of its thread.
+   * Returns the thread oldest first, ending with the given message.
+   */
+  getThread(messageId: string): Message[] {
     const stmt = this.db.prepare(`
-      INSERT INTO messages (id, session_id, role, content, timestamp, metadata)
-      VALUES (?, ?, ?, ?, ?, ?)
+      WITH RECURSIVE thread(id, parent_id, depth) AS (
+        SELECT id, parent_id, 0 FROM messages WHERE id = ?
+        UNION ALL
+        SELECT m.id, m.parent_id, thread.depth + 1
+        FROM messages m
+        JOIN thread ON m.id = thread.parent_id
+      )
+      SELECT messages.* FROM thread
+      JOIN messages ON messages.id = thread.id
+      ORDER BY thread.depth DESC
     `);
+    const rows = stmt.all(messageId) as DbMessage[];
+    return rows.map((row) => this.mapDbMessage(row));
+  }
 
-    stmt.run(id, sessionId, role, content, timestamp, metadata ? JSON.stringify(metadata) : null);
+  /**
+   * Branch a conversation at a user message: creates a new session seeded with
+   * copies of the thread *before* that message. The original session is untouched.
+   */
+  forkSession(sessionId: string, messageId: string): { session: Session; messages: Message[] } {
+    const source = this.getSession(sessionId);
+    const target = this.getMessage(messageId);
 
-    this.incrementMessageCount(sessionId);
+    if (!source || !target || target.sessionId !== sessionId) {
+      throw new Error(`Message ${messageId} not found in session ${sessionId}`);
+    }
+
+    const history = target.parentId ? this.getThread(target.parentId) : [];
+
+    const runFork = this.db.transaction(() => {
+      const created = this.createSession({
+        name: `${source.name.slice(0, 93)} (fork)`,
+        type: source.type,
+        model: source.model,
+        provider: source.provider,
+        systemPrompt: source.systemPrompt,
+        tone: source.tone,
+        explainTradeoffs: source.explainTradeoffs,
+        reasoningEffort: source.reasoningEffort,
+        workspaceRoots: source.workspaceRoots,
+      });
+
+      const messages = this.copyMessages(created.id, history);
+
+      return { sessionId: created.id, messages };
+    });
+
+    const { sessionId: forkedId, messages } = runFork();
+    const session = this.getSession(forkedId);
+
+    if (!session) {
+      throw new Error(`Failed to load forked session: ${forkedId}`);
+    }
+
+    return { session, messages };
+  }
+
+  /**
+   * Recreate a session and its full message history from a JSON export.
+   * Message timestamps are preserved; the session gets a fresh ID.
+   */
+  importSession(data: SessionExport): { session: Session; messages: Message[] } {
+    const runImport = this.db.transaction(() => {
+      const created = this.createSession({
+        name: data.session.name,
+        type: data.session.type,
+        model: data.session.model,
+        provider: data.session.provider,
+        systemPrompt: data.session.systemPrompt,
+        tone: data.session.tone,
+        explainTradeoffs: data.session.explainTradeoffs,
+        reasoningEffort: data.session.reasoningEffort,
+      });
+
+      const messages = this.copyMessages(created.id, data.messages);
+
+      return { sessionId: created.id, messages };
+    });
+
+    const { sessionId, messages } = runImport();
+    const session = this.getSession(sessionId);
+
+    if (!session) {
+      throw new Error(`Failed to load imported session: ${sessionId}`);
+    }
+
+    return { session, messages };
+  }
+
+  updateMessageContent(messageId: string, content: string): void {
+    const stmt = this.db.prepare('UPDATE messages SET content = ? WHERE id = ?');
+    stmt.run(content, messageId);
+
+    this.db
+      .prepare('UPDATE messages_fts SET content = ? WHERE message_id = ?')
+      .run(content, messageId);
+  }
+
+  updateMessageMetadata(messageId: string, metadata: Record<string, unknown>): void {
+    const stmt = this.db.prepare('UPDATE messages SET metadata = ? WHERE id = ?');
+    stmt.run(JSON.stringify(metadata), messageId);
+  }
+
+  /**
+   * Record a regenerated response on an assistant message and make it the visible content.
+   * The first regeneration also captures the original response as variant 0.
+   */
+  addMessageVariant(messageId: string, content: string, model?: string): Message {
+    const message = this.getMessage(messageId);
+    if (!message) {
+      throw new Error(`Message not found: ${messageId}`);
+    }
+
+    const variants: MessageVariant[] = message.metadata?.variants ?? [
+      { content: message.content, timestamp: message.timestamp },
+    ];
+    variants.push({ content, model, timestamp: formatDate() });
+
+    return this.applyVariant(message, variants, variants.length - 1);
+  }
+
+  /**
+   * Switch which stored variant an assistant message shows
+   */
+  selectMessageVariant(messageId: string, index: number): Message {
+    const message = this.getMessage(messageId);
+    const variants = message?.metadata?.variants;
+
+    if (!message || !variants?.[index]) {
+      throw new Error(`Variant ${index} not found for message ${messageId}`);
+    }
+
+    return this.applyVariant(message, variants, index);
+  }
+
+  private applyVariant(message: Message, variants: MessageVariant[], index: number): Message {
+    const metadata = { ...message.metadata, variants, activeVariant: index };
+
+    this.db.transaction(() => {
+      this.updateMessageContent(message.id, variants[index].content);
+      this.updateMessageMetadata(message.id, metadata);
+    })();
+
+    return { ...message, content: variants[index].content, metadata };
+  }
+
+  // ============================================================================
+  // Search
+  // ============================================================================
+
+  /**
+   * Full-text search across all message content, best matches first.
+   * Matched terms in the snippet are wrapped in <mark></mark>.
+   */
+  searchMessages(query: string, limit = 20): MessageSearchResult[] {
+    const ftsQuery = this.buildFtsQuery(query);
+    if (!ftsQuery) return [];
+
+    const stmt = this.db.prepare(`
+      SELECT
+        messages_fts.message_id,
+        messages_fts.session_id,
+        sessions.name AS session_name,
+        messages.role,
+        messages.timestamp,
+        snippet(messages_fts, 0, '<mark>', '</mark>', '…', 16) AS snippet,
+        bm25(messages_fts) AS rank
+      FROM messages_fts
+      JOIN messages ON messages.id = messages_fts.message_id
+      JOIN sessions ON sessions.id = messages_fts.session_id
+      WHERE messages_fts MATCH ?
+      ORDER BY rank
+      LIMIT ?
+    `);
+    const rows = stmt.all(ftsQuery, limit) as DbSearchHit[];
+
+    return rows.map((row) => ({
+      messageId: row.message_id,
+      sessionId: row.session_id,
+      sessionName: row.session_name,
+      role: row.role,
+      timestamp: row.timestamp,
+      snippet: row.snippet,
+      rank: row.rank,
+    }));
+  }
+
+  private insertMessage(
+    sessionId: string,
+    role: 'user' | 'assistant' | 'system',
+    content: string,
+    timestamp: string,
+    metadata?: MessageMetadata,
+    parentId?: string | null
+  ): Message {
+    const id = generateMessageId();
+
+    const stmt = this.db.prepare(`
+      INSERT INTO messages (id, session_id, role, content, timestamp, metadata, parent_id)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    stmt.run(
+      id,
+      sessionId,
+      role,
+      content,
+      timestamp,
+      metadata ? JSON.stringify(metadata) : null,
+      parentId || null
+    );
+    this.indexMessage(id, sessionId, content);
 
     return {
       id,
@@ -212,17 +521,70 @@ export class SessionService {
       content,
       timestamp,
       metadata,
+      parentId: parentId || undefined,
     };
   }
 
-  updateMessageContent(messageId: string, content: string): void {
-    const stmt = this.db.prepare('UPDATE messages SET content = ? WHERE id = ?');
-    stmt.run(content, messageId);
+  /**
+   * Append copies of existing messages (keeping timestamps) as one thread in a session
+   */
+  private copyMessages(
+    sessionId: string,
+    source: Array<Pick<Message, 'role' | 'content' | 'timestamp' | 'metadata'>>
+  ): Message[] {
+    const copies: Message[] = [];
+    let parentId: string | undefined;
+
+    for (const message of source) {
+      const copy = this.insertMessage(
+        sessionId,
+        message.role,
+        message.content,
+        message.timestamp,
+        message.metadata,
+        parentId
+      );
+      copies.push(copy);
+      parentId = copy.id;
+    }
+
+    this.db
+      .prepare('UPDATE sessions SET message_count = ?, updated_at = ? WHERE id = ?')
+      .run(copies.length, formatDate(), sessionId);
+
+    return copies;
   }
 
-  updateMessageMetadata(messageId: string, metadata: Record<string, unknown>): void {
-    const stmt = this.db.prepare('UPDATE messages SET metadata = ? WHERE id = ?');
-    stmt.run(JSON.stringify(metadata), messageId);
+  private getLatestMessageId(sessionId: string): string | null {
+    const stmt = this.db.prepare(`
+      SELECT id FROM messages
+      WHERE session_id = ?
+      ORDER BY timestamp DESC, rowid DESC
+      LIMIT 1
+    `);
+    const row = stmt.get(sessionId) as { id: string } | undefined;
+    return row?.id ?? null;
+  }
+
+  private indexMessage(messageId: string, sessionId: string, content: string): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO messages_fts (content, message_id, session_id)
+      VALUES (?, ?, ?)
+    `);
+    stmt.run(content, messageId, sessionId);
+  }
+
+  /**
+   * Turn free-form user input into a safe FTS5 query: every word is quoted
+   * (so operators and punctuation are treated literally) and prefix-matched.
+   */
+  private buildFtsQuery(query: string): string {
+    return query
+      .split(/\s+/)
+      .map((term) => term.replaceAll('"', ''))
+      .filter((term) => term.length > 0)
+      .map((term) => `"${term}"*`)
+      .join(' ');
   }
 
   // ============================================================================
@@ -342,6 +704,23 @@ export class SessionService {
     }));
   }
 
+  /**
+   * Get the context persisted alongside a message, if any
+   */
+  getMessageContext(messageId: string): { id: string; contextJson: string } | null {
+    const stmt = this.db.prepare(`
+      SELECT id, context_json
+      FROM session_contexts
+      WHERE message_id = ?
+      ORDER BY extracted_at DESC
+      LIMIT 1
+    `);
+
+    const row = stmt.get(messageId) as { id: string; context_json: string } | undefined;
+
+    return row ? { id: row.id, contextJson: row.context_json } : null;
+  }
+
   /**
    * Get a specific context by ID
    */
@@ -414,11 +793,14 @@ export class SessionService {
       type: row.type,
       status: row.status,
       model: row.model,
+      provider: (row.provider as Session['provider']) || 'copilot',
       systemPrompt: row.system_prompt || undefined,
       customAgent: row.custom_agent || undefined,
       tone: (row.tone as Session['tone']) || undefined,
       explainTradeoffs: this.mapDbBoolean(row.explain_tradeoffs),
       reasoningEffort: (row.reasoning_effort as Session['reasoningEffort']) || undefined,
+      workspaceRoots: row.workspace_roots ? JSON.parse(row.workspace_roots) : [],
+      pinned: row.pinned === 1,
       messageCount: row.message_count,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
@@ -444,6 +826,7 @@ export class SessionService {
       content: row.content,
       timestamp: row.timestamp,
       metadata,
+      parentId: row.parent_id || undefined,
     };
   }
 
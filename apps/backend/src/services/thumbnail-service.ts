@@ -237,6 +237,30 @@ export function getThumbnailFilePath(
   return fileExists(thumbnailPath) ? thumbnailPath : null;
 }
 
+/**
+ * Read a stored thumbnail as a base64 data URL (used to inline images in exports)
+ *
+ * @param sessionId - The session ID
+ * @param messageId - The message ID
+ * @param index - The image index
+ * @returns JPEG data URL, or null if the thumbnail is missing
+ */
+export function readThumbnailDataUrl(
+  sessionId: string,
+  messageId: string,
+  index: number
+): string | null {
+  const thumbnailPath = getThumbnailFilePath(sessionId, messageId, index);
+  if (!thumbnailPath) return null;
+
+  try {
+    return `data:image/jpeg;base64,${fs.readFileSync(thumbnailPath).toString('base64')}`;
+  } catch (error) {
+    console.error(`[ThumbnailService] Failed to read thumbnail ${thumbnailPath}:`, error);
+    return null;
+  }
+}
+
 /**
  * Delete all images for a session (cleanup)
  *
@@ -0,0 +1,163 @@
+import { formatDate, generateId } from '@devmentorai/shared';
+import type {
+  LlmProviderId,
+  UsageGroup,
+  UsageGroupBy,
+  UsageQuery,
+  UsageReport,
+  UsageTotals,
+} from '@devmentorai/shared';
+import type { Database } from 'better-sqlite3';
+
+export interface RecordUsageInput {
+  sessionId: string;
+  messageId?: string;
+  provider: LlmProviderId;
+  model: string;
+  /** Premium requests one prompt costs on this model (0 for free models and other providers) */
+  pricingMultiplier: number;
+  promptChars: number;
+  responseChars: number;
+  durationMs: number;
+  toolCalls: number;
+  /** Quick action the prompt came from, if any */
+  action?: string;
+}
+
+interface DbUsageTotals {
+  messages: number;
+  premium_requests: number | null;
+  prompt_chars: number | null;
+  response_chars: number | null;
+  duration_ms: number | null;
+  tool_calls: number | null;
+}
+
+interface DbUsageGroup extends DbUsageTotals {
+  key: string;
+  label: string | null;
+}
+
+const GROUP_COLUMNS: Record<UsageGroupBy, { key: string; label: string }> = {
+  session: { key: 'u.session_id', label: 'MAX(s.name)' },
+  model: { key: 'u.model', label: 'u.model' },
+  day: { key: 'substr(u.created_at, 1, 10)', label: 'substr(u.created_at, 1, 10)' },
+  action: { key: "COALESCE(u.action, 'chat')", label: "COALESCE(u.action, 'chat')" },
+};
+
+const TOTALS_SQL = `
+  COUNT(*) AS messages,
+  SUM(u.pricing_multiplier) AS premium_requests,
+  SUM(u.prompt_chars) AS prompt_chars,
+  SUM(u.response_chars) AS response_chars,
+  SUM(u.duration_ms) AS duration_ms,
+  SUM(u.tool_calls) AS tool_calls
+`;
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+export class UsageService {
+  constructor(private readonly db: Database) {}
+
+  recordUsage(input: RecordUsageInput): void {
+    this.db
+      .prepare(`
+        INSERT INTO usage (id, session_id, message_id, provider, model, pricing_multiplier, prompt_chars, response_chars, duration_ms, tool_calls, action, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `)
+      .run(
+        generateId('usage'),
+        input.sessionId,
+        input.messageId || null,
+        input.provider,
+        input.model,
+        input.pricingMultiplier,
+        input.promptChars,
+        input.responseChars,
+        Math.round(input.durationMs),
+        input.toolCalls,
+        input.action || null,
+        formatDate()
+      );
+  }
+
+  /**
+   * Aggregate usage between two dates. Days are UTC, matching the stored timestamps.
+   * Day groups are listed chronologically, everything else by premium requests.
+   */
+  getUsage(query: UsageQuery = {}): UsageReport {
+    const groupBy = query.groupBy ?? 'session';
+    const { where, params } = this.buildRange(query);
+    const columns = GROUP_COLUMNS[groupBy];
+    const order = groupBy === 'day' ? 'key ASC' : 'premium_requests DESC, messages DESC, key ASC';
+
+    const totals = this.db
+      .prepare(`SELECT ${TOTALS_SQL} FROM usage u ${where}`)
+      .get(...params) as DbUsageTotals;
+
+    const groups = this.db
+      .prepare(`
+        SELECT ${columns.key} AS key, ${columns.label} AS label, ${TOTALS_SQL}
+        FROM usage u
+        LEFT JOIN sessions s ON s.id = u.session_id
+        ${where}
+        GROUP BY key
+        ORDER BY ${order}
+      `)
+      .all(...params) as DbUsageGroup[];
+
+    return {
+      groupBy,
+      from: query.from,
+      to: query.to,
+      totals: this.mapTotals(totals),
+      groups: groups.map((row) => this.mapGroup(row, groupBy)),
+    };
+  }
+
+  private buildRange(query: UsageQuery): { where: string; params: string[] } {
+    const conditions: string[] = [];
+    const params: string[] = [];
+
+    if (query.from) {
+      conditions.push('u.created_at >= ?');
+      params.push(new Date(query.from).toISOString());
+    }
+    if (query.to) {
+      // A bare date means "up to the end of that day"
+      const end = new Date(query.to);
+      if (DATE_ONLY.test(query.to)) {
+        end.setUTCDate(end.getUTCDate() + 1);
+        conditions.push('u.created_at < ?');
+      } else {
+        conditions.push('u.created_at <= ?');
+      }
+      params.push(end.toISOString());
+    }
+
+    return {
+      where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '',
+      params,
+    };
+  }
+
+  private mapTotals(row: DbUsageTotals): UsageTotals {
+    return {
+      messages: row.messages,
+      // Multipliers like 0.33 add up to float noise
+      premiumRequests: Math.round((row.premium_requests ?? 0) * 100) / 100,
+      promptChars: row.prompt_chars ?? 0,
+      responseChars: row.response_chars ?? 0,
+      durationMs: row.duration_ms ?? 0,
+      toolCalls: row.tool_calls ?? 0,
+    };
+  }
+
+  private mapGroup(row: DbUsageGroup, groupBy: UsageGroupBy): UsageGroup {
+    return {
+      key: row.key,
+      label: row.label ?? (groupBy === 'session' ? 'Deleted session' : row.key),
+      ...this.mapTotals(row),
+    };
+  }
+}
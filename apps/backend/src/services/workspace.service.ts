@@ -0,0 +1,72 @@
+import type { ToolAccessDenial } from '@devmentorai/shared';
+import type { ToolContext } from '../tools/devops-tools.js';
+import { type WorkspaceAccessResult, checkWorkspaceAccess } from '../tools/workspace-access.js';
+import type { SessionService } from './session.service.js';
+
+type AccessDeniedListener = (denial: ToolAccessDenial) => void;
+
+/**
+ * Enforces each session's workspace roots for file tools and tells whoever is
+ * streaming the session when a tool was refused, so the user can widen access.
+ */
+export class WorkspaceService {
+  private readonly listeners: Map<string, Set<AccessDeniedListener>> = new Map();
+
+  constructor(private readonly sessionService: SessionService) {}
+
+  getRoots(sessionId: string): string[] {
+    return this.sessionService.getSession(sessionId)?.workspaceRoots ?? [];
+  }
+
+  /**
+   * Check a path for a session, reporting denials to the session's listeners
+   */
+  async checkAccess(
+    sessionId: string,
+    requestedPath: string,
+    toolName: string,
+    toolCallId?: string
+  ): Promise<WorkspaceAccessResult> {
+    const result = await checkWorkspaceAccess(requestedPath, this.getRoots(sessionId));
+
+    if (!result.allowed) {
+      console.log(`[WorkspaceService] ${toolName} denied ${result.reason}: ${requestedPath}`);
+      const denial: ToolAccessDenial = {
+        toolName,
+        toolCallId,
+        path: requestedPath,
+        reason: result.reason,
+        suggestedRoot: result.suggestedRoot,
+      };
+      for (const listener of this.listeners.get(sessionId) ?? []) {
+        listener(denial);
+      }
+    }
+
+    return result;
+  }
+
+  createToolContext(sessionId: string, toolName: string, toolCallId?: string): ToolContext {
+    return {
+      checkPathAccess: (requestedPath) =>
+        this.checkAccess(sessionId, requestedPath, toolName, toolCallId),
+    };
+  }
+
+  /**
+   * Listen for denied tool calls in a session. Returns an unsubscribe function.
+   */
+  onAccessDenied(sessionId: string, listener: AccessDeniedListener): () => void {
+    let sessionListeners = this.listeners.get(sessionId);
+    if (!sessionListeners) {
+      sessionListeners = new Set();
+      this.listeners.set(sessionId, sessionListeners);
+    }
+    sessionListeners.add(listener);
+
+    return () => {
+      sessionListeners.delete(listener);
+      if (sessionListeners.size === 0) this.listeners.delete(sessionId);
+    };
+  }
+}
@@ -0,0 +1,188 @@
+/**
+ * Config analysis engine: parses a file by type, runs the rules for that type
+ * and returns findings with rule IDs and positions, plus a Markdown report for
+ * the model.
+ */
+
+import type {
+  ConfigAnalysisResult,
+  ConfigFinding,
+  ConfigType,
+  FindingSeverity,
+} from '@devmentorai/shared';
+import { looksLikeDockerfile, parseDockerfile } from './dockerfile.js';
+import { looksLikeTerraform, parseHcl } from './hcl.js';
+import { cloudFormationRules, isCloudFormationTemplate } from './rules/cloudformation.js';
+import { dockerRules } from './rules/docker.js';
+import { githubActionsRules, isGitHubWorkflow } from './rules/github-actions.js';
+import { isKubernetesManifest, kubernetesRules } from './rules/kubernetes.js';
+import { terraformRules } from './rules/terraform.js';
+import type { ConfigRule, ParseError, RuleMatch } from './types.js';
+import { parseYamlDocuments } from './yaml.js';
+
+export const CONFIG_TYPES: ConfigType[] = [
+  'kubernetes',
+  'docker',
+  'terraform',
+  'cloudformation',
+  'github-actions',
+];
+
+/** Every built-in rule. Each runs only on its own config type. */
+export const BUILTIN_RULES: ConfigRule<unknown>[] = [
+  ...kubernetesRules,
+  ...dockerRules,
+  ...terraformRules,
+  ...cloudFormationRules,
+  ...githubActionsRules,
+];
+
+export interface AnalyzeConfigOptions {
+  /** Rules loaded from `~/.devmentorai/rules/`, run after the built-in ones */
+  userRules?: ConfigRule<unknown>[];
+  /** IDs of rules to skip */
+  disabledRules?: string[];
+}
+
+const SEVERITY_ORDER: FindingSeverity[] = ['error', 'warning', 'info'];
+
+/**
+ * Work out the type from the content, or null when it isn't one we know
+ */
+export function detectConfigType(content: string): ConfigType | null {
+  if (looksLikeDockerfile(content)) return 'docker';
+  if (looksLikeTerraform(content)) return 'terraform';
+
+  const { documents } = parseYamlDocuments(content);
+  for (const doc of documents) {
+    if (isKubernetesManifest(doc.data)) return 'kubernetes';
+    if (isCloudFormationTemplate(doc.data)) return 'cloudformation';
+    if (isGitHubWorkflow(doc.data)) return 'github-actions';
+  }
+  return null;
+}
+
+function runRules<T>(rules: ConfigRule<T>[], input: T, document?: number): ConfigFinding[] {
+  return rules.flatMap((rule) => {
+    let matches: RuleMatch[];
+    try {
+      matches = rule.check(input);
+    } catch (error) {
+      // A broken rule shouldn't hide the other findings
+      console.error(`[ConfigAnalysis] Rule ${rule.id} failed:`, error);
+      return [];
+    }
+    return matches.map((match) => ({
+      ruleId: rule.id,
+      severity: rule.severity,
+      message: match.message,
+      line: match.line,
+      column: match.column,
+      ...(document !== undefined && { document }),
+      ...(match.fix && { fix: match.fix }),
+    }));
+  });
+}
+
+function parseFinding(error: ParseError, document?: number): ConfigFinding {
+  return {
+    ruleId: 'PARSE',
+    severity: 'error',
+    message: `Syntax error: ${error.message}`,
+    line: error.line,
+    column: error.column,
+    ...(document !== undefined && { document }),
+  };
+}
+
+/**
+ * Analyze `content` as `type`, detecting the type when it is `auto`.
+ * Returns null when the type can't be detected.
+ */
+export function analyzeConfig(
+  content: string,
+  type: ConfigType | 'auto' = 'auto',
+  options: AnalyzeConfigOptions = {}
+): ConfigAnalysisResult | null {
+  const configType = type === 'auto' ? detectConfigType(content) : type;
+  if (!configType) return null;
+
+  const disabled = new Set(options.disabledRules);
+  const rules = [...BUILTIN_RULES, ...(options.userRules ?? [])].filter(
+    (rule) => rule.configType === configType && !disabled.has(rule.id)
+  );
+
+  let findings: ConfigFinding[];
+  let documents: number;
+
+  if (configType === 'docker') {
+    const dockerfile = parseDockerfile(content);
+    documents = dockerfile.stages.length;
+    findings = runRules(rules, dockerfile);
+  } else if (configType === 'terraform') {
+    const { body, error } = parseHcl(content);
+    documents = 1;
+    findings = error ? [parseFinding(error)] : runRules(rules, body);
+  } else {
+    const parsed = parseYamlDocuments(content);
+    // Number documents only when there is more than one
+    const multiple = parsed.documents.length + parsed.errors.length > 1;
+    documents = parsed.documents.length;
+    findings = [
+      ...parsed.errors.map((error) =>
+        parseFinding(error, multiple ? error.document + 1 : undefined)
+      ),
+      ...parsed.documents.flatMap((doc) =>
+        runRules(rules, doc, multiple ? doc.index + 1 : undefined)
+      ),
+    ];
+  }
+
+  findings.sort(
+    (a, b) => (a.document ?? 0) - (b.document ?? 0) || a.line - b.line || a.column - b.column
+  );
+
+  const summary: Record<FindingSeverity, number> = { error: 0, warning: 0, info: 0 };
+  for (const finding of findings) {
+    summary[finding.severity]++;
+  }
+
+  const result = { configType, documents, findings, summary, report: '' };
+  result.report = formatConfigReport(result);
+  return result;
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Markdown report of an analysis, most severe findings first
+ */
+export function formatConfigReport(result: Omit<ConfigAnalysisResult, 'report'>): string {
+  const { configType, documents, findings, summary } = result;
+  const unit = configType === 'docker' ? 'stage' : configType === 'terraform' ? 'file' : 'document';
+
+  let report = `## Configuration Analysis (${configType})\n\n`;
+  report += `${plural(documents, unit)} checked: ${plural(summary.error, 'error')}, ${plural(summary.warning, 'warning')}, ${summary.info} info\n\n`;
+
+  if (findings.length === 0) {
+    return `${report}### ✅ No Issues Found\n`;
+  }
+
+  report += '### ⚠️ Issues Found\n';
+  const ordered = [...findings].sort(
+    (a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity)
+  );
+  ordered.forEach((finding, i) => {
+    const where = `line ${finding.line}, col ${finding.column}${finding.document ? `, document ${finding.document}` : ''}`;
+    report += `${i + 1}. **${finding.ruleId}** (${finding.severity}, ${where}): ${finding.message}\n`;
+    if (finding.fix?.includes('\n')) {
+      const snippet = finding.fix.split('\n').map((line) => `   ${line}`);
+      report += `   Fix:\n   \`\`\`\n${snippet.join('\n')}\n   \`\`\`\n`;
+    } else if (finding.fix) {
+      report += `   Fix: ${finding.fix}\n`;
+    }
+  });
+  return report;
+}
@@ -0,0 +1,113 @@
+/**
+ * Dockerfile parsing: instructions with their line numbers, split into build
+ * stages. Comments and line continuations are handled the way BuildKit does.
+ */
+
+export interface DockerInstruction {
+  /** Upper-cased, e.g. `RUN` */
+  keyword: string;
+  /** Everything after the keyword, continuations joined with spaces */
+  args: string;
+  line: number;
+  column: number;
+}
+
+export interface DockerStage {
+  /** The image, e.g. `node:20-alpine` */
+  image: string;
+  /** Name from `FROM ... AS <name>` */
+  name?: string;
+  from: DockerInstruction;
+  /** Instructions after FROM, up to the next FROM */
+  instructions: DockerInstruction[];
+}
+
+export interface Dockerfile {
+  instructions: DockerInstruction[];
+  stages: DockerStage[];
+}
+
+const HEREDOC_PATTERN = /<<-?["']?([A-Za-z_][\w-]*)["']?/g;
+
+export function parseDockerfile(content: string): Dockerfile {
+  const lines = content.split(/\r?\n/);
+  // `# escape=` parser directive at the top of the file
+  const escapeChar = /^#\s*escape\s*=\s*`/i.test(lines[0] ?? '') ? '`' : '\\';
+  const instructions: DockerInstruction[] = [];
+
+  let i = 0;
+  while (i < lines.length) {
+    const raw = lines[i];
+    const trimmed = raw.trim();
+    if (!trimmed || trimmed.startsWith('#')) {
+      i++;
+      continue;
+    }
+
+    const line = i + 1;
+    const column = raw.length - raw.trimStart().length + 1;
+    let text = trimmed;
+    i++;
+    // Join continuation lines; blank and comment lines inside a continuation are dropped
+    while (text.endsWith(escapeChar) && i < lines.length) {
+      text = text.slice(0, -1).trimEnd();
+      const next = lines[i].trim();
+      i++;
+      if (!next || next.startsWith('#')) {
+        text += escapeChar;
+        continue;
+      }
+      text += ` ${next}`;
+    }
+    if (text.endsWith(escapeChar)) text = text.slice(0, -1).trimEnd();
+
+    const [keyword, ...rest] = text.split(/\s+/);
+    const args = rest.join(' ');
+
+    // RUN <<EOF ... EOF: the heredoc body belongs to the instruction
+    for (const match of args.matchAll(HEREDOC_PATTERN)) {
+      const terminator = match[1];
+      const body: string[] = [];
+      while (i < lines.length && lines[i].trim() !== terminator) {
+        body.push(lines[i]);
+        i++;
+      }
+      i++;
+      text += `\n${body.join('\n')}`;
+    }
+
+    instructions.push({
+      keyword: keyword.toUpperCase(),
+      args: text.slice(keyword.length).trim(),
+      line,
+      column,
+    });
+  }
+
+  const stages: DockerStage[] = [];
+  for (const instruction of instructions) {
+    if (instruction.keyword === 'FROM') {
+      const words = instruction.args.split(/\s+/).filter((word) => !word.startsWith('--'));
+      const asIndex = words.findIndex((word) => word.toUpperCase() === 'AS');
+      stages.push({
+        image: words[0] ?? '',
+        name: asIndex > 0 ? words[asIndex + 1] : undefined,
+        from: instruction,
+        instructions: [],
+      });
+    } else {
+      stages.at(-1)?.instructions.push(instruction);
+    }
+  }
+
+  return { instructions, stages };
+}
+
+/**
+ * Whether the first instruction, ignoring ARGs, is FROM
+ */
+export function looksLikeDockerfile(content: string): boolean {
+  const { instructions } = parseDockerfile(content);
+  const first = instructions.find((instruction) => instruction.keyword !== 'ARG');
+  return first?.keyword === 'FROM' && /^\S+/.test(first.args);
+}
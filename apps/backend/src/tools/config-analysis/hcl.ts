@@ -0,0 +1,295 @@
+/**
+ * A small HCL (Terraform) parser: blocks and attributes with their positions.
+ * Expressions aren't evaluated; rules get their tokens as text plus any string
+ * literals in them, which is what the checks need.
+ */
+
+import type { ParseError, Position } from './types.js';
+
+export interface HclExpression {
+  /** Tokens joined with spaces, comments removed */
+  text: string;
+  /** The expression as written, e.g. `var.workers` for display */
+  source: string;
+  /** Contents of every string literal and heredoc in the expression */
+  strings: string[];
+  /** Set when the expression is a single literal */
+  value?: string | number | boolean;
+}
+
+export interface HclAttribute extends Position {
+  name: string;
+  expression: HclExpression;
+}
+
+export interface HclBlock extends Position {
+  /** Block type, e.g. `resource` */
+  type: string;
+  /** e.g. `["aws_s3_bucket", "logs"]` */
+  labels: string[];
+  body: HclBody;
+}
+
+export interface HclBody {
+  attributes: HclAttribute[];
+  blocks: HclBlock[];
+}
+
+interface Token extends Position {
+  type: 'ident' | 'string' | 'heredoc' | 'number' | 'punct' | 'newline' | 'eof';
+  text: string;
+  /** Contents of strings and heredocs */
+  value?: string;
+  /** Where the token starts and ends in the source */
+  offset: number;
+  end: number;
+}
+
+class HclParseFailure {
+  constructor(readonly error: ParseError) {}
+}
+
+function fail(message: string, position: Position): never {
+  throw new HclParseFailure({ message, line: position.line, column: position.column });
+}
+
+const PUNCTUATION = ['...', '==', '!=', '<=', '>=', '=>', '&&', '||'];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let offset = 0;
+  let line = 1;
+  let column = 1;
+
+  const advance = (count: number) => {
+    for (let n = 0; n < count; n++) {
+      if (source[offset] === '\n') {
+        line++;
+        column = 1;
+      } else {
+        column++;
+      }
+      offset++;
+    }
+  };
+
+  // Skip a quoted string starting at `offset`, including `${ ... }` interpolations
+  const skipString = (start: Position) => {
+    advance(1);
+    while (offset < source.length) {
+      const char = source[offset];
+      if (char === '\\') {
+        advance(2);
+      } else if (char === '"') {
+        advance(1);
+        return;
+      } else if (char === '\n') {
+        fail('Unterminated string', start);
+      } else if ((char === '$' || char === '%') && source[offset + 1] === '{') {
+        advance(2);
+        let depth = 1;
+        while (offset < source.length && depth > 0) {
+          if (source[offset] === '"') {
+            skipString({ line, column });
+            continue;
+          }
+          if (source[offset] === '{') depth++;
+          if (source[offset] === '}') depth--;
+          advance(1);
+        }
+      } else {
+        advance(1);
+      }
+    }
+    fail('Unterminated string', start);
+  };
+
+  while (offset < source.length) {
+    const char = source[offset];
+    const start = { line, column, offset };
+    const rest = source.slice(offset, offset + 3);
+
+    if (char === ' ' || char === '\t' || char === '\r') {
+      advance(1);
+    } else if (char === '\n') {
+      advance(1);
+      tokens.push({ type: 'newline', text: '\n', ...start, end: offset });
+    } else if (char === '#' || rest.startsWith('//')) {
+      while (offset < source.length && source[offset] !== '\n') advance(1);
+    } else if (rest.startsWith('/*')) {
+      const end = source.indexOf('*/', offset + 2);
+      if (end === -1) fail('Unterminated comment', start);
+      advance(end + 2 - offset);
+    } else if (char === '"') {
+      const from = offset;
+      skipString(start);
+      const text = source.slice(from, offset);
+      const value = text
+        .slice(1, -1)
+        .replace(/\\(["\\])/g, '$1')
+        .replace(/\\n/g, '\n');
+      tokens.push({ type: 'string', text, value, ...start, end: offset });
+    } else if (/^<<-?[A-Za-z_]/.test(rest)) {
+      const header = /^<<-?([A-Za-z_][\w-]*)[^\n]*\n?/.exec(source.slice(offset));
+      if (!header) fail('Invalid heredoc', start);
+      const terminator = header[1];
+      advance(header[0].length);
+      const bodyLines: string[] = [];
+      while (true) {
+        if (offset >= source.length) fail(`Heredoc is missing its ${terminator} line`, start);
+        const end = source.indexOf('\n', offset);
+        const current = source.slice(offset, end === -1 ? source.length : end);
+        advance(current.length);
+        if (current.trim() === terminator) break;
+        bodyLines.push(current);
+        if (end !== -1) advance(1);
+      }
+      const value = bodyLines.join('\n');
+      tokens.push({ type: 'heredoc', text: `<<${terminator}`, value, ...start, end: offset });
+    } else if (/[0-9]/.test(char)) {
+      const match = /^[0-9]+(\.[0-9]+)?([eE][+-]?[0-9]+)?/.exec(source.slice(offset));
+      const text = match?.[0] ?? char;
+      advance(text.length);
+      tokens.push({ type: 'number', text, ...start, end: offset });
+    } else if (/[A-Za-z_]/.test(char)) {
+      const text = /^[A-Za-z_][\w-]*/.exec(source.slice(offset))?.[0] ?? char;
+      advance(text.length);
+      tokens.push({ type: 'ident', text, ...start, end: offset });
+    } else if ('{}[]()=,.:?!<>+-*/%&|'.includes(char)) {
+      const text = PUNCTUATION.find((punct) => rest.startsWith(punct)) ?? char;
+      advance(text.length);
+      tokens.push({ type: 'punct', text, ...start, end: offset });
+    } else {
+      fail(`Unexpected character "${char}"`, start);
+    }
+  }
+
+  tokens.push({ type: 'eof', text: '', line, column, offset, end: offset });
+  return tokens;
+}
+
+const OPENERS: Record<string, string> = { '{': '}', '[': ']', '(': ')' };
+
+function parseTokens(tokens: Token[], source: string): HclBody {
+  let index = 0;
+  const peek = () => tokens[index];
+  const next = () => tokens[index++];
+
+  const parseExpression = (equals: Token): HclExpression => {
+    const parts: Token[] = [];
+    const closers: string[] = [];
+    while (true) {
+      const token = peek();
+      if (token.type === 'eof') {
+        if (closers.length > 0) fail(`Missing "${closers.at(-1)}"`, parts[0] ?? equals);
+        break;
+      }
+      if (closers.length === 0 && (token.type === 'newline' || token.text === '}')) break;
+      next();
+      if (token.type === 'newline') continue;
+      if (token.type === 'punct' && OPENERS[token.text]) {
+        closers.push(OPENERS[token.text]);
+      } else if (token.type === 'punct' && token.text === closers.at(-1)) {
+        closers.pop();
+      }
+      parts.push(token);
+    }
+    if (parts.length === 0) fail('Missing value after "="', equals);
+
+    const expression: HclExpression = {
+      text: parts.map((part) => part.text).join(' '),
+      source: source.slice(parts[0].offset, parts[parts.length - 1].end),
+      strings: parts
+        .filter((part) => part.type === 'string' || part.type === 'heredoc')
+        .map((part) => part.value ?? ''),
+    };
+    if (parts.length === 1) {
+      const [only] = parts;
+      if (only.type === 'string' && !only.value?.includes('${')) expression.value = only.value;
+      if (only.type === 'number') expression.value = Number(only.text);
+      if (only.type === 'ident' && (only.text === 'true' || only.text === 'false')) {
+        expression.value = only.text === 'true';
+      }
+    }
+    return expression;
+  };
+
+  const parseBody = (opening?: Token): HclBody => {
+    const body: HclBody = { attributes: [], blocks: [] };
+    while (true) {
+      const token = next();
+      if (token.type === 'newline') continue;
+      if (token.type === 'eof') {
+        if (opening) fail('Block is missing its closing "}"', opening);
+        return body;
+      }
+      if (token.text === '}') {
+        if (opening) return body;
+        fail('Unexpected "}"', token);
+      }
+      if (token.type !== 'ident') {
+        fail(`Expected an attribute or block name, found "${token.text}"`, token);
+      }
+
+      const after = peek();
+      if (after.text === '=') {
+        next();
+        body.attributes.push({
+          name: token.text,
+          line: token.line,
+          column: token.column,
+          expression: parseExpression(after),
+        });
+        continue;
+      }
+
+      const labels: string[] = [];
+      while (peek().type === 'string' || peek().type === 'ident') {
+        const label = next();
+        labels.push(label.value ?? label.text);
+      }
+      const brace = next();
+      if (brace.text !== '{') {
+        fail(`Expected "{" or "=" after "${token.text}"`, brace);
+      }
+      body.blocks.push({
+        type: token.text,
+        labels,
+        line: token.line,
+        column: token.column,
+        body: parseBody(brace),
+      });
+    }
+  };
+
+  return parseBody();
+}
+
+/**
+ * Parse HCL source. On a syntax error, `body` is empty and `error` says where.
+ */
+export function parseHcl(source: string): { body: HclBody; error?: ParseError } {
+  try {
+    return { body: parseTokens(tokenize(source), source) };
+  } catch (error) {
+    if (error instanceof HclParseFailure) {
+      return { body: { attributes: [], blocks: [] }, error: error.error };
+    }
+    throw error;
+  }
+}
+
+/** Every block in `body` and its nested blocks, depth first */
+export function walkBlocks(body: HclBody): HclBlock[] {
+  return body.blocks.flatMap((block) => [block, ...walkBlocks(block.body)]);
+}
+
+export function getAttribute(body: HclBody, name: string): HclAttribute | undefined {
+  return body.attributes.find((attribute) => attribute.name === name);
+}
+
+export function looksLikeTerraform(content: string): boolean {
+  return /^\s*(resource|provider|variable|terraform|module|data|output|locals)\b[^\n=]*\{/m.test(
+    content
+  );
+}
@@ -0,0 +1,152 @@
+/**
+ * CloudFormation template rules (YAML or JSON)
+ */
+
+import type { ConfigRule, RuleMatch } from '../types.js';
+import { type YamlDocument, asList, asMap } from '../yaml.js';
+
+/** Resource types that hold data a stack deletion would destroy */
+const STATEFUL_TYPES = new Set([
+  'AWS::RDS::DBInstance',
+  'AWS::RDS::DBCluster',
+  'AWS::S3::Bucket',
+  'AWS::DynamoDB::Table',
+  'AWS::EFS::FileSystem',
+  'AWS::EC2::Volume',
+  'AWS::ElastiCache::ReplicationGroup',
+  'AWS::OpenSearchService::Domain',
+]);
+
+const SECRET_NAME_PATTERN = /(password|passwd|secret|token|api_?key|private_?key)/i;
+const OPEN_CIDRS = new Set(['0.0.0.0/0', '::/0']);
+
+interface Resource {
+  logicalId: string;
+  type: string;
+  data: Record<string, unknown>;
+}
+
+function listResources(doc: YamlDocument): Resource[] {
+  const resources = asMap(asMap(doc.data)?.Resources) ?? {};
+  return Object.entries(resources).flatMap(([logicalId, value]) => {
+    const data = asMap(value);
+    return data && typeof data.Type === 'string' ? [{ logicalId, type: data.Type, data }] : [];
+  });
+}
+
+function statefulWithout(doc: YamlDocument, policy: string, fix: string): RuleMatch[] {
+  return listResources(doc)
+    .filter(({ type, data }) => STATEFUL_TYPES.has(type) && data[policy] === undefined)
+    .map(({ logicalId, type }) => ({
+      ...doc.locate(['Resources', logicalId]),
+      message: `${logicalId} (${type}) has no ${policy}, so its data is deleted with the ${policy === 'DeletionPolicy' ? 'stack' : 'resource when an update replaces it'}.`,
+      fix,
+    }));
+}
+
+export const cloudFormationRules: ConfigRule<YamlDocument>[] = [
+  {
+    id: 'CFN001',
+    configType: 'cloudformation',
+    severity: 'warning',
+    title: 'Stateful resource without DeletionPolicy',
+    check: (doc) =>
+      statefulWithout(
+        doc,
+        'DeletionPolicy',
+        'Add DeletionPolicy: Retain (or Snapshot where supported)'
+      ),
+  },
+  {
+    id: 'CFN002',
+    configType: 'cloudformation',
+    severity: 'info',
+    title: 'Stateful resource without UpdateReplacePolicy',
+    check: (doc) =>
+      statefulWithout(
+        doc,
+        'UpdateReplacePolicy',
+        'Add UpdateReplacePolicy: Retain next to DeletionPolicy'
+      ),
+  },
+  {
+    id: 'CFN003',
+    configType: 'cloudformation',
+    severity: 'info',
+    title: 'S3 bucket without encryption settings',
+    check: (doc) =>
+      listResources(doc)
+        .filter(
+          ({ type, data }) =>
+            type === 'AWS::S3::Bucket' && !asMap(data.Properties)?.BucketEncryption
+        )
+        .map(({ logicalId }) => ({
+          ...doc.locate(['Resources', logicalId]),
+          message: `${logicalId} has no BucketEncryption.`,
+          fix: 'Properties:\n  BucketEncryption:\n    ServerSideEncryptionConfiguration:\n      - ServerSideEncryptionByDefault:\n          SSEAlgorithm: aws:kms',
+        })),
+  },
+  {
+    id: 'CFN004',
+    configType: 'cloudformation',
+    severity: 'warning',
+    title: 'Secret parameter without NoEcho',
+    check: (doc) => {
+      const parameters = asMap(asMap(doc.data)?.Parameters) ?? {};
+      return Object.entries(parameters)
+        .filter(
+          ([name, value]) =>
+            SECRET_NAME_PATTERN.test(name) && String(asMap(value)?.NoEcho) !== 'true'
+        )
+        .map(([name]) => ({
+          ...doc.locate(['Parameters', name]),
+          message: `Parameter ${name} looks like a secret but doesn't set NoEcho, so the console and API show it.`,
+          fix: 'Add NoEcho: true, or resolve it from Secrets Manager with {{resolve:secretsmanager:...}}',
+        }));
+    },
+  },
+  {
+    id: 'CFN005',
+    configType: 'cloudformation',
+    severity: 'warning',
+    title: 'Ingress open to the internet',
+    check: (doc) =>
+      listResources(doc).flatMap(({ logicalId, type, data }) => {
+        const properties = asMap(data.Properties) ?? {};
+        const rules: Array<{ rule: Record<string, unknown>; path: Array<string | number> }> = [];
+        if (type === 'AWS::EC2::SecurityGroup') {
+          asList(properties.SecurityGroupIngress).forEach((item, index) => {
+            const rule = asMap(item);
+            if (rule) {
+              rules.push({
+                rule,
+                path: ['Resources', logicalId, 'Properties', 'SecurityGroupIngress', index],
+              });
+            }
+          });
+        } else if (type === 'AWS::EC2::SecurityGroupIngress') {
+          rules.push({ rule: properties, path: ['Resources', logicalId, 'Properties'] });
+        }
+        return rules
+          .filter(({ rule }) => OPEN_CIDRS.has(String(rule.CidrIp ?? rule.CidrIpv6)))
+          .map(({ rule, path }) => ({
+            ...doc.locate([...path, rule.CidrIp !== undefined ? 'CidrIp' : 'CidrIpv6']),
+            message: `${logicalId} allows ingress from anywhere (${String(rule.CidrIp ?? rule.CidrIpv6)}) on port ${String(rule.FromPort ?? 'any')}.`,
+            fix: 'Limit the source to known CIDR ranges or use SourceSecurityGroupId',
+          }));
+      }),
+  },
+];
+
+export function isCloudFormationTemplate(data: unknown): boolean {
+  const template = asMap(data);
+  if (!template) return false;
+  if (template.AWSTemplateFormatVersion !== undefined) return true;
+  const resources = asMap(template.Resources);
+  return (
+    !!resources &&
+    Object.values(resources).some((resource) =>
+      String(asMap(resource)?.Type ?? '').startsWith('AWS::')
+    )
+  );
+}
@@ -0,0 +1,216 @@
+/**
+ * Dockerfile rules
+ */
+
+import type { DockerInstruction, Dockerfile } from '../dockerfile.js';
+import type { ConfigRule, RuleMatch } from '../types.js';
+
+/** More RUN instructions than this in one stage is worth combining */
+const MAX_RUN_INSTRUCTIONS = 5;
+
+const SECRET_NAME_PATTERN = /(password|passwd|secret|token|api_?key|private_?key|credentials?)/i;
+const BUILD_TOOL_PATTERN =
+  /\b(npm (ci|install)|yarn( install)?|pnpm install|go build|mvn |gradle |cargo build|pip install)\b/;
+
+function at(instruction: DockerInstruction, message: string, fix?: string): RuleMatch {
+  return { line: instruction.line, column: instruction.column, message, fix };
+}
+
+/** Tag of an image reference, if it has one */
+function imageTag(image: string): string | undefined {
+  const lastSegment = image.split('/').at(-1) ?? image;
+  return lastSegment.includes(':') ? lastSegment.split(':').at(-1) : undefined;
+}
+
+export const dockerRules: ConfigRule<Dockerfile>[] = [
+  {
+    id: 'DOCKER001',
+    configType: 'docker',
+    severity: 'warning',
+    title: 'Base image uses :latest or no tag',
+    check: ({ stages }) => {
+      const stageNames = new Set(stages.map((stage) => stage.name?.toLowerCase()));
+      return stages.flatMap((stage) => {
+        const { image } = stage;
+        if (
+          image === 'scratch' ||
+          image.includes('$') ||
+          image.includes('@') ||
+          stageNames.has(image.toLowerCase())
+        ) {
+          return [];
+        }
+        const tag = imageTag(image);
+        if (tag && tag !== 'latest') return [];
+        return [
+          at(
+            stage.from,
+            `FROM ${image} uses ${tag ? 'the :latest tag' : 'no tag, which means :latest'}, so builds aren't reproducible.`,
+            `Pin a version, e.g. FROM ${image.split(':')[0]}:<version>`
+          ),
+        ];
+      });
+    },
+  },
+  {
+    id: 'DOCKER002',
+    configType: 'docker',
+    severity: 'warning',
+    title: 'Final image runs as root',
+    check: ({ stages }) => {
+      const final = stages.at(-1);
+      if (!final) return [];
+      const user = final.instructions
+        .filter((instruction) => instruction.keyword === 'USER')
+        .at(-1);
+      if (!user) {
+        return [
+          at(
+            final.from,
+            'The final stage has no USER instruction, so the container runs as root.',
+            'Add a non-root user, e.g.\nRUN useradd --uid 10001 app\nUSER app'
+          ),
+        ];
+      }
+      const name = user.args.split(':')[0];
+      if (name === 'root' || name === '0') {
+        return [
+          at(
+            user,
+            `USER ${user.args} runs the container as root.`,
+            'Switch to an unprivileged user'
+          ),
+        ];
+      }
+      return [];
+    },
+  },
+  {
+    id: 'DOCKER003',
+    configType: 'docker',
+    severity: 'info',
+    title: 'ADD used for local files',
+    check: ({ instructions }) =>
+      instructions
+        .filter((instruction) => instruction.keyword === 'ADD')
+        .filter((instruction) => {
+          const sources = instruction.args
+            .split(/\s+/)
+            .filter((word) => !word.startsWith('--'))
+            .slice(0, -1);
+          return !sources.some(
+            (source) => /^(https?|git):\/\//.test(source) || /\.(tar|tgz|gz|bz2|xz)$/.test(source)
+          );
+        })
+        .map((instruction) =>
+          at(
+            instruction,
+            'ADD copies local files but also extracts archives and fetches URLs; COPY does only what is needed.',
+            `Use COPY ${instruction.args}`
+          )
+        ),
+  },
+  {
+    id: 'DOCKER004',
+    configType: 'docker',
+    severity: 'info',
+    title: 'Whole build context copied',
+    check: ({ instructions }) =>
+      instructions
+        .filter(
+          (instruction) =>
+            instruction.keyword === 'COPY' &&
+            !instruction.args.includes('--from') &&
+            /(^|\s)\.\/?\s/.test(`${instruction.args} `)
+        )
+        .map((instruction) =>
+          at(
+            instruction,
+            'Copying the whole build context can pull in .git, node_modules or secrets and breaks layer caching.',
+            'Keep a .dockerignore, and copy dependency manifests first so installs stay cached'
+          )
+        ),
+  },
+  {
+    id: 'DOCKER005',
+    configType: 'docker',
+    severity: 'info',
+    title: 'Many RUN instructions in one stage',
+    check: ({ stages }) =>
+      stages.flatMap((stage) => {
+        const runs = stage.instructions.filter((instruction) => instruction.keyword === 'RUN');
+        if (runs.length <= MAX_RUN_INSTRUCTIONS) return [];
+        return [
+          at(
+            runs[MAX_RUN_INSTRUCTIONS],
+            `${runs.length} separate RUN instructions in this stage each add a layer.`,
+            'Combine related commands with && in one RUN'
+          ),
+        ];
+      }),
+  },
+  {
+    id: 'DOCKER006',
+    configType: 'docker',
+    severity: 'info',
+    title: 'apt-get lists left in the image',
+    check: ({ instructions }) =>
+      instructions
+        .filter(
+          (instruction) =>
+            instruction.keyword === 'RUN' &&
+            /apt-get\s+(-\S+\s+)*install/.test(instruction.args) &&
+            !instruction.args.includes('/var/lib/apt/lists')
+        )
+        .map((instruction) =>
+          at(
+            instruction,
+            'apt-get install leaves the package lists in this layer.',
+            'End the same RUN with: && rm -rf /var/lib/apt/lists/*'
+          )
+        ),
+  },
+  {
+    id: 'DOCKER007',
+    configType: 'docker',
+    severity: 'error',
+    title: 'Secret set with ENV or ARG',
+    check: ({ instructions }) =>
+      instructions
+        .filter((instruction) => instruction.keyword === 'ENV' || instruction.keyword === 'ARG')
+        .flatMap((instruction) => {
+          const name = instruction.args.split(/[=\s]/)[0];
+          const hasValue = /[=\s]\S/.test(instruction.args.slice(name.length));
+          if (!SECRET_NAME_PATTERN.test(name) || (instruction.keyword === 'ARG' && !hasValue)) {
+            return [];
+          }
+          return [
+            at(
+              instruction,
+              `${instruction.keyword} ${name} is kept in the image history, where anyone with the image can read it.`,
+              'Pass secrets at build time with RUN --mount=type=secret, or at runtime'
+            ),
+          ];
+        }),
+  },
+  {
+    id: 'DOCKER008',
+    configType: 'docker',
+    severity: 'info',
+    title: 'Build tools shipped in a single-stage image',
+    check: ({ stages }) => {
+      if (stages.length !== 1) return [];
+      const build = stages[0].instructions.find(
+        (instruction) => instruction.keyword === 'RUN' && BUILD_TOOL_PATTERN.test(instruction.args)
+      );
+      if (!build) return [];
+      return [
+        at(
+          build,
+          'The image builds in the same stage it ships from, so compilers and dev dependencies end up in it.',
+          'Use a multi-stage build: build in one stage, then COPY --from=build only the output'
+        ),
+      ];
+    },
+  },
+];
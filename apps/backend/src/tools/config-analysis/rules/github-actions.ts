@@ -0,0 +1,178 @@
+/**
+ * GitHub Actions workflow rules
+ */
+
+import type { ConfigRule, RuleMatch } from '../types.js';
+import { type YamlDocument, type YamlPath, asList, asMap } from '../yaml.js';
+
+/** Refs that move, so the action can change under the workflow */
+const BRANCH_REFS = new Set(['main', 'master', 'develop', 'dev', 'trunk', 'HEAD']);
+
+/** Event fields an outsider controls; inlined in `run`, they become shell code */
+const UNTRUSTED_INPUT_PATTERN =
+  /\$\{\{\s*github\.(event\.(issue|pull_request|comment|review|review_comment|discussion|head_commit|commits)[^}]*\.(title|body|message|name|email|ref|label)|head_ref)\s*\}\}/;
+
+const INSTALL_PATTERN =
+  /\b(npm (ci|install)|yarn( install)?|pnpm install|pip install|poetry install|go mod download)\b/;
+
+interface Step {
+  data: Record<string, unknown>;
+  path: YamlPath;
+}
+
+interface Job {
+  id: string;
+  data: Record<string, unknown>;
+  steps: Step[];
+}
+
+function listJobs(doc: YamlDocument): Job[] {
+  const jobs = asMap(asMap(doc.data)?.jobs) ?? {};
+  return Object.entries(jobs).flatMap(([id, value]) => {
+    const data = asMap(value);
+    if (!data) return [];
+    const steps = asList(data.steps).flatMap((step, index) => {
+      const stepData = asMap(step);
+      return stepData ? [{ data: stepData, path: ['jobs', id, 'steps', index] }] : [];
+    });
+    return [{ id, data, steps }];
+  });
+}
+
+function runSteps(doc: YamlDocument): Array<Step & { run: string }> {
+  return listJobs(doc).flatMap((job) =>
+    job.steps.flatMap((step) =>
+      typeof step.data.run === 'string' ? [{ ...step, run: step.data.run }] : []
+    )
+  );
+}
+
+export const githubActionsRules: ConfigRule<YamlDocument>[] = [
+  {
+    id: 'GHA001',
+    configType: 'github-actions',
+    severity: 'warning',
+    title: 'Action not pinned to a version',
+    check: (doc) =>
+      listJobs(doc).flatMap((job) => {
+        const uses: Array<{ value: string; path: YamlPath }> = job.steps
+          .filter((step) => typeof step.data.uses === 'string')
+          .map((step) => ({ value: step.data.uses as string, path: [...step.path, 'uses'] }));
+        // Reusable workflows are called from the job itself
+        if (typeof job.data.uses === 'string') {
+          uses.push({ value: job.data.uses, path: ['jobs', job.id, 'uses'] });
+        }
+
+        return uses
+          .filter(({ value }) => !value.startsWith('./') && !value.startsWith('docker://'))
+          .flatMap(({ value, path }): RuleMatch[] => {
+            const ref = value.includes('@') ? value.split('@').at(-1) : undefined;
+            if (ref && !BRANCH_REFS.has(ref)) return [];
+            return [
+              {
+                ...doc.locate(path),
+                message: `${value} has no version pinning${ref ? ` (@${ref} is a branch)` : ''}, so the code it runs can change at any time.`,
+                fix: `Pin a release tag or, better, a commit SHA: ${value.split('@')[0]}@<sha> # v4.2.2`,
+              },
+            ];
+          });
+      }),
+  },
+  {
+    id: 'GHA002',
+    configType: 'github-actions',
+    severity: 'error',
+    title: 'Secret printed in a run step',
+    check: (doc) =>
+      runSteps(doc)
+        .filter(({ run }) =>
+          run
+            .split('\n')
+            .some((line) => /\b(echo|printf|cat)\b/.test(line) && line.includes('${{ secrets.'))
+        )
+        .map((step) => ({
+          ...doc.locate([...step.path, 'run']),
+          message:
+            'A secret is echoed in a run step. Masking misses transformed values, so it can end up in the logs.',
+          fix: 'Pass the secret through env: and use it without printing it',
+        })),
+  },
+  {
+    id: 'GHA003',
+    configType: 'github-actions',
+    severity: 'info',
+    title: 'No explicit permissions',
+    check: (doc) => {
+      const workflow = asMap(doc.data) ?? {};
+      if (workflow.permissions !== undefined) return [];
+      return listJobs(doc)
+        .filter((job) => job.data.permissions === undefined)
+        .map((job) => ({
+          ...doc.locate(['jobs', job.id]),
+          message: `Job "${job.id}" gets the default GITHUB_TOKEN permissions, which may allow writes.`,
+          fix: 'Set least-privilege permissions at the top of the workflow, e.g.\npermissions:\n  contents: read',
+        }));
+    },
+  },
+  {
+    id: 'GHA004',
+    configType: 'github-actions',
+    severity: 'info',
+    title: 'Job has no timeout',
+    check: (doc) =>
+      listJobs(doc)
+        .filter((job) => job.data['timeout-minutes'] === undefined && job.data.uses === undefined)
+        .map((job) => ({
+          ...doc.locate(['jobs', job.id]),
+          message: `Job "${job.id}" has no timeout-minutes, so a stuck run keeps going for 6 hours.`,
+          fix: 'Add timeout-minutes: 15 (or whatever the job needs)',
+        })),
+  },
+  {
+    id: 'GHA005',
+    configType: 'github-actions',
+    severity: 'error',
+    title: 'Untrusted input inlined in a run step',
+    check: (doc) =>
+      runSteps(doc)
+        .filter(({ run }) => UNTRUSTED_INPUT_PATTERN.test(run))
+        .map((step) => ({
+          ...doc.locate([...step.path, 'run']),
+          message: `${UNTRUSTED_INPUT_PATTERN.exec(step.run)?.[0]} is inlined into a shell script; a crafted title or branch name can run commands.`,
+          fix: 'Pass it through env: (e.g. TITLE: ${{ github.event.issue.title }}) and use "$TITLE" in the script',
+        })),
+  },
+  {
+    id: 'GHA006',
+    configType: 'github-actions',
+    severity: 'info',
+    title: 'Dependencies installed without a cache',
+    check: (doc) =>
+      listJobs(doc).flatMap((job) => {
+        const install = job.steps.find(
+          (step) => typeof step.data.run === 'string' && INSTALL_PATTERN.test(step.data.run)
+        );
+        if (!install) return [];
+        const cached = job.steps.some((step) => {
+          const uses = typeof step.data.uses === 'string' ? step.data.uses : '';
+          return (
+            uses.startsWith('actions/cache') ||
+            (uses.startsWith('actions/setup-') && asMap(step.data.with)?.cache)
+          );
+        });
+        if (cached) return [];
+        return [
+          {
+            ...doc.locate([...install.path, 'run']),
+            message: `Job "${job.id}" downloads its dependencies on every run.`,
+            fix: 'Enable caching, e.g. with: cache: npm on actions/setup-node, or add actions/cache',
+          },
+        ];
+      }),
+  },
+];
+
+export function isGitHubWorkflow(data: unknown): boolean {
+  const workflow = asMap(data);
+  return !!asMap(workflow?.jobs) && (workflow?.on !== undefined || workflow?.true !== undefined);
+}
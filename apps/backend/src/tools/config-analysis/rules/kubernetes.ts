@@ -0,0 +1,289 @@
+/**
+ * Kubernetes manifest rules. Workloads are checked through their pod spec,
+ * wherever the kind keeps it.
+ */
+
+import type { ConfigRule, RuleMatch } from '../types.js';
+import { type YamlDocument, type YamlPath, asList, asMap } from '../yaml.js';
+
+/** Where each workload kind keeps its pod spec */
+const POD_SPEC_PATHS: Record<string, YamlPath> = {
+  Pod: ['spec'],
+  Deployment: ['spec', 'template', 'spec'],
+  StatefulSet: ['spec', 'template', 'spec'],
+  DaemonSet: ['spec', 'template', 'spec'],
+  ReplicaSet: ['spec', 'template', 'spec'],
+  ReplicationController: ['spec', 'template', 'spec'],
+  Job: ['spec', 'template', 'spec'],
+  CronJob: ['spec', 'jobTemplate', 'spec', 'template', 'spec'],
+};
+
+/** Kinds that run to completion, so health probes don't apply */
+const BATCH_KINDS = new Set(['Job', 'CronJob']);
+
+/** Cluster-wide kinds, which have no namespace */
+const CLUSTER_KINDS = new Set([
+  'Namespace',
+  'Node',
+  'PersistentVolume',
+  'StorageClass',
+  'ClusterRole',
+  'ClusterRoleBinding',
+  'CustomResourceDefinition',
+  'IngressClass',
+  'PriorityClass',
+  'MutatingWebhookConfiguration',
+  'ValidatingWebhookConfiguration',
+]);
+
+interface ContainerRef {
+  name: string;
+  data: Record<string, unknown>;
+  path: YamlPath;
+}
+
+interface Workload {
+  kind: string;
+  podSpec: Record<string, unknown>;
+  podSpecPath: YamlPath;
+  containers: ContainerRef[];
+}
+
+function getIn(value: unknown, path: YamlPath): unknown {
+  return path.reduce<unknown>((current, segment) => {
+    if (Array.isArray(current) && typeof segment === 'number') return current[segment];
+    return asMap(current)?.[segment as string];
+  }, value);
+}
+
+function getWorkload(doc: YamlDocument): Workload | undefined {
+  const kind = asMap(doc.data)?.kind;
+  if (typeof kind !== 'string' || !POD_SPEC_PATHS[kind]) return undefined;
+
+  const podSpecPath = POD_SPEC_PATHS[kind];
+  const podSpec = asMap(getIn(doc.data, podSpecPath));
+  if (!podSpec) return undefined;
+
+  const containers: ContainerRef[] = [];
+  for (const key of ['initContainers', 'containers']) {
+    asList(podSpec[key]).forEach((item, index) => {
+      const data = asMap(item);
+      if (!data) return;
+      containers.push({
+        name: typeof data.name === 'string' ? data.name : `${key}[${index}]`,
+        data,
+        path: [...podSpecPath, key, index],
+      });
+    });
+  }
+  return { kind, podSpec, podSpecPath, containers };
+}
+
+/** Run `check` for each container of a workload document */
+function forEachContainer(
+  doc: YamlDocument,
+  check: (container: ContainerRef, workload: Workload) => RuleMatch | undefined
+): RuleMatch[] {
+  const workload = getWorkload(doc);
+  if (!workload) return [];
+  return workload.containers
+    .map((container) => check(container, workload))
+    .filter((match): match is RuleMatch => Boolean(match));
+}
+
+function isLatestOrUntagged(image: string): boolean {
+  if (image.includes('@')) return false;
+  const lastSegment = image.split('/').at(-1) ?? image;
+  const tag = lastSegment.includes(':') ? lastSegment.split(':').at(-1) : undefined;
+  return !tag || tag === 'latest';
+}
+
+export const kubernetesRules: ConfigRule<YamlDocument>[] = [
+  {
+    id: 'KUBE001',
+    configType: 'kubernetes',
+    severity: 'warning',
+    title: 'Container image uses :latest or no tag',
+    check: (doc) =>
+      forEachContainer(doc, ({ name, data, path }) => {
+        const image = data.image;
+        if (typeof image !== 'string' || !isLatestOrUntagged(image)) return undefined;
+        return {
+          ...doc.locate([...path, 'image']),
+          message: `Container "${name}" uses ${image.includes(':') ? 'the :latest tag' : 'an untagged image'} (${image}), so each pull may run a different version.`,
+          fix: 'Pin a version tag or digest, e.g. image: nginx:1.27.2',
+        };
+      }),
+  },
+  {
+    id: 'KUBE002',
+    configType: 'kubernetes',
+    severity: 'warning',
+    title: 'Container has no resource limits',
+    check: (doc) =>
+      forEachContainer(doc, ({ name, data, path }) => {
+        if (asMap(asMap(data.resources)?.limits)) return undefined;
+        return {
+          ...doc.locate([...path, 'resources']),
+          message: `Container "${name}" has no resource limits, so it can use up its node's CPU and memory.`,
+          fix: 'Add resources.limits, e.g.\nresources:\n  limits:\n    cpu: 500m\n    memory: 256Mi',
+        };
+      }),
+  },
+  {
+    id: 'KUBE003',
+    configType: 'kubernetes',
+    severity: 'info',
+    title: 'Container has no resource requests',
+    check: (doc) =>
+      forEachContainer(doc, ({ name, data, path }) => {
+        if (asMap(asMap(data.resources)?.requests)) return undefined;
+        return {
+          ...doc.locate([...path, 'resources']),
+          message: `Container "${name}" has no resource requests, so the scheduler can't place it well.`,
+          fix: 'Add resources.requests with the CPU and memory it normally uses',
+        };
+      }),
+  },
+  {
+    id: 'KUBE004',
+    configType: 'kubernetes',
+    severity: 'error',
+    title: 'Container runs privileged',
+    check: (doc) =>
+      forEachContainer(doc, ({ name, data, path }) => {
+        if (asMap(data.securityContext)?.privileged !== true) return undefined;
+        return {
+          ...doc.locate([...path, 'securityContext', 'privileged']),
+          message: `Container "${name}" is privileged: it has full access to the node.`,
+          fix: 'Remove privileged: true and grant only the capabilities it needs (securityContext.capabilities.add)',
+        };
+      }),
+  },
+  {
+    id: 'KUBE005',
+    configType: 'kubernetes',
+    severity: 'warning',
+    title: 'Container may run as root',
+    check: (doc) =>
+      forEachContainer(doc, ({ name, data, path }, workload) => {
+        const container = asMap(data.securityContext) ?? {};
+        const pod = asMap(workload.podSpec.securityContext) ?? {};
+        const runAsUser = container.runAsUser ?? pod.runAsUser;
+        const runAsNonRoot = container.runAsNonRoot ?? pod.runAsNonRoot;
+        if (runAsUser === 0) {
+          return {
+            ...doc.locate([
+              ...(container.runAsUser !== undefined
+                ? [...path, 'securityContext']
+                : [...workload.podSpecPath, 'securityContext']),
+              'runAsUser',
+            ]),
+            message: `Container "${name}" runs as root (runAsUser: 0).`,
+            fix: 'Run as an unprivileged user, e.g. runAsUser: 10001 with runAsNonRoot: true',
+          };
+        }
+        if (runAsNonRoot === true || (typeof runAsUser === 'number' && runAsUser > 0)) {
+          return undefined;
+        }
+        return {
+          ...doc.locate([...path, 'name']),
+          message: `Container "${name}" doesn't set runAsNonRoot, so it runs as root if the image does.`,
+          fix: 'Add securityContext:\n  runAsNonRoot: true',
+        };
+      }),
+  },
+  {
+    id: 'KUBE006',
+    configType: 'kubernetes',
+    severity: 'info',
+    title: 'Container allows privilege escalation',
+    check: (doc) =>
+      forEachContainer(doc, ({ name, data, path }) => {
+        if (asMap(data.securityContext)?.allowPrivilegeEscalation === false) return undefined;
+        return {
+          ...doc.locate([...path, 'name']),
+          message: `Container "${name}" doesn't set allowPrivilegeEscalation: false.`,
+          fix: 'Add securityContext:\n  allowPrivilegeEscalation: false',
+        };
+      }),
+  },
+  {
+    id: 'KUBE007',
+    configType: 'kubernetes',
+    severity: 'info',
+    title: 'Long-running container has no health probes',
+    check: (doc) =>
+      forEachContainer(doc, ({ name, data, path }, workload) => {
+        if (BATCH_KINDS.has(workload.kind) || path.includes('initContainers')) return undefined;
+        if (data.livenessProbe || data.readinessProbe) return undefined;
+        return {
+          ...doc.locate([...path, 'name']),
+          message: `Container "${name}" has no liveness or readiness probe, so failures go unnoticed and traffic reaches it before it's ready.`,
+          fix: 'Add a readinessProbe (and a livenessProbe), e.g.\nreadinessProbe:\n  httpGet:\n    path: /healthz\n    port: 8080',
+        };
+      }),
+  },
+  {
+    id: 'KUBE008',
+    configType: 'kubernetes',
+    severity: 'info',
+    title: 'Namespaced resource has no namespace',
+    check: (doc) => {
+      const manifest = asMap(doc.data);
+      const kind = manifest?.kind;
+      if (!manifest || typeof kind !== 'string' || CLUSTER_KINDS.has(kind)) return [];
+      if (asMap(manifest.metadata)?.namespace) return [];
+      return [
+        {
+          ...doc.locate(['metadata']),
+          message: `${kind} has no metadata.namespace, so it lands in whatever namespace kubectl points at.`,
+          fix: 'Set metadata.namespace explicitly',
+        },
+      ];
+    },
+  },
+  {
+    id: 'KUBE009',
+    configType: 'kubernetes',
+    severity: 'error',
+    title: 'Pod shares host namespaces',
+    check: (doc) => {
+      const workload = getWorkload(doc);
+      if (!workload) return [];
+      return ['hostNetwork', 'hostPID', 'hostIPC']
+        .filter((key) => workload.podSpec[key] === true)
+        .map((key) => ({
+          ...doc.locate([...workload.podSpecPath, key]),
+          message: `${key}: true gives the pod access to the node's ${key.slice(4).toLowerCase()} namespace.`,
+          fix: `Remove ${key}: true unless the pod is a node-level agent`,
+        }));
+    },
+  },
+  {
+    id: 'KUBE010',
+    configType: 'kubernetes',
+    severity: 'warning',
+    title: 'Pod mounts a hostPath volume',
+    check: (doc) => {
+      const workload = getWorkload(doc);
+      if (!workload) return [];
+      return asList(workload.podSpec.volumes).flatMap((volume, index) => {
+        const hostPath = asMap(asMap(volume)?.hostPath);
+        if (!hostPath) return [];
+        return [
+          {
+            ...doc.locate([...workload.podSpecPath, 'volumes', index, 'hostPath']),
+            message: `Volume "${asMap(volume)?.name ?? index}" mounts ${String(hostPath.path ?? 'a host path')} from the node.`,
+            fix: 'Use a PersistentVolumeClaim, configMap or emptyDir instead',
+          },
+        ];
+      });
+    },
+  },
+];
+
+export function isKubernetesManifest(data: unknown): boolean {
+  const manifest = asMap(data);
+  return typeof manifest?.apiVersion === 'string' && typeof manifest?.kind === 'string';
+}
@@ -0,0 +1,228 @@
+/**
+ * Terraform rules
+ */
+
+import { type HclBlock, type HclBody, getAttribute, walkBlocks } from '../hcl.js';
+import type { ConfigRule, RuleMatch } from '../types.js';
+
+const SECRET_NAME_PATTERN = /(password|passwd|secret|token|api_?key|private_?key|access_?key)/i;
+const HARDCODED_ID_PATTERN = /^(ami|subnet|sg|vpc|igw|rtb|eni|vol|snap)-[0-9a-f]{8,17}$/;
+const OPEN_CIDRS = new Set(['0.0.0.0/0', '::/0']);
+
+function blocksOfType(body: HclBody, type: string): HclBlock[] {
+  return body.blocks.filter((block) => block.type === type);
+}
+
+function resources(body: HclBody, resourceType?: string): HclBlock[] {
+  return blocksOfType(body, 'resource').filter(
+    (block) => !resourceType || block.labels[0] === resourceType
+  );
+}
+
+function address(block: HclBlock): string {
+  return [block.type === 'resource' ? '' : block.type, ...block.labels].filter(Boolean).join('.');
+}
+
+/** Report at the top of the file, for things that are missing altogether */
+const FILE_START = { line: 1, column: 1 };
+
+export const terraformRules: ConfigRule<HclBody>[] = [
+  {
+    id: 'TF001',
+    configType: 'terraform',
+    severity: 'warning',
+    title: 'No Terraform version constraint',
+    check: (body) => {
+      const terraform = blocksOfType(body, 'terraform');
+      if (terraform.some((block) => getAttribute(block.body, 'required_version'))) return [];
+      if (body.blocks.length === 0) return [];
+      return [
+        {
+          ...(terraform[0] ?? FILE_START),
+          message:
+            'Missing version constraints: no required_version, so any Terraform release may run this code.',
+          fix: 'terraform {\n  required_version = ">= 1.6, < 2.0"\n}',
+        },
+      ];
+    },
+  },
+  {
+    id: 'TF002',
+    configType: 'terraform',
+    severity: 'warning',
+    title: 'Provider version not pinned',
+    check: (body) => {
+      const requiredProviders = blocksOfType(body, 'terraform').flatMap((block) =>
+        blocksOfType(block.body, 'required_providers')
+      );
+      const declared = requiredProviders.flatMap((block) => block.body.attributes);
+      const matches: RuleMatch[] = declared
+        .filter((attribute) => !/\bversion\s*=/.test(attribute.expression.text))
+        .map((attribute) => ({
+          line: attribute.line,
+          column: attribute.column,
+          message: `Provider "${attribute.name}" has no version constraint.`,
+          fix: `${attribute.name} = {\n  source  = "hashicorp/${attribute.name}"\n  version = "~> 5.0"\n}`,
+        }));
+
+      const names = new Set(declared.map((attribute) => attribute.name));
+      for (const provider of blocksOfType(body, 'provider')) {
+        const [name] = provider.labels;
+        if (name && !names.has(name)) {
+          names.add(name);
+          matches.push({
+            line: provider.line,
+            column: provider.column,
+            message: `Provider "${name}" is not in required_providers, so its version constraints are missing and any version may be installed.`,
+            fix: `terraform {\n  required_providers {\n    ${name} = {\n      source  = "hashicorp/${name}"\n      version = "~> 5.0"\n    }\n  }\n}`,
+          });
+        }
+      }
+      return matches;
+    },
+  },
+  {
+    id: 'TF003',
+    configType: 'terraform',
+    severity: 'info',
+    title: 'Hardcoded cloud resource ID',
+    check: (body) =>
+      walkBlocks(body)
+        .filter((block) => block.type !== 'variable' && block.type !== 'locals')
+        .flatMap((block) => block.body.attributes)
+        .filter((attribute) =>
+          attribute.expression.strings.some((value) => HARDCODED_ID_PATTERN.test(value))
+        )
+        .map((attribute) => ({
+          line: attribute.line,
+          column: attribute.column,
+          message: `${attribute.name} is a hardcoded ID (${attribute.expression.strings.find((value) => HARDCODED_ID_PATTERN.test(value))}), which only exists in one account and region.`,
+          fix: 'Look it up with a data source (e.g. data "aws_ami") or pass it in as a variable',
+        })),
+  },
+  {
+    id: 'TF004',
+    configType: 'terraform',
+    severity: 'info',
+    title: 'No remote state backend',
+    check: (body) => {
+      if (resources(body).length === 0) return [];
+      const hasBackend = blocksOfType(body, 'terraform').some(
+        (block) =>
+          blocksOfType(block.body, 'backend').length > 0 ||
+          blocksOfType(block.body, 'cloud').length > 0
+      );
+      if (hasBackend) return [];
+      return [
+        {
+          ...(blocksOfType(body, 'terraform')[0] ?? FILE_START),
+          message: 'No backend is configured, so state stays in a local file nobody else can see.',
+          fix: 'terraform {\n  backend "s3" {\n    bucket = "my-terraform-state"\n    key    = "app/terraform.tfstate"\n    region = "us-east-1"\n  }\n}',
+        },
+      ];
+    },
+  },
+  {
+    id: 'TF005',
+    configType: 'terraform',
+    severity: 'warning',
+    title: 'Secret variable not marked sensitive',
+    check: (body) =>
+      blocksOfType(body, 'variable')
+        .filter(
+          (block) =>
+            SECRET_NAME_PATTERN.test(block.labels[0] ?? '') &&
+            getAttribute(block.body, 'sensitive')?.expression.value !== true
+        )
+        .map((block) => ({
+          line: block.line,
+          column: block.column,
+          message: `Variable "${block.labels[0]}" looks like a secret but isn't marked sensitive, so plans and logs print it.`,
+          fix: 'Add sensitive = true to the variable',
+        })),
+  },
+  {
+    id: 'TF006',
+    configType: 'terraform',
+    severity: 'info',
+    title: 'S3 bucket without encryption settings',
+    check: (body) => {
+      // Provider v4+ configures encryption with a separate resource
+      if (resources(body, 'aws_s3_bucket_server_side_encryption_configuration').length > 0) {
+        return [];
+      }
+      return resources(body, 'aws_s3_bucket')
+        .filter(
+          (block) => blocksOfType(block.body, 'server_side_encryption_configuration').length === 0
+        )
+        .map((block) => ({
+          line: block.line,
+          column: block.column,
+          message: `${address(block)} has no encryption configuration.`,
+          fix: `resource "aws_s3_bucket_server_side_encryption_configuration" "${block.labels[1] ?? 'this'}" {\n  bucket = aws_s3_bucket.${block.labels[1] ?? 'this'}.id\n  rule {\n    apply_server_side_encryption_by_default {\n      sse_algorithm = "aws:kms"\n    }\n  }\n}`,
+        }));
+    },
+  },
+  {
+    id: 'TF007',
+    configType: 'terraform',
+    severity: 'warning',
+    title: 'Ingress open to the internet',
+    check: (body) => {
+      const matches: RuleMatch[] = [];
+      const report = (block: HclBlock, attributeName: string) => {
+        const attribute = getAttribute(block.body, attributeName);
+        if (!attribute?.expression.strings.some((value) => OPEN_CIDRS.has(value))) return;
+        matches.push({
+          line: attribute.line,
+          column: attribute.column,
+          message: `${attributeName} allows ingress from anywhere (${attribute.expression.strings.filter((value) => OPEN_CIDRS.has(value)).join(', ')}).`,
+          fix: 'Limit the source to known CIDR ranges or a security group',
+        });
+      };
+
+      for (const group of resources(body, 'aws_security_group')) {
+        for (const ingress of blocksOfType(group.body, 'ingress')) {
+          report(ingress, 'cidr_blocks');
+          report(ingress, 'ipv6_cidr_blocks');
+        }
+      }
+      for (const rule of resources(body, 'aws_security_group_rule')) {
+        if (getAttribute(rule.body, 'type')?.expression.value === 'ingress') {
+          report(rule, 'cidr_blocks');
+          report(rule, 'ipv6_cidr_blocks');
+        }
+      }
+      for (const rule of resources(body, 'aws_vpc_security_group_ingress_rule')) {
+        report(rule, 'cidr_ipv4');
+        report(rule, 'cidr_ipv6');
+      }
+      return matches;
+    },
+  },
+  {
+    id: 'TF008',
+    configType: 'terraform',
+    severity: 'error',
+    title: 'Hardcoded secret',
+    check: (body) =>
+      walkBlocks(body)
+        .filter(
+          (block) =>
+            block.type === 'resource' || block.type === 'provider' || block.type === 'module'
+        )
+        .flatMap((block) => block.body.attributes)
+        .filter(
+          (attribute) =>
+            SECRET_NAME_PATTERN.test(attribute.name) &&
+            typeof attribute.expression.value === 'string' &&
+            attribute.expression.value.length > 0
+        )
+        .map((attribute) => ({
+          line: attribute.line,
+          column: attribute.column,
+          message: `${attribute.name} is set to a literal string, so the secret is committed with the code and stored in state.`,
+          fix: 'Read it from a sensitive variable or a secrets manager data source',
+        })),
+  },
+];
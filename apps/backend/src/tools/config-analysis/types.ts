@@ -0,0 +1,32 @@
+/**
+ * Rule engine types for `analyze_config`
+ */
+
+import type { ConfigType, FindingSeverity } from '@devmentorai/shared';
+
+/** 1-based line and column */
+export interface Position {
+  line: number;
+  column: number;
+}
+
+/** What a rule reports; the engine adds the rule ID and severity */
+export interface RuleMatch extends Position {
+  message: string;
+  fix?: string;
+}
+
+export interface ConfigRule<TInput> {
+  /** Stable ID, e.g. `KUBE001`. Never reuse one for a different check. */
+  id: string;
+  configType: ConfigType;
+  severity: FindingSeverity;
+  /** One line saying what the rule looks for */
+  title: string;
+  check(input: TInput): RuleMatch[];
+}
+
+/** A syntax error, reported as a `PARSE` finding */
+export interface ParseError extends Position {
+  message: string;
+}
@@ -0,0 +1,455 @@
+/**
+ * User-defined rules: declarative checks loaded from YAML or JSON files in
+ * `~/.devmentorai/rules/`. A rule selects nodes with a path expression, skips
+ * the ones its `when` conditions reject and reports each node that fails an
+ * `assert` condition.
+ *
+ * ```yaml
+ * rules:
+ *   - id: ACME001
+ *     type: kubernetes
+ *     severity: warning
+ *     title: Deployments must set the team label
+ *     when: { path: kind, equals: Deployment }
+ *     assert: { path: 'metadata.labels["app.kubernetes.io/team"]', exists: true }
+ *     message: Deployment {{metadata.name}} has no app.kubernetes.io/team label.
+ * ```
+ *
+ * Paths are dot-separated keys with `[n]` indexes, `*` or `[*]` for every
+ * item and `["key.with.dots"]` for awkward keys. Kubernetes, CloudFormation and
+ * GitHub Actions rules see each YAML document; Dockerfile rules see
+ * `{ stages: [{ image, name, instructions: [{ keyword, args }] }], instructions }`;
+ * Terraform rules see the file the way Terraform's JSON syntax writes it, with
+ * labelled blocks nested by label (`resource.aws_s3_bucket.logs`) and unlabelled
+ * blocks as lists (`versioning[0].enabled`). Attributes that aren't a single
+ * literal hold their expression text.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import type { ConfigRuleLoadError, ConfigType } from '@devmentorai/shared';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { readConfig } from '../../lib/config.js';
+import { RULES_DIR } from '../../lib/paths.js';
+import { type AnalyzeConfigOptions, BUILTIN_RULES } from './analyzer.js';
+import type { Dockerfile } from './dockerfile.js';
+import type { HclBody } from './hcl.js';
+import type { ConfigRule, Position, RuleMatch } from './types.js';
+import type { YamlDocument, YamlPath } from './yaml.js';
+
+const RULE_FILE_EXTENSIONS = ['.yaml', '.yml', '.json'];
+
+const WILDCARD = Symbol('wildcard');
+
+type PathSegment = string | number | typeof WILDCARD;
+
+/** What a user rule runs against: plain data plus a way to find a path in the file */
+interface RuleTarget {
+  data: unknown;
+  locate(path: YamlPath): Position;
+}
+
+interface Node {
+  value: unknown;
+  path: YamlPath;
+}
+
+const OPERATORS = ['exists', 'equals', 'notEquals', 'oneOf', 'matches', 'notMatches'] as const;
+
+const regexSchema = z.string().refine((pattern) => {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}, 'Must be a valid regular expression');
+
+const pathSchema = z.string().superRefine((expression, ctx) => {
+  try {
+    parsePath(expression);
+  } catch (error) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: (error as Error).message });
+  }
+});
+
+const conditionSchema = z
+  .object({
+    path: pathSchema,
+    exists: z.boolean().optional(),
+    equals: z.unknown().optional(),
+    notEquals: z.unknown().optional(),
+    oneOf: z.array(z.unknown()).min(1).optional(),
+    matches: regexSchema.optional(),
+    notMatches: regexSchema.optional(),
+  })
+  .strict()
+  .refine(
+    (condition) => OPERATORS.filter((operator) => condition[operator] !== undefined).length === 1,
+    `Set exactly one of ${OPERATORS.join(', ')}`
+  );
+
+type Condition = z.infer<typeof conditionSchema>;
+
+const conditionsSchema = z
+  .union([conditionSchema, z.array(conditionSchema).min(1)])
+  .transform((value) => (Array.isArray(value) ? value : [value]));
+
+export const userRuleSchema = z
+  .object({
+    id: z
+      .string()
+      .regex(
+        /^[A-Za-z][\w.-]*$/,
+        'Must start with a letter and use only letters, digits, ".", "-" and "_"'
+      ),
+    type: z.enum(['kubernetes', 'docker', 'terraform', 'cloudformation', 'github-actions']),
+    severity: z.enum(['error', 'warning', 'info']).default('warning'),
+    title: z.string().min(1),
+    /** Finding text; `{{key}}`, `{{value}}` and `{{<path>}}` are filled in */
+    message: z.string().min(1).optional(),
+    fix: z.string().min(1).optional(),
+    /** Nodes to check, relative to the document; the document itself by default */
+    each: pathSchema.optional(),
+    when: conditionsSchema.optional(),
+    assert: conditionsSchema,
+  })
+  .strict();
+
+export type UserRuleDefinition = z.infer<typeof userRuleSchema>;
+
+export interface UserRule extends ConfigRule<unknown> {
+  /** File the rule was loaded from */
+  file: string;
+}
+
+/**
+ * Split a path expression into keys, indexes and wildcards
+ */
+export function parsePath(expression: string): PathSegment[] {
+  const segments: PathSegment[] = [];
+  const pattern =
+    /\s*(?:\[\s*(?:(\*)|(\d+)|"((?:[^"\\]|\\.)*)"|'([^']*)')\s*\]|(\*)|([^.[\]\s]+))\s*(\.?)/y;
+  let offset = 0;
+  let expectMore = true;
+
+  while (offset < expression.length) {
+    pattern.lastIndex = offset;
+    const match = pattern.exec(expression);
+    if (!match || match[0].length === 0) {
+      throw new Error(`Invalid path "${expression}" at character ${offset + 1}`);
+    }
+    const [, bracketStar, index, doubleQuoted, singleQuoted, star, key, dot] = match;
+    if (bracketStar || star) segments.push(WILDCARD);
+    else if (index !== undefined) segments.push(Number(index));
+    else if (doubleQuoted !== undefined) segments.push(doubleQuoted.replace(/\\(.)/g, '$1'));
+    else segments.push(singleQuoted ?? key);
+    offset = pattern.lastIndex;
+    expectMore = dot === '.';
+  }
+
+  if (segments.length === 0 || expectMore) {
+    throw new Error(`Invalid path "${expression}": it ends without a key`);
+  }
+  return segments;
+}
+
+/** Every node `segments` reaches from `from` */
+function select(from: Node, segments: PathSegment[]): Node[] {
+  let nodes = [from];
+  for (const segment of segments) {
+    nodes = nodes.flatMap(({ value, path: nodePath }) => {
+      if (Array.isArray(value)) {
+        if (segment === WILDCARD) {
+          return value.map((item, index) => ({ value: item, path: [...nodePath, index] }));
+        }
+        return typeof segment === 'number' && segment < value.length
+          ? [{ value: value[segment], path: [...nodePath, segment] }]
+          : [];
+      }
+      if (value && typeof value === 'object') {
+        const map = value as Record<string, unknown>;
+        if (segment === WILDCARD) {
+          return Object.entries(map).map(([key, item]) => ({
+            value: item,
+            path: [...nodePath, key],
+          }));
+        }
+        const key = String(segment);
+        return Object.hasOwn(map, key) ? [{ value: map[key], path: [...nodePath, key] }] : [];
+      }
+      return [];
+    });
+  }
+  return nodes;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+function asText(value: unknown): string | undefined {
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean'
+    ? String(value)
+    : undefined;
+}
+
+/**
+ * Check one condition against a node. Returns undefined when it holds, else
+ * the node to report: the offending value, or the checked node when the value
+ * is missing.
+ */
+function failingNode(node: Node, condition: Condition): Node | undefined {
+  const values = select(node, parsePath(condition.path));
+  const missing = values.length === 0 ? node : undefined;
+
+  if (condition.exists !== undefined) {
+    if (condition.exists) return missing;
+    return values[0];
+  }
+  if (condition.equals !== undefined) {
+    return missing ?? values.find(({ value }) => !sameValue(value, condition.equals));
+  }
+  if (condition.notEquals !== undefined) {
+    return values.find(({ value }) => sameValue(value, condition.notEquals));
+  }
+  if (condition.oneOf !== undefined) {
+    const allowed = condition.oneOf;
+    return (
+      missing ?? values.find(({ value }) => !allowed.some((option) => sameValue(value, option)))
+    );
+  }
+  if (condition.matches !== undefined) {
+    const pattern = new RegExp(condition.matches);
+    return (
+      missing ??
+      values.find(({ value }) => {
+        const text = asText(value);
+        return text === undefined || !pattern.test(text);
+      })
+    );
+  }
+  if (condition.notMatches !== undefined) {
+    const pattern = new RegExp(condition.notMatches);
+    return values.find(({ value }) => {
+      const text = asText(value);
+      return text !== undefined && pattern.test(text);
+    });
+  }
+  return undefined;
+}
+
+/** Fill `{{key}}`, `{{value}}` and `{{<path>}}` placeholders */
+function renderMessage(template: string, node: Node, failing: Node): string {
+  return template.replace(/\{\{\s*([^}]+?)\s*\}\}/g, (placeholder, name: string) => {
+    if (name === 'key') return String(node.path.at(-1) ?? '');
+    if (name === 'value') return asText(failing.value) ?? JSON.stringify(failing.value) ?? '';
+    try {
+      const [found] = select(node, parsePath(name));
+      return found ? (asText(found.value) ?? JSON.stringify(found.value)) : placeholder;
+    } catch {
+      return placeholder;
+    }
+  });
+}
+
+/**
+ * Run a rule definition against one target
+ */
+export function evaluateUserRule(rule: UserRuleDefinition, target: RuleTarget): RuleMatch[] {
+  const root: Node = { value: target.data, path: [] };
+  const nodes = rule.each ? select(root, parsePath(rule.each)) : [root];
+
+  return nodes.flatMap((node) => {
+    if (rule.when?.some((condition) => failingNode(node, condition))) return [];
+    for (const condition of rule.assert) {
+      const failing = failingNode(node, condition);
+      if (!failing) continue;
+      return [
+        {
+          ...target.locate(failing.path),
+          message: renderMessage(rule.message ?? rule.title, node, failing),
+          ...(rule.fix && { fix: rule.fix }),
+        },
+      ];
+    }
+    return [];
+  });
+}
+
+function dockerfileTarget(dockerfile: Dockerfile): RuleTarget {
+  const toData = ({ keyword, args }: { keyword: string; args: string }) => ({ keyword, args });
+  return {
+    data: {
+      stages: dockerfile.stages.map((stage) => ({
+        image: stage.image,
+        ...(stage.name && { name: stage.name }),
+        instructions: stage.instructions.map(toData),
+      })),
+      instructions: dockerfile.instructions.map(toData),
+    },
+    locate: ([first, index, third, instructionIndex]) => {
+      if (first === 'instructions' && typeof index === 'number') {
+        return dockerfile.instructions[index] ?? { line: 1, column: 1 };
+      }
+      const stage = first === 'stages' && typeof index === 'number' && dockerfile.stages[index];
+      if (!stage) return { line: 1, column: 1 };
+      if (third === 'instructions' && typeof instructionIndex === 'number') {
+        return stage.instructions[instructionIndex] ?? stage.from;
+      }
+      return stage.from;
+    },
+  };
+}
+
+function hclTarget(body: HclBody): RuleTarget {
+  const positions = new Map<string, Position>();
+  const remember = (nodePath: YamlPath, position: Position) => {
+    const key = JSON.stringify(nodePath);
+    if (!positions.has(key)) positions.set(key, position);
+  };
+
+  const convert = (current: HclBody, nodePath: YamlPath): Record<string, unknown> => {
+    const data: Record<string, unknown> = {};
+    for (const attribute of current.attributes) {
+      data[attribute.name] = attribute.expression.value ?? attribute.expression.text;
+      remember([...nodePath, attribute.name], attribute);
+    }
+    for (const block of current.blocks) {
+      if (block.labels.length === 0) {
+        const list = Array.isArray(data[block.type]) ? (data[block.type] as unknown[]) : [];
+        data[block.type] = list;
+        const blockPath = [...nodePath, block.type, list.length];
+        remember(blockPath.slice(0, -1), block);
+        remember(blockPath, block);
+        list.push(convert(block.body, blockPath));
+        continue;
+      }
+      let parent = data;
+      const blockPath = [...nodePath];
+      const keys = [block.type, ...block.labels];
+      for (const [index, key] of keys.entries()) {
+        blockPath.push(key);
+        remember([...blockPath], block);
+        if (index === keys.length - 1) {
+          parent[key] = convert(block.body, [...blockPath]);
+        } else {
+          if (!parent[key] || typeof parent[key] !== 'object') parent[key] = {};
+          parent = parent[key] as Record<string, unknown>;
+        }
+      }
+    }
+    return data;
+  };
+
+  const data = convert(body, []);
+  return {
+    data,
+    locate: (nodePath) => {
+      for (let length = nodePath.length; length > 0; length--) {
+        const position = positions.get(JSON.stringify(nodePath.slice(0, length)));
+        if (position) return position;
+      }
+      return { line: 1, column: 1 };
+    },
+  };
+}
+
+function toTarget(configType: ConfigType, input: unknown): RuleTarget {
+  if (configType === 'docker') return dockerfileTarget(input as Dockerfile);
+  if (configType === 'terraform') return hclTarget(input as HclBody);
+  const doc = input as YamlDocument;
+  return { data: doc.data, locate: (nodePath) => doc.locate(nodePath) };
+}
+
+/**
+ * Turn a validated definition into a rule the analyzer can run
+ */
+export function compileUserRule(definition: UserRuleDefinition, file: string): UserRule {
+  return {
+    id: definition.id,
+    configType: definition.type,
+    severity: definition.severity,
+    title: definition.title,
+    file,
+    check: (input) => evaluateUserRule(definition, toTarget(definition.type, input)),
+  };
+}
+
+function readRuleFile(filePath: string): unknown[] {
+  const content = fs.readFileSync(filePath, 'utf-8');
+  const parsed: unknown =
+    path.extname(filePath) === '.json' ? JSON.parse(content) : parseYaml(content);
+  if (Array.isArray(parsed)) return parsed;
+  const rules = (parsed as { rules?: unknown } | null)?.rules;
+  if (Array.isArray(rules)) return rules;
+  throw new Error('Expected a list of rules or an object with a "rules" list');
+}
+
+/**
+ * Load every rule file in `dir`. Invalid files and rules, and rules whose ID is
+ * already taken (by a built-in rule or an earlier file), are skipped and
+ * reported in `errors`.
+ */
+export function loadUserRules(dir: string = RULES_DIR): {
+  rules: UserRule[];
+  errors: ConfigRuleLoadError[];
+} {
+  const rules: UserRule[] = [];
+  const errors: ConfigRuleLoadError[] = [];
+  const taken = new Set(BUILTIN_RULES.map((rule) => rule.id));
+
+  let files: string[];
+  try {
+    files = fs
+      .readdirSync(dir)
+      .filter((file) => RULE_FILE_EXTENSIONS.includes(path.extname(file)))
+      .sort();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return { rules, errors };
+    throw error;
+  }
+
+  for (const file of files) {
+    let entries: unknown[];
+    try {
+      entries = readRuleFile(path.join(dir, file));
+    } catch (error) {
+      errors.push({ file, message: (error as Error).message });
+      continue;
+    }
+
+    entries.forEach((entry, index) => {
+      const parsed = userRuleSchema.safeParse(entry);
+      const label = `Rule ${(entry as { id?: unknown } | null)?.id ?? `#${index + 1}`}`;
+      if (!parsed.success) {
+        const problems = parsed.error.errors.map(
+          (issue) => `${issue.path.join('.') || 'rule'}: ${issue.message}`
+        );
+        errors.push({ file, message: `${label}: ${problems.join('; ')}` });
+        return;
+      }
+      if (taken.has(parsed.data.id)) {
+        errors.push({ file, message: `${label}: the ID is already used by another rule` });
+        return;
+      }
+      taken.add(parsed.data.id);
+      rules.push(compileUserRule(parsed.data, file));
+    });
+  }
+
+  return { rules, errors };
+}
+
+/**
+ * Options for `analyzeConfig` from the user's rule files and the
+ * `tools.disabledRules` setting
+ */
+export function loadAnalyzeOptions(): AnalyzeConfigOptions {
+  const tools = readConfig().tools as { disabledRules?: unknown } | undefined;
+  const disabledRules = Array.isArray(tools?.disabledRules)
+    ? tools.disabledRules.filter((id): id is string => typeof id === 'string')
+    : [];
+  return { userRules: loadUserRules().rules, disabledRules };
+}
@@ -0,0 +1,103 @@
+/**
+ * YAML loading for Kubernetes, CloudFormation and GitHub Actions rules. Every
+ * `---` document is parsed on its own, keeping node offsets so findings can
+ * point at the key they are about.
+ */
+
+import {
+  type Document,
+  LineCounter,
+  isMap,
+  isPair,
+  isScalar,
+  isSeq,
+  parseAllDocuments,
+} from 'yaml';
+import type { ParseError, Position } from './types.js';
+
+export type YamlPath = Array<string | number>;
+
+export class YamlDocument {
+  constructor(
+    /** 0-based position in the stream */
+    readonly index: number,
+    /** Plain JavaScript value of the document */
+    readonly data: unknown,
+    private readonly document: Document,
+    private readonly lineCounter: LineCounter
+  ) {}
+
+  /**
+   * Position of the deepest part of `path` that exists: the key for map
+   * entries, the item for sequence entries
+   */
+  locate(path: YamlPath): Position {
+    let node: unknown = this.document.contents;
+    let offset = (node as { range?: [number] } | null)?.range?.[0] ?? 0;
+
+    for (const segment of path) {
+      if (isMap(node)) {
+        const pair = node.items.find(
+          (item) => isPair(item) && isScalar(item.key) && item.key.value === segment
+        );
+        if (!pair) break;
+        offset = (pair.key as { range?: [number] }).range?.[0] ?? offset;
+        node = pair.value;
+      } else if (isSeq(node) && typeof segment === 'number') {
+        const item = node.items[segment] as { range?: [number] } | undefined;
+        if (!item) break;
+        offset = item.range?.[0] ?? offset;
+        node = item;
+      } else {
+        break;
+      }
+    }
+
+    const { line, col } = this.lineCounter.linePos(offset);
+    return { line, column: col };
+  }
+}
+
+/**
+ * Parse every document in `content`. Empty documents are skipped; documents
+ * with syntax errors are reported instead of returned.
+ */
+export function parseYamlDocuments(content: string): {
+  documents: YamlDocument[];
+  errors: Array<ParseError & { document: number }>;
+} {
+  const lineCounter = new LineCounter();
+  const documents: YamlDocument[] = [];
+  const errors: Array<ParseError & { document: number }> = [];
+
+  parseAllDocuments(content, { lineCounter }).forEach((document, index) => {
+    if (document.errors.length > 0) {
+      for (const error of document.errors) {
+        const [start] = error.linePos ?? [{ line: 1, col: 1 }];
+        errors.push({
+          // The position is reported separately, so drop the library's "at line L, column C:" suffix
+          message: error.message.split('\n')[0].replace(/ at line \d+, column \d+:?$/, ''),
+          line: start.line,
+          column: start.col,
+          document: index,
+        });
+      }
+      return;
+    }
+    if (document.contents === null) return;
+    documents.push(new YamlDocument(index, document.toJS(), document, lineCounter));
+  });
+
+  return { documents, errors };
+}
+
+/** `value` as a plain object, or undefined */
+export function asMap(value: unknown): Record<string, unknown> | undefined {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : undefined;
+}
+
+export function asList(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
@@ -0,0 +1,256 @@
+/**
+ * Cost estimation for `estimate_cost`: reads a Terraform snippet, Kubernetes
+ * manifests or a free-form list, prices each item from the pricing table and
+ * reports the monthly total along with everything it assumed or left out.
+ */
+
+import { looksLikeTerraform } from '../config-analysis/hcl.js';
+import { isKubernetesManifest } from '../config-analysis/rules/kubernetes.js';
+import { parseYamlDocuments } from '../config-analysis/yaml.js';
+import { parseKubernetesCosts } from './kubernetes.js';
+import { parseResourceList } from './list.js';
+import {
+  type CloudProvider,
+  type LoadedPricing,
+  type PricingTable,
+  loadPricing,
+} from './pricing.js';
+import { parseTerraformCosts } from './terraform.js';
+import type {
+  CostEstimate,
+  CostInputFormat,
+  CostItem,
+  CostLine,
+  ParsedCostInput,
+  SkippedResource,
+} from './types.js';
+
+export interface EstimateCostOptions {
+  format?: CostInputFormat | 'auto';
+  /** Provider for Kubernetes manifests and list lines that don't name one */
+  provider?: CloudProvider;
+}
+
+/** Cloud SQL tiers sized by the user, e.g. `db-custom-2-7680` (2 vCPU, 7.5 GiB) */
+const CUSTOM_SQL_TIER = /^db-custom-(\d+)-(\d+)$/;
+
+export function detectCostInputFormat(content: string): CostInputFormat {
+  if (looksLikeTerraform(content)) return 'terraform';
+  const { documents } = parseYamlDocuments(content);
+  if (documents.some((doc) => isKubernetesManifest(doc.data))) return 'kubernetes';
+  return 'list';
+}
+
+function formatMoney(amount: number, currency: string): string {
+  const formatted = amount.toLocaleString('en-US', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+  return currency === 'USD' ? `$${formatted}` : `${formatted} ${currency}`;
+}
+
+function formatSize(sizeGb: number): string {
+  return `${Number(sizeGb.toFixed(2))} GB`;
+}
+
+/**
+ * Monthly price of one unit of `item` and its description, or the reason it
+ * can't be priced
+ */
+function priceItem(
+  item: CostItem,
+  table: PricingTable,
+  assumptions: string[]
+): { unitMonthly: number; description: string } | { reason: string } {
+  const pricing = table.providers[item.provider];
+  const hours = table.hoursPerMonth;
+  const notInTable = (kind: string) => ({
+    reason: `${kind} \`${item.sku}\` is not in the ${item.provider} pricing table (${table.version})`,
+  });
+  const standby = item.highAvailability ? 2 : 1;
+  const haNote = item.highAvailability ? ', HA' : '';
+
+  switch (item.category) {
+    case 'compute': {
+      const hourly = pricing.compute[item.sku];
+      if (hourly === undefined) return notInTable('Instance type');
+      return { unitMonthly: hourly * hours, description: item.sku };
+    }
+    case 'database': {
+      const hourly = pricing.database[item.sku];
+      if (hourly !== undefined) {
+        return { unitMonthly: hourly * hours * standby, description: `${item.sku}${haNote}` };
+      }
+      const custom = CUSTOM_SQL_TIER.exec(item.sku);
+      if (custom && pricing.databaseCustom) {
+        const vcpu = Number(custom[1]);
+        const memoryGib = Number(custom[2]) / 1024;
+        const perHour =
+          vcpu * pricing.databaseCustom.vcpuHour + memoryGib * pricing.databaseCustom.memoryGibHour;
+        return { unitMonthly: perHour * hours * standby, description: `${item.sku}${haNote}` };
+      }
+      return notInTable('Database tier');
+    }
+    case 'database-storage':
+      return {
+        unitMonthly: (item.sizeGb ?? 0) * pricing.databaseStorage * standby,
+        description: `${formatSize(item.sizeGb ?? 0)} database storage${haNote}`,
+      };
+    case 'storage': {
+      let sku = item.sku;
+      if (!sku) {
+        sku = pricing.defaultStorage;
+        assumptions.push(`${item.resource}: storage class not given, priced as ${sku}`);
+      }
+      const perGb = pricing.storage[sku];
+      if (perGb === undefined) return notInTable('Storage class');
+      return {
+        unitMonthly: (item.sizeGb ?? 0) * perGb,
+        description: `${formatSize(item.sizeGb ?? 0)} ${sku}`,
+      };
+    }
+    case 'containers': {
+      const vcpu = item.vcpu ?? 0;
+      const memoryGib = item.memoryGib ?? 0;
+      const perHour =
+        vcpu * pricing.containers.vcpuHour + memoryGib * pricing.containers.memoryGibHour;
+      return {
+        unitMonthly: perHour * hours,
+        description: `${Number(vcpu.toFixed(3))} vCPU / ${Number(memoryGib.toFixed(2))} GiB`,
+      };
+    }
+    case 'cluster':
+      return {
+        unitMonthly: pricing.kubernetesClusterHour * hours,
+        description: 'Kubernetes control plane',
+      };
+  }
+}
+
+function parseInput(
+  content: string,
+  format: CostInputFormat,
+  provider: CloudProvider,
+  table: PricingTable
+): ParsedCostInput {
+  switch (format) {
+    case 'terraform':
+      return parseTerraformCosts(content);
+    case 'kubernetes':
+      return parseKubernetesCosts(content, provider);
+    case 'list':
+      return parseResourceList(content, table, provider);
+  }
+}
+
+/**
+ * Estimate the monthly cost of `content`. Throws when it can't be parsed as
+ * the given format.
+ */
+export function estimateCost(
+  content: string,
+  options: EstimateCostOptions = {},
+  pricing: LoadedPricing = loadPricing()
+): CostEstimate {
+  const { table } = pricing;
+  const provider = options.provider ?? 'aws';
+  const format =
+    !options.format || options.format === 'auto' ? detectCostInputFormat(content) : options.format;
+
+  const parsed = parseInput(content, format, provider, table);
+  const assumptions = [...parsed.assumptions];
+  const skipped: SkippedResource[] = [...parsed.skipped];
+  const lines: CostLine[] = [];
+
+  for (const item of parsed.items) {
+    const price = priceItem(item, table, assumptions);
+    if ('reason' in price) {
+      skipped.push({ resource: item.resource, reason: price.reason });
+      continue;
+    }
+    lines.push({
+      resource: item.resource,
+      provider: item.provider,
+      description: price.description,
+      quantity: item.quantity,
+      unitMonthly: price.unitMonthly,
+      monthly: price.unitMonthly * item.quantity,
+    });
+  }
+
+  const providers = [...new Set(lines.map((line) => line.provider))];
+  const regions: Partial<Record<CloudProvider, string>> = {};
+  for (const used of providers) regions[used] = table.providers[used].region;
+
+  if (format === 'kubernetes') {
+    assumptions.push(
+      'Pods are priced by their requests at serverless container rates; on your own nodes you pay for the nodes instead'
+    );
+  }
+  if (lines.some((line) => line.description.endsWith(', HA'))) {
+    assumptions.push('High-availability databases are billed for a standby of the same size');
+  }
+
+  const estimate: Omit<CostEstimate, 'report'> = {
+    format,
+    lines,
+    total: lines.reduce((sum, line) => sum + line.monthly, 0),
+    currency: table.currency,
+    skipped,
+    assumptions,
+    pricing: { version: table.version, source: pricing.source, regions },
+  };
+  return { ...estimate, report: formatCostReport(estimate, table.hoursPerMonth, pricing.warning) };
+}
+
+/**
+ * Markdown report of an estimate. The general assumptions behind every
+ * estimate are listed after the ones specific to the input.
+ */
+export function formatCostReport(
+  estimate: Omit<CostEstimate, 'report'>,
+  hoursPerMonth: number,
+  warning?: string
+): string {
+  const { lines, skipped, currency, pricing } = estimate;
+  const money = (amount: number) => formatMoney(amount, currency);
+
+  let report = '## Monthly Cost Estimate\n\n';
+  report += `**Total:** ${money(estimate.total)}/month (${lines.length} priced, ${skipped.length} not included)\n\n`;
+
+  if (lines.length > 0) {
+    report += '| Resource | Provider | Item | Qty | Unit/month | Monthly |\n';
+    report += '|---|---|---|---|---|---|\n';
+    for (const line of lines) {
+      report += `| \`${line.resource}\` | ${line.provider} | ${line.description} | ${line.quantity} | ${money(line.unitMonthly)} | ${money(line.monthly)} |\n`;
+    }
+    report += '\n';
+  }
+
+  if (skipped.length > 0) {
+    report += '### Not Included\n';
+    for (const item of skipped) {
+      report += `- \`${item.resource}\`: ${item.reason}\n`;
+    }
+    report += '\n';
+  }
+
+  const regions = Object.entries(pricing.regions).map(
+    ([provider, region]) => `${provider} ${region}`
+  );
+  const source = pricing.source === 'user' ? '~/.devmentorai/pricing.json' : 'bundled';
+
+  report += '### Assumptions\n';
+  for (const assumption of estimate.assumptions) {
+    report += `- ${assumption}\n`;
+  }
+  report += `- On-demand list prices${regions.length > 0 ? ` in ${regions.join(', ')}` : ''}; other regions differ\n`;
+  report += `- ${hoursPerMonth} hours per month, running all the time\n`;
+  report +=
+    '- Not included: reserved/savings-plan discounts, free tiers, taxes, data transfer, requests, IOPS and backups\n';
+  report += `- Pricing table ${pricing.version} (${source})\n`;
+  if (warning) {
+    report += `- ⚠️ ${warning}\n`;
+  }
+  return report;
+}
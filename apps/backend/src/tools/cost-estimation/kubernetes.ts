@@ -0,0 +1,198 @@
+/**
+ * Reads resource requests out of Kubernetes manifests. Pods are priced by what
+ * they request, at the provider's serverless container rates (Fargate,
+ * Container Instances, GKE Autopilot), since node sizing isn't in the manifest.
+ */
+
+import { asList, asMap, parseYamlDocuments } from '../config-analysis/yaml.js';
+import type { CloudProvider } from './pricing.js';
+import type { ParsedCostInput } from './types.js';
+
+const WORKLOAD_KINDS = new Set(['Deployment', 'StatefulSet', 'ReplicaSet', 'DaemonSet', 'Pod']);
+const BATCH_KINDS = new Set(['Job', 'CronJob']);
+
+const MEMORY_UNITS: Record<string, number> = {
+  '': 1,
+  Ki: 2 ** 10,
+  Mi: 2 ** 20,
+  Gi: 2 ** 30,
+  Ti: 2 ** 40,
+  k: 1e3,
+  K: 1e3,
+  M: 1e6,
+  G: 1e9,
+  T: 1e12,
+  Pi: 2 ** 50,
+  Ei: 2 ** 60,
+  P: 1e15,
+  E: 1e18,
+};
+
+/** `250m` or `2` as a number of CPUs */
+export function parseCpuQuantity(value: unknown): number | undefined {
+  const match = /^(\d+(?:\.\d+)?)(m?)$/.exec(String(value ?? '').trim());
+  if (!match) return undefined;
+  const cpus = Number(match[1]) / (match[2] ? 1000 : 1);
+  return Number.isFinite(cpus) ? cpus : undefined;
+}
+
+/** `512Mi`, `1G` or bytes as GiB */
+export function parseMemoryQuantity(value: unknown): number | undefined {
+  const match = /^(\d+(?:\.\d+)?)([KMGTPE]i|[kKMGTPE])?$/.exec(String(value ?? '').trim());
+  if (!match) return undefined;
+  const gib = (Number(match[1]) * MEMORY_UNITS[match[2] ?? '']) / 2 ** 30;
+  return Number.isFinite(gib) ? gib : undefined;
+}
+
+/**
+ * Size of a volume claim in GiB, or why it can't be priced. A request that is
+ * set but unreadable is reported rather than treated as missing.
+ */
+function claimSize(claim: Record<string, unknown> | undefined): number | { reason: string } {
+  const storage = asMap(asMap(asMap(claim?.spec)?.resources)?.requests)?.storage;
+  const size = parseMemoryQuantity(storage);
+  if (size !== undefined) return size;
+  if (storage === undefined) return { reason: 'no `resources.requests.storage`' };
+  return { reason: `storage request \`${String(storage)}\` is not a Kubernetes quantity` };
+}
+
+function podSpecOf(kind: string, manifest: Record<string, unknown>) {
+  if (kind === 'Pod') return asMap(manifest.spec);
+  return asMap(asMap(asMap(manifest.spec)?.template)?.spec);
+}
+
+/**
+ * Read workloads and volume claims from one or more Kubernetes manifests
+ */
+export function parseKubernetesCosts(content: string, provider: CloudProvider): ParsedCostInput {
+  const { documents, errors } = parseYamlDocuments(content);
+  if (documents.length === 0 && errors.length > 0) {
+    throw new Error(`YAML syntax error at line ${errors[0].line}: ${errors[0].message}`);
+  }
+
+  const result: ParsedCostInput = { items: [], skipped: [], assumptions: [] };
+
+  const manifests = documents.flatMap((document) => {
+    const data = asMap(document.data);
+    // `kubectl get -o yaml` wraps objects in a List
+    return data?.kind === 'List' ? asList(data.items).map(asMap) : [data];
+  });
+
+  for (const manifest of manifests) {
+    if (!manifest || typeof manifest.kind !== 'string') continue;
+    const kind = manifest.kind;
+    const name = String(asMap(manifest.metadata)?.name ?? 'unnamed');
+    const resource = `${kind}/${name}`;
+
+    if (kind === 'PersistentVolumeClaim') {
+      const size = claimSize(manifest);
+      if (typeof size !== 'number') {
+        result.skipped.push({ resource, ...size });
+        continue;
+      }
+      result.items.push({
+        resource,
+        provider,
+        category: 'storage',
+        sku: '',
+        quantity: 1,
+        sizeGb: size,
+      });
+      continue;
+    }
+
+    if (BATCH_KINDS.has(kind)) {
+      result.skipped.push({
+        resource,
+        reason: 'runs to completion; cost depends on how long it runs',
+      });
+      continue;
+    }
+    if (!WORKLOAD_KINDS.has(kind)) continue;
+
+    const spec = podSpecOf(kind, manifest);
+    let vcpu = 0;
+    let memoryGib = 0;
+    let missing = 0;
+    const invalid: string[] = [];
+    for (const container of asList(spec?.containers)) {
+      const requests = asMap(asMap(asMap(container)?.resources)?.requests);
+      const cpu = parseCpuQuantity(requests?.cpu);
+      const memory = parseMemoryQuantity(requests?.memory);
+      if (cpu === undefined && requests?.cpu !== undefined) {
+        invalid.push(`CPU request \`${String(requests.cpu)}\``);
+      }
+      if (memory === undefined && requests?.memory !== undefined) {
+        invalid.push(`memory request \`${String(requests.memory)}\``);
+      }
+      if (cpu === undefined || memory === undefined) missing++;
+      vcpu += cpu ?? 0;
+      memoryGib += memory ?? 0;
+    }
+    if (invalid.length > 0) {
+      result.skipped.push({
+        resource,
+        reason: `${invalid.join(', ')} ${invalid.length === 1 ? 'is not a Kubernetes quantity' : 'are not Kubernetes quantities'}`,
+      });
+      continue;
+    }
+    if (vcpu === 0 && memoryGib === 0) {
+      result.skipped.push({ resource, reason: 'no CPU or memory requests to price' });
+      continue;
+    }
+
+    let replicas = 1;
+    const declared = asMap(manifest.spec)?.replicas;
+    if (kind === 'DaemonSet') {
+      result.assumptions.push(`${resource}: priced for 1 node; multiply by your node count`);
+    } else if (kind !== 'Pod' && typeof declared === 'number') {
+      if (!Number.isSafeInteger(declared) || declared < 0) {
+        result.skipped.push({
+          resource,
+          reason: `\`replicas: ${declared}\` is not a whole number of 0 or more`,
+        });
+        continue;
+      }
+      replicas = declared;
+    } else if (kind !== 'Pod') {
+      result.assumptions.push(`${resource}: \`replicas\` not set, assumed 1`);
+    }
+    if (missing > 0) {
+      result.assumptions.push(
+        `${resource}: ${missing} container(s) without full CPU/memory requests priced at what they do request`
+      );
+    }
+
+    result.items.push({
+      resource,
+      provider,
+      category: 'containers',
+      sku: '',
+      quantity: replicas,
+      vcpu,
+      memoryGib,
+    });
+
+    if (kind === 'StatefulSet') {
+      for (const template of asList(asMap(manifest.spec)?.volumeClaimTemplates)) {
+        const claim = asMap(template);
+        const claimResource = `${resource} (${String(asMap(claim?.metadata)?.name ?? 'volume')})`;
+        const size = claimSize(claim);
+        if (typeof size !== 'number') {
+          result.skipped.push({ resource: claimResource, ...size });
+          continue;
+        }
+        result.items.push({
+          resource: claimResource,
+          provider,
+          category: 'storage',
+          sku: '',
+          quantity: replicas,
+          sizeGb: size,
+        });
+      }
+    }
+  }
+
+  return result;
+}
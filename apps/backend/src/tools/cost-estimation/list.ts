@@ -0,0 +1,165 @@
+/**
+ * Reads a free-form list, one resource per line:
+ *
+ *   3x t3.medium
+ *   db.r6g.large multi-az 100GB
+ *   gp3 500GB
+ *   s3-standard 2TB
+ *   0.5 vCPU 1GiB x3
+ *
+ * SKUs are looked up in the pricing table, so the provider usually follows
+ * from the SKU; `aws`, `azure` or `gcp` on the line picks one when it doesn't.
+ */
+
+import { CLOUD_PROVIDERS, type CloudProvider, type PricingTable } from './pricing.js';
+import type { CostItem, ParsedCostInput } from './types.js';
+
+// Loose on purpose, so `-5x` or `1e400x` is reported instead of read as no quantity
+const QUANTITY_PATTERN = /(?:^|\s)(?:([-+]?[\d.][\d.e+-]*)\s*x|x\s*([-+]?[\d.][\d.e+-]*))(?=\s|$)/i;
+const SIZE_PATTERN = /(?<![\w.+-])(\d+(?:\.\d+)?)\s*(GB|GiB|TB|TiB)\b/i;
+const VCPU_PATTERN = /(?<![\w.+-])(\d+(?:\.\d+)?)\s*v?CPUs?\b/i;
+const HA_PATTERN = /\b(multi-?az|ha|high[- ]availability|regional|zone[- ]redundant)\b/i;
+
+const SKU_CATEGORIES = ['compute', 'database', 'storage'] as const;
+
+function findSku(
+  pricing: PricingTable,
+  words: string[],
+  preferred: CloudProvider | undefined
+): { provider: CloudProvider; category: (typeof SKU_CATEGORIES)[number]; sku: string } | undefined {
+  const providers = preferred
+    ? [preferred, ...CLOUD_PROVIDERS.filter((provider) => provider !== preferred)]
+    : CLOUD_PROVIDERS;
+  for (const word of words) {
+    for (const provider of providers) {
+      for (const category of SKU_CATEGORIES) {
+        const prices = pricing.providers[provider][category];
+        // Azure SKUs are case-sensitive in the table but rarely typed that way
+        const sku = Object.keys(prices).find((key) => key.toLowerCase() === word.toLowerCase());
+        if (sku) return { provider, category, sku };
+      }
+    }
+  }
+  return undefined;
+}
+
+function parseLine(
+  line: string,
+  pricing: PricingTable,
+  defaultProvider: CloudProvider,
+  result: ParsedCostInput
+): void {
+  const quantityMatch = QUANTITY_PATTERN.exec(line);
+  const quantity = quantityMatch ? Number(quantityMatch[1] ?? quantityMatch[2]) : 1;
+  if (!Number.isSafeInteger(quantity) || quantity < 1) {
+    result.skipped.push({
+      resource: line,
+      reason: `quantity \`${quantityMatch?.[0].trim()}\` is not a whole number of 1 or more`,
+    });
+    return;
+  }
+  const rest = quantityMatch ? line.replace(quantityMatch[0], ' ') : line;
+
+  const sizeMatch = SIZE_PATTERN.exec(rest);
+  const sizeGb = sizeMatch
+    ? Number(sizeMatch[1]) * (sizeMatch[2].toUpperCase().startsWith('T') ? 1024 : 1)
+    : undefined;
+
+  const words = rest
+    .split(/[\s,]+/)
+    .map((word) => word.replace(/^[-*•]+/, ''))
+    .filter(Boolean);
+  const providerHint = CLOUD_PROVIDERS.find((provider) =>
+    words.some((word) => word.toLowerCase() === provider)
+  );
+
+  const vcpuMatch = VCPU_PATTERN.exec(rest);
+  if (vcpuMatch && !findSku(pricing, words, providerHint)) {
+    // Memory is written like storage ("1GiB"), so reuse the size match
+    result.items.push({
+      resource: line,
+      provider: providerHint ?? defaultProvider,
+      category: 'containers',
+      sku: '',
+      quantity,
+      vcpu: Number(vcpuMatch[1]),
+      memoryGib: sizeGb ?? 0,
+    });
+    if (sizeGb === undefined) result.assumptions.push(`${line}: no memory given, priced CPU only`);
+    return;
+  }
+
+  const match = findSku(pricing, words, providerHint);
+  if (!match) {
+    result.skipped.push({
+      resource: line,
+      reason: 'no known instance type, tier or storage class',
+    });
+    return;
+  }
+
+  const item: CostItem = {
+    resource: line,
+    provider: match.provider,
+    category: match.category,
+    sku: match.sku,
+    quantity,
+  };
+
+  if (match.category === 'storage') {
+    if (sizeGb === undefined) {
+      result.skipped.push({ resource: line, reason: 'storage needs a size, e.g. `500GB`' });
+      return;
+    }
+    item.sizeGb = sizeGb;
+    result.items.push(item);
+    return;
+  }
+
+  if (match.category === 'database') {
+    item.highAvailability = HA_PATTERN.test(rest);
+    result.items.push(item);
+    if (sizeGb !== undefined) {
+      result.items.push({
+        ...item,
+        resource: `${line} (storage)`,
+        category: 'database-storage',
+        sku: '',
+        sizeGb,
+      });
+    } else {
+      result.assumptions.push(`${line}: database storage not included (no size given)`);
+    }
+    return;
+  }
+
+  result.items.push(item);
+  if (sizeGb !== undefined) {
+    const storage = pricing.providers[match.provider].defaultStorage;
+    result.items.push({
+      resource: `${line} (disk)`,
+      provider: match.provider,
+      category: 'storage',
+      sku: storage,
+      quantity,
+      sizeGb,
+    });
+    result.assumptions.push(`${line}: disk priced as ${storage}`);
+  }
+}
+
+/**
+ * Read a free-form resource list. Blank lines and `#` comments are ignored.
+ */
+export function parseResourceList(
+  content: string,
+  pricing: PricingTable,
+  defaultProvider: CloudProvider
+): ParsedCostInput {
+  const result: ParsedCostInput = { items: [], skipped: [], assumptions: [] };
+  for (const raw of content.split('\n')) {
+    const line = raw.replace(/#.*$/, '').trim();
+    if (line) parseLine(line, pricing, defaultProvider, result);
+  }
+  return result;
+}
@@ -0,0 +1,135 @@
+/**
+ * Pricing tables for `estimate_cost`. A table ships with the server
+ * (pricing.json next to this file); `devmentorai-server pricing update <file>`
+ * installs a newer one in ~/.devmentorai/pricing.json without network access.
+ */
+
+import fs from 'node:fs';
+import { z } from 'zod';
+import { DATA_DIR, PRICING_FILE, ensureDir } from '../../lib/paths.js';
+import bundledPricing from './pricing.json' with { type: 'json' };
+
+export const CLOUD_PROVIDERS = ['aws', 'azure', 'gcp'] as const;
+export type CloudProvider = (typeof CLOUD_PROVIDERS)[number];
+
+const priceList = z.record(z.string().min(1), z.number().nonnegative());
+
+const perResource = z.object({
+  vcpuHour: z.number().nonnegative(),
+  memoryGibHour: z.number().nonnegative(),
+});
+
+const providerPricingSchema = z
+  .object({
+    region: z.string().min(1),
+    /** Per instance-hour */
+    compute: priceList,
+    /** Per instance-hour, single zone */
+    database: priceList,
+    /** Per vCPU and GiB of memory, for database tiers sized by the user (Cloud SQL custom) */
+    databaseCustom: perResource.optional(),
+    /** Per GB-month */
+    storage: priceList,
+    /** Storage class of disks that don't say, e.g. Kubernetes volumes */
+    defaultStorage: z.string().min(1),
+    /** Per GB-month of database storage */
+    databaseStorage: z.number().nonnegative(),
+    /** Per vCPU and GiB of memory requested by pods, at serverless container rates */
+    containers: perResource,
+    /** Managed Kubernetes control plane, per cluster-hour */
+    kubernetesClusterHour: z.number().nonnegative(),
+  })
+  .refine((pricing) => pricing.defaultStorage in pricing.storage, {
+    message: 'defaultStorage must be one of the storage classes',
+    path: ['defaultStorage'],
+  });
+
+export const pricingTableSchema = z.object({
+  /** Date the prices were collected, YYYY-MM-DD; newer tables win */
+  version: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'version must be a YYYY-MM-DD date'),
+  currency: z.string().min(1),
+  hoursPerMonth: z.number().positive(),
+  description: z.string().optional(),
+  providers: z.object({
+    aws: providerPricingSchema,
+    azure: providerPricingSchema,
+    gcp: providerPricingSchema,
+  }),
+});
+
+export type PricingTable = z.infer<typeof pricingTableSchema>;
+export type ProviderPricing = PricingTable['providers'][CloudProvider];
+
+export interface LoadedPricing {
+  table: PricingTable;
+  source: 'bundled' | 'user';
+  /** Why ~/.devmentorai/pricing.json was not used */
+  warning?: string;
+}
+
+export const BUNDLED_PRICING: PricingTable = pricingTableSchema.parse(bundledPricing);
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .slice(0, 3)
+    .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    .join('; ');
+}
+
+/**
+ * Read and validate a pricing file. Throws with the first problems found.
+ */
+export function readPricingFile(file: string): PricingTable {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Cannot read ${file}: ${error instanceof Error ? error.message : error}`);
+  }
+  const result = pricingTableSchema.safeParse(raw);
+  if (!result.success) {
+    throw new Error(`${file} is not a valid pricing table: ${formatIssues(result.error)}`);
+  }
+  return result.data;
+}
+
+/**
+ * The pricing table to estimate with: the installed one when it is valid and
+ * at least as new as the bundled one, the bundled one otherwise
+ */
+export function loadPricing(file = PRICING_FILE): LoadedPricing {
+  if (!fs.existsSync(file)) return { table: BUNDLED_PRICING, source: 'bundled' };
+
+  try {
+    const table = readPricingFile(file);
+    if (table.version < BUNDLED_PRICING.version) {
+      return {
+        table: BUNDLED_PRICING,
+        source: 'bundled',
+        warning: `${file} (${table.version}) is older than the bundled prices (${BUNDLED_PRICING.version}) and was ignored`,
+      };
+    }
+    return { table, source: 'user' };
+  } catch (error) {
+    return {
+      table: BUNDLED_PRICING,
+      source: 'bundled',
+      warning: `${error instanceof Error ? error.message : error}; using the bundled prices`,
+    };
+  }
+}
+
+/**
+ * Validate `sourceFile` and install it as ~/.devmentorai/pricing.json
+ */
+export function installPricingFile(sourceFile: string, target = PRICING_FILE): PricingTable {
+  const table = readPricingFile(sourceFile);
+  if (table.version < BUNDLED_PRICING.version) {
+    throw new Error(
+      `${sourceFile} is version ${table.version}, older than the bundled prices (${BUNDLED_PRICING.version})`
+    );
+  }
+  ensureDir(DATA_DIR);
+  fs.writeFileSync(target, `${JSON.stringify(table, null, 2)}\n`);
+  return table;
+}
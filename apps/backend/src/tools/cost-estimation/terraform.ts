@@ -0,0 +1,395 @@
+/**
+ * Reads priceable resources out of Terraform configuration. Only literal
+ * values are used; anything computed from variables is reported as skipped so
+ * the user can fill it in.
+ */
+
+import {
+  type HclBlock,
+  type HclBody,
+  getAttribute,
+  parseHcl,
+  walkBlocks,
+} from '../config-analysis/hcl.js';
+import type { CloudProvider } from './pricing.js';
+import type { CostItem, ParsedCostInput, SkippedResource } from './types.js';
+
+/** Billed by usage rather than size; the hint says how to price them with a list line */
+const USAGE_BASED: Record<string, string> = {
+  aws_s3_bucket: 'billed per GB stored; add a line such as `s3-standard 500GB`',
+  aws_efs_file_system: 'billed per GB stored; add a line such as `efs-standard 100GB`',
+  aws_lambda_function: 'billed per request and GB-second',
+  aws_dynamodb_table: 'billed per request or provisioned capacity',
+  aws_nat_gateway: 'billed per hour and per GB processed',
+  aws_lb: 'billed per hour and per LCU',
+  aws_cloudfront_distribution: 'billed per request and GB transferred',
+  azurerm_storage_account: 'billed per GB stored; add a line such as `blob-hot 500GB`',
+  azurerm_function_app: 'billed per execution',
+  azurerm_linux_function_app: 'billed per execution',
+  google_storage_bucket: 'billed per GB stored; add a line such as `gcs-standard 500GB`',
+  google_cloud_run_service: 'billed per request and vCPU-second',
+  google_cloud_run_v2_service: 'billed per request and vCPU-second',
+  google_cloudfunctions_function: 'billed per invocation',
+  google_cloudfunctions2_function: 'billed per invocation',
+};
+
+const KUBERNETES_CLUSTERS: Record<string, CloudProvider> = {
+  aws_eks_cluster: 'aws',
+  azurerm_kubernetes_cluster: 'azure',
+  google_container_cluster: 'gcp',
+};
+
+interface ResourceContext {
+  address: string;
+  body: HclBody;
+  count: number;
+  items: CostItem[];
+  skipped: SkippedResource[];
+  assumptions: string[];
+}
+
+function childBlock(body: HclBody, type: string): HclBlock | undefined {
+  return body.blocks.find((block) => block.type === type);
+}
+
+function literal(body: HclBody | undefined, name: string): string | number | boolean | undefined {
+  return body ? getAttribute(body, name)?.expression.value : undefined;
+}
+
+function literalString(body: HclBody | undefined, name: string): string | undefined {
+  const value = literal(body, name);
+  return typeof value === 'string' ? value : undefined;
+}
+
+function literalNumber(body: HclBody | undefined, name: string): number | undefined {
+  const value = literal(body, name);
+  const number = typeof value === 'string' && /^\d+(\.\d+)?$/.test(value) ? Number(value) : value;
+  // `1e400` is a literal too, but not one to price
+  return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+}
+
+/**
+ * Whether a literal count is usable, after recording why the resource was
+ * skipped when it isn't (e.g. `count = 1.5`)
+ */
+function wholeCount(
+  skipped: SkippedResource[],
+  address: string,
+  body: HclBody,
+  name: string,
+  count: number
+): boolean {
+  if (Number.isSafeInteger(count)) return true;
+  skipped.push({
+    resource: address,
+    reason: `\`${name} = ${getAttribute(body, name)?.expression.source}\` is not a whole number`,
+  });
+  return false;
+}
+
+/**
+ * A literal SKU attribute, or undefined after recording why the resource was
+ * skipped (missing or computed)
+ */
+function requireSku(context: ResourceContext, body: HclBody, name: string): string | undefined {
+  const sku = literalString(body, name);
+  if (sku) return sku;
+  const attribute = getAttribute(body, name);
+  context.skipped.push({
+    resource: context.address,
+    reason: attribute
+      ? `\`${name}\` is computed (\`${attribute.expression.source}\`); use a literal value`
+      : `\`${name}\` is not set`,
+  });
+  return undefined;
+}
+
+function sizeOr(
+  context: ResourceContext,
+  body: HclBody | undefined,
+  name: string,
+  fallback: number,
+  what: string
+): number {
+  const size = literalNumber(body, name);
+  if (size !== undefined) return size;
+  context.assumptions.push(`${context.address}: ${what} assumed to be ${fallback} GB`);
+  return fallback;
+}
+
+function disk(
+  context: ResourceContext,
+  provider: CloudProvider,
+  sku: string,
+  sizeGb: number,
+  resource = `${context.address} (disk)`
+): void {
+  context.items.push({
+    resource,
+    provider,
+    category: 'storage',
+    sku,
+    quantity: context.count,
+    sizeGb,
+  });
+}
+
+function compute(context: ResourceContext, provider: CloudProvider, sku: string): void {
+  context.items.push({
+    resource: context.address,
+    provider,
+    category: 'compute',
+    sku,
+    quantity: context.count,
+  });
+}
+
+function database(
+  context: ResourceContext,
+  provider: CloudProvider,
+  sku: string,
+  storageGb: number,
+  highAvailability: boolean
+): void {
+  context.items.push(
+    {
+      resource: context.address,
+      provider,
+      category: 'database',
+      sku,
+      quantity: context.count,
+      highAvailability,
+    },
+    {
+      resource: `${context.address} (storage)`,
+      provider,
+      category: 'database-storage',
+      sku: '',
+      quantity: context.count,
+      sizeGb: storageGb,
+      highAvailability,
+    }
+  );
+}
+
+function nodeCount(
+  context: ResourceContext,
+  body: HclBody,
+  name: string,
+  fallback = 1
+): number | undefined {
+  const nodes = literalNumber(body, name);
+  if (nodes === undefined) {
+    context.assumptions.push(`${context.address}: \`${name}\` not literal, assumed ${fallback}`);
+    return fallback;
+  }
+  return wholeCount(context.skipped, context.address, body, name, nodes) ? nodes : undefined;
+}
+
+type ResourceReader = (context: ResourceContext) => void;
+
+const READERS: Record<string, ResourceReader> = {
+  aws_instance: (context) => {
+    const sku = requireSku(context, context.body, 'instance_type');
+    if (!sku) return;
+    compute(context, 'aws', sku);
+    const root = childBlock(context.body, 'root_block_device')?.body;
+    const size = sizeOr(context, root, 'volume_size', 8, 'root volume');
+    disk(context, 'aws', literalString(root, 'volume_type') ?? 'gp3', size);
+  },
+  aws_ebs_volume: (context) => {
+    const size = sizeOr(context, context.body, 'size', 8, 'volume size');
+    disk(context, 'aws', literalString(context.body, 'type') ?? 'gp2', size, context.address);
+  },
+  aws_db_instance: (context) => {
+    const sku = requireSku(context, context.body, 'instance_class');
+    if (!sku) return;
+    const storage = sizeOr(context, context.body, 'allocated_storage', 20, 'allocated storage');
+    database(context, 'aws', sku, storage, literal(context.body, 'multi_az') === true);
+  },
+  aws_eks_node_group: (context) => {
+    const types = getAttribute(context.body, 'instance_types')?.expression.strings ?? [];
+    const sku = types[0] ?? 't3.medium';
+    if (!types[0]) {
+      context.assumptions.push(
+        `${context.address}: \`instance_types\` not set, EKS default t3.medium`
+      );
+    }
+    const scaling = childBlock(context.body, 'scaling_config')?.body;
+    const nodes = scaling ? nodeCount(context, scaling, 'desired_size') : 1;
+    if (nodes === undefined) return;
+    const nodeContext = { ...context, count: context.count * nodes };
+    compute(nodeContext, 'aws', sku);
+    disk(nodeContext, 'aws', 'gp3', sizeOr(context, context.body, 'disk_size', 20, 'node disk'));
+  },
+
+  azurerm_linux_virtual_machine: (context) => azureVm(context),
+  azurerm_windows_virtual_machine: (context) => {
+    azureVm(context);
+    context.assumptions.push(`${context.address}: Windows license not included`);
+  },
+  azurerm_managed_disk: (context) => {
+    const sku = requireSku(context, context.body, 'storage_account_type');
+    if (!sku) return;
+    const size = sizeOr(context, context.body, 'disk_size_gb', 32, 'disk size');
+    disk(context, 'azure', sku, size, context.address);
+  },
+  azurerm_kubernetes_cluster: (context) => {
+    const pool = childBlock(context.body, 'default_node_pool')?.body;
+    if (pool)
+      azureNodePool({ ...context, address: `${context.address} (default_node_pool)` }, pool);
+  },
+  azurerm_kubernetes_cluster_node_pool: (context) => azureNodePool(context, context.body),
+  azurerm_postgresql_flexible_server: (context) => {
+    const sku = requireSku(context, context.body, 'sku_name');
+    if (!sku) return;
+    const storageMb = literalNumber(context.body, 'storage_mb');
+    const storage = storageMb ? storageMb / 1024 : 32;
+    if (!storageMb) context.assumptions.push(`${context.address}: storage assumed to be 32 GB`);
+    const ha = childBlock(context.body, 'high_availability') !== undefined;
+    database(context, 'azure', sku, storage, ha);
+  },
+
+  google_compute_instance: (context) => {
+    const sku = requireSku(context, context.body, 'machine_type');
+    if (!sku) return;
+    compute(context, 'gcp', sku);
+    const boot = childBlock(context.body, 'boot_disk')?.body;
+    const params = boot && childBlock(boot, 'initialize_params')?.body;
+    const size = sizeOr(context, params, 'size', 10, 'boot disk');
+    disk(context, 'gcp', literalString(params, 'type') ?? 'pd-standard', size);
+  },
+  google_compute_disk: (context) => {
+    const size = sizeOr(context, context.body, 'size', 10, 'disk size');
+    disk(
+      context,
+      'gcp',
+      literalString(context.body, 'type') ?? 'pd-standard',
+      size,
+      context.address
+    );
+  },
+  google_container_node_pool: (context) => {
+    const config = childBlock(context.body, 'node_config')?.body;
+    const sku = literalString(config, 'machine_type') ?? 'e2-medium';
+    if (!literalString(config, 'machine_type')) {
+      context.assumptions.push(
+        `${context.address}: \`machine_type\` not set, GKE default e2-medium`
+      );
+    }
+    const nodes = nodeCount(context, context.body, 'node_count');
+    if (nodes === undefined) return;
+    context.assumptions.push(
+      `${context.address}: \`node_count\` is per zone; counted once (single-zone pool)`
+    );
+    const nodeContext = { ...context, count: context.count * nodes };
+    compute(nodeContext, 'gcp', sku);
+    const size = sizeOr(context, config, 'disk_size_gb', 100, 'node disk');
+    disk(nodeContext, 'gcp', literalString(config, 'disk_type') ?? 'pd-balanced', size);
+  },
+  google_sql_database_instance: (context) => {
+    const settings = childBlock(context.body, 'settings')?.body;
+    if (!settings) {
+      context.skipped.push({ resource: context.address, reason: '`settings` block is missing' });
+      return;
+    }
+    const sku = requireSku(context, settings, 'tier');
+    if (!sku) return;
+    const storage = sizeOr(context, settings, 'disk_size', 10, 'disk size');
+    database(
+      context,
+      'gcp',
+      sku,
+      storage,
+      literalString(settings, 'availability_type') === 'REGIONAL'
+    );
+  },
+};
+
+function azureVm(context: ResourceContext): void {
+  const sku = requireSku(context, context.body, 'size');
+  if (!sku) return;
+  compute(context, 'azure', sku);
+  const osDisk = childBlock(context.body, 'os_disk')?.body;
+  const size = sizeOr(context, osDisk, 'disk_size_gb', 30, 'OS disk');
+  disk(context, 'azure', literalString(osDisk, 'storage_account_type') ?? 'Premium_LRS', size);
+}
+
+function azureNodePool(context: ResourceContext, pool: HclBody): void {
+  const sku = requireSku(context, pool, 'vm_size');
+  if (!sku) return;
+  const countName = literalNumber(pool, 'node_count') !== undefined ? 'node_count' : 'min_count';
+  const nodes = literalNumber(pool, countName);
+  if (nodes === undefined) context.assumptions.push(`${context.address}: assumed 1 node`);
+  if (
+    nodes !== undefined &&
+    !wholeCount(context.skipped, context.address, pool, countName, nodes)
+  ) {
+    return;
+  }
+  const nodeContext = { ...context, count: context.count * (nodes ?? 1) };
+  compute(nodeContext, 'azure', sku);
+  const size = sizeOr(context, pool, 'os_disk_size_gb', 128, 'node OS disk');
+  disk(nodeContext, 'azure', 'Premium_LRS', size);
+}
+
+/**
+ * Read the resources of a Terraform snippet that have a monthly price
+ */
+export function parseTerraformCosts(content: string): ParsedCostInput {
+  const { body, error } = parseHcl(content);
+  if (error) {
+    throw new Error(`Terraform syntax error at line ${error.line}: ${error.message}`);
+  }
+
+  const result: ParsedCostInput = { items: [], skipped: [], assumptions: [] };
+  const unpriced = new Set<string>();
+
+  for (const block of walkBlocks(body)) {
+    if (block.type !== 'resource' || block.labels.length < 2) continue;
+    const [type, name] = block.labels;
+    const address = `${type}.${name}`;
+
+    let count = 1;
+    const countAttribute = getAttribute(block.body, 'count');
+    if (countAttribute) {
+      const literalCount = literalNumber(block.body, 'count');
+      if (literalCount === undefined) {
+        result.assumptions.push(
+          `${address}: \`count = ${countAttribute.expression.source}\` assumed to be 1`
+        );
+      } else if (!wholeCount(result.skipped, address, block.body, 'count', literalCount)) {
+        continue;
+      }
+      count = literalCount ?? 1;
+    } else if (getAttribute(block.body, 'for_each')) {
+      result.assumptions.push(`${address}: \`for_each\` counted as a single instance`);
+    }
+    if (count === 0) continue;
+
+    const context: ResourceContext = { address, body: block.body, count, ...result };
+    READERS[type]?.(context);
+
+    const cluster = KUBERNETES_CLUSTERS[type];
+    if (cluster) {
+      result.items.push({
+        resource: `${address} (control plane)`,
+        provider: cluster,
+        category: 'cluster',
+        sku: '',
+        quantity: count,
+      });
+    } else if (USAGE_BASED[type]) {
+      result.skipped.push({ resource: address, reason: USAGE_BASED[type] });
+    } else if (!READERS[type]) {
+      unpriced.add(type);
+    }
+  }
+
+  if (unpriced.size > 0) {
+    result.assumptions.push(
+      `No monthly price for ${[...unpriced].map((type) => `\`${type}\``).join(', ')} (free or not in the pricing table)`
+    );
+  }
+  return result;
+}
@@ -0,0 +1,75 @@
+/**
+ * Shared types for cost estimation inputs
+ */
+
+import type { CloudProvider } from './pricing.js';
+
+export type CostCategory =
+  | 'compute'
+  | 'database'
+  | 'database-storage'
+  | 'storage'
+  | 'containers'
+  | 'cluster';
+
+/** Something that costs money, as read from the input */
+export interface CostItem {
+  /** Terraform address, Kubernetes object or list line */
+  resource: string;
+  provider: CloudProvider;
+  category: CostCategory;
+  /** Instance type, database tier or storage class; empty for containers and clusters */
+  sku: string;
+  /** Instances, nodes or replicas */
+  quantity: number;
+  /** Size of storage items */
+  sizeGb?: number;
+  /** Requests of one replica, for containers */
+  vcpu?: number;
+  memoryGib?: number;
+  /** Multi-AZ or regional databases, billed for a standby as well */
+  highAvailability?: boolean;
+}
+
+/** Something in the input that wasn't priced, and why */
+export interface SkippedResource {
+  resource: string;
+  reason: string;
+}
+
+export interface ParsedCostInput {
+  items: CostItem[];
+  skipped: SkippedResource[];
+  /** Defaults filled in for values the input left out */
+  assumptions: string[];
+}
+
+export type CostInputFormat = 'terraform' | 'kubernetes' | 'list';
+
+/** One priced row of the estimate */
+export interface CostLine {
+  resource: string;
+  provider: CloudProvider;
+  /** e.g. `t3.medium`, `500 GB gp3`, `0.5 vCPU / 1 GiB` */
+  description: string;
+  quantity: number;
+  /** Monthly price of one unit */
+  unitMonthly: number;
+  monthly: number;
+}
+
+export interface CostEstimate {
+  format: CostInputFormat;
+  lines: CostLine[];
+  total: number;
+  currency: string;
+  skipped: SkippedResource[];
+  assumptions: string[];
+  pricing: {
+    version: string;
+    source: 'bundled' | 'user';
+    regions: Partial<Record<CloudProvider, string>>;
+  };
+  /** Markdown report */
+  report: string;
+}
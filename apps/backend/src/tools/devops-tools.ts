@@ -3,13 +3,32 @@
  *
  * These tools extend Copilot's capabilities with specialized DevOps functionality:
  * - Configuration file analysis
+ * - Terraform plan review
+ * - IAM policy review
  * - Infrastructure best practices checking
  * - Log analysis
- * - Cost estimation helpers
+ * - Cost estimation
  */
 
 import * as fs from 'node:fs/promises';
 import * as path from 'node:path';
+import type { ConfigType } from '@devmentorai/shared';
+import { analyzeConfig } from './config-analysis/analyzer.js';
+import { loadAnalyzeOptions } from './config-analysis/user-rules.js';
+import { estimateCost } from './cost-estimation/estimator.js';
+import type { CloudProvider } from './cost-estimation/pricing.js';
+import type { CostInputFormat } from './cost-estimation/types.js';
+import { type IamPolicyType, analyzeIamPolicy } from './iam-policy.js';
+import { analyzeTerraformPlan } from './terraform-plan.js';
+import { type WorkspaceAccessResult, isSecretPath } from './workspace-access.js';
+
+/**
+ * Per-call context handed to tool handlers by the session running them
+ */
+export interface ToolContext {
+  /** Check a path against the session's workspace roots and secret deny-list */
+  checkPathAccess(requestedPath: string): Promise<WorkspaceAccessResult>;
+}
 
 export interface Tool {
   name: string;
@@ -26,16 +45,11 @@ export interface Tool {
     >;
     required: string[];
   };
-  handler: (params: Record<string, unknown>) => Promise<string>;
+  handler: (params: Record<string, unknown>, context?: ToolContext) => Promise<string>;
 }
 
-// Allowed directories for file access (security sandbox)
-const ALLOWED_DIRECTORIES = [process.env.HOME || '/home', '/tmp'];
-
-function isPathAllowed(filePath: string): boolean {
-  const resolved = path.resolve(filePath);
-  return ALLOWED_DIRECTORIES.some((dir) => resolved.startsWith(dir));
-}
+const NO_WORKSPACE_MESSAGE =
+  'Error: Access denied. File tools are only available inside a session with workspace roots.';
 
 /**
  * Read file contents with security checks
@@ -58,16 +72,16 @@ export const readFileTool: Tool = {
     },
     required: ['path'],
   },
-  handler: async (params) => {
+  handler: async (params, context) => {
     const filePath = params.path as string;
     const maxLines = (params.maxLines as number) || 500;
 
-    if (!isPathAllowed(filePath)) {
-      return `Error: Access denied. Path "${filePath}" is outside allowed directories.`;
-    }
+    if (!context) return NO_WORKSPACE_MESSAGE;
+    const access = await context.checkPathAccess(filePath);
+    if (!access.allowed) return access.message;
 
     try {
-      const content = await fs.readFile(filePath, 'utf-8');
+      const content = await fs.readFile(access.realPath, 'utf-8');
       const lines = content.split('\n');
 
       if (lines.length > maxLines) {
@@ -104,13 +118,13 @@ export const listDirectoryTool: Tool = {
     },
     required: ['path'],
   },
-  handler: async (params) => {
+  handler: async (params, context) => {
     const dirPath = params.path as string;
     const recursive = (params.recursive as boolean) || false;
 
-    if (!isPathAllowed(dirPath)) {
-      return `Error: Access denied. Path "${dirPath}" is outside allowed directories.`;
-    }
+    if (!context) return NO_WORKSPACE_MESSAGE;
+    const access = await context.checkPathAccess(dirPath);
+    if (!access.allowed) return access.message;
 
     async function listDir(dir: string, depth = 0): Promise<string[]> {
       if (depth > 3) return [];
@@ -121,6 +135,8 @@ export const listDirectoryTool: Tool = {
       for (const entry of entries) {
         const prefix = '  '.repeat(depth);
         const fullPath = path.join(dir, entry.name);
+        // Secrets are left out of listings rather than shown and then refused
+        if (isSecretPath(fullPath)) continue;
 
         if (entry.isDirectory()) {
           results.push(`${prefix}📁 ${entry.name}/`);
@@ -138,7 +154,7 @@ export const listDirectoryTool: Tool = {
     }
 
     try {
-      const contents = await listDir(dirPath);
+      const contents = await listDir(access.realPath);
       return contents.join('\n');
     } catch (error) {
       return `Error listing directory: ${error}`;
@@ -163,7 +179,7 @@ function formatSize(bytes: number): string {
 export const analyzeConfigTool: Tool = {
   name: 'analyze_config',
   description:
-    'Analyze a configuration file for DevOps best practices. Supports Kubernetes, Docker, Terraform, and CloudFormation.',
+    'Analyze a configuration file for DevOps best practices and any custom policy rules. Supports Kubernetes (multi-document YAML), Dockerfiles, Terraform, CloudFormation and GitHub Actions. Findings carry a rule ID, severity, line and column, and a suggested fix.',
   parameters: {
     type: 'object',
     properties: {
@@ -180,240 +196,112 @@ export const analyzeConfigTool: Tool = {
     required: ['content'],
   },
   handler: async (params) => {
-    const content = params.content as string;
-    let configType = (params.type as string) || 'auto';
-
-    // Auto-detect config type
-    if (configType === 'auto') {
-      configType = detectConfigType(content);
-    }
-
-    const issues: string[] = [];
-    const suggestions: string[] = [];
-
-    switch (configType) {
-      case 'kubernetes':
-        analyzeKubernetes(content, issues, suggestions);
-        break;
-      case 'docker':
-        analyzeDocker(content, issues, suggestions);
-        break;
-      case 'terraform':
-        analyzeTerraform(content, issues, suggestions);
-        break;
-      case 'cloudformation':
-        analyzeCloudFormation(content, issues, suggestions);
-        break;
-      case 'github-actions':
-        analyzeGitHubActions(content, issues, suggestions);
-        break;
-      default:
-        return 'Could not determine configuration type. Please specify the type parameter.';
+    const type = (params.type as ConfigType | 'auto' | undefined) || 'auto';
+    const result = analyzeConfig(params.content as string, type, loadAnalyzeOptions());
+    if (!result) {
+      return 'Could not determine configuration type. Please specify the type parameter.';
     }
-
-    let result = `## Configuration Analysis (${configType})\n\n`;
-
-    if (issues.length > 0) {
-      result += '### ⚠️ Issues Found\n';
-      issues.forEach((issue, i) => {
-        result += `${i + 1}. ${issue}\n`;
-      });
-      result += '\n';
-    } else {
-      result += '### ✅ No Critical Issues Found\n\n';
-    }
-
-    if (suggestions.length > 0) {
-      result += '### 💡 Suggestions\n';
-      suggestions.forEach((suggestion, i) => {
-        result += `${i + 1}. ${suggestion}\n`;
-      });
-    }
-
-    return result;
+    return result.report;
   },
 };
 
-function detectConfigType(content: string): string {
-  if (content.includes('apiVersion:') && content.includes('kind:')) return 'kubernetes';
-  if (content.includes('FROM ') || content.includes('COPY ') || content.includes('RUN '))
-    return 'docker';
-  if (content.includes('resource "') || content.includes('provider "')) return 'terraform';
-  if (content.includes('AWSTemplateFormatVersion') || content.includes('Resources:'))
-    return 'cloudformation';
-  if (content.includes('jobs:') && content.includes('runs-on:')) return 'github-actions';
-  return 'unknown';
-}
-
-function analyzeKubernetes(content: string, issues: string[], suggestions: string[]): void {
-  // Resource limits
-  if (!content.includes('resources:') || !content.includes('limits:')) {
-    issues.push(
-      'Missing resource limits. Pods without limits can consume excessive cluster resources.'
-    );
-  }
-
-  // Security context
-  if (!content.includes('securityContext:')) {
-    suggestions.push('Consider adding securityContext to restrict container privileges.');
-  }
-
-  // Image tag
-  if (content.includes(':latest')) {
-    issues.push('Using :latest tag. Pin specific image versions for reproducible deployments.');
-  }
-
-  // Probes
-  if (!content.includes('livenessProbe:') && !content.includes('readinessProbe:')) {
-    suggestions.push('Add health probes (livenessProbe/readinessProbe) for better reliability.');
-  }
-
-  // Namespace
-  if (!content.includes('namespace:')) {
-    suggestions.push('Explicitly specify namespace to avoid deploying to default namespace.');
-  }
-
-  // Run as non-root
-  if (content.includes('runAsRoot: true') || content.includes('privileged: true')) {
-    issues.push('Container configured to run as root or privileged. This is a security risk.');
-  }
-}
-
-function analyzeDocker(content: string, issues: string[], suggestions: string[]): void {
-  const lines = content.split('\n');
-
-  // Base image
-  const fromLine = lines.find((l) => l.trim().startsWith('FROM '));
-  if (fromLine?.includes(':latest')) {
-    issues.push('Using :latest base image. Pin a specific version for reproducible builds.');
-  }
-
-  // Multiple RUN commands
-  const runCount = lines.filter((l) => l.trim().startsWith('RUN ')).length;
-  if (runCount > 5) {
-    suggestions.push(
-      `${runCount} separate RUN commands. Consider combining them to reduce image layers.`
-    );
-  }
-
-  // COPY vs ADD
-  if (content.includes('ADD ') && !content.includes('.tar') && !content.includes('http')) {
-    suggestions.push(
-      'Use COPY instead of ADD for simple file copying. ADD has extra features that may be unnecessary.'
-    );
-  }
-
-  // .dockerignore reminder
-  if (content.includes('COPY . ') || content.includes('COPY ./ ')) {
-    suggestions.push(
-      'Copying entire context. Ensure .dockerignore is configured to exclude unnecessary files.'
-    );
-  }
-
-  // Non-root user
-  if (!content.includes('USER ')) {
-    suggestions.push('No USER directive. Consider running as non-root user for security.');
-  }
-
-  // Multi-stage builds
-  if (
-    (!content.includes('AS ') && content.includes('npm install')) ||
-    content.includes('go build')
-  ) {
-    suggestions.push('Consider multi-stage builds to reduce final image size.');
-  }
-}
-
-function analyzeTerraform(content: string, issues: string[], suggestions: string[]): void {
-  // Version constraints
-  if (!content.includes('required_version') && !content.includes('required_providers')) {
-    issues.push(
-      'Missing version constraints. Pin Terraform and provider versions for reproducibility.'
-    );
-  }
-
-  // Hardcoded values
-  const hardcodedPatterns = [/ami-[a-z0-9]+/, /subnet-[a-z0-9]+/, /sg-[a-z0-9]+/, /vpc-[a-z0-9]+/];
-  for (const pattern of hardcodedPatterns) {
-    if (pattern.test(content)) {
-      suggestions.push(
-        'Hardcoded AWS resource IDs detected. Consider using data sources or variables.'
-      );
-      break;
+/**
+ * Summarize a Terraform plan and flag risky changes
+ */
+export const analyzeTerraformPlanTool: Tool = {
+  name: 'analyze_terraform_plan',
+  description:
+    'Analyze Terraform plan JSON (the output of `terraform show -json <planfile>`). Counts creates, updates, replacements and destroys per resource type, and flags destroys, forced replacements, widened IAM or security group access, values that become unknown and drift. Use it whenever the user shares a plan instead of counting resources yourself.',
+  parameters: {
+    type: 'object',
+    properties: {
+      plan: {
+        type: 'string',
+        description: 'The `terraform show -json` output',
+      },
+    },
+    required: ['plan'],
+  },
+  handler: async (params) => {
+    try {
+      return analyzeTerraformPlan(params.plan as string).report;
+    } catch (error) {
+      return `Error: ${error instanceof Error ? error.message : String(error)}`;
     }
-  }
-
-  // State backend
-  if (!content.includes('backend "')) {
-    suggestions.push('No remote backend configured. Use S3/GCS/Azure for team collaboration.');
-  }
+  },
+};
 
-  // Sensitive variables
-  if (content.includes('password') || content.includes('secret') || content.includes('api_key')) {
-    if (!content.includes('sensitive = true')) {
-      issues.push('Potentially sensitive variables without sensitive = true flag.');
+/**
+ * Review AWS IAM policies for over-broad access
+ */
+export const analyzeIamPolicyTool: Tool = {
+  name: 'analyze_iam_policy',
+  description:
+    'Analyze an AWS IAM policy (identity, resource or trust policy JSON). Reports wildcard actions and resources, privilege-escalation action combinations, missing conditions, public principals and NotAction/NotResource, and suggests a least-privilege rewrite. Use it whenever the user shares a policy document.',
+  parameters: {
+    type: 'object',
+    properties: {
+      policy: {
+        type: 'string',
+        description: 'The policy JSON, or AWS CLI output containing it (e.g. `aws iam get-role`)',
+      },
+      policyType: {
+        type: 'string',
+        enum: ['identity', 'resource', 'trust', 'auto'],
+        description: 'Kind of policy (default: auto-detect)',
+      },
+    },
+    required: ['policy'],
+  },
+  handler: async (params) => {
+    try {
+      const type = (params.policyType as IamPolicyType | 'auto' | undefined) || 'auto';
+      return analyzeIamPolicy(params.policy as string, type).report;
+    } catch (error) {
+      return `Error: ${error instanceof Error ? error.message : String(error)}`;
     }
-  }
-
-  // Encryption
-  if (content.includes('aws_s3_bucket') && !content.includes('server_side_encryption')) {
-    suggestions.push('S3 bucket without explicit encryption configuration.');
-  }
-}
+  },
+};
 
-function analyzeCloudFormation(content: string, issues: string[], suggestions: string[]): void {
-  // DeletionPolicy
-  if (content.includes('AWS::RDS::') || content.includes('AWS::S3::Bucket')) {
-    if (!content.includes('DeletionPolicy')) {
-      issues.push('Stateful resources without DeletionPolicy. Data may be lost on stack deletion.');
+/**
+ * Estimate monthly cloud cost
+ */
+export const estimateCostTool: Tool = {
+  name: 'estimate_cost',
+  description:
+    'Estimate the monthly cost of cloud resources from a Terraform snippet, Kubernetes manifests (priced by resource requests) or a free-form list such as "3x t3.medium" or "gp3 500GB". Uses bundled on-demand list prices for common AWS, Azure and GCP compute, storage and managed database SKUs, and lists every assumption and anything it could not price. Always pass the assumptions on to the user.',
+  parameters: {
+    type: 'object',
+    properties: {
+      input: {
+        type: 'string',
+        description: 'Terraform configuration, Kubernetes YAML, or one resource per line',
+      },
+      format: {
+        type: 'string',
+        enum: ['terraform', 'kubernetes', 'list', 'auto'],
+        description: 'Kind of input (default: auto-detect)',
+      },
+      provider: {
+        type: 'string',
+        enum: ['aws', 'azure', 'gcp'],
+        description:
+          'Cloud to price Kubernetes workloads and list lines that do not name one (default: aws)',
+      },
+    },
+    required: ['input'],
+  },
+  handler: async (params) => {
+    try {
+      return estimateCost(params.input as string, {
+        format: (params.format as CostInputFormat | 'auto' | undefined) || 'auto',
+        provider: params.provider as CloudProvider | undefined,
+      }).report;
+    } catch (error) {
+      return `Error: ${error instanceof Error ? error.message : String(error)}`;
     }
-  }
-
-  // UpdateReplacePolicy
-  if (!content.includes('UpdateReplacePolicy')) {
-    suggestions.push('Consider adding UpdateReplacePolicy for stateful resources.');
-  }
-
-  // Stack drift detection hint
-  suggestions.push(
-    'Run `aws cloudformation detect-stack-drift` regularly to catch manual changes.'
-  );
-
-  // Parameters without constraints
-  if (content.includes('Parameters:') && !content.includes('AllowedValues')) {
-    suggestions.push('Consider adding AllowedValues constraints to parameters.');
-  }
-}
-
-function analyzeGitHubActions(content: string, issues: string[], suggestions: string[]): void {
-  // Pinned actions
-  if (content.includes('uses: ') && !content.includes('@v') && !content.includes('@sha')) {
-    issues.push('Actions without version pinning. Pin to specific versions or SHA for security.');
-  }
-
-  // Secrets in env
-  if (content.includes('${{ secrets.') && content.includes('echo ')) {
-    issues.push('Potential secret exposure in echo/print commands.');
-  }
-
-  // Permissions
-  if (!content.includes('permissions:')) {
-    suggestions.push('Explicitly define job permissions for better security (least privilege).');
-  }
-
-  // Caching
-  if (
-    (content.includes('npm ') || content.includes('pip ') || content.includes('go ')) &&
-    !content.includes('actions/cache')
-  ) {
-    suggestions.push('Consider adding caching to speed up workflows.');
-  }
-
-  // Timeout
-  if (!content.includes('timeout-minutes:')) {
-    suggestions.push('Add timeout-minutes to prevent stuck workflows from running indefinitely.');
-  }
-}
+  },
+};
 
 /**
  * Analyze error logs
@@ -633,6 +521,9 @@ export const devopsTools: Tool[] = [
   readFileTool,
   listDirectoryTool,
   analyzeConfigTool,
+  analyzeTerraformPlanTool,
+  analyzeIamPolicyTool,
+  estimateCostTool,
   analyzeErrorTool,
   fetchUrlTool,
 ];
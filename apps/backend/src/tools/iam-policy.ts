@@ -0,0 +1,800 @@
+/**
+ * AWS IAM policy analysis for `analyze_iam_policy`: checks identity, resource
+ * and trust policies for wildcards, privilege-escalation paths, missing
+ * conditions, public principals and `NotAction`, and suggests a
+ * least-privilege rewrite with placeholders for the values it can't know.
+ */
+
+import type { FindingSeverity } from '@devmentorai/shared';
+
+export type IamPolicyType = 'identity' | 'resource' | 'trust';
+
+export interface IamPolicyFinding {
+  /** Stable rule ID, e.g. `IAM001` */
+  ruleId: string;
+  severity: FindingSeverity;
+  /** The statement's Sid, or `Statement[n]` */
+  statement: string;
+  message: string;
+  fix?: string;
+}
+
+export interface IamPolicySuggestion {
+  policy: Record<string, unknown>;
+  /** What was changed and what the placeholders stand for */
+  notes: string[];
+}
+
+export interface IamPolicyAnalysis {
+  policyType: IamPolicyType;
+  statements: number;
+  /** Most severe first */
+  findings: IamPolicyFinding[];
+  summary: Record<FindingSeverity, number>;
+  /** Least-privilege rewrite; null when there is nothing to tighten */
+  suggestion: IamPolicySuggestion | null;
+  /** Markdown summary, as the model sees it */
+  report: string;
+}
+
+type Values = Record<string, unknown>;
+
+interface Principal {
+  kind: string;
+  value: string;
+}
+
+interface Statement {
+  index: number;
+  label: string;
+  raw: Values;
+  effect: 'Allow' | 'Deny';
+  actions: string[];
+  notActions?: string[];
+  resources: string[];
+  notResources?: string[];
+  principals: Principal[];
+  notPrincipal: boolean;
+  conditionKeys: string[];
+}
+
+const SEVERITY_ORDER: FindingSeverity[] = ['error', 'warning', 'info'];
+
+const POLICY_VERSION = '2012-10-17';
+
+/** Stands in for actions the rewrite can't infer */
+const PLACEHOLDER_ACTION = 'SERVICE:ACTION';
+
+/** Keys under which AWS CLI and API responses wrap a policy document */
+const WRAPPER_KEYS = [
+  'PolicyVersion',
+  'Role',
+  'Document',
+  'PolicyDocument',
+  'AssumeRolePolicyDocument',
+  'Policy',
+];
+
+const READ_ONLY_ACTION = /^(Get|List|Describe|Head|View|Search|Lookup|BatchGet|Query|Scan)/i;
+
+const ASSUME_ROLE_ACTION = /^sts:(AssumeRole\w*|TagSession|SetSourceIdentity)$/i;
+
+/** Combinations of actions that let a principal grant itself more access */
+const ESCALATION_PATHS: Array<{ actions: string[]; how: string }> = [
+  { actions: ['iam:CreatePolicyVersion'], how: 'rewrite a managed policy it is attached to' },
+  { actions: ['iam:SetDefaultPolicyVersion'], how: 'switch a policy to a broader old version' },
+  { actions: ['iam:AttachUserPolicy'], how: 'attach AdministratorAccess to a user' },
+  { actions: ['iam:AttachGroupPolicy'], how: 'attach AdministratorAccess to a group' },
+  { actions: ['iam:AttachRolePolicy'], how: 'attach AdministratorAccess to a role' },
+  { actions: ['iam:PutUserPolicy'], how: 'add an inline admin policy to a user' },
+  { actions: ['iam:PutGroupPolicy'], how: 'add an inline admin policy to a group' },
+  { actions: ['iam:PutRolePolicy'], how: 'add an inline admin policy to a role' },
+  { actions: ['iam:AddUserToGroup'], how: 'join a more privileged group' },
+  { actions: ['iam:CreateAccessKey'], how: 'create access keys for another user' },
+  { actions: ['iam:CreateLoginProfile'], how: 'set a console password for another user' },
+  { actions: ['iam:UpdateLoginProfile'], how: "reset another user's console password" },
+  {
+    actions: ['iam:UpdateAssumeRolePolicy', 'sts:AssumeRole'],
+    how: 'trust itself in any role and assume it',
+  },
+  {
+    actions: ['iam:PassRole', 'ec2:RunInstances'],
+    how: 'launch an instance with a more privileged role',
+  },
+  {
+    actions: ['iam:PassRole', 'lambda:CreateFunction', 'lambda:InvokeFunction'],
+    how: 'run a function as a more privileged role',
+  },
+  {
+    actions: ['iam:PassRole', 'lambda:CreateFunction', 'lambda:CreateEventSourceMapping'],
+    how: 'run a function as a more privileged role',
+  },
+  { actions: ['lambda:UpdateFunctionCode'], how: "run code with an existing function's role" },
+  {
+    actions: ['iam:PassRole', 'cloudformation:CreateStack'],
+    how: 'create a stack that runs as a more privileged role',
+  },
+  {
+    actions: ['iam:PassRole', 'glue:CreateDevEndpoint'],
+    how: 'open a Glue endpoint with a more privileged role',
+  },
+  {
+    actions: ['iam:PassRole', 'ecs:RegisterTaskDefinition', 'ecs:RunTask'],
+    how: 'run a task with a more privileged role',
+  },
+];
+
+/** ARN templates used to scope write actions granted on `*` */
+const RESOURCE_TEMPLATES: Record<string, string[]> = {
+  s3: ['arn:aws:s3:::BUCKET_NAME', 'arn:aws:s3:::BUCKET_NAME/*'],
+  iam: ['arn:aws:iam::ACCOUNT_ID:role/ROLE_NAME'],
+  dynamodb: ['arn:aws:dynamodb:REGION:ACCOUNT_ID:table/TABLE_NAME'],
+  lambda: ['arn:aws:lambda:REGION:ACCOUNT_ID:function:FUNCTION_NAME'],
+  sqs: ['arn:aws:sqs:REGION:ACCOUNT_ID:QUEUE_NAME'],
+  sns: ['arn:aws:sns:REGION:ACCOUNT_ID:TOPIC_NAME'],
+  secretsmanager: ['arn:aws:secretsmanager:REGION:ACCOUNT_ID:secret:SECRET_NAME-*'],
+  kms: ['arn:aws:kms:REGION:ACCOUNT_ID:key/KEY_ID'],
+  logs: ['arn:aws:logs:REGION:ACCOUNT_ID:log-group:LOG_GROUP:*'],
+  ecr: ['arn:aws:ecr:REGION:ACCOUNT_ID:repository/REPOSITORY_NAME'],
+  ec2: ['arn:aws:ec2:REGION:ACCOUNT_ID:instance/*'],
+};
+
+/** Services a role is passed to, for `iam:PassedToService` */
+const PASSED_TO_SERVICES: Record<string, string> = {
+  ec2: 'ec2.amazonaws.com',
+  lambda: 'lambda.amazonaws.com',
+  ecs: 'ecs-tasks.amazonaws.com',
+  cloudformation: 'cloudformation.amazonaws.com',
+  glue: 'glue.amazonaws.com',
+  states: 'states.amazonaws.com',
+  sagemaker: 'sagemaker.amazonaws.com',
+};
+
+const SOURCE_CONDITION_KEYS = ['aws:sourcearn', 'aws:sourceaccount', 'aws:sourceorgid'];
+
+function isObject(value: unknown): value is Values {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function asArray(value: unknown): unknown[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function asStrings(value: unknown): string[] {
+  return asArray(value).filter((item): item is string => typeof item === 'string');
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+function listOf(items: string[], limit = 5): string {
+  const shown = items.slice(0, limit).map((item) => `\`${item}\``);
+  return items.length > limit
+    ? `${shown.join(', ')} and ${items.length - limit} more`
+    : shown.join(', ');
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    const start = text.indexOf('{');
+    const end = text.lastIndexOf('}');
+    try {
+      return JSON.parse(text.slice(start, end + 1));
+    } catch {
+      throw new Error(`The policy is not valid JSON: ${(error as Error).message}`);
+    }
+  }
+}
+
+/** Find the policy document inside `aws iam get-role`-style output */
+function unwrapPolicy(value: unknown, depth = 0): { document: Values; trust: boolean } | null {
+  let current = value;
+  if (typeof current === 'string') {
+    try {
+      current = JSON.parse(
+        current.trim().startsWith('%7B') ? decodeURIComponent(current) : current
+      );
+    } catch {
+      return null;
+    }
+  }
+  if (!isObject(current)) return null;
+  if ('Statement' in current) return { document: current, trust: false };
+  if (depth > 3) return null;
+
+  for (const key of WRAPPER_KEYS) {
+    const found = unwrapPolicy(current[key], depth + 1);
+    if (found) return { ...found, trust: found.trust || key === 'AssumeRolePolicyDocument' };
+  }
+  return null;
+}
+
+/**
+ * Parse an IAM policy document. Text around the JSON is ignored, and so are
+ * the wrappers of AWS CLI output such as `get-role` or `get-bucket-policy`.
+ * Throws when there is no policy document.
+ */
+export function parseIamPolicy(content: string): { document: Values; trust: boolean } {
+  const parsed = parseJson(content.trim());
+  const found = unwrapPolicy(parsed);
+  if (!found) {
+    throw new Error('This is not an IAM policy. Expected a JSON document with a `Statement`.');
+  }
+  return found;
+}
+
+function parsePrincipals(value: unknown): Principal[] {
+  if (value === '*') return [{ kind: 'AWS', value: '*' }];
+  if (!isObject(value)) return [];
+  return Object.entries(value).flatMap(([kind, values]) =>
+    asStrings(values).map((principal) => ({ kind, value: principal }))
+  );
+}
+
+function toStatement(raw: unknown, index: number): Statement | null {
+  if (!isObject(raw) || (raw.Effect !== 'Allow' && raw.Effect !== 'Deny')) return null;
+  return {
+    index,
+    label: typeof raw.Sid === 'string' && raw.Sid ? raw.Sid : `Statement[${index}]`,
+    raw,
+    effect: raw.Effect,
+    actions: asStrings(raw.Action),
+    ...(raw.NotAction !== undefined && { notActions: asStrings(raw.NotAction) }),
+    resources: asStrings(raw.Resource),
+    ...(raw.NotResource !== undefined && { notResources: asStrings(raw.NotResource) }),
+    principals: parsePrincipals(raw.Principal ?? raw.NotPrincipal),
+    notPrincipal: raw.NotPrincipal !== undefined,
+    conditionKeys: isObject(raw.Condition)
+      ? Object.values(raw.Condition).flatMap((keys) =>
+          isObject(keys) ? Object.keys(keys).map((key) => key.toLowerCase()) : []
+        )
+      : [],
+  };
+}
+
+function actionPattern(pattern: string): RegExp {
+  const source = pattern
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*')
+    .replace(/\?/g, '.');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+/** Whether a statement's Action (or NotAction) covers an action */
+function coversAction(statement: Statement, action: string): boolean {
+  if (statement.notActions) {
+    return !statement.notActions.some((pattern) => actionPattern(pattern).test(action));
+  }
+  return statement.actions.some((pattern) => actionPattern(pattern).test(action));
+}
+
+function serviceOf(action: string): string {
+  return action.includes(':') ? action.split(':')[0].toLowerCase() : '*';
+}
+
+function isReadOnly(action: string): boolean {
+  const [, name] = action.split(':');
+  return name !== undefined && READ_ONLY_ACTION.test(name);
+}
+
+function hasWideResource(statement: Statement): boolean {
+  return statement.notResources !== undefined || statement.resources.some((r) => r.includes('*'));
+}
+
+function hasCondition(statement: Statement, keyPattern: RegExp): boolean {
+  return statement.conditionKeys.some((key) => keyPattern.test(key));
+}
+
+function detectPolicyType(statements: Statement[], trustHint: boolean): IamPolicyType {
+  if (trustHint) return 'trust';
+  const allows = statements.filter((statement) => statement.effect === 'Allow');
+  const isTrust =
+    allows.length > 0 &&
+    allows.every(
+      (statement) =>
+        statement.principals.length > 0 &&
+        statement.actions.length > 0 &&
+        statement.actions.every((action) => ASSUME_ROLE_ACTION.test(action))
+    );
+  if (isTrust) return 'trust';
+  return statements.some((statement) => statement.principals.length > 0) ? 'resource' : 'identity';
+}
+
+/** Account ID of a principal that trusts a whole account */
+function wholeAccount(principal: Principal): string | undefined {
+  if (principal.kind !== 'AWS') return undefined;
+  const match = /^(?:arn:aws[\w-]*:iam::(\d{12}):root|(\d{12}))$/.exec(principal.value);
+  return match ? (match[1] ?? match[2]) : undefined;
+}
+
+// Checks
+
+function checkWildcards(statement: Statement, policyType: IamPolicyType): IamPolicyFinding[] {
+  const findings: IamPolicyFinding[] = [];
+  const { label } = statement;
+
+  if (statement.actions.includes('*')) {
+    const everywhere = statement.resources.includes('*');
+    findings.push({
+      ruleId: 'IAM001',
+      severity: 'error',
+      statement: label,
+      message: everywhere
+        ? 'Allows every action on every resource, which is full administrator access.'
+        : `Allows every action on ${listOf(statement.resources)}.`,
+      fix: 'List the actions the workload calls. IAM Access Analyzer can generate them from CloudTrail activity.',
+    });
+    return findings;
+  }
+
+  const serviceWildcards = statement.actions.filter((action) => /^[\w-]+:\*$/.test(action));
+  if (serviceWildcards.length > 0) {
+    findings.push({
+      ruleId: 'IAM001',
+      severity: 'warning',
+      statement: label,
+      message: `Allows every action of a service: ${listOf(serviceWildcards)}.`,
+      fix: 'Grant the specific actions needed, e.g. `s3:GetObject` and `s3:PutObject` instead of `s3:*`.',
+    });
+  }
+
+  if (policyType === 'identity' && statement.resources.includes('*')) {
+    const writes = statement.actions.filter((action) => !isReadOnly(action));
+    if (writes.length > 0) {
+      findings.push({
+        ruleId: 'IAM002',
+        severity: 'warning',
+        statement: label,
+        message: `\`Resource: "*"\` lets ${listOf(writes)} act on every matching resource in the account.`,
+        fix: 'Scope Resource to the ARNs the workload uses, e.g. `arn:aws:s3:::my-bucket/*`.',
+      });
+    }
+  }
+  return findings;
+}
+
+function checkNegations(statement: Statement): IamPolicyFinding[] {
+  const findings: IamPolicyFinding[] = [];
+  if (statement.notActions) {
+    findings.push({
+      ruleId: 'IAM006',
+      severity: statement.resources.includes('*') ? 'error' : 'warning',
+      statement: statement.label,
+      message: `\`NotAction\` with Allow grants every action except ${listOf(statement.notActions)}, including actions AWS adds later.`,
+      fix: 'Use `Action` with the actions needed. Keep `NotAction` for Deny statements.',
+    });
+  }
+  if (statement.notResources) {
+    findings.push({
+      ruleId: 'IAM006',
+      severity: 'warning',
+      statement: statement.label,
+      message: `\`NotResource\` with Allow applies to every resource except ${listOf(statement.notResources)}.`,
+      fix: 'List the resources in `Resource` instead.',
+    });
+  }
+  return findings;
+}
+
+function checkPrincipals(statement: Statement, policyType: IamPolicyType): IamPolicyFinding[] {
+  const findings: IamPolicyFinding[] = [];
+  const { label, conditionKeys } = statement;
+
+  if (statement.notPrincipal) {
+    findings.push({
+      ruleId: 'IAM005',
+      severity: 'error',
+      statement: label,
+      message: `\`NotPrincipal\` with Allow grants access to everyone except ${listOf(statement.principals.map((p) => p.value))}.`,
+      fix: 'Name the principals that need access in `Principal`.',
+    });
+    return findings;
+  }
+
+  if (statement.principals.some((principal) => principal.value === '*')) {
+    findings.push(
+      conditionKeys.length === 0
+        ? {
+            ruleId: 'IAM005',
+            severity: 'error',
+            statement: label,
+            message:
+              policyType === 'trust'
+                ? 'Any AWS account can assume this role.'
+                : 'The principal is `*`, so anyone, including anonymous users, gets this access.',
+            fix: 'Name the accounts or roles that need access, or add a condition such as `aws:PrincipalOrgID`.',
+          }
+        : {
+            ruleId: 'IAM005',
+            severity: 'info',
+            statement: label,
+            message: `The principal is \`*\`; only the condition on ${listOf(conditionKeys)} keeps this from being public.`,
+          }
+    );
+  }
+
+  for (const principal of statement.principals) {
+    if (principal.kind === 'Federated' && !hasCondition(statement, /:sub$/)) {
+      findings.push({
+        ruleId: 'IAM004',
+        severity: 'error',
+        statement: label,
+        message: `Any identity from \`${principal.value}\` can assume this role because no condition checks the token's \`sub\`.`,
+        fix: principal.value.includes('token.actions.githubusercontent.com')
+          ? '"Condition": {\n  "StringEquals": { "token.actions.githubusercontent.com:aud": "sts.amazonaws.com" },\n  "StringLike": { "token.actions.githubusercontent.com:sub": "repo:OWNER/REPO:ref:refs/heads/main" }\n}'
+          : "Add a condition on the provider's `sub` (and `aud`) claims.",
+      });
+    }
+
+    const account = wholeAccount(principal);
+    if (policyType === 'trust' && account && conditionKeys.length === 0) {
+      findings.push({
+        ruleId: 'IAM004',
+        severity: 'warning',
+        statement: label,
+        message: `Every principal in account ${account} that is allowed \`sts:AssumeRole\` can assume this role, with no condition.`,
+        fix: 'Trust a specific role ARN, and require `sts:ExternalId` for third parties or `aws:MultiFactorAuthPresent` for people.',
+      });
+    }
+
+    if (
+      policyType === 'resource' &&
+      principal.kind === 'Service' &&
+      !statement.conditionKeys.some((key) => SOURCE_CONDITION_KEYS.includes(key))
+    ) {
+      findings.push({
+        ruleId: 'IAM004',
+        severity: 'info',
+        statement: label,
+        message: `\`${principal.value}\` can act for any account, because no \`aws:SourceArn\` or \`aws:SourceAccount\` condition ties it to yours (confused deputy).`,
+        fix: 'Add `"Condition": { "StringEquals": { "aws:SourceAccount": "ACCOUNT_ID" } }`.',
+      });
+    }
+  }
+  return findings;
+}
+
+function checkPassRole(statement: Statement): IamPolicyFinding | undefined {
+  if (
+    statement.actions.includes('*') ||
+    !coversAction(statement, 'iam:PassRole') ||
+    !hasWideResource(statement) ||
+    hasCondition(statement, /^iam:passedtoservice$/)
+  ) {
+    return undefined;
+  }
+  return {
+    ruleId: 'IAM004',
+    severity: 'warning',
+    statement: statement.label,
+    message:
+      '`iam:PassRole` on wildcard resources without an `iam:PassedToService` condition lets it hand any role to any service.',
+    fix: 'Scope Resource to the role ARNs and add a condition such as `"StringEquals": { "iam:PassedToService": "ec2.amazonaws.com" }`.',
+  };
+}
+
+function checkEscalation(statements: Statement[]): IamPolicyFinding | undefined {
+  const allows = statements.filter((statement) => statement.effect === 'Allow');
+  // Action "*" is already reported as admin access
+  if (allows.some((statement) => statement.actions.includes('*'))) return undefined;
+  const denies = statements.filter(
+    (statement) => statement.effect === 'Deny' && statement.resources.includes('*')
+  );
+
+  const granting = (action: string) =>
+    denies.some((statement) => coversAction(statement, action))
+      ? []
+      : allows.filter((statement) => coversAction(statement, action) && hasWideResource(statement));
+
+  const labels = new Set<string>();
+  const paths: string[] = [];
+  for (const path of ESCALATION_PATHS) {
+    const grants = path.actions.map(granting);
+    if (grants.some((found) => found.length === 0)) continue;
+    paths.push(`${path.actions.join(' + ')} (${path.how})`);
+    for (const statement of grants.flat()) labels.add(statement.label);
+  }
+  if (paths.length === 0) return undefined;
+
+  return {
+    ruleId: 'IAM003',
+    severity: 'error',
+    statement: [...labels].join(', '),
+    message: `Allows privilege escalation on wildcard resources: ${listOf(paths, 4)}.`,
+    fix: 'Drop one action of each combination, or scope it to specific ARNs with conditions such as `iam:PassedToService`.',
+  };
+}
+
+function checkVersion(document: Values): IamPolicyFinding | undefined {
+  if (document.Version === POLICY_VERSION) return undefined;
+  const usesVariables = JSON.stringify(document.Statement).includes('${');
+  return {
+    ruleId: 'IAM007',
+    severity: usesVariables ? 'warning' : 'info',
+    statement: 'Version',
+    message: usesVariables
+      ? `Policy variables such as \`\${aws:username}\` only work with \`"Version": "${POLICY_VERSION}"\`; here they are matched as literal text.`
+      : `\`Version\` is ${document.Version === undefined ? 'missing' : `\`${String(document.Version)}\``}, so newer policy features are unavailable.`,
+    fix: `Set \`"Version": "${POLICY_VERSION}"\`.`,
+  };
+}
+
+// Least-privilege rewrite
+
+function resourceTemplates(actions: string[]): string[] {
+  const services = [
+    ...new Set(
+      actions.map((action) => (action === PLACEHOLDER_ACTION ? 'SERVICE' : serviceOf(action)))
+    ),
+  ];
+  return services.flatMap(
+    (service) => RESOURCE_TEMPLATES[service] ?? [`arn:aws:${service}:REGION:ACCOUNT_ID:RESOURCE`]
+  );
+}
+
+function sidFor(statement: Statement, suffix: string): string {
+  const base =
+    typeof statement.raw.Sid === 'string' && statement.raw.Sid
+      ? statement.raw.Sid
+      : `Statement${statement.index + 1}`;
+  return `${base}${suffix}`;
+}
+
+function addCondition(raw: Values, operator: string, key: string, value: string): Values {
+  const condition = isObject(raw.Condition) ? { ...raw.Condition } : {};
+  const existing = isObject(condition[operator]) ? condition[operator] : {};
+  return { ...raw, Condition: { ...condition, [operator]: { ...existing, [key]: value } } };
+}
+
+function rewriteActions(statement: Statement, notes: string[]): string[] {
+  if (statement.notActions || statement.actions.includes('*')) {
+    notes.push(
+      `${statement.label}: replace \`${PLACEHOLDER_ACTION}\` with the actions the workload calls (IAM Access Analyzer can generate them from CloudTrail).`
+    );
+    return [PLACEHOLDER_ACTION];
+  }
+  return statement.actions.flatMap((action) => {
+    if (!/^[\w-]+:\*$/.test(action)) return [action];
+    const service = serviceOf(action);
+    notes.push(
+      `${statement.label}: \`${action}\` narrowed to read-only actions; add the write actions the workload needs.`
+    );
+    return [`${service}:Get*`, `${service}:List*`, `${service}:Describe*`];
+  });
+}
+
+function rewritePrincipal(statement: Statement, raw: Values, notes: string[]): Values {
+  let result = raw;
+  if (statement.notPrincipal) {
+    const { NotPrincipal: _removed, ...rest } = result;
+    result = { ...rest, Principal: { AWS: 'arn:aws:iam::ACCOUNT_ID:role/ROLE_NAME' } };
+    notes.push(`${statement.label}: \`NotPrincipal\` replaced with the role that needs access.`);
+    return result;
+  }
+
+  if (
+    statement.principals.some((principal) => principal.value === '*') &&
+    statement.conditionKeys.length === 0
+  ) {
+    result = addCondition(result, 'StringEquals', 'aws:PrincipalOrgID', 'ORG_ID');
+    notes.push(
+      `${statement.label}: access limited to your AWS Organization (\`ORG_ID\`). Drop this only if the resource is meant to be public.`
+    );
+  }
+  for (const principal of statement.principals) {
+    if (principal.kind === 'Federated' && !hasCondition(statement, /:sub$/)) {
+      const provider = principal.value.replace(/^arn:aws[\w-]*:iam::\d+:oidc-provider\//, '');
+      const github = provider === 'token.actions.githubusercontent.com';
+      if (github && !hasCondition(statement, /:aud$/)) {
+        result = addCondition(result, 'StringEquals', `${provider}:aud`, 'sts.amazonaws.com');
+      }
+      result = addCondition(
+        result,
+        'StringLike',
+        `${provider}:sub`,
+        github ? 'repo:OWNER/REPO:ref:refs/heads/main' : 'SUBJECT'
+      );
+      notes.push(`${statement.label}: only tokens whose \`sub\` matches can assume the role.`);
+    }
+    if (wholeAccount(principal) && statement.conditionKeys.length === 0) {
+      result = addCondition(result, 'StringEquals', 'sts:ExternalId', 'EXTERNAL_ID');
+      notes.push(
+        `${statement.label}: \`sts:ExternalId\` required; use the ID agreed with the other account.`
+      );
+    }
+    if (
+      principal.kind === 'Service' &&
+      !ASSUME_ROLE_ACTION.test(statement.actions[0] ?? '') &&
+      !statement.conditionKeys.some((key) => SOURCE_CONDITION_KEYS.includes(key))
+    ) {
+      result = addCondition(result, 'StringEquals', 'aws:SourceAccount', 'ACCOUNT_ID');
+      notes.push(`${statement.label}: the service may only act for your account.`);
+    }
+  }
+  return result;
+}
+
+function rewriteIdentityStatement(
+  statement: Statement,
+  passedTo: string,
+  notes: string[]
+): Values[] {
+  const actions = rewriteActions(statement, notes);
+  const {
+    NotAction: _a,
+    NotResource: _r,
+    Sid: _s,
+    Action: _action,
+    Resource: _resource,
+    ...rest
+  } = statement.raw;
+  const sid = (suffix: string) => ({ Sid: sidFor(statement, suffix) });
+  const original =
+    typeof statement.raw.Sid === 'string' && statement.raw.Sid ? { Sid: statement.raw.Sid } : {};
+
+  const passRole = actions.filter((action) => /^iam:PassRole$/i.test(action));
+  const others = actions.filter((action) => !passRole.includes(action));
+  const needsPassedTo =
+    passRole.length > 0 &&
+    hasWideResource(statement) &&
+    !hasCondition(statement, /^iam:passedtoservice$/);
+
+  if (!hasWideResource(statement)) {
+    return [{ ...original, ...rest, Action: actions, Resource: statement.raw.Resource }];
+  }
+
+  const reads = others.filter(isReadOnly);
+  const writes = others.filter((action) => !isReadOnly(action));
+  const groups: Array<[string, string[], string[]]> = [
+    ['Read', reads, ['*']],
+    ['Write', writes, resourceTemplates(writes)],
+    ['PassRole', passRole, ['arn:aws:iam::ACCOUNT_ID:role/ROLE_NAME']],
+  ];
+  const used = groups.filter(([, groupActions]) => groupActions.length > 0);
+  if (writes.length > 0 || passRole.length > 0) {
+    notes.push(
+      `${statement.label}: write actions scoped to ARN templates; replace the UPPER_CASE parts with your resources.`
+    );
+  }
+
+  return used.map(([suffix, groupActions, resources]) => {
+    let rewritten: Values = {
+      ...(used.length > 1 ? sid(suffix) : original),
+      ...rest,
+      Action: groupActions.length === 1 ? groupActions[0] : groupActions,
+      Resource: resources.length === 1 ? resources[0] : resources,
+    };
+    if (suffix === 'PassRole' && needsPassedTo) {
+      rewritten = addCondition(rewritten, 'StringEquals', 'iam:PassedToService', passedTo);
+      notes.push(`${statement.label}: the role may only be passed to \`${passedTo}\`.`);
+    }
+    return rewritten;
+  });
+}
+
+function suggestPolicy(
+  document: Values,
+  statements: Statement[],
+  policyType: IamPolicyType
+): IamPolicySuggestion | null {
+  const notes: string[] = [];
+  const services = statements.flatMap((statement) => statement.actions.map(serviceOf));
+  const passedTo =
+    services.map((service) => PASSED_TO_SERVICES[service]).find(Boolean) ?? 'SERVICE.amazonaws.com';
+
+  const rewritten = statements.flatMap((statement) => {
+    if (statement.effect === 'Deny') return [statement.raw];
+    if (policyType === 'identity') return rewriteIdentityStatement(statement, passedTo, notes);
+
+    let raw = rewritePrincipal(statement, statement.raw, notes);
+    if (statement.notActions || statement.actions.some((action) => /(^|:)\*$/.test(action))) {
+      const { NotAction: _removed, ...rest } = raw;
+      raw = { ...rest, Action: rewriteActions(statement, notes) };
+    }
+    return [raw];
+  });
+
+  if (document.Version !== POLICY_VERSION) {
+    notes.push(`\`Version\` set to ${POLICY_VERSION}.`);
+  }
+  if (notes.length === 0) return null;
+  return {
+    policy: { Version: POLICY_VERSION, Statement: rewritten },
+    notes: [...new Set(notes)],
+  };
+}
+
+/**
+ * Analyze an IAM policy. The type is detected from the statements when not
+ * given: trust policies assume roles, resource policies name principals.
+ */
+export function analyzeIamPolicy(
+  content: string,
+  type: IamPolicyType | 'auto' = 'auto'
+): IamPolicyAnalysis {
+  const { document, trust } = parseIamPolicy(content);
+  const rawStatements = asArray(document.Statement);
+  const statements = rawStatements
+    .map(toStatement)
+    .filter((statement): statement is Statement => statement !== null);
+  const policyType = type === 'auto' ? detectPolicyType(statements, trust) : type;
+
+  const findings: IamPolicyFinding[] = [];
+  rawStatements.forEach((raw, index) => {
+    if (!toStatement(raw, index)) {
+      findings.push({
+        ruleId: 'PARSE',
+        severity: 'error',
+        statement: `Statement[${index}]`,
+        message: 'Statement needs an `Effect` of `Allow` or `Deny`; it was skipped.',
+      });
+    }
+  });
+  for (const statement of statements) {
+    if (statement.effect !== 'Allow') continue;
+    findings.push(
+      ...checkWildcards(statement, policyType),
+      ...checkNegations(statement),
+      ...checkPrincipals(statement, policyType)
+    );
+    const passRole = checkPassRole(statement);
+    if (passRole) findings.push(passRole);
+  }
+  const escalation = policyType === 'trust' ? undefined : checkEscalation(statements);
+  if (escalation) findings.push(escalation);
+  const version = checkVersion(document);
+  if (version) findings.push(version);
+
+  findings.sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity));
+  const summary: Record<FindingSeverity, number> = { error: 0, warning: 0, info: 0 };
+  for (const finding of findings) summary[finding.severity]++;
+
+  const result: IamPolicyAnalysis = {
+    policyType,
+    statements: rawStatements.length,
+    findings,
+    summary,
+    suggestion: suggestPolicy(document, statements, policyType),
+    report: '',
+  };
+  result.report = formatIamPolicyReport(result);
+  return result;
+}
+
+/**
+ * Markdown report of a policy analysis, with the rewrite as a JSON block
+ */
+export function formatIamPolicyReport(result: Omit<IamPolicyAnalysis, 'report'>): string {
+  const { policyType, statements, findings, summary, suggestion } = result;
+
+  let report = `## IAM Policy Analysis (${policyType} policy)\n\n`;
+  report += `${plural(statements, 'statement')} checked: ${plural(summary.error, 'error')}, ${plural(summary.warning, 'warning')}, ${summary.info} info\n\n`;
+
+  if (findings.length === 0) {
+    report += '### ✅ No Issues Found\n';
+  } else {
+    report += '### ⚠️ Issues Found\n';
+    findings.forEach((finding, i) => {
+      report += `${i + 1}. **${finding.ruleId}** (${finding.severity}, ${finding.statement}): ${finding.message}\n`;
+      if (finding.fix?.includes('\n')) {
+        const snippet = finding.fix.split('\n').map((line) => `   ${line}`);
+        report += `   Fix:\n   \`\`\`json\n${snippet.join('\n')}\n   \`\`\`\n`;
+      } else if (finding.fix) {
+        report += `   Fix: ${finding.fix}\n`;
+      }
+    });
+  }
+
+  if (suggestion) {
+    report += '\n### Least-Privilege Rewrite\n';
+    report += `\`\`\`json\n${JSON.stringify(suggestion.policy, null, 2)}\n\`\`\`\n`;
+    for (const note of suggestion.notes) report += `- ${note}\n`;
+    report +=
+      '\nTest the rewrite with the IAM policy simulator or in a non-production account before rolling it out.\n';
+  }
+  return report;
+}
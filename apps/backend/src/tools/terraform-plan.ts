@@ -0,0 +1,630 @@
+/**
+ * Terraform plan analysis for `analyze_terraform_plan`: counts what a
+ * `terraform show -json` plan does per resource type and flags the changes worth
+ * a second look before applying: destroys, replacements, widened IAM or
+ * security group access, values that become unknown, and drift.
+ */
+
+import type {
+  FindingSeverity,
+  PlanAction,
+  PlanFinding,
+  PlanResourceChange,
+  PlanTypeSummary,
+  TerraformPlanAnalysis,
+} from '@devmentorai/shared';
+
+interface ResourceChangeJson {
+  address: string;
+  mode?: 'managed' | 'data';
+  type: string;
+  action_reason?: string;
+  change: {
+    actions: string[];
+    before?: unknown;
+    after?: unknown;
+    after_unknown?: unknown;
+    replace_paths?: Array<Array<string | number>>;
+  };
+}
+
+interface PlanJson {
+  terraform_version?: string;
+  resource_changes?: ResourceChangeJson[];
+  resource_drift?: ResourceChangeJson[];
+}
+
+type Values = Record<string, unknown>;
+
+const SEVERITY_ORDER: FindingSeverity[] = ['error', 'warning', 'info'];
+
+/** Resources listed per action in the report before the rest are counted */
+const MAX_LISTED = 25;
+
+/** Terraform's `action_reason` values, phrased to follow "because" */
+const ACTION_REASONS: Record<string, string> = {
+  replace_because_tainted: 'it is tainted',
+  replace_because_cannot_update: 'an attribute that forces replacement changed',
+  replace_by_request: '-replace was requested',
+  replace_by_triggers: 'replace_triggered_by fired',
+  delete_because_no_resource_config: 'its configuration was removed',
+  delete_because_no_module: 'its module was removed',
+  delete_because_wrong_repetition: 'count/for_each was added or removed',
+  delete_because_count_index: 'its count index is out of range',
+  delete_because_each_key: 'its for_each key was removed',
+  delete_because_no_move_target: 'its moved block has no target',
+};
+
+/** Types whose data is lost with the resource */
+const STATEFUL_TYPE =
+  /(db_instance|rds_cluster|s3_bucket$|dynamodb_table|ebs_volume|efs_file_system|elasticache|redshift_cluster|sql_database|storage_account|storage_bucket|compute_disk|managed_disk|kms_key)/;
+
+/** Attributes holding an IAM or resource policy document */
+const POLICY_ATTRIBUTES: Record<string, string> = {
+  aws_iam_policy: 'policy',
+  aws_iam_role_policy: 'policy',
+  aws_iam_user_policy: 'policy',
+  aws_iam_group_policy: 'policy',
+  aws_iam_role: 'assume_role_policy',
+  aws_s3_bucket_policy: 'policy',
+  aws_sqs_queue_policy: 'policy',
+  aws_sns_topic_policy: 'policy',
+  aws_ecr_repository_policy: 'policy',
+};
+
+const POLICY_ATTACHMENT_TYPES = new Set([
+  'aws_iam_role_policy_attachment',
+  'aws_iam_user_policy_attachment',
+  'aws_iam_group_policy_attachment',
+  'aws_iam_policy_attachment',
+]);
+
+const ADMIN_POLICY_ARN = /:policy\/(AdministratorAccess|PowerUserAccess|IAMFullAccess)$/;
+const BROAD_GCP_ROLES = new Set(['roles/owner', 'roles/editor', 'roles/iam.securityAdmin']);
+const PUBLIC_GCP_MEMBERS = new Set(['allUsers', 'allAuthenticatedUsers']);
+const BROAD_AZURE_ROLES = new Set(['Owner', 'Contributor', 'User Access Administrator']);
+
+const OPEN_CIDRS = new Set(['0.0.0.0/0', '::/0']);
+/** Ports that shouldn't be open to the internet */
+const ADMIN_PORTS = [22, 3389];
+
+function isObject(value: unknown): value is Values {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function asArray(value: unknown): unknown[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function asStrings(value: unknown): string[] {
+  return asArray(value).filter((item): item is string => typeof item === 'string');
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+function listOf(items: string[], limit = 5): string {
+  const shown = items.slice(0, limit).map((item) => `\`${item}\``);
+  return items.length > limit
+    ? `${shown.join(', ')} and ${items.length - limit} more`
+    : shown.join(', ');
+}
+
+/**
+ * Parse `terraform show -json` output. Text around the JSON, such as the
+ * command that produced it, is ignored. Throws when it isn't a plan.
+ */
+export function parseTerraformPlan(content: string): PlanJson {
+  const text = content.trim();
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    const start = text.indexOf('{');
+    const end = text.lastIndexOf('}');
+    try {
+      parsed = JSON.parse(text.slice(start, end + 1));
+    } catch {
+      throw new Error(`The plan is not valid JSON: ${(error as Error).message}`);
+    }
+  }
+
+  if (!isObject(parsed)) {
+    throw new Error('Expected a JSON object from `terraform show -json <planfile>`');
+  }
+  if (!('resource_changes' in parsed) && !('planned_values' in parsed)) {
+    throw new Error(
+      isObject(parsed.values)
+        ? 'This is state, not a plan. Run `terraform plan -out=tfplan`, then `terraform show -json tfplan`.'
+        : 'This is not a Terraform plan. Expected the output of `terraform show -json <planfile>`.'
+    );
+  }
+  checkResourceChanges(parsed, 'resource_changes');
+  checkResourceChanges(parsed, 'resource_drift');
+  return parsed as PlanJson;
+}
+
+/**
+ * Throw when `plan[key]` holds entries the analysis can't read, naming the
+ * first bad one
+ */
+function checkResourceChanges(plan: Values, key: 'resource_changes' | 'resource_drift'): void {
+  if (plan[key] === undefined) return;
+  if (!Array.isArray(plan[key])) throw new Error(`\`${key}\` is not an array`);
+
+  plan[key].forEach((entry: unknown, index: number) => {
+    const where = `\`${key}[${index}]\``;
+    if (!isObject(entry)) throw new Error(`${where} is not an object`);
+    if (typeof entry.address !== 'string' || typeof entry.type !== 'string') {
+      throw new Error(`${where} has no \`address\` or \`type\``);
+    }
+    if (!isObject(entry.change)) throw new Error(`${where}.change is not an object`);
+    const { actions } = entry.change;
+    if (!Array.isArray(actions) || !actions.every((action) => typeof action === 'string')) {
+      throw new Error(`${where}.change.actions is not a list of actions`);
+    }
+  });
+}
+
+function toAction(actions: string[]): PlanAction {
+  if (actions.includes('delete') && actions.includes('create')) return 'replace';
+  const [action] = actions;
+  return action === 'create' || action === 'update' || action === 'delete' || action === 'read'
+    ? action
+    : 'no-op';
+}
+
+function formatPath(path: Array<string | number>): string {
+  return path
+    .map((segment, index) =>
+      typeof segment === 'number' ? `[${segment}]` : index === 0 ? segment : `.${segment}`
+    )
+    .join('');
+}
+
+// IAM
+
+/** `Action on Resource` and `Principal` grants of a policy document's Allow statements */
+function policyGrants(document: unknown): string[] {
+  let policy = document;
+  if (typeof policy === 'string') {
+    try {
+      policy = JSON.parse(policy);
+    } catch {
+      return [];
+    }
+  }
+  if (!isObject(policy)) return [];
+
+  return asArray(policy.Statement).flatMap((item) => {
+    if (!isObject(item) || item.Effect !== 'Allow') return [];
+    // NotAction / NotResource allow everything but a list, so count them as wildcards
+    const actions = item.NotAction !== undefined ? ['*'] : asStrings(item.Action);
+    const resources = item.NotResource !== undefined ? ['*'] : asStrings(item.Resource);
+    const principals =
+      item.Principal === '*'
+        ? ['*']
+        : isObject(item.Principal)
+          ? Object.values(item.Principal).flatMap(asStrings)
+          : [];
+    return [
+      ...actions.flatMap((action) =>
+        (resources.length > 0 ? resources : ['*']).map((resource) => `${action} on ${resource}`)
+      ),
+      ...principals.map((principal) => `principal ${principal}`),
+    ];
+  });
+}
+
+function isBroadGrant(grant: string): boolean {
+  const [action, resource] = grant.split(' on ');
+  if (grant === 'principal *') return true;
+  return action === '*' || (action.endsWith(':*') && resource === '*');
+}
+
+function iamFinding(
+  address: string,
+  type: string,
+  action: PlanAction,
+  before: Values,
+  after: Values
+): PlanFinding | undefined {
+  const attribute = POLICY_ATTRIBUTES[type];
+  if (attribute) {
+    const previous = new Set(action === 'update' ? policyGrants(before[attribute]) : []);
+    const added = policyGrants(after[attribute]).filter((grant) => !previous.has(grant));
+    const broad = added.filter(isBroadGrant);
+    if (broad.length > 0) {
+      return {
+        kind: 'iam-widening',
+        severity: 'error',
+        address,
+        message: `Grants broad access: ${listOf(broad)}.`,
+      };
+    }
+    if (action === 'update' && added.length > 0) {
+      return {
+        kind: 'iam-widening',
+        severity: 'warning',
+        address,
+        message: `Adds ${plural(added.length, 'permission')}: ${listOf(added)}.`,
+      };
+    }
+    return undefined;
+  }
+
+  if (POLICY_ATTACHMENT_TYPES.has(type) && typeof after.policy_arn === 'string') {
+    if (!ADMIN_POLICY_ARN.test(after.policy_arn)) return undefined;
+    return {
+      kind: 'iam-widening',
+      severity: 'error',
+      address,
+      message: `Attaches ${after.policy_arn.split('/').at(-1)}, which grants near-admin access.`,
+    };
+  }
+
+  if (/^google_.+_iam_(member|binding)$/.test(type)) {
+    const members = [...asStrings(after.member), ...asStrings(after.members)];
+    const publicMembers = members.filter((member) => PUBLIC_GCP_MEMBERS.has(member));
+    if (BROAD_GCP_ROLES.has(String(after.role)) || publicMembers.length > 0) {
+      return {
+        kind: 'iam-widening',
+        severity: 'error',
+        address,
+        message: `Grants ${String(after.role)} to ${listOf(members)}.`,
+      };
+    }
+    return undefined;
+  }
+
+  if (
+    type === 'azurerm_role_assignment' &&
+    BROAD_AZURE_ROLES.has(String(after.role_definition_name))
+  ) {
+    return {
+      kind: 'iam-widening',
+      severity: 'error',
+      address,
+      message: `Assigns the ${String(after.role_definition_name)} role at ${String(after.scope ?? 'an unknown scope')}.`,
+    };
+  }
+  return undefined;
+}
+
+// Security groups
+
+interface IngressRule {
+  cidr: string;
+  protocol: string;
+  from: number;
+  to: number;
+}
+
+function toPort(value: unknown, fallback: number): number {
+  const port = Number(value);
+  return Number.isFinite(port) ? port : fallback;
+}
+
+function awsIngress(rule: Values, cidrs: string[], protocolKey = 'protocol'): IngressRule[] {
+  const protocol = String(rule[protocolKey] ?? '-1');
+  const allPorts = protocol === '-1' || protocol === 'all';
+  return cidrs.map((cidr) => ({
+    cidr,
+    protocol,
+    from: allPorts ? 0 : toPort(rule.from_port, 0),
+    to: allPorts ? 65535 : toPort(rule.to_port, 65535),
+  }));
+}
+
+function ingressRules(type: string, values: Values): IngressRule[] {
+  switch (type) {
+    case 'aws_security_group':
+      return asArray(values.ingress)
+        .filter(isObject)
+        .flatMap((rule) =>
+          awsIngress(rule, [...asStrings(rule.cidr_blocks), ...asStrings(rule.ipv6_cidr_blocks)])
+        );
+    case 'aws_security_group_rule':
+      return values.type === 'ingress'
+        ? awsIngress(values, [
+            ...asStrings(values.cidr_blocks),
+            ...asStrings(values.ipv6_cidr_blocks),
+          ])
+        : [];
+    case 'aws_vpc_security_group_ingress_rule':
+      return awsIngress(
+        values,
+        [...asStrings(values.cidr_ipv4), ...asStrings(values.cidr_ipv6)],
+        'ip_protocol'
+      );
+    case 'google_compute_firewall': {
+      if (values.direction === 'EGRESS') return [];
+      const ranges = asStrings(values.source_ranges);
+      return asArray(values.allow)
+        .filter(isObject)
+        .flatMap((allow) => {
+          const protocol = String(allow.protocol ?? 'all');
+          const ports = asStrings(allow.ports);
+          const spans = ports.length > 0 ? ports : ['0-65535'];
+          return spans.flatMap((span) => {
+            const [from, to = from] = span.split('-');
+            return ranges.map((cidr) => ({
+              cidr,
+              protocol,
+              from: toPort(from, 0),
+              to: toPort(to, 65535),
+            }));
+          });
+        });
+    }
+    default:
+      return [];
+  }
+}
+
+function describePorts({ protocol, from, to }: IngressRule): string {
+  if (from <= 0 && to >= 65535) return 'all ports';
+  const ports = from === to ? `port ${from}` : `ports ${from}-${to}`;
+  return protocol === '-1' || protocol === 'all' ? ports : `${protocol} ${ports}`;
+}
+
+function securityGroupFinding(
+  address: string,
+  type: string,
+  action: PlanAction,
+  before: Values,
+  after: Values
+): PlanFinding | undefined {
+  const key = (rule: IngressRule) => `${rule.cidr}|${rule.protocol}|${rule.from}|${rule.to}`;
+  const previous = new Set(action === 'update' ? ingressRules(type, before).map(key) : []);
+  const added = ingressRules(type, after).filter((rule) => !previous.has(key(rule)));
+
+  const open = added.filter((rule) => OPEN_CIDRS.has(rule.cidr));
+  // New ranges on an existing group widen it too, but only worth a note
+  const other = action === 'update' ? added.filter((rule) => !OPEN_CIDRS.has(rule.cidr)) : [];
+  if (open.length === 0 && other.length === 0) return undefined;
+
+  const describe = (rule: IngressRule) => `${rule.cidr} on ${describePorts(rule)}`;
+  if (open.length > 0) {
+    const exposesAdmin = open.some(
+      (rule) =>
+        (rule.from <= 0 && rule.to >= 65535) ||
+        ADMIN_PORTS.some((port) => rule.from <= port && port <= rule.to)
+    );
+    return {
+      kind: 'security-group-widening',
+      severity: exposesAdmin ? 'error' : 'warning',
+      address,
+      message: `Opens ingress to the internet: ${listOf(open.map(describe))}.`,
+    };
+  }
+  return {
+    kind: 'security-group-widening',
+    severity: 'info',
+    address,
+    message: `Adds ingress from ${listOf(other.map(describe))}.`,
+  };
+}
+
+// Unknown values and drift
+
+/** Top-level attributes that had a value and become unknown until apply */
+function newlyUnknown(before: Values, afterUnknown: unknown): string[] {
+  if (!isObject(afterUnknown)) return [];
+  const containsUnknown = (value: unknown): boolean =>
+    value === true ||
+    (Array.isArray(value) && value.some(containsUnknown)) ||
+    (isObject(value) && Object.values(value).some(containsUnknown));
+  return Object.keys(afterUnknown).filter(
+    (key) => containsUnknown(afterUnknown[key]) && before[key] !== undefined && before[key] !== null
+  );
+}
+
+function changedAttributes(before: Values, after: Values): string[] {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return [...keys].filter((key) => JSON.stringify(before[key]) !== JSON.stringify(after[key]));
+}
+
+function driftFinding(drift: ResourceChangeJson): PlanFinding | undefined {
+  const action = toAction(drift.change.actions);
+  if (action === 'delete') {
+    return {
+      kind: 'drift',
+      severity: 'warning',
+      address: drift.address,
+      message: 'Was deleted outside Terraform.',
+    };
+  }
+  if (action !== 'update') return undefined;
+  const changed = changedAttributes(
+    isObject(drift.change.before) ? drift.change.before : {},
+    isObject(drift.change.after) ? drift.change.after : {}
+  );
+  return {
+    kind: 'drift',
+    severity: 'warning',
+    address: drift.address,
+    message: `Changed outside Terraform${changed.length > 0 ? `: ${listOf(changed)}` : ''}. Applying puts the configured values back.`,
+  };
+}
+
+function destructiveFinding(
+  change: PlanResourceChange,
+  createsFirst: boolean
+): PlanFinding | undefined {
+  const stateful = STATEFUL_TYPE.test(change.type);
+  const because = change.reason && ACTION_REASONS[change.reason];
+  const dataLoss = stateful ? ' Any data in it is lost.' : '';
+
+  if (change.action === 'delete') {
+    return {
+      kind: 'destroy',
+      severity: 'error',
+      address: change.address,
+      message: `Will be destroyed${because ? ` because ${because}` : ''}.${dataLoss}`,
+    };
+  }
+  if (change.action === 'replace') {
+    const forcedBy =
+      change.replacePaths && change.replacePaths.length > 0
+        ? ` because ${listOf(change.replacePaths)} changed`
+        : because
+          ? ` because ${because}`
+          : '';
+    const order = createsFirst
+      ? ' The new one is created before the old one is destroyed.'
+      : ' The old one is destroyed first, so expect downtime.';
+    return {
+      kind: 'replace',
+      severity: stateful ? 'error' : 'warning',
+      address: change.address,
+      message: `Will be replaced${forcedBy}.${order}${dataLoss}`,
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Summarize a plan and flag risky changes
+ */
+export function analyzeTerraformPlan(content: string): TerraformPlanAnalysis {
+  const plan = parseTerraformPlan(content);
+
+  const totals: Record<PlanAction, number> = {
+    create: 0,
+    update: 0,
+    replace: 0,
+    delete: 0,
+    read: 0,
+    'no-op': 0,
+  };
+  const byType = new Map<string, PlanTypeSummary>();
+  const changes: PlanResourceChange[] = [];
+  const findings: PlanFinding[] = [];
+
+  for (const resource of plan.resource_changes ?? []) {
+    const action = toAction(resource.change.actions);
+    totals[action]++;
+    if (action === 'no-op' || action === 'read' || resource.mode === 'data') continue;
+
+    const summary = byType.get(resource.type) ?? {
+      type: resource.type,
+      create: 0,
+      update: 0,
+      replace: 0,
+      delete: 0,
+    };
+    summary[action]++;
+    byType.set(resource.type, summary);
+
+    const change: PlanResourceChange = {
+      address: resource.address,
+      type: resource.type,
+      action,
+      ...(resource.change.replace_paths &&
+        resource.change.replace_paths.length > 0 && {
+          replacePaths: resource.change.replace_paths.map(formatPath),
+        }),
+      ...(resource.action_reason && { reason: resource.action_reason }),
+    };
+    changes.push(change);
+
+    const before = isObject(resource.change.before) ? resource.change.before : {};
+    const after = isObject(resource.change.after) ? resource.change.after : {};
+    const createsFirst = resource.change.actions[0] === 'create';
+    const found = [
+      destructiveFinding(change, createsFirst),
+      action !== 'delete'
+        ? iamFinding(resource.address, resource.type, action, before, after)
+        : undefined,
+      action !== 'delete'
+        ? securityGroupFinding(resource.address, resource.type, action, before, after)
+        : undefined,
+    ];
+    if (action === 'update') {
+      const unknown = newlyUnknown(before, resource.change.after_unknown);
+      if (unknown.length > 0) {
+        found.push({
+          kind: 'unknown-after-apply',
+          severity: 'info',
+          address: resource.address,
+          message: `${listOf(unknown)} ${unknown.length === 1 ? 'becomes' : 'become'} unknown until apply, so anything that reads ${unknown.length === 1 ? 'it' : 'them'} may change too.`,
+        });
+      }
+    }
+    findings.push(...found.filter((finding): finding is PlanFinding => Boolean(finding)));
+  }
+
+  for (const drift of plan.resource_drift ?? []) {
+    const finding = driftFinding(drift);
+    if (finding) findings.push(finding);
+  }
+
+  findings.sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity));
+
+  const result = {
+    ...(plan.terraform_version && { terraformVersion: plan.terraform_version }),
+    totals,
+    byType: [...byType.values()].sort((a, b) => a.type.localeCompare(b.type)),
+    changes,
+    findings,
+    report: '',
+  };
+  result.report = formatPlanReport(result);
+  return result;
+}
+
+const ACTION_LABELS: Array<[Exclude<PlanAction, 'read' | 'no-op'>, string]> = [
+  ['delete', 'Destroy'],
+  ['replace', 'Replace'],
+  ['update', 'Update in place'],
+  ['create', 'Create'],
+];
+
+/**
+ * Markdown report of a plan analysis. The first line uses Terraform's own
+ * "Plan:" wording, where a replacement counts as one add and one destroy.
+ */
+export function formatPlanReport(analysis: Omit<TerraformPlanAnalysis, 'report'>): string {
+  const { totals, byType, changes, findings } = analysis;
+
+  let report = '## Terraform Plan Analysis\n\n';
+  report += `**Plan:** ${totals.create + totals.replace} to add, ${totals.update} to change, ${totals.delete + totals.replace} to destroy`;
+  report += totals.replace > 0 ? ` (${plural(totals.replace, 'replacement')})\n\n` : '\n\n';
+
+  if (changes.length === 0) {
+    return `${report}No changes. The infrastructure matches the configuration.\n`;
+  }
+
+  report += '### Changes by Resource Type\n';
+  report += '| Resource type | Create | Update | Replace | Destroy |\n';
+  report += '|---|---|---|---|---|\n';
+  for (const summary of byType) {
+    report += `| \`${summary.type}\` | ${summary.create} | ${summary.update} | ${summary.replace} | ${summary.delete} |\n`;
+  }
+  report += '\n';
+
+  if (findings.length > 0) {
+    report += '### ⚠️ Review Before Applying\n';
+    findings.forEach((finding, i) => {
+      report += `${i + 1}. **${finding.severity}** \`${finding.address}\` (${finding.kind}): ${finding.message}\n`;
+    });
+    report += '\n';
+  } else {
+    report += '### ✅ No Risky Changes Found\n\n';
+  }
+
+  report += '### Resources\n';
+  for (const [action, label] of ACTION_LABELS) {
+    const addresses = changes
+      .filter((change) => change.action === action)
+      .map((change) => change.address);
+    if (addresses.length === 0) continue;
+    const listed = addresses.slice(0, MAX_LISTED).map((address) => `\`${address}\``);
+    const more = addresses.length > MAX_LISTED ? `, and ${addresses.length - MAX_LISTED} more` : '';
+    report += `- **${label}** (${addresses.length}): ${listed.join(', ')}${more}\n`;
+  }
+  return report;
+}
@@ -0,0 +1,166 @@
+/**
+ * Workspace sandbox for file tools.
+ *
+ * File tools may only touch paths inside a session's workspace roots. Paths are
+ * compared after resolving symlinks and `..`, so neither a link pointing outside
+ * a root nor a sibling directory sharing a prefix (`/home/user2`) gets through.
+ * Well-known secret files are refused even inside a root.
+ */
+
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+
+export type WorkspaceAccessResult =
+  | { allowed: true; realPath: string }
+  | {
+      allowed: false;
+      reason: 'outside_workspace' | 'secret';
+      message: string;
+      /** Directory that would grant access if added as a root */
+      suggestedRoot?: string;
+    };
+
+// File names that hold credentials wherever they live
+const SECRET_FILE_NAMES = new Set([
+  'id_rsa',
+  'id_dsa',
+  'id_ecdsa',
+  'id_ed25519',
+  '.netrc',
+  '.npmrc',
+  '.pypirc',
+  '.pgpass',
+  '.git-credentials',
+  'credentials.json',
+]);
+
+// `.env` and `.env.local` etc., but not the committed templates
+const SECRET_FILE_PATTERNS = [/^\.env(\..+)?$/, /\.(pem|key|p12|pfx|keystore|jks)$/i];
+const ENV_TEMPLATE = /^\.env\.(example|sample|template|dist)$/;
+
+// Directories whose whole content is private, and files identified by their parent
+const SECRET_DIRECTORIES = new Set(['.ssh', '.gnupg', '.devmentorai']);
+const SECRET_PATHS = [
+  ['.aws', 'credentials'],
+  ['.aws', 'config'],
+  ['.kube', 'config'],
+  ['.docker', 'config.json'],
+  ['.config', 'gh', 'hosts.yml'],
+];
+
+/**
+ * Whether a resolved path is (or is inside) a well-known secret location
+ */
+export function isSecretPath(realPath: string): boolean {
+  const segments = realPath.split(path.sep).filter(Boolean);
+  const fileName = segments.at(-1) ?? '';
+
+  if (segments.some((segment) => SECRET_DIRECTORIES.has(segment))) return true;
+  if (SECRET_FILE_NAMES.has(fileName)) return true;
+  if (!ENV_TEMPLATE.test(fileName) && SECRET_FILE_PATTERNS.some((re) => re.test(fileName))) {
+    return true;
+  }
+
+  return SECRET_PATHS.some(
+    (secret) =>
+      segments.length >= secret.length &&
+      secret.every((part, index) => segments[segments.length - secret.length + index] === part)
+  );
+}
+
+/**
+ * Resolve symlinks for the longest existing prefix of a path, so paths that do
+ * not exist yet are still judged by where they would really land
+ */
+async function resolveRealPath(target: string): Promise<string> {
+  let existing = target;
+  const missing: string[] = [];
+
+  while (true) {
+    try {
+      const real = await fs.realpath(existing);
+      return path.join(real, ...missing.reverse());
+    } catch (error) {
+      const parent = path.dirname(existing);
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT' || parent === existing) {
+        return target;
+      }
+      missing.push(path.basename(existing));
+      existing = parent;
+    }
+  }
+}
+
+function isInside(root: string, target: string): boolean {
+  const relative = path.relative(root, target);
+  if (relative === '') return true;
+  return relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative);
+}
+
+/**
+ * Check a path requested by a tool against the workspace roots.
+ * Relative paths are taken relative to the first root.
+ */
+export async function checkWorkspaceAccess(
+  requestedPath: string,
+  roots: string[]
+): Promise<WorkspaceAccessResult> {
+  const absolute = path.resolve(roots[0] ?? process.cwd(), requestedPath);
+  const realPath = await resolveRealPath(absolute);
+
+  if (isSecretPath(realPath)) {
+    return {
+      allowed: false,
+      reason: 'secret',
+      message: `Error: Access denied. "${requestedPath}" is a protected secret file and cannot be read.`,
+    };
+  }
+
+  const realRoots = await Promise.all(roots.map((root) => resolveRealPath(root)));
+  if (realRoots.some((root) => isInside(root, realPath))) {
+    return { allowed: true, realPath };
+  }
+
+  let suggestedRoot = realPath;
+  try {
+    if (!(await fs.stat(realPath)).isDirectory()) suggestedRoot = path.dirname(realPath);
+  } catch {
+    suggestedRoot = path.dirname(realPath);
+  }
+
+  return {
+    allowed: false,
+    reason: 'outside_workspace',
+    message:
+      roots.length === 0
+        ? `Error: Access denied. This session has no workspace roots, so "${requestedPath}" cannot be accessed. Ask the user to add a workspace folder to the session.`
+        : `Error: Access denied. "${requestedPath}" is outside this session's workspace roots (${roots.join(', ')}). Ask the user to add the folder to the session's workspace.`,
+    suggestedRoot,
+  };
+}
+
+/**
+ * Validate a user-supplied workspace root and return its real path.
+ * Throws with a user-facing message when the root cannot be used.
+ */
+export async function normalizeWorkspaceRoot(root: string): Promise<string> {
+  if (!path.isAbsolute(root)) {
+    throw new Error(`Workspace root must be an absolute path: ${root}`);
+  }
+
+  let realRoot: string;
+  try {
+    realRoot = await fs.realpath(root);
+  } catch {
+    throw new Error(`Workspace root does not exist: ${root}`);
+  }
+
+  if (!(await fs.stat(realRoot)).isDirectory()) {
+    throw new Error(`Workspace root is not a directory: ${root}`);
+  }
+  if (isSecretPath(realRoot)) {
+    throw new Error(`Workspace root is a protected secret location: ${root}`);
+  }
+
+  return realRoot;
+}
@@ -0,0 +1,133 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+// Must use inline values in vi.mock factory (hoisted above variable declarations)
+const TEST_BASE = path.join(os.tmpdir(), `devmentorai-auth-test-${process.pid}`);
+
+vi.mock('../../src/lib/paths.js', () => {
+  const _path = require('node:path');
+  const _os = require('node:os');
+  const _fs = require('node:fs');
+  const base = _path.join(_os.tmpdir(), `devmentorai-auth-test-${process.pid}`);
+  return {
+    DATA_DIR: base,
+    AUTH_SECRET_FILE: _path.join(base, 'auth-secret'),
+    ensureDir: (dir: string) => {
+      if (!_fs.existsSync(dir)) _fs.mkdirSync(dir, { recursive: true });
+    },
+  };
+});
+
+import {
+  PAIRING_WINDOW_MS,
+  getPairingCode,
+  isAuthorizedRequest,
+  issueToken,
+  loadAuthSecret,
+  verifyPairingCode,
+  verifyToken,
+} from '../../src/lib/auth.js';
+
+describe('auth utilities', () => {
+  const secret = Buffer.alloc(32, 7);
+  const otherSecret = Buffer.alloc(32, 8);
+
+  afterEach(() => {
+    fs.rmSync(TEST_BASE, { recursive: true, force: true });
+  });
+
+  describe('loadAuthSecret', () => {
+    it('should create a private secret on first run and reuse it', () => {
+      const created = loadAuthSecret();
+      const file = path.join(TEST_BASE, 'auth-secret');
+
+      expect(created).toHaveLength(32);
+      expect(fs.statSync(file).mode & 0o777).toBe(0o600);
+      expect(loadAuthSecret().equals(created)).toBe(true);
+    });
+  });
+
+  describe('pairing codes', () => {
+    const now = 10 * PAIRING_WINDOW_MS + 1000;
+
+    it('should format codes without ambiguous characters', () => {
+      expect(getPairingCode(secret, now)).toMatch(/^[A-HJ-NP-Z2-9]{4}-[A-HJ-NP-Z2-9]{4}$/);
+    });
+
+    it('should accept the current and previous window, ignoring case and dashes', () => {
+      const code = getPairingCode(secret, now);
+
+      expect(verifyPairingCode(secret, code, now)).toBe(true);
+      expect(verifyPairingCode(secret, code.toLowerCase().replace('-', ' '), now)).toBe(true);
+      expect(verifyPairingCode(secret, code, now + PAIRING_WINDOW_MS)).toBe(true);
+      expect(verifyPairingCode(secret, code, now + 2 * PAIRING_WINDOW_MS)).toBe(false);
+    });
+
+    it('should reject codes from another secret', () => {
+      expect(verifyPairingCode(secret, getPairingCode(otherSecret, now), now)).toBe(false);
+      expect(verifyPairingCode(secret, 'ABCD', now)).toBe(false);
+    });
+  });
+
+  describe('tokens', () => {
+    it('should verify tokens signed with the same secret only', () => {
+      const token = issueToken(secret);
+
+      expect(verifyToken(secret, token)).toBe(true);
+      expect(verifyToken(otherSecret, token)).toBe(false);
+      expect(issueToken(secret)).not.toBe(token);
+    });
+
+    it('should reject malformed or tampered tokens', () => {
+      const [id, signature] = issueToken(secret).split('.');
+
+      expect(verifyToken(secret, id)).toBe(false);
+      expect(verifyToken(secret, `${id}x.${signature}`)).toBe(false);
+      expect(verifyToken(secret, `${id}.${signature}.extra`)).toBe(false);
+      expect(verifyToken(secret, '')).toBe(false);
+    });
+  });
+
+  describe('isAuthorizedRequest', () => {
+    const request = (url: string, headers = {}, query = {}, method = 'GET') => ({
+      method,
+      url,
+      headers,
+      query,
+    });
+
+    it('should accept a Bearer token on any route', () => {
+      const token = issueToken(secret);
+
+      expect(
+        isAuthorizedRequest(secret, request('/api/sessions', { authorization: `Bearer ${token}` }))
+      ).toBe(true);
+      expect(
+        isAuthorizedRequest(
+          otherSecret,
+          request('/api/sessions', { authorization: `Bearer ${token}` })
+        )
+      ).toBe(false);
+      expect(isAuthorizedRequest(secret, request('/api/sessions'))).toBe(false);
+    });
+
+    it('should accept ?token= only for image downloads', () => {
+      const token = issueToken(secret);
+
+      expect(
+        isAuthorizedRequest(secret, request(`/api/images/s/m/a.png?token=${token}`, {}, { token }))
+      ).toBe(true);
+      expect(
+        isAuthorizedRequest(secret, request(`/api/sessions?token=${token}`, {}, { token }))
+      ).toBe(false);
+      expect(
+        isAuthorizedRequest(
+          secret,
+          request(`/api/images/s/m/a.png?token=${token}`, {}, { token }, 'DELETE')
+        )
+      ).toBe(false);
+    });
+  });
+});
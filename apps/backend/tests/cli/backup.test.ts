@@ -0,0 +1,167 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import Database from 'better-sqlite3';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Must use inline values in vi.mock factory (hoisted above variable declarations)
+const TEST_BASE = path.join(os.tmpdir(), `devmentorai-backup-test-${process.pid}`);
+const DB_FILE = path.join(TEST_BASE, 'devmentorai.db');
+
+vi.mock('../../src/lib/paths.js', () => {
+  const _path = require('node:path');
+  const _os = require('node:os');
+  const _fs = require('node:fs');
+  const base = _path.join(_os.tmpdir(), `devmentorai-backup-test-${process.pid}`);
+  return {
+    DATA_DIR: base,
+    DB_FILE: _path.join(base, 'devmentorai.db'),
+    BACKUPS_DIR: _path.join(base, 'backups'),
+    IMAGES_DIR: _path.join(base, 'images'),
+    ensureDir: (dir: string) => {
+      if (!_fs.existsSync(dir)) _fs.mkdirSync(dir, { recursive: true });
+    },
+    getFileStats: (file: string) => {
+      try {
+        return _fs.statSync(file);
+      } catch {
+        return null;
+      }
+    },
+    getDirectorySize: () => 0,
+  };
+});
+
+import { initDatabase } from '../../src/db/index.js';
+import { getLatestSchemaVersion } from '../../src/db/migrate.js';
+import {
+  backupDatabase,
+  checkDatabase,
+  inspectBackup,
+  restoreDatabase,
+} from '../../src/lib/backup.js';
+
+function sessionNames(file: string): string[] {
+  const db = new Database(file, { readonly: true });
+  try {
+    return (db.prepare('SELECT name FROM sessions ORDER BY name').all() as { name: string }[]).map(
+      (row) => row.name
+    );
+  } finally {
+    db.close();
+  }
+}
+
+function addSession(id: string, name: string): void {
+  const db = new Database(DB_FILE);
+  db.prepare("INSERT INTO sessions (id, name, type) VALUES (?, ?, 'devops')").run(id, name);
+  db.close();
+}
+
+describe('database backup utilities', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    initDatabase().close();
+    addSession('s1', 'Original');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(TEST_BASE, { recursive: true, force: true });
+  });
+
+  describe('backupDatabase', () => {
+    it('should write a timestamped copy to the backups directory', async () => {
+      const file = await backupDatabase();
+
+      expect(path.dirname(file)).toBe(path.join(TEST_BASE, 'backups'));
+      expect(sessionNames(file)).toEqual(['Original']);
+    });
+
+    it('should refuse to overwrite an existing file', async () => {
+      const file = path.join(TEST_BASE, 'taken.db');
+      fs.writeFileSync(file, 'x');
+
+      await expect(backupDatabase(file)).rejects.toThrow(/Refusing to overwrite/);
+    });
+  });
+
+  describe('inspectBackup', () => {
+    it('should accept a backup and report its schema version', async () => {
+      const inspection = inspectBackup(await backupDatabase());
+
+      expect(inspection).toEqual({ ok: true, schemaVersion: getLatestSchemaVersion(), errors: [] });
+    });
+
+    it('should reject files that are not databases', () => {
+      const file = path.join(TEST_BASE, 'notes.txt');
+      fs.writeFileSync(file, 'not a database, just some notes that are long enough to read');
+
+      expect(inspectBackup(file).ok).toBe(false);
+      expect(inspectBackup(path.join(TEST_BASE, 'missing.db')).ok).toBe(false);
+    });
+  });
+
+  describe('restoreDatabase', () => {
+    it('should replace the database and keep the previous one', async () => {
+      const backup = await backupDatabase();
+      addSession('s2', 'Added later');
+
+      const result = await restoreDatabase(backup);
+
+      expect(sessionNames(DB_FILE)).toEqual(['Original']);
+      expect(result.previousBackup).not.toBeNull();
+      expect(sessionNames(result.previousBackup as string)).toEqual(['Added later', 'Original']);
+      expect(result.migrationsApplied).toBe(0);
+    });
+
+    it('should migrate an older backup to the latest schema', async () => {
+      const old = path.join(TEST_BASE, 'old.db');
+      const db = new Database(old);
+      db.exec(`
+        CREATE TABLE sessions (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          type TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'active',
+          model TEXT NOT NULL DEFAULT 'gpt-5-mini',
+          system_prompt TEXT,
+          custom_agent TEXT,
+          message_count INTEGER NOT NULL DEFAULT 0,
+          created_at TEXT NOT NULL DEFAULT (datetime('now')),
+          updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+        );
+        INSERT INTO sessions (id, name, type) VALUES ('s9', 'From old backup', 'general');
+      `);
+      db.close();
+
+      const result = await restoreDatabase(old);
+
+      expect(result.schemaVersion).toBe(getLatestSchemaVersion());
+      expect(result.migrationsApplied).toBeGreaterThan(0);
+      expect(sessionNames(DB_FILE)).toEqual(['From old backup']);
+    });
+
+    it('should leave the database alone when the backup is invalid', async () => {
+      const file = path.join(TEST_BASE, 'broken.db');
+      fs.writeFileSync(file, 'garbage');
+
+      await expect(restoreDatabase(file)).rejects.toThrow(/cannot be restored/);
+      expect(sessionNames(DB_FILE)).toEqual(['Original']);
+    });
+  });
+
+  describe('checkDatabase', () => {
+    it('should report integrity, schema version and row counts', () => {
+      const report = checkDatabase();
+
+      expect(report.integrity).toEqual(['ok']);
+      expect(report.foreignKeyViolations).toBe(0);
+      expect(report.schemaVersion).toBe(report.latestSchemaVersion);
+      expect(report.checkpoint.busy).toBe(false);
+      expect(report.sizes.wal).toBe(0);
+      expect(report.sizes.database).toBeGreaterThan(0);
+      expect(report.rows).toEqual({ sessions: 1, messages: 0 });
+    });
+  });
+});
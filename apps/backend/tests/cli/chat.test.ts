@@ -0,0 +1,52 @@
+import type { StreamEvent } from '@devmentorai/shared';
+import { describe, expect, it } from 'vitest';
+import { MAX_ASK_INPUT_CHARS, buildAskPrompt } from '../../src/cli/chat.js';
+import { readEventStream } from '../../src/lib/server-client.js';
+
+function streamOf(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+      controller.close();
+    },
+  });
+}
+
+describe('ask command', () => {
+  it('should send piped input after the question', () => {
+    expect(buildAskPrompt('why did this fail', 'OOMKilled\n')).toBe(
+      'why did this fail\n\n```\nOOMKilled\n```'
+    );
+    expect(buildAskPrompt('what is a pod?')).toBe('what is a pod?');
+    expect(buildAskPrompt('', 'exit code 137')).toMatch(/^What does this output tell us/);
+  });
+
+  it('should keep the end of long input', () => {
+    const input = `${'x'.repeat(10)}${'y'.repeat(MAX_ASK_INPUT_CHARS)}`;
+    const prompt = buildAskPrompt('why', input);
+
+    expect(prompt).toContain('[... 10 earlier characters omitted]');
+    expect(prompt).not.toContain('x');
+    expect(prompt).toContain('y'.repeat(MAX_ASK_INPUT_CHARS));
+  });
+});
+
+describe('readEventStream', () => {
+  it('should parse events split across chunks and stop at [DONE]', async () => {
+    const events: StreamEvent[] = [];
+    await readEventStream(
+      streamOf([
+        'data: {"type":"message_delta","data":{"deltaContent":"Hel',
+        'lo"}}\n\ndata: not json\n\ndata: {"type":"done","data":{"reason":"completed"}}\n\n',
+        'data: [DONE]\n\ndata: {"type":"message_delta","data":{"deltaContent":"late"}}\n\n',
+      ]),
+      (event) => events.push(event)
+    );
+
+    expect(events).toEqual([
+      { type: 'message_delta', data: { deltaContent: 'Hello' } },
+      { type: 'done', data: { reason: 'completed' } },
+    ]);
+  });
+});
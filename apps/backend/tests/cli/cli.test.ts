@@ -14,7 +14,9 @@ describe.skipIf(!CLI_EXISTS)('CLI entry point', () => {
     expect(output).toContain('stop');
     expect(output).toContain('status');
     expect(output).toContain('logs');
+    expect(output).toContain('pair');
     expect(output).toContain('doctor');
+    expect(output).toContain('restore <file>');
   });
 
   it('should show version with --version flag', () => {
@@ -14,6 +14,7 @@ vi.mock('../../src/lib/paths.js', () => {
   return {
     PID_FILE: _path.join(base, 'server.pid'),
     LOG_FILE: _path.join(base, 'logs', 'server.log'),
+    STDOUT_LOG_FILE: _path.join(base, 'logs', 'stdout.log'),
     LOG_DIR: _path.join(base, 'logs'),
     DATA_DIR: base,
     IMAGES_DIR: _path.join(base, 'images'),
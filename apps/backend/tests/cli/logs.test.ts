@@ -0,0 +1,105 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { formatLogLine, matchesFilters, parseLogLine, parseSince } from '../../src/cli/logs.js';
+import { RotatingLogFile, listRotatedLogs } from '../../src/lib/logger.js';
+
+const NOW = Date.parse('2026-03-01T12:00:00.000Z');
+
+function line(entry: Record<string, unknown>) {
+  return parseLogLine(JSON.stringify(entry));
+}
+
+describe('logs command', () => {
+  it('should parse durations and dates for --since', () => {
+    expect(parseSince('15m', NOW)).toBe(NOW - 15 * 60_000);
+    expect(parseSince('2h', NOW)).toBe(NOW - 2 * 3_600_000);
+    expect(parseSince('1d', NOW)).toBe(NOW - 86_400_000);
+    expect(parseSince('2026-02-28T00:00:00Z', NOW)).toBe(Date.parse('2026-02-28T00:00:00Z'));
+    expect(() => parseSince('yesterday-ish', NOW)).toThrow(/Invalid --since/);
+  });
+
+  it('should filter by level, session, time and pattern', () => {
+    const warn = line({ level: 40, time: NOW, msg: 'Retrying request', sessionId: 's1' });
+    const info = line({
+      level: 30,
+      time: NOW - 3_600_000,
+      msg: 'incoming request',
+      req: { method: 'GET', url: '/api/sessions/s2/messages' },
+    });
+
+    expect(matchesFilters(warn, { level: 40 })).toBe(true);
+    expect(matchesFilters(info, { level: 40 })).toBe(false);
+    expect(matchesFilters(warn, { sessionId: 's1' })).toBe(true);
+    expect(matchesFilters(info, { sessionId: 's2' })).toBe(true);
+    expect(matchesFilters(info, { sessionId: 's1' })).toBe(false);
+    expect(matchesFilters(info, { since: NOW - 60_000 })).toBe(false);
+    expect(matchesFilters(warn, { grep: /retrying/i })).toBe(true);
+    expect(matchesFilters(info, { grep: /retrying/i })).toBe(false);
+  });
+
+  it('should keep plain-text lines only when no structured filter is set', () => {
+    const plain = parseLogLine('[CopilotService] Ready');
+
+    expect(plain.entry).toBeNull();
+    expect(matchesFilters(plain, {})).toBe(true);
+    expect(matchesFilters(plain, { grep: /copilot/i })).toBe(true);
+    expect(matchesFilters(plain, { level: 30 })).toBe(false);
+  });
+
+  it('should pretty-print a JSON line', () => {
+    const formatted = formatLogLine(
+      line({
+        level: 30,
+        time: NOW,
+        pid: 1,
+        hostname: 'box',
+        msg: 'request completed',
+        traceId: 'abcdef0123456789',
+        res: { statusCode: 200 },
+        responseTime: 12.4,
+        provider: 'copilot',
+      })
+    );
+
+    // Times are shown in the local timezone
+    const time = new Date(NOW).toTimeString().slice(0, 8);
+    expect(formatted).toBe(
+      `${time} INFO  request completed 200 12ms provider=copilot trace=abcdef01`
+    );
+  });
+});
+
+describe('RotatingLogFile', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'devmentorai-logs-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should rotate by size and keep only the newest files', () => {
+    const file = path.join(dir, 'server.log');
+    const log = new RotatingLogFile(file, { maxBytes: 20, maxFiles: 2 });
+
+    // Rotated names carry a millisecond timestamp, so keep writes apart
+    for (const text of ['first line 0001\n', 'second line 002\n', 'third line 0003\n']) {
+      log.write(text);
+      const until = Date.now() + 2;
+      while (Date.now() < until) {
+        // wait
+      }
+    }
+    log.write('fourth line 004\n');
+    log.close();
+
+    const rotated = listRotatedLogs(dir);
+    expect(rotated).toHaveLength(2);
+    expect(fs.readFileSync(rotated[0], 'utf-8')).toBe('second line 002\n');
+    expect(fs.readFileSync(file, 'utf-8')).toBe('fourth line 004\n');
+  });
+});
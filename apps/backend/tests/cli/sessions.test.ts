@@ -0,0 +1,40 @@
+import type { Session } from '@devmentorai/shared';
+import { describe, expect, it } from 'vitest';
+import type { CliOptions } from '../../src/cli.js';
+import { buildSessionFilter, formatSessionTable } from '../../src/cli/sessions.js';
+
+const NOW = Date.parse('2026-03-01T12:00:00.000Z');
+
+describe('sessions command', () => {
+  it('should turn options into a session filter', () => {
+    const options: CliOptions = { type: 'devops', status: 'closed', since: '7d', before: '1d' };
+
+    expect(buildSessionFilter(options, NOW)).toEqual({
+      type: 'devops',
+      status: 'closed',
+      updatedAfter: '2026-02-22T12:00:00.000Z',
+      updatedBefore: '2026-02-28T12:00:00.000Z',
+    });
+    expect(buildSessionFilter({}, NOW)).toEqual({});
+    expect(() => buildSessionFilter({ status: 'archived' }, NOW)).toThrow(/Invalid --status/);
+    expect(() => buildSessionFilter({ before: 'last week' }, NOW)).toThrow(/Invalid --before/);
+  });
+
+  it('should align the table and mark pinned sessions', () => {
+    const session = {
+      id: 'session_1',
+      name: 'Debug ingress',
+      type: 'devops',
+      status: 'active',
+      messageCount: 12,
+      pinned: true,
+      updatedAt: new Date(NOW).toISOString(),
+    } as Session;
+
+    const [header, row] = formatSessionTable([session]);
+
+    expect(header).toMatch(/^ID\s+NAME\s+TYPE\s+STATUS\s+MESSAGES\s+UPDATED$/);
+    expect(row.indexOf('* Debug ingress')).toBe(header.indexOf('NAME'));
+    expect(row.indexOf('12')).toBe(header.indexOf('MESSAGES'));
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { STDOUT_LOG_FILE } from '../../src/lib/paths.js';
+import { buildUnitFile, parseServiceStatus } from '../../src/lib/systemd.js';
+
+describe('systemd', () => {
+  describe('buildUnitFile', () => {
+    const unit = buildUnitFile({
+      nodePath: '/usr/bin/node',
+      cliPath: '/usr/lib/node_modules/devmentorai-server/dist/cli.js',
+      searchPath: '/usr/local/bin:/usr/bin',
+    });
+
+    it('should run the server in the foreground and restart it on failure', () => {
+      expect(unit).toContain(
+        'ExecStart="/usr/bin/node" "/usr/lib/node_modules/devmentorai-server/dist/cli.js" start --foreground'
+      );
+      expect(unit).toContain('Restart=on-failure');
+      expect(unit).toContain('WantedBy=default.target');
+    });
+
+    it('should append output to the log directory and pass PATH on', () => {
+      expect(unit).toContain(`StandardOutput=append:${STDOUT_LOG_FILE}`);
+      expect(unit).toContain(`StandardError=append:${STDOUT_LOG_FILE}`);
+      expect(unit).toContain('Environment="PATH=/usr/local/bin:/usr/bin"');
+    });
+  });
+
+  describe('parseServiceStatus', () => {
+    it('should read an installed, running service', () => {
+      const status = parseServiceStatus(
+        'MainPID=4242\nLoadState=loaded\nActiveState=active\nUnitFileState=enabled\n'
+      );
+      expect(status).toEqual({
+        installed: true,
+        enabled: true,
+        state: 'active',
+        active: true,
+        pid: 4242,
+      });
+    });
+
+    it('should read a missing unit as not installed', () => {
+      const status = parseServiceStatus(
+        'MainPID=0\nLoadState=not-found\nActiveState=inactive\nUnitFileState=\n'
+      );
+      expect(status).toEqual({
+        installed: false,
+        enabled: false,
+        state: 'inactive',
+        active: false,
+        pid: null,
+      });
+    });
+
+    it('should treat a failed service as not active', () => {
+      const status = parseServiceStatus('LoadState=loaded\nActiveState=failed\nMainPID=0');
+      expect(status.installed).toBe(true);
+      expect(status.active).toBe(false);
+      expect(status.state).toBe('failed');
+    });
+  });
+});
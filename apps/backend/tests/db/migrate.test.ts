@@ -0,0 +1,180 @@
+import Database from 'better-sqlite3';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { getLatestSchemaVersion, getSchemaVersion, runMigrations } from '../../src/db/migrate.js';
+import { MIGRATIONS, type Migration } from '../../src/db/migrations/index.js';
+import { hasColumn } from '../../src/db/migrations/migration.js';
+import { SessionService } from '../../src/services/session.service.js';
+
+function tableNames(db: Database.Database): string[] {
+  return (
+    db.prepare("SELECT name FROM sqlite_master WHERE type = 'table'").all() as { name: string }[]
+  ).map((row) => row.name);
+}
+
+describe('runMigrations', () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should keep migration versions strictly increasing', () => {
+    MIGRATIONS.forEach((migration, index) => {
+      expect(migration.version).toBe(index + 1);
+    });
+  });
+
+  describe('fresh database', () => {
+    it('should create the latest schema', () => {
+      const applied = runMigrations(db);
+
+      expect(applied).toHaveLength(MIGRATIONS.length);
+      expect(getSchemaVersion(db)).toBe(getLatestSchemaVersion());
+      expect(tableNames(db)).toEqual(
+        expect.arrayContaining([
+          'sessions',
+          'messages',
+          'session_contexts',
+          'personas',
+          'usage',
+          'tool_permissions',
+          'messages_fts',
+        ])
+      );
+      expect(hasColumn(db, 'sessions', 'provider')).toBe(true);
+      expect(hasColumn(db, 'sessions', 'workspace_roots')).toBe(true);
+      expect(hasColumn(db, 'messages', 'parent_id')).toBe(true);
+    });
+
+    it('should do nothing when already up to date', () => {
+      runMigrations(db);
+
+      expect(runMigrations(db)).toEqual([]);
+    });
+
+    it('should support the session service', () => {
+      runMigrations(db);
+      const service = new SessionService(db);
+
+      const session = service.createSession({ name: 'Persona chat', type: 'persona_abc' });
+      service.addMessage(session.id, 'user', 'How do I rotate kube certificates?');
+
+      expect(service.getSession(session.id)?.type).toBe('persona_abc');
+      expect(service.searchMessages('kube')).toHaveLength(1);
+    });
+
+    it('should restore the foreign key setting afterwards', () => {
+      db.pragma('foreign_keys = ON');
+      runMigrations(db);
+
+      expect(db.pragma('foreign_keys', { simple: true })).toBe(1);
+    });
+  });
+
+  describe('database created before versioned migrations', () => {
+    beforeEach(() => {
+      // Schema as left behind by the old ad-hoc ALTER TABLE migrations
+      db.exec(`
+        CREATE TABLE sessions (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          type TEXT NOT NULL CHECK (type IN ('devops', 'writing', 'development', 'general')),
+          status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused', 'closed')),
+          model TEXT NOT NULL DEFAULT 'gpt-5-mini',
+          system_prompt TEXT,
+          custom_agent TEXT,
+          message_count INTEGER NOT NULL DEFAULT 0,
+          created_at TEXT NOT NULL DEFAULT (datetime('now')),
+          updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+        );
+        CREATE TABLE messages (
+          id TEXT PRIMARY KEY,
+          session_id TEXT NOT NULL,
+          role TEXT NOT NULL CHECK (role IN ('user', 'assistant', 'system')),
+          content TEXT NOT NULL,
+          timestamp TEXT NOT NULL DEFAULT (datetime('now')),
+          metadata TEXT,
+          FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
+        );
+        ALTER TABLE sessions ADD COLUMN tone TEXT DEFAULT 'balanced';
+        ALTER TABLE sessions ADD COLUMN explain_tradeoffs INTEGER DEFAULT 0;
+        ALTER TABLE sessions ADD COLUMN reasoning_effort TEXT;
+        ALTER TABLE messages ADD COLUMN parent_id TEXT;
+
+        INSERT INTO sessions (id, name, type, tone) VALUES ('s1', 'Old session', 'devops', 'concise');
+        INSERT INTO messages (id, session_id, role, content, timestamp)
+          VALUES ('m1', 's1', 'user', 'terraform plan fails', '2024-01-01 10:00:00');
+        INSERT INTO messages (id, session_id, role, content, timestamp, parent_id)
+          VALUES ('m2', 's1', 'assistant', 'Check the provider version', '2024-01-01 10:00:01', 'm1');
+      `);
+    });
+
+    it('should upgrade the schema and keep existing rows', () => {
+      runMigrations(db);
+
+      const session = db.prepare('SELECT * FROM sessions WHERE id = ?').get('s1') as Record<
+        string,
+        unknown
+      >;
+      expect(session.tone).toBe('concise');
+      expect(session.provider).toBe('copilot');
+      expect(session.workspace_roots).toBe('[]');
+      expect(db.prepare('SELECT COUNT(*) as count FROM messages').get()).toEqual({ count: 2 });
+    });
+
+    it('should drop the session type constraint without cascading to messages', () => {
+      db.pragma('foreign_keys = ON');
+      runMigrations(db);
+
+      db.prepare(
+        "INSERT INTO sessions (id, name, type) VALUES ('s2', 'Persona', 'persona_x')"
+      ).run();
+      expect(db.prepare('SELECT COUNT(*) as count FROM messages').get()).toEqual({ count: 2 });
+    });
+
+    it('should index existing messages for search', () => {
+      runMigrations(db);
+
+      expect(db.prepare('SELECT COUNT(*) as count FROM messages_fts').get()).toEqual({ count: 2 });
+    });
+  });
+
+  describe('failures', () => {
+    it('should refuse a database newer than the server', () => {
+      db.pragma(`user_version = ${getLatestSchemaVersion() + 1}`);
+
+      expect(() => runMigrations(db)).toThrow(/newer than this server supports/);
+    });
+
+    it('should roll back a failing migration and keep the previous version', () => {
+      const migrations: Migration[] = [
+        { version: 1, name: 'create', up: (d) => d.exec('CREATE TABLE a (id TEXT)') },
+        {
+          version: 2,
+          name: 'broken',
+          up: (d) => {
+            d.exec('CREATE TABLE b (id TEXT)');
+            d.exec('INSERT INTO missing VALUES (1)');
+          },
+        },
+      ];
+
+      expect(() => runMigrations(db, migrations)).toThrow();
+      expect(getSchemaVersion(db)).toBe(1);
+      expect(tableNames(db)).toEqual(['a']);
+    });
+
+    it('should reject migrations out of order', () => {
+      const migrations: Migration[] = [
+        { version: 2, name: 'second', up: () => {} },
+        { version: 1, name: 'first', up: () => {} },
+      ];
+
+      expect(() => runMigrations(db, migrations)).toThrow(/must increase/);
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import Fastify, { type FastifyInstance } from 'fastify';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { chatRoutes } from '../../src/routes/chat.js';
+import type { ProviderEvent } from '../../src/services/providers/types.js';
+
+describe('chat stream route', () => {
+  let fastify: FastifyInstance;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    fastify = Fastify();
+    fastify.decorate('sessionService', {
+      getSession: () => ({ id: 'session_1', provider: 'copilot', model: 'gpt-5-mini' }),
+      addMessage: (_sessionId: string, role: string) => ({ id: `msg_${role}`, metadata: {} }),
+    } as never);
+    fastify.decorate('llmService', {
+      streamMessage: async (
+        _sessionId: string,
+        _prompt: string,
+        _context: unknown,
+        onEvent: (event: ProviderEvent) => void
+      ) => {
+        await Promise.resolve();
+        onEvent({ type: 'assistant.message_delta', data: { deltaContent: 'Hi' } });
+        onEvent({ type: 'assistant.message', data: { content: 'Hi there' } });
+        onEvent({ type: 'session.idle', data: {} });
+      },
+      abortRequest: async () => {},
+      getPricingMultiplier: async () => 1,
+    } as never);
+    fastify.decorate('workspaceService', { onAccessDenied: () => () => {} } as never);
+    fastify.decorate('permissionService', {
+      onPermissionRequest: () => () => {},
+      hasPending: () => false,
+      cancelPending: () => {},
+    } as never);
+    fastify.decorate('metricsService', {
+      recordToolCall: vi.fn(),
+      observeStream: vi.fn(),
+      observeTimeToFirstToken: vi.fn(),
+    } as never);
+    fastify.decorate('usageService', { recordUsage: vi.fn() } as never);
+    await fastify.register(chatRoutes, { prefix: '/api' });
+  });
+
+  afterEach(async () => {
+    await fastify.close();
+    vi.restoreAllMocks();
+  });
+
+  it('should send the done event before closing the stream', async () => {
+    const response = await fastify.inject({
+      method: 'POST',
+      url: '/api/sessions/session_1/chat/stream',
+      payload: { prompt: 'Hello' },
+    });
+
+    const events = response.payload
+      .split('\n\n')
+      .filter(Boolean)
+      .map((chunk) => chunk.replace(/^data: /, ''));
+
+    expect(events.at(-1)).toBe('[DONE]');
+    expect(events.slice(0, -1).map((event) => JSON.parse(event).type)).toEqual([
+      'message_delta',
+      'message_complete',
+      'done',
+    ]);
+    expect(JSON.parse(events.at(-2) ?? '')).toMatchObject({
+      type: 'done',
+      data: { messageId: 'msg_assistant', reason: 'completed' },
+    });
+  });
+});
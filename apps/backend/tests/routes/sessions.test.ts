@@ -0,0 +1,77 @@
+import Database from 'better-sqlite3';
+import Fastify, { type FastifyInstance } from 'fastify';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { runMigrations } from '../../src/db/migrate.js';
+import { sessionRoutes } from '../../src/routes/sessions.js';
+import { SessionService } from '../../src/services/session.service.js';
+
+describe('session routes', () => {
+  let db: Database.Database;
+  let sessionService: SessionService;
+  let fastify: FastifyInstance;
+  const createSession = vi.fn();
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    db = new Database(':memory:');
+    runMigrations(db);
+    sessionService = new SessionService(db);
+    createSession.mockReset().mockResolvedValue(undefined);
+
+    fastify = Fastify();
+    fastify.decorate('sessionService', sessionService);
+    fastify.decorate('llmService', {
+      createSession,
+      getUnavailableReason: () => null,
+    } as never);
+    await fastify.register(sessionRoutes, { prefix: '/api' });
+  });
+
+  afterEach(async () => {
+    await fastify.close();
+    db.close();
+    vi.restoreAllMocks();
+  });
+
+  it('should drop the fork when the provider session cannot be created', async () => {
+    const source = sessionService.createSession({ name: 'Debug', type: 'devops' });
+    const message = sessionService.addMessage(source.id, 'user', 'Why is the pod pending?');
+    createSession.mockRejectedValueOnce(new Error('provider unavailable'));
+
+    const response = await fastify.inject({
+      method: 'POST',
+      url: `/api/sessions/${source.id}/messages/${message.id}/fork`,
+    });
+
+    expect(response.statusCode).toBe(500);
+    expect(sessionService.listSessions().items.map((session) => session.id)).toEqual([source.id]);
+  });
+
+  it('should give the provider the imported thread', async () => {
+    const response = await fastify.inject({
+      method: 'POST',
+      url: '/api/sessions/import',
+      payload: {
+        version: 1,
+        session: { name: 'Imported', type: 'devops', model: 'gpt-5-mini' },
+        messages: [
+          { role: 'user', content: 'Why is the pod pending?', timestamp: '2026-01-01T00:00:00Z' },
+          {
+            role: 'assistant',
+            content: 'The node has no free CPU.',
+            timestamp: '2026-01-01T00:00:01Z',
+          },
+        ],
+      },
+    });
+
+    expect(response.statusCode).toBe(201);
+    const { id } = response.json().data;
+    const [sessionId, , , , options] = createSession.mock.calls[0];
+    expect(sessionId).toBe(id);
+    expect(options.systemPrompt).toContain('## Conversation so far');
+    expect(options.systemPrompt).toContain(
+      'User: Why is the pod pending?\n\nAssistant: The node has no free CPU.'
+    );
+  });
+});
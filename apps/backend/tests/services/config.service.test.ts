@@ -0,0 +1,159 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+
+// Must use inline values in vi.mock factory (hoisted above variable declarations)
+const TEST_BASE = path.join(os.tmpdir(), `devmentorai-config-test-${process.pid}`);
+const CONFIG_FILE = path.join(TEST_BASE, 'config.json');
+
+vi.mock('../../src/lib/paths.js', () => {
+  const _path = require('node:path');
+  const _os = require('node:os');
+  const _fs = require('node:fs');
+  const base = _path.join(_os.tmpdir(), `devmentorai-config-test-${process.pid}`);
+  return {
+    DATA_DIR: base,
+    IMAGES_DIR: _path.join(base, 'images'),
+    CONFIG_FILE: _path.join(base, 'config.json'),
+    ensureDir: (dir: string) => {
+      if (!_fs.existsSync(dir)) _fs.mkdirSync(dir, { recursive: true });
+    },
+  };
+});
+
+import { configCommand } from '../../src/cli/config.js';
+import {
+  ConfigService,
+  DEFAULT_SERVER_CONFIG,
+  checkConfigFile,
+  parseConfigValue,
+} from '../../src/services/config.service.js';
+
+function writeConfig(config: unknown): void {
+  fs.writeFileSync(CONFIG_FILE, JSON.stringify(config));
+}
+
+describe('ConfigService', () => {
+  beforeEach(() => {
+    fs.mkdirSync(TEST_BASE, { recursive: true });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(TEST_BASE, { recursive: true, force: true });
+  });
+
+  it('should merge the file over the defaults and let the environment win', () => {
+    writeConfig({ server: { port: 4000 }, tools: { mcp: true } });
+
+    const service = new ConfigService({
+      DEVMENTORAI_HOST: '0.0.0.0',
+      DEVMENTORAI_DEBUG: 'true',
+    });
+
+    expect(service.get().server).toEqual({ port: 4000, host: '0.0.0.0' });
+    expect(service.get().tools).toEqual({ mcp: true, workspaceRoots: [], disabledRules: [] });
+    expect(service.get().logging.debugBodies).toBe(true);
+    expect(service.getReport().overridden).toEqual(['server.host', 'logging.debugBodies']);
+    expect(service.list()).toContainEqual({ key: 'server.port', value: 4000, source: 'file' });
+    expect(service.list()).toContainEqual({
+      key: 'logging.level',
+      value: 'info',
+      source: 'default',
+    });
+  });
+
+  it('should fall back to defaults for an invalid section only', () => {
+    writeConfig({ server: { port: 'not a port' }, logging: { level: 'warn' } });
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const service = new ConfigService({});
+
+    expect(service.get().server).toEqual(DEFAULT_SERVER_CONFIG.server);
+    expect(service.get().logging.level).toBe('warn');
+    expect(checkConfigFile()).toEqual(['server.port: Expected number, received string']);
+  });
+
+  it('should validate and save updates, keeping other sections', () => {
+    writeConfig({ retention: { maxAgeDays: 30 } });
+    const service = new ConfigService({});
+
+    service.update({ tools: { workspaceRoots: ['/srv/app'] } });
+    service.set('copilot.defaultModel', 'claude-sonnet-4.5');
+
+    const saved = JSON.parse(fs.readFileSync(CONFIG_FILE, 'utf-8'));
+    expect(saved.retention.maxAgeDays).toBe(30);
+    expect(saved.tools.workspaceRoots).toEqual(['/srv/app']);
+    expect(service.getValue('copilot.defaultModel')).toBe('claude-sonnet-4.5');
+
+    expect(() => service.set('server.port', 70000)).toThrow(z.ZodError);
+    expect(() => service.update({ tools: { workspaceRoots: ['relative/dir'] } })).toThrow(
+      z.ZodError
+    );
+    expect(() => service.set('server.nope', 1)).toThrow(/Unknown config key/);
+    expect(JSON.parse(fs.readFileSync(CONFIG_FILE, 'utf-8')).server).toBeUndefined();
+  });
+
+  it('should notify listeners on reload and flag settings that need a restart', () => {
+    const service = new ConfigService({});
+    const listener = vi.fn();
+    service.onChange(listener);
+
+    writeConfig({ logging: { level: 'debug' }, server: { port: 4100 } });
+    service.reload();
+    service.reload();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener.mock.calls[0][0].logging.level).toBe('debug');
+    expect(listener.mock.calls[0][1].logging.level).toBe('info');
+    expect(service.getReport().restartRequired).toEqual(['server.port']);
+  });
+
+  it('should redact the API key in reports', () => {
+    writeConfig({ openai: { apiKey: 'sk-secret-value-123456' } });
+
+    const service = new ConfigService({});
+
+    expect(service.get().openai.apiKey).toBe('sk-secret-value-123456');
+    expect(service.getReport().config.openai.apiKey).toBe('[REDACTED]');
+  });
+
+  it('should keep the saved file readable by its owner only', () => {
+    writeConfig({});
+    fs.chmodSync(CONFIG_FILE, 0o644);
+    fs.writeFileSync(`${CONFIG_FILE}.tmp`, '', { mode: 0o644 });
+
+    new ConfigService({}).set('openai.apiKey', 'sk-secret-value-123456');
+
+    expect(fs.statSync(CONFIG_FILE).mode & 0o777).toBe(0o600);
+  });
+
+  it('should read command-line values as the type of the field', () => {
+    expect(parseConfigValue('copilot.defaultModel', '4')).toBe('4');
+    expect(parseConfigValue('copilot.defaultModel', 'null')).toBeNull();
+    expect(parseConfigValue('server.host', 'true')).toBe('true');
+    expect(parseConfigValue('server.port', '4000')).toBe(4000);
+    expect(parseConfigValue('tools.mcp', 'false')).toBe(false);
+    expect(parseConfigValue('tools.workspaceRoots', '["/src"]')).toEqual(['/src']);
+    expect(parseConfigValue('retention.maxAgeDays', 'null')).toBeNull();
+
+    const service = new ConfigService({});
+    service.set('copilot.defaultModel', parseConfigValue('copilot.defaultModel', '4'));
+    expect(service.get().copilot.defaultModel).toBe('4');
+  });
+
+  it('should mask secrets in `config get` and `config set`', async () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await configCommand({ positionals: ['set', 'openai.apiKey', 'sk-secret-value-123456'] });
+    await configCommand({ positionals: ['get', 'openai.apiKey'] });
+
+    const output = log.mock.calls.flat().join('\n');
+    expect(output).not.toContain('sk-secret-value-123456');
+    expect(output).toContain('openai.apiKey = [REDACTED]');
+    expect(log).toHaveBeenLastCalledWith('[REDACTED]');
+    expect(new ConfigService({}).get().openai.apiKey).toBe('sk-secret-value-123456');
+  });
+});
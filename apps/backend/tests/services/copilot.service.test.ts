@@ -1,7 +1,10 @@
 import Database from 'better-sqlite3';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import { CopilotService } from '../../src/services/copilot.service';
+import { PermissionService } from '../../src/services/permission.service';
+import { PersonaService } from '../../src/services/persona.service';
 import { SessionService } from '../../src/services/session.service';
+import { WorkspaceService } from '../../src/services/workspace.service';
 
 // Mock the Copilot SDK
 vi.mock('@github/copilot-sdk', () => ({
@@ -16,6 +19,7 @@ vi.mock('@github/copilot-sdk', () => ({
 describe('CopilotService', () => {
   let db: Database.Database;
   let sessionService: SessionService;
+  let personaService: PersonaService;
   let copilotService: CopilotService;
 
   beforeEach(() => {
@@ -29,6 +33,7 @@ describe('CopilotService', () => {
         type TEXT NOT NULL,
         status TEXT DEFAULT 'active',
         model TEXT,
+        provider TEXT NOT NULL DEFAULT 'copilot',
         system_prompt TEXT,
         custom_agent TEXT,
         created_at TEXT NOT NULL,
@@ -45,10 +50,29 @@ describe('CopilotService', () => {
         metadata TEXT,
         FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
       );
+
+      CREATE TABLE IF NOT EXISTS personas (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        description TEXT,
+        icon TEXT NOT NULL,
+        agent_prompt TEXT NOT NULL,
+        default_model TEXT,
+        tone TEXT,
+        tools TEXT NOT NULL DEFAULT '[]',
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
     `);
 
     sessionService = new SessionService(db);
-    copilotService = new CopilotService(sessionService);
+    personaService = new PersonaService(db);
+    copilotService = new CopilotService(
+      sessionService,
+      personaService,
+      new WorkspaceService(sessionService),
+      new PermissionService(db)
+    );
   });
 
   afterEach(async () => {
@@ -80,37 +104,34 @@ describe('CopilotService', () => {
     });
 
     it('should create a mock session for DevOps type', async () => {
-      await copilotService.createCopilotSession('test-session-1', 'devops', 'gpt-5-mini');
+      await copilotService.createSession('test-session-1', 'devops', 'gpt-5-mini');
 
       // Should not throw in mock mode
       expect(copilotService.isMockMode()).toBe(true);
     });
 
     it('should create a mock session for Writing type', async () => {
-      await copilotService.createCopilotSession('test-session-2', 'writing', 'gpt-5-mini');
+      await copilotService.createSession('test-session-2', 'writing', 'gpt-5-mini');
 
       expect(copilotService.isMockMode()).toBe(true);
     });
 
     it('should create a mock session with custom system prompt', async () => {
-      await copilotService.createCopilotSession(
-        'test-session-3',
-        'general',
-        'gpt-5-mini',
-        'Custom system prompt for testing'
-      );
+      await copilotService.createSession('test-session-3', 'general', 'gpt-5-mini', {
+        systemPrompt: 'Custom system prompt for testing',
+      });
 
       expect(copilotService.isMockMode()).toBe(true);
     });
 
     it('should resume session in mock mode', async () => {
-      const result = await copilotService.resumeCopilotSession('any-session-id');
+      const result = await copilotService.resumeSession('any-session-id');
 
       expect(result).toBe(true);
     });
 
     it('should destroy session without error', async () => {
-      await copilotService.createCopilotSession('test-session-4', 'devops', 'gpt-5-mini');
+      await copilotService.createSession('test-session-4', 'devops', 'gpt-5-mini');
 
       // Should not throw
       await copilotService.destroySession('test-session-4');
@@ -120,7 +141,7 @@ describe('CopilotService', () => {
   describe('mock message handling', () => {
     beforeEach(async () => {
       await copilotService.initialize();
-      await copilotService.createCopilotSession('mock-session', 'devops', 'gpt-5-mini');
+      await copilotService.createSession('mock-session', 'devops', 'gpt-5-mini');
     });
 
     it('should generate mock response for explain action', async () => {
@@ -181,7 +202,7 @@ describe('CopilotService', () => {
   describe('streaming', () => {
     beforeEach(async () => {
       await copilotService.initialize();
-      await copilotService.createCopilotSession('stream-session', 'devops', 'gpt-5-mini');
+      await copilotService.createSession('stream-session', 'devops', 'gpt-5-mini');
     });
 
     it('should stream mock response with events', async () => {
@@ -240,7 +261,7 @@ describe('CopilotService', () => {
     });
 
     it('should abort request without error in mock mode', async () => {
-      await copilotService.createCopilotSession('abort-session', 'devops', 'gpt-5-mini');
+      await copilotService.createSession('abort-session', 'devops', 'gpt-5-mini');
 
       // Should not throw
       await copilotService.abortRequest('abort-session');
@@ -252,7 +273,7 @@ describe('CopilotService', () => {
     });
 
     it('should shutdown cleanly', async () => {
-      await copilotService.createCopilotSession('shutdown-session', 'devops', 'gpt-5-mini');
+      await copilotService.createSession('shutdown-session', 'devops', 'gpt-5-mini');
 
       // Should not throw
       await copilotService.shutdown();
@@ -270,7 +291,7 @@ describe('CopilotService', () => {
       const types = ['devops', 'writing', 'development', 'general'] as const;
 
       for (const type of types) {
-        await copilotService.createCopilotSession(`session-${type}`, type, 'gpt-5-mini');
+        await copilotService.createSession(`session-${type}`, type, 'gpt-5-mini');
 
         const response = await copilotService.sendMessage(`session-${type}`, 'Test message');
 
@@ -278,5 +299,23 @@ describe('CopilotService', () => {
         expect(typeof response).toBe('string');
       }
     });
+
+    it('should only expose DevOps tools to DevOps sessions', () => {
+      expect(copilotService.getAvailableTools('devops').length).toBeGreaterThan(0);
+      expect(copilotService.getAvailableTools('writing')).toEqual([]);
+    });
+
+    it("should expose a persona's selected tools", () => {
+      const persona = personaService.createPersona({
+        name: 'SRE On-call',
+        icon: '🚨',
+        agentPrompt: 'You help the on-call engineer triage incidents.',
+        tools: ['analyze_error', 'fetch_url'],
+      });
+
+      const tools = copilotService.getAvailableTools(`persona:${persona.id}`);
+      expect(tools.map((tool) => tool.name).sort()).toEqual(['analyze_error', 'fetch_url']);
+      expect(copilotService.getAvailableTools('persona:missing')).toEqual([]);
+    });
   });
 });
@@ -0,0 +1,128 @@
+import type { Message, Session } from '@devmentorai/shared';
+import { describe, expect, it } from 'vitest';
+import {
+  buildSessionExport,
+  getExportFilename,
+  renderSessionExport,
+} from '../../src/services/export-service.js';
+
+const THUMBNAIL_DATA_URL = 'data:image/jpeg;base64,/9j/4AAQ';
+
+const session: Session = {
+  id: 'session_abc123',
+  name: 'Prod Incident: API <502>',
+  type: 'devops',
+  status: 'active',
+  model: 'gpt-5-mini',
+  provider: 'copilot',
+  customAgent: 'devops-mentor',
+  tone: 'balanced',
+  messageCount: 2,
+  createdAt: '2025-01-30T10:00:00.000Z',
+  updatedAt: '2025-01-30T10:05:00.000Z',
+};
+
+const messages: Message[] = [
+  {
+    id: 'msg_user1',
+    sessionId: session.id,
+    role: 'user',
+    content: 'Why does the ingress return 502?',
+    timestamp: '2025-01-30T10:00:00.000Z',
+    metadata: {
+      pageUrl: 'https://grafana.example.com/d/api',
+      action: 'diagnose_error',
+      selectedText: 'upstream connect error',
+      images: [
+        {
+          id: 'img_1',
+          source: 'screenshot',
+          mimeType: 'image/png',
+          dimensions: { width: 800, height: 600 },
+          fileSize: 1234,
+          timestamp: '2025-01-30T10:00:00.000Z',
+          thumbnailUrl: 'http://localhost:3847/api/images/session_abc123/msg_user1/thumb_0.jpg',
+          fullImageUrl: 'http://localhost:3847/api/images/session_abc123/msg_user1/image_0.jpg',
+        },
+      ],
+    },
+  },
+  {
+    id: 'msg_asst1',
+    sessionId: session.id,
+    role: 'assistant',
+    content: 'The backend pods are failing readiness checks.',
+    timestamp: '2025-01-30T10:00:05.000Z',
+    metadata: {
+      toolCalls: [{ toolName: 'analyze_error', toolCallId: 't1', status: 'completed' }],
+    },
+  },
+];
+
+const readThumbnail = (sessionId: string, messageId: string, index: number) =>
+  sessionId === session.id && messageId === 'msg_user1' && index === 0 ? THUMBNAIL_DATA_URL : null;
+
+describe('ExportService', () => {
+  describe('buildSessionExport', () => {
+    it('should include session metadata and message history', () => {
+      const data = buildSessionExport(session, messages, readThumbnail);
+
+      expect(data.version).toBe(1);
+      expect(data.session).toMatchObject({
+        name: session.name,
+        type: 'devops',
+        model: 'gpt-5-mini',
+        tone: 'balanced',
+      });
+      expect(data.messages).toHaveLength(2);
+      expect(data.messages[0].metadata?.pageUrl).toBe('https://grafana.example.com/d/api');
+    });
+
+    it('should inline thumbnails and drop local full-image URLs', () => {
+      const data = buildSessionExport(session, messages, readThumbnail);
+      const image = data.messages[0].metadata?.images?.[0];
+
+      expect(image?.thumbnailUrl).toBe(THUMBNAIL_DATA_URL);
+      expect(image?.fullImageUrl).toBeUndefined();
+    });
+  });
+
+  describe('renderSessionExport', () => {
+    const data = buildSessionExport(session, messages, readThumbnail);
+
+    it('should render Markdown with context, images and tool calls', () => {
+      const markdown = renderSessionExport(data, 'md');
+
+      expect(markdown).toContain('# Prod Incident: API <502>');
+      expect(markdown).toContain(
+        'Action: diagnose_error · Page: https://grafana.example.com/d/api'
+      );
+      expect(markdown).toContain('> upstream connect error');
+      expect(markdown).toContain(`![Image 1](${THUMBNAIL_DATA_URL})`);
+      expect(markdown).toContain('**Tools used:** `analyze_error` (completed)');
+    });
+
+    it('should render escaped standalone HTML', () => {
+      const html = renderSessionExport(data, 'html');
+
+      expect(html).toMatch(/^<!DOCTYPE html>/);
+      expect(html).toContain('<h1>Prod Incident: API &lt;502&gt;</h1>');
+      expect(html).toContain(`<img src="${THUMBNAIL_DATA_URL}"`);
+      expect(html).not.toContain('<502>');
+    });
+
+    it('should render JSON that round-trips', () => {
+      expect(JSON.parse(renderSessionExport(data, 'json'))).toEqual(
+        JSON.parse(JSON.stringify(data))
+      );
+    });
+  });
+
+  describe('getExportFilename', () => {
+    it('should slugify the session name', () => {
+      expect(getExportFilename(session, 'md')).toMatch(
+        /^devmentorai-prod-incident-api-502-\d{4}-\d{2}-\d{2}\.md$/
+      );
+    });
+  });
+});
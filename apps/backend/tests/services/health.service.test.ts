@@ -0,0 +1,142 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import Database from 'better-sqlite3';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../../src/lib/paths.js', () => ({
+  IMAGES_DIR: require('node:os').tmpdir(),
+}));
+
+import { HealthService, combineHealth } from '../../src/services/health.service';
+
+function createCopilot(overrides: Record<string, unknown> = {}) {
+  return {
+    isReady: () => true,
+    isMockMode: () => false,
+    getAuthStatus: async () => ({ isAuthenticated: true, login: 'octocat' }),
+    getQuota: async () => ({ remaining: 240, included: 300, percentageRemaining: 80 }),
+    ...overrides,
+  };
+}
+
+describe('HealthService', () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should check only the database and Copilot without detail', async () => {
+    const service = new HealthService(db, createCopilot());
+    const components = await service.check();
+
+    expect(components.map((component) => component.name)).toEqual(['database', 'copilot']);
+    expect(combineHealth(components)).toBe('healthy');
+  });
+
+  it('should report every component with detail', async () => {
+    const service = new HealthService(db, createCopilot(), {
+      imagesDir: os.tmpdir(),
+      findNativeHosts: () => ['chrome'],
+    });
+    const components = await service.check(true);
+
+    expect(components.map((component) => component.name)).toEqual([
+      'database',
+      'copilot',
+      'images',
+      'auth',
+      'quota',
+      'nativeHost',
+    ]);
+    expect(components.find((component) => component.name === 'auth')?.message).toBe(
+      'Signed in as octocat'
+    );
+    expect(components.find((component) => component.name === 'quota')?.message).toBe(
+      '240 of 300 premium requests left'
+    );
+    expect(components.find((component) => component.name === 'nativeHost')?.message).toBe(
+      'Registered for chrome'
+    );
+  });
+
+  it('should be degraded in mock mode', async () => {
+    const service = new HealthService(
+      db,
+      createCopilot({
+        isMockMode: () => true,
+        getAuthStatus: async () => ({ isAuthenticated: false, reason: 'mock mode' }),
+        getQuota: async () => ({ remaining: null }),
+      }),
+      { findNativeHosts: () => [] }
+    );
+    const components = await service.check(true);
+
+    expect(combineHealth(components)).toBe('degraded');
+    expect(components.find((component) => component.name === 'copilot')?.status).toBe('degraded');
+    expect(components.find((component) => component.name === 'quota')?.status).toBe('healthy');
+    expect(components.find((component) => component.name === 'nativeHost')).toEqual({
+      name: 'nativeHost',
+      status: 'healthy',
+      message: 'Not registered (optional)',
+    });
+  });
+
+  it('should be unhealthy when the database cannot be written', async () => {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'devmentorai-health-')), 'db');
+    new Database(file).close();
+    db.close();
+    db = new Database(file, { readonly: true });
+    const service = new HealthService(db, createCopilot());
+    const components = await service.check();
+
+    expect(components[0]).toMatchObject({ name: 'database', status: 'unhealthy' });
+    expect(combineHealth(components)).toBe('unhealthy');
+    fs.rmSync(path.dirname(file), { recursive: true, force: true });
+  });
+
+  it('should stay healthy while another connection holds the write lock', async () => {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'devmentorai-health-')), 'db');
+    db.close();
+    db = new Database(file);
+    db.pragma('journal_mode = WAL');
+    db.exec('CREATE TABLE t (id INTEGER)');
+    const writer = new Database(file);
+    writer.exec('BEGIN IMMEDIATE; INSERT INTO t VALUES (1)');
+
+    const service = new HealthService(db, createCopilot());
+    const components = await service.check();
+
+    expect(components[0]).toMatchObject({ name: 'database', status: 'healthy' });
+    writer.exec('ROLLBACK');
+    writer.close();
+    fs.rmSync(path.dirname(file), { recursive: true, force: true });
+  });
+
+  it('should warn about an empty quota and time out slow account calls', async () => {
+    const service = new HealthService(
+      db,
+      createCopilot({
+        getAuthStatus: () => new Promise(() => {}),
+        getQuota: async () => ({ remaining: 0, included: 300, percentageRemaining: 0 }),
+      }),
+      { timeoutMs: 20, findNativeHosts: () => [] }
+    );
+
+    const auth = await service.checkAuth();
+    expect(auth.status).toBe('degraded');
+    expect(auth.message).toContain('did not answer');
+
+    const quota = await service.checkQuota();
+    expect(quota).toEqual({
+      name: 'quota',
+      status: 'degraded',
+      message: '0 of 300 premium requests left',
+    });
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { MetricsService } from '../../src/services/metrics.service.js';
+
+describe('MetricsService', () => {
+  it('should render request latency as a Prometheus histogram', () => {
+    const metrics = new MetricsService();
+
+    metrics.observeRequest({ method: 'GET', route: '/api/sessions/:id', status: 200 }, 0.02);
+    metrics.observeRequest({ method: 'GET', route: '/api/sessions/:id', status: 200 }, 3);
+    const output = metrics.render();
+
+    expect(output).toContain('# TYPE devmentorai_http_request_duration_seconds histogram');
+    expect(output).toContain(
+      'devmentorai_http_request_duration_seconds_bucket{method="GET",route="/api/sessions/:id",status_code="200",le="0.025"} 1'
+    );
+    expect(output).toContain(
+      'devmentorai_http_request_duration_seconds_bucket{method="GET",route="/api/sessions/:id",status_code="200",le="+Inf"} 2'
+    );
+    expect(output).toContain(
+      'devmentorai_http_request_duration_seconds_sum{method="GET",route="/api/sessions/:id",status_code="200"} 3.02'
+    );
+  });
+
+  it('should count tool calls and retries per label set', () => {
+    const metrics = new MetricsService();
+
+    metrics.recordToolCall('read_file', true);
+    metrics.recordToolCall('read_file', true);
+    metrics.recordToolCall('read_file', false);
+    metrics.recordRetry('copilot');
+    const output = metrics.render();
+
+    expect(output).toContain('devmentorai_tool_calls_total{tool="read_file",outcome="success"} 2');
+    expect(output).toContain('devmentorai_tool_calls_total{tool="read_file",outcome="failure"} 1');
+    expect(output).toContain('devmentorai_provider_retries_total{provider="copilot"} 1');
+  });
+
+  it('should read gauges when rendered', () => {
+    let sessions = 1;
+    const metrics = new MetricsService({
+      getActiveSessions: () => ({ copilot: sessions, openai: 0 }),
+      getDatabaseBytes: () => 4096,
+    });
+
+    sessions = 3;
+    const output = metrics.render();
+
+    expect(output).toContain('devmentorai_active_sessions{provider="copilot"} 3');
+    expect(output).toContain('devmentorai_active_sessions{provider="openai"} 0');
+    expect(output).toContain('devmentorai_database_size_bytes 4096');
+  });
+
+  it('should escape label values', () => {
+    const metrics = new MetricsService();
+
+    metrics.recordToolCall('say "hi"\\now', true);
+
+    expect(metrics.render()).toContain('tool="say \\"hi\\"\\\\now"');
+  });
+});
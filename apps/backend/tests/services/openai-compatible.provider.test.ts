@@ -0,0 +1,331 @@
+import Database from 'better-sqlite3';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PermissionService } from '../../src/services/permission.service';
+import { PersonaService } from '../../src/services/persona.service';
+import {
+  OpenAICompatibleProvider,
+  readServerSentEvents,
+} from '../../src/services/providers/openai-compatible.provider';
+import { SessionService } from '../../src/services/session.service';
+import { WorkspaceService } from '../../src/services/workspace.service';
+
+interface RecordedEvent {
+  type: string;
+  data: Record<string, unknown>;
+}
+
+function sseBody(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+      controller.close();
+    },
+  });
+}
+
+function completionResponse(deltas: unknown[]): Response {
+  const events = deltas.map((delta) => `data: ${JSON.stringify({ choices: [{ delta }] })}\n\n`);
+  return new Response(sseBody([...events, 'data: [DONE]\n\n']), {
+    headers: { 'Content-Type': 'text/event-stream' },
+  });
+}
+
+describe('readServerSentEvents', () => {
+  it('should join lines split across chunks and stop at [DONE]', async () => {
+    const body = sseBody([
+      'data: {"a":',
+      '1}\n\ndata: two\r\n\n',
+      'data: [DONE]\n\ndata: after\n\n',
+    ]);
+
+    const events: string[] = [];
+    for await (const data of readServerSentEvents(body)) events.push(data);
+
+    expect(events).toEqual(['{"a":1}', 'two']);
+  });
+});
+
+describe('OpenAICompatibleProvider', () => {
+  let db: Database.Database;
+  let sessionService: SessionService;
+  let personaService: PersonaService;
+  let workspaceService: WorkspaceService;
+  let permissionService: PermissionService;
+  let provider: OpenAICompatibleProvider;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(async () => {
+    db = new Database(':memory:');
+
+    db.exec(`
+      CREATE TABLE sessions (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        type TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'active',
+        model TEXT NOT NULL,
+        provider TEXT NOT NULL DEFAULT 'copilot',
+        system_prompt TEXT,
+        custom_agent TEXT,
+        message_count INTEGER NOT NULL DEFAULT 0,
+        tone TEXT,
+        explain_tradeoffs INTEGER DEFAULT 0,
+        reasoning_effort TEXT,
+        workspace_roots TEXT NOT NULL DEFAULT '[]',
+        pinned INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE TABLE messages (
+        id TEXT PRIMARY KEY,
+        session_id TEXT NOT NULL,
+        role TEXT NOT NULL,
+        content TEXT NOT NULL,
+        timestamp TEXT NOT NULL,
+        metadata TEXT,
+        parent_id TEXT,
+        FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
+      );
+
+      CREATE VIRTUAL TABLE messages_fts USING fts5(content, message_id UNINDEXED, session_id UNINDEXED);
+
+      CREATE TABLE personas (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        description TEXT,
+        icon TEXT NOT NULL,
+        agent_prompt TEXT NOT NULL,
+        default_model TEXT,
+        tone TEXT,
+        tools TEXT NOT NULL DEFAULT '[]',
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE TABLE tool_permissions (
+        tool_name TEXT PRIMARY KEY,
+        policy TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+    `);
+
+    sessionService = new SessionService(db);
+    personaService = new PersonaService(db);
+    workspaceService = new WorkspaceService(sessionService);
+    permissionService = new PermissionService(db);
+    provider = new OpenAICompatibleProvider(
+      sessionService,
+      personaService,
+      workspaceService,
+      permissionService,
+      {
+        baseUrl: 'http://localhost:11434/v1/',
+        defaultModel: 'llama3.1',
+      }
+    );
+    await provider.initialize();
+
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(async () => {
+    await provider.shutdown();
+    db.close();
+    vi.unstubAllGlobals();
+  });
+
+  const requestBody = (call: number) => JSON.parse(fetchMock.mock.calls[call][1].body as string);
+
+  it('should be unavailable without a base URL', async () => {
+    const unconfigured = new OpenAICompatibleProvider(
+      sessionService,
+      personaService,
+      workspaceService,
+      permissionService
+    );
+
+    expect(unconfigured.getAvailability().available).toBe(false);
+    await expect(unconfigured.createSession('s', 'general', 'llama3.1')).rejects.toThrow(
+      'not configured'
+    );
+  });
+
+  it('should list models from the endpoint', async () => {
+    fetchMock.mockResolvedValue(
+      Response.json({ data: [{ id: 'qwen2.5-coder', owned_by: 'library' }, { id: 'llama3.1' }] })
+    );
+
+    const { models, default: defaultModel } = await provider.listModels();
+
+    expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:11434/v1/models');
+    expect(defaultModel).toBe('llama3.1');
+    expect(models.map((model) => model.id)).toEqual(['qwen2.5-coder', 'llama3.1']);
+    expect(models.find((model) => model.isDefault)?.id).toBe('llama3.1');
+    expect(models[0].llmProvider).toBe('openai');
+  });
+
+  it('should stream deltas and keep the conversation history', async () => {
+    fetchMock
+      .mockResolvedValueOnce(completionResponse([{ content: 'Hello' }, { content: ' there' }]))
+      .mockResolvedValueOnce(completionResponse([{ content: 'Again' }]));
+
+    await provider.createSession('chat', 'general', 'llama3.1', { tone: 'concise' });
+
+    const events: RecordedEvent[] = [];
+    await provider.streamMessage('chat', 'Hi', undefined, (event) =>
+      events.push(event as RecordedEvent)
+    );
+
+    expect(events.map((event) => event.type)).toEqual([
+      'assistant.message_delta',
+      'assistant.message_delta',
+      'assistant.message',
+      'session.idle',
+    ]);
+    expect(events[2].data.content).toBe('Hello there');
+
+    const first = requestBody(0);
+    expect(first.model).toBe('llama3.1');
+    expect(first.stream).toBe(true);
+    expect(first.tools).toBeUndefined();
+    expect(first.messages[0].role).toBe('system');
+    expect(first.messages[0].content).toContain('Be concise and direct');
+
+    const reply = await provider.sendMessage('chat', 'Once more');
+    expect(reply).toBe('Again');
+    expect(requestBody(1).messages.slice(1)).toEqual([
+      { role: 'user', content: 'Hi' },
+      { role: 'assistant', content: 'Hello there' },
+      { role: 'user', content: 'Once more' },
+    ]);
+  });
+
+  it('should run tool calls and send their results back to the model', async () => {
+    fetchMock
+      .mockResolvedValueOnce(
+        completionResponse([
+          {
+            tool_calls: [
+              {
+                index: 0,
+                id: 'call_1',
+                function: { name: 'analyze_error', arguments: '{"error":' },
+              },
+            ],
+          },
+          { tool_calls: [{ index: 0, function: { arguments: '"ECONNREFUSED"}' } }] },
+        ])
+      )
+      .mockResolvedValueOnce(completionResponse([{ content: 'The database is down.' }]));
+
+    await provider.createSession('devops', 'devops', 'llama3.1');
+
+    const events: RecordedEvent[] = [];
+    await provider.streamMessage('devops', 'Why?', undefined, (event) =>
+      events.push(event as RecordedEvent)
+    );
+
+    expect(
+      requestBody(0).tools.map((tool: { function: { name: string } }) => tool.function.name)
+    ).toContain('analyze_error');
+    expect(events.find((event) => event.type === 'tool.execution_start')?.data).toEqual({
+      toolCallId: 'call_1',
+      toolName: 'analyze_error',
+    });
+
+    const followUp = requestBody(1).messages;
+    expect(followUp[2].tool_calls[0].function).toEqual({
+      name: 'analyze_error',
+      arguments: '{"error":"ECONNREFUSED"}',
+    });
+    expect(followUp[3].role).toBe('tool');
+    expect(followUp[3].tool_call_id).toBe('call_1');
+    expect(followUp[3].content).toContain('Target service is not running');
+
+    expect(events.filter((event) => event.type === 'assistant.message')).toHaveLength(1);
+    expect(events.at(-1)?.type).toBe('session.idle');
+  });
+
+  it('should not run tools the user has blocked', async () => {
+    permissionService.setPolicy('analyze_error', 'deny');
+    fetchMock
+      .mockResolvedValueOnce(
+        completionResponse([
+          {
+            tool_calls: [
+              {
+                index: 0,
+                id: 'call_1',
+                function: { name: 'analyze_error', arguments: '{"error":"ECONNREFUSED"}' },
+              },
+            ],
+          },
+        ])
+      )
+      .mockResolvedValueOnce(completionResponse([{ content: 'I was not allowed to check.' }]));
+
+    await provider.createSession('devops', 'devops', 'llama3.1');
+    await provider.streamMessage('devops', 'Why?');
+
+    const toolResult = requestBody(1).messages[3];
+    expect(toolResult.role).toBe('tool');
+    expect(toolResult.content).toContain('Permission denied');
+    expect(toolResult.content).not.toContain('Target service is not running');
+  });
+
+  it('should surface endpoint errors instead of answering with a mock', async () => {
+    fetchMock.mockResolvedValue(new Response('model not found', { status: 404 }));
+
+    await provider.createSession('broken', 'general', 'missing-model');
+
+    await expect(provider.streamMessage('broken', 'Hi')).rejects.toThrow(
+      'returned 404: model not found'
+    );
+  });
+
+  it('should end with session.idle when aborted', async () => {
+    fetchMock.mockImplementation(
+      (_url: string, init: RequestInit) =>
+        new Promise((_resolve, reject) => {
+          if (init.signal?.aborted) reject(new Error('aborted'));
+          init.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+        })
+    );
+
+    await provider.createSession('abort', 'general', 'llama3.1');
+
+    const events: RecordedEvent[] = [];
+    const stream = provider.streamMessage('abort', 'Hi', undefined, (event) =>
+      events.push(event as RecordedEvent)
+    );
+    await provider.abortRequest('abort');
+    await stream;
+
+    expect(events.map((event) => event.type)).toEqual(['session.idle']);
+  });
+
+  it('should rebuild history from the database when resuming', async () => {
+    const session = sessionService.createSession({
+      name: 'Local',
+      type: 'general',
+      model: 'llama3.1',
+      provider: 'openai',
+    });
+    sessionService.addMessage(session.id, 'user', 'First question');
+    sessionService.addMessage(session.id, 'assistant', 'First answer');
+    sessionService.addMessage(session.id, 'user', 'Second question');
+
+    fetchMock.mockResolvedValue(completionResponse([{ content: 'Second answer' }]));
+
+    await provider.streamMessage(session.id, 'Second question');
+
+    expect(requestBody(0).messages.slice(1)).toEqual([
+      { role: 'user', content: 'First question' },
+      { role: 'assistant', content: 'First answer' },
+      { role: 'user', content: 'Second question' },
+    ]);
+  });
+});
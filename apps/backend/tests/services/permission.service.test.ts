@@ -0,0 +1,174 @@
+import type { ToolPermissionRequest } from '@devmentorai/shared';
+import Database from 'better-sqlite3';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PERMISSION_TIMEOUT_MS, PermissionService } from '../../src/services/permission.service.js';
+
+describe('PermissionService', () => {
+  let db: Database.Database;
+  let service: PermissionService;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+
+    db.exec(`
+      CREATE TABLE tool_permissions (
+        tool_name TEXT PRIMARY KEY,
+        policy TEXT NOT NULL CHECK (policy IN ('ask', 'allow', 'deny')),
+        updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+    `);
+
+    service = new PermissionService(db);
+  });
+
+  afterEach(() => {
+    db.close();
+    vi.useRealTimers();
+  });
+
+  /** Subscribe to a session and collect the prompts it receives */
+  function listen(sessionId: string): ToolPermissionRequest[] {
+    const prompts: ToolPermissionRequest[] = [];
+    service.onPermissionRequest(sessionId, (request) => prompts.push(request));
+    return prompts;
+  }
+
+  describe('policies', () => {
+    it('should allow read-only tools and ask for the rest by default', () => {
+      expect(service.getPolicy('read_file')).toBe('allow');
+      expect(service.getPolicy('fetch_url')).toBe('ask');
+      expect(service.getPolicy('github/create_issue')).toBe('ask');
+    });
+
+    it('should remember policies and list unknown tools that have one', () => {
+      service.setPolicy('fetch_url', 'deny');
+      service.setPolicy('github/create_issue', 'allow');
+
+      const policies = service.listPolicies();
+
+      expect(policies.find((p) => p.toolName === 'fetch_url')?.policy).toBe('deny');
+      expect(policies.find((p) => p.toolName === 'shell')).toMatchObject({ policy: 'ask' });
+      expect(policies.find((p) => p.toolName === 'github/create_issue')?.policy).toBe('allow');
+    });
+
+    it('should update an existing policy', () => {
+      service.setPolicy('shell', 'allow');
+      service.setPolicy('shell', 'deny');
+
+      expect(service.getPolicy('shell')).toBe('deny');
+    });
+  });
+
+  describe('requestPermission', () => {
+    it('should decide from the policy without asking', async () => {
+      const prompts = listen('s1');
+      service.setPolicy('shell', 'deny');
+
+      await expect(
+        service.requestPermission('s1', { toolName: 'read_file', kind: 'custom-tool' })
+      ).resolves.toEqual({ allowed: true });
+      const denied = await service.requestPermission('s1', { toolName: 'shell', kind: 'shell' });
+
+      expect(denied.allowed).toBe(false);
+      expect(denied.message).toContain('blocked');
+      expect(prompts).toHaveLength(0);
+    });
+
+    it('should deny when nobody is listening to the session', async () => {
+      const result = await service.requestPermission('s1', { toolName: 'url', kind: 'url' });
+
+      expect(result.allowed).toBe(false);
+      expect(result.message).toContain('streaming chat');
+    });
+
+    it('should wait for the user to allow once', async () => {
+      const prompts = listen('s1');
+
+      const pending = service.requestPermission('s1', {
+        toolName: 'shell',
+        kind: 'shell',
+        summary: 'kubectl get pods',
+      });
+
+      expect(prompts).toHaveLength(1);
+      expect(prompts[0]).toMatchObject({ toolName: 'shell', summary: 'kubectl get pods' });
+      expect(prompts[0].requestId).toMatch(/^perm_/);
+      expect(service.hasPending('s1')).toBe(true);
+
+      expect(service.resolvePermission('s1', prompts[0].requestId, 'allow_once')).toBe(true);
+      await expect(pending).resolves.toEqual({ allowed: true });
+      expect(service.hasPending('s1')).toBe(false);
+
+      // Allowing once does not cover the next call
+      void service.requestPermission('s1', { toolName: 'shell', kind: 'shell' });
+      expect(prompts).toHaveLength(2);
+      service.cancelPending('s1');
+    });
+
+    it('should remember "always for this session" only in that session', async () => {
+      const prompts = listen('s1');
+      listen('s2');
+
+      const first = service.requestPermission('s1', { toolName: 'fetch_url', kind: 'custom-tool' });
+      service.resolvePermission('s1', prompts[0].requestId, 'allow_session');
+      await first;
+
+      await expect(
+        service.requestPermission('s1', { toolName: 'fetch_url', kind: 'custom-tool' })
+      ).resolves.toEqual({ allowed: true });
+      expect(prompts).toHaveLength(1);
+
+      const other = service.requestPermission('s2', { toolName: 'fetch_url', kind: 'custom-tool' });
+      expect(service.hasPending('s2')).toBe(true);
+      service.cancelPending('s2');
+      await expect(other).resolves.toMatchObject({ allowed: false });
+    });
+
+    it('should deny when the user denies, the stream ends or nobody answers', async () => {
+      vi.useFakeTimers();
+      const prompts = listen('s1');
+
+      const denied = service.requestPermission('s1', { toolName: 'url', kind: 'url' });
+      service.resolvePermission('s1', prompts[0].requestId, 'deny');
+      await expect(denied).resolves.toMatchObject({ allowed: false });
+
+      const cancelled = service.requestPermission('s1', { toolName: 'url', kind: 'url' });
+      service.cancelPending('s1');
+      await expect(cancelled).resolves.toMatchObject({ allowed: false });
+
+      const expired = service.requestPermission('s1', { toolName: 'url', kind: 'url' });
+      vi.advanceTimersByTime(PERMISSION_TIMEOUT_MS);
+      await expect(expired).resolves.toMatchObject({ allowed: false });
+      expect(service.hasPending('s1')).toBe(false);
+    });
+  });
+
+  describe('resolvePermission', () => {
+    it('should reject unknown requests and requests from another session', async () => {
+      const prompts = listen('s1');
+      const pending = service.requestPermission('s1', { toolName: 'url', kind: 'url' });
+
+      expect(service.resolvePermission('s1', 'perm_missing', 'allow_once')).toBe(false);
+      expect(service.resolvePermission('s2', prompts[0].requestId, 'allow_once')).toBe(false);
+      expect(service.resolvePermission('s1', prompts[0].requestId, 'allow_once')).toBe(true);
+      expect(service.resolvePermission('s1', prompts[0].requestId, 'deny')).toBe(false);
+      await expect(pending).resolves.toEqual({ allowed: true });
+    });
+  });
+
+  describe('clearSession', () => {
+    it('should forget session approvals', async () => {
+      const prompts = listen('s1');
+      const first = service.requestPermission('s1', { toolName: 'url', kind: 'url' });
+      service.resolvePermission('s1', prompts[0].requestId, 'allow_session');
+      await first;
+
+      service.clearSession('s1');
+      const next = service.requestPermission('s1', { toolName: 'url', kind: 'url' });
+
+      expect(prompts).toHaveLength(2);
+      service.cancelPending('s1');
+      await expect(next).resolves.toMatchObject({ allowed: false });
+    });
+  });
+});
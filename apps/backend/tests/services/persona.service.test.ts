@@ -0,0 +1,110 @@
+import Database from 'better-sqlite3';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { PersonaService } from '../../src/services/persona.service.js';
+
+describe('PersonaService', () => {
+  let db: Database.Database;
+  let service: PersonaService;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+
+    db.exec(`
+      CREATE TABLE personas (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        description TEXT,
+        icon TEXT NOT NULL,
+        agent_prompt TEXT NOT NULL,
+        default_model TEXT,
+        tone TEXT,
+        tools TEXT NOT NULL DEFAULT '[]',
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+    `);
+
+    service = new PersonaService(db);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  describe('createPersona', () => {
+    it('should create a persona with defaults', () => {
+      const persona = service.createPersona({
+        name: 'Spanish Tutor',
+        icon: '🇪🇸',
+        agentPrompt: 'Answer in Spanish and correct my mistakes.',
+      });
+
+      expect(persona.id).toMatch(/^persona_/);
+      expect(persona.name).toBe('Spanish Tutor');
+      expect(persona.tools).toEqual([]);
+      expect(persona.defaultModel).toBeUndefined();
+      expect(persona.tone).toBeUndefined();
+    });
+
+    it('should store model, tone and tools', () => {
+      const persona = service.createPersona({
+        name: 'Security Reviewer',
+        description: 'Reviews configs for security issues',
+        icon: '🛡️',
+        agentPrompt: 'Review everything with a security mindset.',
+        defaultModel: 'gpt-5',
+        tone: 'technical',
+        tools: ['analyze_config', 'read_file'],
+      });
+
+      const retrieved = service.getPersona(persona.id);
+      expect(retrieved?.description).toBe('Reviews configs for security issues');
+      expect(retrieved?.defaultModel).toBe('gpt-5');
+      expect(retrieved?.tone).toBe('technical');
+      expect(retrieved?.tools).toEqual(['analyze_config', 'read_file']);
+    });
+  });
+
+  describe('listPersonas', () => {
+    it('should list personas sorted by name', () => {
+      service.createPersona({ name: 'zeta', icon: 'Z', agentPrompt: 'z' });
+      service.createPersona({ name: 'Alpha', icon: 'A', agentPrompt: 'a' });
+
+      expect(service.listPersonas().map((persona) => persona.name)).toEqual(['Alpha', 'zeta']);
+    });
+  });
+
+  describe('updatePersona', () => {
+    it('should update only the provided fields', () => {
+      const persona = service.createPersona({
+        name: 'SRE On-call',
+        icon: '🚨',
+        agentPrompt: 'Triage incidents.',
+        defaultModel: 'gpt-5',
+      });
+
+      const updated = service.updatePersona(persona.id, {
+        tools: ['analyze_error'],
+        defaultModel: null,
+      });
+
+      expect(updated?.name).toBe('SRE On-call');
+      expect(updated?.tools).toEqual(['analyze_error']);
+      expect(updated?.defaultModel).toBeUndefined();
+    });
+
+    it('should return null for non-existent persona', () => {
+      expect(service.updatePersona('missing', { name: 'x' })).toBeNull();
+    });
+  });
+
+  describe('deletePersona', () => {
+    it('should delete an existing persona', () => {
+      const persona = service.createPersona({ name: 'Temp', icon: 'T', agentPrompt: 't' });
+
+      expect(service.deletePersona(persona.id)).toBe(true);
+      expect(service.getPersona(persona.id)).toBeNull();
+      expect(service.deletePersona(persona.id)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,258 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import Database from 'better-sqlite3';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Must use inline values in vi.mock factory (hoisted above variable declarations)
+const TEST_BASE = path.join(os.tmpdir(), `devmentorai-retention-test-${process.pid}`);
+const IMAGES_DIR = path.join(TEST_BASE, 'images');
+
+vi.mock('../../src/lib/paths.js', () => {
+  const _path = require('node:path');
+  const _os = require('node:os');
+  const _fs = require('node:fs');
+  const base = _path.join(_os.tmpdir(), `devmentorai-retention-test-${process.pid}`);
+  const images = _path.join(base, 'images');
+  const getDirectorySize = (dir: string): number => {
+    if (!_fs.existsSync(dir)) return 0;
+    return _fs
+      .readdirSync(dir, { withFileTypes: true })
+      .reduce(
+        (total: number, entry: { name: string; isDirectory: () => boolean }) =>
+          total +
+          (entry.isDirectory()
+            ? getDirectorySize(_path.join(dir, entry.name))
+            : _fs.statSync(_path.join(dir, entry.name)).size),
+        0
+      );
+  };
+  return {
+    DATA_DIR: base,
+    IMAGES_DIR: images,
+    CONFIG_FILE: _path.join(base, 'config.json'),
+    ensureDir: (dir: string) => {
+      if (!_fs.existsSync(dir)) _fs.mkdirSync(dir, { recursive: true });
+    },
+    deleteDir: (dir: string) => _fs.rmSync(dir, { recursive: true, force: true }),
+    getDirectorySize,
+    getSessionImagesDir: (sessionId: string) => _path.join(images, sessionId),
+    getMessageImagesDir: (sessionId: string, messageId: string) =>
+      _path.join(images, sessionId, messageId),
+  };
+});
+
+import { runMigrations } from '../../src/db/migrate.js';
+import {
+  DEFAULT_RETENTION_POLICY,
+  RetentionService,
+} from '../../src/services/retention.service.js';
+import { SessionService } from '../../src/services/session.service.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('RetentionService', () => {
+  let db: Database.Database;
+  let sessionService: SessionService;
+  let service: RetentionService;
+
+  function addSession(id: string, daysAgo: number, pinned = false): void {
+    db.prepare(
+      "INSERT INTO sessions (id, name, type, pinned, updated_at) VALUES (?, ?, 'devops', ?, ?)"
+    ).run(
+      id,
+      `Session ${id}`,
+      pinned ? 1 : 0,
+      new Date(Date.now() - daysAgo * DAY_MS).toISOString()
+    );
+  }
+
+  function addImageFolder(sessionId: string, folder: string, bytes = 10, hoursAgo = 2): string {
+    const dir = path.join(IMAGES_DIR, sessionId, folder);
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(path.join(dir, 'thumb_0.jpg'), Buffer.alloc(bytes));
+    const time = new Date(Date.now() - hoursAgo * 60 * 60 * 1000);
+    fs.utimesSync(dir, time, time);
+    fs.utimesSync(path.join(IMAGES_DIR, sessionId), time, time);
+    return dir;
+  }
+
+  function addImageMessage(sessionId: string, messageId: string, folder: string): void {
+    const metadata = JSON.stringify({
+      images: [
+        { thumbnailUrl: `http://localhost:3847/api/images/${sessionId}/${folder}/thumb_0.jpg` },
+      ],
+    });
+    db.prepare(
+      "INSERT INTO messages (id, session_id, role, content, metadata) VALUES (?, ?, 'user', 'hi', ?)"
+    ).run(messageId, sessionId, metadata);
+  }
+
+  function sessionIds(): string[] {
+    return (db.prepare('SELECT id FROM sessions ORDER BY id').all() as { id: string }[]).map(
+      (row) => row.id
+    );
+  }
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    fs.mkdirSync(IMAGES_DIR, { recursive: true });
+    db = new Database(':memory:');
+    runMigrations(db);
+    sessionService = new SessionService(db);
+    service = new RetentionService(db, sessionService);
+  });
+
+  afterEach(() => {
+    db.close();
+    vi.restoreAllMocks();
+    fs.rmSync(TEST_BASE, { recursive: true, force: true });
+  });
+
+  describe('policy', () => {
+    it('should default to keeping every session', () => {
+      expect(service.getPolicy()).toEqual(DEFAULT_RETENTION_POLICY);
+    });
+
+    it('should save updates to config.json and keep other sections', () => {
+      fs.writeFileSync(path.join(TEST_BASE, 'config.json'), JSON.stringify({ other: 1 }));
+
+      service.setPolicy({ maxAgeDays: 30 });
+      const policy = service.setPolicy({ keepPinned: false });
+
+      expect(policy).toEqual({ ...DEFAULT_RETENTION_POLICY, maxAgeDays: 30, keepPinned: false });
+      const saved = JSON.parse(fs.readFileSync(path.join(TEST_BASE, 'config.json'), 'utf-8'));
+      expect(saved.other).toBe(1);
+      expect(saved.retention.maxAgeDays).toBe(30);
+    });
+
+    it('should reject invalid limits', () => {
+      expect(() => service.setPolicy({ maxSessions: 0 })).toThrow();
+    });
+
+    it('should fall back to defaults when the saved policy is invalid', () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      fs.writeFileSync(
+        path.join(TEST_BASE, 'config.json'),
+        JSON.stringify({ retention: { maxAgeDays: 'soon' } })
+      );
+
+      expect(service.getPolicy()).toEqual(DEFAULT_RETENTION_POLICY);
+    });
+  });
+
+  describe('prune', () => {
+    it('should delete sessions older than maxAgeDays but keep pinned ones', async () => {
+      addSession('old', 40);
+      addSession('old-pinned', 40, true);
+      addSession('recent', 1);
+      service.setPolicy({ maxAgeDays: 30 });
+
+      const report = await service.prune();
+
+      expect(report.sessions).toEqual([{ id: 'old', name: 'Session old', reason: 'age' }]);
+      expect(sessionIds()).toEqual(['old-pinned', 'recent']);
+    });
+
+    it('should keep only the newest maxSessions sessions', async () => {
+      addSession('a', 3);
+      addSession('b', 2);
+      addSession('c', 1);
+      service.setPolicy({ maxSessions: 2 });
+
+      const report = await service.prune();
+
+      expect(report.sessions.map((s) => [s.id, s.reason])).toEqual([['a', 'count']]);
+      expect(sessionIds()).toEqual(['b', 'c']);
+    });
+
+    it('should only report with dryRun', async () => {
+      addSession('old', 40);
+      addImageFolder('old', 'msg_1');
+      service.setPolicy({ maxAgeDays: 30 });
+
+      const report = await service.prune({ dryRun: true });
+
+      expect(report.dryRun).toBe(true);
+      expect(report.sessions).toHaveLength(1);
+      expect(report.freedImageBytes).toBe(10);
+      expect(sessionIds()).toEqual(['old']);
+      expect(fs.existsSync(path.join(IMAGES_DIR, 'old'))).toBe(true);
+    });
+
+    it('should delete images of expired sessions and call the cleanup hook', async () => {
+      const onSessionDeleted = vi.fn();
+      service = new RetentionService(db, sessionService, { onSessionDeleted });
+      addSession('old', 40);
+      addImageFolder('old', 'msg_1');
+      service.setPolicy({ maxAgeDays: 30 });
+
+      await service.prune();
+
+      expect(onSessionDeleted).toHaveBeenCalledWith('old');
+      expect(fs.existsSync(path.join(IMAGES_DIR, 'old'))).toBe(false);
+    });
+
+    it('should trim page contexts to maxContextsPerSession', async () => {
+      addSession('s1', 1);
+      const insert = db.prepare(
+        "INSERT INTO session_contexts (id, session_id, context_json, extracted_at) VALUES (?, 's1', '{}', ?)"
+      );
+      for (let i = 0; i < 5; i++) {
+        insert.run(`ctx_${i}`, new Date(Date.now() - i * 1000).toISOString());
+      }
+      service.setPolicy({ maxContextsPerSession: 2 });
+
+      expect((await service.prune({ dryRun: true })).contexts).toBe(3);
+      expect((await service.prune()).contexts).toBe(3);
+      const left = db.prepare('SELECT id FROM session_contexts ORDER BY id').all();
+      expect(left).toEqual([{ id: 'ctx_0' }, { id: 'ctx_1' }]);
+    });
+
+    it('should remove image folders no message points to once they are old enough', async () => {
+      addSession('s1', 1);
+      addImageMessage('s1', 'msg_1', 'upload_1');
+      const referenced = addImageFolder('s1', 'upload_1');
+      const orphaned = addImageFolder('s1', 'msg_failed');
+      const fresh = addImageFolder('s1', 'msg_streaming', 10, 0);
+      const unknownSession = addImageFolder('gone', 'msg_1');
+
+      const report = await service.prune();
+
+      expect(report.orphanedImageDirs).toBe(2);
+      expect(fs.existsSync(referenced)).toBe(true);
+      expect(fs.existsSync(fresh)).toBe(true);
+      expect(fs.existsSync(orphaned)).toBe(false);
+      expect(fs.existsSync(path.dirname(unknownSession))).toBe(false);
+    });
+
+    it('should drop images of the least recently updated sessions over maxImageMb', async () => {
+      const mb = 1024 * 1024;
+      addSession('older', 2);
+      addSession('newer', 1);
+      addImageMessage('older', 'm1', 'f1');
+      addImageMessage('newer', 'm2', 'f2');
+      addImageFolder('older', 'f1', 0.6 * mb);
+      addImageFolder('newer', 'f2', 0.6 * mb);
+      service.setPolicy({ maxImageMb: 1 });
+
+      const report = await service.prune();
+
+      expect(report.imageSessions).toEqual(['older']);
+      expect(fs.existsSync(path.join(IMAGES_DIR, 'older'))).toBe(false);
+      expect(fs.existsSync(path.join(IMAGES_DIR, 'newer', 'f2'))).toBe(true);
+      expect(sessionIds()).toEqual(['newer', 'older']);
+    });
+
+    it('should record the last run in the storage report', async () => {
+      addSession('s1', 1);
+
+      await service.prune();
+      const report = service.getReport();
+
+      expect(report.lastPrune?.dryRun).toBe(false);
+      expect(report.usage.sessions).toBe(1);
+      expect(report.retention).toEqual(DEFAULT_RETENTION_POLICY);
+    });
+  });
+});
@@ -15,14 +15,17 @@ describe('SessionService', () => {
       CREATE TABLE sessions (
         id TEXT PRIMARY KEY,
         name TEXT NOT NULL,
-        type TEXT NOT NULL CHECK (type IN ('devops', 'writing', 'development', 'general')),
+        type TEXT NOT NULL,
         status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused', 'closed')),
         model TEXT NOT NULL DEFAULT 'gpt-5-mini',
+        provider TEXT NOT NULL DEFAULT 'copilot',
         system_prompt TEXT,
         custom_agent TEXT,
         tone TEXT DEFAULT 'balanced',
         explain_tradeoffs INTEGER DEFAULT 0,
         reasoning_effort TEXT,
+        workspace_roots TEXT NOT NULL DEFAULT '[]',
+        pinned INTEGER NOT NULL DEFAULT 0,
         message_count INTEGER NOT NULL DEFAULT 0,
         created_at TEXT NOT NULL DEFAULT (datetime('now')),
         updated_at TEXT NOT NULL DEFAULT (datetime('now'))
@@ -35,8 +38,16 @@ describe('SessionService', () => {
         content TEXT NOT NULL,
         timestamp TEXT NOT NULL DEFAULT (datetime('now')),
         metadata TEXT,
+        parent_id TEXT,
         FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
       );
+
+      CREATE VIRTUAL TABLE messages_fts USING fts5(
+        content,
+        message_id UNINDEXED,
+        session_id UNINDEXED,
+        tokenize = 'unicode61 remove_diacritics 2'
+      );
     `);
 
     service = new SessionService(db);
@@ -82,6 +93,18 @@ describe('SessionService', () => {
       expect(session.customAgent).toBeUndefined();
     });
 
+    it('should store persona sessions with their own prompt', () => {
+      const session = service.createSession({
+        name: 'Incident 42',
+        type: 'persona:persona_abc123',
+        systemPrompt: 'You are an SRE on call.',
+      });
+
+      expect(session.type).toBe('persona:persona_abc123');
+      expect(session.systemPrompt).toBe('You are an SRE on call.');
+      expect(session.customAgent).toBeUndefined();
+    });
+
     it('should use custom model if provided', () => {
       const session = service.createSession({
         name: 'Test',
@@ -148,6 +171,32 @@ describe('SessionService', () => {
     });
   });
 
+  describe('findSessions', () => {
+    it('should filter by type, status and last use', () => {
+      const old = service.createSession({ name: 'Old', type: 'devops' });
+      const closed = service.createSession({ name: 'Closed', type: 'devops' });
+      service.createSession({ name: 'Writing', type: 'writing' });
+      service.updateSession(closed.id, { status: 'closed' });
+      db.prepare('UPDATE sessions SET updated_at = ? WHERE id = ?').run(
+        '2020-01-01T00:00:00.000Z',
+        old.id
+      );
+
+      expect(service.findSessions()).toHaveLength(3);
+      expect(service.findSessions({ type: 'devops' }).map((s) => s.name)).toEqual([
+        'Closed',
+        'Old',
+      ]);
+      expect(service.findSessions({ status: 'closed' }).map((s) => s.id)).toEqual([closed.id]);
+      expect(
+        service.findSessions({ updatedBefore: '2021-01-01T00:00:00.000Z' }).map((s) => s.id)
+      ).toEqual([old.id]);
+      expect(
+        service.findSessions({ type: 'devops', updatedAfter: '2021-01-01T00:00:00.000Z' })
+      ).toHaveLength(1);
+    });
+  });
+
   describe('updateSession', () => {
     it('should update session name', () => {
       const session = service.createSession({
@@ -169,6 +218,15 @@ describe('SessionService', () => {
       expect(updated?.status).toBe('paused');
     });
 
+    it('should pin a session and list it first', () => {
+      const pinned = service.createSession({ name: 'Pinned', type: 'devops' });
+      service.createSession({ name: 'Newer', type: 'devops' });
+
+      const updated = service.updateSession(pinned.id, { pinned: true });
+      expect(updated?.pinned).toBe(true);
+      expect(service.listSessions().items[0].id).toBe(pinned.id);
+    });
+
     it('should update session model', () => {
       const session = service.createSession({
         name: 'Model Switch',
@@ -179,6 +237,20 @@ describe('SessionService', () => {
       expect(updated?.model).toBe('gpt-5-mini');
     });
 
+    it('should store and replace workspace roots', () => {
+      const session = service.createSession({ name: 'Repo', type: 'devops' });
+      expect(session.workspaceRoots).toEqual([]);
+
+      const updated = service.updateSession(session.id, { workspaceRoots: ['/srv/app'] });
+      expect(updated?.workspaceRoots).toEqual(['/srv/app']);
+
+      const { session: fork } = service.forkSession(
+        session.id,
+        service.addMessage(session.id, 'user', 'Hi').id
+      );
+      expect(fork.workspaceRoots).toEqual(['/srv/app']);
+    });
+
     it('should return null for non-existent session', () => {
       const result = service.updateSession('non-existent', { name: 'New' });
       expect(result).toBeNull();
@@ -270,4 +342,183 @@ describe('SessionService', () => {
       });
     });
   });
+
+  describe('searchMessages', () => {
+    it('should find messages across sessions with session names', () => {
+      const k8s = service.createSession({ name: 'Cluster Debugging', type: 'devops' });
+      const docs = service.createSession({ name: 'Docs Review', type: 'writing' });
+
+      service.addMessage(k8s.id, 'user', 'Why is my kubernetes pod in CrashLoopBackOff?');
+      service.addMessage(docs.id, 'user', 'Proofread this paragraph about kubernetes');
+      service.addMessage(docs.id, 'assistant', 'Here is the corrected paragraph.');
+
+      const results = service.searchMessages('kubernetes');
+
+      expect(results).toHaveLength(2);
+      expect(results.map((r) => r.sessionName).sort()).toEqual([
+        'Cluster Debugging',
+        'Docs Review',
+      ]);
+      expect(results[0].snippet).toContain('<mark>kubernetes</mark>');
+    });
+
+    it('should match word prefixes and ignore FTS syntax in the query', () => {
+      const session = service.createSession({ name: 'Test', type: 'devops' });
+      const message = service.addMessage(session.id, 'user', 'Terraform state is locked');
+
+      expect(service.searchMessages('terra')[0]?.messageId).toBe(message.id);
+      expect(service.searchMessages('"state" (locked')).toHaveLength(1);
+      expect(service.searchMessages('   ')).toEqual([]);
+    });
+
+    it('should keep the index in sync with content updates', () => {
+      const session = service.createSession({ name: 'Test', type: 'devops' });
+      const message = service.addMessage(session.id, 'assistant', '');
+
+      expect(service.searchMessages('ingress')).toHaveLength(0);
+
+      service.updateMessageContent(message.id, 'Check the ingress controller logs');
+      expect(service.searchMessages('ingress')[0]?.messageId).toBe(message.id);
+    });
+
+    it('should drop indexed messages when a session is deleted', () => {
+      const session = service.createSession({ name: 'Test', type: 'devops' });
+      service.addMessage(session.id, 'user', 'helm chart values');
+
+      service.deleteSession(session.id);
+
+      expect(service.searchMessages('helm')).toHaveLength(0);
+      expect(db.prepare('SELECT COUNT(*) as count FROM messages_fts').get()).toEqual({
+        count: 0,
+      });
+    });
+  });
+
+  describe('importSession', () => {
+    it('should recreate a session with its history and search index', () => {
+      const { session, messages } = service.importSession({
+        version: 1,
+        exportedAt: '2025-01-30T12:00:00.000Z',
+        session: {
+          name: 'Imported Incident',
+          type: 'devops',
+          model: 'gpt-5',
+          tone: 'technical',
+          createdAt: '2025-01-30T10:00:00.000Z',
+          updatedAt: '2025-01-30T10:05:00.000Z',
+        },
+        messages: [
+          {
+            role: 'user',
+            content: 'Pods stuck in Pending',
+            timestamp: '2025-01-30T10:00:00.000Z',
+            metadata: { action: 'diagnose_error' },
+          },
+          {
+            role: 'assistant',
+            content: 'Check node capacity',
+            timestamp: '2025-01-30T10:00:05.000Z',
+          },
+        ],
+      });
+
+      expect(session.name).toBe('Imported Incident');
+      expect(session.model).toBe('gpt-5');
+      expect(session.tone).toBe('technical');
+      expect(session.messageCount).toBe(2);
+      expect(messages).toHaveLength(2);
+
+      const stored = service.listAllMessages(session.id);
+      expect(stored.map((m) => m.timestamp)).toEqual([
+        '2025-01-30T10:00:00.000Z',
+        '2025-01-30T10:00:05.000Z',
+      ]);
+      expect(stored[0].metadata).toEqual({ action: 'diagnose_error' });
+      expect(service.searchMessages('capacity')[0]?.sessionId).toBe(session.id);
+    });
+  });
+
+  describe('threads and forking', () => {
+    it('should link each message to the previous one in its session', () => {
+      const session = service.createSession({ name: 'Test', type: 'devops' });
+      const first = service.addMessage(session.id, 'user', 'First');
+      const second = service.addMessage(session.id, 'assistant', 'Second');
+
+      expect(first.parentId).toBeUndefined();
+      expect(second.parentId).toBe(first.id);
+      expect(service.getThread(second.id).map((m) => m.content)).toEqual(['First', 'Second']);
+    });
+
+    it('should fork with the history before the chosen user message', () => {
+      const session = service.createSession({ name: 'Terraform', type: 'devops', model: 'gpt-5' });
+      service.addMessage(session.id, 'user', 'Plan fails');
+      service.addMessage(session.id, 'assistant', 'Check the provider version');
+      const edited = service.addMessage(session.id, 'user', 'Still failing');
+      service.addMessage(session.id, 'assistant', 'Try a different approach');
+
+      const { session: fork, messages } = service.forkSession(session.id, edited.id);
+
+      expect(fork.id).not.toBe(session.id);
+      expect(fork.name).toBe('Terraform (fork)');
+      expect(fork.model).toBe('gpt-5');
+      expect(fork.messageCount).toBe(2);
+      expect(messages.map((m) => m.content)).toEqual(['Plan fails', 'Check the provider version']);
+      expect(messages[1].parentId).toBe(messages[0].id);
+
+      // New messages in the fork continue its own thread; the original is untouched
+      const next = service.addMessage(fork.id, 'user', 'Edited prompt');
+      expect(next.parentId).toBe(messages[1].id);
+      expect(service.listAllMessages(session.id)).toHaveLength(4);
+    });
+
+    it('should fork the first message into an empty session', () => {
+      const session = service.createSession({ name: 'Test', type: 'general' });
+      const first = service.addMessage(session.id, 'user', 'Hello');
+
+      const { session: fork, messages } = service.forkSession(session.id, first.id);
+
+      expect(messages).toHaveLength(0);
+      expect(fork.messageCount).toBe(0);
+    });
+
+    it('should reject messages from another session', () => {
+      const a = service.createSession({ name: 'A', type: 'general' });
+      const b = service.createSession({ name: 'B', type: 'general' });
+      const message = service.addMessage(a.id, 'user', 'Hello');
+
+      expect(() => service.forkSession(b.id, message.id)).toThrow();
+    });
+  });
+
+  describe('message variants', () => {
+    it('should keep the original response when adding a regenerated one', () => {
+      const session = service.createSession({ name: 'Test', type: 'devops' });
+      service.addMessage(session.id, 'user', 'Why is the pod pending?');
+      const reply = service.addMessage(session.id, 'assistant', 'Insufficient CPU');
+
+      const updated = service.addMessageVariant(reply.id, 'Node selector mismatch', 'gpt-5');
+
+      expect(updated.content).toBe('Node selector mismatch');
+      expect(updated.metadata?.activeVariant).toBe(1);
+      expect(updated.metadata?.variants?.map((v) => v.content)).toEqual([
+        'Insufficient CPU',
+        'Node selector mismatch',
+      ]);
+      expect(updated.metadata?.variants?.[1].model).toBe('gpt-5');
+      expect(service.getMessage(reply.id)?.content).toBe('Node selector mismatch');
+      expect(service.searchMessages('selector')[0]?.messageId).toBe(reply.id);
+    });
+
+    it('should switch the visible variant', () => {
+      const session = service.createSession({ name: 'Test', type: 'devops' });
+      const reply = service.addMessage(session.id, 'assistant', 'First answer');
+      service.addMessageVariant(reply.id, 'Second answer');
+
+      const selected = service.selectMessageVariant(reply.id, 0);
+
+      expect(selected.content).toBe('First answer');
+      expect(service.getMessage(reply.id)?.metadata?.activeVariant).toBe(0);
+      expect(() => service.selectMessageVariant(reply.id, 5)).toThrow();
+    });
+  });
 });
@@ -0,0 +1,133 @@
+import Database from 'better-sqlite3';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { type RecordUsageInput, UsageService } from '../../src/services/usage.service';
+
+describe('UsageService', () => {
+  let db: Database.Database;
+  let service: UsageService;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+
+    db.exec(`
+      CREATE TABLE sessions (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL
+      );
+
+      CREATE TABLE usage (
+        id TEXT PRIMARY KEY,
+        session_id TEXT NOT NULL,
+        message_id TEXT,
+        provider TEXT NOT NULL,
+        model TEXT NOT NULL,
+        pricing_multiplier REAL NOT NULL DEFAULT 0,
+        prompt_chars INTEGER NOT NULL DEFAULT 0,
+        response_chars INTEGER NOT NULL DEFAULT 0,
+        duration_ms INTEGER NOT NULL DEFAULT 0,
+        tool_calls INTEGER NOT NULL DEFAULT 0,
+        action TEXT,
+        created_at TEXT NOT NULL
+      );
+    `);
+    db.prepare('INSERT INTO sessions (id, name) VALUES (?, ?)').run('s1', 'AWS Migration');
+    db.prepare('INSERT INTO sessions (id, name) VALUES (?, ?)').run('s2', 'Email Draft');
+
+    service = new UsageService(db);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    db.close();
+  });
+
+  const record = (at: string, input: Partial<RecordUsageInput> = {}) => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(at));
+    service.recordUsage({
+      sessionId: 's1',
+      provider: 'copilot',
+      model: 'gpt-5-mini',
+      pricingMultiplier: 0,
+      promptChars: 100,
+      responseChars: 400,
+      durationMs: 1000,
+      toolCalls: 0,
+      ...input,
+    });
+  };
+
+  it('should total premium requests and sizes per session', () => {
+    record('2026-10-01T10:00:00.000Z', { model: 'claude-sonnet-4.5', pricingMultiplier: 1 });
+    record('2026-10-01T11:00:00.000Z', { pricingMultiplier: 0.33, toolCalls: 2 });
+    record('2026-10-01T12:00:00.000Z', { sessionId: 's2', pricingMultiplier: 0.33 });
+
+    const report = service.getUsage({ groupBy: 'session' });
+
+    expect(report.totals).toEqual({
+      messages: 3,
+      premiumRequests: 1.66,
+      promptChars: 300,
+      responseChars: 1200,
+      durationMs: 3000,
+      toolCalls: 2,
+    });
+    expect(report.groups.map((group) => [group.label, group.premiumRequests])).toEqual([
+      ['AWS Migration', 1.33],
+      ['Email Draft', 0.33],
+    ]);
+  });
+
+  it('should keep usage of deleted sessions', () => {
+    record('2026-10-01T10:00:00.000Z', { sessionId: 'gone', pricingMultiplier: 1 });
+
+    const [group] = service.getUsage({ groupBy: 'session' }).groups;
+
+    expect(group.key).toBe('gone');
+    expect(group.label).toBe('Deleted session');
+  });
+
+  it('should group by model, quick action and day', () => {
+    record('2026-10-01T10:00:00.000Z', { model: 'gpt-5', pricingMultiplier: 1 });
+    record('2026-10-02T10:00:00.000Z', { action: 'explain' });
+    record('2026-10-02T23:59:00.000Z', { action: 'explain' });
+
+    expect(service.getUsage({ groupBy: 'model' }).groups.map((group) => group.key)).toEqual([
+      'gpt-5',
+      'gpt-5-mini',
+    ]);
+    expect(
+      service.getUsage({ groupBy: 'action' }).groups.map((group) => [group.key, group.messages])
+    ).toEqual([
+      ['chat', 1],
+      ['explain', 2],
+    ]);
+    expect(
+      service.getUsage({ groupBy: 'day' }).groups.map((group) => [group.key, group.messages])
+    ).toEqual([
+      ['2026-10-01', 1],
+      ['2026-10-02', 2],
+    ]);
+  });
+
+  it('should treat a bare end date as the whole day', () => {
+    record('2026-09-30T23:00:00.000Z');
+    record('2026-10-01T00:00:00.000Z');
+    record('2026-10-02T18:30:00.000Z');
+    record('2026-10-03T00:00:00.000Z');
+
+    expect(service.getUsage({ from: '2026-10-01', to: '2026-10-02' }).totals.messages).toBe(2);
+    expect(
+      service.getUsage({ from: '2026-10-01', to: '2026-10-02T12:00:00.000Z' }).totals.messages
+    ).toBe(1);
+  });
+
+  it('should report zero totals when nothing was recorded', () => {
+    const report = service.getUsage();
+
+    expect(report.groupBy).toBe('session');
+    expect(report.totals.messages).toBe(0);
+    expect(report.totals.premiumRequests).toBe(0);
+    expect(report.groups).toEqual([]);
+  });
+});
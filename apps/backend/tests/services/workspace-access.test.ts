@@ -0,0 +1,104 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  checkWorkspaceAccess,
+  isSecretPath,
+  normalizeWorkspaceRoot,
+} from '../../src/tools/workspace-access';
+
+describe('workspace access', () => {
+  let base: string;
+  let root: string;
+
+  beforeEach(() => {
+    base = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'devmentorai-ws-')));
+    root = path.join(base, 'project');
+    fs.mkdirSync(path.join(root, 'src'), { recursive: true });
+    fs.writeFileSync(path.join(root, 'src', 'main.tf'), 'resource "x" "y" {}');
+    fs.writeFileSync(path.join(root, '.env'), 'TOKEN=secret');
+    fs.writeFileSync(path.join(root, '.env.example'), 'TOKEN=');
+    fs.mkdirSync(path.join(base, 'project2'));
+    fs.writeFileSync(path.join(base, 'project2', 'other.txt'), 'other');
+  });
+
+  afterEach(() => {
+    fs.rmSync(base, { recursive: true, force: true });
+  });
+
+  it('should allow files inside a root, including relative paths', async () => {
+    const absolute = await checkWorkspaceAccess(path.join(root, 'src', 'main.tf'), [root]);
+    const relative = await checkWorkspaceAccess('src/main.tf', [root]);
+
+    expect(absolute).toEqual({ allowed: true, realPath: path.join(root, 'src', 'main.tf') });
+    expect(relative).toEqual(absolute);
+  });
+
+  it('should deny `..` escapes and sibling directories sharing the prefix', async () => {
+    const escaped = await checkWorkspaceAccess(path.join(root, 'src', '..', '..'), [root]);
+    const sibling = await checkWorkspaceAccess(path.join(base, 'project2', 'other.txt'), [root]);
+
+    expect(escaped).toMatchObject({ allowed: false, reason: 'outside_workspace' });
+    expect(sibling).toMatchObject({
+      allowed: false,
+      reason: 'outside_workspace',
+      suggestedRoot: path.join(base, 'project2'),
+    });
+  });
+
+  it('should follow symlinks that point outside the root', async () => {
+    fs.symlinkSync(path.join(base, 'project2'), path.join(root, 'link'));
+
+    const result = await checkWorkspaceAccess(path.join(root, 'link', 'other.txt'), [root]);
+
+    expect(result).toMatchObject({ allowed: false, reason: 'outside_workspace' });
+  });
+
+  it('should judge paths that do not exist yet by their real parent', async () => {
+    const inside = await checkWorkspaceAccess(path.join(root, 'new', 'file.txt'), [root]);
+    const outside = await checkWorkspaceAccess(path.join(base, 'new', 'file.txt'), [root]);
+
+    expect(inside.allowed).toBe(true);
+    expect(outside.allowed).toBe(false);
+  });
+
+  it('should deny everything when there are no roots', async () => {
+    const result = await checkWorkspaceAccess(path.join(root, 'src', 'main.tf'), []);
+
+    expect(result).toMatchObject({ allowed: false, reason: 'outside_workspace' });
+    if (!result.allowed) expect(result.message).toContain('no workspace roots');
+  });
+
+  it('should deny secrets even inside a root', async () => {
+    const env = await checkWorkspaceAccess(path.join(root, '.env'), [root]);
+    const example = await checkWorkspaceAccess(path.join(root, '.env.example'), [root]);
+
+    expect(env).toMatchObject({ allowed: false, reason: 'secret' });
+    expect(example.allowed).toBe(true);
+  });
+
+  it('should recognize well-known secret locations', () => {
+    expect(isSecretPath('/home/dev/.ssh/config')).toBe(true);
+    expect(isSecretPath('/home/dev/keys/id_ed25519')).toBe(true);
+    expect(isSecretPath('/home/dev/.aws/credentials')).toBe(true);
+    expect(isSecretPath('/home/dev/.kube/config')).toBe(true);
+    expect(isSecretPath('/srv/app/tls/server.pem')).toBe(true);
+    expect(isSecretPath('/srv/app/.env.production')).toBe(true);
+    expect(isSecretPath('/srv/app/config/credentials.yaml')).toBe(false);
+    expect(isSecretPath('/srv/app/k8s/config')).toBe(false);
+  });
+
+  it('should normalize roots to real directories', async () => {
+    fs.symlinkSync(root, path.join(base, 'alias'));
+
+    await expect(normalizeWorkspaceRoot(path.join(base, 'alias'))).resolves.toBe(root);
+    await expect(normalizeWorkspaceRoot('project')).rejects.toThrow('absolute path');
+    await expect(normalizeWorkspaceRoot(path.join(base, 'missing'))).rejects.toThrow(
+      'does not exist'
+    );
+    await expect(normalizeWorkspaceRoot(path.join(root, 'src', 'main.tf'))).rejects.toThrow(
+      'not a directory'
+    );
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeConfig, detectConfigType } from '../../src/tools/config-analysis/analyzer.js';
+import { parseDockerfile } from '../../src/tools/config-analysis/dockerfile.js';
+import { parseHcl } from '../../src/tools/config-analysis/hcl.js';
+
+const ruleIds = (content: string, type?: Parameters<typeof analyzeConfig>[1]) =>
+  analyzeConfig(content, type)?.findings.map((finding) => finding.ruleId) ?? [];
+
+describe('config analysis', () => {
+  describe('detectConfigType', () => {
+    it('should detect each supported type', () => {
+      expect(detectConfigType('FROM node:20\nRUN npm ci\n')).toBe('docker');
+      expect(detectConfigType('resource "aws_s3_bucket" "logs" {\n  bucket = "logs"\n}\n')).toBe(
+        'terraform'
+      );
+      expect(detectConfigType('apiVersion: v1\nkind: Service\nmetadata:\n  name: web\n')).toBe(
+        'kubernetes'
+      );
+      expect(detectConfigType("AWSTemplateFormatVersion: '2010-09-09'\nResources: {}\n")).toBe(
+        'cloudformation'
+      );
+      expect(detectConfigType('on: push\njobs:\n  build:\n    runs-on: ubuntu-latest\n')).toBe(
+        'github-actions'
+      );
+    });
+
+    it('should return null for unknown content', () => {
+      expect(detectConfigType('just some text')).toBeNull();
+      expect(analyzeConfig('just some text')).toBeNull();
+    });
+  });
+
+  describe('kubernetes', () => {
+    const manifests = `# Comments like image: nginx:latest are not flagged
+apiVersion: v1
+kind: Pod
+metadata:
+  name: web
+  namespace: apps
+spec:
+  containers:
+    - name: web
+      image: nginx:latest
+---
+apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: api
+  namespace: apps
+spec:
+  template:
+    spec:
+      containers:
+        - name: api
+          image: api:1.4.0
+          securityContext:
+            privileged: true
+`;
+
+    it('should number documents and point at the offending line', () => {
+      const result = analyzeConfig(manifests);
+      expect(result?.configType).toBe('kubernetes');
+      expect(result?.documents).toBe(2);
+
+      const latest = result?.findings.filter((finding) => finding.ruleId === 'KUBE001');
+      expect(latest).toEqual([
+        expect.objectContaining({ severity: 'warning', line: 10, column: 7, document: 1 }),
+      ]);
+      expect(latest?.[0].fix).toBeTruthy();
+
+      const privileged = result?.findings.find((finding) => finding.ruleId === 'KUBE004');
+      expect(privileged).toMatchObject({ severity: 'error', line: 24, document: 2 });
+    });
+
+    it('should not set document numbers for a single document', () => {
+      const result = analyzeConfig(manifests.split('---')[0]);
+      expect(result?.findings.length).toBeGreaterThan(0);
+      expect(result?.findings.every((finding) => finding.document === undefined)).toBe(true);
+    });
+
+    it('should summarize findings by severity', () => {
+      const result = analyzeConfig(manifests);
+      const errors = result?.findings.filter((finding) => finding.severity === 'error').length;
+      expect(result?.summary.error).toBe(errors);
+      expect(result?.report).toContain('**KUBE004** (error, line 24');
+    });
+
+    it('should report syntax errors as PARSE findings', () => {
+      const result = analyzeConfig(
+        'apiVersion: v1\nkind: Pod: Deployment\nmetadata:\n  name: web\n',
+        'kubernetes'
+      );
+      expect(result?.findings[0]).toMatchObject({
+        ruleId: 'PARSE',
+        severity: 'error',
+        message: 'Syntax error: Nested mappings are not allowed in compact mappings',
+        line: 2,
+        column: 7,
+      });
+    });
+  });
+
+  describe('docker', () => {
+    it('should join continuation lines and keep the first line number', () => {
+      const { instructions } = parseDockerfile(
+        'FROM alpine:3.20\n# comment\nRUN apk add \\\n    # inline comment\n\n    curl\n'
+      );
+      expect(instructions[1]).toMatchObject({ keyword: 'RUN', args: 'apk add curl', line: 3 });
+    });
+
+    it('should flag the last stage running as root', () => {
+      const ids = ruleIds('FROM node:20 AS build\nUSER node\nFROM node:20-slim\nCMD ["node"]\n');
+      expect(ids).toContain('DOCKER002');
+    });
+  });
+
+  describe('terraform', () => {
+    it('should parse nested blocks with positions', () => {
+      const { body, error } = parseHcl(
+        'resource "aws_instance" "web" {\n  ami = "ami-123"\n  ebs_block_device {\n    encrypted = false\n  }\n}\n'
+      );
+      expect(error).toBeUndefined();
+      expect(body.blocks[0]).toMatchObject({
+        type: 'resource',
+        labels: ['aws_instance', 'web'],
+        line: 1,
+      });
+      expect(body.blocks[0].body.blocks[0].body.attributes[0]).toMatchObject({
+        name: 'encrypted',
+        line: 4,
+        column: 5,
+        expression: { value: false },
+      });
+    });
+
+    it('should keep expressions as written', () => {
+      const { body } = parseHcl(
+        'locals {\n  count = var.workers * 2 # per zone\n  names = [\n    "a", // first\n    "b",\n  ]\n}\n'
+      );
+      const [count, names] = body.blocks[0].body.attributes;
+      expect(count.expression).toMatchObject({
+        text: 'var . workers * 2',
+        source: 'var.workers * 2',
+      });
+      expect(names.expression.source).toBe('[\n    "a", // first\n    "b",\n  ]');
+    });
+
+    it('should report syntax errors with their position', () => {
+      const result = analyzeConfig(
+        'resource "aws_s3_bucket" "logs" {\n  bucket =\n}\n',
+        'terraform'
+      );
+      expect(result?.findings).toEqual([
+        expect.objectContaining({ ruleId: 'PARSE', line: 2, column: 10 }),
+      ]);
+    });
+  });
+
+  describe('cloudformation', () => {
+    it('should read templates that use short-form intrinsic tags', () => {
+      const result = analyzeConfig(
+        `AWSTemplateFormatVersion: '2010-09-09'
+Resources:
+  Ingress:
+    Type: AWS::EC2::SecurityGroupIngress
+    Properties:
+      GroupId: !Ref WebGroup
+      CidrIp: 0.0.0.0/0
+      FromPort: 22
+`
+      );
+      expect(result?.findings.map((finding) => finding.ruleId)).toEqual(['CFN005']);
+      expect(result?.findings[0].line).toBe(7);
+    });
+  });
+});
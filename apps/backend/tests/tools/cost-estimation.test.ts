@@ -0,0 +1,390 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { estimateCost } from '../../src/tools/cost-estimation/estimator.js';
+import {
+  BUNDLED_PRICING,
+  type LoadedPricing,
+  installPricingFile,
+  loadPricing,
+} from '../../src/tools/cost-estimation/pricing.js';
+import { getToolByName } from '../../src/tools/devops-tools.js';
+
+const bundled: LoadedPricing = { table: BUNDLED_PRICING, source: 'bundled' };
+const hours = BUNDLED_PRICING.hoursPerMonth;
+const aws = BUNDLED_PRICING.providers.aws;
+
+const linesOf = (content: string, provider?: 'aws' | 'azure' | 'gcp') =>
+  estimateCost(content, { provider }, bundled).lines.map(({ resource, quantity, monthly }) => [
+    resource,
+    quantity,
+    Number(monthly.toFixed(2)),
+  ]);
+
+describe('estimateCost', () => {
+  it('should price Terraform instances, disks and databases', () => {
+    const estimate = estimateCost(
+      `
+resource "aws_instance" "web" {
+  count         = 2
+  instance_type = "t3.medium"
+
+  root_block_device {
+    volume_size = 30
+  }
+}
+
+resource "aws_db_instance" "main" {
+  instance_class    = "db.t4g.medium"
+  allocated_storage = 100
+  multi_az          = true
+}
+`,
+      {},
+      bundled
+    );
+
+    expect(estimate.format).toBe('terraform');
+    expect(estimate.lines.map(({ resource, quantity }) => [resource, quantity])).toEqual([
+      ['aws_instance.web', 2],
+      ['aws_instance.web (disk)', 2],
+      ['aws_db_instance.main', 1],
+      ['aws_db_instance.main (storage)', 1],
+    ]);
+    expect(estimate.lines[0].monthly).toBeCloseTo(2 * aws.compute['t3.medium'] * hours);
+    // Multi-AZ pays for the standby too
+    expect(estimate.lines[2].monthly).toBeCloseTo(2 * aws.database['db.t4g.medium'] * hours);
+    expect(estimate.total).toBeCloseTo(estimate.lines.reduce((sum, line) => sum + line.monthly, 0));
+    expect(estimate.report).toContain('## Monthly Cost Estimate');
+    expect(estimate.report).toContain('On-demand list prices in aws us-east-1');
+    expect(estimate.report).toContain(`Pricing table ${BUNDLED_PRICING.version} (bundled)`);
+  });
+
+  it('should explain what it could not price in Terraform', () => {
+    const estimate = estimateCost(
+      `
+resource "aws_instance" "app" {
+  instance_type = var.instance_type
+}
+
+resource "aws_s3_bucket" "assets" {
+  bucket = "assets"
+}
+
+resource "aws_instance" "workers" {
+  count         = var.workers
+  instance_type = "x9.huge"
+}
+
+resource "aws_security_group" "web" {}
+
+resource "aws_eks_cluster" "main" {
+  name = "main"
+}
+`,
+      { format: 'terraform' },
+      bundled
+    );
+
+    expect(estimate.skipped.map(({ resource }) => resource)).toEqual([
+      'aws_instance.app',
+      'aws_s3_bucket.assets',
+      'aws_instance.workers',
+    ]);
+    expect(estimate.skipped[0].reason).toContain(
+      '`instance_type` is computed (`var.instance_type`)'
+    );
+    expect(estimate.skipped[1].reason).toContain('`s3-standard 500GB`');
+    expect(estimate.skipped[2].reason).toContain('`x9.huge` is not in the aws pricing table');
+    expect(estimate.assumptions).toContain(
+      'aws_instance.workers: `count = var.workers` assumed to be 1'
+    );
+    expect(estimate.assumptions).toContain(
+      'No monthly price for `aws_security_group` (free or not in the pricing table)'
+    );
+    expect(estimate.lines.map((line) => line.resource)).toEqual([
+      'aws_instance.workers (disk)',
+      'aws_eks_cluster.main (control plane)',
+    ]);
+    expect(estimate.report).toContain('### Not Included');
+  });
+
+  it('should price node pools and Cloud SQL custom tiers', () => {
+    expect(
+      linesOf(`
+resource "google_container_node_pool" "pool" {
+  node_count = 3
+
+  node_config {
+    machine_type = "e2-standard-4"
+    disk_size_gb = 50
+  }
+}
+
+resource "google_sql_database_instance" "db" {
+  settings {
+    tier              = "db-custom-2-7680"
+    availability_type = "REGIONAL"
+  }
+}
+`)
+    ).toEqual([
+      ['google_container_node_pool.pool', 3, 293.5],
+      ['google_container_node_pool.pool (disk)', 3, 15],
+      ['google_sql_database_instance.db', 1, 197.25],
+      ['google_sql_database_instance.db (storage)', 1, 3.4],
+    ]);
+  });
+
+  it('should price Kubernetes workloads by their requests', () => {
+    const estimate = estimateCost(
+      `
+apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: api
+spec:
+  replicas: 3
+  template:
+    spec:
+      containers:
+        - name: api
+          resources:
+            requests:
+              cpu: 500m
+              memory: 1Gi
+        - name: proxy
+          resources:
+            requests:
+              cpu: 100m
+---
+apiVersion: batch/v1
+kind: CronJob
+metadata:
+  name: report
+---
+apiVersion: v1
+kind: PersistentVolumeClaim
+metadata:
+  name: data
+spec:
+  resources:
+    requests:
+      storage: 20Gi
+`,
+      { provider: 'azure' },
+      bundled
+    );
+
+    expect(estimate.format).toBe('kubernetes');
+    const azure = BUNDLED_PRICING.providers.azure;
+    expect(estimate.lines[0]).toMatchObject({
+      resource: 'Deployment/api',
+      provider: 'azure',
+      description: '0.6 vCPU / 1 GiB',
+      quantity: 3,
+    });
+    expect(estimate.lines[0].monthly).toBeCloseTo(
+      3 * (0.6 * azure.containers.vcpuHour + azure.containers.memoryGibHour) * hours
+    );
+    expect(estimate.lines[1].description).toBe(`20 GB ${azure.defaultStorage}`);
+    expect(estimate.skipped).toEqual([expect.objectContaining({ resource: 'CronJob/report' })]);
+    expect(estimate.assumptions).toContain(
+      'Deployment/api: 1 container(s) without full CPU/memory requests priced at what they do request'
+    );
+    expect(estimate.assumptions).toContain(
+      `PersistentVolumeClaim/data: storage class not given, priced as ${azure.defaultStorage}`
+    );
+  });
+
+  it('should read a free-form list', () => {
+    const estimate = estimateCost(
+      `
+# web tier
+3x t3.medium
+db.r6g.large multi-az 100GB
+s3-standard 2TB
+gcp e2-medium
+0.5 vCPU 1GiB x4
+quantum-computer
+`,
+      {},
+      bundled
+    );
+
+    expect(estimate.format).toBe('list');
+    expect(
+      estimate.lines.map(({ resource, provider, quantity }) => [resource, provider, quantity])
+    ).toEqual([
+      ['3x t3.medium', 'aws', 3],
+      ['db.r6g.large multi-az 100GB', 'aws', 1],
+      ['db.r6g.large multi-az 100GB (storage)', 'aws', 1],
+      ['s3-standard 2TB', 'aws', 1],
+      ['gcp e2-medium', 'gcp', 1],
+      ['0.5 vCPU 1GiB x4', 'aws', 4],
+    ]);
+    expect(estimate.lines[3].monthly).toBeCloseTo(2048 * aws.storage['s3-standard']);
+    expect(estimate.skipped).toEqual([
+      { resource: 'quantum-computer', reason: 'no known instance type, tier or storage class' },
+    ]);
+    expect(estimate.pricing.regions).toEqual({ aws: 'us-east-1', gcp: 'us-central1' });
+  });
+
+  it('should not price quantities and sizes it cannot read', () => {
+    const list = estimateCost(
+      '-5x t3.medium\n0x t3.medium\n1e400x t3.medium\n2x t3.medium',
+      {},
+      bundled
+    );
+    expect(list.lines.map(({ resource, quantity }) => [resource, quantity])).toEqual([
+      ['2x t3.medium', 2],
+    ]);
+    expect(list.skipped.map(({ reason }) => reason)).toEqual([
+      'quantity `-5x` is not a whole number of 1 or more',
+      'quantity `0x` is not a whole number of 1 or more',
+      'quantity `1e400x` is not a whole number of 1 or more',
+    ]);
+
+    const kubernetes = estimateCost(
+      `
+apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: api
+spec:
+  replicas: 2
+  template:
+    spec:
+      containers:
+        - name: api
+          resources:
+            requests:
+              cpu: 500m
+              memory: foo
+---
+apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: web
+spec:
+  replicas: -2
+  template:
+    spec:
+      containers:
+        - name: web
+          resources:
+            requests:
+              cpu: 1
+              memory: 1Gi
+---
+apiVersion: v1
+kind: PersistentVolumeClaim
+metadata:
+  name: data
+spec:
+  resources:
+    requests:
+      storage: lots
+`,
+      {},
+      bundled
+    );
+    expect(kubernetes.lines).toEqual([]);
+    expect(kubernetes.skipped).toEqual([
+      { resource: 'Deployment/api', reason: 'memory request `foo` is not a Kubernetes quantity' },
+      { resource: 'Deployment/web', reason: '`replicas: -2` is not a whole number of 0 or more' },
+      {
+        resource: 'PersistentVolumeClaim/data',
+        reason: 'storage request `lots` is not a Kubernetes quantity',
+      },
+    ]);
+
+    const terraform = estimateCost(
+      `
+resource "aws_instance" "half" {
+  count         = 1.5
+  instance_type = "t3.medium"
+}
+
+resource "aws_instance" "huge" {
+  count         = 1e400
+  instance_type = "t3.medium"
+}
+`,
+      {},
+      bundled
+    );
+    expect(terraform.skipped).toEqual([
+      { resource: 'aws_instance.half', reason: '`count = 1.5` is not a whole number' },
+    ]);
+    expect(terraform.assumptions).toContain('aws_instance.huge: `count = 1e400` assumed to be 1');
+  });
+
+  it('should be reachable as a tool', async () => {
+    const tool = getToolByName('estimate_cost');
+    expect(await tool?.handler({ input: 't3.micro', provider: 'aws' })).toContain(
+      '## Monthly Cost Estimate'
+    );
+    expect(await tool?.handler({ input: 'resource "a" {', format: 'terraform' })).toMatch(
+      /^Error: Terraform syntax error/
+    );
+  });
+});
+
+describe('pricing tables', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'devmentorai-pricing-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function writeTable(name: string, table: unknown): string {
+    const file = path.join(dir, name);
+    fs.writeFileSync(file, JSON.stringify(table));
+    return file;
+  }
+
+  it('should install a newer table and use it', () => {
+    const newer = structuredClone(BUNDLED_PRICING);
+    newer.version = '2099-01-01';
+    newer.providers.aws.compute['t3.micro'] = 1;
+    const target = path.join(dir, 'installed.json');
+
+    installPricingFile(writeTable('newer.json', newer), target);
+    const loaded = loadPricing(target);
+
+    expect(loaded.source).toBe('user');
+    expect(estimateCost('t3.micro', {}, loaded).total).toBe(hours);
+    expect(estimateCost('t3.micro', {}, loaded).report).toContain(
+      'Pricing table 2099-01-01 (~/.devmentorai/pricing.json)'
+    );
+  });
+
+  it('should reject invalid and outdated tables', () => {
+    const target = path.join(dir, 'installed.json');
+    const invalid = { ...BUNDLED_PRICING, version: 'latest' };
+    const older = { ...BUNDLED_PRICING, version: '2000-01-01' };
+
+    expect(() => installPricingFile(writeTable('invalid.json', invalid), target)).toThrow(
+      /version: version must be a YYYY-MM-DD date/
+    );
+    expect(() => installPricingFile(writeTable('older.json', older), target)).toThrow(
+      /older than the bundled prices/
+    );
+    expect(fs.existsSync(target)).toBe(false);
+
+    // A table that went stale or broken on disk falls back to the bundled one
+    const loaded = loadPricing(writeTable('stale.json', older));
+    expect(loaded).toMatchObject({
+      source: 'bundled',
+      table: { version: BUNDLED_PRICING.version },
+    });
+    expect(loaded.warning).toContain('older than the bundled prices');
+    expect(estimateCost('t3.micro', {}, loaded).report).toContain(`⚠️ ${loaded.warning}`);
+  });
+});
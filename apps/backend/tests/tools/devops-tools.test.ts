@@ -3,6 +3,7 @@ import * as os from 'node:os';
 import * as path from 'node:path';
 import { afterAll, beforeAll, describe, expect, it } from 'vitest';
 import {
+  type ToolContext,
   analyzeConfigTool,
   analyzeErrorTool,
   devopsTools,
@@ -10,10 +11,12 @@ import {
   listDirectoryTool,
   readFileTool,
 } from '../../src/tools/devops-tools.js';
+import { checkWorkspaceAccess } from '../../src/tools/workspace-access.js';
 
 describe('DevOps Tools', () => {
   let testDir: string;
   let testFile: string;
+  let context: ToolContext;
 
   beforeAll(async () => {
     // Create temp test directory
@@ -23,6 +26,12 @@ describe('DevOps Tools', () => {
     // Create test file
     testFile = path.join(testDir, 'test.txt');
     await fs.writeFile(testFile, 'Line 1\nLine 2\nLine 3\nLine 4\nLine 5');
+    await fs.writeFile(path.join(testDir, '.env'), 'TOKEN=secret');
+
+    // The test directory is the only workspace root
+    context = {
+      checkPathAccess: (requestedPath) => checkWorkspaceAccess(requestedPath, [testDir]),
+    };
   });
 
   afterAll(async () => {
@@ -31,8 +40,8 @@ describe('DevOps Tools', () => {
   });
 
   describe('Tool Registry', () => {
-    it('should have 5 tools registered', () => {
-      expect(devopsTools).toHaveLength(5);
+    it('should have 8 tools registered', () => {
+      expect(devopsTools).toHaveLength(8);
     });
 
     it('should find tool by name', () => {
@@ -49,42 +58,56 @@ describe('DevOps Tools', () => {
 
   describe('read_file tool', () => {
     it('should read file contents', async () => {
-      const result = await readFileTool.handler({ path: testFile });
+      const result = await readFileTool.handler({ path: testFile }, context);
       expect(result).toContain('Line 1');
       expect(result).toContain('Line 5');
     });
 
     it('should respect maxLines parameter', async () => {
-      const result = await readFileTool.handler({ path: testFile, maxLines: 2 });
+      const result = await readFileTool.handler({ path: testFile, maxLines: 2 }, context);
       expect(result).toContain('Line 1');
       expect(result).toContain('Line 2');
       expect(result).toContain('[Truncated:');
     });
 
     it('should return error for non-existent file', async () => {
-      const result = await readFileTool.handler({ path: '/tmp/nonexistent-file-12345.txt' });
+      const result = await readFileTool.handler(
+        { path: path.join(testDir, 'nonexistent-file.txt') },
+        context
+      );
       expect(result).toContain('Error: File not found');
     });
 
     it('should deny access to restricted paths', async () => {
-      const result = await readFileTool.handler({ path: '/etc/passwd' });
+      const result = await readFileTool.handler({ path: '/etc/passwd' }, context);
+      expect(result).toContain('Access denied');
+    });
+
+    it('should deny access to secrets inside the workspace', async () => {
+      const result = await readFileTool.handler({ path: path.join(testDir, '.env') }, context);
+      expect(result).toContain('protected secret file');
+    });
+
+    it('should deny access without a session workspace', async () => {
+      const result = await readFileTool.handler({ path: testFile });
       expect(result).toContain('Access denied');
     });
   });
 
   describe('list_directory tool', () => {
     it('should list directory contents', async () => {
-      const result = await listDirectoryTool.handler({ path: testDir });
+      const result = await listDirectoryTool.handler({ path: testDir }, context);
       expect(result).toContain('test.txt');
+      expect(result).not.toContain('.env');
     });
 
     it('should show file sizes', async () => {
-      const result = await listDirectoryTool.handler({ path: testDir });
+      const result = await listDirectoryTool.handler({ path: testDir }, context);
       expect(result).toMatch(/📄.*test\.txt.*\(/);
     });
 
     it('should deny access to restricted paths', async () => {
-      const result = await listDirectoryTool.handler({ path: '/etc' });
+      const result = await listDirectoryTool.handler({ path: '/etc' }, context);
       expect(result).toContain('Access denied');
     });
   });
@@ -0,0 +1,247 @@
+import { describe, expect, it } from 'vitest';
+import { getToolByName } from '../../src/tools/devops-tools.js';
+import { analyzeIamPolicy, parseIamPolicy } from '../../src/tools/iam-policy.js';
+
+function policy(...statements: unknown[]): string {
+  return JSON.stringify({ Version: '2012-10-17', Statement: statements });
+}
+
+const rulesOf = (content: string) =>
+  analyzeIamPolicy(content).findings.map(({ ruleId, severity, statement }) => [
+    ruleId,
+    severity,
+    statement,
+  ]);
+
+describe('analyzeIamPolicy', () => {
+  it('should pass a scoped identity policy', () => {
+    const analysis = analyzeIamPolicy(
+      policy({
+        Sid: 'ReadReports',
+        Effect: 'Allow',
+        Action: ['s3:GetObject', 's3:ListBucket'],
+        Resource: ['arn:aws:s3:::reports', 'arn:aws:s3:::reports/*'],
+      })
+    );
+
+    expect(analysis.policyType).toBe('identity');
+    expect(analysis.findings).toEqual([]);
+    expect(analysis.suggestion).toBeNull();
+    expect(analysis.report).toContain('### ✅ No Issues Found');
+  });
+
+  it('should flag wildcard actions and resources', () => {
+    expect(
+      rulesOf(
+        policy(
+          { Sid: 'Admin', Effect: 'Allow', Action: '*', Resource: '*' },
+          { Effect: 'Allow', Action: 's3:*', Resource: 'arn:aws:s3:::logs/*' },
+          { Effect: 'Allow', Action: ['ec2:Describe*', 'ec2:TerminateInstances'], Resource: '*' },
+          { Effect: 'Allow', Action: 'cloudwatch:GetMetricData', Resource: '*' }
+        )
+      )
+    ).toEqual([
+      ['IAM001', 'error', 'Admin'],
+      ['IAM001', 'warning', 'Statement[1]'],
+      ['IAM002', 'warning', 'Statement[2]'],
+    ]);
+  });
+
+  it('should find privilege escalation across statements', () => {
+    const analysis = analyzeIamPolicy(
+      policy(
+        { Sid: 'Pass', Effect: 'Allow', Action: 'iam:PassRole', Resource: '*' },
+        { Sid: 'Launch', Effect: 'Allow', Action: 'ec2:RunInstances', Resource: '*' },
+        {
+          Sid: 'OwnKeys',
+          Effect: 'Allow',
+          Action: 'iam:CreateAccessKey',
+          Resource: 'arn:aws:iam::123456789012:user/${aws:username}',
+        }
+      )
+    );
+
+    const escalation = analysis.findings.find((finding) => finding.ruleId === 'IAM003');
+    expect(escalation).toMatchObject({ severity: 'error', statement: 'Pass, Launch' });
+    expect(escalation?.message).toContain(
+      '`iam:PassRole + ec2:RunInstances (launch an instance with a more privileged role)`'
+    );
+    expect(escalation?.message).not.toContain('CreateAccessKey');
+    expect(analysis.findings).toContainEqual(
+      expect.objectContaining({ ruleId: 'IAM004', statement: 'Pass' })
+    );
+  });
+
+  it('should not report escalation that a Deny blocks', () => {
+    const rules = rulesOf(
+      policy(
+        { Effect: 'Allow', Action: 'iam:*', Resource: '*' },
+        { Effect: 'Deny', Action: ['iam:Create*', 'iam:Attach*', 'iam:Put*'], Resource: '*' },
+        { Effect: 'Deny', NotAction: 'iam:Get*', Resource: '*' }
+      )
+    );
+    expect(rules.map(([ruleId]) => ruleId)).not.toContain('IAM003');
+  });
+
+  it('should flag NotAction and NotResource on Allow', () => {
+    expect(
+      rulesOf(
+        policy(
+          { Effect: 'Allow', NotAction: 'iam:*', Resource: '*' },
+          { Effect: 'Allow', Action: 's3:GetObject', NotResource: 'arn:aws:s3:::secret/*' },
+          { Effect: 'Deny', NotAction: 'sts:*', Resource: '*' }
+        )
+      )
+    ).toEqual([
+      ['IAM006', 'error', 'Statement[0]'],
+      ['IAM006', 'warning', 'Statement[1]'],
+    ]);
+  });
+
+  it('should flag public principals in resource policies', () => {
+    const analysis = analyzeIamPolicy(
+      JSON.stringify({
+        Policy: policy(
+          {
+            Sid: 'Public',
+            Effect: 'Allow',
+            Principal: '*',
+            Action: 's3:GetObject',
+            Resource: 'arn:aws:s3:::site/*',
+          },
+          {
+            Sid: 'Org',
+            Effect: 'Allow',
+            Principal: { AWS: '*' },
+            Action: 's3:GetObject',
+            Resource: 'arn:aws:s3:::shared/*',
+            Condition: { StringEquals: { 'aws:PrincipalOrgID': 'o-123' } },
+          },
+          {
+            Sid: 'Logs',
+            Effect: 'Allow',
+            Principal: { Service: 'logging.s3.amazonaws.com' },
+            Action: 's3:PutObject',
+            Resource: 'arn:aws:s3:::logs/*',
+          }
+        ),
+      })
+    );
+
+    expect(analysis.policyType).toBe('resource');
+    expect(
+      analysis.findings.map(({ ruleId, severity, statement }) => [ruleId, severity, statement])
+    ).toEqual([
+      ['IAM005', 'error', 'Public'],
+      ['IAM005', 'info', 'Org'],
+      ['IAM004', 'info', 'Logs'],
+    ]);
+    const [publicStatement, , logs] = analysis.suggestion?.policy.Statement as Array<
+      Record<string, unknown>
+    >;
+    expect(publicStatement.Condition).toEqual({
+      StringEquals: { 'aws:PrincipalOrgID': 'ORG_ID' },
+    });
+    expect(logs.Condition).toEqual({ StringEquals: { 'aws:SourceAccount': 'ACCOUNT_ID' } });
+  });
+
+  it('should require a subject condition in OIDC trust policies', () => {
+    const provider = 'arn:aws:iam::123456789012:oidc-provider/token.actions.githubusercontent.com';
+    const analysis = analyzeIamPolicy(
+      JSON.stringify({
+        Role: {
+          RoleName: 'deploy',
+          AssumeRolePolicyDocument: policy(
+            {
+              Sid: 'GitHub',
+              Effect: 'Allow',
+              Principal: { Federated: provider },
+              Action: 'sts:AssumeRoleWithWebIdentity',
+            },
+            {
+              Sid: 'Vendor',
+              Effect: 'Allow',
+              Principal: { AWS: 'arn:aws:iam::210987654321:root' },
+              Action: 'sts:AssumeRole',
+            }
+          ),
+        },
+      })
+    );
+
+    expect(analysis.policyType).toBe('trust');
+    expect(
+      analysis.findings.map(({ ruleId, severity, statement }) => [ruleId, severity, statement])
+    ).toEqual([
+      ['IAM004', 'error', 'GitHub'],
+      ['IAM004', 'warning', 'Vendor'],
+    ]);
+    const [github, vendor] = analysis.suggestion?.policy.Statement as Array<
+      Record<string, unknown>
+    >;
+    expect(github.Condition).toEqual({
+      StringEquals: { 'token.actions.githubusercontent.com:aud': 'sts.amazonaws.com' },
+      StringLike: {
+        'token.actions.githubusercontent.com:sub': 'repo:OWNER/REPO:ref:refs/heads/main',
+      },
+    });
+    expect(vendor.Condition).toEqual({ StringEquals: { 'sts:ExternalId': 'EXTERNAL_ID' } });
+  });
+
+  it('should split a broad statement into a least-privilege rewrite', () => {
+    const analysis = analyzeIamPolicy(
+      JSON.stringify({
+        Statement: [
+          {
+            Sid: 'Deploy',
+            Effect: 'Allow',
+            Action: ['s3:*', 'iam:PassRole', 'lambda:UpdateFunctionConfiguration'],
+            Resource: '*',
+          },
+        ],
+      })
+    );
+
+    expect(analysis.suggestion?.policy).toEqual({
+      Version: '2012-10-17',
+      Statement: [
+        {
+          Sid: 'DeployRead',
+          Effect: 'Allow',
+          Action: ['s3:Get*', 's3:List*', 's3:Describe*'],
+          Resource: '*',
+        },
+        {
+          Sid: 'DeployWrite',
+          Effect: 'Allow',
+          Action: 'lambda:UpdateFunctionConfiguration',
+          Resource: 'arn:aws:lambda:REGION:ACCOUNT_ID:function:FUNCTION_NAME',
+        },
+        {
+          Sid: 'DeployPassRole',
+          Effect: 'Allow',
+          Action: 'iam:PassRole',
+          Resource: 'arn:aws:iam::ACCOUNT_ID:role/ROLE_NAME',
+          Condition: { StringEquals: { 'iam:PassedToService': 'lambda.amazonaws.com' } },
+        },
+      ],
+    });
+    expect(analysis.findings.at(-1)).toMatchObject({ ruleId: 'IAM007', severity: 'info' });
+    expect(analysis.report).toContain('### Least-Privilege Rewrite');
+  });
+});
+
+describe('parseIamPolicy', () => {
+  it('should explain what is wrong with other input', () => {
+    expect(() => parseIamPolicy('Effect: Allow')).toThrow(/not valid JSON/);
+    expect(() => parseIamPolicy('{"Version": "2012-10-17"}')).toThrow(/not an IAM policy/);
+  });
+
+  it('should be reachable as a tool', async () => {
+    const tool = getToolByName('analyze_iam_policy');
+    expect(
+      await tool?.handler({ policy: policy({ Effect: 'Allow', Action: '*', Resource: '*' }) })
+    ).toContain('## IAM Policy Analysis (identity policy)');
+    expect(await tool?.handler({ policy: 'nope' })).toMatch(/^Error: /);
+  });
+});
@@ -0,0 +1,281 @@
+import { describe, expect, it } from 'vitest';
+import { getToolByName } from '../../src/tools/devops-tools.js';
+import { analyzeTerraformPlan, parseTerraformPlan } from '../../src/tools/terraform-plan.js';
+
+interface ChangeOptions {
+  before?: unknown;
+  after?: unknown;
+  afterUnknown?: unknown;
+  replacePaths?: string[][];
+  reason?: string;
+  mode?: 'managed' | 'data';
+}
+
+function change(address: string, actions: string[], options: ChangeOptions = {}) {
+  const type = address.split('.').at(-2) as string;
+  return {
+    address,
+    mode: options.mode ?? 'managed',
+    type,
+    ...(options.reason && { action_reason: options.reason }),
+    change: {
+      actions,
+      before: options.before ?? null,
+      after: options.after ?? null,
+      after_unknown: options.afterUnknown ?? {},
+      ...(options.replacePaths && { replace_paths: options.replacePaths }),
+    },
+  };
+}
+
+function plan(resourceChanges: unknown[], extra: Record<string, unknown> = {}): string {
+  return JSON.stringify({
+    format_version: '1.2',
+    terraform_version: '1.9.5',
+    resource_changes: resourceChanges,
+    ...extra,
+  });
+}
+
+const findingsFor = (content: string, kind: string) =>
+  analyzeTerraformPlan(content).findings.filter((finding) => finding.kind === kind);
+
+describe('analyzeTerraformPlan', () => {
+  it('should count actions the way terraform does', () => {
+    const analysis = analyzeTerraformPlan(
+      plan([
+        change('aws_instance.web[0]', ['create']),
+        change('aws_instance.web[1]', ['create']),
+        change('aws_instance.api', ['delete', 'create'], {
+          before: { ami: 'ami-1' },
+          after: { ami: 'ami-2' },
+          replacePaths: [['ami']],
+        }),
+        change('aws_s3_bucket.logs', ['update'], {
+          before: { tags: {} },
+          after: { tags: { a: 'b' } },
+        }),
+        change('aws_iam_role.old', ['delete'], { reason: 'delete_because_no_resource_config' }),
+        change('aws_vpc.main', ['no-op']),
+        change('data.aws_ami.ubuntu', ['read'], { mode: 'data' }),
+      ])
+    );
+
+    expect(analysis.terraformVersion).toBe('1.9.5');
+    expect(analysis.totals).toEqual({
+      create: 2,
+      update: 1,
+      replace: 1,
+      delete: 1,
+      read: 1,
+      'no-op': 1,
+    });
+    expect(analysis.byType).toEqual([
+      { type: 'aws_iam_role', create: 0, update: 0, replace: 0, delete: 1 },
+      { type: 'aws_instance', create: 2, update: 0, replace: 1, delete: 0 },
+      { type: 'aws_s3_bucket', create: 0, update: 1, replace: 0, delete: 0 },
+    ]);
+    expect(analysis.changes).toHaveLength(5);
+    expect(analysis.report).toContain(
+      '**Plan:** 3 to add, 1 to change, 2 to destroy (1 replacement)'
+    );
+    expect(analysis.report).toContain('| `aws_instance` | 2 | 0 | 1 | 0 |');
+  });
+
+  it('should flag destroys and forced replacements', () => {
+    const content = plan([
+      change('aws_db_instance.main', ['delete'], { reason: 'delete_because_no_resource_config' }),
+      change('aws_instance.api', ['delete', 'create'], { replacePaths: [['ami'], ['user_data']] }),
+      change('aws_lb.front', ['create', 'delete'], { reason: 'replace_because_tainted' }),
+    ]);
+
+    expect(findingsFor(content, 'destroy')).toEqual([
+      {
+        kind: 'destroy',
+        severity: 'error',
+        address: 'aws_db_instance.main',
+        message: 'Will be destroyed because its configuration was removed. Any data in it is lost.',
+      },
+    ]);
+    const replacements = findingsFor(content, 'replace');
+    expect(replacements.map(({ address, severity }) => [address, severity])).toEqual([
+      ['aws_instance.api', 'warning'],
+      ['aws_lb.front', 'warning'],
+    ]);
+    expect(replacements[0].message).toContain('because `ami`, `user_data` changed');
+    expect(replacements[0].message).toContain('expect downtime');
+    expect(replacements[1].message).toContain('because it is tainted');
+    expect(replacements[1].message).toContain('created before the old one is destroyed');
+  });
+
+  it('should flag IAM policies that gain permissions', () => {
+    const policy = (actions: string[], resource = '*') =>
+      JSON.stringify({
+        Version: '2012-10-17',
+        Statement: [{ Effect: 'Allow', Action: actions, Resource: resource }],
+      });
+    const content = plan([
+      change('aws_iam_policy.deploy', ['update'], {
+        before: { policy: policy(['s3:GetObject'], 'arn:aws:s3:::app/*') },
+        after: { policy: policy(['s3:GetObject', 's3:PutObject'], 'arn:aws:s3:::app/*') },
+      }),
+      change('aws_iam_role_policy.ci', ['create'], { after: { policy: policy(['*']) } }),
+      change('aws_iam_role_policy_attachment.admin', ['create'], {
+        after: { policy_arn: 'arn:aws:iam::aws:policy/AdministratorAccess' },
+      }),
+      change('aws_iam_policy.readonly', ['create'], {
+        after: { policy: policy(['ec2:Describe*']) },
+      }),
+    ]);
+
+    expect(
+      findingsFor(content, 'iam-widening').map(({ address, severity, message }) => [
+        address,
+        severity,
+        message,
+      ])
+    ).toEqual([
+      ['aws_iam_role_policy.ci', 'error', 'Grants broad access: `* on *`.'],
+      [
+        'aws_iam_role_policy_attachment.admin',
+        'error',
+        'Attaches AdministratorAccess, which grants near-admin access.',
+      ],
+      [
+        'aws_iam_policy.deploy',
+        'warning',
+        'Adds 1 permission: `s3:PutObject on arn:aws:s3:::app/*`.',
+      ],
+    ]);
+  });
+
+  it('should flag security groups opened to the internet', () => {
+    const ingress = (cidr: string, from: number, to = from) => ({
+      cidr_blocks: [cidr],
+      ipv6_cidr_blocks: [],
+      from_port: from,
+      to_port: to,
+      protocol: 'tcp',
+    });
+    const content = plan([
+      change('aws_security_group.web', ['update'], {
+        before: { ingress: [ingress('10.0.0.0/8', 443)] },
+        after: { ingress: [ingress('10.0.0.0/8', 443), ingress('0.0.0.0/0', 443)] },
+      }),
+      change('aws_security_group_rule.ssh', ['create'], {
+        after: { type: 'ingress', ...ingress('0.0.0.0/0', 22) },
+      }),
+      change('aws_security_group.internal', ['update'], {
+        before: { ingress: [] },
+        after: { ingress: [ingress('192.168.0.0/16', 5432)] },
+      }),
+      change('aws_security_group.unchanged', ['update'], {
+        before: { ingress: [ingress('0.0.0.0/0', 80)], description: 'a' },
+        after: { ingress: [ingress('0.0.0.0/0', 80)], description: 'b' },
+      }),
+    ]);
+
+    expect(
+      findingsFor(content, 'security-group-widening').map(({ address, severity, message }) => [
+        address,
+        severity,
+        message,
+      ])
+    ).toEqual([
+      [
+        'aws_security_group_rule.ssh',
+        'error',
+        'Opens ingress to the internet: `0.0.0.0/0 on tcp port 22`.',
+      ],
+      [
+        'aws_security_group.web',
+        'warning',
+        'Opens ingress to the internet: `0.0.0.0/0 on tcp port 443`.',
+      ],
+      [
+        'aws_security_group.internal',
+        'info',
+        'Adds ingress from `192.168.0.0/16 on tcp port 5432`.',
+      ],
+    ]);
+  });
+
+  it('should flag known values that become unknown and drift', () => {
+    const content = plan(
+      [
+        change('aws_instance.web', ['update'], {
+          before: { private_ip: '10.0.0.5', tags: { a: '1' }, arn: 'arn:1' },
+          after: { private_ip: null, tags: { a: '2' }, arn: 'arn:1' },
+          afterUnknown: { private_ip: true, tags: false },
+        }),
+        change('aws_instance.new', ['create'], { afterUnknown: { id: true } }),
+      ],
+      {
+        resource_drift: [
+          change('aws_s3_bucket.logs', ['update'], {
+            before: { versioning: [{ enabled: true }] },
+            after: { versioning: [{ enabled: false }] },
+          }),
+        ],
+      }
+    );
+
+    expect(findingsFor(content, 'unknown-after-apply')).toEqual([
+      expect.objectContaining({
+        address: 'aws_instance.web',
+        severity: 'info',
+        message: expect.stringContaining('`private_ip` becomes unknown until apply'),
+      }),
+    ]);
+    expect(findingsFor(content, 'drift')).toEqual([
+      expect.objectContaining({
+        address: 'aws_s3_bucket.logs',
+        severity: 'warning',
+        message: expect.stringContaining('Changed outside Terraform: `versioning`'),
+      }),
+    ]);
+  });
+
+  it('should report an empty plan', () => {
+    const analysis = analyzeTerraformPlan(plan([change('aws_vpc.main', ['no-op'])]));
+    expect(analysis.changes).toEqual([]);
+    expect(analysis.report).toContain('No changes.');
+  });
+});
+
+describe('parseTerraformPlan', () => {
+  it('should ignore text around the JSON', () => {
+    const parsed = parseTerraformPlan(`$ terraform show -json tfplan\n${plan([])}\n$`);
+    expect(parsed.resource_changes).toEqual([]);
+  });
+
+  it('should explain what is wrong with other input', () => {
+    expect(() => parseTerraformPlan('Plan: 1 to add')).toThrow(/not valid JSON/);
+    expect(() => parseTerraformPlan('{"values": {"root_module": {}}}')).toThrow(
+      /state, not a plan/
+    );
+    expect(() => parseTerraformPlan('{"hello": 1}')).toThrow(/not a Terraform plan/);
+  });
+
+  it('should name malformed resource changes', () => {
+    expect(() => parseTerraformPlan('{"resource_changes": [null]}')).toThrow(
+      '`resource_changes[0]` is not an object'
+    );
+    const noChange = { address: 'aws_instance.web', type: 'aws_instance', change: null };
+    expect(() => analyzeTerraformPlan(JSON.stringify({ resource_changes: [noChange] }))).toThrow(
+      '`resource_changes[0]`.change is not an object'
+    );
+    expect(() =>
+      parseTerraformPlan(
+        JSON.stringify({ resource_changes: [], resource_drift: [{ ...noChange, change: {} }] })
+      )
+    ).toThrow('`resource_drift[0]`.change.actions is not a list of actions');
+  });
+
+  it('should return malformed plans as tool errors', async () => {
+    const tool = getToolByName('analyze_terraform_plan');
+    expect(await tool?.handler({ plan: '{"resource_changes": [null]}' })).toBe(
+      'Error: `resource_changes[0]` is not an object'
+    );
+  });
+});
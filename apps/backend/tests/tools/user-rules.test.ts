@@ -0,0 +1,211 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { analyzeConfig } from '../../src/tools/config-analysis/analyzer.js';
+import { loadUserRules, parsePath } from '../../src/tools/config-analysis/user-rules.js';
+
+const TEAM_LABEL_RULES = `rules:
+  - id: ACME-K8S-001
+    type: kubernetes
+    severity: error
+    title: Deployments must set the team label
+    when: { path: kind, equals: Deployment }
+    assert: { path: 'metadata.labels["app.kubernetes.io/team"]', exists: true }
+    message: Deployment {{metadata.name}} has no app.kubernetes.io/team label.
+    fix: Add metadata.labels.app.kubernetes.io/team
+`;
+
+const DOCKER_HUB_RULES = JSON.stringify([
+  {
+    id: 'ACME-DOCKER-001',
+    type: 'docker',
+    title: 'No latest base images from Docker Hub',
+    each: 'stages[*]',
+    assert: { path: 'image', notMatches: '^(docker\\.io/)?[^./:]+(/[^./:]+)?(:latest)?$' },
+    message: 'Stage uses {{value}} from Docker Hub without a version',
+  },
+]);
+
+const S3_VERSIONING_RULES = `- id: ACME-TF-001
+  type: terraform
+  title: S3 buckets must enable versioning
+  each: resource.aws_s3_bucket.*
+  assert:
+    path: versioning[*].enabled
+    equals: true
+  message: Bucket {{key}} doesn't enable versioning.
+`;
+
+describe('user rules', () => {
+  let rulesDir: string;
+
+  const writeRules = (file: string, content: string) =>
+    fs.writeFileSync(path.join(rulesDir, file), content);
+
+  beforeEach(() => {
+    rulesDir = fs.mkdtempSync(path.join(os.tmpdir(), 'devmentorai-rules-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(rulesDir, { recursive: true, force: true });
+  });
+
+  describe('parsePath', () => {
+    it('should split keys, indexes, wildcards and quoted keys', () => {
+      expect(parsePath('spec.containers[0].image')).toEqual(['spec', 'containers', 0, 'image']);
+      expect(parsePath('metadata.labels["app.kubernetes.io/team"]')).toEqual([
+        'metadata',
+        'labels',
+        'app.kubernetes.io/team',
+      ]);
+      expect(parsePath('resource.*.x[*]')).toHaveLength(4);
+    });
+
+    it('should reject incomplete paths', () => {
+      expect(() => parsePath('spec.')).toThrow(/ends without a key/);
+      expect(() => parsePath('spec[abc]')).toThrow(/Invalid path/);
+    });
+  });
+
+  describe('loadUserRules', () => {
+    it('should return no rules when the directory is missing', () => {
+      expect(loadUserRules(path.join(rulesDir, 'missing'))).toEqual({ rules: [], errors: [] });
+    });
+
+    it('should load YAML and JSON files', () => {
+      writeRules('k8s.yaml', TEAM_LABEL_RULES);
+      writeRules('docker.json', DOCKER_HUB_RULES);
+      writeRules('notes.txt', 'ignored');
+
+      const { rules, errors } = loadUserRules(rulesDir);
+      expect(errors).toEqual([]);
+      expect(rules.map((rule) => [rule.id, rule.configType, rule.severity, rule.file])).toEqual([
+        ['ACME-DOCKER-001', 'docker', 'warning', 'docker.json'],
+        ['ACME-K8S-001', 'kubernetes', 'error', 'k8s.yaml'],
+      ]);
+    });
+
+    it('should report invalid rules and keep the valid ones', () => {
+      writeRules(
+        'mixed.yaml',
+        `rules:
+  - id: GOOD1
+    type: docker
+    title: Good
+    assert: { path: stages, exists: true }
+  - id: BAD1
+    type: docker
+    title: Two operators
+    assert: { path: stages, exists: true, equals: 1 }
+  - id: KUBE001
+    type: kubernetes
+    title: Clashes with a built-in rule
+    assert: { path: kind, exists: true }
+`
+      );
+      writeRules('broken.json', '{ not json');
+
+      const { rules, errors } = loadUserRules(rulesDir);
+      expect(rules.map((rule) => rule.id)).toEqual(['GOOD1']);
+      expect(errors).toEqual([
+        { file: 'broken.json', message: expect.any(String) },
+        { file: 'mixed.yaml', message: expect.stringContaining('Rule BAD1: assert') },
+        { file: 'mixed.yaml', message: 'Rule KUBE001: the ID is already used by another rule' },
+      ]);
+    });
+  });
+
+  describe('evaluation', () => {
+    const analyzeWith = (file: string, rules: string, content: string, disabled: string[] = []) => {
+      writeRules(file, rules);
+      const userRules = loadUserRules(rulesDir).rules;
+      const result = analyzeConfig(content, 'auto', { userRules, disabledRules: disabled });
+      return result?.findings.filter((finding) => finding.ruleId.startsWith('ACME')) ?? [];
+    };
+
+    it('should check Kubernetes documents that match `when`', () => {
+      const findings = analyzeWith(
+        'k8s.yaml',
+        TEAM_LABEL_RULES,
+        `apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: api
+  labels:
+    app: api
+---
+apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: worker
+  labels:
+    app.kubernetes.io/team: payments
+---
+apiVersion: v1
+kind: Service
+metadata:
+  name: api
+`
+      );
+      expect(findings).toEqual([
+        {
+          ruleId: 'ACME-K8S-001',
+          severity: 'error',
+          message: 'Deployment api has no app.kubernetes.io/team label.',
+          line: 1,
+          column: 1,
+          document: 1,
+          fix: 'Add metadata.labels.app.kubernetes.io/team',
+        },
+      ]);
+    });
+
+    it('should point at the offending Dockerfile stage', () => {
+      const findings = analyzeWith(
+        'docker.json',
+        DOCKER_HUB_RULES,
+        'FROM node:latest AS build\nRUN npm ci\n\nFROM ghcr.io/acme/runtime:latest\nFROM python\n'
+      );
+      expect(findings.map(({ line, message }) => [line, message])).toEqual([
+        [1, 'Stage uses node:latest from Docker Hub without a version'],
+        [5, 'Stage uses python from Docker Hub without a version'],
+      ]);
+    });
+
+    it('should check each Terraform resource', () => {
+      const findings = analyzeWith(
+        'tf.yaml',
+        S3_VERSIONING_RULES,
+        `resource "aws_s3_bucket" "logs" {
+  bucket = "acme-logs"
+}
+
+resource "aws_s3_bucket" "backups" {
+  bucket = "acme-backups"
+  versioning {
+    enabled = true
+  }
+}
+
+resource "aws_s3_bucket" "assets" {
+  versioning {
+    enabled = false
+  }
+}
+`
+      );
+      expect(findings.map(({ line, message }) => [line, message])).toEqual([
+        [1, "Bucket logs doesn't enable versioning."],
+        [14, "Bucket assets doesn't enable versioning."],
+      ]);
+    });
+
+    it('should skip disabled rules', () => {
+      const findings = analyzeWith('docker.json', DOCKER_HUB_RULES, 'FROM node\n', [
+        'ACME-DOCKER-001',
+      ]);
+      expect(findings).toEqual([]);
+    });
+  });
+});
@@ -5,7 +5,23 @@
  * Shows processing indicators, running tools, and errors.
  */
 
-import { Brain, CheckCircle, ChevronDown, ChevronUp, Loader2, Wrench, XCircle } from 'lucide-react';
+import type {
+  PermissionDecision,
+  ToolAccessDenial,
+  ToolPermissionRequest,
+} from '@devmentorai/shared';
+import {
+  Brain,
+  CheckCircle,
+  ChevronDown,
+  ChevronUp,
+  FolderPlus,
+  Loader2,
+  ShieldAlert,
+  ShieldQuestion,
+  Wrench,
+  XCircle,
+} from 'lucide-react';
 import React, { useState, useEffect } from 'react';
 
 export type ActivityStatus =
@@ -248,6 +264,150 @@ function ToolExecutionItem({ tool }: Readonly<ToolExecutionItemProps>): React.Re
   );
 }
 
+interface ToolAccessPromptProps {
+  denial: ToolAccessDenial;
+  /** Add the suggested folder to the session's workspace roots */
+  onAllow?: (denial: ToolAccessDenial) => Promise<void> | void;
+  onDismiss: (denial: ToolAccessDenial) => void;
+}
+
+/**
+ * Shown when a tool tried to read outside the session's workspace roots.
+ * Secrets can never be granted, so their prompt is informational only.
+ */
+export function ToolAccessPrompt({
+  denial,
+  onAllow,
+  onDismiss,
+}: Readonly<ToolAccessPromptProps>): React.ReactElement {
+  const [isAllowing, setIsAllowing] = useState(false);
+  const canAllow = denial.reason === 'outside_workspace' && !!denial.suggestedRoot && !!onAllow;
+
+  const handleAllow = async () => {
+    setIsAllowing(true);
+    try {
+      await onAllow?.(denial);
+    } finally {
+      setIsAllowing(false);
+    }
+  };
+
+  return (
+    <div className="border border-amber-500/30 rounded-lg p-3 bg-amber-500/5 text-sm">
+      <div className="flex items-start gap-2 text-amber-600 dark:text-amber-400">
+        <ShieldAlert className="w-4 h-4 mt-0.5 shrink-0" />
+        <div className="min-w-0 space-y-1">
+          <p className="font-medium">
+            {denial.reason === 'secret'
+              ? 'Blocked access to a secret file'
+              : 'A tool wants to access a file outside this workspace'}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            <span className="font-mono">{denial.toolName}</span> requested{' '}
+            <code className="bg-muted px-1 rounded break-all">{denial.path}</code>
+          </p>
+        </div>
+      </div>
+      <div className="flex justify-end gap-2 mt-2">
+        <button
+          type="button"
+          onClick={() => onDismiss(denial)}
+          className="px-2 py-1 text-xs rounded text-muted-foreground hover:bg-muted"
+        >
+          Dismiss
+        </button>
+        {canAllow && (
+          <button
+            type="button"
+            onClick={() => void handleAllow()}
+            disabled={isAllowing}
+            title={denial.suggestedRoot}
+            className="flex items-center gap-1 px-2 py-1 text-xs rounded bg-amber-500 text-white hover:bg-amber-600 disabled:opacity-50"
+          >
+            {isAllowing ? (
+              <Loader2 className="w-3 h-3 animate-spin" />
+            ) : (
+              <FolderPlus className="w-3 h-3" />
+            )}
+            Add folder to workspace
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface PermissionRequestCardProps {
+  request: ToolPermissionRequest;
+  onDecide: (request: ToolPermissionRequest, decision: PermissionDecision) => void;
+}
+
+/**
+ * Shown while a tool call waits for consent. The stream stays paused until one
+ * of the buttons is pressed; unanswered requests are denied by the backend.
+ */
+export function PermissionRequestCard({
+  request,
+  onDecide,
+}: Readonly<PermissionRequestCardProps>): React.ReactElement {
+  const [showArgs, setShowArgs] = useState(false);
+  const hasArgs = !!request.args && Object.keys(request.args).length > 0;
+
+  return (
+    <div className="border border-primary-500/30 rounded-lg p-3 bg-primary-500/5 text-sm">
+      <div className="flex items-start gap-2 text-primary-600 dark:text-primary-400">
+        <ShieldQuestion className="w-4 h-4 mt-0.5 shrink-0" />
+        <div className="min-w-0 space-y-1">
+          <p className="font-medium">
+            Allow <span className="font-mono">{request.toolName}</span> to run?
+          </p>
+          {request.summary && (
+            <code className="block text-xs bg-muted px-1 rounded break-all">{request.summary}</code>
+          )}
+          {hasArgs && (
+            <button
+              type="button"
+              onClick={() => setShowArgs(!showArgs)}
+              className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+            >
+              {showArgs ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+              Arguments
+            </button>
+          )}
+          {showArgs && hasArgs && (
+            <pre className="text-xs bg-muted p-2 rounded overflow-x-auto max-h-32">
+              {JSON.stringify(request.args, null, 2)}
+            </pre>
+          )}
+        </div>
+      </div>
+      <div className="flex justify-end gap-2 mt-2">
+        <button
+          type="button"
+          onClick={() => onDecide(request, 'deny')}
+          className="px-2 py-1 text-xs rounded text-muted-foreground hover:bg-muted"
+        >
+          Deny
+        </button>
+        <button
+          type="button"
+          onClick={() => onDecide(request, 'allow_session')}
+          className="px-2 py-1 text-xs rounded border border-primary-500/40 text-primary-600 dark:text-primary-400 hover:bg-primary-500/10"
+        >
+          Always for this session
+        </button>
+        <button
+          type="button"
+          onClick={() => onDecide(request, 'allow_once')}
+          className="px-2 py-1 text-xs rounded bg-primary-500 text-white hover:bg-primary-600"
+        >
+          Allow once
+        </button>
+      </div>
+    </div>
+  );
+}
+
 /**
  * Hook to manage activity state
  */
@@ -0,0 +1,111 @@
+import { KeyRound, Loader2 } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+import { ApiClient } from '../services/api-client';
+
+type PairingState = 'checking' | 'paired' | 'unpaired' | 'unreachable';
+
+/**
+ * Pairs this browser with the backend. The backend rejects every request except
+ * its health check until a code from `devmentorai-server pair` has been entered.
+ */
+export function BackendPairing() {
+  const [state, setState] = useState<PairingState>('checking');
+  const [code, setCode] = useState('');
+  const [isPairing, setIsPairing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const checkPairing = useCallback(async () => {
+    const response = await ApiClient.getInstance().getAuthStatus();
+    if (response.success) {
+      setState('paired');
+    } else if (response.error?.code === 'NETWORK_ERROR') {
+      setState('unreachable');
+    } else {
+      setState('unpaired');
+    }
+  }, []);
+
+  useEffect(() => {
+    void checkPairing();
+  }, [checkPairing]);
+
+  const handlePair = async () => {
+    if (!code.trim()) return;
+    setIsPairing(true);
+    try {
+      const response = await ApiClient.getInstance().pair(code.trim());
+      if (response.success) {
+        setCode('');
+        setError(null);
+        setState('paired');
+      } else {
+        setError(response.error?.message || 'Pairing failed');
+      }
+    } finally {
+      setIsPairing(false);
+    }
+  };
+
+  const handleUnpair = async () => {
+    await ApiClient.getInstance().unpair();
+    setState('unpaired');
+  };
+
+  if (state === 'checking' || state === 'unreachable') return null;
+
+  if (state === 'paired') {
+    return (
+      <div className="mt-4 flex items-center justify-between text-sm">
+        <span className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+          <KeyRound className="w-4 h-4 text-green-500" />
+          This browser is paired with the backend
+        </span>
+        <button
+          type="button"
+          onClick={() => void handleUnpair()}
+          className="text-sm text-gray-500 dark:text-gray-400 hover:underline"
+        >
+          Unpair
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-4">
+      <label
+        htmlFor="pairing-code"
+        className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+      >
+        Pairing code
+      </label>
+      <div className="flex gap-2">
+        <input
+          id="pairing-code"
+          type="text"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') void handlePair();
+          }}
+          className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white font-mono uppercase"
+          placeholder="ABCD-EFGH"
+          autoComplete="off"
+        />
+        <button
+          type="button"
+          onClick={() => void handlePair()}
+          disabled={isPairing || !code.trim()}
+          className="flex items-center gap-1 px-4 py-2 text-sm rounded-lg bg-primary-600 text-white hover:bg-primary-700 disabled:opacity-50"
+        >
+          {isPairing && <Loader2 className="w-4 h-4 animate-spin" />}
+          Pair
+        </button>
+      </div>
+      <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+        Run <code>devmentorai-server pair</code> on the machine running the backend.
+      </p>
+      {error && <p className="mt-1 text-sm text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  );
+}
@@ -2,9 +2,15 @@ import type {
   ContextPayload,
   ImagePayload,
   Message,
+  ModelInfo,
+  PermissionDecision,
+  Persona,
   PlatformDetection,
   Session,
+  ToolAccessDenial,
+  ToolPermissionRequest,
 } from '@devmentorai/shared';
+import { isPersonaSessionType } from '@devmentorai/shared';
 import {
   AlertTriangle,
   Brain,
@@ -20,9 +26,11 @@ import {
 } from 'lucide-react';
 import { useCallback, useEffect, useRef, useState } from 'react';
 import { useImageAttachments } from '../hooks/useImageAttachments';
+import { getSessionTypeInfo } from '../lib/session-types';
 import { cn } from '../lib/utils';
+import { PermissionRequestCard, ToolAccessPrompt } from './ActivityView';
 import { ImageAttachmentZone } from './ImageAttachmentZone';
-import { MessageBubble } from './MessageBubble';
+import { MessageBubble, getMessageElementId } from './MessageBubble';
 
 interface ChatViewProps {
   session: Session | null;
@@ -47,6 +55,25 @@ interface ChatViewProps {
   screenshotBehavior?: 'disabled' | 'ask' | 'auto';
   /** Callback to register the addImage function for external use */
   onRegisterAddImage?: (addImage: (dataUrl: string, source: 'screenshot') => Promise<void>) => void;
+  /** Message to scroll to and highlight once it is loaded (e.g. a search hit) */
+  focusMessageId?: string | null;
+  onFocusMessageHandled?: () => void;
+  /** Fork the session at a user message and continue with an edited prompt */
+  onEditAndFork?: (messageId: string, content: string) => void;
+  /** Regenerate an assistant response, optionally with another model */
+  onRegenerateMessage?: (messageId: string, model?: string) => void;
+  regeneratingMessageId?: string | null;
+  /** Models offered when regenerating a response */
+  availableModels?: ModelInfo[];
+  onSelectVariant?: (messageId: string, index: number) => void;
+  /** User-defined personas, used to show the icon of persona sessions */
+  personas?: Persona[];
+  /** File accesses refused by the session's workspace sandbox */
+  accessDenials?: ToolAccessDenial[];
+  onAllowAccess?: (denial: ToolAccessDenial) => Promise<void> | void;
+  onDismissAccessDenial?: (denial: ToolAccessDenial) => void;
+  permissionRequests?: ToolPermissionRequest[];
+  onPermissionDecision?: (request: ToolPermissionRequest, decision: PermissionDecision) => void;
 }
 
 export function ChatView({
@@ -71,10 +98,24 @@ export function ChatView({
   onCaptureScreenshot,
   screenshotBehavior = 'disabled',
   onRegisterAddImage,
+  focusMessageId,
+  onFocusMessageHandled,
+  onEditAndFork,
+  onRegenerateMessage,
+  regeneratingMessageId,
+  availableModels,
+  onSelectVariant,
+  personas = [],
+  accessDenials = [],
+  onAllowAccess,
+  onDismissAccessDenial,
+  permissionRequests = [],
+  onPermissionDecision,
 }: Readonly<ChatViewProps>) {
   const [input, setInput] = useState('');
   const [showContextPreview, setShowContextPreview] = useState(false);
   const [isCapturingScreenshot, setIsCapturingScreenshot] = useState(false);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
   const formRef = useRef<HTMLFormElement>(null);
@@ -105,6 +146,24 @@ export function ChatView({
     }
   }, [lastMessage]);
 
+  // Jump to a requested message once it is part of the loaded history
+  useEffect(() => {
+    if (!focusMessageId || !messages.some((m) => m.id === focusMessageId)) return;
+
+    document
+      .getElementById(getMessageElementId(focusMessageId))
+      ?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setHighlightedMessageId(focusMessageId);
+    onFocusMessageHandled?.();
+  }, [focusMessageId, messages, onFocusMessageHandled]);
+
+  // Fade out the search highlight after a moment
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const timer = setTimeout(() => setHighlightedMessageId(null), 2500);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId]);
+
   // Focus input when session changes
   useEffect(() => {
     if (session && !disabled) {
@@ -296,7 +355,7 @@ export function ChatView({
       case 'development':
         return '💻';
       default:
-        return '🤖';
+        return isPersonaSessionType(type) ? getSessionTypeInfo(type, personas).icon : '🤖';
     }
   };
 
@@ -416,9 +475,39 @@ export function ChatView({
             )}
           </div>
         ) : (
-          messages.map((message) => <MessageBubble key={message.id} message={message} />)
+          messages.map((message) => (
+            <MessageBubble
+              key={message.id}
+              message={message}
+              isHighlighted={message.id === highlightedMessageId}
+              onEditAndFork={isStreaming || isSending ? undefined : onEditAndFork}
+              onRegenerate={isStreaming || isSending ? undefined : onRegenerateMessage}
+              isRegenerating={message.id === regeneratingMessageId}
+              regenerateModels={availableModels?.filter((model) => model.available)}
+              onSelectVariant={regeneratingMessageId ? undefined : onSelectVariant}
+            />
+          ))
         )}
 
+        {/* Tool calls refused by the workspace sandbox */}
+        {accessDenials.map((denial) => (
+          <ToolAccessPrompt
+            key={`${denial.reason}:${denial.path}`}
+            denial={denial}
+            onAllow={onAllowAccess}
+            onDismiss={(dismissed) => onDismissAccessDenial?.(dismissed)}
+          />
+        ))}
+
+        {/* Tool calls waiting for the user's consent */}
+        {permissionRequests.map((permissionRequest) => (
+          <PermissionRequestCard
+            key={permissionRequest.requestId}
+            request={permissionRequest}
+            onDecide={(answered, decision) => onPermissionDecision?.(answered, decision)}
+          />
+        ))}
+
         {/* Sending indicator - shown when uploading images / initiating request */}
         {isSending && !isStreaming && (
           <div className="flex items-center gap-3 p-3 bg-gradient-to-r from-amber-50 to-orange-50 dark:from-amber-900/20 dark:to-orange-900/20 rounded-lg border border-amber-100 dark:border-amber-800/50">
@@ -0,0 +1,134 @@
+import type { ConfigRuleInfo, ConfigRulesResponse } from '@devmentorai/shared';
+import { RefreshCw } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+import { cn } from '../lib/utils';
+import { ApiClient } from '../services/api-client';
+
+const SEVERITY_CLASSES: Record<ConfigRuleInfo['severity'], string> = {
+  error: 'text-red-600 dark:text-red-400',
+  warning: 'text-amber-600 dark:text-amber-400',
+  info: 'text-gray-500 dark:text-gray-400',
+};
+
+/**
+ * Settings section for the rules `analyze_config` runs: the built-in checks
+ * plus the team's own rule files, each of which can be turned off.
+ */
+export function ConfigRulesSettings() {
+  const [catalog, setCatalog] = useState<ConfigRulesResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRules = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await ApiClient.getInstance().getConfigRules();
+      if (response.success && response.data) {
+        setCatalog(response.data);
+        setError(null);
+      } else {
+        setError(response.error?.message || 'Failed to load config rules');
+      }
+    } catch (err) {
+      console.error('[ConfigRulesSettings] Failed to load config rules:', err);
+      setError('Failed to load config rules');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadRules();
+  }, [loadRules]);
+
+  const handleToggle = async (ruleId: string, enabled: boolean) => {
+    const previous = catalog;
+    setCatalog((prev) =>
+      prev
+        ? {
+            ...prev,
+            rules: prev.rules.map((rule) => (rule.id === ruleId ? { ...rule, enabled } : rule)),
+          }
+        : prev
+    );
+    try {
+      const response = await ApiClient.getInstance().setConfigRuleEnabled(ruleId, enabled);
+      if (!response.success) {
+        setCatalog(previous);
+        setError(response.error?.message || 'Failed to save rule');
+      }
+    } catch (err) {
+      console.error('[ConfigRulesSettings] Failed to save rule:', err);
+      setCatalog(previous);
+      setError('Failed to save rule');
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Config Rules</h2>
+        <button
+          type="button"
+          onClick={() => void loadRules()}
+          disabled={isLoading}
+          className="flex items-center gap-1 text-sm text-primary-600 dark:text-primary-400 hover:underline disabled:opacity-50"
+        >
+          <RefreshCw className={cn('w-4 h-4', isLoading && 'animate-spin')} />
+          Refresh
+        </button>
+      </div>
+
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+        Checks the assistant runs when it analyzes Kubernetes, Docker, Terraform, CloudFormation and
+        GitHub Actions files. Add your own rules as YAML or JSON files in{' '}
+        <code className="font-mono">{catalog?.directory ?? '~/.devmentorai/rules'}</code>, then
+        refresh.
+      </p>
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400 mb-2">
+          {error}. Make sure the backend is running.
+        </p>
+      )}
+
+      {catalog?.errors.map((loadError) => (
+        <p
+          key={`${loadError.file}:${loadError.message}`}
+          className="text-xs text-amber-700 dark:text-amber-300 mb-2"
+        >
+          <span className="font-mono">{loadError.file}</span>: {loadError.message}
+        </p>
+      ))}
+
+      <div className="space-y-2 max-h-96 overflow-y-auto">
+        {catalog?.rules.map((rule) => (
+          <label key={rule.id} className="flex items-start gap-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={rule.enabled}
+              onChange={(e) => void handleToggle(rule.id, e.target.checked)}
+              className="mt-1 rounded border-gray-300 dark:border-gray-600"
+            />
+            <div className="min-w-0">
+              <p className="text-sm text-gray-900 dark:text-white">
+                <span className="font-mono">{rule.id}</span>{' '}
+                <span className={cn('text-xs', SEVERITY_CLASSES[rule.severity])}>
+                  {rule.severity}
+                </span>
+                {rule.source === 'user' && (
+                  <span className="ml-2 text-xs px-1.5 py-0.5 rounded bg-primary-50 dark:bg-primary-900/20 text-primary-600 dark:text-primary-400">
+                    {rule.file}
+                  </span>
+                )}
+              </p>
+              <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                {rule.configType} · {rule.title}
+              </p>
+            </div>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
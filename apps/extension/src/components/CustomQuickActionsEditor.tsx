@@ -0,0 +1,287 @@
+import type { CustomQuickAction } from '@devmentorai/shared';
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { QUICK_ACTION_MODEL_OPTIONS } from '../constants/models';
+import {
+  MAX_CUSTOM_QUICK_ACTIONS,
+  MAX_PROMPT_TEMPLATE_LENGTH,
+  PROMPT_TEMPLATE_VARIABLES,
+  createCustomQuickActionId,
+  loadCustomQuickActions,
+  saveCustomQuickActions,
+  validateCustomQuickAction,
+} from '../lib/custom-quick-actions';
+
+type Draft = Omit<CustomQuickAction, 'id'> & { id?: string };
+
+const EMPTY_DRAFT: Draft = {
+  name: '',
+  emoji: '⚡',
+  promptTemplate: '',
+  model: undefined,
+  replaceSelection: false,
+};
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+/**
+ * Settings section for user-defined quick actions.
+ * Changes are written to sync storage immediately, independent of the main Save button.
+ */
+export function CustomQuickActionsEditor() {
+  const [actions, setActions] = useState<CustomQuickAction[]>([]);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    void loadCustomQuickActions().then(setActions);
+  }, []);
+
+  const persist = async (next: CustomQuickAction[]) => {
+    setIsSaving(true);
+    try {
+      await saveCustomQuickActions(next);
+      setActions(next);
+      setErrors([]);
+      return true;
+    } catch (error) {
+      // Sync storage enforces per-item and total quotas
+      setErrors([error instanceof Error ? error.message : 'Failed to save custom actions']);
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!draft) return;
+
+    const validationErrors = validateCustomQuickAction(draft);
+    if (validationErrors.length > 0) {
+      setErrors(validationErrors);
+      return;
+    }
+
+    const action: CustomQuickAction = {
+      id: draft.id ?? createCustomQuickActionId(),
+      name: draft.name.trim(),
+      emoji: draft.emoji.trim(),
+      promptTemplate: draft.promptTemplate,
+      model: draft.model || undefined,
+      replaceSelection: draft.replaceSelection,
+    };
+    const next = draft.id
+      ? actions.map((existing) => (existing.id === draft.id ? action : existing))
+      : [...actions, action];
+
+    if (await persist(next)) {
+      setDraft(null);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    await persist(actions.filter((action) => action.id !== id));
+    if (draft?.id === id) setDraft(null);
+  };
+
+  const canAdd = actions.length < MAX_CUSTOM_QUICK_ACTIONS;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+          Custom Quick Actions
+        </h2>
+        {!draft && (
+          <button
+            type="button"
+            onClick={() => {
+              setErrors([]);
+              setDraft(EMPTY_DRAFT);
+            }}
+            disabled={!canAdd}
+            className="flex items-center gap-1 text-sm text-primary-600 dark:text-primary-400 hover:underline disabled:opacity-50"
+          >
+            <Plus className="w-4 h-4" />
+            Add action
+          </button>
+        )}
+      </div>
+
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+        Your own actions appear in the selection toolbar and the right-click menu. They sync across
+        browsers signed in to the same account (up to {MAX_CUSTOM_QUICK_ACTIONS}).
+      </p>
+
+      {actions.length === 0 && !draft && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No custom actions yet.</p>
+      )}
+
+      {actions.length > 0 && (
+        <ul className="divide-y divide-gray-100 dark:divide-gray-700 mb-4">
+          {actions.map((action) => (
+            <li key={action.id} className="flex items-center gap-3 py-2">
+              <span className="text-lg">{action.emoji}</span>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                  {action.name}
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                  {action.replaceSelection ? 'Replaces selection' : 'Opens in side panel'}
+                  {action.model ? ` • ${action.model}` : ''}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => {
+                  setErrors([]);
+                  setDraft(action);
+                }}
+                className="p-1.5 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+                title="Edit"
+              >
+                <Pencil className="w-4 h-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => void handleDelete(action.id)}
+                disabled={isSaving}
+                className="p-1.5 text-gray-400 hover:text-red-500 disabled:opacity-50"
+                title="Delete"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {draft && (
+        <div className="space-y-4 bg-gray-50 dark:bg-gray-700/50 rounded-lg p-4">
+          <div className="flex gap-2">
+            <div className="w-20">
+              <label
+                htmlFor="custom-action-emoji"
+                className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+              >
+                Emoji
+              </label>
+              <input
+                id="custom-action-emoji"
+                type="text"
+                value={draft.emoji}
+                maxLength={8}
+                onChange={(e) => setDraft({ ...draft, emoji: e.target.value })}
+                className={`${inputClassName} text-center`}
+              />
+            </div>
+            <div className="flex-1">
+              <label
+                htmlFor="custom-action-name"
+                className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+              >
+                Name
+              </label>
+              <input
+                id="custom-action-name"
+                type="text"
+                value={draft.name}
+                maxLength={40}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                className={inputClassName}
+                placeholder="Convert to SQL"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label
+              htmlFor="custom-action-template"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+            >
+              Prompt Template
+            </label>
+            <textarea
+              id="custom-action-template"
+              value={draft.promptTemplate}
+              maxLength={MAX_PROMPT_TEMPLATE_LENGTH}
+              rows={4}
+              onChange={(e) => setDraft({ ...draft, promptTemplate: e.target.value })}
+              className={`${inputClassName} font-mono text-sm`}
+              placeholder={'Convert the following description into a SQL query:\n\n{{selection}}'}
+            />
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              Variables: {PROMPT_TEMPLATE_VARIABLES.map((name) => `{{${name}}}`).join(', ')}. The
+              selection is appended when the template does not use {'{{selection}}'}.
+            </p>
+          </div>
+
+          <div>
+            <label
+              htmlFor="custom-action-model"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+            >
+              Model
+            </label>
+            <select
+              id="custom-action-model"
+              value={draft.model ?? ''}
+              onChange={(e) => setDraft({ ...draft, model: e.target.value || undefined })}
+              className={inputClassName}
+            >
+              <option value="">Use Quick Action Model</option>
+              {QUICK_ACTION_MODEL_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              Applies when the result replaces the selection inline
+            </p>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={draft.replaceSelection}
+              onChange={(e) => setDraft({ ...draft, replaceSelection: e.target.checked })}
+            />
+            Replace the selection in editable fields
+          </label>
+
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => {
+                setDraft(null);
+                setErrors([]);
+              }}
+              className="px-4 py-1.5 text-sm text-gray-700 dark:text-gray-300 hover:underline"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={() => void handleSubmit()}
+              disabled={isSaving}
+              className="px-4 py-1.5 text-sm bg-primary-600 hover:bg-primary-700 text-white rounded-lg disabled:opacity-50"
+            >
+              {draft.id ? 'Update action' : 'Add action'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {errors.length > 0 && (
+        <ul className="mt-3 text-sm text-red-600 dark:text-red-400 space-y-1">
+          {errors.map((error) => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,20 @@
-import type { CopilotAuthStatus, CopilotQuotaStatus } from '@devmentorai/shared';
-import { HelpCircle, Loader2, Plus, Settings, User, Wifi, WifiOff } from 'lucide-react';
+import type {
+  CopilotAuthStatus,
+  CopilotQuotaStatus,
+  SessionExportFormat,
+} from '@devmentorai/shared';
+import {
+  Download,
+  HelpCircle,
+  Loader2,
+  Plus,
+  Settings,
+  Upload,
+  User,
+  Wifi,
+  WifiOff,
+} from 'lucide-react';
+import { useRef, useState } from 'react';
 import { cn } from '../lib/utils';
 
 interface HeaderProps {
@@ -10,8 +25,18 @@ interface HeaderProps {
   onOpenSettings?: () => void;
   onOpenHelp?: () => void; // D.2
   onViewPage?: () => void; // D.1
+  /** Export the active session; omitted when there is nothing to export */
+  onExportSession?: (format: SessionExportFormat) => void;
+  /** Import a session from a previously exported JSON file */
+  onImportSession?: (file: File) => void;
 }
 
+const EXPORT_FORMAT_OPTIONS: Array<{ format: SessionExportFormat; label: string }> = [
+  { format: 'md', label: 'Markdown (.md)' },
+  { format: 'html', label: 'HTML (.html)' },
+  { format: 'json', label: 'JSON (.json)' },
+];
+
 function formatQuota(status?: CopilotQuotaStatus | null): string | null {
   if (!status) return null;
 
@@ -41,7 +66,12 @@ export function Header({
   onOpenSettings,
   onOpenHelp,
   onViewPage: _onViewPage,
+  onExportSession,
+  onImportSession,
 }: Readonly<HeaderProps>) {
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
   const statusConfig = {
     connecting: {
       icon: Loader2,
@@ -143,6 +173,73 @@ export function Header({
           </span>
         </button>
 
+        {onExportSession && (
+          <div className="relative">
+            <button
+              type="button"
+              onClick={() => setShowExportMenu(!showExportMenu)}
+              className="p-1.5 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+              title="Export conversation"
+              aria-label="Export conversation"
+              aria-expanded={showExportMenu}
+            >
+              <Download className="w-4.5 h-4.5" />
+            </button>
+
+            {showExportMenu && (
+              <>
+                <button
+                  type="button"
+                  className="fixed inset-0 z-10 cursor-default"
+                  onClick={() => setShowExportMenu(false)}
+                  aria-label="Close export menu"
+                />
+                <div className="absolute right-0 z-20 mt-1 w-40 py-1 bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700">
+                  {EXPORT_FORMAT_OPTIONS.map(({ format, label }) => (
+                    <button
+                      key={format}
+                      type="button"
+                      onClick={() => {
+                        setShowExportMenu(false);
+                        onExportSession(format);
+                      }}
+                      className="block w-full px-3 py-1.5 text-left text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700/50"
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        {onImportSession && (
+          <>
+            <button
+              type="button"
+              onClick={() => importInputRef.current?.click()}
+              className="p-1.5 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+              title="Import conversation (JSON)"
+              aria-label="Import conversation"
+            >
+              <Upload className="w-4.5 h-4.5" />
+            </button>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onImportSession(file);
+                // Reset so picking the same file again still triggers onChange
+                e.target.value = '';
+              }}
+            />
+          </>
+        )}
+
         <button
           type="button"
           onClick={onOpenSettings}
@@ -1,31 +1,77 @@
-import type { ImageAttachment, Message } from '@devmentorai/shared';
+import type { ImageAttachment, Message, ModelInfo } from '@devmentorai/shared';
 import {
   AlertTriangle,
   Bot,
   Check,
+  ChevronDown,
+  ChevronLeft,
+  ChevronRight,
   Copy,
+  GitBranch,
   Image as ImageIcon,
+  Loader2,
+  Pencil,
+  RefreshCw,
   Replace,
   User,
   Wrench,
+  X,
 } from 'lucide-react';
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { cn } from '../lib/utils';
+import { ApiClient } from '../services/api-client';
 import { ImageLightbox } from './ImageLightbox';
 import { ImageThumbnail } from './ImageThumbnail';
 
 interface MessageBubbleProps {
   message: Message;
   onReplaceText?: (text: string) => void; // D.3, D.4 - Callback to replace selected text
+  /** Briefly emphasize this message (e.g. after jumping to a search hit) */
+  isHighlighted?: boolean;
+  /** Fork the conversation at this user message and send the edited prompt in the new session */
+  onEditAndFork?: (messageId: string, content: string) => void;
+  /** Generate another response for this assistant message (optionally with another model) */
+  onRegenerate?: (messageId: string, model?: string) => void;
+  isRegenerating?: boolean;
+  /** Models offered in the "Regenerate with" menu */
+  regenerateModels?: ModelInfo[];
+  /** Show a different stored response variant */
+  onSelectVariant?: (messageId: string, index: number) => void;
 }
 
-export function MessageBubble({ message, onReplaceText }: Readonly<MessageBubbleProps>) {
+/** DOM id used to scroll a message into view */
+export function getMessageElementId(messageId: string): string {
+  return `message-${messageId}`;
+}
+
+export function MessageBubble({
+  message,
+  onReplaceText,
+  isHighlighted = false,
+  onEditAndFork,
+  onRegenerate,
+  isRegenerating = false,
+  regenerateModels = [],
+  onSelectVariant,
+}: Readonly<MessageBubbleProps>) {
   const [copied, setCopied] = useState(false);
   const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [editedContent, setEditedContent] = useState(message.content);
+  const [showModelMenu, setShowModelMenu] = useState(false);
+  const editTextareaRef = useRef<HTMLTextAreaElement>(null);
   const isUser = message.role === 'user';
   const isSystem = message.role === 'system';
   const images = message.metadata?.images || [];
   const hasImages = images.length > 0;
+  const variants = message.metadata?.variants || [];
+  const activeVariant = message.metadata?.activeVariant ?? variants.length - 1;
+  const activeVariantModel = variants[activeVariant]?.model;
+
+  // Editing was explicitly requested, so move focus into the textarea
+  useEffect(() => {
+    if (isEditing) editTextareaRef.current?.focus();
+  }, [isEditing]);
 
   // Don't render empty assistant messages (A.2 fix) - but allow if has images
   if (message.role === 'assistant' && !message.content.trim() && !hasImages) {
@@ -61,6 +107,18 @@ export function MessageBubble({ message, onReplaceText }: Readonly<MessageBubble
     }
   };
 
+  const startEditing = () => {
+    setEditedContent(message.content);
+    setIsEditing(true);
+  };
+
+  const handleForkSubmit = () => {
+    const content = editedContent.trim();
+    if (!content || !onEditAndFork) return;
+    setIsEditing(false);
+    onEditAndFork(message.id, content);
+  };
+
   const openLightbox = (index: number) => {
     setLightboxIndex(index);
   };
@@ -71,12 +129,19 @@ export function MessageBubble({ message, onReplaceText }: Readonly<MessageBubble
 
   // Get image source for display (prefer thumbnailUrl, fallback to dataUrl)
   const getImageSrc = (img: ImageAttachment): string => {
-    return img.thumbnailUrl || img.dataUrl || '';
+    return img.thumbnailUrl ? ApiClient.authorizeImageUrl(img.thumbnailUrl) : img.dataUrl || '';
   };
 
   return (
     <>
-      <div className={cn('flex gap-3', isUser ? 'flex-row-reverse' : 'flex-row')}>
+      <div
+        id={getMessageElementId(message.id)}
+        className={cn(
+          'flex gap-3 rounded-lg transition-shadow',
+          isUser ? 'flex-row-reverse' : 'flex-row',
+          isHighlighted && 'ring-2 ring-amber-400 ring-offset-4 dark:ring-offset-gray-900'
+        )}
+      >
         {/* Avatar */}
         <div
           className={cn(
@@ -124,10 +189,29 @@ export function MessageBubble({ message, onReplaceText }: Readonly<MessageBubble
             )}
 
             {/* Text content */}
-            {message.content && (
-              <div className="text-sm whitespace-pre-wrap break-words">
-                {formatContent(message.content)}
-              </div>
+            {isEditing ? (
+              <textarea
+                ref={editTextareaRef}
+                value={editedContent}
+                onChange={(e) => setEditedContent(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && !e.shiftKey) {
+                    e.preventDefault();
+                    handleForkSubmit();
+                  } else if (e.key === 'Escape') {
+                    setIsEditing(false);
+                  }
+                }}
+                rows={Math.min(Math.max(editedContent.split('\n').length, 2), 8)}
+                aria-label="Edit message"
+                className="w-64 max-w-full text-sm bg-white/10 text-white placeholder-white/60 rounded-md p-2 resize-none focus:outline-none focus:ring-1 focus:ring-white/70"
+              />
+            ) : (
+              message.content && (
+                <div className="text-sm whitespace-pre-wrap break-words">
+                  {formatContent(message.content)}
+                </div>
+              )
             )}
 
             {/* Error display */}
@@ -171,6 +255,100 @@ export function MessageBubble({ message, onReplaceText }: Readonly<MessageBubble
                 <span>{copied ? 'Copied!' : 'Copy'}</span>
               </button>
 
+              {onRegenerate && (
+                <div className="relative flex items-center">
+                  <button
+                    type="button"
+                    onClick={() => onRegenerate(message.id)}
+                    disabled={isRegenerating}
+                    className="flex items-center gap-1 pl-2 pr-1 py-1 text-xs text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-l transition-colors disabled:opacity-60"
+                    title="Generate another response"
+                  >
+                    {isRegenerating ? (
+                      <Loader2 className="w-3 h-3 animate-spin" />
+                    ) : (
+                      <RefreshCw className="w-3 h-3" />
+                    )}
+                    <span>{isRegenerating ? 'Regenerating...' : 'Regenerate'}</span>
+                  </button>
+                  {regenerateModels.length > 0 && (
+                    <button
+                      type="button"
+                      onClick={() => setShowModelMenu(!showModelMenu)}
+                      disabled={isRegenerating}
+                      className="px-1 py-1 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-r transition-colors disabled:opacity-60"
+                      title="Regenerate with another model"
+                      aria-label="Regenerate with another model"
+                    >
+                      <ChevronDown className="w-3 h-3" />
+                    </button>
+                  )}
+
+                  {showModelMenu && (
+                    <>
+                      <button
+                        type="button"
+                        className="fixed inset-0 z-10"
+                        onClick={() => setShowModelMenu(false)}
+                        aria-label="Close model menu"
+                      />
+                      <div className="absolute left-0 top-full z-20 mt-1 w-52 max-h-56 overflow-y-auto bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 py-1">
+                        <p className="px-3 py-1 text-[11px] uppercase tracking-wide text-gray-400">
+                          Regenerate with
+                        </p>
+                        {regenerateModels.map((model) => (
+                          <button
+                            key={model.id}
+                            type="button"
+                            onClick={() => {
+                              setShowModelMenu(false);
+                              onRegenerate(message.id, model.id);
+                            }}
+                            className="block w-full px-3 py-1.5 text-left text-xs text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700/50 truncate"
+                          >
+                            {model.name}
+                          </button>
+                        ))}
+                      </div>
+                    </>
+                  )}
+                </div>
+              )}
+
+              {/* Flip between regenerated responses */}
+              {variants.length > 1 && (
+                <div className="flex items-center gap-0.5 text-xs text-gray-500 dark:text-gray-400">
+                  <button
+                    type="button"
+                    onClick={() => onSelectVariant?.(message.id, activeVariant - 1)}
+                    disabled={!onSelectVariant || activeVariant <= 0}
+                    className="p-1 hover:text-gray-700 dark:hover:text-gray-200 disabled:opacity-40"
+                    aria-label="Previous response"
+                  >
+                    <ChevronLeft className="w-3 h-3" />
+                  </button>
+                  <span
+                    title={activeVariantModel ? `Generated by ${activeVariantModel}` : undefined}
+                  >
+                    {activeVariant + 1}/{variants.length}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => onSelectVariant?.(message.id, activeVariant + 1)}
+                    disabled={!onSelectVariant || activeVariant >= variants.length - 1}
+                    className="p-1 hover:text-gray-700 dark:hover:text-gray-200 disabled:opacity-40"
+                    aria-label="Next response"
+                  >
+                    <ChevronRight className="w-3 h-3" />
+                  </button>
+                  {activeVariantModel && (
+                    <span className="ml-1 text-gray-400 dark:text-gray-500">
+                      {activeVariantModel}
+                    </span>
+                  )}
+                </div>
+              )}
+
               {isReplaceableAction && onReplaceText && (
                 <button
                   type="button"
@@ -185,6 +363,44 @@ export function MessageBubble({ message, onReplaceText }: Readonly<MessageBubble
             </div>
           )}
 
+          {/* Edit & fork for user messages */}
+          {isUser && onEditAndFork && (
+            <div className="flex items-center gap-1 mt-1">
+              {isEditing ? (
+                <>
+                  <button
+                    type="button"
+                    onClick={() => setIsEditing(false)}
+                    className="flex items-center gap-1 px-2 py-1 text-xs text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 rounded transition-colors"
+                  >
+                    <X className="w-3 h-3" />
+                    <span>Cancel</span>
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleForkSubmit}
+                    disabled={!editedContent.trim()}
+                    className="flex items-center gap-1 px-2 py-1 text-xs text-primary-600 hover:text-primary-700 dark:text-primary-400 dark:hover:text-primary-300 hover:bg-primary-50 dark:hover:bg-primary-900/20 rounded transition-colors disabled:opacity-50"
+                    title="Start a new session from this point with the edited message"
+                  >
+                    <GitBranch className="w-3 h-3" />
+                    <span>Fork & send</span>
+                  </button>
+                </>
+              ) : (
+                <button
+                  type="button"
+                  onClick={startEditing}
+                  className="flex items-center gap-1 px-2 py-1 text-xs text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 rounded transition-colors"
+                  title="Edit this message and continue in a forked session"
+                >
+                  <Pencil className="w-3 h-3" />
+                  <span>Edit & fork</span>
+                </button>
+              )}
+            </div>
+          )}
+
           {/* Timestamp */}
           <span className="text-xs text-gray-400 dark:text-gray-500 mt-1">
             {formatTime(message.timestamp)}
@@ -207,7 +423,8 @@ export function MessageBubble({ message, onReplaceText }: Readonly<MessageBubble
         <ImageLightbox
           images={images.map((img) => ({
             thumbnailSrc: getImageSrc(img),
-            fullSrc: img.fullImageUrl, // Will load full image, fallback to thumbnail
+            // Will load full image, fallback to thumbnail
+            fullSrc: img.fullImageUrl && ApiClient.authorizeImageUrl(img.fullImageUrl),
             alt: `Image from ${img.source}`,
             source: img.source,
           }))}
@@ -228,8 +445,10 @@ function formatAction(action: string): string {
     summarize: 'Summarizing',
     expand: 'Expanding',
     analyze_config: 'Analyzing config',
+    analyze_iam_policy: 'Analyzing IAM policy',
     diagnose_error: 'Diagnosing error',
   };
+  if (action.startsWith('custom:')) return 'Custom action';
   return actions[action] || action;
 }
 
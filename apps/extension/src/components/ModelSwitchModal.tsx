@@ -31,7 +31,7 @@ export function ModelSwitchModal({
 
   const fetchModels = async () => {
     try {
-      const response = await apiClient.getModels();
+      const response = await apiClient.getModels(session.provider);
       if (response.success && response.data) {
         setModels(response.data.models);
       }
@@ -1,9 +1,19 @@
-import type { ModelInfo, ReasoningEffort, SessionType } from '@devmentorai/shared';
-import { DEFAULT_CONFIG, SESSION_TYPE_CONFIGS } from '@devmentorai/shared';
-import { ChevronDown, X } from 'lucide-react';
+import type {
+  CreatePersonaRequest,
+  LlmProviderId,
+  LlmProviderInfo,
+  ModelInfo,
+  Persona,
+  ReasoningEffort,
+  SessionType,
+} from '@devmentorai/shared';
+import { DEFAULT_CONFIG, SESSION_TYPE_CONFIGS, toPersonaSessionType } from '@devmentorai/shared';
+import { ChevronDown, FolderOpen, Plus, X } from 'lucide-react';
 import { type FormEvent, useEffect, useRef, useState } from 'react';
+import { getSessionTypeInfo } from '../lib/session-types';
 import { cn } from '../lib/utils';
 import { ApiClient } from '../services/api-client';
+import { PersonaEditor } from './PersonaEditor';
 import { ReasoningEffortSelector } from './ReasoningEffortSelector';
 
 // D.5 - Pricing tier display
@@ -26,33 +36,68 @@ const PRICING_BADGES: Record<string, { label: string; color: string }> = {
   },
 };
 
+// POSIX or Windows drive path; the backend resolves and validates it
+const ABSOLUTE_PATH = /^(\/|[A-Za-z]:[\\/])/;
+
 interface NewSessionModalProps {
   onClose: () => void;
   onSubmit: (
     name: string,
     type: SessionType,
     model?: string,
-    reasoningEffort?: ReasoningEffort
+    reasoningEffort?: ReasoningEffort,
+    provider?: LlmProviderId,
+    workspaceRoots?: string[]
   ) => Promise<void> | void;
+  /** User-defined personas offered next to the built-in session types */
+  personas?: Persona[];
+  /** Create a persona from the modal; the new persona is selected afterwards */
+  onCreatePersona?: (data: CreatePersonaRequest) => Promise<Persona>;
 }
 
-export function NewSessionModal({ onClose, onSubmit }: Readonly<NewSessionModalProps>) {
+export function NewSessionModal({
+  onClose,
+  onSubmit,
+  personas = [],
+  onCreatePersona,
+}: Readonly<NewSessionModalProps>) {
   const [name, setName] = useState('');
   const [type, setType] = useState<SessionType>('devops');
+  const [isCreatingPersona, setIsCreatingPersona] = useState(false);
   const [model, setModel] = useState<string>('gpt-5-mini');
   const [reasoningEffort, setReasoningEffort] = useState<ReasoningEffort>('medium');
   const [models, setModels] = useState<ModelInfo[]>([]);
+  const [providers, setProviders] = useState<LlmProviderInfo[]>([]);
+  const [provider, setProvider] = useState<LlmProviderId>('copilot');
   const [showModelPicker, setShowModelPicker] = useState(false);
   const [modelSearch, setModelSearch] = useState('');
+  const [workspaceRoots, setWorkspaceRoots] = useState<string[]>([]);
+  const [rootInput, setRootInput] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const nameInputRef = useRef<HTMLInputElement>(null);
 
-  // Fetch available models
+  // Fetch configured LLM providers; the picker only shows when more than one is usable
+  useEffect(() => {
+    const fetchProviders = async () => {
+      try {
+        const apiClient = new ApiClient(`http://localhost:${DEFAULT_CONFIG.DEFAULT_PORT}`);
+        const response = await apiClient.getProviders();
+        if (response.success && response.data) {
+          setProviders(response.data);
+        }
+      } catch (error) {
+        console.error('Failed to fetch providers:', error);
+      }
+    };
+    fetchProviders();
+  }, []);
+
+  // Fetch available models for the selected provider
   useEffect(() => {
     const fetchModels = async () => {
       try {
         const apiClient = new ApiClient(`http://localhost:${DEFAULT_CONFIG.DEFAULT_PORT}`);
-        const response = await apiClient.getModels();
+        const response = await apiClient.getModels(provider);
         if (response.success && response.data) {
           setModels(response.data.models);
           setModel(response.data.default);
@@ -62,7 +107,7 @@ export function NewSessionModal({ onClose, onSubmit }: Readonly<NewSessionModalP
       }
     };
     fetchModels();
-  }, []);
+  }, [provider]);
 
   const selectedModel = models.find((m) => m.id === model);
 
@@ -90,20 +135,62 @@ export function NewSessionModal({ onClose, onSubmit }: Readonly<NewSessionModalP
       const supportsReasoning =
         selectedModelInfo?.supportedReasoningEfforts &&
         selectedModelInfo.supportedReasoningEfforts.length > 0;
-      await onSubmit(name.trim(), type, model, supportsReasoning ? reasoningEffort : undefined);
+      await onSubmit(
+        name.trim(),
+        type,
+        model,
+        supportsReasoning ? reasoningEffort : undefined,
+        provider,
+        workspaceRoots.length > 0 ? workspaceRoots : undefined
+      );
     } finally {
       setIsSubmitting(false);
     }
   };
 
-  const sessionTypes = Object.entries(SESSION_TYPE_CONFIGS) as [
-    SessionType,
-    (typeof SESSION_TYPE_CONFIGS)[SessionType],
-  ][];
+  const trimmedRoot = rootInput.trim();
+  const canAddRoot = ABSOLUTE_PATH.test(trimmedRoot) && !workspaceRoots.includes(trimmedRoot);
+
+  const addWorkspaceRoot = () => {
+    if (!canAddRoot) return;
+    setWorkspaceRoots((prev) => [...prev, trimmedRoot]);
+    setRootInput('');
+  };
+
+  const selectType = (nextType: SessionType, persona?: Persona) => {
+    setType(nextType);
+    // Personas can suggest a model; the user can still pick another one below.
+    // Their default model names a Copilot model, so other providers keep their own.
+    if (persona?.defaultModel && provider === 'copilot') {
+      setModel(persona.defaultModel);
+    }
+  };
+
+  const handleCreatePersona = async (data: CreatePersonaRequest) => {
+    if (!onCreatePersona) return;
+    const persona = await onCreatePersona(data);
+    selectType(toPersonaSessionType(persona.id), persona);
+    setIsCreatingPersona(false);
+  };
+
+  const sessionTypes: Array<{ key: SessionType; icon: string; name: string; persona?: Persona }> = [
+    ...Object.entries(SESSION_TYPE_CONFIGS).map(([key, config]) => ({
+      key: key as SessionType,
+      icon: config.icon,
+      name: config.name,
+    })),
+    ...personas.map((persona) => ({
+      key: toPersonaSessionType(persona.id),
+      icon: persona.icon,
+      name: persona.name,
+      persona,
+    })),
+  ];
   const supportsReasoning =
     selectedModel?.supportedReasoningEfforts && selectedModel.supportedReasoningEfforts.length > 0;
   const supportedReasoningEfforts = (selectedModel?.supportedReasoningEfforts ||
     []) as ReasoningEffort[];
+  const selectableProviders = providers.filter((item) => item.available || item.id === 'copilot');
   const normalizedQuery = modelSearch.trim().toLowerCase();
   const filteredModels = normalizedQuery
     ? models.filter((modelItem) => {
@@ -133,7 +220,9 @@ export function NewSessionModal({ onClose, onSubmit }: Readonly<NewSessionModalP
       <div className="relative w-full max-w-md bg-white dark:bg-gray-800 rounded-xl shadow-xl max-h-[90vh] overflow-y-auto">
         {/* Header */}
         <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 dark:border-gray-700">
-          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">New Session</h2>
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+            {isCreatingPersona ? 'New Persona' : 'New Session'}
+          </h2>
           <button
             type="button"
             onClick={onClose}
@@ -143,201 +232,311 @@ export function NewSessionModal({ onClose, onSubmit }: Readonly<NewSessionModalP
           </button>
         </div>
 
-        {/* Form */}
-        <form onSubmit={handleSubmit} className="p-6 space-y-6">
-          {/* Session name */}
-          <div>
-            <label
-              htmlFor="session-name"
-              className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
-            >
-              Session Name
-            </label>
-            <input
-              ref={nameInputRef}
-              id="session-name"
-              type="text"
-              value={name}
-              onChange={(e) => setName(e.target.value)}
-              placeholder="e.g., AWS Migration, Email Draft"
-              className="input"
+        {isCreatingPersona ? (
+          <div className="p-6">
+            <PersonaEditor
+              onSave={handleCreatePersona}
+              onCancel={() => setIsCreatingPersona(false)}
             />
           </div>
+        ) : (
+          /* Form */
+          <form onSubmit={handleSubmit} className="p-6 space-y-6">
+            {/* Session name */}
+            <div>
+              <label
+                htmlFor="session-name"
+                className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+              >
+                Session Name
+              </label>
+              <input
+                ref={nameInputRef}
+                id="session-name"
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g., AWS Migration, Email Draft"
+                className="input"
+              />
+            </div>
 
-          {/* Session type */}
-          <div>
-            <p className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-              Session Type
-            </p>
-            <div className="grid grid-cols-2 gap-2">
-              {sessionTypes.map(([typeKey, config]) => (
+            {/* Session type */}
+            <div>
+              <p className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Session Type
+              </p>
+              <div className="grid grid-cols-2 gap-2">
+                {sessionTypes.map(({ key: typeKey, persona, ...config }) => (
+                  <button
+                    key={typeKey}
+                    type="button"
+                    onClick={() => selectType(typeKey, persona)}
+                    className={cn(
+                      'flex items-center gap-3 p-3 rounded-lg border-2 transition-colors text-left',
+                      type === typeKey
+                        ? 'border-primary-500 bg-primary-50 dark:bg-primary-900/20'
+                        : 'border-gray-200 dark:border-gray-700 hover:border-gray-300 dark:hover:border-gray-600'
+                    )}
+                  >
+                    <span className="text-2xl">{config.icon}</span>
+                    <div>
+                      <p
+                        className={cn(
+                          'font-medium text-sm',
+                          type === typeKey
+                            ? 'text-primary-700 dark:text-primary-300'
+                            : 'text-gray-900 dark:text-white'
+                        )}
+                      >
+                        {config.name}
+                      </p>
+                    </div>
+                  </button>
+                ))}
+                {onCreatePersona && (
+                  <button
+                    type="button"
+                    onClick={() => setIsCreatingPersona(true)}
+                    className="flex items-center gap-3 p-3 rounded-lg border-2 border-dashed border-gray-200 dark:border-gray-700 hover:border-gray-300 dark:hover:border-gray-600 transition-colors text-left text-sm text-gray-500 dark:text-gray-400"
+                  >
+                    <Plus className="w-5 h-5" />
+                    New persona
+                  </button>
+                )}
+              </div>
+            </div>
+
+            {/* Provider selector - only when a second provider is configured */}
+            {selectableProviders.length > 1 && (
+              <div>
+                <label
+                  htmlFor="session-provider"
+                  className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+                >
+                  Provider
+                </label>
+                <select
+                  id="session-provider"
+                  value={provider}
+                  onChange={(e) => setProvider(e.target.value as LlmProviderId)}
+                  className="input"
+                >
+                  {selectableProviders.map((item) => (
+                    <option key={item.id} value={item.id}>
+                      {item.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {/* Model selector */}
+            <div>
+              <p className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                AI Model
+              </p>
+              <div className="relative">
                 <button
-                  key={typeKey}
                   type="button"
-                  onClick={() => setType(typeKey)}
-                  className={cn(
-                    'flex items-center gap-3 p-3 rounded-lg border-2 transition-colors text-left',
-                    type === typeKey
-                      ? 'border-primary-500 bg-primary-50 dark:bg-primary-900/20'
-                      : 'border-gray-200 dark:border-gray-700 hover:border-gray-300 dark:hover:border-gray-600'
-                  )}
+                  onClick={() => setShowModelPicker(!showModelPicker)}
+                  className="w-full flex items-center justify-between px-4 py-3 border border-gray-200 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-900 text-left hover:border-gray-300 dark:hover:border-gray-600 transition-colors"
                 >
-                  <span className="text-2xl">{config.icon}</span>
                   <div>
-                    <p
-                      className={cn(
-                        'font-medium text-sm',
-                        type === typeKey
-                          ? 'text-primary-700 dark:text-primary-300'
-                          : 'text-gray-900 dark:text-white'
-                      )}
-                    >
-                      {config.name}
+                    <p className="font-medium text-sm text-gray-900 dark:text-white">
+                      {selectedModel?.name || model}
                     </p>
+                    {selectedModel && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {selectedModel.description}
+                      </p>
+                    )}
                   </div>
+                  <ChevronDown
+                    className={cn(
+                      'w-5 h-5 text-gray-400 transition-transform',
+                      showModelPicker && 'rotate-180'
+                    )}
+                  />
                 </button>
-              ))}
-            </div>
-          </div>
 
-          {/* Model selector */}
-          <div>
-            <p className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-              AI Model
-            </p>
-            <div className="relative">
-              <button
-                type="button"
-                onClick={() => setShowModelPicker(!showModelPicker)}
-                className="w-full flex items-center justify-between px-4 py-3 border border-gray-200 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-900 text-left hover:border-gray-300 dark:hover:border-gray-600 transition-colors"
-              >
-                <div>
-                  <p className="font-medium text-sm text-gray-900 dark:text-white">
-                    {selectedModel?.name || model}
-                  </p>
-                  {selectedModel && (
-                    <p className="text-xs text-gray-500 dark:text-gray-400">
-                      {selectedModel.description}
-                    </p>
-                  )}
-                </div>
-                <ChevronDown
-                  className={cn(
-                    'w-5 h-5 text-gray-400 transition-transform',
-                    showModelPicker && 'rotate-180'
-                  )}
-                />
-              </button>
+                {showModelPicker && (
+                  <div className="absolute top-full left-0 right-0 mt-2 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg z-10 max-h-72 overflow-y-auto">
+                    <div className="sticky top-0 px-3 py-2 border-b border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
+                      <input
+                        type="text"
+                        value={modelSearch}
+                        onChange={(event) => setModelSearch(event.target.value)}
+                        placeholder="Search models..."
+                        className="w-full px-2.5 py-1.5 text-xs rounded-md border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900 focus:outline-none focus:ring-1 focus:ring-primary-500"
+                      />
+                    </div>
 
-              {showModelPicker && (
-                <div className="absolute top-full left-0 right-0 mt-2 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg z-10 max-h-72 overflow-y-auto">
-                  <div className="sticky top-0 px-3 py-2 border-b border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
-                    <input
-                      type="text"
-                      value={modelSearch}
-                      onChange={(event) => setModelSearch(event.target.value)}
-                      placeholder="Search models..."
-                      className="w-full px-2.5 py-1.5 text-xs rounded-md border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900 focus:outline-none focus:ring-1 focus:ring-primary-500"
-                    />
-                  </div>
-
-                  {filteredModels.length === 0 && (
-                    <p className="px-4 py-2 text-xs text-gray-500 dark:text-gray-400">
-                      No models found
-                    </p>
-                  )}
+                    {filteredModels.length === 0 && (
+                      <p className="px-4 py-2 text-xs text-gray-500 dark:text-gray-400">
+                        No models found
+                      </p>
+                    )}
 
-                  {/* D.5 - Group models by pricing tier */}
-                  {['free', 'cheap', 'standard', 'premium'].map((tier) => {
-                    const tierModels = filteredModels.filter(
-                      (m) => m.pricingTier === tier || (!m.pricingTier && tier === 'standard')
-                    );
-                    if (tierModels.length === 0) return null;
+                    {/* D.5 - Group models by pricing tier */}
+                    {['free', 'cheap', 'standard', 'premium'].map((tier) => {
+                      const tierModels = filteredModels.filter(
+                        (m) => m.pricingTier === tier || (!m.pricingTier && tier === 'standard')
+                      );
+                      if (tierModels.length === 0) return null;
 
-                    return (
-                      <div key={tier}>
-                        <div className="px-3 py-1.5 bg-gray-50 dark:bg-gray-900 border-b border-gray-200 dark:border-gray-700">
-                          <span
-                            className={cn(
-                              'text-xs font-medium px-2 py-0.5 rounded-full',
-                              PRICING_BADGES[tier]?.color || PRICING_BADGES.standard.color
-                            )}
-                          >
-                            {PRICING_BADGES[tier]?.label || 'Standard'}
-                          </span>
-                        </div>
-                        {tierModels.map((m) => (
-                          <button
-                            key={m.id}
-                            type="button"
-                            onClick={() => {
-                              setModel(m.id);
-                              setShowModelPicker(false);
-                              setModelSearch('');
-                            }}
-                            className={cn(
-                              'w-full px-4 py-2.5 text-left hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors',
-                              model === m.id && 'bg-primary-50 dark:bg-primary-900/20'
-                            )}
-                          >
-                            <div className="flex items-center justify-between">
-                              <div>
-                                <p className="font-medium text-sm text-gray-900 dark:text-white">
-                                  {m.name}
-                                </p>
-                                <p className="text-xs text-gray-500 dark:text-gray-400">
-                                  {m.description}
-                                </p>
-                              </div>
-                              <div className="flex items-center gap-1.5">
-                                {m.isDefault && (
-                                  <span className="text-xs px-2 py-0.5 bg-primary-100 dark:bg-primary-900/50 text-primary-700 dark:text-primary-300 rounded-full">
-                                    Default
-                                  </span>
-                                )}
+                      return (
+                        <div key={tier}>
+                          <div className="px-3 py-1.5 bg-gray-50 dark:bg-gray-900 border-b border-gray-200 dark:border-gray-700">
+                            <span
+                              className={cn(
+                                'text-xs font-medium px-2 py-0.5 rounded-full',
+                                PRICING_BADGES[tier]?.color || PRICING_BADGES.standard.color
+                              )}
+                            >
+                              {PRICING_BADGES[tier]?.label || 'Standard'}
+                            </span>
+                          </div>
+                          {tierModels.map((m) => (
+                            <button
+                              key={m.id}
+                              type="button"
+                              onClick={() => {
+                                setModel(m.id);
+                                setShowModelPicker(false);
+                                setModelSearch('');
+                              }}
+                              className={cn(
+                                'w-full px-4 py-2.5 text-left hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors',
+                                model === m.id && 'bg-primary-50 dark:bg-primary-900/20'
+                              )}
+                            >
+                              <div className="flex items-center justify-between">
+                                <div>
+                                  <p className="font-medium text-sm text-gray-900 dark:text-white">
+                                    {m.name}
+                                  </p>
+                                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                                    {m.description}
+                                  </p>
+                                </div>
+                                <div className="flex items-center gap-1.5">
+                                  {m.isDefault && (
+                                    <span className="text-xs px-2 py-0.5 bg-primary-100 dark:bg-primary-900/50 text-primary-700 dark:text-primary-300 rounded-full">
+                                      Default
+                                    </span>
+                                  )}
+                                </div>
                               </div>
-                            </div>
-                          </button>
-                        ))}
-                      </div>
-                    );
-                  })}
-                </div>
-              )}
+                            </button>
+                          ))}
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
             </div>
-          </div>
-
-          {/* Reasoning Effort - only for supported models */}
-          {supportsReasoning && (
-            <ReasoningEffortSelector
-              value={reasoningEffort}
-              supportedEfforts={supportedReasoningEfforts}
-              onChange={setReasoningEffort}
-            />
-          )}
 
-          {/* Description */}
-          <p className="text-sm text-gray-500 dark:text-gray-400">
-            {SESSION_TYPE_CONFIGS[type].description}
-          </p>
+            {/* Reasoning Effort - only for supported models */}
+            {supportsReasoning && (
+              <ReasoningEffortSelector
+                value={reasoningEffort}
+                supportedEfforts={supportedReasoningEfforts}
+                onChange={setReasoningEffort}
+              />
+            )}
 
-          {/* Actions */}
-          <div className="flex gap-3 pt-2">
-            <button type="button" onClick={onClose} className="flex-1 btn-secondary">
-              Cancel
-            </button>
-            <button
-              type="submit"
-              disabled={!name.trim() || isSubmitting}
-              className={cn(
-                'flex-1 btn-primary',
-                (!name.trim() || isSubmitting) && 'opacity-50 cursor-not-allowed'
+            {/* Workspace roots - the only folders file tools may read */}
+            <div>
+              <label
+                htmlFor="session-workspace-root"
+                className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+              >
+                Workspace folders
+              </label>
+              <div className="flex gap-2">
+                <input
+                  id="session-workspace-root"
+                  type="text"
+                  value={rootInput}
+                  onChange={(e) => setRootInput(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      e.preventDefault();
+                      addWorkspaceRoot();
+                    }
+                  }}
+                  placeholder="/home/me/projects/infra"
+                  className="input flex-1 font-mono text-xs"
+                />
+                <button
+                  type="button"
+                  onClick={addWorkspaceRoot}
+                  disabled={!canAddRoot}
+                  className={cn(
+                    'btn-secondary px-3',
+                    !canAddRoot && 'opacity-50 cursor-not-allowed'
+                  )}
+                >
+                  Add
+                </button>
+              </div>
+              {workspaceRoots.length > 0 ? (
+                <ul className="mt-2 space-y-1">
+                  {workspaceRoots.map((root) => (
+                    <li
+                      key={root}
+                      className="flex items-center gap-2 px-2 py-1 rounded-md bg-gray-50 dark:bg-gray-900 text-xs text-gray-700 dark:text-gray-300"
+                    >
+                      <FolderOpen className="w-3.5 h-3.5 shrink-0 text-gray-400" />
+                      <span className="flex-1 font-mono truncate" title={root}>
+                        {root}
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setWorkspaceRoots((prev) => prev.filter((item) => item !== root))
+                        }
+                        aria-label={`Remove ${root}`}
+                        className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+                      >
+                        <X className="w-3.5 h-3.5" />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  File tools can only read inside these folders. Without any, file access is refused
+                  and you are asked when a tool needs it.
+                </p>
               )}
-            >
-              {isSubmitting ? 'Creating...' : 'Create Session'}
-            </button>
-          </div>
-        </form>
+            </div>
+
+            {/* Description */}
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {getSessionTypeInfo(type, personas).description}
+            </p>
+
+            {/* Actions */}
+            <div className="flex gap-3 pt-2">
+              <button type="button" onClick={onClose} className="flex-1 btn-secondary">
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={!name.trim() || isSubmitting}
+                className={cn(
+                  'flex-1 btn-primary',
+                  (!name.trim() || isSubmitting) && 'opacity-50 cursor-not-allowed'
+                )}
+              >
+                {isSubmitting ? 'Creating...' : 'Create Session'}
+              </button>
+            </div>
+          </form>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,225 @@
+import type { AssistantTone, CreatePersonaRequest, ModelInfo, Persona } from '@devmentorai/shared';
+import { type FormEvent, useEffect, useState } from 'react';
+import { cn } from '../lib/utils';
+import { ApiClient } from '../services/api-client';
+
+interface PersonaEditorProps {
+  /** Persona being edited; omit to create a new one */
+  persona?: Persona;
+  onSave: (data: CreatePersonaRequest) => Promise<void> | void;
+  onCancel: () => void;
+}
+
+const TONE_OPTIONS: Array<{ value: AssistantTone | ''; label: string }> = [
+  { value: '', label: 'Use session default' },
+  { value: 'balanced', label: '⚖️ Balanced' },
+  { value: 'concise', label: '📝 Concise & Direct' },
+  { value: 'friendly', label: '😊 Friendly & Approachable' },
+  { value: 'professional', label: '💼 Professional & Formal' },
+  { value: 'technical', label: '⚙️ Technical & Detailed' },
+];
+
+const labelClassName = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1';
+
+export function PersonaEditor({ persona, onSave, onCancel }: Readonly<PersonaEditorProps>) {
+  const [icon, setIcon] = useState(persona?.icon ?? '🧑‍💻');
+  const [name, setName] = useState(persona?.name ?? '');
+  const [description, setDescription] = useState(persona?.description ?? '');
+  const [agentPrompt, setAgentPrompt] = useState(persona?.agentPrompt ?? '');
+  const [defaultModel, setDefaultModel] = useState(persona?.defaultModel ?? '');
+  const [tone, setTone] = useState<AssistantTone | ''>(persona?.tone ?? '');
+  const [tools, setTools] = useState<string[]>(persona?.tools ?? []);
+  const [availableTools, setAvailableTools] = useState<
+    Array<{ name: string; description: string }>
+  >([]);
+  const [models, setModels] = useState<ModelInfo[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const apiClient = ApiClient.getInstance();
+    void apiClient.listTools().then((response) => {
+      if (response.success && response.data) setAvailableTools(response.data);
+    });
+    void apiClient.getModels().then((response) => {
+      if (response.success && response.data) setModels(response.data.models);
+    });
+  }, []);
+
+  const toggleTool = (toolName: string) => {
+    setTools((prev) =>
+      prev.includes(toolName) ? prev.filter((t) => t !== toolName) : [...prev, toolName]
+    );
+  };
+
+  const canSave = name.trim() && icon.trim() && agentPrompt.trim() && !isSaving;
+
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!canSave) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSave({
+        name: name.trim(),
+        icon: icon.trim(),
+        description: description.trim() || undefined,
+        agentPrompt: agentPrompt.trim(),
+        defaultModel: defaultModel || undefined,
+        tone: tone || undefined,
+        tools,
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save persona');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="flex gap-2">
+        <div className="w-20">
+          <label htmlFor="persona-icon" className={labelClassName}>
+            Icon
+          </label>
+          <input
+            id="persona-icon"
+            type="text"
+            value={icon}
+            maxLength={8}
+            onChange={(e) => setIcon(e.target.value)}
+            className="input text-center"
+          />
+        </div>
+        <div className="flex-1">
+          <label htmlFor="persona-name" className={labelClassName}>
+            Name
+          </label>
+          <input
+            id="persona-name"
+            type="text"
+            value={name}
+            maxLength={60}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g., SRE On-call, Security Reviewer"
+            className="input"
+          />
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="persona-description" className={labelClassName}>
+          Description
+        </label>
+        <input
+          id="persona-description"
+          type="text"
+          value={description}
+          maxLength={200}
+          onChange={(e) => setDescription(e.target.value)}
+          placeholder="Shown when picking a session type"
+          className="input"
+        />
+      </div>
+
+      <div>
+        <label htmlFor="persona-prompt" className={labelClassName}>
+          Agent Prompt
+        </label>
+        <textarea
+          id="persona-prompt"
+          value={agentPrompt}
+          rows={6}
+          onChange={(e) => setAgentPrompt(e.target.value)}
+          placeholder="You are an SRE helping the on-call engineer triage incidents..."
+          className="input font-mono text-xs"
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label htmlFor="persona-model" className={labelClassName}>
+            Default Model
+          </label>
+          <select
+            id="persona-model"
+            value={defaultModel}
+            onChange={(e) => setDefaultModel(e.target.value)}
+            className="input"
+          >
+            <option value="">Backend default</option>
+            {defaultModel && !models.some((m) => m.id === defaultModel) && (
+              <option value={defaultModel}>{defaultModel}</option>
+            )}
+            {models.map((m) => (
+              <option key={m.id} value={m.id}>
+                {m.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="persona-tone" className={labelClassName}>
+            Tone
+          </label>
+          <select
+            id="persona-tone"
+            value={tone}
+            onChange={(e) => setTone(e.target.value as AssistantTone | '')}
+            className="input"
+          >
+            {TONE_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {availableTools.length > 0 && (
+        <fieldset>
+          <legend className={labelClassName}>Tools</legend>
+          <div className="space-y-1">
+            {availableTools.map((tool) => (
+              <label
+                key={tool.name}
+                className="flex items-start gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer"
+              >
+                <input
+                  type="checkbox"
+                  checked={tools.includes(tool.name)}
+                  onChange={() => toggleTool(tool.name)}
+                  className="mt-0.5"
+                />
+                <span>
+                  <code className="text-xs">{tool.name}</code>
+                  <span className="block text-xs text-gray-500 dark:text-gray-400 line-clamp-1">
+                    {tool.description}
+                  </span>
+                </span>
+              </label>
+            ))}
+          </div>
+        </fieldset>
+      )}
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      <div className="flex gap-3 pt-2">
+        <button type="button" onClick={onCancel} className="flex-1 btn-secondary">
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={!canSave}
+          className={cn('flex-1 btn-primary', !canSave && 'opacity-50 cursor-not-allowed')}
+        >
+          {isSaving ? 'Saving...' : persona ? 'Save Persona' : 'Create Persona'}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,133 @@
+import type { CreatePersonaRequest, Persona } from '@devmentorai/shared';
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+import { useState } from 'react';
+import { usePersonas } from '../hooks/usePersonas';
+import { PersonaEditor } from './PersonaEditor';
+
+/**
+ * Settings section listing user-defined personas with create, edit and delete.
+ * Personas live in the backend database, so this requires a running backend.
+ */
+export function PersonaManager() {
+  const { personas, isLoading, error, createPersona, updatePersona, deletePersona } = usePersonas();
+  // null = list view, 'new' = creating, Persona = editing
+  const [editing, setEditing] = useState<Persona | 'new' | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const handleSave = async (data: CreatePersonaRequest) => {
+    if (editing === 'new') {
+      await createPersona(data);
+    } else if (editing) {
+      // Fields left empty in the editor clear the stored value
+      await updatePersona(editing.id, {
+        ...data,
+        description: data.description ?? null,
+        defaultModel: data.defaultModel ?? null,
+        tone: data.tone ?? null,
+      });
+    }
+    setEditing(null);
+  };
+
+  const handleDelete = async (persona: Persona) => {
+    if (
+      !globalThis.confirm(
+        `Delete persona "${persona.name}"? Existing sessions keep working as general sessions.`
+      )
+    ) {
+      return;
+    }
+    try {
+      setActionError(null);
+      await deletePersona(persona.id);
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to delete persona');
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Personas</h2>
+        {!editing && (
+          <button
+            type="button"
+            onClick={() => setEditing('new')}
+            className="flex items-center gap-1 text-sm text-primary-600 dark:text-primary-400 hover:underline"
+          >
+            <Plus className="w-4 h-4" />
+            New persona
+          </button>
+        )}
+      </div>
+
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+        Define your own session types with their own instructions, default model, tone and tools.
+        They appear next to the built-in types when creating a session.
+      </p>
+
+      {editing ? (
+        <PersonaEditor
+          key={editing === 'new' ? 'new' : editing.id}
+          persona={editing === 'new' ? undefined : editing}
+          onSave={handleSave}
+          onCancel={() => setEditing(null)}
+        />
+      ) : (
+        <>
+          {isLoading && personas.length === 0 && (
+            <p className="text-sm text-gray-500 dark:text-gray-400">Loading personas...</p>
+          )}
+          {error && (
+            <p className="text-sm text-red-600 dark:text-red-400">
+              {error}. Make sure the backend is running.
+            </p>
+          )}
+          {!isLoading && !error && personas.length === 0 && (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No personas yet.</p>
+          )}
+
+          {personas.length > 0 && (
+            <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+              {personas.map((persona) => (
+                <li key={persona.id} className="flex items-center gap-3 py-2">
+                  <span className="text-lg">{persona.icon}</span>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                      {persona.name}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                      {persona.description || 'No description'}
+                      {persona.tools.length > 0 &&
+                        ` • ${persona.tools.length} tool${persona.tools.length === 1 ? '' : 's'}`}
+                    </p>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => setEditing(persona)}
+                    className="p-1.5 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+                    title="Edit"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => void handleDelete(persona)}
+                    className="p-1.5 text-gray-400 hover:text-red-500"
+                    title="Delete"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {actionError && (
+            <p className="mt-3 text-sm text-red-600 dark:text-red-400">{actionError}</p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
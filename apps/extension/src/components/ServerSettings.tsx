@@ -0,0 +1,314 @@
+import type {
+  LogLevel,
+  ServerConfig,
+  ServerConfigReport,
+  ServerConfigUpdate,
+} from '@devmentorai/shared';
+import { Loader2, RefreshCw } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+import { cn } from '../lib/utils';
+import { ApiClient } from '../services/api-client';
+
+const LOG_LEVELS: LogLevel[] = ['trace', 'debug', 'info', 'warn', 'error', 'fatal'];
+
+// Fields are edited as text; empty text means "not set"
+interface ServerForm {
+  port: string;
+  host: string;
+  copilotModel: string;
+  openaiBaseUrl: string;
+  openaiModel: string;
+  openaiApiKey: string;
+  mcp: boolean;
+  workspaceRoots: string;
+  logLevel: LogLevel;
+  debugBodies: boolean;
+}
+
+function toForm(config: ServerConfig): ServerForm {
+  return {
+    port: config.server.port.toString(),
+    host: config.server.host,
+    copilotModel: config.copilot.defaultModel ?? '',
+    openaiBaseUrl: config.openai.baseUrl ?? '',
+    openaiModel: config.openai.defaultModel ?? '',
+    // The backend never sends the key back; leave it empty to keep the saved one
+    openaiApiKey: '',
+    mcp: config.tools.mcp,
+    workspaceRoots: config.tools.workspaceRoots.join('\n'),
+    logLevel: config.logging.level,
+    debugBodies: config.logging.debugBodies,
+  };
+}
+
+/**
+ * Settings section for the backend's config.json. Most changes apply right
+ * away; the backend reports the ones that wait for a restart.
+ */
+export function ServerSettings() {
+  const [report, setReport] = useState<ServerConfigReport | null>(null);
+  const [form, setForm] = useState<ServerForm | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const applyReport = useCallback((next: ServerConfigReport) => {
+    setReport(next);
+    setForm(toForm(next.config));
+  }, []);
+
+  const loadConfig = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await ApiClient.getInstance().getConfig();
+      if (response.success && response.data) {
+        applyReport(response.data);
+        setError(null);
+      } else {
+        setError(response.error?.message || 'Failed to load server settings');
+      }
+    } catch (err) {
+      console.error('[ServerSettings] Failed to load server settings:', err);
+      setError('Failed to load server settings');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [applyReport]);
+
+  useEffect(() => {
+    void loadConfig();
+  }, [loadConfig]);
+
+  const setField = <K extends keyof ServerForm>(key: K, value: ServerForm[K]) => {
+    setForm((prev) => (prev ? { ...prev, [key]: value } : prev));
+    setSaved(false);
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    const orNull = (value: string) => value.trim() || null;
+    setIsSaving(true);
+    try {
+      const update: ServerConfigUpdate = {
+        server: { port: Number(form.port), host: form.host.trim() },
+        copilot: { defaultModel: orNull(form.copilotModel) },
+        openai: {
+          baseUrl: orNull(form.openaiBaseUrl),
+          defaultModel: orNull(form.openaiModel),
+          ...(form.openaiApiKey.trim() && { apiKey: form.openaiApiKey.trim() }),
+        },
+        tools: {
+          mcp: form.mcp,
+          workspaceRoots: form.workspaceRoots
+            .split('\n')
+            .map((root) => root.trim())
+            .filter(Boolean),
+        },
+        logging: { level: form.logLevel, debugBodies: form.debugBodies },
+      };
+      // Don't copy values that come from environment variables into the file
+      for (const key of report?.overridden ?? []) {
+        const [section, field] = key.split('.') as [keyof ServerConfigUpdate, string];
+        delete (update[section] as Record<string, unknown> | undefined)?.[field];
+      }
+      const response = await ApiClient.getInstance().updateConfig(update);
+      if (response.success && response.data) {
+        applyReport(response.data);
+        setSaved(true);
+        setError(null);
+      } else {
+        const details = response.error?.details as
+          | { errors?: Array<{ path: string[]; message: string }> }
+          | undefined;
+        const first = details?.errors?.[0];
+        setError(
+          first
+            ? `${first.path.join('.')}: ${first.message}`
+            : response.error?.message || 'Failed to save server settings'
+        );
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const isOverridden = (key: string) => report?.overridden.includes(key) ?? false;
+  const overrideNote = (key: string) =>
+    isOverridden(key) ? (
+      <span className="block text-xs text-amber-600 dark:text-amber-400">
+        Set by an environment variable
+      </span>
+    ) : null;
+
+  const inputClass =
+    'w-56 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white disabled:opacity-50';
+  const labelClass = 'text-sm text-gray-700 dark:text-gray-300';
+
+  const textFields: Array<{
+    key: 'port' | 'host' | 'copilotModel' | 'openaiBaseUrl' | 'openaiModel';
+    configKey: string;
+    label: string;
+    placeholder?: string;
+  }> = [
+    {
+      key: 'copilotModel',
+      configKey: 'copilot.defaultModel',
+      label: 'Default Copilot model',
+      placeholder: 'Copilot default',
+    },
+    {
+      key: 'openaiBaseUrl',
+      configKey: 'openai.baseUrl',
+      label: 'OpenAI-compatible base URL',
+      placeholder: 'Not configured',
+    },
+    {
+      key: 'openaiModel',
+      configKey: 'openai.defaultModel',
+      label: 'OpenAI-compatible model',
+      placeholder: 'Provider default',
+    },
+    { key: 'port', configKey: 'server.port', label: 'Port' },
+    { key: 'host', configKey: 'server.host', label: 'Bind address' },
+  ];
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Backend</h2>
+        <button
+          type="button"
+          onClick={() => void loadConfig()}
+          disabled={isLoading}
+          className="flex items-center gap-1 text-sm text-primary-600 dark:text-primary-400 hover:underline disabled:opacity-50"
+        >
+          <RefreshCw className={cn('w-4 h-4', isLoading && 'animate-spin')} />
+          Refresh
+        </button>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400 mb-2">
+          {error}. Make sure the backend is running.
+        </p>
+      )}
+
+      {report && report.restartRequired.length > 0 && (
+        <p className="text-sm text-amber-700 dark:text-amber-300 bg-amber-50 dark:bg-amber-900/20 rounded-lg p-3 mb-4">
+          Restart the backend to apply {report.restartRequired.join(', ')}:{' '}
+          <code>devmentorai-server stop && devmentorai-server start</code>
+        </p>
+      )}
+
+      {form && (
+        <div className="space-y-3">
+          {textFields.map((field) => (
+            <div key={field.key} className="flex items-center justify-between gap-4">
+              <label htmlFor={`server-${field.key}`} className={labelClass}>
+                {field.label}
+                {overrideNote(field.configKey)}
+              </label>
+              <input
+                id={`server-${field.key}`}
+                type={field.key === 'port' ? 'number' : 'text'}
+                value={form[field.key]}
+                onChange={(e) => setField(field.key, e.target.value)}
+                placeholder={field.placeholder}
+                disabled={isOverridden(field.configKey)}
+                className={inputClass}
+              />
+            </div>
+          ))}
+          <div className="flex items-center justify-between gap-4">
+            <label htmlFor="server-openaiApiKey" className={labelClass}>
+              OpenAI-compatible API key
+              {overrideNote('openai.apiKey')}
+            </label>
+            <input
+              id="server-openaiApiKey"
+              type="password"
+              value={form.openaiApiKey}
+              onChange={(e) => setField('openaiApiKey', e.target.value)}
+              placeholder={report?.config.openai.apiKey ? 'Saved (hidden)' : 'Not set'}
+              disabled={isOverridden('openai.apiKey')}
+              autoComplete="off"
+              className={inputClass}
+            />
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <label htmlFor="server-logLevel" className={labelClass}>
+              Log level
+              {overrideNote('logging.level')}
+            </label>
+            <select
+              id="server-logLevel"
+              value={form.logLevel}
+              onChange={(e) => setField('logLevel', e.target.value as LogLevel)}
+              disabled={isOverridden('logging.level')}
+              className={inputClass}
+            >
+              {LOG_LEVELS.map((level) => (
+                <option key={level} value={level}>
+                  {level}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="server-workspaceRoots" className={labelClass}>
+              Default workspace folders for new sessions (one absolute path per line)
+            </label>
+            <textarea
+              id="server-workspaceRoots"
+              value={form.workspaceRoots}
+              onChange={(e) => setField('workspaceRoots', e.target.value)}
+              rows={3}
+              placeholder="/home/me/projects/app"
+              className="mt-1 w-full px-2 py-1 text-sm font-mono border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            />
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={form.mcp}
+              onChange={(e) => setField('mcp', e.target.checked)}
+              className="rounded border-gray-300 dark:border-gray-600"
+            />
+            Enable MCP servers for new sessions
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={form.debugBodies}
+              onChange={(e) => setField('debugBodies', e.target.checked)}
+              disabled={isOverridden('logging.debugBodies')}
+              className="rounded border-gray-300 dark:border-gray-600"
+            />
+            Log request and response bodies (secrets are scrubbed)
+          </label>
+        </div>
+      )}
+
+      <div className="flex items-center gap-2 mt-4">
+        <button
+          type="button"
+          onClick={() => void handleSave()}
+          disabled={!form || isSaving}
+          className="px-4 py-2 text-sm rounded-lg bg-primary-600 text-white hover:bg-primary-700 disabled:opacity-50"
+        >
+          Save
+        </button>
+        {isSaving && <Loader2 className="w-4 h-4 animate-spin text-gray-400" />}
+        {saved && !isSaving && (
+          <span className="text-sm text-green-600 dark:text-green-400">Saved</span>
+        )}
+      </div>
+      <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+        Stored in <code>~/.devmentorai/config.json</code>; you can also use{' '}
+        <code>devmentorai-server config</code>. Port, bind address and OpenAI-compatible settings
+        apply after a restart.
+      </p>
+    </div>
+  );
+}
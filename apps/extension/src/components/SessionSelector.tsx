@@ -1,15 +1,60 @@
-import type { Session } from '@devmentorai/shared';
-import { SESSION_TYPE_CONFIGS } from '@devmentorai/shared';
-import { ChevronDown, MessageSquare, Sparkles, Trash2 } from 'lucide-react';
-import { useState } from 'react';
+import type { MessageSearchResult, Persona, Session } from '@devmentorai/shared';
+import {
+  ChevronDown,
+  Loader2,
+  MessageSquare,
+  Pin,
+  PinOff,
+  Search,
+  Sparkles,
+  Trash2,
+  X,
+} from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { getSessionTypeInfo } from '../lib/session-types';
 import { cn } from '../lib/utils';
+import { ApiClient } from '../services/api-client';
 import { isWritingAssistantSession } from '../services/writing-assistant-session';
+import { formatPremiumRequests } from './UsageDashboard';
 
 interface SessionSelectorProps {
   sessions: Session[];
   activeSessionId?: string;
   onSelectSession: (sessionId: string) => void;
   onDeleteSession: (sessionId: string) => void;
+  /** Pinned sessions are listed first and kept by retention cleanup */
+  onTogglePin?: (sessionId: string, pinned: boolean) => void;
+  /** Called when a message search hit is picked (switch session and jump to the message) */
+  onSelectSearchResult?: (result: MessageSearchResult) => void;
+  /** User-defined personas, used to label persona sessions */
+  personas?: Persona[];
+}
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+/**
+ * Render a backend search snippet, turning <mark></mark> markers into highlights
+ * without interpreting any other markup from message content.
+ */
+function renderSnippet(snippet: string) {
+  let offset = 0;
+  return snippet.split(/(<mark>.*?<\/mark>)/g).map((part) => {
+    // Parts are keyed by where they start in the snippet, which is unique
+    const start = offset;
+    offset += part.length;
+    const match = /^<mark>(.*)<\/mark>$/.exec(part);
+    if (match) {
+      return (
+        <mark
+          key={start}
+          className="bg-amber-200 dark:bg-amber-700/60 text-inherit rounded-sm px-0.5"
+        >
+          {match[1]}
+        </mark>
+      );
+    }
+    return part;
+  });
 }
 
 export function SessionSelector({
@@ -17,11 +62,71 @@ export function SessionSelector({
   activeSessionId,
   onSelectSession,
   onDeleteSession,
+  onTogglePin,
+  onSelectSearchResult,
+  personas = [],
 }: Readonly<SessionSelectorProps>) {
   const [isOpen, setIsOpen] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<MessageSearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  // Premium requests per session ID, refreshed every time the list opens
+  const [premiumBySession, setPremiumBySession] = useState<Record<string, number>>({});
+
+  const trimmedQuery = searchQuery.trim();
+  const showSearchResults = trimmedQuery.length > 0;
+
+  // Debounced full-text search across all sessions
+  useEffect(() => {
+    if (!trimmedQuery) {
+      setSearchResults([]);
+      setIsSearching(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsSearching(true);
+    const timer = setTimeout(async () => {
+      const response = await ApiClient.getInstance().searchMessages(trimmedQuery);
+      if (cancelled) return;
+      setSearchResults(response.success && response.data ? response.data.results : []);
+      setIsSearching(false);
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [trimmedQuery]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+    ApiClient.getInstance()
+      .getUsage({ groupBy: 'session' })
+      .then((response) => {
+        if (cancelled || !response.success || !response.data) return;
+        setPremiumBySession(
+          Object.fromEntries(
+            response.data.groups.map((group) => [group.key, group.premiumRequests])
+          )
+        );
+      })
+      .catch((err) => console.error('[SessionSelector] Failed to load usage:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen]);
+
+  const closeDropdown = () => {
+    setIsOpen(false);
+    setSearchQuery('');
+  };
 
   const activeSession = sessions.find((s) => s.id === activeSessionId);
-  const activeConfig = activeSession ? SESSION_TYPE_CONFIGS[activeSession.type] : null;
+  const activeConfig = activeSession ? getSessionTypeInfo(activeSession.type, personas) : null;
   const isActiveWritingAssistant = activeSession ? isWritingAssistantSession(activeSession) : false;
 
   if (sessions.length === 0) {
@@ -65,70 +170,161 @@ export function SessionSelector({
           <button
             type="button"
             className="fixed inset-0 z-10"
-            onClick={() => setIsOpen(false)}
+            onClick={closeDropdown}
             aria-label="Close session selector"
           />
-          <div className="absolute left-0 right-0 z-20 mt-1 mx-2 bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 max-h-64 overflow-y-auto">
-            {sessions.map((session) => {
-              const config = SESSION_TYPE_CONFIGS[session.type];
-              const isActive = session.id === activeSessionId;
-              const isWritingAssistant = isWritingAssistantSession(session);
-
-              return (
-                <div
-                  key={session.id}
-                  className={cn(
-                    'flex items-center justify-between px-3 py-2 hover:bg-gray-50 dark:hover:bg-gray-700/50 cursor-pointer',
-                    isActive && 'bg-primary-50 dark:bg-primary-900/20'
+          <div className="absolute left-0 right-0 z-20 mt-1 mx-2 bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 max-h-80 overflow-y-auto">
+            {onSelectSearchResult && (
+              <div className="sticky top-0 z-10 p-2 bg-white dark:bg-gray-800 border-b border-gray-100 dark:border-gray-700">
+                <div className="relative">
+                  <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+                  <input
+                    type="text"
+                    value={searchQuery}
+                    onChange={(e) => setSearchQuery(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Escape') closeDropdown();
+                    }}
+                    placeholder="Search all messages..."
+                    aria-label="Search messages"
+                    className="w-full pl-8 pr-8 py-1.5 text-sm border border-gray-200 dark:border-gray-600 rounded-md bg-gray-50 dark:bg-gray-700 text-gray-900 dark:text-white placeholder-gray-400 focus:outline-none focus:ring-1 focus:ring-primary-500"
+                  />
+                  {searchQuery && (
+                    <button
+                      type="button"
+                      onClick={() => setSearchQuery('')}
+                      className="absolute right-2 top-1/2 -translate-y-1/2 p-0.5 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                      aria-label="Clear search"
+                    >
+                      <X className="w-3.5 h-3.5" />
+                    </button>
                   )}
-                >
+                </div>
+              </div>
+            )}
+
+            {showSearchResults && (
+              <div>
+                {isSearching && searchResults.length === 0 && (
+                  <div className="flex items-center gap-2 px-3 py-3 text-sm text-gray-500 dark:text-gray-400">
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    Searching...
+                  </div>
+                )}
+                {!isSearching && searchResults.length === 0 && (
+                  <p className="px-3 py-3 text-sm text-gray-500 dark:text-gray-400">
+                    No messages match "{trimmedQuery}"
+                  </p>
+                )}
+                {searchResults.map((result) => (
                   <button
+                    key={result.messageId}
                     type="button"
                     onClick={() => {
-                      onSelectSession(session.id);
-                      setIsOpen(false);
+                      onSelectSearchResult?.(result);
+                      closeDropdown();
                     }}
-                    className="flex items-center gap-3 flex-1 text-left"
+                    className="block w-full px-3 py-2 text-left hover:bg-gray-50 dark:hover:bg-gray-700/50"
                   >
-                    <span className="text-lg">{config?.icon || '💬'}</span>
-                    <div>
-                      <p
-                        className={cn(
-                          'font-medium flex items-center gap-1.5',
-                          isActive
-                            ? 'text-primary-600 dark:text-primary-400'
-                            : 'text-gray-900 dark:text-white'
-                        )}
-                      >
-                        {session.name}
-                        {isWritingAssistant && <Sparkles className="w-3 h-3 text-amber-500" />}
-                      </p>
-                      <p className="text-xs text-gray-500 dark:text-gray-400 flex items-center gap-1">
-                        <MessageSquare className="w-3 h-3" />
-                        {session.messageCount} messages
-                        {isWritingAssistant && (
-                          <span className="ml-1 text-amber-600 dark:text-amber-400">
-                            • Quick Actions
-                          </span>
-                        )}
-                      </p>
-                    </div>
+                    <p className="text-xs font-medium text-gray-500 dark:text-gray-400 flex items-center gap-1">
+                      {result.sessionName}
+                      <span className="text-gray-400">•</span>
+                      {result.role === 'user' ? 'You' : 'Assistant'}
+                    </p>
+                    <p className="text-sm text-gray-700 dark:text-gray-300 line-clamp-2">
+                      {renderSnippet(result.snippet)}
+                    </p>
                   </button>
+                ))}
+              </div>
+            )}
 
-                  <button
-                    type="button"
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      onDeleteSession(session.id);
-                    }}
-                    className="p-1.5 text-gray-400 hover:text-red-500 rounded transition-colors"
-                    title="Delete session"
+            {!showSearchResults &&
+              sessions.map((session) => {
+                const config = getSessionTypeInfo(session.type, personas);
+                const isActive = session.id === activeSessionId;
+                const isWritingAssistant = isWritingAssistantSession(session);
+                const premiumRequests = premiumBySession[session.id];
+
+                return (
+                  <div
+                    key={session.id}
+                    className={cn(
+                      'flex items-center justify-between px-3 py-2 hover:bg-gray-50 dark:hover:bg-gray-700/50 cursor-pointer',
+                      isActive && 'bg-primary-50 dark:bg-primary-900/20'
+                    )}
                   >
-                    <Trash2 className="w-4 h-4" />
-                  </button>
-                </div>
-              );
-            })}
+                    <button
+                      type="button"
+                      onClick={() => {
+                        onSelectSession(session.id);
+                        closeDropdown();
+                      }}
+                      className="flex items-center gap-3 flex-1 text-left"
+                    >
+                      <span className="text-lg">{config?.icon || '💬'}</span>
+                      <div>
+                        <p
+                          className={cn(
+                            'font-medium flex items-center gap-1.5',
+                            isActive
+                              ? 'text-primary-600 dark:text-primary-400'
+                              : 'text-gray-900 dark:text-white'
+                          )}
+                        >
+                          {session.name}
+                          {session.pinned && <Pin className="w-3 h-3 text-gray-400" />}
+                          {isWritingAssistant && <Sparkles className="w-3 h-3 text-amber-500" />}
+                        </p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400 flex items-center gap-1">
+                          <MessageSquare className="w-3 h-3" />
+                          {session.messageCount} messages
+                          {premiumRequests !== undefined && premiumRequests > 0 && (
+                            <span title="Premium requests used by this session">
+                              • {formatPremiumRequests(premiumRequests)} premium
+                            </span>
+                          )}
+                          {isWritingAssistant && (
+                            <span className="ml-1 text-amber-600 dark:text-amber-400">
+                              • Quick Actions
+                            </span>
+                          )}
+                        </p>
+                      </div>
+                    </button>
+
+                    {onTogglePin && (
+                      <button
+                        type="button"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onTogglePin(session.id, !session.pinned);
+                        }}
+                        className="p-1.5 text-gray-400 hover:text-primary-500 rounded transition-colors"
+                        title={session.pinned ? 'Unpin session' : 'Pin session'}
+                      >
+                        {session.pinned ? (
+                          <PinOff className="w-4 h-4" />
+                        ) : (
+                          <Pin className="w-4 h-4" />
+                        )}
+                      </button>
+                    )}
+
+                    <button
+                      type="button"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onDeleteSession(session.id);
+                      }}
+                      className="p-1.5 text-gray-400 hover:text-red-500 rounded transition-colors"
+                      title="Delete session"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                );
+              })}
           </div>
         </>
       )}
@@ -0,0 +1,253 @@
+import type { PruneReport, RetentionPolicy, StorageReport } from '@devmentorai/shared';
+import { Loader2, RefreshCw } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+import { cn } from '../lib/utils';
+import { ApiClient } from '../services/api-client';
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function describePrune(report: PruneReport): string {
+  const verb = report.dryRun ? 'Would delete' : 'Deleted';
+  const parts = [
+    `${report.sessions.length} sessions`,
+    `${report.contexts} page contexts`,
+    `${report.orphanedImageDirs + report.imageSessions.length} image folders`,
+  ];
+  return `${verb} ${parts.join(', ')} (${formatBytes(report.freedImageBytes)} of images).`;
+}
+
+// Limits are edited as text so an empty field can mean "no limit"
+type LimitField = 'maxAgeDays' | 'maxSessions' | 'maxImageMb';
+
+const LIMIT_FIELDS: Array<{ key: LimitField; label: string; unit: string }> = [
+  { key: 'maxAgeDays', label: 'Delete sessions not used for', unit: 'days' },
+  { key: 'maxSessions', label: 'Keep at most', unit: 'sessions' },
+  { key: 'maxImageMb', label: 'Limit images to', unit: 'MB' },
+];
+
+/**
+ * Settings section showing backend disk usage and the retention policy the
+ * backend applies in the background.
+ */
+export function StorageSettings() {
+  const [report, setReport] = useState<StorageReport | null>(null);
+  const [limits, setLimits] = useState<Record<LimitField, string>>({
+    maxAgeDays: '',
+    maxSessions: '',
+    maxImageMb: '',
+  });
+  const [keepPinned, setKeepPinned] = useState(true);
+  const [maxContexts, setMaxContexts] = useState('20');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const [pruneResult, setPruneResult] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const applyPolicy = useCallback((policy: RetentionPolicy) => {
+    setLimits({
+      maxAgeDays: policy.maxAgeDays?.toString() ?? '',
+      maxSessions: policy.maxSessions?.toString() ?? '',
+      maxImageMb: policy.maxImageMb?.toString() ?? '',
+    });
+    setKeepPinned(policy.keepPinned);
+    setMaxContexts(policy.maxContextsPerSession.toString());
+  }, []);
+
+  const loadStorage = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await ApiClient.getInstance().getStorage();
+      if (response.success && response.data) {
+        setReport(response.data);
+        applyPolicy(response.data.retention);
+        setError(null);
+      } else {
+        setError(response.error?.message || 'Failed to load storage usage');
+      }
+    } catch (err) {
+      console.error('[StorageSettings] Failed to load storage usage:', err);
+      setError('Failed to load storage usage');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [applyPolicy]);
+
+  useEffect(() => {
+    void loadStorage();
+  }, [loadStorage]);
+
+  const handleSave = async () => {
+    const toLimit = (value: string) => (value.trim() ? Number(value) : null);
+    setIsWorking(true);
+    try {
+      const response = await ApiClient.getInstance().updateRetention({
+        maxAgeDays: toLimit(limits.maxAgeDays),
+        maxSessions: toLimit(limits.maxSessions),
+        maxImageMb: toLimit(limits.maxImageMb),
+        keepPinned,
+        maxContextsPerSession: Number(maxContexts),
+      });
+      if (response.success && response.data) {
+        applyPolicy(response.data);
+        setError(null);
+      } else {
+        setError(response.error?.message || 'Failed to save retention settings');
+      }
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handlePrune = async (dryRun: boolean) => {
+    setIsWorking(true);
+    try {
+      const response = await ApiClient.getInstance().pruneStorage(dryRun);
+      if (response.success && response.data) {
+        setPruneResult(describePrune(response.data));
+        setError(null);
+        if (!dryRun) await loadStorage();
+      } else {
+        setError(response.error?.message || 'Cleanup failed');
+      }
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const usage = report?.usage;
+  const inputClass =
+    'w-24 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Storage</h2>
+        <button
+          type="button"
+          onClick={() => void loadStorage()}
+          disabled={isLoading}
+          className="flex items-center gap-1 text-sm text-primary-600 dark:text-primary-400 hover:underline disabled:opacity-50"
+        >
+          <RefreshCw className={cn('w-4 h-4', isLoading && 'animate-spin')} />
+          Refresh
+        </button>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400 mb-2">
+          {error}. Make sure the backend is running.
+        </p>
+      )}
+
+      {usage && (
+        <dl className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-6">
+          {[
+            { label: 'Database', value: formatBytes(usage.databaseBytes) },
+            { label: 'Images', value: formatBytes(usage.imagesBytes) },
+            {
+              label: 'Sessions',
+              value: `${usage.sessions}${usage.pinnedSessions ? ` (${usage.pinnedSessions} pinned)` : ''}`,
+            },
+            { label: 'Page contexts', value: usage.contexts.toString() },
+          ].map((item) => (
+            <div key={item.label} className="rounded-lg bg-gray-50 dark:bg-gray-700/50 p-3">
+              <dt className="text-xs text-gray-500 dark:text-gray-400">{item.label}</dt>
+              <dd className="text-sm font-medium text-gray-900 dark:text-white">{item.value}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+
+      <div className="space-y-3">
+        {LIMIT_FIELDS.map((field) => (
+          <div key={field.key} className="flex items-center justify-between gap-4">
+            <label
+              htmlFor={`retention-${field.key}`}
+              className="text-sm text-gray-700 dark:text-gray-300"
+            >
+              {field.label}
+            </label>
+            <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+              <input
+                id={`retention-${field.key}`}
+                type="number"
+                min={1}
+                value={limits[field.key]}
+                onChange={(e) => setLimits((prev) => ({ ...prev, [field.key]: e.target.value }))}
+                placeholder="No limit"
+                className={inputClass}
+              />
+              <span className="w-16">{field.unit}</span>
+            </div>
+          </div>
+        ))}
+        <div className="flex items-center justify-between gap-4">
+          <label htmlFor="retention-contexts" className="text-sm text-gray-700 dark:text-gray-300">
+            Page contexts kept per session
+          </label>
+          <div className="flex items-center gap-2">
+            <input
+              id="retention-contexts"
+              type="number"
+              min={1}
+              value={maxContexts}
+              onChange={(e) => setMaxContexts(e.target.value)}
+              className={inputClass}
+            />
+            <span className="w-16" />
+          </div>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={keepPinned}
+            onChange={(e) => setKeepPinned(e.target.checked)}
+            className="rounded border-gray-300 dark:border-gray-600"
+          />
+          Never delete pinned sessions
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mt-4">
+        <button
+          type="button"
+          onClick={() => void handleSave()}
+          disabled={isWorking}
+          className="px-4 py-2 text-sm rounded-lg bg-primary-600 text-white hover:bg-primary-700 disabled:opacity-50"
+        >
+          Save
+        </button>
+        <button
+          type="button"
+          onClick={() => void handlePrune(true)}
+          disabled={isWorking}
+          className="px-4 py-2 text-sm rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+        >
+          Preview cleanup
+        </button>
+        <button
+          type="button"
+          onClick={() => void handlePrune(false)}
+          disabled={isWorking}
+          className="px-4 py-2 text-sm rounded-lg border border-red-300 dark:border-red-700 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-50"
+        >
+          Clean up now
+        </button>
+        {isWorking && <Loader2 className="w-4 h-4 animate-spin text-gray-400" />}
+      </div>
+
+      {pruneResult && (
+        <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">{pruneResult}</p>
+      )}
+      <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+        Saved settings apply every few hours while the backend runs, or with{' '}
+        <code>devmentorai-server prune</code>.
+        {report?.lastPrune && ` Last cleanup: ${new Date(report.lastPrune.at).toLocaleString()}.`}
+      </p>
+    </div>
+  );
+}
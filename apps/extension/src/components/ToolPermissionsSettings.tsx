@@ -0,0 +1,118 @@
+import type { ToolPermissionPolicy, ToolPermissionSetting } from '@devmentorai/shared';
+import { RefreshCw } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+import { cn } from '../lib/utils';
+import { ApiClient } from '../services/api-client';
+
+const POLICY_OPTIONS: Array<{ value: ToolPermissionPolicy; label: string }> = [
+  { value: 'ask', label: 'Ask' },
+  { value: 'allow', label: 'Allow' },
+  { value: 'deny', label: 'Deny' },
+];
+
+/**
+ * Settings section for remembered tool permissions. Tools set to "Ask" pause the
+ * chat and show an approval card before they run.
+ */
+export function ToolPermissionsSettings() {
+  const [tools, setTools] = useState<ToolPermissionSetting[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPermissions = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await ApiClient.getInstance().getToolPermissions();
+      if (response.success && response.data) {
+        setTools(response.data);
+        setError(null);
+      } else {
+        setError(response.error?.message || 'Failed to load tool permissions');
+      }
+    } catch (err) {
+      console.error('[ToolPermissionsSettings] Failed to load tool permissions:', err);
+      setError('Failed to load tool permissions');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadPermissions();
+  }, [loadPermissions]);
+
+  const handleChange = async (toolName: string, policy: ToolPermissionPolicy) => {
+    const previous = tools;
+    setTools((prev) =>
+      prev.map((tool) => (tool.toolName === toolName ? { ...tool, policy } : tool))
+    );
+    try {
+      const response = await ApiClient.getInstance().setToolPermission(toolName, policy);
+      if (!response.success) {
+        setTools(previous);
+        setError(response.error?.message || 'Failed to save tool permission');
+      }
+    } catch (err) {
+      console.error('[ToolPermissionsSettings] Failed to save tool permission:', err);
+      setTools(previous);
+      setError('Failed to save tool permission');
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Tool Permissions</h2>
+        <button
+          type="button"
+          onClick={() => void loadPermissions()}
+          disabled={isLoading}
+          className="flex items-center gap-1 text-sm text-primary-600 dark:text-primary-400 hover:underline disabled:opacity-50"
+        >
+          <RefreshCw className={cn('w-4 h-4', isLoading && 'animate-spin')} />
+          Refresh
+        </button>
+      </div>
+
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+        Choose whether the assistant may run each tool without asking. Tools not listed here, such
+        as GitHub MCP tools, always ask.
+      </p>
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400 mb-2">
+          {error}. Make sure the backend is running.
+        </p>
+      )}
+
+      <div className="space-y-2">
+        {tools.map((tool) => (
+          <div key={tool.toolName} className="flex items-center justify-between gap-4">
+            <div className="min-w-0">
+              <p className="text-sm font-mono text-gray-900 dark:text-white">{tool.toolName}</p>
+              {tool.description && (
+                <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                  {tool.description}
+                </p>
+              )}
+            </div>
+            <select
+              value={tool.policy}
+              onChange={(e) =>
+                void handleChange(tool.toolName, e.target.value as ToolPermissionPolicy)
+              }
+              aria-label={`Permission for ${tool.toolName}`}
+              className="px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            >
+              {POLICY_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+import type { UsageGroupBy, UsageReport } from '@devmentorai/shared';
+import { RefreshCw } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+import { cn } from '../lib/utils';
+import { ApiClient } from '../services/api-client';
+
+type UsageRange = '7d' | '30d' | 'all';
+
+const RANGE_OPTIONS: Array<{ value: UsageRange; label: string }> = [
+  { value: '7d', label: 'Last 7 days' },
+  { value: '30d', label: 'Last 30 days' },
+  { value: 'all', label: 'All time' },
+];
+
+const GROUP_OPTIONS: Array<{ value: UsageGroupBy; label: string }> = [
+  { value: 'session', label: 'Session' },
+  { value: 'model', label: 'Model' },
+  { value: 'action', label: 'Quick action' },
+  { value: 'day', label: 'Day' },
+];
+
+/** First UTC day of the range, as the backend compares UTC timestamps */
+function rangeStart(range: UsageRange): string | undefined {
+  if (range === 'all') return undefined;
+  const days = range === '7d' ? 7 : 30;
+  const start = new Date(Date.now() - (days - 1) * 24 * 60 * 60 * 1000);
+  return start.toISOString().slice(0, 10);
+}
+
+export function formatPremiumRequests(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(2);
+}
+
+function formatDuration(ms: number): string {
+  if (ms < 1000) return `${ms} ms`;
+  const seconds = ms / 1000;
+  return seconds < 60 ? `${seconds.toFixed(1)} s` : `${(seconds / 60).toFixed(1)} min`;
+}
+
+function formatChars(chars: number): string {
+  return chars >= 1000 ? `${(chars / 1000).toFixed(1)}k` : String(chars);
+}
+
+/**
+ * Settings section showing which sessions, models and quick actions consume
+ * premium requests. Usage is recorded by the backend for every answered prompt.
+ */
+export function UsageDashboard() {
+  const [range, setRange] = useState<UsageRange>('30d');
+  const [groupBy, setGroupBy] = useState<UsageGroupBy>('session');
+  const [report, setReport] = useState<UsageReport | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadUsage = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await ApiClient.getInstance().getUsage({ from: rangeStart(range), groupBy });
+      if (response.success && response.data) {
+        setReport(response.data);
+        setError(null);
+      } else {
+        setError(response.error?.message || 'Failed to load usage');
+      }
+    } catch (err) {
+      console.error('[UsageDashboard] Failed to load usage:', err);
+      setError('Failed to load usage');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [range, groupBy]);
+
+  useEffect(() => {
+    void loadUsage();
+  }, [loadUsage]);
+
+  const totals = report?.totals;
+  const summary: Array<{ label: string; value: string }> = totals
+    ? [
+        { label: 'Premium requests', value: formatPremiumRequests(totals.premiumRequests) },
+        { label: 'Messages', value: String(totals.messages) },
+        { label: 'Tool calls', value: String(totals.toolCalls) },
+        { label: 'Response time', value: formatDuration(totals.durationMs) },
+      ]
+    : [];
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Usage</h2>
+        <button
+          type="button"
+          onClick={() => void loadUsage()}
+          disabled={isLoading}
+          className="flex items-center gap-1 text-sm text-primary-600 dark:text-primary-400 hover:underline disabled:opacity-50"
+        >
+          <RefreshCw className={cn('w-4 h-4', isLoading && 'animate-spin')} />
+          Refresh
+        </button>
+      </div>
+
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+        Premium requests are estimated from each model's pricing multiplier. The quota shown by
+        GitHub is authoritative.
+      </p>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        <select
+          value={range}
+          onChange={(e) => setRange(e.target.value as UsageRange)}
+          aria-label="Usage period"
+          className="px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+        >
+          {RANGE_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <div className="flex gap-1">
+          {GROUP_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => setGroupBy(option.value)}
+              className={cn(
+                'py-1.5 px-3 rounded-lg border transition-colors text-sm',
+                groupBy === option.value
+                  ? 'border-primary-500 bg-primary-50 dark:bg-primary-900/20 text-primary-600 dark:text-primary-400'
+                  : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:border-primary-400'
+              )}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400">
+          {error}. Make sure the backend is running.
+        </p>
+      )}
+
+      {!error && report && (
+        <>
+          <div className="grid grid-cols-4 gap-2 mb-4">
+            {summary.map((item) => (
+              <div key={item.label} className="p-3 rounded-lg bg-gray-50 dark:bg-gray-900/40">
+                <p className="text-lg font-semibold text-gray-900 dark:text-white">{item.value}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">{item.label}</p>
+              </div>
+            ))}
+          </div>
+
+          {report.groups.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No usage in this period.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                  <th className="py-2 font-medium">
+                    {GROUP_OPTIONS.find((option) => option.value === report.groupBy)?.label}
+                  </th>
+                  <th className="py-2 font-medium text-right">Premium</th>
+                  <th className="py-2 font-medium text-right">Messages</th>
+                  <th className="py-2 font-medium text-right">Tools</th>
+                  <th className="py-2 font-medium text-right">Prompt / Reply</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.groups.map((group) => (
+                  <tr
+                    key={group.key}
+                    className="border-b border-gray-100 dark:border-gray-700/50 text-gray-700 dark:text-gray-300"
+                  >
+                    <td className="py-2 pr-2 truncate max-w-[12rem]" title={group.key}>
+                      {group.label}
+                    </td>
+                    <td className="py-2 text-right font-medium">
+                      {formatPremiumRequests(group.premiumRequests)}
+                    </td>
+                    <td className="py-2 text-right">{group.messages}</td>
+                    <td className="py-2 text-right">{group.toolCalls}</td>
+                    <td className="py-2 text-right text-xs text-gray-500 dark:text-gray-400">
+                      {formatChars(group.promptChars)} / {formatChars(group.responseChars)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
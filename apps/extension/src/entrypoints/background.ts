@@ -2,9 +2,21 @@
  * Background service worker for DevMentorAI extension
  */
 
-import type { SelectionContext, TextReplacementBehavior } from '@devmentorai/shared';
+import type {
+  CustomQuickAction,
+  SelectionContext,
+  TextReplacementBehavior,
+} from '@devmentorai/shared';
 import { normalizeQuickActionModel } from '../constants/models';
 import { getBestActiveTab, storageGet, storageRemove, storageSet } from '../lib/browser-utils';
+import {
+  getCustomQuickAction,
+  isCustomQuickActionsChange,
+  loadCustomQuickActions,
+  parseCustomActionId,
+  renderPromptTemplate,
+  toCustomActionId,
+} from '../lib/custom-quick-actions';
 import {
   dismissUpdateBadge,
   forceUpdateCheck,
@@ -20,6 +32,9 @@ type ChromeWithSidebar = typeof chrome & {
   };
 };
 
+// Quick actions whose answer is an analysis, never a replacement for the selection
+const ANALYSIS_QUICK_ACTIONS = new Set(['analyze_iam_policy']);
+
 type ChromeWithBrowserAction = typeof chrome & {
   browserAction?: {
     onClicked?: {
@@ -97,6 +112,13 @@ export default defineBackground(() => {
   // Handle context menu clicks
   chrome.contextMenus.onClicked.addListener(handleContextMenuClick);
 
+  // Rebuild context menus when custom quick actions change (options page or another browser)
+  chrome.storage.onChanged.addListener((changes) => {
+    if (isCustomQuickActionsChange(changes)) {
+      setupContextMenus();
+    }
+  });
+
   // Fallback for browsers where openPanelOnActionClick is not supported.
   const chromeExtended = chrome as ChromeWithBrowserAction;
   const actionApi = chromeExtended.action ?? chromeExtended.browserAction;
@@ -176,10 +198,36 @@ function setupContextMenus() {
       });
     }
 
+    void addCustomActionMenus();
+
     console.log('[DevMentorAI] Context menus created');
   });
 }
 
+/**
+ * Add the user's custom quick actions below the built-in ones
+ */
+async function addCustomActionMenus() {
+  const customActions = await loadCustomQuickActions();
+  if (customActions.length === 0) return;
+
+  chrome.contextMenus.create({
+    id: 'devmentorai-custom-separator',
+    parentId: 'devmentorai-parent',
+    type: 'separator',
+    contexts: ['selection'],
+  });
+
+  for (const action of customActions) {
+    chrome.contextMenus.create({
+      id: `devmentorai-${toCustomActionId(action.id)}`,
+      parentId: 'devmentorai-parent',
+      title: `${action.emoji} ${action.name}`,
+      contexts: ['selection'],
+    });
+  }
+}
+
 /**
  * Handle context menu clicks
  */
@@ -207,6 +255,13 @@ async function handleContextMenuClick(
     selectedText: selectedText.substring(0, 100),
   });
 
+  const customActionId = parseCustomActionId(action);
+  const customAction = customActionId ? await getCustomQuickAction(customActionId) : null;
+  if (customActionId && !customAction) {
+    console.warn(`[DevMentorAI] Custom quick action no longer exists: ${customActionId}`);
+    return;
+  }
+
   // Store the action context for the sidepanel
   await storageSet({
     pendingAction: {
@@ -214,6 +269,13 @@ async function handleContextMenuClick(
       selectedText,
       pageUrl: tab.url,
       pageTitle: tab.title,
+      prompt: customAction
+        ? renderPromptTemplate(customAction.promptTemplate, {
+            selection: selectedText,
+            pageUrl: tab.url,
+            pageTitle: tab.title,
+          })
+        : undefined,
       timestamp: Date.now(),
     },
   });
@@ -320,8 +382,19 @@ async function handleMessage(
         textReplacementBehavior?: TextReplacementBehavior;
       };
 
+      const customActionId = parseCustomActionId(action);
+      const customAction = customActionId ? await getCustomQuickAction(customActionId) : null;
+      if (customActionId && !customAction) {
+        sendResponse({ success: false, error: 'Custom quick action not found' });
+        break;
+      }
+
       // Check if this is a replaceable action (from editable field)
-      const isReplaceable = selectionContext?.isReplaceable && textReplacementBehavior !== 'never';
+      const isReplaceable =
+        selectionContext?.isReplaceable &&
+        textReplacementBehavior !== 'never' &&
+        !ANALYSIS_QUICK_ACTIONS.has(action) &&
+        (!customAction || customAction.replaceSelection);
 
       if (isReplaceable && sender.tab?.id) {
         // Stream the response to content script for inline replacement
@@ -331,7 +404,8 @@ async function handleMessage(
           selectedText,
           pageUrl,
           pageTitle,
-          true // isReplaceable - use target language for translations
+          true, // isReplaceable - use target language for translations
+          customAction ?? undefined
         );
         sendResponse({ success: true, streamed: true });
       } else {
@@ -342,6 +416,13 @@ async function handleMessage(
             selectedText,
             pageUrl,
             pageTitle,
+            prompt: customAction
+              ? renderPromptTemplate(customAction.promptTemplate, {
+                  selection: selectedText,
+                  pageUrl,
+                  pageTitle,
+                })
+              : undefined,
             timestamp: Date.now(),
           },
         });
@@ -420,13 +501,15 @@ async function handleMessage(
  * @param selectedText - The text to process
  * @param targetLanguage - Target language for translation (optional)
  */
+const QUICK_ACTION_OUTPUT_INSTRUCTION =
+  'CRITICAL: Output ONLY the requested content. No explanations, no XML tags, no <reminder> blocks, no conversational text.';
+
 function buildQuickActionPrompt(
   action: string,
   selectedText: string,
   targetLanguage?: string
 ): string {
-  const baseInstruction =
-    'CRITICAL: Output ONLY the requested content. No explanations, no XML tags, no <reminder> blocks, no conversational text.';
+  const baseInstruction = QUICK_ACTION_OUTPUT_INSTRUCTION;
 
   const actionPrompts: Record<string, string> = {
     explain: `Explain the following text clearly and concisely:\n\n${selectedText}\n\n${baseInstruction}`,
@@ -462,14 +545,16 @@ function sanitizeQuickActionContent(content: string): string {
 /**
  * Handle streaming quick action to content script
  * @param isReplaceable - Whether the action is from an editable field (affects translation language)
+ * @param customAction - User-defined action providing the prompt template and model
  */
 async function handleStreamingQuickAction(
   tabId: number,
   action: string,
   selectedText: string,
-  _pageUrl: string,
-  _pageTitle: string,
-  isReplaceable = true
+  pageUrl: string,
+  pageTitle: string,
+  isReplaceable = true,
+  customAction?: CustomQuickAction
 ): Promise<void> {
   const actionId = `qa-${Date.now()}`;
 
@@ -486,7 +571,7 @@ async function handleStreamingQuickAction(
     'translationLanguage', // Native language (for reading)
     'targetTranslationLanguage', // Target language (for writing)
   ]);
-  const model = normalizeQuickActionModel(settings.quickActionModel);
+  const model = normalizeQuickActionModel(customAction?.model ?? settings.quickActionModel);
 
   // Smart translation: use target language for editable fields, native for reading
   let targetLanguage: string | undefined;
@@ -498,7 +583,9 @@ async function handleStreamingQuickAction(
   }
 
   // Build the prompt with optional target language
-  const prompt = buildQuickActionPrompt(action, selectedText, targetLanguage);
+  const prompt = customAction
+    ? `${renderPromptTemplate(customAction.promptTemplate, { selection: selectedText, pageUrl, pageTitle })}\n\n${QUICK_ACTION_OUTPUT_INSTRUCTION}`
+    : buildQuickActionPrompt(action, selectedText, targetLanguage);
 
   // Send stream start message to content script
   try {
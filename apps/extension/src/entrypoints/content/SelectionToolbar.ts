@@ -3,6 +3,10 @@
  * Quick action toolbar that appears when text is selected
  */
 
+import type { CustomQuickAction } from '@devmentorai/shared';
+import { toCustomActionId } from '../../lib/custom-quick-actions';
+import { isIamPolicyDocument } from '../../lib/iam-policy-detector';
+
 let toolbarContainer: HTMLDivElement | null = null;
 
 interface QuickAction {
@@ -20,11 +24,23 @@ const QUICK_ACTIONS: QuickAction[] = [
   { id: 'summarize', label: '📄', icon: 'summary', tooltip: 'Summarize' },
 ];
 
+// Shown first, and only when the selection is something the action handles
+const CONTEXTUAL_ACTIONS: Array<QuickAction & { matches: (text: string) => boolean }> = [
+  {
+    id: 'analyze_iam_policy',
+    label: '🛡️',
+    icon: 'shield',
+    tooltip: 'Analyze IAM Policy',
+    matches: isIamPolicyDocument,
+  },
+];
+
 export function createSelectionToolbar(
   x: number,
   y: number,
   selectedText: string,
-  onAction: (action: string) => void
+  onAction: (action: string) => void,
+  customActions: CustomQuickAction[] = []
 ) {
   removeSelectionToolbar();
 
@@ -231,7 +247,7 @@ export function createSelectionToolbar(
     }
 
     .toolbar:hover .actions-container, .toolbar.expanded .actions-container {
-      max-width: 400px;
+      max-width: 800px;
       opacity: 1;
       margin-left: 4px;
       overflow: visible; /* needed for submenus! */
@@ -257,8 +273,19 @@ export function createSelectionToolbar(
   const actionsContainer = document.createElement('div');
   actionsContainer.className = 'actions-container';
 
-  // Add action buttons
-  for (const action of QUICK_ACTIONS) {
+  // Add action buttons (contextual, built-in, then the user's own)
+  const actions: QuickAction[] = [
+    ...CONTEXTUAL_ACTIONS.filter((action) => action.matches(selectedText)),
+    ...QUICK_ACTIONS,
+    ...customActions.map((action) => ({
+      id: toCustomActionId(action.id),
+      label: action.emoji,
+      icon: 'custom',
+      tooltip: action.name,
+    })),
+  ];
+
+  for (const action of actions) {
     const btn = document.createElement('button');
     btn.className = 'action-btn';
     btn.textContent = action.label;
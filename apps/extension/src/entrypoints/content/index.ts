@@ -4,6 +4,7 @@
  */
 
 import type {
+  CustomQuickAction,
   QuickActionStreamMessage,
   SelectionContext,
   TextReplacementBehavior,
@@ -17,6 +18,7 @@ import {
   startNetworkErrorCapture,
   startRuntimeErrorCapture,
 } from '../../lib/context-extractor';
+import { isCustomQuickActionsChange, loadCustomQuickActions } from '../../lib/custom-quick-actions';
 import { detectSelection } from '../../lib/selection-detector';
 import { replaceSelectedText } from '../../lib/text-replacer';
 import { createFloatingBubble, removeFloatingBubble } from './FloatingBubble';
@@ -87,6 +89,7 @@ export default defineContentScript({
     let currentSelectionContext: SelectionContext | null = null;
     let currentTextReplacementBehavior: TextReplacementBehavior = 'ask';
     let lastSelectionRect: DOMRect | null = null;
+    let customQuickActions: CustomQuickAction[] = [];
 
     // Store pending action context - preserved even when toolbar is dismissed
     let pendingQuickActionContext: SelectionContext | null = null;
@@ -384,12 +387,18 @@ export default defineContentScript({
       const x = e ? e.clientX : rect.left + rect.width / 2;
       const y = rect.top - 10;
 
-      createSelectionToolbar(x, y, selectedText, (action) => {
-        // Handle quick action
-        handleQuickAction(action, selectedText, selectionContext);
-        removeSelectionToolbar();
-        isToolbarVisible = false;
-      });
+      createSelectionToolbar(
+        x,
+        y,
+        selectedText,
+        (action) => {
+          // Handle quick action
+          handleQuickAction(action, selectedText, selectionContext);
+          removeSelectionToolbar();
+          isToolbarVisible = false;
+        },
+        customQuickActions
+      );
     }
 
     function handleQuickAction(
@@ -425,6 +434,8 @@ export default defineContentScript({
           textReplacementBehavior?: TextReplacementBehavior;
         }>(['showSelectionToolbar', 'floatingBubbleEnabled', 'textReplacementBehavior']);
 
+        customQuickActions = await loadCustomQuickActions();
+
         // Update text replacement behavior
         if (result.textReplacementBehavior) {
           currentTextReplacementBehavior = result.textReplacementBehavior;
@@ -442,6 +453,12 @@ export default defineContentScript({
 
     // Listen for settings changes
     chrome.storage.onChanged.addListener((changes, areaName) => {
+      if (isCustomQuickActionsChange(changes)) {
+        void loadCustomQuickActions().then((actions) => {
+          customQuickActions = actions;
+        });
+      }
+
       if (areaName !== 'local') return;
 
       if (changes.textReplacementBehavior) {
@@ -1,4 +1,12 @@
 import { useCallback, useEffect, useState } from 'react';
+import { BackendPairing } from '../../components/BackendPairing';
+import { ConfigRulesSettings } from '../../components/ConfigRulesSettings';
+import { CustomQuickActionsEditor } from '../../components/CustomQuickActionsEditor';
+import { PersonaManager } from '../../components/PersonaManager';
+import { ServerSettings } from '../../components/ServerSettings';
+import { StorageSettings } from '../../components/StorageSettings';
+import { ToolPermissionsSettings } from '../../components/ToolPermissionsSettings';
+import { UsageDashboard } from '../../components/UsageDashboard';
 import { QUICK_ACTION_MODEL_OPTIONS } from '../../constants/models';
 import {
   AVAILABLE_LANGUAGES,
@@ -158,6 +166,8 @@ export function OptionsPage() {
               placeholder="http://localhost:3847"
             />
           </div>
+
+          <BackendPairing />
         </div>
 
         {/* Appearance */}
@@ -371,6 +381,16 @@ export function OptionsPage() {
           </div>
         </div>
 
+        <PersonaManager />
+
+        <ToolPermissionsSettings />
+
+        <ConfigRulesSettings />
+
+        <StorageSettings />
+
+        <ServerSettings />
+
         {/* Image & Screenshots */}
         <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-6 mb-6">
           <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
@@ -609,6 +629,8 @@ export function OptionsPage() {
           </div>
         </div>
 
+        <CustomQuickActionsEditor />
+
         {/* Save Button */}
         <div className="flex justify-end gap-3">
           {saved && (
@@ -625,8 +647,11 @@ export function OptionsPage() {
           </button>
         </div>
 
-        {/* Support & Help */}
+        {/* Usage, Support & Help */}
         <div className="mt-8 pt-6 border-t border-gray-200 dark:border-gray-700">
+          <UsageDashboard />
+
+          {/* Support & Help */}
           <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-6 mb-6">
             <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
               Support & Help
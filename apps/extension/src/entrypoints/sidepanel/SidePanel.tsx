@@ -1,11 +1,16 @@
 import type {
+  BuiltInQuickAction,
   CopilotAuthStatus,
   CopilotQuotaStatus,
   ImagePayload,
   MessageContext,
+  MessageSearchResult,
   ModelInfo,
   QuickAction,
   Session,
+  SessionExport,
+  SessionExportFormat,
+  ToolAccessDenial,
 } from '@devmentorai/shared';
 import { useCallback, useEffect, useRef, useState } from 'react';
 import { ChatView } from '../../components/ChatView';
@@ -19,6 +24,7 @@ import { UpdateBanner } from '../../components/UpdateBanner';
 import { useBackendConnection } from '../../hooks/useBackendConnection';
 import { useChat } from '../../hooks/useChat';
 import { useContextExtraction } from '../../hooks/useContextExtraction';
+import { usePersonas } from '../../hooks/usePersonas';
 import { useSessions } from '../../hooks/useSessions';
 import { useSettings } from '../../hooks/useSettings';
 import { useUpdateChecker } from '../../hooks/useUpdateChecker';
@@ -36,15 +42,25 @@ export function SidePanel() {
   const [showModelSwitchModal, setShowModelSwitchModal] = useState(false);
   const [showScreenshotConfirm, setShowScreenshotConfirm] = useState(false);
   const [contextModeEnabled, setContextModeEnabled] = useState(false);
-  const [, setAvailableModels] = useState<ModelInfo[]>([]);
+  const [availableModels, setAvailableModels] = useState<ModelInfo[]>([]);
   const [authStatus, setAuthStatus] = useState<CopilotAuthStatus | null>(null);
   const [quotaStatus, setQuotaStatus] = useState<CopilotQuotaStatus | null>(null);
   const [isChangingModel, setIsChangingModel] = useState(false);
+  const [focusMessageId, setFocusMessageId] = useState<string | null>(null);
+  const [sessionActionError, setSessionActionError] = useState<string | null>(null);
+  // Edited prompt to send once a forked session has loaded its copied history
+  const [pendingFork, setPendingFork] = useState<{
+    sessionId: string;
+    content: string;
+    historyCount: number;
+  } | null>(null);
   const [pendingAction, setPendingAction] = useState<{
     action: ExtendedAction;
     selectedText: string;
     pageUrl?: string;
     pageTitle?: string;
+    // Pre-rendered prompt for custom quick actions
+    prompt?: string;
   } | null>(null);
 
   // Ref to ChatView's addImage function (passed via callback)
@@ -57,20 +73,36 @@ export function SidePanel() {
 
   const { updateState, dismissBadge } = useUpdateChecker();
 
-  const { status: connectionStatus, error: connectionError } = useBackendConnection();
+  const { status: connectionStatus, error: connectionError, mockMode } = useBackendConnection();
   const {
     sessions,
     activeSession,
     isLoading: sessionsLoading,
     createSession,
+    importSession,
+    forkSession,
+    updateSessionWorkspace,
+    updateSessionPinned,
     selectSession,
     deleteSession,
     refreshSessions,
   } = useSessions({ connectionStatus });
+  const { personas, createPersona } = usePersonas({ enabled: connectionStatus === 'connected' });
 
-  const { messages, isStreaming, isSending, sendMessage, abortMessage } = useChat(
-    activeSession?.id
-  );
+  const {
+    messages,
+    isStreaming,
+    isSending,
+    sendMessage,
+    abortMessage,
+    regenerateMessage,
+    regeneratingMessageId,
+    selectVariant,
+    accessDenials,
+    dismissAccessDenial,
+    permissionRequests,
+    respondToPermission,
+  } = useChat(activeSession?.id);
 
   // Context extraction hook
   const {
@@ -204,11 +236,13 @@ export function SidePanel() {
         return;
       }
 
-      if (pendingAction.action.startsWith('rewrite_')) {
+      if (pendingAction.prompt) {
+        prompt = pendingAction.prompt;
+      } else if (pendingAction.action.startsWith('rewrite_')) {
         const tone = pendingAction.action.replace('rewrite_', '');
         prompt = `Rewrite the following text in a ${tone} tone:\n\n${pendingAction.selectedText}`;
       } else {
-        const actionPrompts: Record<QuickAction, string> = {
+        const actionPrompts: Record<BuiltInQuickAction, string> = {
           explain: 'Explain the following:\n\n',
           translate: `Translate the following to ${targetLanguage}:\n\n`,
           rewrite: 'Rewrite the following for clarity and improved style:\n\n',
@@ -217,9 +251,12 @@ export function SidePanel() {
           expand: 'Expand on the following with more details:\n\n',
           analyze_config:
             'Analyze the following configuration for best practices and potential issues:\n\n',
+          analyze_iam_policy:
+            'Analyze the following AWS IAM policy with the analyze_iam_policy tool. Explain each finding and suggest a least-privilege version:\n\n',
           diagnose_error: 'Diagnose the following error and suggest solutions:\n\n',
         };
-        prompt = actionPrompts[pendingAction.action as QuickAction] + pendingAction.selectedText;
+        prompt =
+          actionPrompts[pendingAction.action as BuiltInQuickAction] + pendingAction.selectedText;
       }
 
       console.log('[SidePanel] Sending message with prompt length:', prompt.length);
@@ -317,9 +354,11 @@ export function SidePanel() {
       name: string,
       type: Session['type'],
       model?: string,
-      reasoningEffort?: 'low' | 'medium' | 'high'
+      reasoningEffort?: 'low' | 'medium' | 'high',
+      provider?: Session['provider'],
+      workspaceRoots?: string[]
     ) => {
-      await createSession(name, type, model, reasoningEffort);
+      await createSession(name, type, model, reasoningEffort, provider, workspaceRoots);
       setShowNewSessionModal(false);
     },
     [createSession]
@@ -347,6 +386,133 @@ export function SidePanel() {
     }
   }, [activeSession?.id, refreshSessions]);
 
+  const handleExportSession = useCallback(
+    async (format: SessionExportFormat) => {
+      if (!activeSession) return;
+
+      const response = await apiClient.exportSession(activeSession.id, format);
+      if (!response.success || !response.data) {
+        setSessionActionError(response.error?.message || 'Failed to export conversation');
+        return;
+      }
+
+      const { content, filename, contentType } = response.data;
+      const url = URL.createObjectURL(new Blob([content], { type: contentType }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+      setSessionActionError(null);
+    },
+    [activeSession, apiClient]
+  );
+
+  const handleImportSession = useCallback(
+    async (file: File) => {
+      try {
+        const data = JSON.parse(await file.text()) as SessionExport;
+        await importSession(data);
+        setSessionActionError(null);
+      } catch (error) {
+        console.error('[SidePanel] Failed to import session:', error);
+        setSessionActionError(
+          error instanceof SyntaxError
+            ? 'Import failed: the file is not a valid DevMentorAI JSON export'
+            : `Import failed: ${error instanceof Error ? error.message : 'unknown error'}`
+        );
+      }
+    },
+    [importSession]
+  );
+
+  const handleEditAndFork = useCallback(
+    async (messageId: string, content: string) => {
+      if (!activeSession) return;
+
+      try {
+        const forkedSession = await forkSession(activeSession.id, messageId);
+        setPendingFork({
+          sessionId: forkedSession.id,
+          content,
+          historyCount: forkedSession.messageCount,
+        });
+        setSessionActionError(null);
+      } catch (error) {
+        console.error('[SidePanel] Failed to fork session:', error);
+        setSessionActionError(
+          `Fork failed: ${error instanceof Error ? error.message : 'unknown error'}`
+        );
+      }
+    },
+    [activeSession, forkSession]
+  );
+
+  const handleRegenerateMessage = useCallback(
+    async (messageId: string, model?: string) => {
+      try {
+        await regenerateMessage(messageId, model);
+        setSessionActionError(null);
+      } catch (error) {
+        console.error('[SidePanel] Failed to regenerate response:', error);
+        setSessionActionError(
+          `Regenerate failed: ${error instanceof Error ? error.message : 'unknown error'}`
+        );
+      }
+    },
+    [regenerateMessage]
+  );
+
+  // Grant a refused file access by adding its folder to the session's workspace
+  const handleAllowAccess = useCallback(
+    async (denial: ToolAccessDenial) => {
+      if (!activeSession || !denial.suggestedRoot) return;
+      try {
+        await updateSessionWorkspace(activeSession.id, [
+          ...activeSession.workspaceRoots,
+          denial.suggestedRoot,
+        ]);
+        dismissAccessDenial(denial);
+        setSessionActionError(null);
+      } catch (error) {
+        console.error('[SidePanel] Failed to update workspace roots:', error);
+        setSessionActionError(
+          `Workspace update failed: ${error instanceof Error ? error.message : 'unknown error'}`
+        );
+      }
+    },
+    [activeSession, dismissAccessDenial, updateSessionWorkspace]
+  );
+
+  // Send the edited prompt once the forked session's history is on screen
+  useEffect(() => {
+    if (!pendingFork || activeSession?.id !== pendingFork.sessionId || isStreaming) return;
+    if (
+      messages.length !== pendingFork.historyCount ||
+      messages.some((m) => m.sessionId !== pendingFork.sessionId)
+    ) {
+      return;
+    }
+
+    setPendingFork(null);
+    sendMessage(pendingFork.content);
+  }, [pendingFork, activeSession?.id, isStreaming, messages, sendMessage]);
+
+  // Jump to a message picked from cross-session search
+  const handleSelectSearchResult = useCallback(
+    (result: MessageSearchResult) => {
+      if (result.sessionId !== activeSession?.id) {
+        selectSession(result.sessionId);
+      }
+      setFocusMessageId(result.messageId);
+    },
+    [activeSession?.id, selectSession]
+  );
+
+  const handleFocusMessageHandled = useCallback(() => {
+    setFocusMessageId(null);
+  }, []);
+
   // D.1 - Handle using page context in chat
   const handleUsePageContext = useCallback(
     (context: { url: string; title: string; selectedText?: string }) => {
@@ -387,9 +553,21 @@ export function SidePanel() {
         onOpenSettings={() => chrome.runtime.openOptionsPage()}
         onOpenHelp={() => setShowHelpModal(true)}
         onViewPage={() => setShowPageContextModal(true)}
+        onExportSession={activeSession ? handleExportSession : undefined}
+        onImportSession={connectionStatus === 'connected' ? handleImportSession : undefined}
       />
 
-      {connectionStatus === 'connected' && authStatus && !authStatus.isAuthenticated && (
+      {mockMode && (
+        <div className="px-4 py-2 bg-amber-50 dark:bg-amber-900/20 border-b border-amber-200 dark:border-amber-800">
+          <p className="text-xs text-amber-700 dark:text-amber-300">
+            Mock mode: the backend couldn't start Copilot, so Copilot sessions get simulated
+            replies. Run <code className="font-mono">devmentorai-server doctor</code> and restart
+            the backend.
+          </p>
+        </div>
+      )}
+
+      {!mockMode && authStatus && !authStatus.isAuthenticated && (
         <div className="px-4 py-2 bg-amber-50 dark:bg-amber-900/20 border-b border-amber-200 dark:border-amber-800">
           <p className="text-xs text-amber-700 dark:text-amber-300">
             Copilot login required. Run <code className="font-mono">copilot login</code> and restart
@@ -404,6 +582,19 @@ export function SidePanel() {
         onDismiss={dismissBadge}
       />
 
+      {sessionActionError && (
+        <div className="px-4 py-2 bg-red-50 dark:bg-red-900/20 border-b border-red-200 dark:border-red-800 flex items-center justify-between gap-2">
+          <p className="text-sm text-red-600 dark:text-red-400">{sessionActionError}</p>
+          <button
+            type="button"
+            onClick={() => setSessionActionError(null)}
+            className="text-xs text-red-500 hover:underline shrink-0"
+          >
+            Dismiss
+          </button>
+        </div>
+      )}
+
       {connectionError && (
         <div className="px-4 py-2 bg-red-50 dark:bg-red-900/20 border-b border-red-200 dark:border-red-800">
           <p className="text-sm text-red-600 dark:text-red-400">{connectionError}</p>
@@ -415,6 +606,13 @@ export function SidePanel() {
         activeSessionId={activeSession?.id}
         onSelectSession={selectSession}
         onDeleteSession={deleteSession}
+        onTogglePin={(sessionId, pinned) => {
+          updateSessionPinned(sessionId, pinned).catch((err) =>
+            console.error('[SidePanel] Failed to pin session:', err)
+          );
+        }}
+        onSelectSearchResult={handleSelectSearchResult}
+        personas={personas}
       />
 
       <ChatView
@@ -441,12 +639,27 @@ export function SidePanel() {
         onRegisterAddImage={(fn) => {
           addImageToChatRef.current = fn;
         }}
+        focusMessageId={focusMessageId}
+        onFocusMessageHandled={handleFocusMessageHandled}
+        onEditAndFork={connectionStatus === 'connected' ? handleEditAndFork : undefined}
+        onRegenerateMessage={connectionStatus === 'connected' ? handleRegenerateMessage : undefined}
+        regeneratingMessageId={regeneratingMessageId}
+        availableModels={availableModels}
+        onSelectVariant={connectionStatus === 'connected' ? selectVariant : undefined}
+        personas={personas}
+        accessDenials={accessDenials}
+        onAllowAccess={connectionStatus === 'connected' ? handleAllowAccess : undefined}
+        onDismissAccessDenial={dismissAccessDenial}
+        permissionRequests={permissionRequests}
+        onPermissionDecision={(request, decision) => void respondToPermission(request, decision)}
       />
 
       {showNewSessionModal && (
         <NewSessionModal
           onClose={() => setShowNewSessionModal(false)}
           onSubmit={handleNewSession}
+          personas={personas}
+          onCreatePersona={createPersona}
         />
       )}
 
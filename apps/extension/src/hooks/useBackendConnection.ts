@@ -87,6 +87,8 @@ export function useBackendConnection() {
     status,
     error,
     health,
+    /** The backend answers, but Copilot failed to start and replies are simulated */
+    mockMode: status === 'connected' && health?.mockMode === true,
     baseUrl,
     reconnect: checkHealth,
   };
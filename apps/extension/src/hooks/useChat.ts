@@ -4,7 +4,10 @@ import type {
   ImagePayload,
   Message,
   MessageContext,
+  PermissionDecision,
   StreamEvent,
+  ToolAccessDenial,
+  ToolPermissionRequest,
 } from '@devmentorai/shared';
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { ApiClient } from '../services/api-client';
@@ -38,7 +41,12 @@ export function useChat(sessionId: string | undefined) {
   const [isStreaming, setIsStreaming] = useState(false);
   const [isSending, setIsSending] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [regeneratingMessageId, setRegeneratingMessageId] = useState<string | null>(null);
   const [isExtractingContext, setIsExtractingContext] = useState(false);
+  // File accesses refused by the workspace sandbox, waiting for the user to decide
+  const [accessDenials, setAccessDenials] = useState<ToolAccessDenial[]>([]);
+  // Tool calls paused until the user allows or denies them
+  const [permissionRequests, setPermissionRequests] = useState<ToolPermissionRequest[]>([]);
   const abortControllerRef = useRef<AbortController | null>(null);
   const currentMessageRef = useRef<string>('');
   const currentSessionRef = useRef<string | undefined>(sessionId);
@@ -74,6 +82,8 @@ export function useChat(sessionId: string | undefined) {
       }
       setIsStreaming(false);
       setIsSending(false);
+      setAccessDenials([]);
+      setPermissionRequests([]);
       void loadMessages(sessionId);
     } else {
       setMessages([]);
@@ -358,8 +368,30 @@ export function useChat(sessionId: string | undefined) {
                   );
                   break;
 
+                case 'tool_access_denied': {
+                  const denial = event.data.accessDenial;
+                  if (denial) {
+                    setAccessDenials((prev) =>
+                      prev.some((d) => d.path === denial.path && d.reason === denial.reason)
+                        ? prev
+                        : [...prev, denial]
+                    );
+                  }
+                  break;
+                }
+
+                case 'permission_request': {
+                  const permissionRequest = event.data.permissionRequest;
+                  if (permissionRequest) {
+                    setPermissionRequests((prev) => [...prev, permissionRequest]);
+                  }
+                  break;
+                }
+
                 case 'error': {
                   const streamError = event.data.error || 'An error occurred';
+                  // The trace ID finds the matching entries in the backend log
+                  console.error(`[useChat] Stream error (trace ${event.traceId}):`, streamError);
                   if (isLikelySessionRecoveryError(streamError)) {
                     deferredSessionError = streamError;
                   } else {
@@ -425,6 +457,11 @@ export function useChat(sessionId: string | undefined) {
 
           await streamOnce();
         }
+
+        // Swap optimistic messages for the stored ones so message actions use persisted IDs
+        if (currentSessionRef.current === requestSessionId) {
+          await loadMessages(requestSessionId);
+        }
       } catch (err) {
         if (err instanceof Error && err.name === 'AbortError') {
           console.log('[useChat] Request aborted');
@@ -449,10 +486,12 @@ export function useChat(sessionId: string | undefined) {
       } finally {
         setIsStreaming(false);
         setIsSending(false);
+        // The backend denies whatever is still waiting once the stream ends
+        setPermissionRequests([]);
         abortControllerRef.current = null;
       }
     },
-    [apiClient, isSending, isStreaming, sessionId]
+    [apiClient, isSending, isStreaming, loadMessages, sessionId]
   );
 
   const abortMessage = useCallback(async () => {
@@ -472,6 +511,71 @@ export function useChat(sessionId: string | undefined) {
     setIsSending(false);
   }, [apiClient, sessionId]);
 
+  // Replace a message in place with the stored version returned by the backend
+  const applyUpdatedMessage = useCallback((updated: Message) => {
+    if (currentSessionRef.current !== updated.sessionId) return;
+    setMessages((prev) => prev.map((m) => (m.id === updated.id ? updated : m)));
+  }, []);
+
+  const regenerateMessage = useCallback(
+    async (messageId: string, model?: string) => {
+      if (!sessionId || regeneratingMessageId) return;
+
+      setRegeneratingMessageId(messageId);
+      try {
+        const response = await apiClient.regenerateMessage(sessionId, messageId, model);
+        if (!response.success || !response.data) {
+          throw new Error(response.error?.message || 'Failed to regenerate response');
+        }
+        applyUpdatedMessage(response.data);
+      } finally {
+        setRegeneratingMessageId(null);
+      }
+    },
+    [apiClient, applyUpdatedMessage, regeneratingMessageId, sessionId]
+  );
+
+  const selectVariant = useCallback(
+    async (messageId: string, index: number) => {
+      if (!sessionId) return;
+
+      try {
+        const response = await apiClient.selectMessageVariant(sessionId, messageId, index);
+        if (response.success && response.data) {
+          applyUpdatedMessage(response.data);
+        }
+      } catch (err) {
+        console.error('[useChat] Failed to switch response variant:', err);
+      }
+    },
+    [apiClient, applyUpdatedMessage, sessionId]
+  );
+
+  const dismissAccessDenial = useCallback((denial: ToolAccessDenial) => {
+    setAccessDenials((prev) => prev.filter((d) => d !== denial));
+  }, []);
+
+  const respondToPermission = useCallback(
+    async (request: ToolPermissionRequest, decision: PermissionDecision) => {
+      if (!sessionId) return;
+
+      setPermissionRequests((prev) => prev.filter((r) => r.requestId !== request.requestId));
+      try {
+        const response = await apiClient.respondToPermission(
+          sessionId,
+          request.requestId,
+          decision
+        );
+        if (!response.success) {
+          console.warn('[useChat] Permission answer not accepted:', response.error?.message);
+        }
+      } catch (err) {
+        console.error('[useChat] Failed to answer permission request:', err);
+      }
+    },
+    [apiClient, sessionId]
+  );
+
   return {
     messages,
     isStreaming,
@@ -480,6 +584,13 @@ export function useChat(sessionId: string | undefined) {
     error,
     sendMessage,
     abortMessage,
+    regenerateMessage,
+    regeneratingMessageId,
+    selectVariant,
+    accessDenials,
+    dismissAccessDenial,
+    permissionRequests,
+    respondToPermission,
     clearError: () => setError(null),
     setIsExtractingContext,
   };
@@ -0,0 +1,98 @@
+import type { CreatePersonaRequest, Persona, UpdatePersonaRequest } from '@devmentorai/shared';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { ApiClient } from '../services/api-client';
+
+interface UsePersonasOptions {
+  /** Reload when this flips to true (e.g. once the backend is connected) */
+  enabled?: boolean;
+}
+
+export function usePersonas(options?: UsePersonasOptions) {
+  const enabled = options?.enabled ?? true;
+  const [personas, setPersonas] = useState<Persona[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const apiClient = useMemo(() => ApiClient.getInstance(), []);
+
+  const loadPersonas = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await apiClient.listPersonas();
+      if (response.success && response.data) {
+        setPersonas(response.data);
+        setError(null);
+      } else {
+        setError(response.error?.message || 'Failed to load personas');
+      }
+    } catch (err) {
+      console.error('[usePersonas] Failed to load personas:', err);
+      setError('Failed to load personas');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [apiClient]);
+
+  useEffect(() => {
+    if (enabled) {
+      void loadPersonas();
+    }
+  }, [enabled, loadPersonas]);
+
+  const createPersona = useCallback(
+    async (data: CreatePersonaRequest) => {
+      const response = await apiClient.createPersona(data);
+
+      if (!response.success || !response.data) {
+        throw new Error(response.error?.message || 'Failed to create persona');
+      }
+
+      const created = response.data;
+      setPersonas((prev) =>
+        [...prev, created].sort((a, b) =>
+          a.name.localeCompare(b.name, undefined, { sensitivity: 'base' })
+        )
+      );
+      return created;
+    },
+    [apiClient]
+  );
+
+  const updatePersona = useCallback(
+    async (personaId: string, data: UpdatePersonaRequest) => {
+      const response = await apiClient.updatePersona(personaId, data);
+
+      if (!response.success || !response.data) {
+        throw new Error(response.error?.message || 'Failed to update persona');
+      }
+
+      const updated = response.data;
+      setPersonas((prev) => prev.map((p) => (p.id === personaId ? updated : p)));
+      return updated;
+    },
+    [apiClient]
+  );
+
+  const deletePersona = useCallback(
+    async (personaId: string) => {
+      const response = await apiClient.deletePersona(personaId);
+
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to delete persona');
+      }
+
+      setPersonas((prev) => prev.filter((p) => p.id !== personaId));
+    },
+    [apiClient]
+  );
+
+  return {
+    personas,
+    isLoading,
+    error,
+    loadPersonas,
+    createPersona,
+    updatePersona,
+    deletePersona,
+  };
+}
@@ -1,4 +1,10 @@
-import type { CreateSessionRequest, Session, SessionType } from '@devmentorai/shared';
+import type {
+  CreateSessionRequest,
+  LlmProviderId,
+  Session,
+  SessionExport,
+  SessionType,
+} from '@devmentorai/shared';
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { ApiClient } from '../services/api-client';
 
@@ -78,10 +84,19 @@ export function useSessions(options?: UseSessionsOptions) {
       name: string,
       type: SessionType,
       model?: string,
-      reasoningEffort?: 'low' | 'medium' | 'high'
+      reasoningEffort?: 'low' | 'medium' | 'high',
+      provider?: LlmProviderId,
+      workspaceRoots?: string[]
     ) => {
       try {
-        const request: CreateSessionRequest = { name, type, model, reasoningEffort };
+        const request: CreateSessionRequest = {
+          name,
+          type,
+          model,
+          reasoningEffort,
+          provider,
+          workspaceRoots,
+        };
         const response = await apiClient.createSession(request);
 
         if (response.success && response.data) {
@@ -99,6 +114,38 @@ export function useSessions(options?: UseSessionsOptions) {
     [apiClient]
   );
 
+  const importSession = useCallback(
+    async (data: SessionExport) => {
+      const response = await apiClient.importSession(data);
+
+      if (!response.success || !response.data) {
+        throw new Error(response.error?.message || 'Failed to import session');
+      }
+
+      const importedSession = response.data;
+      setSessions((prev) => [importedSession, ...prev]);
+      setActiveSessionId(importedSession.id);
+      return importedSession;
+    },
+    [apiClient]
+  );
+
+  const forkSession = useCallback(
+    async (sessionId: string, messageId: string) => {
+      const response = await apiClient.forkSession(sessionId, messageId);
+
+      if (!response.success || !response.data) {
+        throw new Error(response.error?.message || 'Failed to fork session');
+      }
+
+      const forkedSession = response.data;
+      setSessions((prev) => [forkedSession, ...prev]);
+      setActiveSessionId(forkedSession.id);
+      return forkedSession;
+    },
+    [apiClient]
+  );
+
   const selectSession = useCallback(
     async (sessionId: string) => {
       setActiveSessionId(sessionId);
@@ -168,6 +215,45 @@ export function useSessions(options?: UseSessionsOptions) {
     [apiClient]
   );
 
+  const updateSessionWorkspace = useCallback(
+    async (sessionId: string, workspaceRoots: string[]) => {
+      const response = await apiClient.updateSession(sessionId, { workspaceRoots });
+
+      if (!response.success || !response.data) {
+        throw new Error(response.error?.message || 'Failed to update workspace roots');
+      }
+
+      const updatedSession = response.data;
+      setSessions((prev) =>
+        prev.map((session) => (session.id === sessionId ? updatedSession : session))
+      );
+
+      return updatedSession;
+    },
+    [apiClient]
+  );
+
+  const updateSessionPinned = useCallback(
+    async (sessionId: string, pinned: boolean) => {
+      const response = await apiClient.updateSession(sessionId, { pinned });
+
+      if (!response.success || !response.data) {
+        throw new Error(response.error?.message || 'Failed to update session');
+      }
+
+      const updatedSession = response.data;
+      // Pinned sessions are listed first, matching the backend order
+      setSessions((prev) =>
+        prev
+          .map((session) => (session.id === sessionId ? updatedSession : session))
+          .sort((a, b) => Number(b.pinned) - Number(a.pinned))
+      );
+
+      return updatedSession;
+    },
+    [apiClient]
+  );
+
   const activeSession = sessions.find((s) => s.id === activeSessionId) || null;
 
   return {
@@ -177,7 +263,11 @@ export function useSessions(options?: UseSessionsOptions) {
     isLoading,
     error,
     createSession,
+    importSession,
+    forkSession,
     updateSessionModel,
+    updateSessionWorkspace,
+    updateSessionPinned,
     selectSession,
     deleteSession,
     refreshSessions: loadSessions,
@@ -2,15 +2,16 @@
  * Browser compatibility helpers for Chrome/Firefox extension APIs.
  */
 
+type BrowserStorageArea = {
+  get?: (keys?: string | string[] | Record<string, unknown>) => Promise<Record<string, unknown>>;
+  set?: (items: Record<string, unknown>) => Promise<void>;
+  remove?: (keys: string | string[]) => Promise<void>;
+};
+
 type BrowserNamespace = {
   storage?: {
-    local?: {
-      get?: (
-        keys?: string | string[] | Record<string, unknown>
-      ) => Promise<Record<string, unknown>>;
-      set?: (items: Record<string, unknown>) => Promise<void>;
-      remove?: (keys: string | string[]) => Promise<void>;
-    };
+    local?: BrowserStorageArea;
+    sync?: BrowserStorageArea;
   };
   tabs?: {
     query?: (queryInfo: chrome.tabs.QueryInfo) => Promise<chrome.tabs.Tab[]>;
@@ -86,6 +87,76 @@ export async function storageRemove(keys: string | string[]): Promise<void> {
   });
 }
 
+/**
+ * Read from storage synced across the user's browsers (falls back to local storage
+ * when sync is unavailable, e.g. Firefox without an account).
+ */
+export async function syncStorageGet<T extends Record<string, unknown> = Record<string, unknown>>(
+  keys?: string | string[] | Record<string, unknown>
+): Promise<T> {
+  const browserApi = getBrowserApi();
+  if (browserApi?.storage?.sync?.get) {
+    return browserApi.storage.sync.get(keys) as Promise<T>;
+  }
+  if (!chrome.storage.sync) {
+    return storageGet<T>(keys);
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    chrome.storage.sync.get(keys as never, (items) => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message || 'Failed to read sync storage'));
+        return;
+      }
+      resolve((items ?? {}) as T);
+    });
+  });
+}
+
+export async function syncStorageSet(items: object): Promise<void> {
+  const browserApi = getBrowserApi();
+  if (browserApi?.storage?.sync?.set) {
+    await browserApi.storage.sync.set(items as Record<string, unknown>);
+    return;
+  }
+  if (!chrome.storage.sync) {
+    await storageSet(items);
+    return;
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    chrome.storage.sync.set(items as Record<string, unknown>, () => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message || 'Failed to write sync storage'));
+        return;
+      }
+      resolve();
+    });
+  });
+}
+
+export async function syncStorageRemove(keys: string | string[]): Promise<void> {
+  const browserApi = getBrowserApi();
+  if (browserApi?.storage?.sync?.remove) {
+    await browserApi.storage.sync.remove(keys);
+    return;
+  }
+  if (!chrome.storage.sync) {
+    await storageRemove(keys);
+    return;
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    chrome.storage.sync.remove(keys as never, () => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message || 'Failed to remove sync storage key'));
+        return;
+      }
+      resolve();
+    });
+  });
+}
+
 export async function queryTabs(queryInfo: chrome.tabs.QueryInfo): Promise<chrome.tabs.Tab[]> {
   const browserApi = getBrowserApi();
   if (browserApi?.tabs?.query) {
@@ -0,0 +1,202 @@
+/**
+ * Custom Quick Actions
+ * User-defined selection actions, stored in chrome.storage.sync so they follow
+ * the user across browsers. Sync storage caps each item at 8 KB, so every action
+ * gets its own key and `customQuickActions` holds their IDs in order.
+ */
+
+import type { CustomQuickAction, CustomQuickActionId } from '@devmentorai/shared';
+import { syncStorageGet, syncStorageRemove, syncStorageSet } from './browser-utils';
+
+export const CUSTOM_QUICK_ACTIONS_KEY = 'customQuickActions';
+const CUSTOM_QUICK_ACTION_KEY_PREFIX = 'customQuickAction:';
+
+/** chrome.storage.sync.QUOTA_BYTES_PER_ITEM */
+export const SYNC_QUOTA_BYTES_PER_ITEM = 8192;
+
+export const MAX_CUSTOM_QUICK_ACTIONS = 12;
+export const MAX_PROMPT_TEMPLATE_LENGTH = 2000;
+
+const CUSTOM_ACTION_PREFIX = 'custom:';
+
+/** Variables available in prompt templates */
+export const PROMPT_TEMPLATE_VARIABLES = ['selection', 'pageUrl', 'pageTitle'] as const;
+
+export interface PromptTemplateValues {
+  selection: string;
+  pageUrl?: string;
+  pageTitle?: string;
+}
+
+/**
+ * Action identifier used in toolbar callbacks, context menus and message metadata
+ */
+export function toCustomActionId(id: string): CustomQuickActionId {
+  return `${CUSTOM_ACTION_PREFIX}${id}`;
+}
+
+/**
+ * Extract the custom action ID from an action identifier, or null for built-in actions
+ */
+export function parseCustomActionId(action: string): string | null {
+  return action.startsWith(CUSTOM_ACTION_PREFIX) ? action.slice(CUSTOM_ACTION_PREFIX.length) : null;
+}
+
+export function createCustomQuickActionId(): string {
+  return `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Sync storage key of one action
+ */
+export function customQuickActionKey(id: string): string {
+  return `${CUSTOM_QUICK_ACTION_KEY_PREFIX}${id}`;
+}
+
+/**
+ * Whether a storage change touches the custom actions (their order or any one of them)
+ */
+export function isCustomQuickActionsChange(changes: Record<string, unknown>): boolean {
+  return Object.keys(changes).some(
+    (key) => key === CUSTOM_QUICK_ACTIONS_KEY || key.startsWith(CUSTOM_QUICK_ACTION_KEY_PREFIX)
+  );
+}
+
+/**
+ * Size of an action as sync storage counts it against the per-item quota: its key
+ * plus its JSON, in bytes
+ */
+export function customQuickActionBytes(action: Partial<CustomQuickAction>): number {
+  // Drafts don't have an ID yet; count one as long as a generated one
+  const id = action.id ?? createCustomQuickActionId();
+  return new TextEncoder().encode(customQuickActionKey(id) + JSON.stringify({ ...action, id }))
+    .length;
+}
+
+/**
+ * Fill {{variable}} placeholders in a prompt template.
+ * Templates without {{selection}} get the selected text appended so it is never lost.
+ */
+export function renderPromptTemplate(template: string, values: PromptTemplateValues): string {
+  const rendered = template.replaceAll(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => {
+    switch (name) {
+      case 'selection':
+        return values.selection;
+      case 'pageUrl':
+        return values.pageUrl || '';
+      case 'pageTitle':
+        return values.pageTitle || '';
+      default:
+        return match;
+    }
+  });
+
+  if (/\{\{\s*selection\s*\}\}/.test(template)) {
+    return rendered;
+  }
+  return `${rendered.trimEnd()}\n\n${values.selection}`;
+}
+
+/**
+ * Problems that prevent an action from being saved (empty when valid)
+ */
+export function validateCustomQuickAction(action: Partial<CustomQuickAction>): string[] {
+  const errors: string[] = [];
+  if (!action.name?.trim()) errors.push('Name is required');
+  if (!action.emoji?.trim()) errors.push('Emoji is required');
+  if (!action.promptTemplate?.trim()) {
+    errors.push('Prompt template is required');
+  } else if (action.promptTemplate.length > MAX_PROMPT_TEMPLATE_LENGTH) {
+    errors.push(`Prompt template must be at most ${MAX_PROMPT_TEMPLATE_LENGTH} characters`);
+  } else if (customQuickActionBytes(action) > SYNC_QUOTA_BYTES_PER_ITEM) {
+    // The template limit alone doesn't bound it: names are free length and JSON escapes grow
+    errors.push(
+      `Action is too large to sync (${customQuickActionBytes(action)} of ${SYNC_QUOTA_BYTES_PER_ITEM} bytes); shorten the name or prompt template`
+    );
+  }
+  return errors;
+}
+
+/**
+ * Keep only well-formed actions from a stored value
+ */
+export function normalizeCustomQuickActions(value: unknown): CustomQuickAction[] {
+  if (!Array.isArray(value)) return [];
+
+  return value
+    .filter(
+      (item): item is CustomQuickAction =>
+        !!item &&
+        typeof item === 'object' &&
+        typeof item.id === 'string' &&
+        /^[\w-]{1,64}$/.test(item.id) &&
+        typeof item.promptTemplate === 'string' &&
+        validateCustomQuickAction(item).length === 0
+    )
+    .slice(0, MAX_CUSTOM_QUICK_ACTIONS)
+    .map((item) => ({
+      id: item.id,
+      name: item.name.trim(),
+      emoji: item.emoji.trim(),
+      promptTemplate: item.promptTemplate,
+      model: typeof item.model === 'string' && item.model.trim() ? item.model.trim() : undefined,
+      replaceSelection: item.replaceSelection === true,
+    }));
+}
+
+async function loadStoredIds(): Promise<unknown[]> {
+  const result = await syncStorageGet<{ customQuickActions?: unknown }>(CUSTOM_QUICK_ACTIONS_KEY);
+  return Array.isArray(result.customQuickActions) ? result.customQuickActions : [];
+}
+
+export async function loadCustomQuickActions(): Promise<CustomQuickAction[]> {
+  try {
+    const stored = await loadStoredIds();
+    // Earlier versions kept the whole list under the one key
+    if (stored.some((item) => typeof item === 'object')) {
+      return normalizeCustomQuickActions(stored);
+    }
+
+    const ids = stored.filter((id): id is string => typeof id === 'string');
+    if (ids.length === 0) return [];
+    const items = await syncStorageGet(ids.map(customQuickActionKey));
+    return normalizeCustomQuickActions(ids.map((id) => items[customQuickActionKey(id)]));
+  } catch (error) {
+    console.error('[CustomQuickActions] Failed to load custom actions:', error);
+    return [];
+  }
+}
+
+/**
+ * Save the actions in order. Throws before writing anything when an action is
+ * over the sync storage per-item quota.
+ */
+export async function saveCustomQuickActions(actions: CustomQuickAction[]): Promise<void> {
+  // Before normalizing, which would drop an oversized action without a word
+  for (const action of actions) {
+    const bytes = customQuickActionBytes(action);
+    if (bytes > SYNC_QUOTA_BYTES_PER_ITEM) {
+      throw new Error(
+        `"${action.name}" is too large to sync (${bytes} of ${SYNC_QUOTA_BYTES_PER_ITEM} bytes); shorten its name or prompt template`
+      );
+    }
+  }
+
+  const normalized = normalizeCustomQuickActions(actions);
+  const ids = normalized.map((action) => action.id);
+  const removed = (await loadStoredIds()).filter(
+    (id): id is string => typeof id === 'string' && !ids.includes(id)
+  );
+  await syncStorageSet(
+    Object.fromEntries([
+      [CUSTOM_QUICK_ACTIONS_KEY, ids],
+      ...normalized.map((action) => [customQuickActionKey(action.id), action]),
+    ])
+  );
+  if (removed.length > 0) await syncStorageRemove(removed.map(customQuickActionKey));
+}
+
+export async function getCustomQuickAction(id: string): Promise<CustomQuickAction | null> {
+  const actions = await loadCustomQuickActions();
+  return actions.find((action) => action.id === id) ?? null;
+}
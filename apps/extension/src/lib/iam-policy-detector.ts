@@ -0,0 +1,48 @@
+/**
+ * IAM Policy Detector
+ * Recognizes AWS IAM policy documents in selected text, so the selection
+ * toolbar can offer the IAM policy quick action
+ */
+
+// Selections longer than this are left alone; policies max out at ~10 KB
+const MAX_POLICY_LENGTH = 20_000;
+
+const EFFECT_PATTERN = /"Effect"\s*:\s*"(Allow|Deny)"/;
+const ACTION_PATTERN = /"(Not)?(Action|Principal)"\s*:/;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// `aws iam get-role` and friends nest the document a couple of levels down
+function hasPolicyStatements(value: unknown, depth = 0): boolean {
+  if (!isObject(value)) return false;
+  if (!('Statement' in value)) {
+    return depth < 3 && Object.values(value).some((child) => hasPolicyStatements(child, depth + 1));
+  }
+  const statements = Array.isArray(value.Statement) ? value.Statement : [value.Statement];
+  return statements.some(
+    (statement) =>
+      isObject(statement) && (statement.Effect === 'Allow' || statement.Effect === 'Deny')
+  );
+}
+
+/**
+ * Whether the text is (or contains) an IAM policy document. Selections that
+ * aren't valid JSON, such as a policy copied from a partly rendered page, still
+ * count when they have the `Statement`, `Effect` and `Action` keys.
+ */
+export function isIamPolicyDocument(text: string): boolean {
+  const trimmed = text.trim();
+  if (trimmed.length > MAX_POLICY_LENGTH || !trimmed.includes('"Statement"')) return false;
+
+  const start = trimmed.indexOf('{');
+  const end = trimmed.lastIndexOf('}');
+  if (start === -1 || end <= start) return false;
+
+  try {
+    return hasPolicyStatements(JSON.parse(trimmed.slice(start, end + 1)));
+  } catch {
+    return EFFECT_PATTERN.test(trimmed) && ACTION_PATTERN.test(trimmed);
+  }
+}
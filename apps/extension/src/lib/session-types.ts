@@ -0,0 +1,34 @@
+/**
+ * Display helpers for built-in session types and user-defined personas
+ */
+
+import { SESSION_TYPE_CONFIGS, getPersonaId } from '@devmentorai/shared';
+import type { Persona, SessionType } from '@devmentorai/shared';
+
+export interface SessionTypeInfo {
+  name: string;
+  icon: string;
+  description: string;
+}
+
+export function getSessionTypeInfo(type: SessionType, personas: Persona[]): SessionTypeInfo {
+  const personaId = getPersonaId(type);
+  if (!personaId) {
+    const config = SESSION_TYPE_CONFIGS[type as keyof typeof SESSION_TYPE_CONFIGS];
+    return {
+      name: config?.name ?? type,
+      icon: config?.icon ?? '💬',
+      description: config?.description ?? '',
+    };
+  }
+
+  const persona = personas.find((p) => p.id === personaId);
+  if (!persona) {
+    return { name: 'Deleted persona', icon: '🧩', description: 'This persona no longer exists' };
+  }
+  return {
+    name: persona.name,
+    icon: persona.icon,
+    description: persona.description || 'Custom persona',
+  };
+}
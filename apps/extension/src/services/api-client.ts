@@ -1,20 +1,44 @@
 import { API_ENDPOINTS, DEFAULT_CONFIG } from '@devmentorai/shared';
 import type {
   ApiResponse,
+  ConfigAnalysisResult,
+  ConfigRuleInfo,
+  ConfigRulesResponse,
+  ConfigType,
   CopilotAuthStatus,
   CopilotQuotaStatus,
+  CreatePersonaRequest,
   CreateSessionRequest,
   HealthResponse,
+  LlmProviderId,
+  LlmProviderInfo,
   Message,
+  MessageSearchResult,
   ModelInfo,
   PaginatedResponse,
+  PairResponse,
+  PermissionDecision,
+  Persona,
+  PruneReport,
   ReasoningEffort,
+  RetentionPolicy,
   SendMessageRequest,
+  ServerConfigReport,
+  ServerConfigUpdate,
   Session,
+  SessionExport,
+  SessionExportFormat,
+  StorageReport,
   StreamEvent,
+  TerraformPlanAnalysis,
+  ToolPermissionPolicy,
+  ToolPermissionSetting,
+  UpdatePersonaRequest,
   UpdateSessionRequest,
+  UsageQuery,
+  UsageReport,
 } from '@devmentorai/shared';
-import { storageGet } from '../lib/browser-utils';
+import { storageGet, storageRemove, storageSet } from '../lib/browser-utils';
 
 interface ModelsResponse {
   models: ModelInfo[];
@@ -23,6 +47,8 @@ interface ModelsResponse {
 
 export class ApiClient {
   private static instance: ApiClient;
+  // Shared by every instance so image URLs can be authorized synchronously
+  private static authToken: string | null = null;
   private baseUrl: string;
 
   constructor(baseUrl?: string) {
@@ -48,6 +74,22 @@ export class ApiClient {
     return this.baseUrl;
   }
 
+  private async resolveAuthToken(): Promise<string | null> {
+    try {
+      const { authToken } = await storageGet<{ authToken?: string }>('authToken');
+      ApiClient.authToken = authToken || null;
+    } catch {
+      // Keep the cached token if storage is unavailable in this context.
+    }
+
+    return ApiClient.authToken;
+  }
+
+  private async authHeaders(): Promise<Record<string, string>> {
+    const token = await this.resolveAuthToken();
+    return token ? { Authorization: `Bearer ${token}` } : {};
+  }
+
   static getInstance(): ApiClient {
     if (!ApiClient.instance) {
       ApiClient.instance = new ApiClient();
@@ -62,6 +104,7 @@ export class ApiClient {
         ...options,
         headers: {
           'Content-Type': 'application/json',
+          ...(await this.authHeaders()),
           ...options.headers,
         },
       });
@@ -91,8 +134,41 @@ export class ApiClient {
   }
 
   // Models
-  async getModels(): Promise<ApiResponse<ModelsResponse>> {
-    return this.request<ModelsResponse>(API_ENDPOINTS.MODELS);
+  // Pairing
+  /**
+   * Exchange a code from `devmentorai-server pair` for a token and remember it
+   */
+  async pair(code: string): Promise<ApiResponse<PairResponse>> {
+    const response = await this.request<PairResponse>(API_ENDPOINTS.AUTH_PAIR, {
+      method: 'POST',
+      body: JSON.stringify({ code }),
+    });
+    if (response.success && response.data) {
+      ApiClient.authToken = response.data.token;
+      await storageSet({ authToken: response.data.token });
+    }
+    return response;
+  }
+
+  async unpair(): Promise<void> {
+    ApiClient.authToken = null;
+    await storageRemove('authToken');
+  }
+
+  /**
+   * Whether the stored token is accepted; fails with UNAUTHORIZED when not paired
+   */
+  async getAuthStatus(): Promise<ApiResponse<{ authenticated: boolean }>> {
+    return this.request<{ authenticated: boolean }>(API_ENDPOINTS.AUTH_STATUS);
+  }
+
+  async getModels(provider?: LlmProviderId): Promise<ApiResponse<ModelsResponse>> {
+    const query = provider ? `?provider=${provider}` : '';
+    return this.request<ModelsResponse>(`${API_ENDPOINTS.MODELS}${query}`);
+  }
+
+  async getProviders(): Promise<ApiResponse<LlmProviderInfo[]>> {
+    return this.request<LlmProviderInfo[]>(API_ENDPOINTS.PROVIDERS);
   }
 
   async getAccountAuth(): Promise<ApiResponse<CopilotAuthStatus>> {
@@ -103,6 +179,16 @@ export class ApiClient {
     return this.request<CopilotQuotaStatus>(API_ENDPOINTS.ACCOUNT_QUOTA);
   }
 
+  // Usage
+  async getUsage(query: UsageQuery = {}): Promise<ApiResponse<UsageReport>> {
+    const params = new URLSearchParams();
+    if (query.from) params.set('from', query.from);
+    if (query.to) params.set('to', query.to);
+    if (query.groupBy) params.set('groupBy', query.groupBy);
+    const search = params.toString();
+    return this.request<UsageReport>(`${API_ENDPOINTS.USAGE}${search ? `?${search}` : ''}`);
+  }
+
   // Sessions
   async listSessions(): Promise<ApiResponse<PaginatedResponse<Session>>> {
     return this.request<PaginatedResponse<Session>>(API_ENDPOINTS.SESSIONS);
@@ -169,6 +255,243 @@ export class ApiClient {
     return this.request<PaginatedResponse<Message>>(API_ENDPOINTS.SESSION_MESSAGES(sessionId));
   }
 
+  /**
+   * Download a rendered session export (Markdown, JSON or HTML)
+   */
+  async exportSession(
+    sessionId: string,
+    format: SessionExportFormat
+  ): Promise<ApiResponse<{ content: string; filename: string; contentType: string }>> {
+    try {
+      const baseUrl = await this.resolveBaseUrl();
+      const response = await fetch(
+        `${baseUrl}${API_ENDPOINTS.SESSION_EXPORT(sessionId)}?format=${format}`,
+        { headers: await this.authHeaders() }
+      );
+
+      if (!response.ok) {
+        return (await response.json()) as ApiResponse<never>;
+      }
+
+      const disposition = response.headers.get('Content-Disposition') || '';
+      const filename = /filename="([^"]+)"/.exec(disposition)?.[1] || `session.${format}`;
+
+      return {
+        success: true,
+        data: {
+          content: await response.text(),
+          filename,
+          contentType: response.headers.get('Content-Type') || 'text/plain',
+        },
+      };
+    } catch (error) {
+      console.error('[ApiClient] Export failed:', error);
+      return {
+        success: false,
+        error: {
+          code: 'NETWORK_ERROR',
+          message: error instanceof Error ? error.message : 'Network error',
+        },
+      };
+    }
+  }
+
+  async importSession(data: SessionExport): Promise<ApiResponse<Session>> {
+    return this.request<Session>(API_ENDPOINTS.SESSIONS_IMPORT, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  /**
+   * Fork a session at a user message: the new session holds the history before it
+   */
+  async forkSession(sessionId: string, messageId: string): Promise<ApiResponse<Session>> {
+    return this.request<Session>(API_ENDPOINTS.MESSAGE_FORK(sessionId, messageId), {
+      method: 'POST',
+      body: JSON.stringify({}),
+    });
+  }
+
+  /**
+   * Generate another response for an assistant message, optionally with a different model
+   */
+  async regenerateMessage(
+    sessionId: string,
+    messageId: string,
+    model?: string
+  ): Promise<ApiResponse<Message>> {
+    return this.request<Message>(API_ENDPOINTS.MESSAGE_REGENERATE(sessionId, messageId), {
+      method: 'POST',
+      body: JSON.stringify({ model }),
+    });
+  }
+
+  /**
+   * Choose which regenerated variant an assistant message shows
+   */
+  async selectMessageVariant(
+    sessionId: string,
+    messageId: string,
+    activeVariant: number
+  ): Promise<ApiResponse<Message>> {
+    return this.request<Message>(API_ENDPOINTS.MESSAGE(sessionId, messageId), {
+      method: 'PATCH',
+      body: JSON.stringify({ activeVariant }),
+    });
+  }
+
+  /**
+   * Full-text search across the messages of all sessions
+   */
+  async searchMessages(
+    query: string,
+    limit?: number
+  ): Promise<ApiResponse<{ results: MessageSearchResult[] }>> {
+    const params = new URLSearchParams({ q: query });
+    if (limit !== undefined) {
+      params.set('limit', String(limit));
+    }
+    return this.request<{ results: MessageSearchResult[] }>(
+      `${API_ENDPOINTS.SESSIONS_SEARCH}?${params.toString()}`
+    );
+  }
+
+  // Personas
+  async listPersonas(): Promise<ApiResponse<Persona[]>> {
+    return this.request<Persona[]>(API_ENDPOINTS.PERSONAS);
+  }
+
+  async createPersona(data: CreatePersonaRequest): Promise<ApiResponse<Persona>> {
+    return this.request<Persona>(API_ENDPOINTS.PERSONAS, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async updatePersona(
+    personaId: string,
+    data: UpdatePersonaRequest
+  ): Promise<ApiResponse<Persona>> {
+    return this.request<Persona>(API_ENDPOINTS.PERSONA(personaId), {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async deletePersona(personaId: string): Promise<ApiResponse<void>> {
+    return this.request<void>(API_ENDPOINTS.PERSONA(personaId), {
+      method: 'DELETE',
+      body: JSON.stringify({}), // Send empty body to satisfy Content-Type header
+    });
+  }
+
+  // Tools
+  async listTools(): Promise<ApiResponse<Array<{ name: string; description: string }>>> {
+    // DevOps sessions expose every backend tool, so this is the full catalog
+    return this.request<Array<{ name: string; description: string }>>('/api/tools?type=devops');
+  }
+
+  /**
+   * Lint a config file; findings carry rule IDs and positions for an annotated view
+   */
+  async analyzeConfig(
+    content: string,
+    type: ConfigType | 'auto' = 'auto'
+  ): Promise<ApiResponse<ConfigAnalysisResult>> {
+    return this.request<ConfigAnalysisResult>(API_ENDPOINTS.TOOLS_ANALYZE_CONFIG, {
+      method: 'POST',
+      body: JSON.stringify({ content, type }),
+    });
+  }
+
+  /**
+   * Summarize `terraform show -json` output and flag risky changes
+   */
+  async analyzeTerraformPlan(plan: string): Promise<ApiResponse<TerraformPlanAnalysis>> {
+    return this.request<TerraformPlanAnalysis>(API_ENDPOINTS.TOOLS_ANALYZE_TERRAFORM_PLAN, {
+      method: 'POST',
+      body: JSON.stringify({ plan }),
+    });
+  }
+
+  async getConfigRules(): Promise<ApiResponse<ConfigRulesResponse>> {
+    return this.request<ConfigRulesResponse>(API_ENDPOINTS.TOOLS_RULES);
+  }
+
+  async setConfigRuleEnabled(
+    ruleId: string,
+    enabled: boolean
+  ): Promise<ApiResponse<ConfigRuleInfo>> {
+    return this.request<ConfigRuleInfo>(API_ENDPOINTS.TOOLS_RULE(ruleId), {
+      method: 'PUT',
+      body: JSON.stringify({ enabled }),
+    });
+  }
+
+  // Tool permissions
+  /**
+   * Answer a permission prompt received over the chat stream
+   */
+  async respondToPermission(
+    sessionId: string,
+    requestId: string,
+    decision: PermissionDecision
+  ): Promise<ApiResponse<{ requestId: string; allowed: boolean }>> {
+    return this.request<{ requestId: string; allowed: boolean }>(
+      API_ENDPOINTS.SESSION_PERMISSION(sessionId, requestId),
+      {
+        method: 'POST',
+        body: JSON.stringify({ decision }),
+      }
+    );
+  }
+
+  async getToolPermissions(): Promise<ApiResponse<ToolPermissionSetting[]>> {
+    return this.request<ToolPermissionSetting[]>(API_ENDPOINTS.TOOL_PERMISSIONS);
+  }
+
+  async setToolPermission(
+    toolName: string,
+    policy: ToolPermissionPolicy
+  ): Promise<ApiResponse<ToolPermissionSetting>> {
+    return this.request<ToolPermissionSetting>(API_ENDPOINTS.TOOL_PERMISSION(toolName), {
+      method: 'PUT',
+      body: JSON.stringify({ policy }),
+    });
+  }
+
+  // Storage
+  async getStorage(): Promise<ApiResponse<StorageReport>> {
+    return this.request<StorageReport>(API_ENDPOINTS.STORAGE);
+  }
+
+  async updateRetention(update: Partial<RetentionPolicy>): Promise<ApiResponse<RetentionPolicy>> {
+    return this.request<RetentionPolicy>(API_ENDPOINTS.STORAGE_RETENTION, {
+      method: 'PUT',
+      body: JSON.stringify(update),
+    });
+  }
+
+  async pruneStorage(dryRun = false): Promise<ApiResponse<PruneReport>> {
+    return this.request<PruneReport>(API_ENDPOINTS.STORAGE_PRUNE, {
+      method: 'POST',
+      body: JSON.stringify({ dryRun }),
+    });
+  }
+
+  // Server settings
+  async getConfig(): Promise<ApiResponse<ServerConfigReport>> {
+    return this.request<ServerConfigReport>(API_ENDPOINTS.CONFIG);
+  }
+
+  async updateConfig(update: ServerConfigUpdate): Promise<ApiResponse<ServerConfigReport>> {
+    return this.request<ServerConfigReport>(API_ENDPOINTS.CONFIG, {
+      method: 'PATCH',
+      body: JSON.stringify(update),
+    });
+  }
+
   // Chat
   async sendChat(sessionId: string, data: SendMessageRequest): Promise<ApiResponse<Message>> {
     return this.request<Message>(API_ENDPOINTS.CHAT(sessionId), {
@@ -195,13 +518,18 @@ export class ApiClient {
 
     const response = await fetch(`${baseUrl}${API_ENDPOINTS.CHAT_STREAM(sessionId)}`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', ...(await this.authHeaders()) },
       body: JSON.stringify(data),
       signal,
     });
 
     console.log('[ApiClient] Response status:', response.status, response.statusText);
 
+    if (response.status === 401) {
+      throw new Error(
+        'Not paired with the backend. Enter a pairing code in the extension settings.'
+      );
+    }
     if (!response.ok) {
       throw new Error(`Stream request failed: ${response.status}`);
     }
@@ -277,6 +605,7 @@ export class ApiClient {
     }>
   > {
     const baseUrl = await this.resolveBaseUrl();
+    const authHeaders = await this.authHeaders();
 
     // Upload images one at a time to avoid payload limits
     const allProcessed: Array<{
@@ -293,7 +622,7 @@ export class ApiClient {
     const uploadPromises = images.map(async (image) => {
       const response = await fetch(`${baseUrl}/api/images/upload/${sessionId}/${messageId}`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...authHeaders },
         body: JSON.stringify({ images: [image] }),
       });
 
@@ -327,6 +656,15 @@ export class ApiClient {
     return `${this.baseUrl}/api/${relativePath}`;
   }
 
+  /**
+   * Add the pairing token to a backend image URL, since <img> can't send headers
+   */
+  static authorizeImageUrl(url: string): string {
+    if (!ApiClient.authToken || !url.includes('/api/images/')) return url;
+    const separator = url.includes('?') ? '&' : '?';
+    return `${url}${separator}token=${encodeURIComponent(ApiClient.authToken)}`;
+  }
+
   /**
    * Get the base URL for image serving
    */
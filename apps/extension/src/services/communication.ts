@@ -5,7 +5,7 @@
  * and the backend, supporting both HTTP and Native Messaging protocols.
  */
 
-import type { ApiResponse, ModelInfo, Session } from '@devmentorai/shared';
+import type { ApiResponse, ModelInfo, PermissionDecision, Session } from '@devmentorai/shared';
 import { storageGet, storageSet } from '../lib/browser-utils';
 
 /** Chat message sent to the backend */
@@ -53,6 +53,12 @@ export interface CommunicationAdapter {
     onEvent: (event: SessionEvent) => void,
     signal?: AbortSignal
   ): Promise<void>;
+  // Answer a `permission_request` event; the stream resumes once it is answered
+  respondToPermission(
+    sessionId: string,
+    requestId: string,
+    decision: PermissionDecision
+  ): Promise<ApiResponse<{ requestId: string; allowed: boolean }>>;
 
   // Models
   listModels(): Promise<ApiResponse<{ models: ModelInfo[]; default: string }>>;
@@ -67,6 +73,31 @@ export class HttpAdapter implements CommunicationAdapter {
 
   constructor(private readonly baseUrl: string) {}
 
+  /** Pairing token header, plus the JSON content type for requests with a body */
+  private async headers(json = false): Promise<Record<string, string>> {
+    const { authToken } = await storageGet<{ authToken?: string }>('authToken');
+    return {
+      ...(json ? { 'Content-Type': 'application/json' } : {}),
+      ...(authToken ? { Authorization: `Bearer ${authToken}` } : {}),
+    };
+  }
+
+  /**
+   * Exchange a code from `devmentorai-server pair` for a token and remember it
+   */
+  async pair(code: string): Promise<ApiResponse<{ token: string }>> {
+    const response = await fetch(`${this.baseUrl}/api/auth/pair`, {
+      method: 'POST',
+      headers: await this.headers(true),
+      body: JSON.stringify({ code }),
+    });
+    const result = (await response.json()) as ApiResponse<{ token: string }>;
+    if (result.success && result.data) {
+      await storageSet({ authToken: result.data.token });
+    }
+    return result;
+  }
+
   async getHealth(): Promise<HealthStatus> {
     try {
       const response = await fetch(`${this.baseUrl}/health`);
@@ -89,25 +120,28 @@ export class HttpAdapter implements CommunicationAdapter {
   ): Promise<ApiResponse<Session>> {
     const response = await fetch(`${this.baseUrl}/api/sessions`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: await this.headers(true),
       body: JSON.stringify(session),
     });
     return response.json();
   }
 
   async getSession(sessionId: string): Promise<ApiResponse<Session>> {
-    const response = await fetch(`${this.baseUrl}/api/sessions/${sessionId}`);
+    const response = await fetch(`${this.baseUrl}/api/sessions/${sessionId}`, {
+      headers: await this.headers(),
+    });
     return response.json();
   }
 
   async listSessions(): Promise<ApiResponse<Session[]>> {
-    const response = await fetch(`${this.baseUrl}/api/sessions`);
+    const response = await fetch(`${this.baseUrl}/api/sessions`, { headers: await this.headers() });
     return response.json();
   }
 
   async deleteSession(sessionId: string): Promise<ApiResponse<void>> {
     const response = await fetch(`${this.baseUrl}/api/sessions/${sessionId}`, {
       method: 'DELETE',
+      headers: await this.headers(),
     });
     return response.json();
   }
@@ -115,7 +149,7 @@ export class HttpAdapter implements CommunicationAdapter {
   async sendMessage(sessionId: string, message: ChatMessage): Promise<ApiResponse<unknown>> {
     const response = await fetch(`${this.baseUrl}/api/sessions/${sessionId}/chat`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: await this.headers(true),
       body: JSON.stringify(message),
     });
     return response.json();
@@ -129,7 +163,7 @@ export class HttpAdapter implements CommunicationAdapter {
   ): Promise<void> {
     const response = await fetch(`${this.baseUrl}/api/sessions/${sessionId}/chat/stream`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: await this.headers(true),
       body: JSON.stringify(message),
       signal,
     });
@@ -171,8 +205,24 @@ export class HttpAdapter implements CommunicationAdapter {
     }
   }
 
+  async respondToPermission(
+    sessionId: string,
+    requestId: string,
+    decision: PermissionDecision
+  ): Promise<ApiResponse<{ requestId: string; allowed: boolean }>> {
+    const response = await fetch(
+      `${this.baseUrl}/api/sessions/${sessionId}/permissions/${requestId}`,
+      {
+        method: 'POST',
+        headers: await this.headers(true),
+        body: JSON.stringify({ decision }),
+      }
+    );
+    return response.json();
+  }
+
   async listModels(): Promise<ApiResponse<{ models: ModelInfo[]; default: string }>> {
-    const response = await fetch(`${this.baseUrl}/api/models`);
+    const response = await fetch(`${this.baseUrl}/api/models`, { headers: await this.headers() });
     return response.json();
   }
 }
@@ -357,6 +407,20 @@ export class NativeMessagingAdapter implements CommunicationAdapter {
     );
   }
 
+  async respondToPermission(
+    sessionId: string,
+    requestId: string,
+    decision: PermissionDecision
+  ): Promise<ApiResponse<{ requestId: string; allowed: boolean }>> {
+    return this.sendNativeMessage({
+      id: this.nextId(),
+      type: 'request',
+      method: 'POST',
+      path: `/api/sessions/${sessionId}/permissions/${requestId}`,
+      body: { decision },
+    });
+  }
+
   async listModels(): Promise<ApiResponse<{ models: ModelInfo[]; default: string }>> {
     return this.sendNativeMessage({
       id: this.nextId(),
@@ -464,6 +528,8 @@ export class CommunicationService {
     this.adapter.sendMessage(...args);
   streamMessage = (...args: Parameters<CommunicationAdapter['streamMessage']>) =>
     this.adapter.streamMessage(...args);
+  respondToPermission = (...args: Parameters<CommunicationAdapter['respondToPermission']>) =>
+    this.adapter.respondToPermission(...args);
   listModels = () => this.adapter.listModels();
 }
 
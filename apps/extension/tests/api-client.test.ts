@@ -0,0 +1,47 @@
+/**
+ * Unit tests for ApiClient requests that bypass the shared request helper
+ */
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ApiClient } from '../src/services/api-client';
+
+vi.mock('../src/lib/browser-utils', () => ({
+  storageGet: vi.fn(async () => ({ authToken: 'test-token' })),
+  storageSet: vi.fn(),
+  storageRemove: vi.fn(),
+}));
+
+describe('ApiClient', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    fetchMock.mockReset();
+    vi.unstubAllGlobals();
+  });
+
+  describe('exportSession', () => {
+    it('should send the pairing token', async () => {
+      fetchMock.mockResolvedValue(
+        new Response('# Session', {
+          headers: {
+            'Content-Type': 'text/markdown',
+            'Content-Disposition': 'attachment; filename="session.md"',
+          },
+        })
+      );
+
+      const result = await new ApiClient('http://localhost:3847').exportSession('s1', 'md');
+
+      expect(result).toEqual({
+        success: true,
+        data: { content: '# Session', filename: 'session.md', contentType: 'text/markdown' },
+      });
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('http://localhost:3847/api/sessions/s1/export?format=md');
+      expect(init.headers).toEqual({ Authorization: 'Bearer test-token' });
+    });
+  });
+});
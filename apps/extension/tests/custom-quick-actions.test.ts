@@ -0,0 +1,188 @@
+/**
+ * Unit tests for custom quick action helpers
+ * Tests template rendering, stored value normalization, sync storage and ID handling
+ */
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  MAX_CUSTOM_QUICK_ACTIONS,
+  MAX_PROMPT_TEMPLATE_LENGTH,
+  SYNC_QUOTA_BYTES_PER_ITEM,
+  customQuickActionBytes,
+  loadCustomQuickActions,
+  normalizeCustomQuickActions,
+  parseCustomActionId,
+  renderPromptTemplate,
+  saveCustomQuickActions,
+  toCustomActionId,
+  validateCustomQuickAction,
+} from '../src/lib/custom-quick-actions';
+
+const syncStore = vi.hoisted(() => new Map<string, unknown>());
+
+vi.mock('../src/lib/browser-utils', () => ({
+  syncStorageGet: vi.fn(async (keys: string | string[]) =>
+    Object.fromEntries(
+      [keys].flat().flatMap((key) => (syncStore.has(key) ? [[key, syncStore.get(key)]] : []))
+    )
+  ),
+  syncStorageSet: vi.fn(async (items: Record<string, unknown>) => {
+    for (const [key, value] of Object.entries(items)) syncStore.set(key, value);
+  }),
+  syncStorageRemove: vi.fn(async (keys: string[]) => {
+    for (const key of keys) syncStore.delete(key);
+  }),
+}));
+
+const validAction = {
+  id: 'to-sql',
+  name: 'To SQL',
+  emoji: '🗄️',
+  promptTemplate: 'Convert to SQL:\n\n{{selection}}',
+  replaceSelection: true,
+};
+
+describe('Custom Quick Actions', () => {
+  describe('renderPromptTemplate', () => {
+    it('should substitute all supported variables', () => {
+      const prompt = renderPromptTemplate('From {{pageTitle}} ({{ pageUrl }}):\n{{selection}}', {
+        selection: 'SELECT 1',
+        pageUrl: 'https://example.com',
+        pageTitle: 'Example',
+      });
+      expect(prompt).toBe('From Example (https://example.com):\nSELECT 1');
+    });
+
+    it('should append the selection when the template does not reference it', () => {
+      const prompt = renderPromptTemplate('Explain like I am five.  ', { selection: 'DNS' });
+      expect(prompt).toBe('Explain like I am five.\n\nDNS');
+    });
+
+    it('should render missing page values as empty strings', () => {
+      expect(renderPromptTemplate('[{{pageUrl}}] {{selection}}', { selection: 'x' })).toBe('[] x');
+    });
+
+    it('should leave unknown variables untouched', () => {
+      expect(renderPromptTemplate('{{unknown}} {{selection}}', { selection: 'x' })).toBe(
+        '{{unknown}} x'
+      );
+    });
+  });
+
+  describe('validateCustomQuickAction', () => {
+    it('should accept a complete action', () => {
+      expect(validateCustomQuickAction(validAction)).toEqual([]);
+    });
+
+    it('should report missing fields', () => {
+      expect(validateCustomQuickAction({ name: ' ', emoji: '', promptTemplate: '' })).toHaveLength(
+        3
+      );
+    });
+
+    it('should reject overly long templates', () => {
+      const errors = validateCustomQuickAction({
+        ...validAction,
+        promptTemplate: 'a'.repeat(MAX_PROMPT_TEMPLATE_LENGTH + 1),
+      });
+      expect(errors).toHaveLength(1);
+    });
+  });
+
+  describe('normalizeCustomQuickActions', () => {
+    it('should return an empty list for non-array values', () => {
+      expect(normalizeCustomQuickActions(undefined)).toEqual([]);
+      expect(normalizeCustomQuickActions({ id: 'x' })).toEqual([]);
+    });
+
+    it('should drop malformed entries', () => {
+      const result = normalizeCustomQuickActions([
+        validAction,
+        null,
+        { ...validAction, id: 'bad id!' },
+        { ...validAction, id: 'no-name', name: '' },
+      ]);
+      expect(result.map((action) => action.id)).toEqual(['to-sql']);
+    });
+
+    it('should trim fields and coerce optional values', () => {
+      const [action] = normalizeCustomQuickActions([
+        { ...validAction, name: '  To SQL ', model: '  ', replaceSelection: 'yes' },
+      ]);
+      expect(action.name).toBe('To SQL');
+      expect(action.model).toBeUndefined();
+      expect(action.replaceSelection).toBe(false);
+    });
+
+    it('should cap the number of actions', () => {
+      const many = Array.from({ length: MAX_CUSTOM_QUICK_ACTIONS + 3 }, (_, i) => ({
+        ...validAction,
+        id: `action-${i}`,
+      }));
+      expect(normalizeCustomQuickActions(many)).toHaveLength(MAX_CUSTOM_QUICK_ACTIONS);
+    });
+  });
+
+  describe('sync storage', () => {
+    beforeEach(() => {
+      syncStore.clear();
+    });
+
+    it('should store each action under its own key', async () => {
+      const long = (id: string) => ({
+        ...validAction,
+        id,
+        promptTemplate: 'a'.repeat(MAX_PROMPT_TEMPLATE_LENGTH),
+      });
+      const actions = Array.from({ length: MAX_CUSTOM_QUICK_ACTIONS }, (_, i) => long(`a${i}`));
+
+      await saveCustomQuickActions(actions);
+
+      expect(syncStore.get('customQuickActions')).toEqual(actions.map((action) => action.id));
+      for (const action of actions) {
+        expect(customQuickActionBytes(action)).toBeLessThanOrEqual(SYNC_QUOTA_BYTES_PER_ITEM);
+        expect(syncStore.get(`customQuickAction:${action.id}`)).toMatchObject({ id: action.id });
+      }
+      expect((await loadCustomQuickActions()).map((action) => action.id)).toEqual(
+        actions.map((action) => action.id)
+      );
+    });
+
+    it('should remove the keys of deleted actions', async () => {
+      await saveCustomQuickActions([validAction, { ...validAction, id: 'other' }]);
+      await saveCustomQuickActions([{ ...validAction, id: 'other' }]);
+
+      expect(syncStore.has('customQuickAction:to-sql')).toBe(false);
+      expect((await loadCustomQuickActions()).map((action) => action.id)).toEqual(['other']);
+    });
+
+    it('should read the list stored under one key by earlier versions', async () => {
+      syncStore.set('customQuickActions', [validAction]);
+
+      expect(await loadCustomQuickActions()).toEqual([{ ...validAction, model: undefined }]);
+    });
+
+    it('should refuse actions over the per-item quota before writing', async () => {
+      const huge = { ...validAction, name: 'To SQL'.padEnd(SYNC_QUOTA_BYTES_PER_ITEM, '!') };
+
+      expect(validateCustomQuickAction(huge)).toEqual([
+        expect.stringMatching(/^Action is too large to sync/),
+      ]);
+      await expect(saveCustomQuickActions([huge])).rejects.toThrow(
+        /"To SQL!+" is too large to sync/
+      );
+      expect(syncStore.size).toBe(0);
+    });
+  });
+
+  describe('action IDs', () => {
+    it('should round-trip custom action identifiers', () => {
+      expect(toCustomActionId('to-sql')).toBe('custom:to-sql');
+      expect(parseCustomActionId('custom:to-sql')).toBe('to-sql');
+    });
+
+    it('should return null for built-in actions', () => {
+      expect(parseCustomActionId('explain')).toBeNull();
+      expect(parseCustomActionId('rewrite_formal')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * Unit tests for the IAM policy detector used by the selection toolbar
+ */
+import { describe, expect, it } from 'vitest';
+import { isIamPolicyDocument } from '../src/lib/iam-policy-detector';
+
+const POLICY = JSON.stringify(
+  {
+    Version: '2012-10-17',
+    Statement: [{ Effect: 'Allow', Action: 's3:GetObject', Resource: 'arn:aws:s3:::site/*' }],
+  },
+  null,
+  2
+);
+
+describe('isIamPolicyDocument', () => {
+  it('should detect policy documents', () => {
+    expect(isIamPolicyDocument(POLICY)).toBe(true);
+    expect(isIamPolicyDocument(`Attach this policy:\n${POLICY}\nto the role.`)).toBe(true);
+  });
+
+  it('should detect policies inside AWS CLI output', () => {
+    const output = JSON.stringify({
+      PolicyVersion: { Document: JSON.parse(POLICY), VersionId: 'v2', IsDefaultVersion: true },
+    });
+    expect(isIamPolicyDocument(output)).toBe(true);
+  });
+
+  it('should detect policies that are not valid JSON', () => {
+    const partial = POLICY.replace('"Resource"', '// bucket objects\n      "Resource"');
+    expect(isIamPolicyDocument(partial)).toBe(true);
+  });
+
+  it('should ignore other text', () => {
+    expect(isIamPolicyDocument('The Statement of Work is attached.')).toBe(false);
+    expect(isIamPolicyDocument('{"Statement": "quarterly", "Effect": "none"}')).toBe(false);
+    expect(isIamPolicyDocument('{"kind": "Deployment"}')).toBe(false);
+    expect(isIamPolicyDocument(`${POLICY}${' '.repeat(20_000)}x`)).toBe(false);
+  });
+});
@@ -2,31 +2,66 @@
  * API contract definitions for DevMentorAI
  * These define the endpoints and their request/response types
  */
-import type { ApiResponse, CopilotAuthStatus, CopilotQuotaStatus, CreateSessionRequest, HealthResponse, Message, ModelInfo, PaginatedResponse, SendMessageRequest, Session, UpdateSessionRequest } from '../types/index.js';
+import type { AnalyzeConfigRequest, ApiResponse, ConfigAnalysisResult, ConfigRuleInfo, ConfigRulesResponse, CopilotAuthStatus, CopilotQuotaStatus, CreatePersonaRequest, CreateSessionRequest, HealthResponse, LlmProviderId, LlmProviderInfo, Message, MessageSearchResult, ModelInfo, PaginatedResponse, PairRequest, PairResponse, PermissionDecisionRequest, Persona, PruneReport, RegenerateMessageRequest, RetentionPolicy, SendMessageRequest, ServerConfigReport, ServerConfigUpdate, Session, SessionExport, SessionExportFormat, StorageReport, TerraformPlanAnalysis, ToolPermissionPolicy, ToolPermissionSetting, UpdateMessageRequest, UpdatePersonaRequest, UpdateSessionRequest, UsageQuery, UsageReport } from '../types/index.js';
 /**
  * Backend API endpoints contract
  */
 export declare const API_ENDPOINTS: {
     readonly HEALTH: "/api/health";
+    readonly AUTH_PAIR: "/api/auth/pair";
+    readonly AUTH_STATUS: "/api/auth/status";
     readonly SESSIONS: "/api/sessions";
+    readonly SESSIONS_SEARCH: "/api/sessions/search";
     readonly SESSION: (id: string) => string;
     readonly SESSION_RESUME: (id: string) => string;
     readonly SESSION_ABORT: (id: string) => string;
     readonly SESSION_MESSAGES: (id: string) => string;
+    readonly SESSION_EXPORT: (id: string) => string;
+    readonly MESSAGE: (sessionId: string, messageId: string) => string;
+    readonly MESSAGE_FORK: (sessionId: string, messageId: string) => string;
+    readonly MESSAGE_REGENERATE: (sessionId: string, messageId: string) => string;
+    readonly SESSIONS_IMPORT: "/api/sessions/import";
+    readonly SESSION_PERMISSION: (sessionId: string, requestId: string) => string;
     readonly CHAT: (sessionId: string) => string;
     readonly CHAT_STREAM: (sessionId: string) => string;
     readonly IMAGE_UPLOAD: (sessionId: string) => string;
+    readonly PERSONAS: "/api/personas";
+    readonly PERSONA: (id: string) => string;
     readonly MODELS: "/api/models";
+    readonly PROVIDERS: "/api/providers";
     readonly ACCOUNT_AUTH: "/api/account/auth";
     readonly ACCOUNT_QUOTA: "/api/account/quota";
+    readonly USAGE: "/api/usage";
+    readonly TOOL_PERMISSIONS: "/api/tool-permissions";
+    readonly TOOL_PERMISSION: (toolName: string) => string;
+    readonly STORAGE: "/api/storage";
+    readonly STORAGE_RETENTION: "/api/storage/retention";
+    readonly STORAGE_PRUNE: "/api/storage/prune";
+    readonly CONFIG: "/api/config";
+    readonly TOOLS_ANALYZE_CONFIG: "/api/tools/analyze-config";
+    readonly TOOLS_ANALYZE_TERRAFORM_PLAN: "/api/tools/analyze-terraform-plan";
+    readonly TOOLS_RULES: "/api/tools/rules";
+    readonly TOOLS_RULE: (ruleId: string) => string;
 };
 /**
  * API endpoint type definitions
  */
 export interface ApiEndpoints {
     'GET /api/health': {
+        query: {
+            detail?: boolean;
+        };
         response: ApiResponse<HealthResponse>;
     };
+    'POST /api/auth/pair': {
+        body: PairRequest;
+        response: ApiResponse<PairResponse>;
+    };
+    'GET /api/auth/status': {
+        response: ApiResponse<{
+            authenticated: boolean;
+        }>;
+    };
     'GET /api/sessions': {
         response: ApiResponse<PaginatedResponse<Session>>;
     };
@@ -34,6 +69,15 @@ export interface ApiEndpoints {
         body: CreateSessionRequest;
         response: ApiResponse<Session>;
     };
+    'GET /api/sessions/search': {
+        query: {
+            q: string;
+            limit?: number;
+        };
+        response: ApiResponse<{
+            results: MessageSearchResult[];
+        }>;
+    };
     'GET /api/sessions/:id': {
         params: {
             id: string;
@@ -71,6 +115,42 @@ export interface ApiEndpoints {
         };
         response: ApiResponse<PaginatedResponse<Message>>;
     };
+    'GET /api/sessions/:id/export': {
+        params: {
+            id: string;
+        };
+        query: {
+            format?: SessionExportFormat;
+        };
+        response: SessionExport | string;
+    };
+    'POST /api/sessions/import': {
+        body: SessionExport;
+        response: ApiResponse<Session>;
+    };
+    'POST /api/sessions/:id/messages/:messageId/fork': {
+        params: {
+            id: string;
+            messageId: string;
+        };
+        response: ApiResponse<Session>;
+    };
+    'POST /api/sessions/:id/messages/:messageId/regenerate': {
+        params: {
+            id: string;
+            messageId: string;
+        };
+        body: RegenerateMessageRequest;
+        response: ApiResponse<Message>;
+    };
+    'PATCH /api/sessions/:id/messages/:messageId': {
+        params: {
+            id: string;
+            messageId: string;
+        };
+        body: UpdateMessageRequest;
+        response: ApiResponse<Message>;
+    };
     'POST /api/sessions/:id/chat': {
         params: {
             id: string;
@@ -106,18 +186,123 @@ export interface ApiEndpoints {
             }>;
         }>;
     };
+    'GET /api/personas': {
+        response: ApiResponse<Persona[]>;
+    };
+    'POST /api/personas': {
+        body: CreatePersonaRequest;
+        response: ApiResponse<Persona>;
+    };
+    'GET /api/personas/:id': {
+        params: {
+            id: string;
+        };
+        response: ApiResponse<Persona>;
+    };
+    'PATCH /api/personas/:id': {
+        params: {
+            id: string;
+        };
+        body: UpdatePersonaRequest;
+        response: ApiResponse<Persona>;
+    };
+    'DELETE /api/personas/:id': {
+        params: {
+            id: string;
+        };
+        response: ApiResponse<void>;
+    };
     'GET /api/models': {
+        query: {
+            provider?: LlmProviderId;
+        };
         response: ApiResponse<{
             models: ModelInfo[];
             default: string;
         }>;
     };
+    'GET /api/providers': {
+        response: ApiResponse<LlmProviderInfo[]>;
+    };
     'GET /api/account/auth': {
         response: ApiResponse<CopilotAuthStatus>;
     };
     'GET /api/account/quota': {
+        query: {
+            provider?: LlmProviderId;
+        };
         response: ApiResponse<CopilotQuotaStatus>;
     };
+    'GET /api/usage': {
+        query: UsageQuery;
+        response: ApiResponse<UsageReport>;
+    };
+    'POST /api/sessions/:id/permissions/:requestId': {
+        params: {
+            id: string;
+            requestId: string;
+        };
+        body: PermissionDecisionRequest;
+        response: ApiResponse<{
+            requestId: string;
+            allowed: boolean;
+        }>;
+    };
+    'GET /api/tool-permissions': {
+        response: ApiResponse<ToolPermissionSetting[]>;
+    };
+    'PUT /api/tool-permissions/:toolName': {
+        params: {
+            toolName: string;
+        };
+        body: {
+            policy: ToolPermissionPolicy;
+        };
+        response: ApiResponse<ToolPermissionSetting>;
+    };
+    'GET /api/storage': {
+        response: ApiResponse<StorageReport>;
+    };
+    'PUT /api/storage/retention': {
+        body: Partial<RetentionPolicy>;
+        response: ApiResponse<RetentionPolicy>;
+    };
+    'POST /api/storage/prune': {
+        body: {
+            dryRun?: boolean;
+        };
+        response: ApiResponse<PruneReport>;
+    };
+    'GET /api/config': {
+        response: ApiResponse<ServerConfigReport>;
+    };
+    'PATCH /api/config': {
+        body: ServerConfigUpdate;
+        response: ApiResponse<ServerConfigReport>;
+    };
+    'POST /api/tools/analyze-config': {
+        body: AnalyzeConfigRequest;
+        response: ApiResponse<ConfigAnalysisResult>;
+    };
+    'POST /api/tools/analyze-terraform-plan': {
+        /** `terraform show -json` output */
+        body: {
+            plan: string;
+        };
+        response: ApiResponse<TerraformPlanAnalysis>;
+    };
+    'GET /api/tools/rules': {
+        response: ApiResponse<ConfigRulesResponse>;
+    };
+    'PUT /api/tools/rules/:ruleId': {
+        params: {
+            ruleId: string;
+        };
+        body: {
+            enabled: boolean;
+        };
+        response: ApiResponse<ConfigRuleInfo>;
+    };
 }
 /**
  * Default configuration values
@@ -8,22 +8,52 @@
 export const API_ENDPOINTS = {
     // Health
     HEALTH: '/api/health',
+    // Auth
+    AUTH_PAIR: '/api/auth/pair',
+    AUTH_STATUS: '/api/auth/status',
     // Sessions
     SESSIONS: '/api/sessions',
+    SESSIONS_SEARCH: '/api/sessions/search',
     SESSION: (id) => `/api/sessions/${id}`,
     SESSION_RESUME: (id) => `/api/sessions/${id}/resume`,
     SESSION_ABORT: (id) => `/api/sessions/${id}/abort`,
     SESSION_MESSAGES: (id) => `/api/sessions/${id}/messages`,
+    SESSION_EXPORT: (id) => `/api/sessions/${id}/export`,
+    MESSAGE: (sessionId, messageId) => `/api/sessions/${sessionId}/messages/${messageId}`,
+    MESSAGE_FORK: (sessionId, messageId) => `/api/sessions/${sessionId}/messages/${messageId}/fork`,
+    MESSAGE_REGENERATE: (sessionId, messageId) => `/api/sessions/${sessionId}/messages/${messageId}/regenerate`,
+    SESSIONS_IMPORT: '/api/sessions/import',
+    SESSION_PERMISSION: (sessionId, requestId) => `/api/sessions/${sessionId}/permissions/${requestId}`,
     // Chat
     CHAT: (sessionId) => `/api/sessions/${sessionId}/chat`,
     CHAT_STREAM: (sessionId) => `/api/sessions/${sessionId}/chat/stream`,
     // Image upload (pre-upload before sending chat)
     IMAGE_UPLOAD: (sessionId) => `/api/sessions/${sessionId}/images/upload`,
+    // Personas
+    PERSONAS: '/api/personas',
+    PERSONA: (id) => `/api/personas/${id}`,
     // Models
     MODELS: '/api/models',
+    PROVIDERS: '/api/providers',
     // Account
     ACCOUNT_AUTH: '/api/account/auth',
     ACCOUNT_QUOTA: '/api/account/quota',
+    // Usage
+    USAGE: '/api/usage',
+    // Tool permissions
+    TOOL_PERMISSIONS: '/api/tool-permissions',
+    TOOL_PERMISSION: (toolName) => `/api/tool-permissions/${encodeURIComponent(toolName)}`,
+    // Storage
+    STORAGE: '/api/storage',
+    STORAGE_RETENTION: '/api/storage/retention',
+    STORAGE_PRUNE: '/api/storage/prune',
+    // Config
+    CONFIG: '/api/config',
+    // Tools
+    TOOLS_ANALYZE_CONFIG: '/api/tools/analyze-config',
+    TOOLS_ANALYZE_TERRAFORM_PLAN: '/api/tools/analyze-terraform-plan',
+    TOOLS_RULES: '/api/tools/rules',
+    TOOLS_RULE: (ruleId) => `/api/tools/rules/${encodeURIComponent(ruleId)}`,
 };
 /**
  * Default configuration values
@@ -4,17 +4,44 @@
  */
 
 import type {
+  AnalyzeConfigRequest,
   ApiResponse,
+  ConfigAnalysisResult,
+  ConfigRuleInfo,
+  ConfigRulesResponse,
   CopilotAuthStatus,
   CopilotQuotaStatus,
+  CreatePersonaRequest,
   CreateSessionRequest,
   HealthResponse,
+  LlmProviderId,
+  LlmProviderInfo,
   Message,
+  MessageSearchResult,
   ModelInfo,
   PaginatedResponse,
+  PairRequest,
+  PairResponse,
+  PermissionDecisionRequest,
+  Persona,
+  PruneReport,
+  RegenerateMessageRequest,
+  RetentionPolicy,
   SendMessageRequest,
+  ServerConfigReport,
+  ServerConfigUpdate,
   Session,
+  SessionExport,
+  SessionExportFormat,
+  StorageReport,
+  TerraformPlanAnalysis,
+  ToolPermissionPolicy,
+  ToolPermissionSetting,
+  UpdateMessageRequest,
+  UpdatePersonaRequest,
   UpdateSessionRequest,
+  UsageQuery,
+  UsageReport,
 } from '../types/index.js';
 
 /**
@@ -24,12 +51,28 @@ export const API_ENDPOINTS = {
   // Health
   HEALTH: '/api/health',
 
+  // Auth
+  AUTH_PAIR: '/api/auth/pair',
+  AUTH_STATUS: '/api/auth/status',
+
   // Sessions
   SESSIONS: '/api/sessions',
+  SESSIONS_SEARCH: '/api/sessions/search',
   SESSION: (id: string) => `/api/sessions/${id}`,
   SESSION_RESUME: (id: string) => `/api/sessions/${id}/resume`,
   SESSION_ABORT: (id: string) => `/api/sessions/${id}/abort`,
   SESSION_MESSAGES: (id: string) => `/api/sessions/${id}/messages`,
+  SESSION_EXPORT: (id: string) => `/api/sessions/${id}/export`,
+  MESSAGE: (sessionId: string, messageId: string) =>
+    `/api/sessions/${sessionId}/messages/${messageId}`,
+  MESSAGE_FORK: (sessionId: string, messageId: string) =>
+    `/api/sessions/${sessionId}/messages/${messageId}/fork`,
+  MESSAGE_REGENERATE: (sessionId: string, messageId: string) =>
+    `/api/sessions/${sessionId}/messages/${messageId}/regenerate`,
+  SESSIONS_IMPORT: '/api/sessions/import',
+
+  SESSION_PERMISSION: (sessionId: string, requestId: string) =>
+    `/api/sessions/${sessionId}/permissions/${requestId}`,
 
   // Chat
   CHAT: (sessionId: string) => `/api/sessions/${sessionId}/chat`,
@@ -38,12 +81,38 @@ export const API_ENDPOINTS = {
   // Image upload (pre-upload before sending chat)
   IMAGE_UPLOAD: (sessionId: string) => `/api/sessions/${sessionId}/images/upload`,
 
+  // Personas
+  PERSONAS: '/api/personas',
+  PERSONA: (id: string) => `/api/personas/${id}`,
+
   // Models
   MODELS: '/api/models',
+  PROVIDERS: '/api/providers',
 
   // Account
   ACCOUNT_AUTH: '/api/account/auth',
   ACCOUNT_QUOTA: '/api/account/quota',
+
+  // Usage
+  USAGE: '/api/usage',
+
+  // Tool permissions
+  TOOL_PERMISSIONS: '/api/tool-permissions',
+  TOOL_PERMISSION: (toolName: string) => `/api/tool-permissions/${encodeURIComponent(toolName)}`,
+
+  // Storage
+  STORAGE: '/api/storage',
+  STORAGE_RETENTION: '/api/storage/retention',
+  STORAGE_PRUNE: '/api/storage/prune',
+
+  // Config
+  CONFIG: '/api/config',
+
+  // Tools
+  TOOLS_ANALYZE_CONFIG: '/api/tools/analyze-config',
+  TOOLS_ANALYZE_TERRAFORM_PLAN: '/api/tools/analyze-terraform-plan',
+  TOOLS_RULES: '/api/tools/rules',
+  TOOLS_RULE: (ruleId: string) => `/api/tools/rules/${encodeURIComponent(ruleId)}`,
 } as const;
 
 /**
@@ -52,9 +121,21 @@ export const API_ENDPOINTS = {
 export interface ApiEndpoints {
   // GET /api/health
   'GET /api/health': {
+    query: { detail?: boolean };
     response: ApiResponse<HealthResponse>;
   };
 
+  // POST /api/auth/pair
+  'POST /api/auth/pair': {
+    body: PairRequest;
+    response: ApiResponse<PairResponse>;
+  };
+
+  // GET /api/auth/status
+  'GET /api/auth/status': {
+    response: ApiResponse<{ authenticated: boolean }>;
+  };
+
   // GET /api/sessions
   'GET /api/sessions': {
     response: ApiResponse<PaginatedResponse<Session>>;
@@ -66,6 +147,12 @@ export interface ApiEndpoints {
     response: ApiResponse<Session>;
   };
 
+  // GET /api/sessions/search
+  'GET /api/sessions/search': {
+    query: { q: string; limit?: number };
+    response: ApiResponse<{ results: MessageSearchResult[] }>;
+  };
+
   // GET /api/sessions/:id
   'GET /api/sessions/:id': {
     params: { id: string };
@@ -103,6 +190,39 @@ export interface ApiEndpoints {
     response: ApiResponse<PaginatedResponse<Message>>;
   };
 
+  // GET /api/sessions/:id/export (raw document, served as an attachment)
+  'GET /api/sessions/:id/export': {
+    params: { id: string };
+    query: { format?: SessionExportFormat };
+    response: SessionExport | string;
+  };
+
+  // POST /api/sessions/import
+  'POST /api/sessions/import': {
+    body: SessionExport;
+    response: ApiResponse<Session>;
+  };
+
+  // POST /api/sessions/:id/messages/:messageId/fork
+  'POST /api/sessions/:id/messages/:messageId/fork': {
+    params: { id: string; messageId: string };
+    response: ApiResponse<Session>;
+  };
+
+  // POST /api/sessions/:id/messages/:messageId/regenerate
+  'POST /api/sessions/:id/messages/:messageId/regenerate': {
+    params: { id: string; messageId: string };
+    body: RegenerateMessageRequest;
+    response: ApiResponse<Message>;
+  };
+
+  // PATCH /api/sessions/:id/messages/:messageId
+  'PATCH /api/sessions/:id/messages/:messageId': {
+    params: { id: string; messageId: string };
+    body: UpdateMessageRequest;
+    response: ApiResponse<Message>;
+  };
+
   // POST /api/sessions/:id/chat
   'POST /api/sessions/:id/chat': {
     params: { id: string };
@@ -131,11 +251,47 @@ export interface ApiEndpoints {
     }>;
   };
 
+  // GET /api/personas
+  'GET /api/personas': {
+    response: ApiResponse<Persona[]>;
+  };
+
+  // POST /api/personas
+  'POST /api/personas': {
+    body: CreatePersonaRequest;
+    response: ApiResponse<Persona>;
+  };
+
+  // GET /api/personas/:id
+  'GET /api/personas/:id': {
+    params: { id: string };
+    response: ApiResponse<Persona>;
+  };
+
+  // PATCH /api/personas/:id
+  'PATCH /api/personas/:id': {
+    params: { id: string };
+    body: UpdatePersonaRequest;
+    response: ApiResponse<Persona>;
+  };
+
+  // DELETE /api/personas/:id
+  'DELETE /api/personas/:id': {
+    params: { id: string };
+    response: ApiResponse<void>;
+  };
+
   // GET /api/models
   'GET /api/models': {
+    query: { provider?: LlmProviderId };
     response: ApiResponse<{ models: ModelInfo[]; default: string }>;
   };
 
+  // GET /api/providers
+  'GET /api/providers': {
+    response: ApiResponse<LlmProviderInfo[]>;
+  };
+
   // GET /api/account/auth
   'GET /api/account/auth': {
     response: ApiResponse<CopilotAuthStatus>;
@@ -143,8 +299,87 @@ export interface ApiEndpoints {
 
   // GET /api/account/quota
   'GET /api/account/quota': {
+    query: { provider?: LlmProviderId };
     response: ApiResponse<CopilotQuotaStatus>;
   };
+
+  // GET /api/usage
+  'GET /api/usage': {
+    query: UsageQuery;
+    response: ApiResponse<UsageReport>;
+  };
+
+  // POST /api/sessions/:id/permissions/:requestId
+  'POST /api/sessions/:id/permissions/:requestId': {
+    params: { id: string; requestId: string };
+    body: PermissionDecisionRequest;
+    response: ApiResponse<{ requestId: string; allowed: boolean }>;
+  };
+
+  // GET /api/tool-permissions
+  'GET /api/tool-permissions': {
+    response: ApiResponse<ToolPermissionSetting[]>;
+  };
+
+  // PUT /api/tool-permissions/:toolName
+  'PUT /api/tool-permissions/:toolName': {
+    params: { toolName: string };
+    body: { policy: ToolPermissionPolicy };
+    response: ApiResponse<ToolPermissionSetting>;
+  };
+
+  // GET /api/storage
+  'GET /api/storage': {
+    response: ApiResponse<StorageReport>;
+  };
+
+  // PUT /api/storage/retention
+  'PUT /api/storage/retention': {
+    body: Partial<RetentionPolicy>;
+    response: ApiResponse<RetentionPolicy>;
+  };
+
+  // POST /api/storage/prune
+  'POST /api/storage/prune': {
+    body: { dryRun?: boolean };
+    response: ApiResponse<PruneReport>;
+  };
+
+  // GET /api/config
+  'GET /api/config': {
+    response: ApiResponse<ServerConfigReport>;
+  };
+
+  // PATCH /api/config
+  'PATCH /api/config': {
+    body: ServerConfigUpdate;
+    response: ApiResponse<ServerConfigReport>;
+  };
+
+  // POST /api/tools/analyze-config
+  'POST /api/tools/analyze-config': {
+    body: AnalyzeConfigRequest;
+    response: ApiResponse<ConfigAnalysisResult>;
+  };
+
+  // POST /api/tools/analyze-terraform-plan
+  'POST /api/tools/analyze-terraform-plan': {
+    /** `terraform show -json` output */
+    body: { plan: string };
+    response: ApiResponse<TerraformPlanAnalysis>;
+  };
+
+  // GET /api/tools/rules
+  'GET /api/tools/rules': {
+    response: ApiResponse<ConfigRulesResponse>;
+  };
+
+  // PUT /api/tools/rules/:ruleId
+  'PUT /api/tools/rules/:ruleId': {
+    params: { ruleId: string };
+    body: { enabled: boolean };
+    response: ApiResponse<ConfigRuleInfo>;
+  };
 }
 
 /**
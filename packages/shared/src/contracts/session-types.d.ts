@@ -1,7 +1,7 @@
 /**
  * Session type configurations with pre-defined agents
  */
-import type { SessionType } from '../types/session.js';
+import type { BuiltInSessionType, PersonaSessionType, SessionType } from '../types/session.js';
 export interface AgentConfig {
     name: string;
     displayName: string;
@@ -15,9 +15,21 @@ export interface SessionTypeConfig {
     agent: AgentConfig | null;
     defaultModel: string;
 }
-export declare const SESSION_TYPE_CONFIGS: Record<SessionType, SessionTypeConfig>;
+export declare const SESSION_TYPE_CONFIGS: Record<BuiltInSessionType, SessionTypeConfig>;
 /**
- * Get the agent config for a session type
+ * Check whether a session type refers to a user-defined persona
+ */
+export declare function isPersonaSessionType(type: string): type is PersonaSessionType;
+/**
+ * Session type used by sessions created from a persona
+ */
+export declare function toPersonaSessionType(personaId: string): PersonaSessionType;
+/**
+ * Get the persona ID from a session type, or null for built-in types
+ */
+export declare function getPersonaId(type: SessionType): string | null;
+/**
+ * Get the agent config for a session type (personas carry their own prompt)
  */
 export declare function getAgentConfig(type: SessionType): AgentConfig | null;
 /**
@@ -106,16 +106,39 @@ When reviewing code, focus on:
         agent: null, // Uses default Copilot behavior
     },
 };
+const PERSONA_TYPE_PREFIX = 'persona:';
 /**
- * Get the agent config for a session type
+ * Check whether a session type refers to a user-defined persona
+ */
+export function isPersonaSessionType(type) {
+    return type.startsWith(PERSONA_TYPE_PREFIX);
+}
+/**
+ * Session type used by sessions created from a persona
+ */
+export function toPersonaSessionType(personaId) {
+    return `${PERSONA_TYPE_PREFIX}${personaId}`;
+}
+/**
+ * Get the persona ID from a session type, or null for built-in types
+ */
+export function getPersonaId(type) {
+    return isPersonaSessionType(type) ? type.slice(PERSONA_TYPE_PREFIX.length) : null;
+}
+/**
+ * Get the agent config for a session type (personas carry their own prompt)
  */
 export function getAgentConfig(type) {
+    if (isPersonaSessionType(type))
+        return null;
     return SESSION_TYPE_CONFIGS[type]?.agent ?? null;
 }
 /**
  * Get the default model for a session type
  */
 export function getDefaultModel(type) {
+    if (isPersonaSessionType(type))
+        return 'gpt-5-mini';
     return SESSION_TYPE_CONFIGS[type]?.defaultModel ?? 'gpt-5-mini';
 }
 //# sourceMappingURL=session-types.js.map
\ No newline at end of file
@@ -2,7 +2,7 @@
  * Session type configurations with pre-defined agents
  */
 
-import type { SessionType } from '../types/session.js';
+import type { BuiltInSessionType, PersonaSessionType, SessionType } from '../types/session.js';
 
 export interface AgentConfig {
   name: string;
@@ -19,7 +19,7 @@ export interface SessionTypeConfig {
   defaultModel: string;
 }
 
-export const SESSION_TYPE_CONFIGS: Record<SessionType, SessionTypeConfig> = {
+export const SESSION_TYPE_CONFIGS: Record<BuiltInSessionType, SessionTypeConfig> = {
   devops: {
     name: 'DevOps Mentor',
     description: 'Expert in DevOps, cloud infrastructure, and best practices',
@@ -128,10 +128,34 @@ When reviewing code, focus on:
   },
 };
 
+const PERSONA_TYPE_PREFIX = 'persona:';
+
+/**
+ * Check whether a session type refers to a user-defined persona
+ */
+export function isPersonaSessionType(type: string): type is PersonaSessionType {
+  return type.startsWith(PERSONA_TYPE_PREFIX);
+}
+
+/**
+ * Session type used by sessions created from a persona
+ */
+export function toPersonaSessionType(personaId: string): PersonaSessionType {
+  return `${PERSONA_TYPE_PREFIX}${personaId}`;
+}
+
+/**
+ * Get the persona ID from a session type, or null for built-in types
+ */
+export function getPersonaId(type: SessionType): string | null {
+  return isPersonaSessionType(type) ? type.slice(PERSONA_TYPE_PREFIX.length) : null;
+}
+
 /**
- * Get the agent config for a session type
+ * Get the agent config for a session type (personas carry their own prompt)
  */
 export function getAgentConfig(type: SessionType): AgentConfig | null {
+  if (isPersonaSessionType(type)) return null;
   return SESSION_TYPE_CONFIGS[type]?.agent ?? null;
 }
 
@@ -139,5 +163,6 @@ export function getAgentConfig(type: SessionType): AgentConfig | null {
  * Get the default model for a session type
  */
 export function getDefaultModel(type: SessionType): string {
+  if (isPersonaSessionType(type)) return 'gpt-5-mini';
   return SESSION_TYPE_CONFIGS[type]?.defaultModel ?? 'gpt-5-mini';
 }
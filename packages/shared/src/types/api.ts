@@ -22,20 +22,64 @@ export interface PaginatedResponse<T> {
   hasMore: boolean;
 }
 
+/** Pairing code printed by `devmentorai-server pair` */
+export interface PairRequest {
+  code: string;
+}
+
+/** Bearer token to send as `Authorization: Bearer <token>` */
+export interface PairResponse {
+  token: string;
+}
+
+export type HealthStatus = 'healthy' | 'degraded' | 'unhealthy';
+
+/** Part of the backend checked by `GET /api/health?detail=true` */
+export type HealthComponentName =
+  | 'database'
+  | 'images'
+  | 'copilot'
+  | 'auth'
+  | 'quota'
+  | 'nativeHost';
+
+export interface HealthComponent {
+  name: HealthComponentName;
+  status: HealthStatus;
+  message: string;
+}
+
 export interface HealthResponse {
-  status: 'healthy' | 'degraded' | 'unhealthy';
+  /** The worst status of the checked components */
+  status: HealthStatus;
   version: string;
   copilotConnected: boolean;
+  /** Copilot failed to start, so Copilot sessions get simulated responses */
+  mockMode: boolean;
   uptime: number;
   timestamp: string;
   /** Latest available version (if update check has run) */
   latestVersion?: string;
   /** Whether a newer version is available */
   updateAvailable?: boolean;
+  /** Per-component checks, with `?detail=true` */
+  components?: HealthComponent[];
 }
 
 export type ModelPricingTier = 'free' | 'cheap' | 'standard' | 'premium';
 
+/** Backend that serves a session's completions */
+export type LlmProviderId = 'copilot' | 'openai';
+
+export interface LlmProviderInfo {
+  id: LlmProviderId;
+  name: string;
+  /** Whether the provider initialized and serves real (non-mock) responses */
+  available: boolean;
+  /** Why the provider is unavailable, when known */
+  reason?: string;
+}
+
 export interface ModelInfo {
   id: string;
   name: string;
@@ -46,6 +90,8 @@ export interface ModelInfo {
   pricingTier?: ModelPricingTier;
   pricingMultiplier?: number;
   supportedReasoningEfforts?: string[];
+  /** LLM provider serving this model (`provider` is the model vendor) */
+  llmProvider?: LlmProviderId;
 }
 
 export interface CopilotAuthStatus {
@@ -64,3 +110,260 @@ export interface CopilotQuotaStatus {
   periodEnd?: string | null;
   raw?: Record<string, unknown>;
 }
+
+/** Dimension `GET /api/usage` aggregates by */
+export type UsageGroupBy = 'session' | 'model' | 'day' | 'action';
+
+export interface UsageTotals {
+  /** Prompts answered (chat messages and regenerations) */
+  messages: number;
+  /** Premium requests consumed: the model's pricing multiplier summed per prompt */
+  premiumRequests: number;
+  promptChars: number;
+  responseChars: number;
+  durationMs: number;
+  toolCalls: number;
+}
+
+export interface UsageGroup extends UsageTotals {
+  /** Session ID, model ID, UTC day (YYYY-MM-DD) or quick action */
+  key: string;
+  /** Human-readable name for the key (e.g. the session name) */
+  label: string;
+}
+
+export interface UsageQuery {
+  /** Inclusive lower bound (ISO date or timestamp) */
+  from?: string;
+  /** Inclusive upper bound; a bare date covers the whole day */
+  to?: string;
+  groupBy?: UsageGroupBy;
+}
+
+export interface UsageReport {
+  groupBy: UsageGroupBy;
+  from?: string;
+  to?: string;
+  totals: UsageTotals;
+  groups: UsageGroup[];
+}
+
+/** Remembered answer for a tool in every session; `ask` prompts each time */
+export type ToolPermissionPolicy = 'ask' | 'allow' | 'deny';
+
+export interface ToolPermissionSetting {
+  toolName: string;
+  description?: string;
+  policy: ToolPermissionPolicy;
+}
+
+/** Automatic cleanup settings. A null limit is off. */
+export interface RetentionPolicy {
+  /** Delete sessions not updated for this many days */
+  maxAgeDays: number | null;
+  /** Keep only this many of the most recently updated sessions */
+  maxSessions: number | null;
+  /** Drop images of the least recently updated sessions once images use more than this */
+  maxImageMb: number | null;
+  /** Never delete pinned sessions or their images */
+  keepPinned: boolean;
+  /** Page contexts kept per session (older ones are deleted) */
+  maxContextsPerSession: number;
+}
+
+export interface StorageUsage {
+  databaseBytes: number;
+  imagesBytes: number;
+  sessions: number;
+  pinnedSessions: number;
+  messages: number;
+  contexts: number;
+}
+
+export interface PruneReport {
+  /** True when nothing was deleted and the report only lists what would be */
+  dryRun: boolean;
+  sessions: Array<{ id: string; name: string; reason: 'age' | 'count' }>;
+  contexts: number;
+  /** Sessions whose images were dropped to get under `maxImageMb` */
+  imageSessions: string[];
+  /** Image folders no message points to */
+  orphanedImageDirs: number;
+  freedImageBytes: number;
+}
+
+export interface StorageReport {
+  usage: StorageUsage;
+  retention: RetentionPolicy;
+  /** Result of the last background or manual prune since the server started */
+  lastPrune?: PruneReport & { at: string };
+}
+
+export type LogLevel = 'trace' | 'debug' | 'info' | 'warn' | 'error' | 'fatal';
+
+/** Backend settings kept in `~/.devmentorai/config.json` */
+export interface ServerConfig {
+  server: {
+    port: number;
+    /** Interface to bind; loopback unless the backend must be reachable remotely */
+    host: string;
+  };
+  copilot: {
+    /** Model for new Copilot sessions; null keeps the per-session-type default */
+    defaultModel: string | null;
+  };
+  openai: {
+    baseUrl: string | null;
+    apiKey: string | null;
+    defaultModel: string | null;
+  };
+  tools: {
+    /** Give Copilot sessions the GitHub MCP server */
+    mcp: boolean;
+    /** Workspace roots for sessions created without any */
+    workspaceRoots: string[];
+    /** `analyze_config` rule IDs to skip, built-in or user-defined */
+    disabledRules: string[];
+  };
+  logging: {
+    level: LogLevel;
+    /** Log request and response bodies, with secrets scrubbed */
+    debugBodies: boolean;
+  };
+  retention: RetentionPolicy;
+}
+
+export type ServerConfigUpdate = {
+  [Section in keyof ServerConfig]?: Partial<ServerConfig[Section]>;
+};
+
+export interface ServerConfigReport {
+  /** Settings in effect, with secrets redacted */
+  config: ServerConfig;
+  /** Keys (`section.field`) set by environment variables, which win over the file */
+  overridden: string[];
+  /** Keys whose saved value only applies once the backend restarts */
+  restartRequired: string[];
+}
+
+/** Kind of file `analyze_config` checks */
+export type ConfigType =
+  | 'kubernetes'
+  | 'docker'
+  | 'terraform'
+  | 'cloudformation'
+  | 'github-actions';
+
+export type FindingSeverity = 'error' | 'warning' | 'info';
+
+/** One problem found in a configuration file */
+export interface ConfigFinding {
+  /** Stable rule ID, e.g. `KUBE001`; `PARSE` for syntax errors */
+  ruleId: string;
+  severity: FindingSeverity;
+  message: string;
+  /** 1-based position of the offending value */
+  line: number;
+  column: number;
+  /** Index of the YAML document (`---`) the finding is in */
+  document?: number;
+  /** How to fix it, possibly with a snippet */
+  fix?: string;
+}
+
+export interface ConfigAnalysisResult {
+  configType: ConfigType;
+  /** YAML documents, Dockerfile stages or HCL files checked */
+  documents: number;
+  /** Sorted by line */
+  findings: ConfigFinding[];
+  summary: Record<FindingSeverity, number>;
+  /** Markdown summary, as the model sees it */
+  report: string;
+}
+
+export interface AnalyzeConfigRequest {
+  content: string;
+  /** Detected from the content when left out or `auto` */
+  type?: ConfigType | 'auto';
+}
+
+/** An `analyze_config` rule, as listed by `/api/tools/rules` */
+export interface ConfigRuleInfo {
+  id: string;
+  configType: ConfigType;
+  severity: FindingSeverity;
+  title: string;
+  /** `user` rules come from files in `~/.devmentorai/rules/` */
+  source: 'builtin' | 'user';
+  /** File a user rule was loaded from */
+  file?: string;
+  enabled: boolean;
+}
+
+/** A rule file, or a rule in one, that couldn't be loaded */
+export interface ConfigRuleLoadError {
+  file: string;
+  message: string;
+}
+
+export interface ConfigRulesResponse {
+  /** Where user rule files are read from */
+  directory: string;
+  rules: ConfigRuleInfo[];
+  errors: ConfigRuleLoadError[];
+}
+
+/** What a plan does to a resource; `replace` is Terraform's delete-and-create */
+export type PlanAction = 'create' | 'update' | 'replace' | 'delete' | 'read' | 'no-op';
+
+export type PlanFindingKind =
+  | 'destroy'
+  | 'replace'
+  | 'iam-widening'
+  | 'security-group-widening'
+  | 'unknown-after-apply'
+  | 'drift';
+
+/** One resource the plan changes */
+export interface PlanResourceChange {
+  /** e.g. `module.db.aws_db_instance.main` */
+  address: string;
+  type: string;
+  action: PlanAction;
+  /** Attributes that force a replacement, e.g. `ami` */
+  replacePaths?: string[];
+  /** Terraform's reason for the action, e.g. `replace_because_tainted` */
+  reason?: string;
+}
+
+/** A change worth a second look before applying */
+export interface PlanFinding {
+  kind: PlanFindingKind;
+  severity: FindingSeverity;
+  address: string;
+  message: string;
+}
+
+/** Changes to one resource type */
+export interface PlanTypeSummary {
+  type: string;
+  create: number;
+  update: number;
+  replace: number;
+  delete: number;
+}
+
+export interface TerraformPlanAnalysis {
+  terraformVersion?: string;
+  /** Resources per action, no-ops included */
+  totals: Record<PlanAction, number>;
+  /** Sorted by type; types with only reads and no-ops are left out */
+  byType: PlanTypeSummary[];
+  /** Every resource that changes, in plan order */
+  changes: PlanResourceChange[];
+  /** Most severe first */
+  findings: PlanFinding[];
+  /** Markdown summary, as the model sees it */
+  report: string;
+}
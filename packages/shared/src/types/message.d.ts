@@ -9,6 +9,20 @@ export interface Message {
     content: string;
     timestamp: string;
     metadata?: MessageMetadata;
+    /** Previous message in the conversation thread (absent for the first message) */
+    parentId?: string;
+}
+/** A single full-text search hit across session messages */
+export interface MessageSearchResult {
+    messageId: string;
+    sessionId: string;
+    sessionName: string;
+    role: MessageRole;
+    timestamp: string;
+    /** Excerpt around the match, with matched terms wrapped in <mark></mark> */
+    snippet: string;
+    /** BM25 relevance score (lower is a better match) */
+    rank: number;
 }
 export type ImageSource = 'screenshot' | 'paste' | 'drop';
 export type ImageMimeType = 'image/png' | 'image/jpeg' | 'image/webp';
@@ -56,8 +70,34 @@ export interface MessageMetadata {
     contextAware?: boolean;
     /** Stream or API error encountered during response */
     error?: string;
+    /** Alternate responses produced by regenerating this assistant message */
+    variants?: MessageVariant[];
+    /** Index into `variants` of the response currently shown as the message content */
+    activeVariant?: number;
+}
+/** One generated response for an assistant message */
+export interface MessageVariant {
+    content: string;
+    /** Model that produced the response (unknown for the original response) */
+    model?: string;
+    timestamp: string;
+}
+export type BuiltInQuickAction = 'explain' | 'translate' | 'rewrite' | 'fix_grammar' | 'summarize' | 'expand' | 'analyze_config' | 'analyze_iam_policy' | 'diagnose_error';
+/** Action identifier of a user-defined quick action */
+export type CustomQuickActionId = `custom:${string}`;
+export type QuickAction = BuiltInQuickAction | CustomQuickActionId;
+/** User-defined quick action shown in the selection toolbar and context menu */
+export interface CustomQuickAction {
+    id: string;
+    name: string;
+    emoji: string;
+    /** Prompt sent to the model; supports {{selection}}, {{pageUrl}} and {{pageTitle}} */
+    promptTemplate: string;
+    /** Model for inline runs (defaults to the quick action model setting) */
+    model?: string;
+    /** Whether the result replaces the selected text in editable fields */
+    replaceSelection: boolean;
 }
-export type QuickAction = 'explain' | 'translate' | 'rewrite' | 'fix_grammar' | 'summarize' | 'expand' | 'analyze_config' | 'diagnose_error';
 export interface ToolCall {
     toolName: string;
     toolCallId: string;
@@ -74,6 +114,14 @@ export interface SendMessageRequest {
     /** Images to attach to this message */
     images?: ImagePayload[];
 }
+export interface RegenerateMessageRequest {
+    /** Model to regenerate with (defaults to the session model) */
+    model?: string;
+}
+export interface UpdateMessageRequest {
+    /** Variant to show as the message content */
+    activeVariant: number;
+}
 export interface MessageContext {
     pageUrl?: string;
     pageTitle?: string;
@@ -83,8 +131,10 @@ export interface MessageContext {
 export interface StreamEvent {
     type: StreamEventType;
     data: StreamEventData;
+    /** ID of the request that produced the event, as logged by the backend */
+    traceId?: string;
 }
-export type StreamEventType = 'message_start' | 'message_delta' | 'message_complete' | 'tool_start' | 'tool_complete' | 'error' | 'done';
+export type StreamEventType = 'message_start' | 'message_delta' | 'message_complete' | 'tool_start' | 'tool_complete' | 'tool_access_denied' | 'permission_request' | 'error' | 'done';
 export interface StreamEventData {
     content?: string;
     deltaContent?: string;
@@ -93,5 +143,41 @@ export interface StreamEventData {
     error?: string;
     messageId?: string;
     reason?: string;
+    accessDenial?: ToolAccessDenial;
+    permissionRequest?: ToolPermissionRequest;
+}
+/**
+ * A file tool call refused by the session's workspace policy. Sent as a
+ * `tool_access_denied` stream event so the user can widen the workspace.
+ */
+export interface ToolAccessDenial {
+    toolName: string;
+    toolCallId?: string;
+    /** Path the tool asked for, as given by the model */
+    path: string;
+    reason: 'outside_workspace' | 'secret';
+    /** Directory that would grant access if added as a workspace root */
+    suggestedRoot?: string;
+}
+/** What a tool asking for consent wants to do */
+export type ToolPermissionKind = 'custom-tool' | 'mcp' | 'shell' | 'write' | 'read' | 'url' | 'memory';
+/**
+ * A tool call waiting for the user's consent. Sent as a `permission_request`
+ * stream event; the stream pauses until the request is answered.
+ */
+export interface ToolPermissionRequest {
+    requestId: string;
+    /** Tool name, or the kind of built-in action (`shell`, `write`, `url`, ...) */
+    toolName: string;
+    kind: ToolPermissionKind;
+    toolCallId?: string;
+    /** Command, file, URL or tool title the request is about */
+    summary?: string;
+    args?: Record<string, unknown>;
+}
+/** Answer to a permission request */
+export type PermissionDecision = 'allow_once' | 'allow_session' | 'deny';
+export interface PermissionDecisionRequest {
+    decision: PermissionDecision;
 }
 //# sourceMappingURL=message.d.ts.map
\ No newline at end of file
@@ -1,5 +1,6 @@
 /**
  * Session type definitions for DevMentorAI
  */
-export {};
+/** Current version of the JSON export document */
+export const SESSION_EXPORT_VERSION = 1;
 //# sourceMappingURL=session.js.map
\ No newline at end of file
@@ -2,7 +2,15 @@
  * Session type definitions for DevMentorAI
  */
 
-export type SessionType = 'devops' | 'writing' | 'development' | 'general';
+import type { LlmProviderId } from './api.js';
+import type { MessageMetadata, MessageRole } from './message.js';
+
+export type BuiltInSessionType = 'devops' | 'writing' | 'development' | 'general';
+
+/** Session type for a user-defined persona, e.g. `persona:persona_lx2k9a` */
+export type PersonaSessionType = `persona:${string}`;
+
+export type SessionType = BuiltInSessionType | PersonaSessionType;
 
 export type SessionStatus = 'active' | 'paused' | 'closed';
 
@@ -16,6 +24,8 @@ export interface Session {
   type: SessionType;
   status: SessionStatus;
   model: string;
+  /** LLM provider the session talks to */
+  provider: LlmProviderId;
   systemPrompt?: string;
   customAgent?: string;
   /** Tone for AI assistant responses */
@@ -24,6 +34,10 @@ export interface Session {
   explainTradeoffs?: boolean;
   /** Current reasoning effort level for supported models */
   reasoningEffort?: ReasoningEffort;
+  /** Directories file tools may access, stored as resolved real paths */
+  workspaceRoots: string[];
+  /** Pinned sessions are kept by retention cleanup */
+  pinned: boolean;
   createdAt: string; // ISO date string
   updatedAt: string;
   messageCount: number;
@@ -40,6 +54,8 @@ export interface CreateSessionRequest {
   name: string;
   type: SessionType;
   model?: string;
+  /** LLM provider to use (defaults to Copilot) */
+  provider?: LlmProviderId;
   systemPrompt?: string;
   /** Tone for AI assistant responses */
   tone?: AssistantTone;
@@ -47,6 +63,8 @@ export interface CreateSessionRequest {
   explainTradeoffs?: boolean;
   /** Reasoning effort level for supported models (o1, o3, etc.) */
   reasoningEffort?: ReasoningEffort;
+  /** Absolute directories file tools may access (none by default) */
+  workspaceRoots?: string[];
 }
 
 export interface UpdateSessionRequest {
@@ -59,4 +77,86 @@ export interface UpdateSessionRequest {
   explainTradeoffs?: boolean;
   /** Reasoning effort level for supported models (o1, o3, etc.) */
   reasoningEffort?: ReasoningEffort | null;
+  /** Replaces the session's workspace roots */
+  workspaceRoots?: string[];
+  pinned?: boolean;
+}
+
+// ============================================================================
+// Personas
+// ============================================================================
+
+/** User-defined session type with its own agent prompt, defaults and tool set */
+export interface Persona {
+  id: string;
+  name: string;
+  description?: string;
+  icon: string;
+  /** Instructions given to the assistant for every session of this persona */
+  agentPrompt: string;
+  /** Model used when a session does not pick one */
+  defaultModel?: string;
+  /** Tone used when a session does not pick one */
+  tone?: AssistantTone;
+  /** Names of the backend tools the assistant may call */
+  tools: string[];
+  createdAt: string; // ISO date string
+  updatedAt: string;
+}
+
+export interface CreatePersonaRequest {
+  name: string;
+  description?: string;
+  icon: string;
+  agentPrompt: string;
+  defaultModel?: string;
+  tone?: AssistantTone;
+  tools?: string[];
+}
+
+export interface UpdatePersonaRequest
+  extends Partial<Omit<CreatePersonaRequest, 'description' | 'defaultModel' | 'tone'>> {
+  /** null clears the value */
+  description?: string | null;
+  defaultModel?: string | null;
+  tone?: AssistantTone | null;
+}
+
+// ============================================================================
+// Export / Import
+// ============================================================================
+
+export type SessionExportFormat = 'md' | 'json' | 'html';
+
+/** Current version of the JSON export document */
+export const SESSION_EXPORT_VERSION = 1;
+
+export interface ExportedMessage {
+  role: MessageRole;
+  content: string;
+  timestamp: string; // ISO date string
+  /**
+   * Message metadata as stored. Image attachments carry their thumbnail inlined as a
+   * data URL in `thumbnailUrl` so the document is self-contained.
+   */
+  metadata?: MessageMetadata;
+}
+
+/** Portable session document produced by the JSON export and accepted by import */
+export interface SessionExport {
+  version: number;
+  exportedAt: string; // ISO date string
+  session: {
+    name: string;
+    type: SessionType;
+    model: string;
+    provider?: LlmProviderId;
+    systemPrompt?: string;
+    tone?: AssistantTone;
+    explainTradeoffs?: boolean;
+    reasoningEffort?: ReasoningEffort;
+    createdAt: string;
+    updatedAt: string;
+  };
+  messages: ExportedMessage[];
 }
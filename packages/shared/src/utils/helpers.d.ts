@@ -13,6 +13,10 @@ export declare function generateSessionId(): string;
  * Generate a message ID
  */
 export declare function generateMessageId(): string;
+/**
+ * Generate a persona ID
+ */
+export declare function generatePersonaId(): string;
 /**
  * Format a date as ISO string
  */
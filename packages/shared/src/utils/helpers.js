@@ -21,6 +21,12 @@ export function generateSessionId() {
 export function generateMessageId() {
     return generateId('msg');
 }
+/**
+ * Generate a persona ID
+ */
+export function generatePersonaId() {
+    return generateId('persona');
+}
 /**
  * Format a date as ISO string
  */
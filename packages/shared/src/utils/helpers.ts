@@ -25,6 +25,13 @@ export function generateMessageId(): string {
   return generateId('msg');
 }
 
+/**
+ * Generate a persona ID
+ */
+export function generatePersonaId(): string {
+  return generateId('persona');
+}
+
 /**
  * Format a date as ISO string
  */